@@ -0,0 +1,36 @@
+-- Named schedule baselines with per-task planned dates
+
+CREATE TABLE "schedule_baselines" (
+  "id" TEXT NOT NULL,
+  "project_id" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "description" TEXT NOT NULL DEFAULT '',
+  "created_by" TEXT NOT NULL,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "schedule_baselines_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "schedule_baseline_tasks" (
+  "id" TEXT NOT NULL,
+  "baseline_id" TEXT NOT NULL,
+  "issue_id" TEXT NOT NULL,
+  "title" TEXT NOT NULL,
+  "parent_issue_id" TEXT,
+  "start_date" TIMESTAMP(3),
+  "end_date" TIMESTAMP(3),
+  "duration" INTEGER NOT NULL,
+  "progress" INTEGER NOT NULL,
+
+  CONSTRAINT "schedule_baseline_tasks_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "schedule_baselines_project_id_name_key" ON "schedule_baselines"("project_id", "name");
+CREATE INDEX "schedule_baselines_project_id_created_at_idx" ON "schedule_baselines"("project_id", "created_at");
+CREATE UNIQUE INDEX "schedule_baseline_tasks_baseline_id_issue_id_key" ON "schedule_baseline_tasks"("baseline_id", "issue_id");
+CREATE INDEX "schedule_baseline_tasks_issue_id_idx" ON "schedule_baseline_tasks"("issue_id");
+
+ALTER TABLE "schedule_baselines" ADD CONSTRAINT "schedule_baselines_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "schedule_baselines" ADD CONSTRAINT "schedule_baselines_created_by_fkey" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "schedule_baseline_tasks" ADD CONSTRAINT "schedule_baseline_tasks_baseline_id_fkey" FOREIGN KEY ("baseline_id") REFERENCES "schedule_baselines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "schedule_baseline_tasks" ADD CONSTRAINT "schedule_baseline_tasks_issue_id_fkey" FOREIGN KEY ("issue_id") REFERENCES "issues"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- Per-assignee working time: weekly hours, days off and capacity
+
+CREATE TABLE "resource_calendars" (
+  "id" TEXT NOT NULL,
+  "user_id" TEXT NOT NULL,
+  "weekly_hours" DOUBLE PRECISION[],
+  "days_off" TEXT[],
+  "capacity_percent" INTEGER NOT NULL DEFAULT 100,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+
+  CONSTRAINT "resource_calendars_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "resource_calendars_user_id_key" ON "resource_calendars"("user_id");
+
+ALTER TABLE "resource_calendars" ADD CONSTRAINT "resource_calendars_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
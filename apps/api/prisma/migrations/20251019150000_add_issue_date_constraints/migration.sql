@@ -0,0 +1,4 @@
+-- Typed scheduling constraint per issue (SNET, FNLT, MSO, MFO, ALAP)
+
+ALTER TABLE "issues" ADD COLUMN "constraint_type" TEXT;
+ALTER TABLE "issues" ADD COLUMN "constraint_date" TIMESTAMP(3);
@@ -0,0 +1,4 @@
+-- Fractional, unit-aware dependency lags (hours, days or percent of the predecessor)
+
+ALTER TABLE "dependencies" ALTER COLUMN "lag" SET DATA TYPE DOUBLE PRECISION;
+ALTER TABLE "dependencies" ADD COLUMN "lag_unit" TEXT NOT NULL DEFAULT 'hours';
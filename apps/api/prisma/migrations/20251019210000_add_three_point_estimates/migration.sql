@@ -0,0 +1,4 @@
+-- Optimistic and pessimistic estimates for schedule risk simulation
+
+ALTER TABLE "issues" ADD COLUMN "optimistic_estimate" DOUBLE PRECISION;
+ALTER TABLE "issues" ADD COLUMN "pessimistic_estimate" DOUBLE PRECISION;
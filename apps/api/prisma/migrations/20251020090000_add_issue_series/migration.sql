@@ -0,0 +1,34 @@
+-- Recurring issues: a series materializes copies of a template issue
+
+CREATE TABLE "issue_series" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "template_issue_id" TEXT NOT NULL,
+    "frequency" TEXT NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "count" INTEGER,
+    "until" TIMESTAMP(3),
+    "by_weekday" INTEGER[],
+    "horizon_days" INTEGER NOT NULL DEFAULT 90,
+    "generated_until" TIMESTAMP(3),
+    "cancelled_dates" TEXT[],
+    "created_by" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "issue_series_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "issue_series_template_issue_id_key" ON "issue_series"("template_issue_id");
+CREATE INDEX "issue_series_project_id_idx" ON "issue_series"("project_id");
+
+ALTER TABLE "issue_series" ADD CONSTRAINT "issue_series_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "issue_series" ADD CONSTRAINT "issue_series_template_issue_id_fkey" FOREIGN KEY ("template_issue_id") REFERENCES "issues"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "issues" ADD COLUMN "series_id" TEXT;
+ALTER TABLE "issues" ADD COLUMN "occurrence_date" TIMESTAMP(3);
+ALTER TABLE "issues" ADD COLUMN "recurrence_exception" BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX "issues_series_id_occurrence_date_idx" ON "issues"("series_id", "occurrence_date");
+
+ALTER TABLE "issues" ADD CONSTRAINT "issues_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "issue_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
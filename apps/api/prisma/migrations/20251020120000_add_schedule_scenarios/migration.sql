@@ -0,0 +1,61 @@
+-- What-if schedule scenarios forked from the live plan
+
+CREATE TABLE "schedule_scenarios" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT NOT NULL DEFAULT '',
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "created_by" TEXT NOT NULL,
+    "promoted_at" TIMESTAMP(3),
+    "promoted_by" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "schedule_scenarios_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "scenario_tasks" (
+    "id" TEXT NOT NULL,
+    "scenario_id" TEXT NOT NULL,
+    "issue_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "parent_issue_id" TEXT,
+    "status" TEXT NOT NULL,
+    "estimate_value" INTEGER NOT NULL,
+    "estimate_unit" TEXT NOT NULL,
+    "assignee_id" TEXT,
+    "start_date" TIMESTAMP(3),
+    "due_date" TIMESTAMP(3),
+    "constraint_type" TEXT,
+    "constraint_date" TIMESTAMP(3),
+    "progress" INTEGER NOT NULL,
+    "source_version" INTEGER NOT NULL,
+    "modified" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "scenario_tasks_pkey" PRIMARY KEY ("id")
+);
+
+CREATE TABLE "scenario_dependencies" (
+    "id" TEXT NOT NULL,
+    "scenario_id" TEXT NOT NULL,
+    "predecessor_id" TEXT NOT NULL,
+    "successor_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "lag" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "lag_unit" TEXT NOT NULL DEFAULT 'hours',
+
+    CONSTRAINT "scenario_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "computed_schedules" ADD COLUMN "scenario_id" TEXT;
+
+CREATE UNIQUE INDEX "schedule_scenarios_project_id_name_key" ON "schedule_scenarios"("project_id", "name");
+CREATE INDEX "schedule_scenarios_project_id_created_at_idx" ON "schedule_scenarios"("project_id", "created_at");
+CREATE UNIQUE INDEX "scenario_tasks_scenario_id_issue_id_key" ON "scenario_tasks"("scenario_id", "issue_id");
+CREATE UNIQUE INDEX "scenario_dependencies_scenario_id_predecessor_id_successor_id_type_key" ON "scenario_dependencies"("scenario_id", "predecessor_id", "successor_id", "type");
+
+ALTER TABLE "schedule_scenarios" ADD CONSTRAINT "schedule_scenarios_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "scenario_tasks" ADD CONSTRAINT "scenario_tasks_scenario_id_fkey" FOREIGN KEY ("scenario_id") REFERENCES "schedule_scenarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "scenario_dependencies" ADD CONSTRAINT "scenario_dependencies_scenario_id_fkey" FOREIGN KEY ("scenario_id") REFERENCES "schedule_scenarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+ALTER TABLE "computed_schedules" ADD CONSTRAINT "computed_schedules_scenario_id_fkey" FOREIGN KEY ("scenario_id") REFERENCES "schedule_scenarios"("id") ON DELETE CASCADE ON UPDATE CASCADE;
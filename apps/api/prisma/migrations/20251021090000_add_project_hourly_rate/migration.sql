@@ -0,0 +1,3 @@
+-- Hourly cost rate used to price estimates and spent hours in earned value metrics
+
+ALTER TABLE "projects" ADD COLUMN "hourly_rate" DOUBLE PRECISION;
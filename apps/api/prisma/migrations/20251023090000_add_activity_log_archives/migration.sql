@@ -0,0 +1,24 @@
+-- Archived activity log batches, moved out of activity_logs and restorable on demand
+
+CREATE TABLE "activity_log_archives" (
+    "id" TEXT NOT NULL,
+    "project_id" TEXT NOT NULL,
+    "archived_by" TEXT NOT NULL,
+    "entry_count" INTEGER NOT NULL,
+    "range_start" TIMESTAMP(3) NOT NULL,
+    "range_end" TIMESTAMP(3) NOT NULL,
+    "compression" TEXT NOT NULL,
+    "original_size" INTEGER NOT NULL,
+    "archive_size" INTEGER NOT NULL,
+    "payload" BYTEA NOT NULL,
+    "retain_until" TIMESTAMP(3),
+    "restored_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_log_archives_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "activity_log_archives_project_id_created_at_idx" ON "activity_log_archives"("project_id", "created_at" DESC);
+CREATE INDEX "activity_log_archives_retain_until_idx" ON "activity_log_archives"("retain_until");
+
+ALTER TABLE "activity_log_archives" ADD CONSTRAINT "activity_log_archives_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,111 @@
+-- Tamper-evident hash chain over each project's activity log
+-- Every row stores its position, the previous row's hash and a SHA-256 over its own content;
+-- activity_log_chain_heads remembers the newest link so deleting the tail is detectable too.
+
+ALTER TABLE "activity_logs" ADD COLUMN "chain_seq" INTEGER;
+ALTER TABLE "activity_logs" ADD COLUMN "prev_hash" TEXT;
+ALTER TABLE "activity_logs" ADD COLUMN "hash" TEXT;
+
+CREATE TABLE "activity_log_chain_heads" (
+    "project_id" TEXT NOT NULL,
+    "last_seq" INTEGER NOT NULL DEFAULT 0,
+    "last_hash" TEXT,
+    "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "activity_log_chain_heads_pkey" PRIMARY KEY ("project_id")
+);
+
+-- Archives keep the links of the rows they hold, and those links outlive the purged payload
+ALTER TABLE "activity_log_archives" ALTER COLUMN "payload" DROP NOT NULL;
+ALTER TABLE "activity_log_archives" ADD COLUMN "chain_anchors" JSONB;
+ALTER TABLE "activity_log_archives" ADD COLUMN "purged_at" TIMESTAMP(3);
+
+-- issue_id is left out because deleting an issue nulls it
+CREATE OR REPLACE FUNCTION activity_log_hash(entry activity_logs)
+RETURNS TEXT AS $$
+    SELECT encode(sha256(convert_to(jsonb_build_object(
+        'seq', entry.chain_seq,
+        'prevHash', entry.prev_hash,
+        'id', entry.id,
+        'projectId', entry.project_id,
+        'entityType', entry.entity_type,
+        'entityId', entry.entity_id,
+        'action', entry.action,
+        'actor', entry.actor,
+        'before', entry."before",
+        'after', entry."after",
+        'metadata', entry.metadata,
+        'createdAt', to_char(entry.created_at, 'YYYY-MM-DD"T"HH24:MI:SS.MS')
+    )::text, 'UTF8')), 'hex');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION activity_log_chain_append()
+RETURNS TRIGGER AS $$
+DECLARE
+    head activity_log_chain_heads%ROWTYPE;
+BEGIN
+    -- Rows restored from an archive keep their original link
+    IF NEW.hash IS NOT NULL THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO activity_log_chain_heads (project_id) VALUES (NEW.project_id)
+    ON CONFLICT (project_id) DO NOTHING;
+
+    -- The row lock serialises appends within a project
+    SELECT * INTO head FROM activity_log_chain_heads WHERE project_id = NEW.project_id FOR UPDATE;
+
+    NEW.chain_seq := head.last_seq + 1;
+    NEW.prev_hash := head.last_hash;
+    NEW.hash := activity_log_hash(NEW);
+
+    UPDATE activity_log_chain_heads
+    SET last_seq = NEW.chain_seq, last_hash = NEW.hash, updated_at = CURRENT_TIMESTAMP
+    WHERE project_id = NEW.project_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Chain the existing history in creation order
+DO $$
+DECLARE
+    entry activity_logs%ROWTYPE;
+    chain_project TEXT := NULL;
+    chain_position INTEGER := 0;
+    chain_hash TEXT := NULL;
+BEGIN
+    FOR entry IN SELECT * FROM activity_logs ORDER BY project_id, created_at, id LOOP
+        IF chain_project IS DISTINCT FROM entry.project_id THEN
+            IF chain_project IS NOT NULL THEN
+                INSERT INTO activity_log_chain_heads (project_id, last_seq, last_hash)
+                VALUES (chain_project, chain_position, chain_hash);
+            END IF;
+            chain_project := entry.project_id;
+            chain_position := 0;
+            chain_hash := NULL;
+        END IF;
+
+        chain_position := chain_position + 1;
+        entry.chain_seq := chain_position;
+        entry.prev_hash := chain_hash;
+        chain_hash := activity_log_hash(entry);
+
+        UPDATE activity_logs
+        SET chain_seq = entry.chain_seq, prev_hash = entry.prev_hash, hash = chain_hash
+        WHERE id = entry.id;
+    END LOOP;
+
+    IF chain_project IS NOT NULL THEN
+        INSERT INTO activity_log_chain_heads (project_id, last_seq, last_hash)
+        VALUES (chain_project, chain_position, chain_hash);
+    END IF;
+END $$;
+
+CREATE TRIGGER activity_logs_chain_append
+    BEFORE INSERT ON "activity_logs"
+    FOR EACH ROW EXECUTE FUNCTION activity_log_chain_append();
+
+CREATE UNIQUE INDEX "activity_logs_project_id_chain_seq_key" ON "activity_logs"("project_id", "chain_seq");
+
+ALTER TABLE "activity_log_chain_heads" ADD CONSTRAINT "activity_log_chain_heads_project_id_fkey" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,10 @@
+-- Activity log position of the notification evaluator, so restarts and other instances resume from it
+
+CREATE TABLE "notification_cursors" (
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL,
+    "entry_id" TEXT NOT NULL,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "notification_cursors_pkey" PRIMARY KEY ("name")
+);
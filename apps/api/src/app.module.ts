@@ -14,6 +14,12 @@ import { PerformanceModule } from './performance/performance.module'; // T039: D
 // import { TelemetryModule } from './telemetry/telemetry.module'; // T016 AC6: Telemetry API
 import { MetricsModule } from './metrics/metrics.module'; // T029: ROI measurement system
 import { IntegrationsModule } from './integrations/integrations.module'; // T034 AC1: External Integration
+import { EventsModule } from './events/events.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { AuditLogsModule } from './audit-logs/audit-logs.module';
+import { ExportsModule } from './exports/exports.module';
+import { ImportsModule } from './imports/imports.module';
+import { MspdiModule } from './mspdi/mspdi.module';
 import { JwtAuthGuard } from './auth/guards/jwt.guard';
 import { CacheService } from './common/services/cache.service';
 
@@ -58,6 +64,12 @@ import { CacheService } from './common/services/cache.service';
     // TelemetryModule, // T016 AC6: Add telemetry module - temporarily disabled
     MetricsModule, // T029: Add ROI metrics module
     IntegrationsModule, // T034 AC1: Add external integration module
+    EventsModule, // Server-sent project change stream
+    NotificationsModule, // Notification rules, inbox and email digests
+    AuditLogsModule, // Activity log browsing, search, export and archives
+    ExportsModule, // Issue, WBS, Gantt and schedule workbooks
+    ImportsModule, // CSV and .xlsx issue import
+    MspdiModule, // Microsoft Project XML import and export
   ],
   controllers: [AppController],
   providers: [
@@ -0,0 +1,255 @@
+import { createHash } from 'crypto';
+import { gzipSync } from 'zlib';
+import { ActivityLog } from '@prisma/client';
+import { AuditChainService, toChainAnchors } from './audit-chain.service';
+
+const PROJECT_ID = 'project-1';
+
+// Stands in for activity_log_hash(): any change to an entry or its link changes the hash
+function digest(log: { id: string; action: string; metadata: unknown; prev_hash?: string | null; prevHash?: string | null }): string {
+  const prevHash = log.prev_hash !== undefined ? log.prev_hash : log.prevHash;
+  return createHash('sha256').update(`${prevHash ?? ''}|${log.id}|${log.action}|${JSON.stringify(log.metadata)}`).digest('hex');
+}
+
+function buildChain(length: number): ActivityLog[] {
+  const logs: ActivityLog[] = [];
+  for (let seq = 1; seq <= length; seq++) {
+    const log = {
+      id: `log-${seq}`,
+      projectId: PROJECT_ID,
+      entityType: 'issue',
+      entityId: 'issue-1',
+      issueId: 'issue-1',
+      action: 'update',
+      actor: 'user-1',
+      before: null,
+      after: null,
+      metadata: { step: seq },
+      createdAt: new Date(Date.UTC(2025, 0, seq)),
+      chainSeq: seq,
+      prevHash: logs[seq - 2]?.hash ?? null,
+      hash: null
+    } as unknown as ActivityLog;
+    log.hash = digest(log);
+    logs.push(log);
+  }
+  return logs;
+}
+
+interface Archive {
+  id: string;
+  logs: ActivityLog[];
+  purged?: boolean;
+}
+
+/**
+ * Prisma double holding the live entries, the chain head and the archives
+ */
+function createService(live: ActivityLog[], head: { lastSeq: number; lastHash: string } | null, archives: Archive[] = []) {
+  const prisma = {
+    project: { findUnique: jest.fn().mockResolvedValue({ id: PROJECT_ID }) },
+    activityLogChainHead: { findUnique: jest.fn().mockResolvedValue(head && { projectId: PROJECT_ID, ...head }) },
+    activityLogArchive: {
+      findMany: jest.fn().mockResolvedValue(archives.map(archive => ({
+        id: archive.id,
+        chainAnchors: toChainAnchors(archive.logs),
+        purgedAt: archive.purged ? new Date() : null
+      }))),
+      findUnique: jest.fn().mockImplementation(({ where }: { where: { id: string } }) => {
+        const archive = archives.find(candidate => candidate.id === where.id);
+        return Promise.resolve(archive && {
+          payload: archive.purged ? null : gzipSync(Buffer.from(JSON.stringify(archive.logs)))
+        });
+      })
+    },
+    activityLog: {
+      count: jest.fn().mockImplementation(() => Promise.resolve(
+        live.filter(log => log.chainSeq === null || log.hash === null || log.chainSeq > (head?.lastSeq ?? 0)).length
+      ))
+    },
+    $queryRaw: jest.fn().mockImplementation((strings: TemplateStringsArray, ...values: unknown[]) => {
+      if (strings.join('?').includes('jsonb_populate_recordset')) {
+        const records = JSON.parse(values[0] as string) as Array<{ id: string; action: string; metadata: unknown; prev_hash: string | null }>;
+        return Promise.resolve(records.map(record => ({ id: record.id, computed: digest(record) })));
+      }
+      const [, fromSeq, toSeq, limit] = values as [string, number, number, number];
+      return Promise.resolve(live
+        .filter(log => log.chainSeq !== null && log.chainSeq >= fromSeq && log.chainSeq <= toSeq)
+        .sort((a, b) => a.chainSeq! - b.chainSeq!)
+        .slice(0, limit)
+        .map(log => ({ id: log.id, seq: log.chainSeq, prev_hash: log.prevHash, hash: log.hash, computed: digest(log) })));
+    })
+  };
+
+  return new AuditChainService(prisma as never);
+}
+
+function headOf(logs: ActivityLog[]) {
+  const last = logs[logs.length - 1];
+  return { lastSeq: last.chainSeq!, lastHash: last.hash! };
+}
+
+describe('AuditChainService.verify', () => {
+  it('accepts an untouched chain', async () => {
+    const logs = buildChain(5);
+
+    const result = await createService(logs, headOf(logs)).verify(PROJECT_ID, {});
+
+    expect(result).toMatchObject({
+      valid: true,
+      fromSeq: 1,
+      toSeq: 5,
+      startHash: null,
+      endHash: logs[4].hash,
+      headHash: logs[4].hash,
+      checkedEntries: 5,
+      unchainedEntries: 0,
+      firstBreak: null
+    });
+  });
+
+  it('reports an entry whose content was edited', async () => {
+    const logs = buildChain(5);
+    logs[2] = { ...logs[2], metadata: { step: 'rewritten' } };
+
+    const result = await createService(logs, headOf(logs)).verify(PROJECT_ID, {});
+
+    expect(result.valid).toBe(false);
+    expect(result.firstBreak).toMatchObject({ seq: 3, reason: 'hash_mismatch', entryId: 'log-3', expected: logs[2].hash });
+    expect(result.checkedEntries).toBe(2);
+  });
+
+  it('reports an edited entry whose hash was recomputed as a broken link', async () => {
+    const logs = buildChain(5);
+    logs[2] = { ...logs[2], metadata: { step: 'rewritten' } };
+    logs[2].hash = digest(logs[2]);
+
+    const result = await createService(logs, headOf(logs)).verify(PROJECT_ID, {});
+
+    expect(result.firstBreak).toMatchObject({ seq: 4, reason: 'link_mismatch', expected: logs[2].hash, actual: logs[3].prevHash });
+  });
+
+  it('reports entries deleted from the middle of the chain', async () => {
+    const logs = buildChain(5).filter(log => log.chainSeq !== 3);
+
+    const result = await createService(logs, headOf(logs)).verify(PROJECT_ID, {});
+
+    expect(result.firstBreak).toMatchObject({ seq: 3, reason: 'missing_entries', entryId: null });
+  });
+
+  it('reports the newest entries being removed', async () => {
+    const logs = buildChain(5);
+
+    const result = await createService(logs.slice(0, 3), headOf(logs)).verify(PROJECT_ID, {});
+
+    expect(result.firstBreak).toMatchObject({ seq: 4, reason: 'missing_entries' });
+  });
+
+  it('reports a replaced newest entry against the chain head', async () => {
+    const logs = buildChain(5);
+    const head = headOf(logs);
+    logs[4] = { ...logs[4], metadata: { step: 'replaced' } };
+    logs[4].hash = digest(logs[4]);
+
+    const result = await createService(logs, head).verify(PROJECT_ID, {});
+
+    expect(result.firstBreak).toMatchObject({ seq: 5, reason: 'head_mismatch', expected: head.lastHash, actual: logs[4].hash });
+  });
+
+  it('marks the result invalid while entries are waiting outside the chain', async () => {
+    const logs = buildChain(3);
+    const unchained = { ...buildChain(4)[3], chainSeq: null, prevHash: null, hash: null };
+
+    const result = await createService([...logs, unchained], headOf(logs)).verify(PROJECT_ID, {});
+
+    expect(result).toMatchObject({ valid: false, unchainedEntries: 1, firstBreak: null });
+  });
+
+  it('rehashes archived entries that still have their payload', async () => {
+    const logs = buildChain(6);
+
+    const result = await createService(logs.slice(3), headOf(logs), [{ id: 'archive-1', logs: logs.slice(0, 3) }])
+      .verify(PROJECT_ID, {});
+
+    expect(result).toMatchObject({ valid: true, checkedEntries: 3, checkedArchivedEntries: 3, anchoredEntries: 0 });
+  });
+
+  it('reports a tampered archived entry with its archive', async () => {
+    const logs = buildChain(6);
+    const archived = logs.slice(0, 3);
+    archived[1] = { ...archived[1], action: 'delete' };
+
+    const result = await createService(logs.slice(3), headOf(logs), [{ id: 'archive-1', logs: archived }])
+      .verify(PROJECT_ID, {});
+
+    expect(result.firstBreak).toMatchObject({ seq: 2, reason: 'hash_mismatch', entryId: 'log-2', archiveId: 'archive-1' });
+  });
+
+  it('bridges purged archives with their anchors', async () => {
+    const logs = buildChain(6);
+
+    const result = await createService(logs.slice(3), headOf(logs), [{ id: 'archive-1', logs: logs.slice(0, 3), purged: true }])
+      .verify(PROJECT_ID, {});
+
+    expect(result).toMatchObject({ valid: true, checkedEntries: 3, checkedArchivedEntries: 0, anchoredEntries: 3 });
+  });
+
+  it('reports live entries that no longer follow a purged archive', async () => {
+    const logs = buildChain(6);
+    const live = logs.slice(3);
+    live[0] = { ...live[0], prevHash: 'forged' };
+    live[0].hash = digest(live[0]);
+    live[1] = { ...live[1], prevHash: live[0].hash };
+    live[1].hash = digest(live[1]);
+    live[2] = { ...live[2], prevHash: live[1].hash };
+    live[2].hash = digest(live[2]);
+
+    const result = await createService(live, headOf(live), [{ id: 'archive-1', logs: logs.slice(0, 3), purged: true }])
+      .verify(PROJECT_ID, {});
+
+    expect(result.firstBreak).toMatchObject({ seq: 4, reason: 'link_mismatch', expected: logs[2].hash, actual: 'forged' });
+  });
+
+  it('verifies a window of the chain starting from its previous hash', async () => {
+    const logs = buildChain(6);
+
+    const result = await createService(logs, headOf(logs)).verify(PROJECT_ID, { fromSeq: 3, toSeq: 4 });
+
+    expect(result).toMatchObject({
+      valid: true,
+      fromSeq: 3,
+      toSeq: 4,
+      startHash: logs[1].hash,
+      endHash: logs[3].hash,
+      checkedEntries: 2
+    });
+  });
+});
+
+describe('toChainAnchors', () => {
+  it('groups consecutive positions into runs and skips unchained entries', () => {
+    const logs = buildChain(6);
+    const unchained = { ...logs[0], id: 'unchained', chainSeq: null, hash: null };
+
+    const anchors = toChainAnchors([logs[4], logs[0], unchained, logs[1], logs[5]]);
+
+    expect(anchors).toEqual([
+      {
+        firstSeq: 1,
+        lastSeq: 2,
+        prevHash: null,
+        lastHash: logs[1].hash,
+        firstAt: logs[0].createdAt.toISOString(),
+        lastAt: logs[1].createdAt.toISOString()
+      },
+      {
+        firstSeq: 5,
+        lastSeq: 6,
+        prevHash: logs[3].hash,
+        lastHash: logs[5].hash,
+        firstAt: logs[4].createdAt.toISOString(),
+        lastAt: logs[5].createdAt.toISOString()
+      }
+    ]);
+  });
+});
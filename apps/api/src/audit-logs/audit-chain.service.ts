@@ -0,0 +1,376 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ActivityLog } from '@prisma/client';
+import { gunzipSync } from 'zlib';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  VerifyAuditChainDto,
+  ChainVerificationResultDto,
+  ChainBreakDto
+} from './dto/audit-log.dto';
+
+const VERIFY_BATCH_SIZE = 2000;
+const RECOMPUTE_BATCH_SIZE = 500;
+
+/**
+ * A run of consecutive chain positions moved into one archive. Anchors stay on the
+ * archive row after its payload is purged, so the live chain can still be linked across the gap.
+ */
+export interface ChainAnchor {
+  firstSeq: number;
+  lastSeq: number;
+  prevHash: string | null; // Hash of the entry before the run
+  lastHash: string;
+  firstAt: string;
+  lastAt: string;
+}
+
+interface ChainLink {
+  seq: number;
+  id: string;
+  prevHash: string | null;
+  hash: string | null;
+  computedHash: string | null;
+  archiveId: string | null;
+}
+
+interface WalkState {
+  expectedSeq: number;
+  started: boolean;
+  linkKnown: boolean;
+  lastHash: string | null;
+  startHash: string | null;
+  checkedEntries: number;
+  checkedArchivedEntries: number;
+  anchoredEntries: number;
+  firstBreak: ChainBreakDto | null;
+}
+
+export function toChainAnchors(logs: ActivityLog[]): ChainAnchor[] {
+  const chained = logs
+    .filter(log => log.chainSeq !== null && log.hash !== null)
+    .sort((a, b) => a.chainSeq! - b.chainSeq!);
+
+  const anchors: ChainAnchor[] = [];
+  for (const log of chained) {
+    const current = anchors[anchors.length - 1];
+    if (current && current.lastSeq + 1 === log.chainSeq) {
+      current.lastSeq = log.chainSeq;
+      current.lastHash = log.hash!;
+      current.lastAt = log.createdAt.toISOString();
+    } else {
+      anchors.push({
+        firstSeq: log.chainSeq!,
+        lastSeq: log.chainSeq!,
+        prevHash: log.prevHash,
+        lastHash: log.hash!,
+        firstAt: log.createdAt.toISOString(),
+        lastAt: log.createdAt.toISOString()
+      });
+    }
+  }
+  return anchors;
+}
+
+@Injectable()
+export class AuditChainService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Walks the project's hash chain in order and reports the first broken link.
+   * Live entries and archived payloads are rehashed by the database with the same
+   * function the append trigger uses; purged archives are bridged by their anchors.
+   */
+  async verify(projectId: string, query: VerifyAuditChainDto): Promise<ChainVerificationResultDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const [head, archives] = await Promise.all([
+      this.prisma.activityLogChainHead.findUnique({ where: { projectId } }),
+      this.prisma.activityLogArchive.findMany({
+        where: { projectId },
+        select: { id: true, chainAnchors: true, purgedAt: true },
+        orderBy: { createdAt: 'asc' }
+      })
+    ]);
+    const headSeq = head?.lastSeq ?? 0;
+    const anchors = archives.flatMap(archive =>
+      ((archive.chainAnchors as unknown as ChainAnchor[] | null) ?? []).map(anchor => ({ ...anchor, archiveId: archive.id }))
+    );
+
+    const unchainedEntries = await this.prisma.activityLog.count({
+      where: {
+        projectId,
+        OR: [{ chainSeq: null }, { hash: null }, { chainSeq: { gt: headSeq } }]
+      }
+    });
+
+    let fromSeq = query.fromSeq ?? 1;
+    let toSeq = Math.min(query.toSeq ?? headSeq, headSeq);
+    if (query.startDate) {
+      fromSeq = Math.max(fromSeq, await this.firstSeqFrom(projectId, new Date(query.startDate), anchors, headSeq));
+    }
+    if (query.endDate) {
+      toSeq = Math.min(toSeq, await this.lastSeqUntil(projectId, new Date(query.endDate), anchors));
+    }
+
+    const state: WalkState = {
+      expectedSeq: fromSeq,
+      started: false,
+      linkKnown: false,
+      lastHash: null,
+      startHash: null,
+      checkedEntries: 0,
+      checkedArchivedEntries: 0,
+      anchoredEntries: 0,
+      firstBreak: null
+    };
+
+    if (fromSeq <= toSeq) {
+      const overlapping = archives.filter(archive =>
+        !archive.purgedAt && anchors.some(anchor =>
+          anchor.archiveId === archive.id && anchor.firstSeq <= toSeq && anchor.lastSeq >= fromSeq
+        )
+      );
+      const archivedLinks = await this.loadArchivedLinks(overlapping.map(archive => archive.id), fromSeq, toSeq);
+
+      await this.walk(projectId, fromSeq, toSeq, state, archivedLinks, anchors);
+
+      if (!state.firstBreak && toSeq === headSeq && state.linkKnown && state.lastHash !== head?.lastHash) {
+        state.firstBreak = this.chainBreak(toSeq, 'head_mismatch', null, null, head?.lastHash ?? null, state.lastHash);
+      }
+    }
+
+    return {
+      valid: !state.firstBreak && unchainedEntries === 0,
+      fromSeq,
+      toSeq,
+      headSeq,
+      headHash: head?.lastHash ?? null,
+      startHash: state.startHash,
+      endHash: state.linkKnown ? state.lastHash : null,
+      checkedEntries: state.checkedEntries,
+      checkedArchivedEntries: state.checkedArchivedEntries,
+      anchoredEntries: state.anchoredEntries,
+      unchainedEntries,
+      firstBreak: state.firstBreak,
+      verifiedAt: new Date().toISOString()
+    };
+  }
+
+  private async walk(
+    projectId: string,
+    fromSeq: number,
+    toSeq: number,
+    state: WalkState,
+    archivedLinks: Map<number, ChainLink>,
+    anchors: Array<ChainAnchor & { archiveId: string }>
+  ): Promise<void> {
+    let cursor = fromSeq;
+
+    for (;;) {
+      const rows = await this.prisma.$queryRaw<Array<{
+        id: string;
+        seq: number;
+        prev_hash: string | null;
+        hash: string | null;
+        computed: string;
+      }>>`
+        SELECT a.id, a.chain_seq AS seq, a.prev_hash, a.hash, activity_log_hash(a) AS computed
+        FROM activity_logs a
+        WHERE a.project_id = ${projectId} AND a.chain_seq BETWEEN ${cursor} AND ${toSeq}
+        ORDER BY a.chain_seq
+        LIMIT ${VERIFY_BATCH_SIZE}
+      `;
+
+      for (const row of rows) {
+        if (!this.fillGap(row.seq, state, archivedLinks, anchors)) return;
+        const link = { seq: row.seq, id: row.id, prevHash: row.prev_hash, hash: row.hash, computedHash: row.computed, archiveId: null };
+        if (!this.check(link, state)) return;
+        state.checkedEntries++;
+      }
+
+      if (rows.length < VERIFY_BATCH_SIZE) break;
+      cursor = rows[rows.length - 1].seq + 1;
+    }
+
+    this.fillGap(toSeq + 1, state, archivedLinks, anchors);
+  }
+
+  /**
+   * Accounts for positions before `untilSeq` that have no live entry, using archived
+   * entries where the payload still exists and anchors where it was purged
+   */
+  private fillGap(
+    untilSeq: number,
+    state: WalkState,
+    archivedLinks: Map<number, ChainLink>,
+    anchors: Array<ChainAnchor & { archiveId: string }>
+  ): boolean {
+    while (state.expectedSeq < untilSeq) {
+      const archived = archivedLinks.get(state.expectedSeq);
+      if (archived) {
+        if (!this.check(archived, state)) return false;
+        state.checkedArchivedEntries++;
+        continue;
+      }
+
+      const anchor = anchors.find(candidate =>
+        candidate.firstSeq <= state.expectedSeq && state.expectedSeq <= candidate.lastSeq
+      );
+      if (!anchor) {
+        state.firstBreak = this.chainBreak(state.expectedSeq, 'missing_entries', null, null, null, null);
+        return false;
+      }
+
+      if (anchor.firstSeq === state.expectedSeq) {
+        if (state.started && state.linkKnown && anchor.prevHash !== state.lastHash) {
+          state.firstBreak = this.chainBreak(
+            anchor.firstSeq, 'link_mismatch', null, anchor.archiveId, state.lastHash, anchor.prevHash
+          );
+          return false;
+        }
+        if (!state.started) state.startHash = anchor.prevHash;
+      }
+      state.started = true;
+
+      // A restored entry inside the run means the run's last hash cannot vouch for it
+      const end = Math.min(anchor.lastSeq, untilSeq - 1);
+      state.anchoredEntries += end - state.expectedSeq + 1;
+      state.expectedSeq = end + 1;
+      state.linkKnown = end === anchor.lastSeq;
+      state.lastHash = state.linkKnown ? anchor.lastHash : null;
+    }
+    return true;
+  }
+
+  private check(link: ChainLink, state: WalkState): boolean {
+    if (!state.started) {
+      state.started = true;
+      state.startHash = link.prevHash;
+    } else if (state.linkKnown && link.prevHash !== state.lastHash) {
+      state.firstBreak = this.chainBreak(link.seq, 'link_mismatch', link.id, link.archiveId, state.lastHash, link.prevHash);
+      return false;
+    }
+
+    if (link.computedHash !== link.hash) {
+      state.firstBreak = this.chainBreak(link.seq, 'hash_mismatch', link.id, link.archiveId, link.hash, link.computedHash);
+      return false;
+    }
+
+    state.lastHash = link.hash;
+    state.linkKnown = true;
+    state.expectedSeq = link.seq + 1;
+    return true;
+  }
+
+  /**
+   * Reads the archived entries in the window and rehashes them in the database
+   */
+  private async loadArchivedLinks(archiveIds: string[], fromSeq: number, toSeq: number): Promise<Map<number, ChainLink>> {
+    const links = new Map<number, ChainLink>();
+
+    for (const archiveId of archiveIds) {
+      const archive = await this.prisma.activityLogArchive.findUnique({
+        where: { id: archiveId },
+        select: { payload: true }
+      });
+      if (!archive?.payload) continue;
+
+      const logs = (JSON.parse(gunzipSync(archive.payload).toString('utf8')) as ActivityLog[])
+        .filter(log => log.chainSeq !== null && log.chainSeq >= fromSeq && log.chainSeq <= toSeq);
+
+      for (let i = 0; i < logs.length; i += RECOMPUTE_BATCH_SIZE) {
+        const batch = logs.slice(i, i + RECOMPUTE_BATCH_SIZE);
+        const records = batch.map(log => ({
+          id: log.id,
+          project_id: log.projectId,
+          entity_type: log.entityType,
+          entity_id: log.entityId,
+          issue_id: log.issueId,
+          action: log.action,
+          actor: log.actor,
+          before: log.before,
+          after: log.after,
+          metadata: log.metadata,
+          created_at: log.createdAt,
+          chain_seq: log.chainSeq,
+          prev_hash: log.prevHash,
+          hash: log.hash
+        }));
+        const computed = await this.prisma.$queryRaw<Array<{ id: string; computed: string }>>`
+          SELECT r.id, activity_log_hash(r) AS computed
+          FROM jsonb_populate_recordset(NULL::activity_logs, ${JSON.stringify(records)}::jsonb) r
+        `;
+        const computedById = new Map(computed.map(row => [row.id, row.computed]));
+
+        for (const log of batch) {
+          links.set(log.chainSeq!, {
+            seq: log.chainSeq!,
+            id: log.id,
+            prevHash: log.prevHash,
+            hash: log.hash,
+            computedHash: computedById.get(log.id) ?? null,
+            archiveId
+          });
+        }
+      }
+    }
+
+    return links;
+  }
+
+  private async firstSeqFrom(
+    projectId: string,
+    startDate: Date,
+    anchors: ChainAnchor[],
+    headSeq: number
+  ): Promise<number> {
+    const live = await this.prisma.activityLog.aggregate({
+      where: { projectId, createdAt: { gte: startDate } },
+      _min: { chainSeq: true }
+    });
+    // Anchors only know the time span of a run, so a run reaching into the window counts whole
+    const candidates = anchors
+      .filter(anchor => new Date(anchor.lastAt) >= startDate)
+      .map(anchor => anchor.firstSeq);
+    if (live._min.chainSeq !== null) candidates.push(live._min.chainSeq);
+
+    return candidates.length > 0 ? Math.min(...candidates) : headSeq + 1;
+  }
+
+  private async lastSeqUntil(projectId: string, endDate: Date, anchors: ChainAnchor[]): Promise<number> {
+    const live = await this.prisma.activityLog.aggregate({
+      where: { projectId, createdAt: { lte: endDate } },
+      _max: { chainSeq: true }
+    });
+    const candidates = anchors
+      .filter(anchor => new Date(anchor.firstAt) <= endDate)
+      .map(anchor => anchor.lastSeq);
+    if (live._max.chainSeq !== null) candidates.push(live._max.chainSeq);
+
+    return candidates.length > 0 ? Math.max(...candidates) : 0;
+  }
+
+  private chainBreak(
+    seq: number,
+    reason: ChainBreakDto['reason'],
+    entryId: string | null,
+    archiveId: string | null,
+    expected: string | null,
+    actual: string | null
+  ): ChainBreakDto {
+    return { seq, reason, entryId, archiveId, expected, actual };
+  }
+
+  private async getProjectOrThrow(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    return project;
+  }
+}
@@ -0,0 +1,314 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  GoneException,
+  OnModuleInit,
+  OnModuleDestroy
+} from '@nestjs/common';
+import { ActivityLog, ActivityLogArchive, Prisma } from '@prisma/client';
+import { gzipSync, gunzipSync } from 'zlib';
+import { PrismaService } from '../prisma/prisma.service';
+import { auditLogWhere } from './audit-log-query';
+import { toChainAnchors } from './audit-chain.service';
+import {
+  ArchiveAuditLogsDto,
+  RestoreAuditLogsDto,
+  ArchiveResultDto,
+  RestoreResultDto,
+  AuditLogArchiveResponseDto,
+  ArchiveCompressionLevel,
+  AuditResult
+} from './dto/audit-log.dto';
+
+// Larger batches are archived across several calls so one payload stays a manageable size
+const ARCHIVE_BATCH_SIZE = 10000;
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const GZIP_LEVELS: Record<ArchiveCompressionLevel, number> = {
+  LOW: 1,
+  MEDIUM: 6,
+  HIGH: 9
+};
+
+type ArchiveSummary = Omit<ActivityLogArchive, 'payload' | 'chainAnchors'>;
+
+@Injectable()
+export class AuditLogArchiveService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(AuditLogArchiveService.name);
+  private purgeTimer?: NodeJS.Timeout;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleInit(): void {
+    // Drop the payload of archives whose retention period has run out
+    this.purgeTimer = setInterval(() => {
+      this.purgeExpired().catch(error => this.logger.error(`Audit log archive purge failed: ${error.message}`));
+    }, PURGE_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.purgeTimer) clearInterval(this.purgeTimer);
+  }
+
+  async findAll(projectId: string): Promise<AuditLogArchiveResponseDto[]> {
+    await this.getProjectOrThrow(projectId);
+
+    const archives = await this.prisma.activityLogArchive.findMany({
+      where: { projectId },
+      select: this.summarySelect(),
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return archives.map(archive => this.toResponse(archive));
+  }
+
+  /**
+   * Moves matching entries out of activity_logs into one compressed archive row
+   */
+  async archive(projectId: string, dto: ArchiveAuditLogsDto, userId: string): Promise<ArchiveResultDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const olderThan = new Date(dto.olderThan);
+    if (olderThan.getTime() > Date.now()) {
+      throw new BadRequestException('olderThan must not be in the future');
+    }
+
+    const includeSuccessful = dto.includeSuccessful ?? true;
+    const includeErrors = dto.includeErrors ?? true;
+    if (!includeSuccessful && !includeErrors) {
+      throw new BadRequestException('Select successful entries, failed entries or both');
+    }
+    const results: AuditResult[] | undefined = includeSuccessful && includeErrors
+      ? undefined
+      : includeSuccessful ? ['SUCCESS'] : ['FAILURE', 'PARTIAL'];
+
+    const where = auditLogWhere({ projectId, results });
+    const rows = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT a.id
+      FROM activity_logs a
+      WHERE ${where} AND a.created_at < ${olderThan.toISOString()}::timestamp
+      ORDER BY a.created_at, a.id
+      LIMIT ${ARCHIVE_BATCH_SIZE + 1}
+    `;
+
+    const hasMore = rows.length > ARCHIVE_BATCH_SIZE;
+    const ids = rows.slice(0, ARCHIVE_BATCH_SIZE).map(row => row.id);
+    if (ids.length === 0) {
+      return { archived: 0, archiveSize: 0, archiveLocation: null, estimatedSavings: 0, hasMore: false };
+    }
+
+    const logs = await this.prisma.activityLog.findMany({
+      where: { id: { in: ids } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    const compression = dto.compressionLevel ?? 'MEDIUM';
+    const json = Buffer.from(JSON.stringify(logs), 'utf8');
+    const payload = gzipSync(json, { level: GZIP_LEVELS[compression] });
+    const retainUntil = dto.retentionPeriod ? this.addMonths(new Date(), dto.retentionPeriod) : null;
+
+    const archive = await this.prisma.$transaction(async tx => {
+      const created = await tx.activityLogArchive.create({
+        data: {
+          projectId,
+          archivedBy: userId,
+          entryCount: logs.length,
+          rangeStart: logs[0].createdAt,
+          rangeEnd: logs[logs.length - 1].createdAt,
+          compression,
+          originalSize: json.length,
+          archiveSize: payload.length,
+          payload,
+          // Kept after the payload is purged so the chain stays verifiable across the gap
+          chainAnchors: toChainAnchors(logs) as unknown as Prisma.InputJsonValue,
+          retainUntil
+        },
+        select: this.summarySelect()
+      });
+
+      await tx.activityLog.deleteMany({ where: { id: { in: logs.map(log => log.id) } } });
+      await this.logArchiveActivity(tx, projectId, created.id, 'archive', userId, {
+        entryCount: created.entryCount,
+        rangeStart: created.rangeStart,
+        rangeEnd: created.rangeEnd,
+        retainUntil
+      });
+
+      return created;
+    });
+
+    this.logger.log(`Archived ${archive.entryCount} activity log entries of project ${projectId} into ${archive.id}`);
+
+    return {
+      archived: archive.entryCount,
+      archiveSize: archive.archiveSize,
+      archiveLocation: archive.id,
+      estimatedSavings: Math.max(0, archive.originalSize - archive.archiveSize),
+      hasMore
+    };
+  }
+
+  /**
+   * Writes archived entries back into activity_logs; entries already present are left untouched
+   */
+  async restore(projectId: string, dto: RestoreAuditLogsDto, userId: string): Promise<RestoreResultDto> {
+    const startedAt = Date.now();
+    const archive = await this.prisma.activityLogArchive.findFirst({
+      where: { id: dto.archiveLocation, projectId }
+    });
+
+    if (!archive) {
+      throw new NotFoundException(`Audit log archive ${dto.archiveLocation} not found`);
+    }
+    if (!archive.payload) {
+      throw new GoneException(`Audit log archive ${dto.archiveLocation} was purged after its retention period`);
+    }
+
+    const from = dto.dateRange ? new Date(dto.dateRange.start).getTime() : -Infinity;
+    const to = dto.dateRange ? new Date(dto.dateRange.end).getTime() : Infinity;
+    const logs = (JSON.parse(gunzipSync(archive.payload).toString('utf8')) as ActivityLog[])
+      .filter(log => {
+        const createdAt = new Date(log.createdAt).getTime();
+        return createdAt >= from && createdAt <= to;
+      });
+
+    // Issues and users may have been removed since archiving; foreign keys would reject those rows
+    const issueIds = [...new Set(logs.map(log => log.issueId).filter((id): id is string => !!id))];
+    const actorIds = [...new Set(logs.map(log => log.actor))];
+    const [issues, actors] = await Promise.all([
+      this.prisma.issue.findMany({ where: { id: { in: issueIds } }, select: { id: true } }),
+      this.prisma.user.findMany({ where: { id: { in: actorIds } }, select: { id: true } })
+    ]);
+    const existingIssues = new Set(issues.map(issue => issue.id));
+    const existingActors = new Set(actors.map(actor => actor.id));
+
+    const data: Prisma.ActivityLogCreateManyInput[] = logs
+      .filter(log => existingActors.has(log.actor))
+      .map(log => ({
+        id: log.id,
+        projectId,
+        entityType: log.entityType,
+        entityId: log.entityId,
+        issueId: log.issueId && existingIssues.has(log.issueId) ? log.issueId : null,
+        action: log.action,
+        actor: log.actor,
+        before: (log.before as Prisma.InputJsonValue) ?? Prisma.DbNull,
+        after: (log.after as Prisma.InputJsonValue) ?? Prisma.DbNull,
+        metadata: (log.metadata as Prisma.InputJsonValue) ?? Prisma.DbNull,
+        createdAt: new Date(log.createdAt),
+        // Original chain fields are kept so the entry still links into the project's chain
+        chainSeq: log.chainSeq,
+        prevHash: log.prevHash,
+        hash: log.hash
+      }));
+    if (data.length < logs.length) {
+      this.logger.warn(`Skipped ${logs.length - data.length} archived entries whose actor no longer exists`);
+    }
+
+    const restored = await this.prisma.$transaction(async tx => {
+      const { count } = await tx.activityLog.createMany({ data, skipDuplicates: true });
+      await tx.activityLogArchive.update({ where: { id: archive.id }, data: { restoredAt: new Date() } });
+      await this.logArchiveActivity(tx, projectId, archive.id, 'restore', userId, {
+        restored: count,
+        dateRange: dto.dateRange ?? null
+      });
+      return count;
+    });
+
+    return {
+      restored,
+      totalAvailable: logs.length,
+      restorationTime: (Date.now() - startedAt) / 1000
+    };
+  }
+
+  /**
+   * Discards expired payloads; the archive row and its chain anchors are kept
+   */
+  async purgeExpired(): Promise<number> {
+    const { count } = await this.prisma.activityLogArchive.updateMany({
+      where: { retainUntil: { lt: new Date() }, purgedAt: null },
+      data: { payload: null, purgedAt: new Date() }
+    });
+
+    if (count > 0) {
+      this.logger.log(`Purged ${count} expired activity log archives`);
+    }
+    return count;
+  }
+
+  private summarySelect() {
+    return {
+      id: true,
+      projectId: true,
+      archivedBy: true,
+      entryCount: true,
+      rangeStart: true,
+      rangeEnd: true,
+      compression: true,
+      originalSize: true,
+      archiveSize: true,
+      retainUntil: true,
+      restoredAt: true,
+      purgedAt: true,
+      createdAt: true
+    } satisfies Prisma.ActivityLogArchiveSelect;
+  }
+
+  private toResponse(archive: ArchiveSummary): AuditLogArchiveResponseDto {
+    return {
+      id: archive.id,
+      entryCount: archive.entryCount,
+      rangeStart: archive.rangeStart.toISOString(),
+      rangeEnd: archive.rangeEnd.toISOString(),
+      compression: archive.compression,
+      archiveSize: archive.archiveSize,
+      retainUntil: archive.retainUntil?.toISOString() ?? null,
+      restoredAt: archive.restoredAt?.toISOString() ?? null,
+      purgedAt: archive.purgedAt?.toISOString() ?? null,
+      archivedBy: archive.archivedBy,
+      createdAt: archive.createdAt.toISOString()
+    };
+  }
+
+  private addMonths(date: Date, months: number): Date {
+    const result = new Date(date);
+    result.setUTCMonth(result.getUTCMonth() + months);
+    return result;
+  }
+
+  private async logArchiveActivity(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    archiveId: string,
+    action: 'archive' | 'restore',
+    userId: string,
+    metadata: Record<string, any>
+  ): Promise<void> {
+    await tx.activityLog.create({
+      data: {
+        projectId,
+        entityType: 'audit_log_archive',
+        entityId: archiveId,
+        action,
+        actor: userId || 'system',
+        metadata: JSON.parse(JSON.stringify(metadata))
+      }
+    });
+  }
+
+  private async getProjectOrThrow(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    return project;
+  }
+}
@@ -0,0 +1,136 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { AuditResult } from './dto/audit-log.dto';
+
+/**
+ * SQL building blocks shared by the audit log listing, search, export and archive.
+ * Every fragment expects activity_logs to be aliased as `a`.
+ */
+
+export interface AuditLogFilter {
+  projectId: string;
+  actors?: string[];
+  entityTypes?: string[];
+  entityId?: string;
+  actions?: string[];
+  operations?: string[];
+  from?: Date;
+  to?: Date;
+  keywords?: string[];
+  results?: AuditResult[];
+  minDuration?: number;
+  maxDuration?: number;
+  minMemory?: number;
+  maxMemory?: number;
+  metadataContains?: Record<string, any>;
+}
+
+export interface AuditLogCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Scheduling entries record their operation in the metadata; everything else only has an action
+export const OPERATION_SQL = Prisma.sql`COALESCE(a.metadata->>'operation', a.action)`;
+
+export const RESULT_SQL = Prisma.sql`(CASE
+  WHEN a.metadata #>> '{performance,success}' = 'false' OR a.action LIKE '%failure%' THEN 'FAILURE'
+  WHEN COALESCE(jsonb_array_length(CASE WHEN jsonb_typeof(a.metadata->'errors') = 'array' THEN a.metadata->'errors' END), 0) > 0 THEN 'PARTIAL'
+  ELSE 'SUCCESS'
+END)`;
+
+export const DURATION_SQL = numericMetadata(['performance', 'duration']);
+export const MEMORY_SQL = numericMetadata(['performance', 'resourceUsage', 'memoryUsage']);
+
+function numericMetadata(path: string[]): Prisma.Sql {
+  const jsonPath = Prisma.raw(`'{${path.join(',')}}'`);
+  return Prisma.sql`(CASE WHEN jsonb_typeof(a.metadata #> ${jsonPath}) = 'number' THEN (a.metadata #>> ${jsonPath})::float8 END)`;
+}
+
+// Prisma stores timestamps as UTC in `timestamp` columns; casting drops the trailing Z without shifting
+function timestamp(date: Date): Prisma.Sql {
+  return Prisma.sql`${date.toISOString()}::timestamp`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`);
+}
+
+export function auditLogWhere(filter: AuditLogFilter): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [Prisma.sql`a.project_id = ${filter.projectId}`];
+
+  if (filter.actors?.length) {
+    conditions.push(Prisma.sql`a.actor IN (${Prisma.join(filter.actors)})`);
+  }
+  if (filter.entityTypes?.length) {
+    conditions.push(Prisma.sql`a.entity_type IN (${Prisma.join(filter.entityTypes)})`);
+  }
+  if (filter.entityId) {
+    conditions.push(Prisma.sql`a.entity_id = ${filter.entityId}`);
+  }
+  if (filter.actions?.length) {
+    conditions.push(Prisma.sql`a.action IN (${Prisma.join(filter.actions)})`);
+  }
+  if (filter.operations?.length) {
+    conditions.push(Prisma.sql`${OPERATION_SQL} IN (${Prisma.join(filter.operations)})`);
+  }
+  if (filter.from) {
+    conditions.push(Prisma.sql`a.created_at >= ${timestamp(filter.from)}`);
+  }
+  if (filter.to) {
+    conditions.push(Prisma.sql`a.created_at <= ${timestamp(filter.to)}`);
+  }
+  for (const keyword of filter.keywords ?? []) {
+    const pattern = `%${escapeLike(keyword)}%`;
+    conditions.push(Prisma.sql`(
+      a."before"::text ILIKE ${pattern} OR a."after"::text ILIKE ${pattern} OR a.metadata::text ILIKE ${pattern}
+    )`);
+  }
+  if (filter.results?.length) {
+    conditions.push(Prisma.sql`${RESULT_SQL} IN (${Prisma.join(filter.results)})`);
+  }
+  if (filter.minDuration !== undefined) {
+    conditions.push(Prisma.sql`${DURATION_SQL} >= ${filter.minDuration}`);
+  }
+  if (filter.maxDuration !== undefined) {
+    conditions.push(Prisma.sql`${DURATION_SQL} <= ${filter.maxDuration}`);
+  }
+  if (filter.minMemory !== undefined) {
+    conditions.push(Prisma.sql`${MEMORY_SQL} >= ${filter.minMemory}`);
+  }
+  if (filter.maxMemory !== undefined) {
+    conditions.push(Prisma.sql`${MEMORY_SQL} <= ${filter.maxMemory}`);
+  }
+  if (filter.metadataContains && Object.keys(filter.metadataContains).length > 0) {
+    conditions.push(Prisma.sql`a.metadata @> ${JSON.stringify(filter.metadataContains)}::jsonb`);
+  }
+
+  return Prisma.join(conditions, ' AND ');
+}
+
+/**
+ * Restricts a query to rows after the cursor in (created_at, id) order
+ */
+export function auditLogCursorCondition(cursor: AuditLogCursor, order: 'ASC' | 'DESC'): Prisma.Sql {
+  return order === 'DESC'
+    ? Prisma.sql`(a.created_at, a.id) < (${timestamp(new Date(cursor.createdAt))}, ${cursor.id})`
+    : Prisma.sql`(a.created_at, a.id) > (${timestamp(new Date(cursor.createdAt))}, ${cursor.id})`;
+}
+
+export function encodeAuditLogCursor(entry: { createdAt: Date; id: string }): string {
+  const payload: AuditLogCursor = { createdAt: entry.createdAt.toISOString(), id: entry.id };
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+export function decodeAuditLogCursor(cursor: string): AuditLogCursor {
+  let payload: AuditLogCursor;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+  if (typeof payload?.id !== 'string' || Number.isNaN(Date.parse(payload?.createdAt))) {
+    throw new BadRequestException('Invalid pagination cursor');
+  }
+  return payload;
+}
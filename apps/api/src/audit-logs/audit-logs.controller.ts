@@ -0,0 +1,202 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request,
+  Res
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiProduces
+} from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditLogArchiveService } from './audit-log-archive.service';
+import { AuditChainService } from './audit-chain.service';
+import {
+  QueryAuditLogsDto,
+  AuditLogSummaryQueryDto,
+  SearchAuditLogsDto,
+  ExportAuditLogsDto,
+  ArchiveAuditLogsDto,
+  RestoreAuditLogsDto,
+  VerifyAuditChainDto,
+  AuditLogListResponseDto,
+  AuditLogEntryDetailResponseDto,
+  AuditLogSummaryResponseDto,
+  AuditSearchResponseDto,
+  AuditLogArchiveResponseDto,
+  ArchiveResultDto,
+  RestoreResultDto,
+  ChainVerificationResultDto
+} from './dto/audit-log.dto';
+
+@ApiTags('Audit Logs')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/audit-logs')
+export class AuditLogsController {
+  constructor(
+    private readonly auditLogsService: AuditLogsService,
+    private readonly archiveService: AuditLogArchiveService,
+    private readonly chainService: AuditChainService
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List activity log entries, newest first' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Audit log page', type: AuditLogListResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid filter or cursor' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findAll(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query() query: QueryAuditLogsDto
+  ): Promise<AuditLogListResponseDto> {
+    return this.auditLogsService.list(projectId, query);
+  }
+
+  @Get('summary')
+  @ApiOperation({
+    summary: 'Summarise activity by operation, result, user and period',
+    description: 'Without startDate the window covers the last 30 days, 12 weeks or 12 months'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Audit log summary', type: AuditLogSummaryResponseDto })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async summary(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query() query: AuditLogSummaryQueryDto
+  ): Promise<AuditLogSummaryResponseDto> {
+    return this.auditLogsService.summary(projectId, query);
+  }
+
+  @Post('search')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Search activity log entries',
+    description: 'Keywords match anywhere in the before/after/metadata JSON'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Search results', type: AuditSearchResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid criteria or cursor' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async search(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: SearchAuditLogsDto
+  ): Promise<AuditSearchResponseDto> {
+    return this.auditLogsService.search(projectId, dto);
+  }
+
+  @Post('export')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Export activity log entries as CSV or JSON',
+    description: 'Oldest first, capped at 50,000 entries; X-Export-Truncated is set when the cap was hit'
+  })
+  @ApiProduces('text/csv', 'application/json')
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async export(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: ExportAuditLogsDto,
+    @Res() res: Response
+  ) {
+    const file = await this.auditLogsService.export(projectId, dto);
+
+    res.set('Content-Type', file.contentType);
+    res.set('Content-Disposition', `attachment; filename="${file.filename}"`);
+    if (file.truncated) res.set('X-Export-Truncated', 'true');
+
+    return res.send(file.body);
+  }
+
+  @Get('archives')
+  @ApiOperation({ summary: 'List archived activity log batches' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Archives', type: [AuditLogArchiveResponseDto] })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findArchives(
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ): Promise<AuditLogArchiveResponseDto[]> {
+    return this.archiveService.findAll(projectId);
+  }
+
+  @Post('archive')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Archive old activity log entries',
+    description: 'Moves up to 10,000 entries per call into a compressed archive; hasMore signals another call is needed'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Entries archived', type: ArchiveResultDto })
+  @ApiResponse({ status: 400, description: 'olderThan in the future or nothing selected' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async archive(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: ArchiveAuditLogsDto,
+    @Request() req: any
+  ): Promise<ArchiveResultDto> {
+    return this.archiveService.archive(projectId, dto, req.user?.id);
+  }
+
+  @Post('restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Restore archived activity log entries',
+    description: 'Entries that are already present are skipped, so restoring twice is harmless'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Entries restored', type: RestoreResultDto })
+  @ApiResponse({ status: 404, description: 'Archive not found' })
+  @ApiResponse({ status: 410, description: 'Archive payload purged after its retention period' })
+  async restore(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: RestoreAuditLogsDto,
+    @Request() req: any
+  ): Promise<RestoreResultDto> {
+    return this.archiveService.restore(projectId, dto, req.user?.id);
+  }
+
+  @Get('verify')
+  @ApiOperation({
+    summary: 'Verify the hash chain of the activity log',
+    description: 'Walks the chain from fromSeq to toSeq (or the entries within startDate..endDate) '
+      + 'including archived entries and reports the first broken link'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Verification result', type: ChainVerificationResultDto })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async verify(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query() query: VerifyAuditChainDto
+  ): Promise<ChainVerificationResultDto> {
+    return this.chainService.verify(projectId, query);
+  }
+
+  @Get(':entryId')
+  @ApiOperation({ summary: 'Get one entry with the other entries for the same entity' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'entryId', description: 'Activity log entry UUID' })
+  @ApiResponse({ status: 200, description: 'Audit log entry', type: AuditLogEntryDetailResponseDto })
+  @ApiResponse({ status: 404, description: 'Entry not found' })
+  async findOne(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('entryId', ParseUUIDPipe) entryId: string
+  ): Promise<AuditLogEntryDetailResponseDto> {
+    return this.auditLogsService.findOne(projectId, entryId);
+  }
+}
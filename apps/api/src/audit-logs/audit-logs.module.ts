@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { AuditLogsController } from './audit-logs.controller';
+import { AuditLogsService } from './audit-logs.service';
+import { AuditLogArchiveService } from './audit-log-archive.service';
+import { AuditChainService } from './audit-chain.service';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [AuditLogsController],
+  providers: [AuditLogsService, AuditLogArchiveService, AuditChainService],
+  exports: [AuditLogsService]
+})
+export class AuditLogsModule {}
@@ -0,0 +1,548 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ActivityLog, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  AuditLogFilter,
+  AuditLogCursor,
+  OPERATION_SQL,
+  RESULT_SQL,
+  DURATION_SQL,
+  MEMORY_SQL,
+  auditLogWhere,
+  auditLogCursorCondition,
+  encodeAuditLogCursor,
+  decodeAuditLogCursor
+} from './audit-log-query';
+import {
+  AuditLogFilterDto,
+  QueryAuditLogsDto,
+  AuditLogSummaryQueryDto,
+  SearchAuditLogsDto,
+  ExportAuditLogsDto,
+  AuditLogEntryResponseDto,
+  AuditLogEntryDetailResponseDto,
+  AuditLogListResponseDto,
+  AuditLogSummaryResponseDto,
+  AuditSearchResponseDto,
+  AuditChangeDto,
+  AuditPerformanceDto,
+  AuditResult,
+  AuditSummaryPeriod,
+  AUDIT_RESULTS
+} from './dto/audit-log.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELATED_ENTRY_LIMIT = 20;
+const EXPORT_BATCH_SIZE = 1000;
+const EXPORT_MAX_ENTRIES = 50000;
+
+// Trend window used when the summary request has no startDate
+const DEFAULT_SUMMARY_BUCKETS: Record<AuditSummaryPeriod, number> = {
+  DAILY: 30,
+  WEEKLY: 12,
+  MONTHLY: 12
+};
+
+const PERIOD_UNIT: Record<AuditSummaryPeriod, 'day' | 'week' | 'month'> = {
+  DAILY: 'day',
+  WEEKLY: 'week',
+  MONTHLY: 'month'
+};
+
+type ActivityLogWithActor = ActivityLog & { actorUser: { name: string } | null };
+
+interface AuditLogPage {
+  entries: AuditLogEntryResponseDto[];
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export interface AuditLogExport {
+  filename: string;
+  contentType: string;
+  body: string;
+  truncated: boolean;
+}
+
+@Injectable()
+export class AuditLogsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(projectId: string, query: QueryAuditLogsDto): Promise<AuditLogListResponseDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const where = auditLogWhere(this.toFilter(projectId, query));
+    const cursor = query.cursor ? decodeAuditLogCursor(query.cursor) : null;
+
+    const [page, stats] = await Promise.all([
+      this.fetchPage(where, 'DESC', query.limit ?? 50, cursor),
+      this.fetchStats(where)
+    ]);
+
+    return {
+      ...page,
+      total: stats.total,
+      summary: {
+        totalOperations: stats.total,
+        successRate: stats.total > 0 ? stats.succeeded / stats.total : 0,
+        averagePerformance: {
+          calculationTime: stats.avgDuration,
+          memoryUsage: stats.avgMemory
+        }
+      }
+    };
+  }
+
+  async findOne(projectId: string, entryId: string): Promise<AuditLogEntryDetailResponseDto> {
+    const base = auditLogWhere({ projectId });
+    const { entries } = await this.fetchPage(Prisma.sql`${base} AND a.id = ${entryId}`, 'DESC', 1, null);
+    const entry = entries[0];
+
+    if (!entry) {
+      throw new NotFoundException(`Audit log entry ${entryId} not found`);
+    }
+
+    const related = auditLogWhere({ projectId, entityTypes: [entry.entityType], entityId: entry.entityId });
+    const { entries: relatedEntries } = await this.fetchPage(
+      Prisma.sql`${related} AND a.id <> ${entryId}`,
+      'DESC',
+      RELATED_ENTRY_LIMIT,
+      null
+    );
+
+    return { ...entry, relatedEntries };
+  }
+
+  async summary(projectId: string, query: AuditLogSummaryQueryDto): Promise<AuditLogSummaryResponseDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const period = query.period ?? 'WEEKLY';
+    const unit = PERIOD_UNIT[period];
+    const endDate = query.endDate ? new Date(query.endDate) : new Date();
+    const startDate = query.startDate
+      ? new Date(query.startDate)
+      : this.shiftBucket(this.truncateToBucket(endDate, unit), unit, 1 - DEFAULT_SUMMARY_BUCKETS[period]);
+
+    const where = auditLogWhere({ ...this.toFilter(projectId, query), from: startDate, to: endDate });
+
+    const [stats, resultRows, operationRows, userRows, trendRows] = await Promise.all([
+      this.fetchStats(where),
+      this.prisma.$queryRaw<Array<{ result: AuditResult; count: number }>>`
+        SELECT ${RESULT_SQL} AS result, count(*)::int AS count
+        FROM activity_logs a
+        WHERE ${where}
+        GROUP BY 1
+      `,
+      this.prisma.$queryRaw<Array<{ operation: string; count: number }>>`
+        SELECT ${OPERATION_SQL} AS operation, count(*)::int AS count
+        FROM activity_logs a
+        WHERE ${where}
+        GROUP BY 1
+        ORDER BY 2 DESC
+      `,
+      this.prisma.$queryRaw<Array<{ user_id: string; user_name: string; operations: number }>>`
+        SELECT a.actor AS user_id, u.name AS user_name, count(*)::int AS operations
+        FROM activity_logs a
+        JOIN users u ON u.id = a.actor
+        WHERE ${where}
+        GROUP BY a.actor, u.name
+        ORDER BY operations DESC
+        LIMIT 5
+      `,
+      this.prisma.$queryRaw<Array<{ bucket: Date; operations: number; succeeded: number; avg_duration: number | null }>>`
+        SELECT date_trunc(${unit}, a.created_at) AS bucket,
+               count(*)::int AS operations,
+               count(*) FILTER (WHERE ${RESULT_SQL} = 'SUCCESS')::int AS succeeded,
+               avg(${DURATION_SQL}) AS avg_duration
+        FROM activity_logs a
+        WHERE ${where}
+        GROUP BY 1
+        ORDER BY 1
+      `
+    ]);
+
+    const resultCounts = Object.fromEntries(AUDIT_RESULTS.map(result => [result, 0])) as Record<AuditResult, number>;
+    resultRows.forEach(row => (resultCounts[row.result] = row.count));
+
+    // Emit every bucket in the window so charts do not skip quiet periods
+    const trendsByBucket = new Map(trendRows.map(row => [row.bucket.getTime(), row]));
+    const trends: AuditLogSummaryResponseDto['trends'] = [];
+    for (
+      let bucket = this.truncateToBucket(startDate, unit);
+      bucket.getTime() <= endDate.getTime();
+      bucket = this.shiftBucket(bucket, unit, 1)
+    ) {
+      const row = trendsByBucket.get(bucket.getTime());
+      trends.push({
+        date: bucket.toISOString(),
+        operations: row?.operations ?? 0,
+        averageResponseTime: row?.avg_duration ?? null,
+        successRate: row && row.operations > 0 ? row.succeeded / row.operations : 0
+      });
+    }
+
+    return {
+      period,
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+      totalEntries: stats.total,
+      successRate: stats.total > 0 ? stats.succeeded / stats.total : 0,
+      operationCounts: Object.fromEntries(operationRows.map(row => [row.operation, row.count])),
+      resultCounts,
+      averagePerformance: {
+        calculationTime: stats.avgDuration,
+        memoryUsage: stats.avgMemory
+      },
+      topUsers: userRows.map(row => ({ userId: row.user_id, userName: row.user_name, operations: row.operations })),
+      trends
+    };
+  }
+
+  async search(projectId: string, dto: SearchAuditLogsDto): Promise<AuditSearchResponseDto> {
+    const startedAt = Date.now();
+    await this.getProjectOrThrow(projectId);
+
+    const keywords = (dto.keywords ?? []).map(keyword => keyword.trim()).filter(Boolean);
+    const where = auditLogWhere({
+      projectId,
+      keywords,
+      operations: dto.operations,
+      actions: dto.actions,
+      entityTypes: dto.entityTypes,
+      results: dto.resultTypes,
+      actors: dto.userIds,
+      from: dto.timeRange ? new Date(dto.timeRange.start) : undefined,
+      to: dto.timeRange ? new Date(dto.timeRange.end) : undefined,
+      minDuration: dto.performanceThresholds?.minResponseTime,
+      maxDuration: dto.performanceThresholds?.maxResponseTime,
+      minMemory: dto.performanceThresholds?.minMemoryUsage,
+      maxMemory: dto.performanceThresholds?.maxMemoryUsage,
+      metadataContains: dto.metadataFilters
+    });
+    const cursor = dto.cursor ? decodeAuditLogCursor(dto.cursor) : null;
+
+    const [page, stats, actionRows, entityTypeRows] = await Promise.all([
+      this.fetchPage(where, dto.sortOrder ?? 'DESC', dto.limit ?? 50, cursor),
+      this.fetchStats(where),
+      this.prisma.$queryRaw<Array<{ value: string; count: number }>>`
+        SELECT a.action AS value, count(*)::int AS count
+        FROM activity_logs a
+        WHERE ${where}
+        GROUP BY 1
+        ORDER BY 2 DESC
+        LIMIT 5
+      `,
+      this.prisma.$queryRaw<Array<{ value: string; count: number }>>`
+        SELECT a.entity_type AS value, count(*)::int AS count
+        FROM activity_logs a
+        WHERE ${where}
+        GROUP BY 1
+        ORDER BY 2 DESC
+        LIMIT 5
+      `
+    ]);
+
+    return {
+      results: page.entries,
+      total: stats.total,
+      hasMore: page.hasMore,
+      nextCursor: page.nextCursor,
+      searchMetrics: {
+        searchTime: Date.now() - startedAt,
+        resultRelevanceScores: page.entries.map(entry => this.relevance(entry, keywords))
+      },
+      suggestions: {
+        filterSuggestions: [
+          ...actionRows.map(row => ({ field: 'action', ...row })),
+          ...entityTypeRows.map(row => ({ field: 'entityType', ...row }))
+        ]
+      }
+    };
+  }
+
+  async export(projectId: string, dto: ExportAuditLogsDto): Promise<AuditLogExport> {
+    await this.getProjectOrThrow(projectId);
+
+    const where = auditLogWhere(this.toFilter(projectId, dto.query ?? {}));
+    const entries: AuditLogEntryResponseDto[] = [];
+    let cursor: AuditLogCursor | null = null;
+    let truncated = false;
+
+    // Oldest first so the file reads as a timeline
+    for (;;) {
+      const page = await this.fetchPage(where, 'ASC', EXPORT_BATCH_SIZE, cursor);
+      entries.push(...page.entries);
+      if (!page.hasMore) break;
+      if (entries.length >= EXPORT_MAX_ENTRIES) {
+        truncated = true;
+        break;
+      }
+      cursor = decodeAuditLogCursor(page.nextCursor!);
+    }
+
+    const capped = entries.slice(0, EXPORT_MAX_ENTRIES);
+    const exported = capped.map(entry => {
+      const { metadata, performanceData, changes, before, after, ...rest } = entry;
+      return {
+        ...rest,
+        ...(dto.includeMetadata && { metadata }),
+        ...(dto.includePerformanceData && { performanceData }),
+        ...(dto.includeChanges && { changes, before, after })
+      };
+    });
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (dto.format === 'JSON') {
+      return {
+        filename: `audit-log-${stamp}.json`,
+        contentType: 'application/json; charset=utf-8',
+        body: JSON.stringify(exported, null, 2),
+        truncated
+      };
+    }
+
+    return {
+      filename: `audit-log-${stamp}.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      body: this.toCsv(capped, dto),
+      truncated
+    };
+  }
+
+  /**
+   * Loads one keyset page of entries matching `where`, ordered by creation time
+   */
+  private async fetchPage(
+    where: Prisma.Sql,
+    order: 'ASC' | 'DESC',
+    limit: number,
+    cursor: AuditLogCursor | null
+  ): Promise<AuditLogPage> {
+    const conditions = cursor ? Prisma.sql`${where} AND ${auditLogCursorCondition(cursor, order)}` : where;
+    const direction = Prisma.raw(order === 'ASC' ? 'ASC' : 'DESC');
+
+    const rows = await this.prisma.$queryRaw<Array<{ id: string; result: AuditResult }>>`
+      SELECT a.id, ${RESULT_SQL} AS result
+      FROM activity_logs a
+      WHERE ${conditions}
+      ORDER BY a.created_at ${direction}, a.id ${direction}
+      LIMIT ${limit + 1}
+    `;
+
+    const hasMore = rows.length > limit;
+    const pageRows = rows.slice(0, limit);
+    const logs = await this.prisma.activityLog.findMany({
+      where: { id: { in: pageRows.map(row => row.id) } },
+      include: { actorUser: { select: { name: true } } }
+    });
+    const logsById = new Map(logs.map(log => [log.id, log]));
+
+    const entries = pageRows
+      .filter(row => logsById.has(row.id))
+      .map(row => this.toEntry(logsById.get(row.id)!, row.result));
+    const last = pageRows.length > 0 ? logsById.get(pageRows[pageRows.length - 1].id) : undefined;
+
+    return {
+      entries,
+      hasMore,
+      nextCursor: hasMore && last ? encodeAuditLogCursor(last) : null
+    };
+  }
+
+  private async fetchStats(where: Prisma.Sql): Promise<{
+    total: number;
+    succeeded: number;
+    avgDuration: number | null;
+    avgMemory: number | null;
+  }> {
+    const [row] = await this.prisma.$queryRaw<Array<{
+      total: number;
+      succeeded: number;
+      avg_duration: number | null;
+      avg_memory: number | null;
+    }>>`
+      SELECT count(*)::int AS total,
+             count(*) FILTER (WHERE ${RESULT_SQL} = 'SUCCESS')::int AS succeeded,
+             avg(${DURATION_SQL}) AS avg_duration,
+             avg(${MEMORY_SQL}) AS avg_memory
+      FROM activity_logs a
+      WHERE ${where}
+    `;
+
+    return {
+      total: row?.total ?? 0,
+      succeeded: row?.succeeded ?? 0,
+      avgDuration: row?.avg_duration ?? null,
+      avgMemory: row?.avg_memory ?? null
+    };
+  }
+
+  private toFilter(projectId: string, query: AuditLogFilterDto): AuditLogFilter {
+    return {
+      projectId,
+      actors: query.actor ? [query.actor] : undefined,
+      entityTypes: query.entityType ? [query.entityType] : undefined,
+      entityId: query.entityId,
+      actions: query.action ? [query.action] : undefined,
+      operations: query.operation ? [query.operation] : undefined,
+      from: query.startDate ? new Date(query.startDate) : undefined,
+      to: query.endDate ? new Date(query.endDate) : undefined
+    };
+  }
+
+  private toEntry(log: ActivityLogWithActor, result: AuditResult): AuditLogEntryResponseDto {
+    const metadata = this.asObject(log.metadata) ?? {};
+
+    return {
+      id: log.id,
+      projectId: log.projectId,
+      entityType: log.entityType,
+      entityId: log.entityId,
+      issueId: log.issueId,
+      action: log.action,
+      operation: typeof metadata.operation === 'string' ? metadata.operation : log.action,
+      userId: log.actor,
+      userName: log.actorUser?.name ?? log.actor,
+      timestamp: log.createdAt.toISOString(),
+      result,
+      before: log.before ?? null,
+      after: log.after ?? null,
+      metadata,
+      performanceData: this.toPerformance(metadata),
+      changes: this.toChanges(log),
+      chainSeq: log.chainSeq,
+      hash: log.hash
+    };
+  }
+
+  private toPerformance(metadata: Record<string, any>): AuditPerformanceDto | null {
+    const performance = this.asObject(metadata.performance);
+    if (!performance || typeof performance.duration !== 'number') return null;
+
+    const resourceUsage = this.asObject(performance.resourceUsage);
+    return {
+      calculationTime: performance.duration,
+      memoryUsage: typeof resourceUsage?.memoryUsage === 'number' ? resourceUsage.memoryUsage : null,
+      tasksProcessed: typeof resourceUsage?.tasksProcessed === 'number' ? resourceUsage.tasksProcessed : null
+    };
+  }
+
+  /**
+   * One change per top-level field whose value differs between before and after
+   */
+  private toChanges(log: ActivityLog): AuditChangeDto[] {
+    const action = this.changeAction(log.action);
+    const base = { entityType: log.entityType, entityId: log.entityId, action };
+    const before = this.asObject(log.before);
+    const after = this.asObject(log.after);
+
+    if (!before && !after) {
+      return log.before != null || log.after != null
+        ? [{ ...base, oldValue: log.before ?? undefined, newValue: log.after ?? undefined }]
+        : [];
+    }
+
+    const fields = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})]);
+    const changes: AuditChangeDto[] = [];
+    for (const field of fields) {
+      const oldValue = before?.[field];
+      const newValue = after?.[field];
+      if (JSON.stringify(oldValue) === JSON.stringify(newValue)) continue;
+      changes.push({ ...base, field, oldValue, newValue });
+    }
+    return changes;
+  }
+
+  private changeAction(action: string): AuditChangeDto['action'] {
+    if (action === 'create') return 'CREATE';
+    if (action === 'delete') return 'DELETE';
+    if (action === 'restore') return 'RESTORE';
+    return 'UPDATE';
+  }
+
+  private relevance(entry: AuditLogEntryResponseDto, keywords: string[]): number {
+    if (keywords.length === 0) return 1;
+
+    const haystack = JSON.stringify([entry.before, entry.after, entry.metadata]).toLowerCase();
+    const matched = keywords.filter(keyword => haystack.includes(keyword.toLowerCase())).length;
+    return matched / keywords.length;
+  }
+
+  private toCsv(entries: AuditLogEntryResponseDto[], dto: ExportAuditLogsDto): string {
+    const header = [
+      'timestamp', 'id', 'entityType', 'entityId', 'issueId', 'action', 'operation', 'result', 'userId', 'userName'
+    ];
+    if (dto.includeChanges) header.push('changes', 'before', 'after');
+    if (dto.includePerformanceData) header.push('durationMs', 'memoryUsageMb', 'tasksProcessed');
+    if (dto.includeMetadata) header.push('metadata');
+
+    const lines = [header.map(value => this.csvCell(value)).join(',')];
+    for (const entry of entries) {
+      const cells: unknown[] = [
+        entry.timestamp, entry.id, entry.entityType, entry.entityId, entry.issueId, entry.action,
+        entry.operation, entry.result, entry.userId, entry.userName
+      ];
+      if (dto.includeChanges) {
+        cells.push(
+          entry.changes
+            .map(change => `${change.field ?? change.action}: ${JSON.stringify(change.oldValue) ?? ''} -> ${JSON.stringify(change.newValue) ?? ''}`)
+            .join('; '),
+          entry.before === null ? '' : JSON.stringify(entry.before),
+          entry.after === null ? '' : JSON.stringify(entry.after)
+        );
+      }
+      if (dto.includePerformanceData) {
+        cells.push(
+          entry.performanceData?.calculationTime,
+          entry.performanceData?.memoryUsage,
+          entry.performanceData?.tasksProcessed
+        );
+      }
+      if (dto.includeMetadata) cells.push(JSON.stringify(entry.metadata));
+      lines.push(cells.map(value => this.csvCell(value)).join(','));
+    }
+
+    return lines.join('\r\n') + '\r\n';
+  }
+
+  private csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    // Keep spreadsheets from evaluating user-entered text as a formula
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private truncateToBucket(date: Date, unit: 'day' | 'week' | 'month'): Date {
+    const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    if (unit === 'month') return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+    if (unit === 'week') {
+      // date_trunc('week') starts weeks on Monday
+      const sinceMonday = (day.getUTCDay() + 6) % 7;
+      return new Date(day.getTime() - sinceMonday * DAY_MS);
+    }
+    return day;
+  }
+
+  private shiftBucket(bucket: Date, unit: 'day' | 'week' | 'month', count: number): Date {
+    if (unit === 'month') return new Date(Date.UTC(bucket.getUTCFullYear(), bucket.getUTCMonth() + count, 1));
+    return new Date(bucket.getTime() + count * (unit === 'week' ? 7 : 1) * DAY_MS);
+  }
+
+  private asObject(value: Prisma.JsonValue | undefined): Record<string, any> | null {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, any>) : null;
+  }
+
+  private async getProjectOrThrow(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    return project;
+  }
+}
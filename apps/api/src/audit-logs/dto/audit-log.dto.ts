@@ -0,0 +1,656 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested
+} from 'class-validator';
+
+export const AUDIT_RESULTS = ['SUCCESS', 'FAILURE', 'PARTIAL'] as const;
+export type AuditResult = typeof AUDIT_RESULTS[number];
+
+export const AUDIT_SUMMARY_PERIODS = ['DAILY', 'WEEKLY', 'MONTHLY'] as const;
+export type AuditSummaryPeriod = typeof AUDIT_SUMMARY_PERIODS[number];
+
+export const AUDIT_EXPORT_FORMATS = ['CSV', 'JSON'] as const;
+export type AuditExportFormat = typeof AUDIT_EXPORT_FORMATS[number];
+
+export const ARCHIVE_COMPRESSION_LEVELS = ['LOW', 'MEDIUM', 'HIGH'] as const;
+export type ArchiveCompressionLevel = typeof ARCHIVE_COMPRESSION_LEVELS[number];
+
+export class AuditLogFilterDto {
+  @ApiPropertyOptional({ description: 'User who performed the action' })
+  @IsOptional()
+  @IsUUID()
+  actor?: string;
+
+  @ApiPropertyOptional({ description: 'Entity type, e.g. issue, dependency, schedule' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  entityType?: string;
+
+  @ApiPropertyOptional({ description: 'Entity ID, combined with entityType for one entity\'s history' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  entityId?: string;
+
+  @ApiPropertyOptional({ description: 'Raw action, e.g. update, move, schedule_calculate' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  action?: string;
+
+  @ApiPropertyOptional({ description: 'Operation from the metadata, falling back to the action' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  operation?: string;
+
+  @ApiPropertyOptional({ description: 'Entries at or after this time' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Entries at or before this time' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class QueryAuditLogsDto extends AuditLogFilterDto {
+  @ApiPropertyOptional({ description: 'Page size', minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ description: 'Cursor from the previous page' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class AuditLogSummaryQueryDto extends AuditLogFilterDto {
+  @ApiPropertyOptional({ description: 'Trend bucket size', enum: AUDIT_SUMMARY_PERIODS, default: 'WEEKLY' })
+  @IsOptional()
+  @IsEnum(AUDIT_SUMMARY_PERIODS)
+  period?: AuditSummaryPeriod = 'WEEKLY';
+}
+
+export class PerformanceThresholdsDto {
+  @ApiPropertyOptional({ description: 'Minimum operation duration in ms' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minResponseTime?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum operation duration in ms' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxResponseTime?: number;
+
+  @ApiPropertyOptional({ description: 'Minimum memory usage in MB' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minMemoryUsage?: number;
+
+  @ApiPropertyOptional({ description: 'Maximum memory usage in MB' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxMemoryUsage?: number;
+}
+
+export class TimeRangeDto {
+  @ApiProperty()
+  @IsDateString()
+  start: string;
+
+  @ApiProperty()
+  @IsDateString()
+  end: string;
+}
+
+export class SearchAuditLogsDto {
+  @ApiPropertyOptional({
+    description: 'Words matched case-insensitively against the before/after/metadata JSON; all must match',
+    type: [String]
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsString({ each: true })
+  @MaxLength(200, { each: true })
+  keywords?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  operations?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  actions?: string[];
+
+  @ApiPropertyOptional({ type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  entityTypes?: string[];
+
+  @ApiPropertyOptional({ enum: AUDIT_RESULTS, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @IsEnum(AUDIT_RESULTS, { each: true })
+  resultTypes?: AuditResult[];
+
+  @ApiPropertyOptional({ description: 'Actors', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  userIds?: string[];
+
+  @ApiPropertyOptional({ type: PerformanceThresholdsDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PerformanceThresholdsDto)
+  performanceThresholds?: PerformanceThresholdsDto;
+
+  @ApiPropertyOptional({ description: 'JSON the metadata must contain, e.g. {"algorithm":"cpm"}' })
+  @IsOptional()
+  @IsObject()
+  metadataFilters?: Record<string, any>;
+
+  @ApiPropertyOptional({ type: TimeRangeDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TimeRangeDto)
+  timeRange?: TimeRangeDto;
+
+  @ApiPropertyOptional({ enum: ['ASC', 'DESC'], default: 'DESC' })
+  @IsOptional()
+  @IsEnum(['ASC', 'DESC'])
+  sortOrder?: 'ASC' | 'DESC' = 'DESC';
+
+  @ApiPropertyOptional({ minimum: 1, maximum: 200, default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(200)
+  limit?: number = 50;
+
+  @ApiPropertyOptional({ description: 'Cursor from the previous page' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class ExportAuditLogsDto {
+  @ApiProperty({ enum: AUDIT_EXPORT_FORMATS })
+  @IsEnum(AUDIT_EXPORT_FORMATS)
+  format: AuditExportFormat;
+
+  @ApiPropertyOptional({ type: AuditLogFilterDto })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => AuditLogFilterDto)
+  query?: AuditLogFilterDto;
+
+  @ApiPropertyOptional({ description: 'Include the metadata JSON', default: false })
+  @IsOptional()
+  @IsBoolean()
+  includeMetadata?: boolean = false;
+
+  @ApiPropertyOptional({ description: 'Include duration, memory and tasks processed', default: false })
+  @IsOptional()
+  @IsBoolean()
+  includePerformanceData?: boolean = false;
+
+  @ApiPropertyOptional({ description: 'Include field changes and the before/after JSON', default: true })
+  @IsOptional()
+  @IsBoolean()
+  includeChanges?: boolean = true;
+}
+
+export class ArchiveAuditLogsDto {
+  @ApiProperty({ description: 'Archive entries created before this time' })
+  @IsDateString()
+  olderThan: string;
+
+  @ApiPropertyOptional({ default: true })
+  @IsOptional()
+  @IsBoolean()
+  includeSuccessful?: boolean = true;
+
+  @ApiPropertyOptional({ description: 'Include failed and partially failed entries', default: true })
+  @IsOptional()
+  @IsBoolean()
+  includeErrors?: boolean = true;
+
+  @ApiPropertyOptional({ enum: ARCHIVE_COMPRESSION_LEVELS, default: 'MEDIUM' })
+  @IsOptional()
+  @IsEnum(ARCHIVE_COMPRESSION_LEVELS)
+  compressionLevel?: ArchiveCompressionLevel = 'MEDIUM';
+
+  @ApiPropertyOptional({ description: 'Months to keep the archive; omit to keep it indefinitely', minimum: 1, maximum: 120 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(120)
+  retentionPeriod?: number;
+}
+
+export class RestoreAuditLogsDto {
+  @ApiProperty({ description: 'Archive ID returned by the archive call' })
+  @IsUUID()
+  archiveLocation: string;
+
+  @ApiPropertyOptional({ type: TimeRangeDto, description: 'Restore only entries in this range' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TimeRangeDto)
+  dateRange?: TimeRangeDto;
+}
+
+export class VerifyAuditChainDto {
+  @ApiPropertyOptional({ description: 'First chain position to verify', minimum: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  fromSeq?: number;
+
+  @ApiPropertyOptional({ description: 'Last chain position to verify; defaults to the head', minimum: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  toSeq?: number;
+
+  @ApiPropertyOptional({ description: 'Start the window at the first entry created at or after this time' })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'End the window at the last entry created at or before this time' })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class AuditChangeDto {
+  @ApiProperty()
+  entityType: string;
+
+  @ApiProperty()
+  entityId: string;
+
+  @ApiProperty({ enum: ['CREATE', 'UPDATE', 'DELETE', 'RESTORE'] })
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
+
+  @ApiPropertyOptional({ description: 'Top-level field that changed' })
+  field?: string;
+
+  @ApiPropertyOptional()
+  oldValue?: any;
+
+  @ApiPropertyOptional()
+  newValue?: any;
+}
+
+export class AuditPerformanceDto {
+  @ApiProperty({ description: 'Operation duration in ms' })
+  calculationTime: number;
+
+  @ApiProperty({ nullable: true, description: 'Memory usage in MB' })
+  memoryUsage: number | null;
+
+  @ApiProperty({ nullable: true })
+  tasksProcessed: number | null;
+}
+
+export class AuditLogEntryResponseDto {
+  @ApiProperty()
+  id: string;
+
+  @ApiProperty()
+  projectId: string;
+
+  @ApiProperty()
+  entityType: string;
+
+  @ApiProperty()
+  entityId: string;
+
+  @ApiProperty({ nullable: true })
+  issueId: string | null;
+
+  @ApiProperty()
+  action: string;
+
+  @ApiProperty({ description: 'Operation from the metadata, falling back to the action' })
+  operation: string;
+
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty()
+  userName: string;
+
+  @ApiProperty()
+  timestamp: string;
+
+  @ApiProperty({ enum: AUDIT_RESULTS })
+  result: AuditResult;
+
+  @ApiPropertyOptional({ nullable: true })
+  before: any;
+
+  @ApiPropertyOptional({ nullable: true })
+  after: any;
+
+  @ApiProperty({ description: 'Additional context; empty when none was recorded' })
+  metadata: Record<string, any>;
+
+  @ApiProperty({ type: AuditPerformanceDto, nullable: true })
+  performanceData: AuditPerformanceDto | null;
+
+  @ApiProperty({ type: [AuditChangeDto] })
+  changes: AuditChangeDto[];
+
+  @ApiProperty({ nullable: true, description: 'Position in the project\'s hash chain' })
+  chainSeq: number | null;
+
+  @ApiProperty({ nullable: true, description: 'SHA-256 over the entry and the previous hash' })
+  hash: string | null;
+}
+
+export class AuditLogEntryDetailResponseDto extends AuditLogEntryResponseDto {
+  @ApiProperty({ type: [AuditLogEntryResponseDto], description: 'Other entries for the same entity, newest first' })
+  relatedEntries: AuditLogEntryResponseDto[];
+}
+
+export class AuditPerformanceSummaryDto {
+  @ApiProperty({ nullable: true, description: 'Average duration in ms' })
+  calculationTime: number | null;
+
+  @ApiProperty({ nullable: true, description: 'Average memory usage in MB' })
+  memoryUsage: number | null;
+}
+
+export class AuditLogPageSummaryDto {
+  @ApiProperty({ description: 'Entries matching the filters' })
+  totalOperations: number;
+
+  @ApiProperty({ description: 'Share of matching entries that succeeded, 0-1' })
+  successRate: number;
+
+  @ApiProperty({ type: AuditPerformanceSummaryDto })
+  averagePerformance: AuditPerformanceSummaryDto;
+}
+
+export class AuditLogListResponseDto {
+  @ApiProperty({ type: [AuditLogEntryResponseDto] })
+  entries: AuditLogEntryResponseDto[];
+
+  @ApiProperty({ description: 'Entries matching the filters' })
+  total: number;
+
+  @ApiProperty()
+  hasMore: boolean;
+
+  @ApiProperty({ nullable: true })
+  nextCursor: string | null;
+
+  @ApiProperty({ type: AuditLogPageSummaryDto })
+  summary: AuditLogPageSummaryDto;
+}
+
+export class AuditTrendDto {
+  @ApiProperty({ description: 'Start of the bucket' })
+  date: string;
+
+  @ApiProperty()
+  operations: number;
+
+  @ApiProperty({ nullable: true, description: 'Average duration in ms of entries that recorded one' })
+  averageResponseTime: number | null;
+
+  @ApiProperty()
+  successRate: number;
+}
+
+export class AuditTopUserDto {
+  @ApiProperty()
+  userId: string;
+
+  @ApiProperty()
+  userName: string;
+
+  @ApiProperty()
+  operations: number;
+}
+
+export class AuditLogSummaryResponseDto {
+  @ApiProperty({ enum: AUDIT_SUMMARY_PERIODS })
+  period: AuditSummaryPeriod;
+
+  @ApiProperty()
+  startDate: string;
+
+  @ApiProperty()
+  endDate: string;
+
+  @ApiProperty()
+  totalEntries: number;
+
+  @ApiProperty()
+  successRate: number;
+
+  @ApiProperty({ description: 'Entries per operation' })
+  operationCounts: Record<string, number>;
+
+  @ApiProperty({ description: 'Entries per result' })
+  resultCounts: Record<AuditResult, number>;
+
+  @ApiProperty({ type: AuditPerformanceSummaryDto })
+  averagePerformance: AuditPerformanceSummaryDto;
+
+  @ApiProperty({ type: [AuditTopUserDto] })
+  topUsers: AuditTopUserDto[];
+
+  @ApiProperty({ type: [AuditTrendDto] })
+  trends: AuditTrendDto[];
+}
+
+export class AuditFilterSuggestionDto {
+  @ApiProperty({ enum: ['action', 'entityType'] })
+  field: string;
+
+  @ApiProperty()
+  value: string;
+
+  @ApiProperty()
+  count: number;
+}
+
+export class AuditSearchResponseDto {
+  @ApiProperty({ type: [AuditLogEntryResponseDto] })
+  results: AuditLogEntryResponseDto[];
+
+  @ApiProperty()
+  total: number;
+
+  @ApiProperty()
+  hasMore: boolean;
+
+  @ApiProperty({ nullable: true })
+  nextCursor: string | null;
+
+  @ApiProperty({ description: 'searchTime in ms and, per result, the share of keywords it matched' })
+  searchMetrics: { searchTime: number; resultRelevanceScores: number[] };
+
+  @ApiProperty({ description: 'Most common actions and entity types among all matches' })
+  suggestions: { filterSuggestions: AuditFilterSuggestionDto[] };
+}
+
+export class AuditLogArchiveResponseDto {
+  @ApiProperty({ description: 'Archive ID' })
+  id: string;
+
+  @ApiProperty()
+  entryCount: number;
+
+  @ApiProperty()
+  rangeStart: string;
+
+  @ApiProperty()
+  rangeEnd: string;
+
+  @ApiProperty({ enum: ARCHIVE_COMPRESSION_LEVELS })
+  compression: string;
+
+  @ApiProperty({ description: 'Compressed size in bytes' })
+  archiveSize: number;
+
+  @ApiProperty({ nullable: true })
+  retainUntil: string | null;
+
+  @ApiProperty({ nullable: true })
+  restoredAt: string | null;
+
+  @ApiProperty({ nullable: true, description: 'When the payload was dropped; the chain anchors remain' })
+  purgedAt: string | null;
+
+  @ApiProperty()
+  archivedBy: string;
+
+  @ApiProperty()
+  createdAt: string;
+}
+
+export class ArchiveResultDto {
+  @ApiProperty({ description: 'Entries moved into the archive' })
+  archived: number;
+
+  @ApiProperty({ description: 'Compressed size in bytes' })
+  archiveSize: number;
+
+  @ApiProperty({ nullable: true, description: 'Archive ID to pass to restore; null when nothing matched' })
+  archiveLocation: string | null;
+
+  @ApiProperty({ description: 'Uncompressed minus compressed bytes' })
+  estimatedSavings: number;
+
+  @ApiProperty({ description: 'More entries matched than one archive holds; call again to continue' })
+  hasMore: boolean;
+}
+
+export class RestoreResultDto {
+  @ApiProperty({ description: 'Entries written back to the activity log' })
+  restored: number;
+
+  @ApiProperty({ description: 'Entries in the archive within the requested range' })
+  totalAvailable: number;
+
+  @ApiProperty({ description: 'Seconds taken' })
+  restorationTime: number;
+}
+
+export const CHAIN_BREAK_REASONS = [
+  'hash_mismatch',
+  'link_mismatch',
+  'missing_entries',
+  'head_mismatch'
+] as const;
+export type ChainBreakReason = typeof CHAIN_BREAK_REASONS[number];
+
+export class ChainBreakDto {
+  @ApiProperty({ description: 'Chain position where verification failed' })
+  seq: number;
+
+  @ApiProperty({
+    enum: CHAIN_BREAK_REASONS,
+    description: 'hash_mismatch: entry content changed; link_mismatch: previous hash differs; '
+      + 'missing_entries: entries deleted without an archive; head_mismatch: newest entries removed or replaced'
+  })
+  reason: ChainBreakReason;
+
+  @ApiProperty({ nullable: true })
+  entryId: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Set when the broken entry lives in an archive' })
+  archiveId: string | null;
+
+  @ApiProperty({ nullable: true })
+  expected: string | null;
+
+  @ApiProperty({ nullable: true })
+  actual: string | null;
+}
+
+export class ChainVerificationResultDto {
+  @ApiProperty()
+  valid: boolean;
+
+  @ApiProperty({ description: 'First chain position verified' })
+  fromSeq: number;
+
+  @ApiProperty({ description: 'Last chain position verified' })
+  toSeq: number;
+
+  @ApiProperty({ description: 'Newest chain position of the project' })
+  headSeq: number;
+
+  @ApiProperty({ nullable: true })
+  headHash: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Hash the window builds on; compare with a previously recorded value' })
+  startHash: string | null;
+
+  @ApiProperty({ nullable: true, description: 'Hash at the end of the window' })
+  endHash: string | null;
+
+  @ApiProperty({ description: 'Live entries recomputed' })
+  checkedEntries: number;
+
+  @ApiProperty({ description: 'Archived entries recomputed' })
+  checkedArchivedEntries: number;
+
+  @ApiProperty({ description: 'Entries covered only by the anchors of purged archives' })
+  anchoredEntries: number;
+
+  @ApiProperty({ description: 'Entries with no place in the chain, e.g. inserted with a forged position' })
+  unchainedEntries: number;
+
+  @ApiProperty({ type: ChainBreakDto, nullable: true })
+  firstBreak: ChainBreakDto | null;
+
+  @ApiProperty()
+  verifiedAt: string;
+}
@@ -21,7 +21,8 @@ export class ProjectAccessGuard implements CanActivate {
     }
 
     const request = context.switchToHttp().getRequest();
-    const projectId = request.params.id || request.body.projectId;
+    // Event streams are GET requests, so their project comes from the query string
+    const projectId = request.params.id || request.body?.projectId || request.query?.projectId;
     
     if (!projectId) {
       // If no project ID is present, let the endpoint handle it
@@ -68,8 +69,8 @@ export class ProjectAccessGuard implements CanActivate {
   }
 
   private checkPasswordProjectAccess(request: any, projectId: string): boolean {
-    // Check for access token in headers
-    const accessToken = request.headers['x-project-access-token'];
+    // Check for access token in headers; EventSource cannot send headers, so streams use the query string
+    const accessToken = request.headers['x-project-access-token'] || request.query?.projectAccessToken;
     
     if (!accessToken) {
       throw new ForbiddenException('Project requires password authentication. Please provide access token.');
@@ -3,6 +3,15 @@ import { PassportStrategy } from '@nestjs/passport';
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 
+// EventSource cannot send an Authorization header, so event streams may carry the token in the query
+const fromEventStreamQuery = (request: any): string | null => {
+  const accept = request?.headers?.accept || '';
+  if (!accept.includes('text/event-stream')) {
+    return null;
+  }
+  return typeof request.query?.access_token === 'string' ? request.query.access_token : null;
+};
+
 export interface JwtPayload {
   sub: string;
   email: string;
@@ -15,7 +24,10 @@ export interface JwtPayload {
 export class JwtStrategy extends PassportStrategy(Strategy) {
   constructor(private configService: ConfigService) {
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        fromEventStreamQuery
+      ]),
       ignoreExpiration: false,
       secretOrKey: configService.get<string>('JWT_SECRET') || 'dev-secret-key',
     });
@@ -18,6 +18,11 @@ export class PerformanceMonitoringInterceptor implements NestInterceptor {
     const request = context.switchToHttp().getRequest<Request>();
     const response = context.switchToHttp().getResponse<Response>();
     
+    // Streams emit long after their headers went out; timing them per event means nothing
+    if (request.headers.accept?.includes('text/event-stream')) {
+      return next.handle();
+    }
+
     const { method, url, ip } = request;
     const userAgent = request.get('user-agent');
     
@@ -0,0 +1,122 @@
+/**
+ * iCalendar (.ics) Utility Functions
+ *
+ * Extracts holiday dates from VEVENT entries so they can be stored on a
+ * project calendar. Only the subset of RFC 5545 used by public holiday feeds
+ * is supported: all-day and timed DTSTART/DTEND, multi-day events and line
+ * folding. Recurring events are reported rather than expanded.
+ */
+
+export interface ICalHoliday {
+  date: string; // YYYY-MM-DD
+  summary: string;
+}
+
+export interface ICalParseResult {
+  holidays: ICalHoliday[];
+  skippedRecurring: number;
+}
+
+const MAX_EVENT_DAYS = 366;
+
+/**
+ * Parse holiday dates from iCalendar text
+ * @param content - Raw .ics file content
+ * @returns Holidays sorted by date, one entry per calendar day
+ * @throws Error when the content is not a VCALENDAR
+ */
+export function parseICalHolidays(content: string): ICalParseResult {
+  const lines = unfoldLines(content);
+
+  if (!lines.some(line => line.toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('Content is not an iCalendar file (missing BEGIN:VCALENDAR)');
+  }
+
+  const holidays = new Map<string, ICalHoliday>();
+  let skippedRecurring = 0;
+  let event: Map<string, string> | null = null;
+
+  for (const line of lines) {
+    const upper = line.toUpperCase();
+
+    if (upper === 'BEGIN:VEVENT') {
+      event = new Map();
+      continue;
+    }
+
+    if (upper === 'END:VEVENT' && event) {
+      if (event.has('RRULE')) {
+        skippedRecurring++;
+      } else {
+        for (const holiday of expandEvent(event)) {
+          if (!holidays.has(holiday.date)) {
+            holidays.set(holiday.date, holiday);
+          }
+        }
+      }
+      event = null;
+      continue;
+    }
+
+    if (!event) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    // Property parameters (e.g. DTSTART;VALUE=DATE) are dropped; the value format tells us enough
+    const name = line.substring(0, separator).split(';')[0].toUpperCase();
+    event.set(name, line.substring(separator + 1).trim());
+  }
+
+  return {
+    holidays: Array.from(holidays.values()).sort((a, b) => a.date.localeCompare(b.date)),
+    skippedRecurring
+  };
+}
+
+function unfoldLines(content: string): string[] {
+  return content
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0);
+}
+
+function expandEvent(event: Map<string, string>): ICalHoliday[] {
+  const start = parseICalDate(event.get('DTSTART'));
+  if (!start) return [];
+
+  const summary = unescapeText(event.get('SUMMARY') || '');
+  const end = parseICalDate(event.get('DTEND'));
+  const isAllDay = /^\d{8}$/.test(event.get('DTSTART') || '');
+
+  // All-day DTEND is exclusive; timed events cover every day they touch
+  const lastDay = end
+    ? new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth(), end.getUTCDate() - (isAllDay ? 1 : 0)))
+    : start;
+
+  const result: ICalHoliday[] = [];
+  const current = new Date(start);
+
+  while (current <= lastDay && result.length < MAX_EVENT_DAYS) {
+    result.push({ date: current.toISOString().substring(0, 10), summary });
+    current.setUTCDate(current.getUTCDate() + 1);
+  }
+
+  return result.length > 0 ? result : [{ date: start.toISOString().substring(0, 10), summary }];
+}
+
+function parseICalDate(value?: string): Date | null {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const date = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1');
+}
@@ -0,0 +1,76 @@
+import { formatPredecessor, formatPredecessors, parsePredecessors, PredecessorLink } from './predecessor.utils';
+
+function parseOne(text: string): PredecessorLink {
+  const { links, errors } = parsePredecessors(text);
+  expect(errors).toEqual([]);
+  expect(links).toHaveLength(1);
+  return links[0];
+}
+
+describe('parsePredecessors', () => {
+  it('reads a comma- or semicolon-separated list', () => {
+    expect(parsePredecessors('3FS+2d, 5SS; 1.2FF-4h').links).toEqual([
+      { ref: '3', type: 'FS', lag: 2, lagUnit: 'days' },
+      { ref: '5', type: 'SS', lag: 0, lagUnit: 'days' },
+      { ref: '1.2', type: 'FF', lag: -4, lagUnit: 'hours' }
+    ]);
+  });
+
+  it('implies FS and days, and converts weeks to working days', () => {
+    expect(parseOne('7')).toEqual({ ref: '7', type: 'FS', lag: 0, lagUnit: 'days' });
+    expect(parseOne('7+3')).toEqual({ ref: '7', type: 'FS', lag: 3, lagUnit: 'days' });
+    expect(parseOne('7sf+1.5wks')).toEqual({ ref: '7', type: 'SF', lag: 7.5, lagUnit: 'days' });
+    expect(parseOne('7 SS + 50%')).toEqual({ ref: '7', type: 'SS', lag: 50, lagUnit: 'percent' });
+  });
+
+  it('keeps a hyphenated ID whole instead of reading its number as a lead', () => {
+    expect(parseOne('ABC-12')).toEqual({ ref: 'ABC-12', type: 'FS', lag: 0, lagUnit: 'days' });
+    expect(parseOne('PROJ-7-3')).toEqual({ ref: 'PROJ-7-3', type: 'FS', lag: 0, lagUnit: 'days' });
+    expect(parseOne('ABC-12SS')).toEqual({ ref: 'ABC-12', type: 'SS', lag: 0, lagUnit: 'days' });
+  });
+
+  it('reads leads on hyphenated IDs after a link type or a space', () => {
+    expect(parseOne('ABC-12FS-2d')).toEqual({ ref: 'ABC-12', type: 'FS', lag: -2, lagUnit: 'days' });
+    expect(parseOne('ABC-12 FF -4h')).toEqual({ ref: 'ABC-12', type: 'FF', lag: -4, lagUnit: 'hours' });
+    expect(parseOne('ABC-12 -2')).toEqual({ ref: 'ABC-12', type: 'FS', lag: -2, lagUnit: 'days' });
+    expect(parseOne('ABC-12+1w')).toEqual({ ref: 'ABC-12', type: 'FS', lag: 5, lagUnit: 'days' });
+  });
+
+  it('reports entries it cannot read and keeps the rest', () => {
+    const { links, errors } = parsePredecessors('2FS, 4FS+2y, 3SS+, #5, -5');
+
+    expect(links).toEqual([{ ref: '2', type: 'FS', lag: 0, lagUnit: 'days' }]);
+    expect(errors).toEqual([
+      'Cannot read predecessor "4FS+2y"; expected e.g. "3FS+2d"',
+      'Cannot read predecessor "3SS+"; expected e.g. "3FS+2d"',
+      'Cannot read predecessor "#5"; expected e.g. "3FS+2d"',
+      'Cannot read predecessor "-5"; expected e.g. "3FS+2d"'
+    ]);
+  });
+
+  it('returns nothing for an empty list', () => {
+    expect(parsePredecessors(' , ;')).toEqual({ links: [], errors: [] });
+  });
+});
+
+describe('formatPredecessors', () => {
+  it('leaves out zero lag and writes the unit suffix', () => {
+    expect(formatPredecessors([
+      { ref: '3', type: 'FS', lag: 2, lagUnit: 'days' },
+      { ref: '5', type: 'SS', lag: 0, lagUnit: 'days' },
+      { ref: '1.2', type: 'FF', lag: -4, lagUnit: 'hours' }
+    ])).toBe('3FS+2d, 5SS, 1.2FF-4h');
+    expect(formatPredecessors([])).toBe('');
+  });
+
+  it('round-trips through the parser, hyphenated IDs included', () => {
+    const links: PredecessorLink[] = [
+      { ref: 'ABC-12', type: 'FS', lag: -2, lagUnit: 'days' },
+      { ref: 'ABC-13', type: 'SF', lag: 0, lagUnit: 'days' },
+      { ref: 'X-1-2', type: 'SS', lag: 25, lagUnit: 'percent' }
+    ];
+
+    expect(parsePredecessors(formatPredecessors(links))).toEqual({ links, errors: [] });
+    expect(formatPredecessor(links[0])).toBe('ABC-12FS-2d');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Predecessor Notation Utility Functions
+ *
+ * Spreadsheet-style predecessor lists as used by MS Project and most
+ * planning sheets: a task reference followed by the link type and an
+ * optional lag, e.g. "3FS+2d, 5SS, 1.2FF-4h". FS is implied when the type
+ * is omitted and lag without a unit is in days; weeks are converted to
+ * five working days. References may contain hyphens, so a lead needs the
+ * link type or a space in front of it: "ABC-12" is a reference, "ABC-12 -2d"
+ * or "ABC-12FS-2d" a two-day lead on it.
+ */
+
+export type PredecessorLinkType = 'FS' | 'SS' | 'FF' | 'SF';
+export type PredecessorLagUnit = 'hours' | 'days' | 'percent';
+
+export interface PredecessorLink {
+  ref: string; // Row number, WBS code or ID of the predecessor, as written
+  type: PredecessorLinkType;
+  lag: number; // Negative values are leads
+  lagUnit: PredecessorLagUnit;
+}
+
+export interface PredecessorParseResult {
+  links: PredecessorLink[];
+  errors: string[];
+}
+
+// The reference ends at a link type, whitespace, a '+' lag or the end of the entry, never at a bare '-'
+const LINK_PATTERN = /^([A-Za-z0-9][\w.-]*?)(?:\s*(FS|SS|FF|SF)|\s+|(?=\+)|$)\s*(?:([+-])\s*(\d+(?:\.\d+)?)\s*(days?|d|weeks?|wks?|w|hours?|hrs?|hr|h|%)?)?$/i;
+
+const LAG_UNITS: Record<string, { unit: PredecessorLagUnit; factor: number }> = {
+  '': { unit: 'days', factor: 1 },
+  d: { unit: 'days', factor: 1 },
+  day: { unit: 'days', factor: 1 },
+  days: { unit: 'days', factor: 1 },
+  w: { unit: 'days', factor: 5 },
+  wk: { unit: 'days', factor: 5 },
+  wks: { unit: 'days', factor: 5 },
+  week: { unit: 'days', factor: 5 },
+  weeks: { unit: 'days', factor: 5 },
+  h: { unit: 'hours', factor: 1 },
+  hr: { unit: 'hours', factor: 1 },
+  hrs: { unit: 'hours', factor: 1 },
+  hour: { unit: 'hours', factor: 1 },
+  hours: { unit: 'hours', factor: 1 },
+  '%': { unit: 'percent', factor: 1 }
+};
+
+const LAG_UNIT_SUFFIX: Record<PredecessorLagUnit, string> = {
+  hours: 'h',
+  days: 'd',
+  percent: '%'
+};
+
+/**
+ * Format one predecessor link
+ * @param link - Link with the reference already resolved to the text to show
+ * @returns Notation such as "1.2FS+2d"; zero lag is left out
+ */
+export function formatPredecessor(link: PredecessorLink): string {
+  if (!link.lag) return `${link.ref}${link.type}`;
+
+  const sign = link.lag > 0 ? '+' : '-';
+  const suffix = LAG_UNIT_SUFFIX[link.lagUnit] ?? LAG_UNIT_SUFFIX.hours;
+  return `${link.ref}${link.type}${sign}${Math.abs(link.lag)}${suffix}`;
+}
+
+/**
+ * Format a task's predecessor list
+ * @param links - Links in the order they should appear
+ * @returns Comma-separated notation, empty when there are no links
+ */
+export function formatPredecessors(links: PredecessorLink[]): string {
+  return links.map(formatPredecessor).join(', ');
+}
+
+/**
+ * Parse a predecessor list
+ * @param text - Comma- or semicolon-separated notation, e.g. "3FS+2d, 5SS"
+ * @returns The links that parsed, plus one message per entry that did not
+ */
+export function parsePredecessors(text: string): PredecessorParseResult {
+  const links: PredecessorLink[] = [];
+  const errors: string[] = [];
+
+  for (const entry of text.split(/[,;]/).map(part => part.trim()).filter(Boolean)) {
+    const match = LINK_PATTERN.exec(entry);
+    const lagUnit = LAG_UNITS[(match?.[5] ?? '').toLowerCase()];
+    if (!match || !lagUnit) {
+      errors.push(`Cannot read predecessor "${entry}"; expected e.g. "3FS+2d"`);
+      continue;
+    }
+
+    const amount = match[4] ? Number(match[4]) * lagUnit.factor : 0;
+    links.push({
+      ref: match[1],
+      type: (match[2]?.toUpperCase() ?? 'FS') as PredecessorLinkType,
+      lag: match[3] === '-' ? -amount : amount,
+      lagUnit: lagUnit.unit
+    });
+  }
+
+  return { links, errors };
+}
@@ -0,0 +1,95 @@
+import { expandRecurrence, formatRRule, toDateKey, RecurrenceRule } from './recurrence.utils';
+
+const MONDAY = new Date(2025, 0, 6, 9, 0);
+
+function expand(rule: Partial<RecurrenceRule>, start: Date, windowEnd: Date): string[] {
+  return expandRecurrence({ frequency: 'daily', interval: 1, ...rule }, start, windowEnd).map(toDateKey);
+}
+
+describe('expandRecurrence', () => {
+  it('repeats daily every INTERVAL days, keeping the time of day', () => {
+    const dates = expandRecurrence({ frequency: 'daily', interval: 2 }, MONDAY, new Date(2025, 0, 13));
+
+    expect(dates.map(toDateKey)).toEqual(['2025-01-06', '2025-01-08', '2025-01-10', '2025-01-12']);
+    expect(dates.every(date => date.getHours() === 9 && date.getMinutes() === 0)).toBe(true);
+  });
+
+  it('limits daily occurrences to BYDAY', () => {
+    expect(expand({ byWeekday: [1, 2, 3, 4, 5] }, MONDAY, new Date(2025, 0, 14, 23))).toEqual([
+      '2025-01-06', '2025-01-07', '2025-01-08', '2025-01-09', '2025-01-10', '2025-01-13', '2025-01-14'
+    ]);
+  });
+
+  it('repeats weekly on the weekday of the start without BYDAY', () => {
+    expect(expand({ frequency: 'weekly' }, MONDAY, new Date(2025, 0, 27))).toEqual([
+      '2025-01-06', '2025-01-13', '2025-01-20'
+    ]);
+  });
+
+  it('repeats every other week on each BYDAY weekday', () => {
+    expect(expand({ frequency: 'weekly', interval: 2, byWeekday: [1, 4] }, MONDAY, new Date(2025, 1, 2))).toEqual([
+      '2025-01-06', '2025-01-09', '2025-01-20', '2025-01-23'
+    ]);
+  });
+
+  it('counts weekly intervals from the Monday of the start week', () => {
+    const wednesday = new Date(2025, 0, 8, 9, 0);
+
+    expect(expand({ frequency: 'weekly', interval: 2, byWeekday: [1] }, wednesday, new Date(2025, 1, 4))).toEqual([
+      '2025-01-08', '2025-01-20', '2025-02-03'
+    ]);
+  });
+
+  it('skips months without the day of month of the start', () => {
+    const start = new Date(2025, 0, 31, 9, 0);
+
+    expect(expand({ frequency: 'monthly' }, start, new Date(2025, 5, 30))).toEqual([
+      '2025-01-31', '2025-03-31', '2025-05-31'
+    ]);
+  });
+
+  it('repeats monthly on BYDAY weekdays of every INTERVAL-th month', () => {
+    const dates = expand({ frequency: 'monthly', interval: 2, byWeekday: [5] }, MONDAY, new Date(2025, 2, 31));
+
+    expect(dates).toEqual([
+      '2025-01-06', '2025-01-10', '2025-01-17', '2025-01-24', '2025-01-31',
+      '2025-03-07', '2025-03-14', '2025-03-21', '2025-03-28'
+    ]);
+  });
+
+  it('counts the start towards COUNT', () => {
+    expect(expand({ frequency: 'weekly', count: 3 }, MONDAY, new Date(2025, 11, 31))).toEqual([
+      '2025-01-06', '2025-01-13', '2025-01-20'
+    ]);
+  });
+
+  it('stops at UNTIL, including an occurrence on it', () => {
+    expect(expand({ until: new Date(2025, 0, 9, 9, 0) }, MONDAY, new Date(2025, 11, 31))).toEqual([
+      '2025-01-06', '2025-01-07', '2025-01-08', '2025-01-09'
+    ]);
+  });
+
+  it('stops at the window end before UNTIL or COUNT', () => {
+    expect(expand({ count: 100, until: new Date(2025, 11, 31) }, MONDAY, new Date(2025, 0, 8, 9, 0))).toEqual([
+      '2025-01-06', '2025-01-07', '2025-01-08'
+    ]);
+  });
+
+  it('treats an interval below one as one', () => {
+    expect(expand({ interval: 0 }, MONDAY, new Date(2025, 0, 8, 9, 0))).toEqual([
+      '2025-01-06', '2025-01-07', '2025-01-08'
+    ]);
+  });
+});
+
+describe('formatRRule', () => {
+  it('writes the non-default parts with BYDAY in weekday order', () => {
+    expect(formatRRule({ frequency: 'weekly', interval: 2, byWeekday: [4, 1], count: 10 }))
+      .toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10');
+  });
+
+  it('writes UNTIL as a UTC timestamp', () => {
+    expect(formatRRule({ frequency: 'daily', interval: 1, until: new Date(Date.UTC(2025, 2, 31, 23, 59, 59)) }))
+      .toBe('FREQ=DAILY;UNTIL=20250331T235959Z');
+  });
+});
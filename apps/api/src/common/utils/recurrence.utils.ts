@@ -0,0 +1,106 @@
+/**
+ * Recurrence rules for repeating issues.
+ *
+ * Supports the RRULE subset the issue series need: FREQ=DAILY/WEEKLY/MONTHLY
+ * with INTERVAL, COUNT or UNTIL and BYDAY. As in RFC 5545 the start date is
+ * always the first occurrence and counts towards COUNT. Weeks start on Monday.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  count?: number | null;
+  until?: Date | null;
+  byWeekday?: number[]; // 0=Sunday
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Occurrence dates from `start` up to and including `windowEnd`, keeping the
+ * time of day of `start`. Occurrences past UNTIL or beyond COUNT are dropped.
+ */
+export function expandRecurrence(rule: RecurrenceRule, start: Date, windowEnd: Date): Date[] {
+  const occurrences: Date[] = [];
+  const interval = Math.max(1, rule.interval || 1);
+  const end = rule.until && rule.until < windowEnd ? rule.until : windowEnd;
+  const limit = rule.count ?? Infinity;
+
+  for (
+    let day = new Date(start);
+    day <= end && occurrences.length < limit;
+    day = addDays(day, 1)
+  ) {
+    if (day.getTime() === start.getTime() || matchesRule(rule, interval, start, day)) {
+      occurrences.push(day);
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * RRULE text for display, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;COUNT=10
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday?.length) {
+    parts.push(`BYDAY=${[...rule.byWeekday].sort((a, b) => a - b).map(day => RRULE_WEEKDAYS[day]).join(',')}`);
+  }
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Local calendar date as YYYY-MM-DD
+ */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function matchesRule(rule: RecurrenceRule, interval: number, start: Date, day: Date): boolean {
+  const byWeekday = rule.byWeekday || [];
+
+  switch (rule.frequency) {
+    case 'daily':
+      return daysBetween(start, day) % interval === 0
+        && (byWeekday.length === 0 || byWeekday.includes(day.getDay()));
+    case 'weekly':
+      return Math.floor(daysBetween(weekStart(start), day) / 7) % interval === 0
+        && (byWeekday.length ? byWeekday.includes(day.getDay()) : day.getDay() === start.getDay());
+    case 'monthly': {
+      const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth();
+      // Months without the start's day of month are skipped, as RRULE does
+      return months % interval === 0
+        && (byWeekday.length ? byWeekday.includes(day.getDay()) : day.getDate() === start.getDate());
+    }
+    default:
+      return false;
+  }
+}
+
+// Calendar days, unaffected by daylight saving changes
+function daysBetween(from: Date, to: Date): number {
+  const fromUtc = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const toUtc = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((toUtc - fromUtc) / DAY_MS);
+}
+
+function weekStart(date: Date): Date {
+  return addDays(date, -((date.getDay() + 6) % 7));
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
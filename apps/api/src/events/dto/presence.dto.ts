@@ -0,0 +1,69 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsNumber, IsOptional, IsUUID, ValidateIf, ValidateNested } from 'class-validator';
+
+export class PresenceCursorDto {
+  @ApiProperty({ description: 'Timeline position as epoch milliseconds, independent of zoom and scroll', example: 1757289600000 })
+  @IsNumber()
+  time: number;
+
+  @ApiPropertyOptional({ description: 'Task row the pointer is over', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsUUID()
+  taskId?: string | null;
+}
+
+export class UpdatePresenceDto {
+  @ApiProperty({ description: 'Connection id from the SSE connection event' })
+  @IsUUID()
+  connectionId: string;
+
+  @ApiPropertyOptional({ description: 'Selected task; null clears the selection', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsUUID()
+  selectedTaskId?: string | null;
+
+  @ApiPropertyOptional({ description: 'Task being dragged; other viewers treat it as soft-locked. null releases it', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsUUID()
+  draggingTaskId?: string | null;
+
+  @ApiPropertyOptional({ description: 'Pointer position over the chart; null when it leaves', type: PresenceCursorDto, nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PresenceCursorDto)
+  cursor?: PresenceCursorDto | null;
+}
+
+export class ProjectViewerResponseDto {
+  @ApiProperty({ description: 'SSE connection id; one user may hold several' })
+  connectionId: string;
+
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({ description: 'Display name' })
+  name: string;
+
+  @ApiProperty({ description: 'Color assigned to the viewer for cursors and highlights', example: '#3B82F6' })
+  color: string;
+
+  @ApiProperty({ description: 'Selected task', nullable: true })
+  selectedTaskId: string | null;
+
+  @ApiProperty({ description: 'Task being dragged', nullable: true })
+  draggingTaskId: string | null;
+
+  @ApiProperty({ description: 'Pointer position', type: PresenceCursorDto, nullable: true })
+  cursor: PresenceCursorDto | null;
+
+  @ApiProperty({ description: 'When the viewer connected' })
+  connectedAt: string;
+
+  @ApiProperty({ description: 'Last presence change' })
+  updatedAt: string;
+}
@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { SseController } from './sse.controller';
+import { PresenceController } from './presence.controller';
+import { ProjectEventsService } from './project-events.service';
+import { PresenceService } from './presence.service';
+
+// Global so issue and scheduling services can publish without importing each other's modules
+@Global()
+@Module({
+  controllers: [SseController, PresenceController],
+  providers: [ProjectEventsService, PresenceService],
+  exports: [ProjectEventsService],
+})
+export class EventsModule {}
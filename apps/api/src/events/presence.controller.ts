@@ -0,0 +1,59 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  Request
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+import { SkipThrottle } from '@nestjs/throttler';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { PresenceService } from './presence.service';
+import { UpdatePresenceDto, ProjectViewerResponseDto } from './dto/presence.dto';
+
+@ApiTags('Events')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/presence')
+export class PresenceController {
+  constructor(private readonly presenceService: PresenceService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List who is viewing the project' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Connected viewers', type: [ProjectViewerResponseDto] })
+  async findAll(
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ): Promise<ProjectViewerResponseDto[]> {
+    return this.presenceService.list(projectId);
+  }
+
+  @Patch()
+  // Cursor moves arrive several times a second; clients throttle them instead
+  @SkipThrottle({ short: true, medium: true, long: true })
+  @ApiOperation({
+    summary: 'Update this connection\'s selection, drag or cursor',
+    description: 'Changes are pushed to the other viewers as presence events on the project event stream'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Presence updated', type: ProjectViewerResponseDto })
+  @ApiResponse({ status: 403, description: 'Connection belongs to another user' })
+  @ApiResponse({ status: 404, description: 'Connection not found or already closed' })
+  async update(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: UpdatePresenceDto,
+    @Request() req: any
+  ): Promise<ProjectViewerResponseDto> {
+    return this.presenceService.update(projectId, req.user?.id, dto);
+  }
+}
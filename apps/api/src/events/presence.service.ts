@@ -0,0 +1,122 @@
+import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { ProjectEventsService } from './project-events.service';
+import { UpdatePresenceDto, ProjectViewerResponseDto } from './dto/presence.dto';
+
+interface PresenceUser {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+interface ViewerEntry extends ProjectViewerResponseDto {
+  projectId: string;
+  draggingSince: number | null;
+}
+
+const VIEWER_COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316'];
+// A tab that dies mid-drag keeps its SSE socket until the proxy notices; do not hold the lock that long
+const DRAG_LOCK_TTL_MS = 30000;
+
+/**
+ * Who is looking at each project and what they are doing, keyed by SSE connection.
+ * Entries live exactly as long as the connection's event stream.
+ */
+@Injectable()
+export class PresenceService {
+  private readonly viewers = new Map<string, ViewerEntry>();
+
+  constructor(private readonly projectEvents: ProjectEventsService) {}
+
+  join(projectId: string, connectionId: string, user: PresenceUser): ProjectViewerResponseDto {
+    const now = new Date().toISOString();
+    const entry: ViewerEntry = {
+      projectId,
+      connectionId,
+      userId: user.id,
+      name: user.name || user.email || 'Anonymous',
+      color: this.colorFor(user.id),
+      selectedTaskId: null,
+      draggingTaskId: null,
+      cursor: null,
+      connectedAt: now,
+      updatedAt: now,
+      draggingSince: null
+    };
+    this.viewers.set(connectionId, entry);
+
+    this.announce(entry, 'joined');
+    return this.toResponse(entry);
+  }
+
+  leave(connectionId: string): void {
+    const entry = this.viewers.get(connectionId);
+    if (!entry) return;
+
+    this.viewers.delete(connectionId);
+    this.announce(entry, 'left');
+  }
+
+  update(projectId: string, userId: string, dto: UpdatePresenceDto): ProjectViewerResponseDto {
+    const entry = this.viewers.get(dto.connectionId);
+    if (!entry || entry.projectId !== projectId) {
+      throw new NotFoundException('Presence connection not found; reconnect the event stream');
+    }
+    if (entry.userId !== userId) {
+      throw new ForbiddenException('Presence connection belongs to another user');
+    }
+
+    if (dto.selectedTaskId !== undefined) {
+      entry.selectedTaskId = dto.selectedTaskId;
+    }
+    if (dto.draggingTaskId !== undefined) {
+      entry.draggingTaskId = dto.draggingTaskId;
+      entry.draggingSince = dto.draggingTaskId ? Date.now() : null;
+    }
+    if (dto.cursor !== undefined) {
+      entry.cursor = dto.cursor ? { time: dto.cursor.time, taskId: dto.cursor.taskId ?? null } : null;
+    }
+    entry.updatedAt = new Date().toISOString();
+
+    this.announce(entry, 'updated');
+    return this.toResponse(entry);
+  }
+
+  list(projectId: string): ProjectViewerResponseDto[] {
+    return [...this.viewers.values()]
+      .filter(entry => entry.projectId === projectId)
+      .map(entry => this.toResponse(entry));
+  }
+
+  private announce(entry: ViewerEntry, action: 'joined' | 'updated' | 'left'): void {
+    this.projectEvents.broadcast({
+      projectId: entry.projectId,
+      type: 'presence',
+      data: { action, viewer: this.toResponse(entry) },
+      originConnectionId: entry.connectionId
+    });
+  }
+
+  private toResponse(entry: ViewerEntry): ProjectViewerResponseDto {
+    const lockExpired = entry.draggingSince !== null && Date.now() - entry.draggingSince > DRAG_LOCK_TTL_MS;
+    return {
+      connectionId: entry.connectionId,
+      userId: entry.userId,
+      name: entry.name,
+      color: entry.color,
+      selectedTaskId: entry.selectedTaskId,
+      draggingTaskId: lockExpired ? null : entry.draggingTaskId,
+      cursor: entry.cursor,
+      connectedAt: entry.connectedAt,
+      updatedAt: entry.updatedAt
+    };
+  }
+
+  // Stable per user so a person keeps their color across tabs and reconnects
+  private colorFor(userId: string): string {
+    let hash = 0;
+    for (const char of userId) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return VIEWER_COLORS[hash % VIEWER_COLORS.length];
+  }
+}
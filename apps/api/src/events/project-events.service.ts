@@ -0,0 +1,132 @@
+import { Injectable } from '@nestjs/common';
+import { Observable, Subject } from 'rxjs';
+import { filter } from 'rxjs/operators';
+
+export type ProjectEventType =
+  | 'issue.created'
+  | 'issue.updated'
+  | 'issue.deleted'
+  | 'issue.restored'
+  | 'dependency.created'
+  | 'dependency.deleted'
+  | 'progress.updated'
+  | 'schedule.applied'
+  | 'conflicts.detected';
+
+export interface ProjectEvent {
+  id: string; // `<streamId>-<sequence>`, sent to clients as the SSE event id
+  sequence: number;
+  type: ProjectEventType;
+  projectId: string;
+  userId: string | null;
+  message: string;
+  data: Record<string, any>;
+  timestamp: number;
+}
+
+export interface PublishProjectEvent {
+  projectId: string;
+  type: ProjectEventType;
+  message: string;
+  data?: Record<string, any>;
+  userId?: string | null;
+}
+
+// Transient state such as presence; never buffered, so reconnecting clients do not replay it
+export interface EphemeralProjectEvent {
+  projectId: string;
+  type: 'presence';
+  data: Record<string, any>;
+  originConnectionId?: string; // not echoed back to the connection that caused it
+}
+
+export interface ProjectEventReplay {
+  events: ProjectEvent[];
+  // False when the id is unknown or older than the buffer; the client has to refetch instead
+  complete: boolean;
+}
+
+const REPLAY_BUFFER_SIZE = 500;
+const REPLAY_WINDOW_MS = 60 * 60 * 1000;
+
+interface ProjectHistory {
+  events: ProjectEvent[];
+  droppedThrough: number; // sequence of the newest event evicted from the buffer
+}
+
+/**
+ * In-process fan-out of project changes to SSE subscribers. Recent events are kept
+ * per project so a reconnecting client can catch up from its Last-Event-ID.
+ */
+@Injectable()
+export class ProjectEventsService {
+  // Ids from a previous process cannot be replayed; the prefix tells them apart
+  private readonly streamId = Date.now().toString(36);
+  private sequence = 0;
+  private readonly events$ = new Subject<ProjectEvent>();
+  private readonly ephemeral$ = new Subject<EphemeralProjectEvent>();
+  private readonly history = new Map<string, ProjectHistory>();
+
+  publish(input: PublishProjectEvent): ProjectEvent {
+    const event: ProjectEvent = {
+      id: `${this.streamId}-${++this.sequence}`,
+      sequence: this.sequence,
+      type: input.type,
+      projectId: input.projectId,
+      userId: input.userId ?? null,
+      message: input.message,
+      data: input.data ?? {},
+      timestamp: Date.now()
+    };
+
+    const history = this.prune(input.projectId, event.timestamp);
+    history.events.push(event);
+    if (history.events.length > REPLAY_BUFFER_SIZE) {
+      history.droppedThrough = history.events.shift()!.sequence;
+    }
+
+    this.events$.next(event);
+    return event;
+  }
+
+  stream(projectId: string): Observable<ProjectEvent> {
+    return this.events$.pipe(filter(event => event.projectId === projectId));
+  }
+
+  broadcast(event: EphemeralProjectEvent): void {
+    this.ephemeral$.next(event);
+  }
+
+  ephemeral(projectId: string): Observable<EphemeralProjectEvent> {
+    return this.ephemeral$.pipe(filter(event => event.projectId === projectId));
+  }
+
+  replaySince(projectId: string, lastEventId: string): ProjectEventReplay {
+    const match = /^([a-z0-9]+)-(\d+)$/.exec(lastEventId);
+    if (!match || match[1] !== this.streamId) {
+      return { events: [], complete: false };
+    }
+
+    const lastSequence = Number(match[2]);
+    const history = this.prune(projectId, Date.now());
+    return {
+      events: history.events.filter(event => event.sequence > lastSequence),
+      complete: lastSequence <= this.sequence && lastSequence >= history.droppedThrough
+    };
+  }
+
+  // Drops events past the replay window and returns the project's (possibly new) history
+  private prune(projectId: string, now: number): ProjectHistory {
+    let history = this.history.get(projectId);
+    if (!history) {
+      history = { events: [], droppedThrough: 0 };
+      this.history.set(projectId, history);
+    }
+
+    const cutoff = now - REPLAY_WINDOW_MS;
+    while (history.events.length > 0 && history.events[0].timestamp < cutoff) {
+      history.droppedThrough = history.events.shift()!.sequence;
+    }
+    return history;
+  }
+}
@@ -0,0 +1,129 @@
+import {
+  Controller,
+  Sse,
+  Query,
+  Headers,
+  ParseUUIDPipe,
+  UseGuards,
+  Request,
+  MessageEvent
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiQuery,
+  ApiHeader,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+import { Observable, concat, defer, from, interval, merge } from 'rxjs';
+import { filter, finalize, map } from 'rxjs/operators';
+import { randomUUID } from 'crypto';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ProjectAccessGuard } from '../auth/guards/project-access.guard';
+import { ProjectEvent, ProjectEventType, ProjectEventsService } from './project-events.service';
+import { PresenceService } from './presence.service';
+
+const HEARTBEAT_INTERVAL_MS = 25000; // the web client treats 60s of silence as a dead connection
+const RECONNECT_DELAY_MS = 3000;
+
+// Maps change events onto the web client's NotificationMessage categories
+const EVENT_PRESENTATION: Record<ProjectEventType, {
+  type: 'scheduling' | 'conflict' | 'audit' | 'system';
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+}> = {
+  'issue.created': { type: 'audit', priority: 'low', title: 'Issue created' },
+  'issue.updated': { type: 'audit', priority: 'low', title: 'Issue updated' },
+  'issue.deleted': { type: 'audit', priority: 'medium', title: 'Issue deleted' },
+  'issue.restored': { type: 'audit', priority: 'low', title: 'Issue restored' },
+  'dependency.created': { type: 'scheduling', priority: 'low', title: 'Dependency added' },
+  'dependency.deleted': { type: 'scheduling', priority: 'low', title: 'Dependency removed' },
+  'progress.updated': { type: 'audit', priority: 'low', title: 'Progress updated' },
+  'schedule.applied': { type: 'scheduling', priority: 'medium', title: 'Schedule applied' },
+  'conflicts.detected': { type: 'conflict', priority: 'high', title: 'Scheduling conflicts detected' }
+};
+
+@ApiTags('Events')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, ProjectAccessGuard)
+@Controller('sse')
+export class SseController {
+  constructor(
+    private readonly projectEvents: ProjectEventsService,
+    private readonly presenceService: PresenceService
+  ) {}
+
+  @Sse()
+  @ApiOperation({
+    summary: 'Stream project changes as server-sent events',
+    description: 'EventSource cannot set headers, so the JWT may be passed as the access_token query parameter'
+  })
+  @ApiQuery({ name: 'projectId', description: 'Project UUID' })
+  @ApiQuery({ name: 'lastEventId', required: false, description: 'Resume after this event id when reconnecting manually' })
+  @ApiHeader({ name: 'Last-Event-ID', required: false, description: 'Sent by the browser on automatic reconnects' })
+  @ApiResponse({ status: 200, description: 'connection, notification, presence, resync and heartbeat events' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  stream(
+    @Query('projectId', ParseUUIDPipe) projectId: string,
+    @Request() req: any,
+    @Query('lastEventId') lastEventIdQuery?: string,
+    @Headers('last-event-id') lastEventIdHeader?: string
+  ): Observable<MessageEvent> {
+    const lastEventId = lastEventIdHeader || lastEventIdQuery;
+
+    // Replay and live subscription happen in the same tick, so no event falls between them
+    return defer(() => {
+      const replay = lastEventId ? this.projectEvents.replaySince(projectId, lastEventId) : null;
+      const connectionId = randomUUID();
+      const viewers = this.presenceService.list(projectId);
+      this.presenceService.join(projectId, connectionId, req.user ?? { id: 'anonymous' });
+
+      const opening: MessageEvent[] = [{
+        type: 'connection',
+        retry: RECONNECT_DELAY_MS,
+        data: { connectionId, projectId, replayed: replay?.events.length ?? 0, viewers }
+      }];
+      if (replay && !replay.complete) {
+        opening.push({ type: 'resync', data: { projectId, reason: 'Missed events are no longer available' } });
+      }
+
+      return concat(
+        from(opening),
+        from(replay?.events ?? []).pipe(map(event => this.toMessage(event))),
+        merge(
+          this.projectEvents.stream(projectId).pipe(map(event => this.toMessage(event))),
+          this.projectEvents.ephemeral(projectId).pipe(
+            filter(event => event.originConnectionId !== connectionId),
+            map((event): MessageEvent => ({ type: event.type, data: event.data }))
+          ),
+          interval(HEARTBEAT_INTERVAL_MS).pipe(
+            map((): MessageEvent => ({ type: 'heartbeat', data: { timestamp: Date.now() } }))
+          )
+        )
+      ).pipe(finalize(() => this.presenceService.leave(connectionId)));
+    });
+  }
+
+  private toMessage(event: ProjectEvent): MessageEvent {
+    const presentation = EVENT_PRESENTATION[event.type];
+    return {
+      id: event.id,
+      type: 'notification',
+      data: {
+        id: event.id,
+        event: event.type,
+        type: presentation.type,
+        priority: presentation.priority,
+        title: presentation.title,
+        message: event.message,
+        timestamp: event.timestamp,
+        projectId: event.projectId,
+        userId: event.userId ?? undefined,
+        data: event.data,
+        autoClose: presentation.priority === 'low' || presentation.priority === 'medium'
+      }
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsBoolean, IsDateString, IsEnum, IsOptional, ValidateNested } from 'class-validator';
+import { QueryIssueDto } from '../../issues/dto/query-issue.dto';
+
+export const EXPORT_TIME_SCALES = ['day', 'week', 'month', 'quarter'] as const;
+export type ExportTimeScale = typeof EXPORT_TIME_SCALES[number];
+
+export const SCHEDULE_EXPORT_FORMATS = ['EXCEL', 'CSV', 'JSON'] as const;
+export type ScheduleExportFormat = typeof SCHEDULE_EXPORT_FORMATS[number];
+
+/**
+ * Issue list criteria without paging; an export always contains every matching issue
+ */
+export class ExportIssuesQueryDto extends OmitType(QueryIssueDto, ['projectId', 'limit', 'cursor'] as const) {}
+
+export class ExportGanttQueryDto extends ExportIssuesQueryDto {
+  @ApiPropertyOptional({ enum: EXPORT_TIME_SCALES, default: 'week', description: 'Width of one timeline column' })
+  @IsOptional()
+  @IsEnum(EXPORT_TIME_SCALES)
+  timeScale?: ExportTimeScale = 'week';
+
+  @ApiPropertyOptional({ description: 'First day of the timeline; defaults to the earliest start date' })
+  @IsOptional()
+  @IsDateString()
+  rangeStart?: string;
+
+  @ApiPropertyOptional({ description: 'Last day of the timeline; defaults to the latest due date' })
+  @IsOptional()
+  @IsDateString()
+  rangeEnd?: string;
+}
+
+export class ExportDateRangeDto {
+  @ApiProperty()
+  @IsDateString()
+  start: string;
+
+  @ApiProperty()
+  @IsDateString()
+  end: string;
+}
+
+export class ExportScheduleDto {
+  @ApiProperty({ enum: SCHEDULE_EXPORT_FORMATS })
+  @IsEnum(SCHEDULE_EXPORT_FORMATS)
+  format: ScheduleExportFormat;
+
+  @ApiPropertyOptional({ default: true, description: 'Add the schedule summary (end date, duration, critical path)' })
+  @IsOptional()
+  @IsBoolean()
+  includeMetrics?: boolean = true;
+
+  @ApiPropertyOptional({ default: true, description: 'Add the conflicts found during calculation' })
+  @IsOptional()
+  @IsBoolean()
+  includeWarnings?: boolean = true;
+
+  @ApiPropertyOptional({ type: ExportDateRangeDto, description: 'Only tasks overlapping this range' })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ExportDateRangeDto)
+  dateRange?: ExportDateRangeDto;
+}
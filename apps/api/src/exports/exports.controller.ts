@@ -0,0 +1,115 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Res
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiProduces
+} from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ExportsService, ExportFile } from './exports.service';
+import { ExportIssuesQueryDto, ExportGanttQueryDto, ExportScheduleDto } from './dto/export.dto';
+
+const XLSX_MEDIA_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+@ApiTags('Exports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId')
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get('export/issues')
+  @ApiOperation({
+    summary: 'Export issues as Issue.xlsx',
+    description: 'Accepts the issue list filters and sort order; every matching issue is included'
+  })
+  @ApiProduces(XLSX_MEDIA_TYPE)
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Workbook' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async exportIssues(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query() query: ExportIssuesQueryDto,
+    @Res() res: Response
+  ) {
+    return this.send(res, await this.exportsService.exportIssues(projectId, query));
+  }
+
+  @Get('export/wbs')
+  @ApiOperation({
+    summary: 'Export the WBS as WBS.xlsx',
+    description: 'Matching issues in outline order with WBS codes, indentation and row grouping'
+  })
+  @ApiProduces(XLSX_MEDIA_TYPE)
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Workbook' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async exportWbs(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query() query: ExportIssuesQueryDto,
+    @Res() res: Response
+  ) {
+    return this.send(res, await this.exportsService.exportWbs(projectId, query));
+  }
+
+  @Get('export/gantt')
+  @ApiOperation({
+    summary: 'Export the Gantt chart as Gantt.xlsx',
+    description: 'Bars are shaded cells on a timeline at the chosen time scale'
+  })
+  @ApiProduces(XLSX_MEDIA_TYPE)
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Workbook' })
+  @ApiResponse({ status: 400, description: 'Range reversed or too many timeline columns for the time scale' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async exportGantt(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query() query: ExportGanttQueryDto,
+    @Res() res: Response
+  ) {
+    return this.send(res, await this.exportsService.exportGantt(projectId, query));
+  }
+
+  @Post('schedule/:scheduleId/export')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Export a calculated schedule',
+    description: 'EXCEL adds a timeline plus optional summary and conflict sheets; tasks can be narrowed with the issue list filters'
+  })
+  @ApiProduces(XLSX_MEDIA_TYPE, 'text/csv', 'application/json')
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scheduleId', description: 'Computed schedule UUID' })
+  @ApiResponse({ status: 200, description: 'Export file' })
+  @ApiResponse({ status: 404, description: 'Project or schedule not found' })
+  async exportSchedule(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scheduleId', ParseUUIDPipe) scheduleId: string,
+    @Body() dto: ExportScheduleDto,
+    @Query() query: ExportIssuesQueryDto,
+    @Res() res: Response
+  ) {
+    return this.send(res, await this.exportsService.exportSchedule(projectId, scheduleId, dto, query));
+  }
+
+  private send(res: Response, file: ExportFile) {
+    res.set('Content-Type', file.contentType);
+    res.set('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.send(file.body);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { IssuesModule } from '../issues/issues.module';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+
+@Module({
+  imports: [PrismaModule, IssuesModule],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+  exports: [ExportsService]
+})
+export class ExportsModule {}
@@ -0,0 +1,675 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Workbook, Worksheet, Row, Fill } from 'exceljs';
+import { PrismaService } from '../prisma/prisma.service';
+import { IssuesService, WBSOutlineInfo } from '../issues/issues.service';
+import { TaskSchedule, ConflictInfo } from '../scheduling/entities/computed-schedule.entity';
+import {
+  formatPredecessors,
+  PredecessorLagUnit,
+  PredecessorLinkType
+} from '../common/utils/predecessor.utils';
+import {
+  ExportIssuesQueryDto,
+  ExportGanttQueryDto,
+  ExportScheduleDto,
+  ExportTimeScale
+} from './dto/export.dto';
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const DATE_FORMAT = 'yyyy-mm-dd';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Wider timelines are slow to open and unreadable; a coarser scale is the better answer
+const MAX_TIMELINE_COLUMNS = 400;
+// Excel caps cell indentation at 15 and row outline levels at 7
+const MAX_INDENT = 15;
+const MAX_OUTLINE_LEVEL = 7;
+
+const TIMELINE_COLUMN_WIDTHS: Record<ExportTimeScale, number> = {
+  day: 3.5,
+  week: 6,
+  month: 5,
+  quarter: 5
+};
+
+const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const solidFill = (argb: string): Fill => ({ type: 'pattern', pattern: 'solid', fgColor: { argb } });
+const HEADER_FILL = solidFill('FFE5E7EB');
+const BAR_FILL = solidFill('FF93C5FD');
+const PROGRESS_FILL = solidFill('FF2563EB');
+const CRITICAL_FILL = solidFill('FFF87171');
+const WEEKEND_FILL = solidFill('FFF3F4F6');
+
+const ISSUE_EXPORT_INCLUDE = {
+  assignee: { select: { name: true, email: true } },
+  creator: { select: { name: true } },
+  milestone: { select: { name: true } }
+} satisfies Prisma.IssueInclude;
+
+type ExportIssue = Prisma.IssueGetPayload<{ include: typeof ISSUE_EXPORT_INCLUDE }>;
+type OutlineEntry = WBSOutlineInfo & { id: string };
+
+interface SheetColumn {
+  header: string;
+  key: string;
+  width: number;
+  numFmt?: string;
+}
+
+interface TimelineColumn {
+  start: number; // UTC ms, inclusive
+  end: number; // UTC ms, exclusive
+  label: string;
+  group: string;
+  weekend: boolean;
+}
+
+interface TimelineRow {
+  values: unknown[];
+  indent: number;
+  summary: boolean;
+  bar: { start: Date; end: Date; progress: number; critical: boolean } | null;
+}
+
+interface ScheduleTaskRow {
+  wbsCode: string | null;
+  taskId: string;
+  title: string;
+  assignee: string | null;
+  startDate: Date;
+  endDate: Date;
+  duration: number;
+  floatTime: number | null;
+  isCritical: boolean;
+  isSummary: boolean;
+  levelingDelay: number | null;
+}
+
+@Injectable()
+export class ExportsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly issuesService: IssuesService
+  ) {}
+
+  /**
+   * Issue.xlsx: one row per matching issue with every field, in the issue list's sort order
+   */
+  async exportIssues(projectId: string, query: ExportIssuesQueryDto): Promise<ExportFile> {
+    const outline = this.byId(await this.issuesService.getWBSOutline(projectId));
+    const issues = await this.findIssues(projectId, query);
+    const predecessors = await this.predecessorNotation(projectId, issues.map(issue => issue.id), outline);
+
+    const workbook = this.createWorkbook();
+    const sheet = this.addTableSheet(workbook, 'Issues', [
+      { header: 'WBS', key: 'wbsCode', width: 10 },
+      { header: 'ID', key: 'id', width: 38 },
+      { header: 'Title', key: 'title', width: 40 },
+      { header: 'Description', key: 'description', width: 50 },
+      { header: 'Type', key: 'type', width: 10 },
+      { header: 'Status', key: 'status', width: 10 },
+      { header: 'Priority', key: 'priority', width: 9 },
+      { header: 'Assignee', key: 'assignee', width: 20 },
+      { header: 'Assignee Email', key: 'assigneeEmail', width: 28 },
+      { header: 'Parent WBS', key: 'parentWbsCode', width: 11 },
+      { header: 'Milestone', key: 'milestone', width: 20 },
+      { header: 'Estimate', key: 'estimateValue', width: 9 },
+      { header: 'Estimate Unit', key: 'estimateUnit', width: 12 },
+      { header: 'Optimistic', key: 'optimisticEstimate', width: 11 },
+      { header: 'Pessimistic', key: 'pessimisticEstimate', width: 11 },
+      { header: 'Spent (h)', key: 'spent', width: 10 },
+      { header: 'Progress (%)', key: 'progress', width: 12 },
+      { header: 'Start', key: 'startDate', width: 12, numFmt: DATE_FORMAT },
+      { header: 'Due', key: 'dueDate', width: 12, numFmt: DATE_FORMAT },
+      { header: 'Constraint', key: 'constraintType', width: 11 },
+      { header: 'Constraint Date', key: 'constraintDate', width: 15, numFmt: DATE_FORMAT },
+      { header: 'Labels', key: 'labels', width: 24 },
+      { header: 'Predecessors', key: 'predecessors', width: 20 },
+      { header: 'Created By', key: 'createdBy', width: 20 },
+      { header: 'Created', key: 'createdAt', width: 17, numFmt: DATE_TIME_FORMAT },
+      { header: 'Updated', key: 'updatedAt', width: 17, numFmt: DATE_TIME_FORMAT },
+      { header: 'Closed', key: 'closedAt', width: 17, numFmt: DATE_TIME_FORMAT },
+      { header: 'Deleted', key: 'deletedAt', width: 17, numFmt: DATE_TIME_FORMAT }
+    ]);
+
+    for (const issue of issues) {
+      sheet.addRow({
+        wbsCode: outline.get(issue.id)?.code ?? null,
+        id: issue.id,
+        title: issue.title,
+        description: issue.description,
+        type: issue.type,
+        status: issue.status,
+        priority: issue.priority,
+        assignee: issue.assignee?.name ?? null,
+        assigneeEmail: issue.assignee?.email ?? null,
+        parentWbsCode: issue.parentIssueId ? outline.get(issue.parentIssueId)?.code ?? null : null,
+        milestone: issue.milestone?.name ?? null,
+        estimateValue: issue.estimateValue,
+        estimateUnit: issue.estimateUnit,
+        optimisticEstimate: issue.optimisticEstimate,
+        pessimisticEstimate: issue.pessimisticEstimate,
+        spent: issue.spent,
+        progress: issue.progress,
+        startDate: issue.startDate,
+        dueDate: issue.dueDate,
+        constraintType: issue.constraintType,
+        constraintDate: issue.constraintDate,
+        labels: issue.labels.join(', '),
+        predecessors: predecessors.get(issue.id) ?? '',
+        createdBy: issue.creator.name,
+        createdAt: issue.createdAt,
+        updatedAt: issue.updatedAt,
+        closedAt: issue.closedAt,
+        deletedAt: issue.deletedAt
+      });
+    }
+
+    return this.toXlsxFile(workbook, 'Issue.xlsx');
+  }
+
+  /**
+   * WBS.xlsx: matching issues in outline order, indented and grouped by level.
+   * Estimates, spent hours and progress are the roll-ups shown in the WBS tree.
+   */
+  async exportWbs(projectId: string, query: ExportIssuesQueryDto): Promise<ExportFile> {
+    const outline = await this.issuesService.getWBSOutline(projectId);
+    const issues = this.byId(await this.findIssues(projectId, query));
+
+    const workbook = this.createWorkbook();
+    const sheet = this.addTableSheet(workbook, 'WBS', [
+      { header: 'WBS', key: 'wbsCode', width: 10 },
+      { header: 'Title', key: 'title', width: 50 },
+      { header: 'Level', key: 'level', width: 7 },
+      { header: 'Type', key: 'type', width: 10 },
+      { header: 'Status', key: 'status', width: 10 },
+      { header: 'Assignee', key: 'assignee', width: 20 },
+      { header: 'Start', key: 'startDate', width: 12, numFmt: DATE_FORMAT },
+      { header: 'Due', key: 'dueDate', width: 12, numFmt: DATE_FORMAT },
+      { header: 'Estimate (h)', key: 'estimatedHours', width: 12 },
+      { header: 'Spent (h)', key: 'spentHours', width: 10 },
+      { header: 'Progress (%)', key: 'progress', width: 12 },
+      { header: 'Children', key: 'childCount', width: 9 }
+    ]);
+    // Summary rows sit above their children, as in the tree
+    sheet.properties.outlineProperties = { summaryBelow: false, summaryRight: false };
+
+    for (const node of outline) {
+      const issue = issues.get(node.id);
+      if (!issue) continue;
+
+      const row = sheet.addRow({
+        wbsCode: node.code,
+        title: issue.title,
+        level: node.level + 1,
+        type: issue.type,
+        status: issue.status,
+        assignee: issue.assignee?.name ?? null,
+        startDate: issue.startDate,
+        dueDate: issue.dueDate,
+        estimatedHours: node.estimatedHours,
+        spentHours: node.spentHours,
+        progress: node.progress,
+        childCount: node.childCount
+      });
+      row.getCell('title').alignment = { indent: Math.min(node.level, MAX_INDENT) };
+      row.outlineLevel = Math.min(node.level, MAX_OUTLINE_LEVEL);
+      if (node.childCount > 0) row.font = { bold: true };
+    }
+
+    return this.toXlsxFile(workbook, 'WBS.xlsx');
+  }
+
+  /**
+   * Gantt.xlsx: matching issues in outline order with a shaded timeline at the chosen scale;
+   * the darker part of each bar is the completed share
+   */
+  async exportGantt(projectId: string, query: ExportGanttQueryDto): Promise<ExportFile> {
+    const outline = await this.issuesService.getWBSOutline(projectId);
+    const issues = this.byId(await this.findIssues(projectId, query));
+
+    const rows: TimelineRow[] = [];
+    for (const node of outline) {
+      const issue = issues.get(node.id);
+      if (!issue) continue;
+
+      const start = issue.startDate ?? issue.dueDate;
+      const end = issue.dueDate ?? issue.startDate;
+      rows.push({
+        values: [node.code, issue.title, issue.assignee?.name ?? null, issue.startDate, issue.dueDate, node.progress],
+        indent: node.level,
+        summary: node.childCount > 0,
+        bar: start && end ? { start, end, progress: node.progress, critical: false } : null
+      });
+    }
+
+    const workbook = this.createWorkbook();
+    this.addTimelineSheet(
+      workbook,
+      'Gantt',
+      [
+        { header: 'WBS', key: 'wbsCode', width: 10 },
+        { header: 'Task', key: 'title', width: 40 },
+        { header: 'Assignee', key: 'assignee', width: 18 },
+        { header: 'Start', key: 'startDate', width: 12, numFmt: DATE_FORMAT },
+        { header: 'Due', key: 'dueDate', width: 12, numFmt: DATE_FORMAT },
+        { header: 'Progress (%)', key: 'progress', width: 12 }
+      ],
+      rows,
+      query.timeScale ?? 'week',
+      query.rangeStart ? new Date(query.rangeStart) : undefined,
+      query.rangeEnd ? new Date(query.rangeEnd) : undefined
+    );
+
+    return this.toXlsxFile(workbook, 'Gantt.xlsx');
+  }
+
+  /**
+   * One stored schedule calculation as a workbook, CSV or JSON. Tasks are limited to the
+   * issues matching the list criteria and, when given, to those overlapping dateRange.
+   */
+  async exportSchedule(
+    projectId: string,
+    scheduleId: string,
+    dto: ExportScheduleDto,
+    query: ExportIssuesQueryDto
+  ): Promise<ExportFile> {
+    const outline = await this.issuesService.getWBSOutline(projectId);
+    const schedule = await this.prisma.computedSchedule.findFirst({ where: { id: scheduleId, projectId } });
+    if (!schedule) {
+      throw new NotFoundException(`Schedule ${scheduleId} not found`);
+    }
+
+    const outlineById = this.byId(outline);
+    const position = new Map(outline.map((node, index) => [node.id, index]));
+    const issues = this.byId(await this.findIssues(projectId, query));
+    const rangeStart = dto.dateRange ? this.startOfDay(new Date(dto.dateRange.start)).getTime() : -Infinity;
+    const rangeEnd = dto.dateRange ? this.startOfDay(new Date(dto.dateRange.end)).getTime() + DAY_MS : Infinity;
+    if (rangeEnd <= rangeStart) {
+      throw new BadRequestException('dateRange.end must not be before dateRange.start');
+    }
+
+    const tasks: ScheduleTaskRow[] = (schedule.taskSchedules as unknown as TaskSchedule[])
+      .filter(task => issues.has(task.taskId))
+      .filter(task => new Date(task.startDate).getTime() < rangeEnd && new Date(task.endDate).getTime() >= rangeStart)
+      .sort((a, b) => (position.get(a.taskId) ?? Infinity) - (position.get(b.taskId) ?? Infinity))
+      .map(task => {
+        const issue = issues.get(task.taskId) as ExportIssue;
+        return {
+          wbsCode: outlineById.get(task.taskId)?.code ?? null,
+          taskId: task.taskId,
+          title: issue.title,
+          assignee: issue.assignee?.name ?? null,
+          startDate: new Date(task.startDate),
+          endDate: new Date(task.endDate),
+          duration: task.duration,
+          floatTime: task.floatTime ?? null,
+          isCritical: !!task.isCritical,
+          isSummary: !!task.isSummary,
+          levelingDelay: task.levelingDelay ?? null
+        };
+      });
+
+    const codeOf = (taskId: string) => outlineById.get(taskId)?.code ?? taskId;
+    const metrics = {
+      algorithm: schedule.algorithm,
+      calculatedAt: schedule.calculatedAt,
+      applied: schedule.applied,
+      originalEndDate: schedule.originalEndDate,
+      computedEndDate: schedule.computedEndDate,
+      totalDuration: schedule.totalDuration,
+      taskCount: tasks.length,
+      criticalTaskCount: tasks.filter(task => task.isCritical).length,
+      criticalPath: schedule.criticalPath.map(codeOf)
+    };
+    const conflicts = (schedule.conflicts as unknown as ConflictInfo[]) ?? [];
+    const filename = `schedule-${schedule.id}`;
+
+    if (dto.format === 'JSON') {
+      return {
+        filename: `${filename}.json`,
+        contentType: 'application/json',
+        body: JSON.stringify({
+          scheduleId: schedule.id,
+          projectId,
+          ...(dto.includeMetrics !== false && { metrics }),
+          tasks,
+          ...(dto.includeWarnings !== false && { conflicts })
+        }, null, 2)
+      };
+    }
+
+    if (dto.format === 'CSV') {
+      const header = [
+        'wbsCode', 'taskId', 'title', 'assignee', 'startDate', 'endDate',
+        'durationDays', 'floatDays', 'critical', 'summary', 'levelingDelayDays'
+      ];
+      const lines = [header.join(',')];
+      for (const task of tasks) {
+        lines.push([
+          task.wbsCode, task.taskId, task.title, task.assignee, task.startDate.toISOString(), task.endDate.toISOString(),
+          task.duration, task.floatTime, task.isCritical, task.isSummary, task.levelingDelay
+        ].map(value => this.csvCell(value)).join(','));
+      }
+      return { filename: `${filename}.csv`, contentType: 'text/csv; charset=utf-8', body: lines.join('\r\n') + '\r\n' };
+    }
+
+    const workbook = this.createWorkbook();
+    const span = tasks.length > 0
+      ? Math.max(...tasks.map(task => task.endDate.getTime())) - Math.min(...tasks.map(task => task.startDate.getTime()))
+      : 0;
+    const scale: ExportTimeScale = span <= 92 * DAY_MS ? 'day' : span <= 2 * 366 * DAY_MS ? 'week' : 'month';
+
+    this.addTimelineSheet(
+      workbook,
+      'Schedule',
+      [
+        { header: 'WBS', key: 'wbsCode', width: 10 },
+        { header: 'Task', key: 'title', width: 40 },
+        { header: 'Start', key: 'startDate', width: 12, numFmt: DATE_FORMAT },
+        { header: 'End', key: 'endDate', width: 12, numFmt: DATE_FORMAT },
+        { header: 'Duration (d)', key: 'duration', width: 12 },
+        { header: 'Float (d)', key: 'floatTime', width: 10 },
+        { header: 'Critical', key: 'isCritical', width: 9 }
+      ],
+      tasks.map(task => ({
+        values: [
+          task.wbsCode, task.title, task.startDate, task.endDate, task.duration, task.floatTime, task.isCritical ? 'Yes' : ''
+        ],
+        indent: outlineById.get(task.taskId)?.level ?? 0,
+        summary: task.isSummary,
+        bar: { start: task.startDate, end: task.endDate, progress: 0, critical: task.isCritical }
+      })),
+      scale,
+      dto.dateRange ? new Date(dto.dateRange.start) : undefined,
+      dto.dateRange ? new Date(dto.dateRange.end) : undefined
+    );
+
+    if (dto.includeMetrics !== false) {
+      const sheet = this.addTableSheet(workbook, 'Summary', [
+        { header: 'Metric', key: 'metric', width: 24 },
+        { header: 'Value', key: 'value', width: 60 }
+      ]);
+      sheet.addRows([
+        ['Algorithm', metrics.algorithm],
+        ['Calculated', metrics.calculatedAt],
+        ['Applied', metrics.applied ? 'Yes' : 'No'],
+        ['Original end date', metrics.originalEndDate],
+        ['Computed end date', metrics.computedEndDate],
+        ['Total duration (d)', metrics.totalDuration],
+        ['Tasks', metrics.taskCount],
+        ['Critical tasks', metrics.criticalTaskCount],
+        ['Critical path', metrics.criticalPath.join(' → ')]
+      ]);
+      sheet.getColumn('value').alignment = { horizontal: 'left' };
+      [2, 5, 6].forEach(rowNumber => { sheet.getCell(rowNumber, 2).numFmt = DATE_TIME_FORMAT; });
+    }
+
+    if (dto.includeWarnings !== false) {
+      const sheet = this.addTableSheet(workbook, 'Conflicts', [
+        { header: 'Severity', key: 'severity', width: 10 },
+        { header: 'Type', key: 'type', width: 20 },
+        { header: 'Tasks', key: 'tasks', width: 24 },
+        { header: 'Message', key: 'message', width: 60 },
+        { header: 'Suggestions', key: 'suggestions', width: 60 }
+      ]);
+      for (const conflict of conflicts) {
+        sheet.addRow({
+          severity: conflict.severity,
+          type: conflict.type,
+          tasks: conflict.taskIds.map(codeOf).join(', '),
+          message: conflict.message,
+          suggestions: (conflict.suggestions ?? []).join('\n')
+        });
+      }
+    }
+
+    return this.toXlsxFile(workbook, `${filename}.xlsx`);
+  }
+
+  private async findIssues(projectId: string, query: ExportIssuesQueryDto): Promise<ExportIssue[]> {
+    const sortBy = query.sortBy ?? 'updatedAt';
+    const sortOrder = query.sortOrder ?? 'desc';
+
+    return this.prisma.issue.findMany({
+      where: this.issuesService.buildIssueFilter(projectId, query),
+      include: ISSUE_EXPORT_INCLUDE,
+      orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }]
+    });
+  }
+
+  /**
+   * Predecessor lists keyed by successor, referring to predecessors by WBS code
+   * so the column reads like a planning sheet
+   */
+  private async predecessorNotation(
+    projectId: string,
+    issueIds: string[],
+    outline: Map<string, OutlineEntry>
+  ): Promise<Map<string, string>> {
+    const dependencies = await this.prisma.dependency.findMany({
+      where: { projectId, successorId: { in: issueIds } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }]
+    });
+
+    const linksBySuccessor = new Map<string, typeof dependencies>();
+    for (const dependency of dependencies) {
+      linksBySuccessor.set(dependency.successorId, [...(linksBySuccessor.get(dependency.successorId) ?? []), dependency]);
+    }
+
+    const notation = new Map<string, string>();
+    for (const [successorId, links] of linksBySuccessor) {
+      notation.set(successorId, formatPredecessors(links.map(link => ({
+        ref: outline.get(link.predecessorId)?.code ?? link.predecessorId,
+        type: link.type as PredecessorLinkType,
+        lag: link.lag,
+        lagUnit: link.lagUnit as PredecessorLagUnit
+      }))));
+    }
+    return notation;
+  }
+
+  private createWorkbook(): Workbook {
+    const workbook = new Workbook();
+    workbook.creator = 'Gantt Chart WebUI';
+    workbook.created = new Date();
+    return workbook;
+  }
+
+  private addTableSheet(workbook: Workbook, name: string, columns: SheetColumn[]): Worksheet {
+    const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', ySplit: 1 }] });
+    sheet.columns = columns.map(column => ({
+      header: column.header,
+      key: column.key,
+      width: column.width,
+      ...(column.numFmt && { style: { numFmt: column.numFmt } })
+    }));
+    this.styleHeader(sheet.getRow(1));
+    sheet.autoFilter = { from: { row: 1, column: 1 }, to: { row: 1, column: columns.length } };
+    return sheet;
+  }
+
+  /**
+   * Fixed columns on the left, one narrow column per time bucket on the right. The first
+   * header row groups buckets (month or year), the second labels each bucket.
+   */
+  private addTimelineSheet(
+    workbook: Workbook,
+    name: string,
+    fixedColumns: SheetColumn[],
+    rows: TimelineRow[],
+    scale: ExportTimeScale,
+    rangeStart?: Date,
+    rangeEnd?: Date
+  ): Worksheet {
+    const bars = rows.map(row => row.bar).filter((bar): bar is NonNullable<TimelineRow['bar']> => !!bar);
+    const today = this.startOfDay(new Date());
+    const start = this.startOfDay(rangeStart ?? (bars.length > 0 ? new Date(Math.min(...bars.map(bar => bar.start.getTime()))) : today));
+    const end = this.startOfDay(rangeEnd ?? (bars.length > 0 ? new Date(Math.max(...bars.map(bar => bar.end.getTime()))) : today));
+    if (end < start) {
+      throw new BadRequestException('rangeEnd must not be before rangeStart');
+    }
+
+    const timeline = this.timelineColumns(start, end, scale);
+    const offset = fixedColumns.length;
+    const sheet = workbook.addWorksheet(name, { views: [{ state: 'frozen', xSplit: offset, ySplit: 2 }] });
+
+    fixedColumns.forEach((column, index) => {
+      const sheetColumn = sheet.getColumn(index + 1);
+      sheetColumn.width = column.width;
+      if (column.numFmt) sheetColumn.numFmt = column.numFmt;
+      sheet.getCell(1, index + 1).value = column.header;
+      sheet.mergeCells(1, index + 1, 2, index + 1);
+    });
+
+    let groupStart = 0;
+    timeline.forEach((column, index) => {
+      sheet.getColumn(offset + index + 1).width = TIMELINE_COLUMN_WIDTHS[scale];
+      sheet.getCell(2, offset + index + 1).value = column.label;
+
+      const next = timeline[index + 1];
+      if (!next || next.group !== column.group) {
+        sheet.getCell(1, offset + groupStart + 1).value = column.group;
+        if (index > groupStart) sheet.mergeCells(1, offset + groupStart + 1, 1, offset + index + 1);
+        groupStart = index + 1;
+      }
+    });
+    this.styleHeader(sheet.getRow(1));
+    this.styleHeader(sheet.getRow(2));
+
+    for (const row of rows) {
+      const sheetRow = sheet.addRow(row.values);
+      sheetRow.getCell(2).alignment = { indent: Math.min(row.indent, MAX_INDENT) };
+      if (row.summary) sheetRow.font = { bold: true };
+
+      let first = -1;
+      let last = -1;
+      if (row.bar) {
+        const barStart = this.startOfDay(row.bar.start).getTime();
+        const barEnd = this.startOfDay(row.bar.end).getTime() + DAY_MS;
+        timeline.forEach((column, index) => {
+          if (column.start < barEnd && column.end > barStart) {
+            if (first < 0) first = index;
+            last = index;
+          }
+        });
+      }
+      const done = first < 0 ? 0 : Math.round((last - first + 1) * (row.bar?.progress ?? 0) / 100);
+
+      timeline.forEach((column, index) => {
+        const cell = sheetRow.getCell(offset + index + 1);
+        if (index >= first && index <= last && first >= 0) {
+          cell.fill = row.bar?.critical ? CRITICAL_FILL : index - first < done ? PROGRESS_FILL : BAR_FILL;
+        } else if (column.weekend) {
+          cell.fill = WEEKEND_FILL;
+        }
+      });
+    }
+
+    return sheet;
+  }
+
+  private timelineColumns(start: Date, end: Date, scale: ExportTimeScale): TimelineColumn[] {
+    const columns: TimelineColumn[] = [];
+    let cursor = this.bucketStart(start, scale);
+
+    while (cursor.getTime() <= end.getTime()) {
+      if (columns.length === MAX_TIMELINE_COLUMNS) {
+        throw new BadRequestException(
+          `The timeline needs more than ${MAX_TIMELINE_COLUMNS} ${scale} columns; narrow the range or use a coarser time scale`
+        );
+      }
+
+      const next = this.nextBucket(cursor, scale);
+      const year = cursor.getUTCFullYear();
+      const month = cursor.getUTCMonth();
+      const yearMonth = `${year}-${String(month + 1).padStart(2, '0')}`;
+
+      columns.push({
+        start: cursor.getTime(),
+        end: next.getTime(),
+        label: scale === 'day' ? String(cursor.getUTCDate())
+          : scale === 'week' ? `${String(month + 1).padStart(2, '0')}/${String(cursor.getUTCDate()).padStart(2, '0')}`
+            : scale === 'month' ? MONTH_LABELS[month]
+              : `Q${Math.floor(month / 3) + 1}`,
+        group: scale === 'day' || scale === 'week' ? yearMonth : String(year),
+        weekend: scale === 'day' && (cursor.getUTCDay() === 0 || cursor.getUTCDay() === 6)
+      });
+      cursor = next;
+    }
+
+    return columns;
+  }
+
+  private bucketStart(date: Date, scale: ExportTimeScale): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+
+    switch (scale) {
+      case 'day':
+        return this.startOfDay(date);
+      case 'week':
+        // Weeks start on Monday
+        return new Date(Date.UTC(year, month, date.getUTCDate() - ((date.getUTCDay() + 6) % 7)));
+      case 'month':
+        return new Date(Date.UTC(year, month, 1));
+      case 'quarter':
+        return new Date(Date.UTC(year, month - (month % 3), 1));
+    }
+  }
+
+  private nextBucket(date: Date, scale: ExportTimeScale): Date {
+    const year = date.getUTCFullYear();
+    const month = date.getUTCMonth();
+    const day = date.getUTCDate();
+
+    switch (scale) {
+      case 'day':
+        return new Date(Date.UTC(year, month, day + 1));
+      case 'week':
+        return new Date(Date.UTC(year, month, day + 7));
+      case 'month':
+        return new Date(Date.UTC(year, month + 1, 1));
+      case 'quarter':
+        return new Date(Date.UTC(year, month + 3, 1));
+    }
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  }
+
+  private styleHeader(row: Row): void {
+    row.font = { bold: true };
+    row.alignment = { vertical: 'middle', horizontal: 'center' };
+    row.eachCell(cell => {
+      cell.fill = HEADER_FILL;
+    });
+  }
+
+  private async toXlsxFile(workbook: Workbook, filename: string): Promise<ExportFile> {
+    const buffer = await workbook.xlsx.writeBuffer();
+    return { filename, contentType: XLSX_CONTENT_TYPE, body: Buffer.from(buffer) };
+  }
+
+  private csvCell(value: unknown): string {
+    if (value === null || value === undefined) return '';
+    let text = String(value);
+    // Keep spreadsheets from evaluating user-entered text as a formula
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  private byId<T extends { id: string }>(items: T[]): Map<string, T> {
+    return new Map(items.map(item => [item.id, item]));
+  }
+}
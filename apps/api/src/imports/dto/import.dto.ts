@@ -0,0 +1,232 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBoolean,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  ValidateNested
+} from 'class-validator';
+
+export const IMPORT_FORMATS = ['CSV', 'XLSX'] as const;
+export type ImportFormat = typeof IMPORT_FORMATS[number];
+
+/**
+ * Header text of the column holding each issue field; unmapped fields take their defaults
+ */
+export class ImportColumnMappingDto {
+  @ApiProperty({ example: 'Task Name' })
+  @IsString()
+  @IsNotEmpty()
+  title: string;
+
+  @ApiPropertyOptional({ example: 'Notes' })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiPropertyOptional({ description: 'feature, bug, spike or chore; default feature' })
+  @IsOptional()
+  @IsString()
+  type?: string;
+
+  @ApiPropertyOptional({ description: 'todo, doing, blocked, review or done; default todo' })
+  @IsOptional()
+  @IsString()
+  status?: string;
+
+  @ApiPropertyOptional({ description: '1-10; default 5' })
+  @IsOptional()
+  @IsString()
+  priority?: string;
+
+  @ApiPropertyOptional({ description: 'Assignee email address', example: 'Resource Email' })
+  @IsOptional()
+  @IsString()
+  assignee?: string;
+
+  @ApiPropertyOptional({ description: 'Date cells or YYYY-MM-DD text', example: 'Start' })
+  @IsOptional()
+  @IsString()
+  startDate?: string;
+
+  @ApiPropertyOptional({ description: 'Date cells or YYYY-MM-DD text', example: 'Finish' })
+  @IsOptional()
+  @IsString()
+  dueDate?: string;
+
+  @ApiPropertyOptional({ description: 'Number with an optional h/d suffix, e.g. "16" or "2d"', example: 'Work' })
+  @IsOptional()
+  @IsString()
+  estimate?: string;
+
+  @ApiPropertyOptional({ description: 'h or d for estimates without a suffix; default h' })
+  @IsOptional()
+  @IsString()
+  estimateUnit?: string;
+
+  @ApiPropertyOptional({ description: '0-100, a trailing % is allowed' })
+  @IsOptional()
+  @IsString()
+  progress?: string;
+
+  @ApiPropertyOptional({ description: 'Comma- or semicolon-separated labels' })
+  @IsOptional()
+  @IsString()
+  labels?: string;
+
+  @ApiPropertyOptional({ description: 'WBS code such as 1.2.3; the hierarchy is rebuilt from it', example: 'WBS' })
+  @IsOptional()
+  @IsString()
+  wbsCode?: string;
+
+  @ApiPropertyOptional({
+    description: 'Outline level; the smallest level in the file is the top. Used when there is no WBS code column',
+    example: 'Outline Level'
+  })
+  @IsOptional()
+  @IsString()
+  outlineLevel?: string;
+
+  @ApiPropertyOptional({ description: 'Predecessor list such as "3FS+2d, 5SS"', example: 'Predecessors' })
+  @IsOptional()
+  @IsString()
+  predecessors?: string;
+
+  @ApiPropertyOptional({
+    description: 'Row key that predecessor references point at. Without it references are WBS codes '
+      + 'when a WBS code column is mapped, otherwise 1-based data row positions',
+    example: 'ID'
+  })
+  @IsOptional()
+  @IsString()
+  rowId?: string;
+}
+
+export class ImportIssuesDto {
+  @ApiProperty({ enum: IMPORT_FORMATS })
+  @IsEnum(IMPORT_FORMATS)
+  format: ImportFormat;
+
+  @ApiProperty({ description: 'CSV text, or the .xlsx file base64-encoded' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10_000_000)
+  content: string;
+
+  @ApiPropertyOptional({ description: 'Worksheet to read; defaults to the first one' })
+  @IsOptional()
+  @IsString()
+  sheetName?: string;
+
+  @ApiProperty({ type: ImportColumnMappingDto })
+  @ValidateNested()
+  @Type(() => ImportColumnMappingDto)
+  mapping: ImportColumnMappingDto;
+
+  @ApiPropertyOptional({ default: false, description: 'Validate and preview without writing anything' })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean = false;
+}
+
+export class ImportPredecessorPreviewDto {
+  @ApiProperty({ description: 'Reference as written in the file' })
+  ref: string;
+
+  @ApiProperty({ nullable: true, description: 'Spreadsheet row of the predecessor; null when unresolved' })
+  row: number | null;
+
+  @ApiProperty({ enum: ['FS', 'SS', 'FF', 'SF'] })
+  type: string;
+
+  @ApiProperty()
+  lag: number;
+
+  @ApiProperty({ enum: ['hours', 'days', 'percent'] })
+  lagUnit: string;
+}
+
+export class ImportRowResultDto {
+  @ApiProperty({ description: 'Spreadsheet row number' })
+  row: number;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty({ description: 'Depth in the rebuilt hierarchy, 0 for top-level issues' })
+  level: number;
+
+  @ApiProperty({ nullable: true, description: 'Spreadsheet row of the parent issue' })
+  parentRow: number | null;
+
+  @ApiProperty()
+  type: string;
+
+  @ApiProperty()
+  status: string;
+
+  @ApiProperty()
+  priority: number;
+
+  @ApiProperty({ nullable: true })
+  assigneeId: string | null;
+
+  @ApiProperty({ nullable: true })
+  startDate: string | null;
+
+  @ApiProperty({ nullable: true })
+  dueDate: string | null;
+
+  @ApiProperty()
+  estimateValue: number;
+
+  @ApiProperty({ enum: ['h', 'd'] })
+  estimateUnit: string;
+
+  @ApiProperty()
+  progress: number;
+
+  @ApiProperty({ type: [String] })
+  labels: string[];
+
+  @ApiProperty({ type: [ImportPredecessorPreviewDto] })
+  predecessors: ImportPredecessorPreviewDto[];
+
+  @ApiProperty({ nullable: true, description: 'Created issue; null on dry runs and rejected imports' })
+  issueId: string | null;
+
+  @ApiProperty({ type: [String], description: 'Problems that block the import' })
+  errors: string[];
+
+  @ApiProperty({ type: [String], description: 'Problems worked around, e.g. an unknown assignee left unassigned' })
+  warnings: string[];
+}
+
+export class ImportIssuesResultDto {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Issues were written; false on dry runs and when any row has errors' })
+  imported: boolean;
+
+  @ApiProperty()
+  totalRows: number;
+
+  @ApiProperty({ description: 'Rows without errors' })
+  validRows: number;
+
+  @ApiProperty()
+  createdIssues: number;
+
+  @ApiProperty()
+  createdDependencies: number;
+
+  @ApiProperty({ description: 'A write failed part-way and everything it had created was undone' })
+  rolledBack: boolean;
+
+  @ApiProperty({ type: [ImportRowResultDto] })
+  rows: ImportRowResultDto[];
+}
@@ -0,0 +1,50 @@
+import {
+  Controller,
+  Post,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ImportsService } from './imports.service';
+import { ImportIssuesDto, ImportIssuesResultDto } from './dto/import.dto';
+
+@ApiTags('Imports')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/import')
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService) {}
+
+  @Post('issues')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import issues from CSV or .xlsx',
+    description: 'Maps sheet columns to issue fields, rebuilds the hierarchy from WBS codes or outline levels '
+      + 'and links predecessors such as "3FS+2d, 5SS". Use dryRun to get per-row errors and a preview first; '
+      + 'nothing is written while any row has errors.'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Per-row validation and, unless a dry run, the created issues', type: ImportIssuesResultDto })
+  @ApiResponse({ status: 400, description: 'Unreadable file, unknown column or too many rows' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async importIssues(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: ImportIssuesDto,
+    @Request() req: any
+  ): Promise<ImportIssuesResultDto> {
+    return this.importsService.importIssues(projectId, dto, req.user?.id || 'system');
+  }
+}
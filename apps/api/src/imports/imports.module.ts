@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { IssuesModule } from '../issues/issues.module';
+import { ImportsController } from './imports.controller';
+import { ImportsService } from './imports.service';
+
+@Module({
+  imports: [PrismaModule, IssuesModule],
+  controllers: [ImportsController],
+  providers: [ImportsService],
+  exports: [ImportsService]
+})
+export class ImportsModule {}
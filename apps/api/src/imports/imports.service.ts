@@ -0,0 +1,541 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { IssuesService } from '../issues/issues.service';
+import { ProjectEventsService } from '../events/project-events.service';
+import { CreateIssueDto } from '../issues/dto/create-issue.dto';
+import { DependencyType, LagUnit } from '../issues/dto/dependency.dto';
+import { DEFAULT_WORKING_HOURS_PER_DAY } from '../scheduling/services/calendar.service';
+import { parsePredecessors, PredecessorLink } from '../common/utils/predecessor.utils';
+import { readSheet, SheetCell, SheetRow } from './spreadsheet-reader';
+import {
+  ImportIssuesDto,
+  ImportColumnMappingDto,
+  ImportIssuesResultDto,
+  ImportRowResultDto
+} from './dto/import.dto';
+
+// A few thousand rows is already far beyond a hand-kept sheet; larger plans should be split
+const MAX_IMPORT_ROWS = 5000;
+// Upper bound for writing one import, which is all or nothing
+const IMPORT_WRITE_TIMEOUT_MS = 10 * 60 * 1000;
+
+const ISSUE_TYPES = ['feature', 'bug', 'spike', 'chore'];
+const ISSUE_STATUSES = ['todo', 'doing', 'blocked', 'review', 'done'];
+const WBS_CODE_PATTERN = /^\d+(\.\d+)*$/;
+const DATE_PATTERN = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T ].*)?$/;
+const ESTIMATE_PATTERN = /^(\d+(?:\.\d+)?)\s*(h|hrs?|hours?|d|days?)?$/i;
+
+type MappedField = keyof ImportColumnMappingDto;
+
+interface ImportRow {
+  result: ImportRowResultDto;
+  position: number; // 1-based among data rows
+  description: string;
+  assigneeEmail: string | null;
+  rowKey: string | null;
+  wbsCode: string | null;
+  outlineLevel: number | null;
+  links: PredecessorLink[];
+  parent: ImportRow | null;
+  children: ImportRow[];
+  predecessorRows: ImportRow[];
+}
+
+@Injectable()
+export class ImportsService {
+  private readonly logger = new Logger(ImportsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly issuesService: IssuesService,
+    private readonly projectEvents: ProjectEventsService
+  ) {}
+
+  /**
+   * Validates every row, rebuilds the hierarchy and resolves predecessors before anything
+   * is written. Nothing is created when a row has errors or on a dry run; otherwise issues
+   * are created parents first, then the dependencies between them, in one transaction so a
+   * failure part-way leaves the project as it was.
+   */
+  async importIssues(projectId: string, dto: ImportIssuesDto, userId: string): Promise<ImportIssuesResultDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const { mapping } = dto;
+    if (mapping.wbsCode && mapping.outlineLevel) {
+      throw new BadRequestException('Map either a WBS code column or an outline level column, not both');
+    }
+
+    const sheet = await readSheet(dto.format, dto.content, dto.sheetName);
+    if (sheet.rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`At most ${MAX_IMPORT_ROWS} rows can be imported at once; the file has ${sheet.rows.length}`);
+    }
+
+    const columns = this.resolveColumns(sheet.headers, mapping);
+    const rows = sheet.rows.map((sheetRow, index) => this.parseRow(sheetRow, index + 1, columns));
+
+    await this.resolveAssignees(rows);
+    const roots = mapping.wbsCode ? this.buildFromWbsCodes(rows)
+      : mapping.outlineLevel ? this.buildFromOutlineLevels(rows)
+        : rows;
+    this.assignLevels(roots, 0);
+    this.resolvePredecessors(rows, mapping);
+    this.detectCycles(rows);
+
+    const validRows = rows.filter(row => row.result.errors.length === 0).length;
+    const result: ImportIssuesResultDto = {
+      dryRun: !!dto.dryRun,
+      imported: false,
+      totalRows: rows.length,
+      validRows,
+      createdIssues: 0,
+      createdDependencies: 0,
+      rolledBack: false,
+      rows: rows.map(row => row.result)
+    };
+    if (dto.dryRun || validRows < rows.length || rows.length === 0) {
+      return result;
+    }
+
+    await this.write(projectId, roots, rows, userId, result);
+    return result;
+  }
+
+  private async write(
+    projectId: string,
+    roots: ImportRow[],
+    rows: ImportRow[],
+    userId: string,
+    result: ImportIssuesResultDto
+  ): Promise<void> {
+    const issueIds = new Map<ImportRow, string>();
+    let current: ImportRow | null = null;
+
+    try {
+      await this.prisma.$transaction(async tx => {
+        // Parents first, siblings in sheet order, so order indexes follow the sheet
+        const queue = [...roots];
+        while (queue.length > 0) {
+          current = queue.shift() as ImportRow;
+          const issue = await this.issuesService.insertIssue(
+            tx, projectId, this.toCreateIssueDto(projectId, current, issueIds), userId
+          );
+          issueIds.set(current, issue.id);
+          current.result.issueId = issue.id;
+          result.createdIssues++;
+          queue.push(...current.children);
+        }
+
+        for (const row of rows) {
+          current = row;
+          for (const [index, link] of row.links.entries()) {
+            await this.issuesService.insertDependency(tx, projectId, {
+              predecessorId: issueIds.get(row.predecessorRows[index]) as string,
+              successorId: issueIds.get(row) as string,
+              type: link.type as DependencyType,
+              lag: link.lag,
+              lagUnit: link.lagUnit as LagUnit
+            });
+            result.createdDependencies++;
+          }
+        }
+      }, { timeout: IMPORT_WRITE_TIMEOUT_MS });
+    } catch (error) {
+      // Nothing was kept; the failing row carries the reason
+      const failed = current as ImportRow | null;
+      this.logger.error(`Issue import into project ${projectId} rolled back at row ${failed?.result.row}: ${error.message}`);
+      failed?.result.errors.push(`Import rolled back here: ${error.message}`);
+      for (const row of rows) row.result.issueId = null;
+      result.createdIssues = 0;
+      result.createdDependencies = 0;
+      result.rolledBack = true;
+      result.validRows = rows.filter(row => row.result.errors.length === 0).length;
+      return;
+    }
+
+    result.imported = true;
+    this.projectEvents.publish({
+      projectId,
+      type: 'issue.created',
+      message: `${result.createdIssues} issues were imported`,
+      data: { issueIds: [...issueIds.values()], imported: true },
+      userId
+    });
+  }
+
+  private toCreateIssueDto(projectId: string, row: ImportRow, issueIds: Map<ImportRow, string>): CreateIssueDto {
+    const { result } = row;
+    return {
+      projectId,
+      parentIssueId: row.parent ? issueIds.get(row.parent) : undefined,
+      title: result.title,
+      description: row.description,
+      type: result.type,
+      status: result.status,
+      priority: result.priority,
+      estimateValue: result.estimateValue,
+      estimateUnit: result.estimateUnit,
+      assigneeId: result.assigneeId ?? undefined,
+      startDate: result.startDate ?? undefined,
+      dueDate: result.dueDate ?? undefined,
+      progress: result.progress,
+      labels: result.labels
+    };
+  }
+
+  private resolveColumns(headers: string[], mapping: ImportColumnMappingDto): Map<MappedField, number> {
+    const byHeader = new Map<string, number>();
+    headers.forEach((header, index) => {
+      const key = header.toLowerCase();
+      if (key && !byHeader.has(key)) byHeader.set(key, index);
+    });
+
+    const columns = new Map<MappedField, number>();
+    for (const [field, header] of Object.entries(mapping) as Array<[MappedField, string | undefined]>) {
+      if (!header) continue;
+      const index = byHeader.get(header.trim().toLowerCase());
+      if (index === undefined) {
+        throw new BadRequestException(
+          `Column "${header}" mapped to ${field} is not in the file; found: ${headers.filter(Boolean).join(', ')}`
+        );
+      }
+      columns.set(field, index);
+    }
+    return columns;
+  }
+
+  private parseRow(sheetRow: SheetRow, position: number, columns: Map<MappedField, number>): ImportRow {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (field: MappedField): SheetCell => {
+      const index = columns.get(field);
+      return index === undefined ? null : sheetRow.cells[index] ?? null;
+    };
+    const text = (field: MappedField): string | null => {
+      const value = cell(field);
+      if (value === null) return null;
+      const trimmed = (value instanceof Date ? value.toISOString() : String(value)).trim();
+      return trimmed === '' ? null : trimmed;
+    };
+
+    const title = text('title') ?? '';
+    if (!title) errors.push('Title is empty');
+    if (title.length > 256) errors.push('Title is longer than 256 characters');
+
+    const type = this.parseChoice(text('type'), ISSUE_TYPES, 'feature', 'Type', errors);
+    const status = this.parseChoice(text('status'), ISSUE_STATUSES, 'todo', 'Status', errors);
+    const priority = this.parseInteger(text('priority'), 1, 10, 5, 'Priority', errors);
+    const progress = this.parseInteger(text('progress')?.replace(/%$/, '') ?? null, 0, 100, 0, 'Progress', errors, true);
+    const startDate = this.parseDate(cell('startDate'), 'Start date', errors);
+    const dueDate = this.parseDate(cell('dueDate'), 'Due date', errors);
+    if (startDate && dueDate && dueDate < startDate) errors.push('Due date is before the start date');
+    const estimate = this.parseEstimate(text('estimate'), text('estimateUnit'), errors, warnings);
+
+    const predecessors = text('predecessors');
+    const parsedLinks = predecessors ? parsePredecessors(predecessors) : { links: [], errors: [] };
+    errors.push(...parsedLinks.errors);
+
+    const wbsCode = text('wbsCode')?.replace(/\.$/, '') ?? null;
+    if (columns.has('wbsCode') && (!wbsCode || !WBS_CODE_PATTERN.test(wbsCode))) {
+      errors.push(wbsCode ? `WBS code "${wbsCode}" is not of the form 1.2.3` : 'WBS code is empty');
+    }
+
+    const levelText = text('outlineLevel');
+    const outlineLevel = levelText !== null && /^\d+$/.test(levelText) ? Number(levelText) : null;
+    if (columns.has('outlineLevel') && outlineLevel === null) {
+      errors.push(levelText ? `Outline level "${levelText}" is not a whole number` : 'Outline level is empty');
+    }
+
+    return {
+      result: {
+        row: sheetRow.rowNumber,
+        title,
+        level: 0,
+        parentRow: null,
+        type,
+        status,
+        priority,
+        assigneeId: null,
+        startDate,
+        dueDate,
+        estimateValue: estimate.value,
+        estimateUnit: estimate.unit,
+        progress,
+        labels: [...new Set((text('labels') ?? '').split(/[,;]/).map(label => label.trim()).filter(Boolean))],
+        predecessors: [],
+        issueId: null,
+        errors,
+        warnings
+      },
+      position,
+      description: text('description') ?? '',
+      assigneeEmail: text('assignee')?.toLowerCase() ?? null,
+      rowKey: text('rowId'),
+      wbsCode: wbsCode && WBS_CODE_PATTERN.test(wbsCode) ? wbsCode : null,
+      outlineLevel,
+      links: parsedLinks.links,
+      parent: null,
+      children: [],
+      predecessorRows: []
+    };
+  }
+
+  private parseChoice(value: string | null, allowed: string[], fallback: string, label: string, errors: string[]): string {
+    if (value === null) return fallback;
+    const normalized = value.toLowerCase();
+    if (!allowed.includes(normalized)) {
+      errors.push(`${label} "${value}" is not one of ${allowed.join(', ')}`);
+      return fallback;
+    }
+    return normalized;
+  }
+
+  private parseInteger(
+    value: string | null,
+    min: number,
+    max: number,
+    fallback: number,
+    label: string,
+    errors: string[],
+    round = false
+  ): number {
+    if (value === null) return fallback;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < min || number > max || (!round && !Number.isInteger(number))) {
+      errors.push(`${label} "${value}" must be a whole number from ${min} to ${max}`);
+      return fallback;
+    }
+    return Math.round(number);
+  }
+
+  /**
+   * Date cells are used as they are; text must be year-first so 03/04 is never guessed
+   */
+  private parseDate(value: SheetCell, label: string, errors: string[]): string | null {
+    if (value === null || (typeof value === 'string' && value.trim() === '')) return null;
+
+    let date: Date | null = null;
+    if (value instanceof Date) {
+      date = new Date(Date.UTC(value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate()));
+    } else {
+      const match = DATE_PATTERN.exec(String(value).trim());
+      if (match) {
+        const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        date = new Date(Date.UTC(year, month - 1, day));
+        if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) date = null;
+      }
+    }
+
+    if (!date || Number.isNaN(date.getTime())) {
+      errors.push(`${label} "${String(value)}" is not a date; use YYYY-MM-DD`);
+      return null;
+    }
+    return date.toISOString();
+  }
+
+  private parseEstimate(
+    value: string | null,
+    unitText: string | null,
+    errors: string[],
+    warnings: string[]
+  ): { value: number; unit: 'h' | 'd' } {
+    const defaultUnit = unitText && /^d/i.test(unitText) ? 'd' : 'h';
+    if (unitText && !/^(h|hrs?|hours?|d|days?)$/i.test(unitText)) {
+      errors.push(`Estimate unit "${unitText}" is not h or d`);
+    }
+    if (value === null) return { value: 1, unit: defaultUnit };
+
+    const match = ESTIMATE_PATTERN.exec(value);
+    if (!match) {
+      errors.push(`Estimate "${value}" is not a number of hours or days, e.g. 16 or 2d`);
+      return { value: 1, unit: defaultUnit };
+    }
+
+    const amount = Number(match[1]);
+    const unit = match[2] ? (/^d/i.test(match[2]) ? 'd' : 'h') : defaultUnit;
+    if (Number.isInteger(amount)) return { value: amount, unit };
+
+    // Estimates are stored as whole numbers, so fractional days become hours
+    const hours = unit === 'd' ? amount * DEFAULT_WORKING_HOURS_PER_DAY : amount;
+    if (!Number.isInteger(hours)) warnings.push(`Estimate ${value} was rounded to ${Math.round(hours)}h`);
+    return { value: Math.round(hours), unit: 'h' };
+  }
+
+  private async resolveAssignees(rows: ImportRow[]): Promise<void> {
+    const emails = [...new Set(rows.map(row => row.assigneeEmail).filter((email): email is string => !!email))];
+    if (emails.length === 0) return;
+
+    const users = await this.prisma.user.findMany({
+      where: { email: { in: emails, mode: 'insensitive' } },
+      select: { id: true, email: true, isActive: true }
+    });
+    const userByEmail = new Map(users.map(user => [user.email.toLowerCase(), user]));
+
+    for (const row of rows) {
+      if (!row.assigneeEmail) continue;
+      const user = userByEmail.get(row.assigneeEmail);
+      if (!user) {
+        row.result.warnings.push(`No user with email ${row.assigneeEmail}; left unassigned`);
+      } else if (!user.isActive) {
+        row.result.warnings.push(`User ${row.assigneeEmail} is deactivated; left unassigned`);
+      } else {
+        row.result.assigneeId = user.id;
+      }
+    }
+  }
+
+  /**
+   * Parent of 1.2.3 is 1.2; when that code is missing the nearest listed ancestor is used
+   */
+  private buildFromWbsCodes(rows: ImportRow[]): ImportRow[] {
+    const byCode = new Map<string, ImportRow>();
+    for (const row of rows) {
+      if (!row.wbsCode) continue;
+      if (byCode.has(row.wbsCode)) {
+        row.result.errors.push(`WBS code ${row.wbsCode} is also used on row ${byCode.get(row.wbsCode)?.result.row}`);
+        continue;
+      }
+      byCode.set(row.wbsCode, row);
+    }
+
+    const segments = (code: string | null) => (code ?? '').split('.').map(Number);
+    const sorted = [...rows].sort((a, b) => {
+      const left = segments(a.wbsCode);
+      const right = segments(b.wbsCode);
+      for (let i = 0; i < Math.min(left.length, right.length); i++) {
+        if (left[i] !== right[i]) return left[i] - right[i];
+      }
+      return left.length - right.length || a.position - b.position;
+    });
+
+    const roots: ImportRow[] = [];
+    for (const row of sorted) {
+      let parent: ImportRow | undefined;
+      const path = segments(row.wbsCode);
+      for (let length = path.length - 1; length > 0 && row.wbsCode && !parent; length--) {
+        parent = byCode.get(path.slice(0, length).join('.'));
+      }
+
+      const expectedParent = row.wbsCode?.split('.').slice(0, -1).join('.');
+      if (expectedParent && parent?.wbsCode !== expectedParent) {
+        row.result.warnings.push(
+          `Parent ${expectedParent} is not in the file; placed ${parent ? `under ${parent.wbsCode}` : 'at the top level'}`
+        );
+      }
+      this.attach(row, parent ?? null, roots);
+    }
+    return roots;
+  }
+
+  private buildFromOutlineLevels(rows: ImportRow[]): ImportRow[] {
+    const levels = rows.map(row => row.outlineLevel).filter((level): level is number => level !== null);
+    const top = levels.length > 0 ? Math.min(...levels) : 0;
+    const roots: ImportRow[] = [];
+    const stack: ImportRow[] = [];
+
+    for (const row of rows) {
+      let depth = (row.outlineLevel ?? top) - top;
+      if (depth > stack.length) {
+        row.result.errors.push(`Outline level ${row.outlineLevel} has no row at level ${row.outlineLevel - 1} above it`);
+        depth = stack.length;
+      }
+      stack.length = depth;
+      this.attach(row, stack[depth - 1] ?? null, roots);
+      stack.push(row);
+    }
+    return roots;
+  }
+
+  private attach(row: ImportRow, parent: ImportRow | null, roots: ImportRow[]): void {
+    row.parent = parent;
+    row.result.parentRow = parent?.result.row ?? null;
+    (parent ? parent.children : roots).push(row);
+  }
+
+  private assignLevels(rows: ImportRow[], level: number): void {
+    for (const row of rows) {
+      row.result.level = level;
+      this.assignLevels(row.children, level + 1);
+    }
+  }
+
+  private resolvePredecessors(rows: ImportRow[], mapping: ImportColumnMappingDto): void {
+    const byRef = new Map<string, ImportRow>();
+    for (const row of rows) {
+      const ref = mapping.rowId ? row.rowKey : mapping.wbsCode ? row.wbsCode : String(row.position);
+      if (!ref) continue;
+      if (mapping.rowId && byRef.has(ref)) {
+        row.result.errors.push(`Row key ${ref} is also used on row ${byRef.get(ref)?.result.row}`);
+        continue;
+      }
+      byRef.set(ref, row);
+    }
+
+    for (const row of rows) {
+      const kept: PredecessorLink[] = [];
+      for (const link of row.links) {
+        const predecessor = byRef.get(link.ref);
+        row.result.predecessors.push({ ...link, row: predecessor?.result.row ?? null });
+
+        if (!predecessor) {
+          row.result.errors.push(`Predecessor ${link.ref} does not match any row`);
+        } else if (predecessor === row) {
+          row.result.errors.push('A row cannot be its own predecessor');
+        } else if (row.predecessorRows.some((other, index) => other === predecessor && kept[index].type === link.type)) {
+          row.result.warnings.push(`Duplicate predecessor ${link.ref}${link.type} ignored`);
+        } else {
+          kept.push(link);
+          row.predecessorRows.push(predecessor);
+        }
+      }
+      row.links = kept;
+    }
+  }
+
+  /**
+   * Marks rows whose predecessors loop back to them; rows merely downstream of a loop are left alone
+   */
+  private detectCycles(rows: ImportRow[]): void {
+    const successors = new Map<ImportRow, ImportRow[]>();
+    for (const row of rows) {
+      for (const predecessor of row.predecessorRows) {
+        successors.set(predecessor, [...(successors.get(predecessor) ?? []), row]);
+      }
+    }
+    const remaining = new Set(rows.filter(row => row.predecessorRows.length > 0 || successors.has(row)));
+
+    // Peel off rows with no remaining predecessors, then rows with no remaining successors
+    const peel = (next: (row: ImportRow) => ImportRow[], previous: (row: ImportRow) => ImportRow[]) => {
+      const degree = new Map([...remaining].map(row => [row, previous(row).filter(other => remaining.has(other)).length]));
+      const queue = [...remaining].filter(row => degree.get(row) === 0);
+      while (queue.length > 0) {
+        const row = queue.pop() as ImportRow;
+        remaining.delete(row);
+        for (const other of next(row)) {
+          if (!remaining.has(other)) continue;
+          const left = (degree.get(other) as number) - 1;
+          degree.set(other, left);
+          if (left === 0) queue.push(other);
+        }
+      }
+    };
+    peel(row => successors.get(row) ?? [], row => row.predecessorRows);
+    peel(row => row.predecessorRows, row => successors.get(row) ?? []);
+
+    for (const row of remaining) {
+      row.result.errors.push('Predecessors form a cycle through this row');
+    }
+  }
+
+  private async getProjectOrThrow(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    return project;
+  }
+}
@@ -0,0 +1,138 @@
+import { BadRequestException } from '@nestjs/common';
+import { Workbook, CellValue } from 'exceljs';
+import { ImportFormat } from './dto/import.dto';
+
+export type SheetCell = string | number | boolean | Date | null;
+
+export interface SheetRow {
+  rowNumber: number; // As shown in the spreadsheet, header row included
+  cells: SheetCell[];
+}
+
+export interface SheetData {
+  headers: string[];
+  rows: SheetRow[];
+}
+
+/**
+ * Reads the header row and the data rows below it; fully blank rows are dropped
+ */
+export async function readSheet(format: ImportFormat, content: string, sheetName?: string): Promise<SheetData> {
+  const table = format === 'CSV' ? parseCsv(content) : await readXlsx(content, sheetName);
+
+  const headerIndex = table.findIndex(row => row.cells.some(cell => !isBlank(cell)));
+  if (headerIndex < 0) {
+    throw new BadRequestException('The file has no header row');
+  }
+
+  return {
+    headers: table[headerIndex].cells.map(cell => (cell === null ? '' : String(cell).trim())),
+    rows: table.slice(headerIndex + 1).filter(row => row.cells.some(cell => !isBlank(cell)))
+  };
+}
+
+function isBlank(cell: SheetCell): boolean {
+  return cell === null || (typeof cell === 'string' && cell.trim() === '');
+}
+
+async function readXlsx(content: string, sheetName?: string): Promise<SheetRow[]> {
+  const workbook = new Workbook();
+  try {
+    // exceljs types its input as its own Buffer interface; a Node Buffer is what it reads at runtime
+    await workbook.xlsx.load(Buffer.from(content, 'base64') as unknown as ArrayBuffer);
+  } catch {
+    throw new BadRequestException('Content is not a readable .xlsx workbook');
+  }
+
+  const sheet = sheetName ? workbook.getWorksheet(sheetName) : workbook.worksheets[0];
+  if (!sheet) {
+    throw new BadRequestException(sheetName ? `Sheet "${sheetName}" not found` : 'The workbook has no sheets');
+  }
+
+  const rows: SheetRow[] = [];
+  sheet.eachRow({ includeEmpty: false }, (row, rowNumber) => {
+    const cells: SheetCell[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, column) => {
+      cells[column - 1] = toSheetCell(cell.value);
+    });
+    rows.push({ rowNumber, cells: Array.from(cells, cell => cell ?? null) });
+  });
+  return rows;
+}
+
+function toSheetCell(value: CellValue): SheetCell {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date || typeof value !== 'object') return value;
+
+  // Formulas, rich text and hyperlinks arrive as objects
+  if ('result' in value) return value.result === undefined ? null : toSheetCell(value.result as CellValue);
+  if ('richText' in value) return value.richText.map(run => run.text).join('');
+  if ('text' in value) return toSheetCell(value.text as CellValue);
+  return null;
+}
+
+/**
+ * RFC 4180 CSV with quoted fields, doubled quotes and embedded line breaks.
+ * The delimiter is whichever of comma, semicolon or tab occurs most in the first line.
+ */
+function parseCsv(content: string): SheetRow[] {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: SheetRow[] = [];
+  let cells: SheetCell[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const endField = () => {
+    cells.push(field === '' ? null : field);
+    field = '';
+  };
+  const endRow = () => {
+    endField();
+    rows.push({ rowNumber: rowStart, cells });
+    cells = [];
+    rowStart = line;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BadRequestException(`Unterminated quoted field starting on line ${rowStart}`);
+  }
+  if (field !== '' || cells.length > 0) endRow();
+
+  return rows;
+}
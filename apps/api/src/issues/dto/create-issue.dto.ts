@@ -90,6 +90,26 @@ export class CreateIssueDto {
   @IsEnum(['h', 'd'])
   estimateUnit: string;
 
+  @ApiPropertyOptional({
+    description: 'Optimistic estimate in estimateUnit, for schedule risk simulation',
+    example: 6,
+    minimum: 0
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  optimisticEstimate?: number;
+
+  @ApiPropertyOptional({
+    description: 'Pessimistic estimate in estimateUnit, for schedule risk simulation',
+    example: 16,
+    minimum: 0
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  pessimisticEstimate?: number;
+
   @ApiPropertyOptional({
     description: 'Assignee ID',
     example: '01234567-89ab-cdef-0123-456789abcdef'
@@ -114,6 +134,23 @@ export class CreateIssueDto {
   @IsDateString()
   dueDate?: string;
 
+  @ApiPropertyOptional({
+    description: 'Scheduling constraint: Start-No-Earlier-Than, Finish-No-Later-Than, Must-Start-On, Must-Finish-On or As-Late-As-Possible',
+    enum: ['SNET', 'FNLT', 'MSO', 'MFO', 'ALAP'],
+    example: 'SNET'
+  })
+  @IsOptional()
+  @IsEnum(['SNET', 'FNLT', 'MSO', 'MFO', 'ALAP'])
+  constraintType?: 'SNET' | 'FNLT' | 'MSO' | 'MFO' | 'ALAP';
+
+  @ApiPropertyOptional({
+    description: 'Constraint date (ISO 8601); required for every constraint type except ALAP',
+    example: '2025-09-08T00:00:00.000Z'
+  })
+  @IsOptional()
+  @IsDateString()
+  constraintDate?: string;
+
   @ApiPropertyOptional({
     description: 'Progress percentage (0-100)',
     minimum: 0,
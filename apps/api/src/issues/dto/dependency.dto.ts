@@ -9,6 +9,12 @@ export enum DependencyType {
   FF = 'FF'  // Finish-to-Finish (new)
 }
 
+export enum LagUnit {
+  HOURS = 'hours',     // Working hours
+  DAYS = 'days',       // Working days on the project calendar
+  PERCENT = 'percent'  // Percentage of the predecessor's duration
+}
+
 export class CreateDependencyDto {
   @ApiProperty({ 
     description: 'Predecessor issue ID (the issue that determines when successor can start/finish)',
@@ -44,18 +50,28 @@ export class CreateDependencyDto {
   type?: DependencyType = DependencyType.FS;
 
   @ApiProperty({ 
-    description: 'Lag time in hours - positive values for delays, negative for leads (overlaps)',
+    description: 'Lag in lagUnit - positive values for delays, negative for leads (overlaps); fractions allowed',
     example: 0,
     default: 0,
     examples: {
       'no_lag': { value: 0, description: 'No lag time' },
-      'delay': { value: 24, description: '1 day delay after dependency condition met' },
-      'lead': { value: -12, description: '12 hours overlap/lead time' }
+      'delay': { value: 4, description: '4 working hours delay after dependency condition met' },
+      'lead': { value: -0.5, description: 'Half a day overlap/lead time (lagUnit days)' },
+      'percent': { value: 50, description: 'Start when the predecessor is half done (SS, lagUnit percent)' }
     }
   })
   @IsOptional()
   @IsNumber()
   lag?: number = 0;
+
+  @ApiProperty({
+    description: 'Lag unit: working hours, working days or percent of the predecessor duration',
+    enum: LagUnit,
+    default: LagUnit.HOURS
+  })
+  @IsOptional()
+  @IsEnum(LagUnit)
+  lagUnit?: LagUnit = LagUnit.HOURS;
 }
 
 export class DependencyResponseDto {
@@ -84,15 +100,18 @@ export class DependencyResponseDto {
   type: DependencyType;
 
   @ApiProperty({ 
-    description: 'Lag time in hours', 
+    description: 'Lag in lagUnit', 
     examples: {
       'no_lag': { value: 0, description: 'No lag time' },
-      'positive_lag': { value: 24, description: '1 day delay' },
-      'negative_lag': { value: -12, description: '12 hours lead/overlap' }
+      'positive_lag': { value: 1, description: '1 day delay (lagUnit days)' },
+      'negative_lag': { value: -4, description: '4 hours lead/overlap (lagUnit hours)' }
     }
   })
   lag: number;
 
+  @ApiProperty({ description: 'Lag unit', enum: LagUnit })
+  lagUnit: LagUnit;
+
   @ApiProperty({ description: 'Creation timestamp' })
   createdAt: string;
 
@@ -133,12 +152,21 @@ export class UpdateDependencyDto {
   type?: DependencyType;
 
   @ApiProperty({ 
-    description: 'Updated lag time in hours',
+    description: 'Updated lag in lagUnit',
     required: false
   })
   @IsOptional()
   @IsNumber()
   lag?: number;
+
+  @ApiProperty({
+    description: 'Updated lag unit',
+    enum: LagUnit,
+    required: false
+  })
+  @IsOptional()
+  @IsEnum(LagUnit)
+  lagUnit?: LagUnit;
 }
 
 export class DeleteDependencyDto {
@@ -154,8 +182,10 @@ export class DeleteDependencyDto {
 
 // T032: Utility functions for dependency calculations
 export class DependencyUtils {
-  static formatLagDisplay(lagHours: number): string {
+  static formatLagDisplay(lagHours: number, unit: LagUnit = LagUnit.HOURS): string {
     if (lagHours === 0) return '0h';
+    if (unit === LagUnit.PERCENT) return `${lagHours > 0 ? '+' : ''}${lagHours}%`;
+    if (unit === LagUnit.DAYS) return `${lagHours > 0 ? '+' : ''}${lagHours}d`;
     
     const absDays = Math.floor(Math.abs(lagHours) / 24);
     const remainingHours = Math.abs(lagHours) % 24;
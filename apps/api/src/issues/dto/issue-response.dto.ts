@@ -58,4 +58,44 @@ export class BulkOperationResponseDto {
     id: string;
     error: string;
   }>;
+}
+
+export class BulkUpdateResponseDto {
+  @ApiProperty({ description: 'Whether the request ran in all-or-nothing mode' })
+  atomic: boolean;
+
+  @ApiProperty({ description: 'Total number of issues processed' })
+  totalProcessed: number;
+
+  @ApiProperty({ description: 'Number of issues updated' })
+  successCount: number;
+
+  @ApiProperty({ description: 'Number of issues not updated' })
+  failureCount: number;
+
+  @ApiProperty({ 
+    description: 'Results for each issue update attempt',
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Issue ID' },
+        success: { type: 'boolean', description: 'Whether update succeeded' },
+        conflict: { type: 'boolean', description: 'True when the item failed its version check' },
+        error: { type: 'string', description: 'Error message if failed' },
+        previousVersion: { type: 'number', description: 'Version before the update if successful' },
+        newVersion: { type: 'number', description: 'Version after the update if successful' },
+        currentVersion: { type: 'number', description: 'Server version on conflict' }
+      }
+    }
+  })
+  results: Array<{
+    id: string;
+    success: boolean;
+    conflict?: boolean;
+    error?: string;
+    previousVersion?: number;
+    newVersion?: number;
+    currentVersion?: number;
+  }>;
 }
\ No newline at end of file
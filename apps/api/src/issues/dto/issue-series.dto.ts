@@ -0,0 +1,141 @@
+import { ApiProperty, ApiPropertyOptional, OmitType, PartialType } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min
+} from 'class-validator';
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly'
+}
+
+export class CreateIssueSeriesDto {
+  @ApiProperty({ description: 'Issue whose fields every occurrence copies; it becomes the first occurrence' })
+  @IsUUID()
+  templateIssueId: string;
+
+  @ApiProperty({ enum: RecurrenceFrequency, example: RecurrenceFrequency.WEEKLY })
+  @IsEnum(RecurrenceFrequency)
+  frequency: RecurrenceFrequency;
+
+  @ApiPropertyOptional({ description: 'Repeat every N days/weeks/months', example: 2, default: 1 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  interval?: number;
+
+  @ApiPropertyOptional({ description: 'Total number of occurrences including the template', example: 10 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  count?: number;
+
+  @ApiPropertyOptional({ description: 'Last date an occurrence may fall on', example: '2025-12-31' })
+  @IsOptional()
+  @IsDateString()
+  until?: string;
+
+  @ApiPropertyOptional({
+    description: 'Weekdays to repeat on (0=Sunday, ..., 6=Saturday); defaults to the weekday of the template start',
+    example: [1, 4],
+    type: [Number]
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  byWeekday?: number[];
+
+  @ApiPropertyOptional({ description: 'Days ahead of today to materialize occurrences', example: 90, default: 90 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(730)
+  horizonDays?: number;
+}
+
+export class UpdateIssueSeriesDto extends PartialType(OmitType(CreateIssueSeriesDto, ['templateIssueId'] as const)) {}
+
+export class IssueOccurrenceDto {
+  @ApiProperty({ description: 'Issue ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Issue title' })
+  title: string;
+
+  @ApiProperty({ description: 'Issue status' })
+  status: string;
+
+  @ApiProperty({ description: 'Date the rule produced for this occurrence' })
+  occurrenceDate: string;
+
+  @ApiProperty({ description: 'Whether the occurrence was edited individually' })
+  recurrenceException: boolean;
+}
+
+export class IssueSeriesResponseDto {
+  @ApiProperty({ description: 'Series ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Project ID' })
+  projectId: string;
+
+  @ApiProperty({ description: 'Template issue ID' })
+  templateIssueId: string;
+
+  @ApiProperty({ enum: RecurrenceFrequency })
+  frequency: RecurrenceFrequency;
+
+  @ApiProperty({ description: 'Repeat interval' })
+  interval: number;
+
+  @ApiPropertyOptional({ description: 'Total number of occurrences', nullable: true })
+  count: number | null;
+
+  @ApiPropertyOptional({ description: 'Last possible occurrence date', nullable: true })
+  until: string | null;
+
+  @ApiProperty({ description: 'Weekdays to repeat on (0=Sunday)', type: [Number] })
+  byWeekday: number[];
+
+  @ApiProperty({ description: 'RRULE representation', example: 'FREQ=WEEKLY;BYDAY=MO,TH' })
+  rrule: string;
+
+  @ApiProperty({ description: 'Days ahead of today that occurrences are materialized' })
+  horizonDays: number;
+
+  @ApiPropertyOptional({ description: 'Occurrences exist up to this date', nullable: true })
+  generatedUntil: string | null;
+
+  @ApiProperty({ description: 'Cancelled occurrence dates (YYYY-MM-DD)', type: [String] })
+  cancelledDates: string[];
+
+  @ApiProperty({ description: 'Live occurrences, oldest first', type: [IssueOccurrenceDto] })
+  occurrences: IssueOccurrenceDto[];
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: string;
+}
+
+export class GenerateOccurrencesResponseDto {
+  @ApiProperty({ description: 'Issues created by this run' })
+  generatedCount: number;
+
+  @ApiPropertyOptional({ description: 'Occurrences exist up to this date', nullable: true })
+  generatedUntil: string | null;
+}
@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+export class TrashedIssueDto {
+  @ApiProperty({ description: 'Issue ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Issue title' })
+  title: string;
+
+  @ApiProperty({ description: 'Status at the time of deletion' })
+  status: string;
+
+  @ApiProperty({ description: 'Parent issue ID', nullable: true })
+  parentIssueId: string | null;
+
+  @ApiProperty({ description: 'Number of WBS descendants deleted together with this issue' })
+  descendantCount: number;
+
+  @ApiProperty({ description: 'When the issue was moved to trash' })
+  deletedAt: string;
+
+  @ApiProperty({ description: 'When the issue becomes eligible for permanent removal' })
+  purgeAfter: string;
+}
+
+export class TrashListResponseDto {
+  @ApiProperty({
+    description: 'Issues deleted directly by a user; descendants are restored together with them',
+    type: [TrashedIssueDto]
+  })
+  items: TrashedIssueDto[];
+
+  @ApiProperty({ description: 'Days an issue stays in trash before it can be purged', example: 30 })
+  retentionDays: number;
+}
+
+export class RestoreIssueResponseDto {
+  @ApiProperty({ description: 'IDs of the restored issue and its restored descendants', type: [String] })
+  restoredIds: string[];
+
+  @ApiProperty({ description: 'Number of dependencies reattached' })
+  restoredDependencies: number;
+
+  @ApiProperty({
+    description: 'Dependencies that could not be reattached',
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: {
+        predecessorId: { type: 'string' },
+        successorId: { type: 'string' },
+        reason: { type: 'string' }
+      }
+    }
+  })
+  skippedDependencies: Array<{
+    predecessorId: string;
+    successorId: string;
+    reason: string;
+  }>;
+
+  @ApiProperty({ description: 'True when the parent was still in trash and the issue was moved to the top level' })
+  movedToRoot: boolean;
+}
+
+export class PurgeTrashResponseDto {
+  @ApiProperty({ description: 'Number of issues permanently removed' })
+  purgedCount: number;
+
+  @ApiProperty({ description: 'IDs of the removed issues', type: [String] })
+  purgedIds: string[];
+
+  @ApiProperty({ description: 'Recurring series that ended because their template was purged', type: [String] })
+  endedSeriesIds: string[];
+
+  @ApiProperty({ description: 'Issues deleted before this instant were purged' })
+  cutoff: string;
+}
@@ -1,5 +1,5 @@
-import { ApiPropertyOptional } from '@nestjs/swagger';
-import { PartialType } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { PartialType, PickType } from '@nestjs/swagger';
 import { 
   IsString, 
   IsEnum, 
@@ -10,11 +10,24 @@ import {
   IsDateString,
   Min,
   Max,
-  MaxLength
+  MaxLength,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateNested
 } from 'class-validator';
+import { Type } from 'class-transformer';
 import { CreateIssueDto } from './create-issue.dto';
 
 export class UpdateIssueDto extends PartialType(CreateIssueDto) {
+  @ApiPropertyOptional({
+    description: 'Milestone ID (null to detach)',
+    example: '01234567-89ab-cdef-0123-456789abcdef',
+    nullable: true
+  })
+  @IsOptional()
+  @IsUUID()
+  milestoneId?: string | null;
+
   @ApiPropertyOptional({
     description: 'Version for optimistic locking',
     example: 1
@@ -43,27 +56,48 @@ export class MoveIssueDto {
   sortIndex?: number;
 }
 
-export class BulkUpdateIssueDto {
-  @ApiPropertyOptional({
-    description: 'Operation type',
-    enum: ['update', 'move', 'delete'],
-    example: 'update'
-  })
-  @IsOptional()
-  @IsEnum(['update', 'move', 'delete'])
-  operation?: string;
+export class BulkIssueFieldsDto extends PickType(UpdateIssueDto, [
+  'status',
+  'assigneeId',
+  'labels',
+  'milestoneId',
+  'startDate',
+  'dueDate'
+] as const) {}
 
-  @ApiPropertyOptional({
+export class BulkUpdateIssueItemDto {
+  @ApiProperty({
     description: 'Issue ID',
     example: '01234567-89ab-cdef-0123-456789abcdef'
   })
   @IsUUID()
   id: string;
 
-  @ApiPropertyOptional({
-    description: 'Update fields',
-    type: 'object'
+  @ApiProperty({
+    description: 'Version the client last saw (optimistic locking)',
+    example: 3
   })
-  @IsOptional()
-  fields?: Partial<UpdateIssueDto>;
-}
\ No newline at end of file
+  @IsNumber()
+  version: number;
+
+  @ApiProperty({
+    description: 'Fields to change; omitted fields are left untouched',
+    type: BulkIssueFieldsDto
+  })
+  @ValidateNested()
+  @Type(() => BulkIssueFieldsDto)
+  fields: BulkIssueFieldsDto;
+}
+
+export class BulkUpdateIssueDto {
+  @ApiProperty({
+    description: 'Issues to update',
+    type: [BulkUpdateIssueItemDto]
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => BulkUpdateIssueItemDto)
+  items: BulkUpdateIssueItemDto[];
+}
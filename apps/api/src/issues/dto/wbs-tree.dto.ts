@@ -1,6 +1,6 @@
 import { ApiProperty } from '@nestjs/swagger'
-import { Type } from 'class-transformer'
-import { IsString, IsOptional, IsNumber, IsBoolean, IsEnum, IsArray, ValidateNested } from 'class-validator'
+import { Type, Transform } from 'class-transformer'
+import { IsString, IsOptional, IsNumber, IsBoolean, IsEnum, IsArray, IsUUID, Min, ValidateNested } from 'class-validator'
 import { IssueResponseDto } from './issue-response.dto'
 
 export enum WBSNodeStatus {
@@ -95,6 +95,26 @@ export class WBSNodeDto {
   @IsArray()
   @IsString({ each: true })
   path: string[]
+
+  @ApiProperty({ description: 'Hierarchical WBS code', example: '1.2.3' })
+  @IsString()
+  wbsCode: string
+
+  @ApiProperty({ description: 'Number of direct children, including ones not loaded yet' })
+  @IsNumber()
+  childCount: number
+
+  @ApiProperty({ description: 'Estimated hours of the node, or the sum over its children' })
+  @IsNumber()
+  rolledUpEstimatedHours: number
+
+  @ApiProperty({ description: 'Hours spent on the node and all of its descendants' })
+  @IsNumber()
+  rolledUpSpentHours: number
+
+  @ApiProperty({ description: 'Progress weighted by the estimates of the children (0-100)' })
+  @IsNumber()
+  rolledUpProgress: number
 }
 
 export class WBSTreeResponseDto {
@@ -119,6 +139,11 @@ export class WBSTreeResponseDto {
   @ApiProperty({ description: 'Tree generation timestamp' })
   @IsString()
   generatedAt: string
+
+  @ApiProperty({ description: 'Node whose subtree was loaded; null for the whole project', required: false, nullable: true })
+  @IsOptional()
+  @IsString()
+  parentId?: string | null
 }
 
 export class GanttTaskDto {
@@ -184,6 +209,13 @@ export class GanttTaskDto {
   @IsNumber()
   order: number
 
+  @ApiProperty({
+    description: 'Task kind; summary tasks are parents whose dates are rolled up from their children',
+    enum: ['task', 'milestone', 'summary']
+  })
+  @IsEnum(['task', 'milestone', 'summary'])
+  type: 'task' | 'milestone' | 'summary'
+
   @ApiProperty({ description: 'Task color for display', required: false })
   @IsOptional()
   @IsString()
@@ -255,18 +287,28 @@ export class WBSTreeQueryDto {
 
   @ApiProperty({ description: 'Maximum depth to expand', required: false })
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
+  @Min(0)
   maxDepth?: number
 
   @ApiProperty({ description: 'Whether to include completed tasks', required: false, default: true })
   @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value === 'true' : value))
   @IsBoolean()
   includeCompleted?: boolean
 
   @ApiProperty({ description: 'Default expand level', required: false, default: 2 })
   @IsOptional()
+  @Type(() => Number)
   @IsNumber()
+  @Min(0)
   expandLevel?: number
+
+  @ApiProperty({ description: 'Load only the subtree below this issue (lazy expansion)', required: false })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string
 }
 
 export class GanttDataQueryDto {
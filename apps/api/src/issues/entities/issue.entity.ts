@@ -64,6 +64,20 @@ export class Issue {
   })
   estimateUnit: string;
 
+  @ApiProperty({
+    description: 'Optimistic estimate in estimateUnit',
+    example: 6,
+    nullable: true
+  })
+  optimisticEstimate: number | null;
+
+  @ApiProperty({
+    description: 'Pessimistic estimate in estimateUnit',
+    example: 16,
+    nullable: true
+  })
+  pessimisticEstimate: number | null;
+
   @ApiProperty({
     description: 'Spent time',
     example: 4
@@ -91,6 +105,21 @@ export class Issue {
   })
   dueDate: Date | null;
 
+  @ApiProperty({
+    description: 'Scheduling constraint type',
+    enum: ['SNET', 'FNLT', 'MSO', 'MFO', 'ALAP'],
+    example: 'SNET',
+    nullable: true
+  })
+  constraintType: string | null;
+
+  @ApiProperty({
+    description: 'Scheduling constraint date',
+    example: '2025-09-08T00:00:00.000Z',
+    nullable: true
+  })
+  constraintDate: Date | null;
+
   @ApiProperty({
     description: 'Progress percentage (0-100)',
     minimum: 0,
@@ -106,6 +135,24 @@ export class Issue {
   })
   labels: string[];
 
+  @ApiProperty({
+    description: 'Recurring series this issue is an occurrence of',
+    nullable: true
+  })
+  seriesId: string | null;
+
+  @ApiProperty({
+    description: 'Date the recurrence rule produced for this occurrence',
+    nullable: true
+  })
+  occurrenceDate: Date | null;
+
+  @ApiProperty({
+    description: 'Occurrence was edited on its own and no longer follows series changes',
+    example: false
+  })
+  recurrenceException: boolean;
+
   @ApiProperty({
     description: 'Version for optimistic locking',
     example: 1
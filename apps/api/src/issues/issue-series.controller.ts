@@ -0,0 +1,150 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { IssueSeriesService } from './issue-series.service';
+import {
+  CreateIssueSeriesDto,
+  UpdateIssueSeriesDto,
+  IssueSeriesResponseDto,
+  GenerateOccurrencesResponseDto
+} from './dto/issue-series.dto';
+
+@ApiTags('issues')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/issue-series')
+export class IssueSeriesController {
+  constructor(private readonly issueSeriesService: IssueSeriesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List recurring issue series' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Series retrieved', type: [IssueSeriesResponseDto] })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findAll(
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ): Promise<IssueSeriesResponseDto[]> {
+    return this.issueSeriesService.findAll(projectId);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Make an issue recurring',
+    description: 'The issue becomes the template and first occurrence; later occurrences are created up to the rolling horizon'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 201, description: 'Series created', type: IssueSeriesResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid rule or template issue has no start date' })
+  @ApiResponse({ status: 409, description: 'Issue already belongs to a series' })
+  async create(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: CreateIssueSeriesDto,
+    @Request() req: any
+  ): Promise<IssueSeriesResponseDto> {
+    return this.issueSeriesService.create(projectId, dto, req.user?.id);
+  }
+
+  @Get(':seriesId')
+  @ApiOperation({ summary: 'Get a recurring series with its occurrences' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'seriesId', description: 'Series UUID' })
+  @ApiResponse({ status: 200, description: 'Series retrieved', type: IssueSeriesResponseDto })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async findOne(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('seriesId', ParseUUIDPipe) seriesId: string
+  ): Promise<IssueSeriesResponseDto> {
+    return this.issueSeriesService.findOne(projectId, seriesId);
+  }
+
+  @Patch(':seriesId')
+  @ApiOperation({
+    summary: 'Change the recurrence rule',
+    description: 'Future occurrences that were not edited or started are replaced'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'seriesId', description: 'Series UUID' })
+  @ApiResponse({ status: 200, description: 'Series updated', type: IssueSeriesResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid rule' })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async update(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('seriesId', ParseUUIDPipe) seriesId: string,
+    @Body() dto: UpdateIssueSeriesDto,
+    @Request() req: any
+  ): Promise<IssueSeriesResponseDto> {
+    return this.issueSeriesService.update(projectId, seriesId, dto, req.user?.id);
+  }
+
+  @Delete(':seriesId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Stop a recurring series',
+    description: 'Untouched future occurrences are archived; the rest remain as ordinary issues'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'seriesId', description: 'Series UUID' })
+  @ApiResponse({ status: 204, description: 'Series stopped' })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async remove(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('seriesId', ParseUUIDPipe) seriesId: string,
+    @Request() req: any
+  ): Promise<void> {
+    return this.issueSeriesService.remove(projectId, seriesId, req.user?.id);
+  }
+
+  @Post(':seriesId/generate')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Create any occurrences missing up to the rolling horizon' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'seriesId', description: 'Series UUID' })
+  @ApiResponse({ status: 200, description: 'Occurrences generated', type: GenerateOccurrencesResponseDto })
+  @ApiResponse({ status: 404, description: 'Series not found' })
+  async generate(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('seriesId', ParseUUIDPipe) seriesId: string
+  ): Promise<GenerateOccurrencesResponseDto> {
+    return this.issueSeriesService.generateNow(projectId, seriesId);
+  }
+
+  @Post(':seriesId/occurrences/:issueId/cancel')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({
+    summary: 'Cancel one occurrence',
+    description: 'The occurrence is archived and will not be generated again; other occurrences are unaffected'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'seriesId', description: 'Series UUID' })
+  @ApiParam({ name: 'issueId', description: 'Occurrence issue UUID' })
+  @ApiResponse({ status: 204, description: 'Occurrence cancelled' })
+  @ApiResponse({ status: 404, description: 'Series or occurrence not found' })
+  async cancelOccurrence(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('seriesId', ParseUUIDPipe) seriesId: string,
+    @Param('issueId', ParseUUIDPipe) issueId: string,
+    @Request() req: any
+  ): Promise<void> {
+    return this.issueSeriesService.cancelOccurrence(projectId, seriesId, issueId, req.user?.id);
+  }
+}
@@ -0,0 +1,531 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  OnModuleInit,
+  OnModuleDestroy
+} from '@nestjs/common';
+import { Issue, IssueSeries, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { IssuesService } from './issues.service';
+import {
+  CreateIssueSeriesDto,
+  UpdateIssueSeriesDto,
+  IssueSeriesResponseDto,
+  GenerateOccurrencesResponseDto,
+  RecurrenceFrequency
+} from './dto/issue-series.dto';
+import { expandRecurrence, formatRRule, toDateKey, RecurrenceRule } from '../common/utils/recurrence.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HORIZON_REFRESH_INTERVAL_MS = 60 * 60 * 1000;
+
+type SeriesWithOccurrences = IssueSeries & { occurrences: Issue[] };
+
+@Injectable()
+export class IssueSeriesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(IssueSeriesService.name);
+  private refreshTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly issuesService: IssuesService
+  ) {}
+
+  onModuleInit(): void {
+    // Roll every series' horizon forward so occurrences keep appearing without user action.
+    // Every API instance runs this; generate() serializes per series, so overlapping runs add nothing twice
+    this.refreshTimer = setInterval(() => {
+      this.generateAll().catch(error => this.logger.error(`Recurring issue generation failed: ${error.message}`));
+    }, HORIZON_REFRESH_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.refreshTimer) clearInterval(this.refreshTimer);
+  }
+
+  async findAll(projectId: string): Promise<IssueSeriesResponseDto[]> {
+    await this.getProjectOrThrow(projectId);
+
+    const series = await this.prisma.issueSeries.findMany({
+      where: { projectId },
+      include: this.occurrenceInclude(),
+      orderBy: { createdAt: 'asc' }
+    });
+
+    return series.map(item => this.toResponse(item));
+  }
+
+  async findOne(projectId: string, seriesId: string): Promise<IssueSeriesResponseDto> {
+    return this.toResponse(await this.getSeriesOrThrow(projectId, seriesId));
+  }
+
+  async create(projectId: string, dto: CreateIssueSeriesDto, userId: string): Promise<IssueSeriesResponseDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const template = await this.prisma.issue.findFirst({
+      where: { id: dto.templateIssueId, projectId, deletedAt: null }
+    });
+    if (!template) {
+      throw new NotFoundException(`Issue not found: ${dto.templateIssueId}`);
+    }
+    if (!template.startDate) {
+      throw new BadRequestException('Template issue needs a start date for the recurrence to start from');
+    }
+    if (template.seriesId) {
+      throw new ConflictException(`Issue ${template.id} already belongs to a recurring series`);
+    }
+
+    const rule = this.resolveRule(dto, template.startDate);
+
+    const series = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.issueSeries.create({
+        data: {
+          projectId,
+          templateIssueId: template.id,
+          frequency: rule.frequency,
+          interval: rule.interval,
+          count: rule.count ?? null,
+          until: rule.until ?? null,
+          byWeekday: rule.byWeekday ?? [],
+          horizonDays: dto.horizonDays ?? 90,
+          cancelledDates: [],
+          createdBy: userId
+        }
+      });
+
+      await tx.issue.update({
+        where: { id: template.id },
+        data: { seriesId: created.id, occurrenceDate: template.startDate, version: { increment: 1 } }
+      });
+
+      await this.logSeriesActivity(tx, projectId, created.id, 'create', userId, null, created);
+      return created;
+    });
+
+    this.logger.log(`Created recurring series ${series.id} from issue ${template.id}`);
+    await this.generate(series);
+
+    return this.findOne(projectId, series.id);
+  }
+
+  /**
+   * Changing the rule replaces future occurrences that nobody has touched;
+   * edited, started and past occurrences stay as they are.
+   */
+  async update(
+    projectId: string,
+    seriesId: string,
+    dto: UpdateIssueSeriesDto,
+    userId: string
+  ): Promise<IssueSeriesResponseDto> {
+    const existing = await this.getSeriesOrThrow(projectId, seriesId);
+    const template = existing.occurrences.find(issue => issue.id === existing.templateIssueId)
+      ?? await this.prisma.issue.findUniqueOrThrow({ where: { id: existing.templateIssueId } });
+
+    const rule = this.resolveRule({
+      frequency: dto.frequency ?? existing.frequency as RecurrenceFrequency,
+      interval: dto.interval ?? existing.interval,
+      count: dto.count !== undefined ? dto.count : existing.count ?? undefined,
+      until: dto.until !== undefined ? dto.until : existing.until?.toISOString(),
+      byWeekday: dto.byWeekday ?? existing.byWeekday
+    }, template.occurrenceDate ?? template.startDate!);
+
+    const now = new Date();
+    const pending = this.pendingOccurrences(existing, now);
+    const pendingIds = pending.map(issue => issue.id);
+
+    const series = await this.prisma.$transaction(async (tx) => {
+      await this.archiveOccurrences(tx, projectId, pending, now, userId);
+
+      const updated = await tx.issueSeries.update({
+        where: { id: seriesId },
+        data: {
+          frequency: rule.frequency,
+          interval: rule.interval,
+          count: rule.count ?? null,
+          until: rule.until ?? null,
+          byWeekday: rule.byWeekday ?? [],
+          horizonDays: dto.horizonDays ?? existing.horizonDays,
+          // Regenerate from today; dates already behind us are not backfilled
+          generatedUntil: existing.generatedUntil && existing.generatedUntil < now ? existing.generatedUntil : now
+        }
+      });
+
+      await this.logSeriesActivity(
+        tx,
+        projectId,
+        seriesId,
+        'update',
+        userId,
+        this.toRuleSnapshot(existing),
+        this.toRuleSnapshot(updated),
+        { replacedOccurrenceIds: pendingIds }
+      );
+      return updated;
+    });
+
+    await this.generate(series);
+    return this.findOne(projectId, seriesId);
+  }
+
+  /**
+   * Stop the series: untouched future occurrences are archived, the rest are
+   * kept as ordinary issues.
+   */
+  async remove(projectId: string, seriesId: string, userId: string): Promise<void> {
+    const existing = await this.getSeriesOrThrow(projectId, seriesId);
+    const now = new Date();
+    const pending = this.pendingOccurrences(existing, now);
+    const pendingIds = pending.map(issue => issue.id);
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.archiveOccurrences(tx, projectId, pending, now, userId);
+      await tx.issue.updateMany({
+        where: { seriesId },
+        data: { seriesId: null, recurrenceException: false }
+      });
+      await tx.issueSeries.delete({ where: { id: seriesId } });
+
+      await this.logSeriesActivity(
+        tx,
+        projectId,
+        seriesId,
+        'delete',
+        userId,
+        this.toRuleSnapshot(existing),
+        null,
+        { archivedOccurrenceIds: pendingIds }
+      );
+    });
+  }
+
+  /**
+   * Cancel a single occurrence. It is archived like a deleted issue and its
+   * date is remembered so the generator never recreates it.
+   */
+  async cancelOccurrence(projectId: string, seriesId: string, issueId: string, userId: string): Promise<void> {
+    const series = await this.getSeriesOrThrow(projectId, seriesId);
+    const occurrence = series.occurrences.find(issue => issue.id === issueId);
+
+    if (!occurrence) {
+      throw new NotFoundException(`Issue ${issueId} is not a live occurrence of series ${seriesId}`);
+    }
+
+    if (occurrence.occurrenceDate) {
+      const dateKey = toDateKey(occurrence.occurrenceDate);
+      await this.prisma.issueSeries.update({
+        where: { id: seriesId },
+        data: { cancelledDates: Array.from(new Set([...series.cancelledDates, dateKey])).sort() }
+      });
+    }
+
+    await this.issuesService.remove(projectId, issueId, userId);
+  }
+
+  async generateNow(projectId: string, seriesId: string): Promise<GenerateOccurrencesResponseDto> {
+    const series = await this.getSeriesOrThrow(projectId, seriesId);
+    const generatedCount = await this.generate(series);
+    const refreshed = await this.prisma.issueSeries.findUniqueOrThrow({ where: { id: seriesId } });
+
+    return {
+      generatedCount,
+      generatedUntil: refreshed.generatedUntil?.toISOString() ?? null
+    };
+  }
+
+  /**
+   * Extend every series up to its rolling horizon. Series whose template is in
+   * the trash are paused until it is restored.
+   */
+  async generateAll(now: Date = new Date()): Promise<number> {
+    const allSeries = await this.prisma.issueSeries.findMany({
+      where: { templateIssue: { deletedAt: null } }
+    });
+    let generated = 0;
+
+    for (const series of allSeries) {
+      // One broken series must not hold back the others
+      try {
+        generated += await this.generate(series, now);
+      } catch (error) {
+        this.logger.error(
+          `Recurring issue generation failed for series ${series.id}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+
+    if (generated > 0) {
+      this.logger.log(`Generated ${generated} recurring issue occurrences`);
+    }
+    return generated;
+  }
+
+  /**
+   * Materialize the occurrences between the last generated date and the
+   * horizon as real issues copying the template
+   */
+  private async generate(series: IssueSeries, now: Date = new Date()): Promise<number> {
+    const horizonEnd = new Date(now.getTime() + series.horizonDays * DAY_MS);
+    if (series.generatedUntil && series.generatedUntil >= horizonEnd) {
+      return 0;
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      // Concurrent runs for one series queue here; the later one re-reads and finds nothing left to add
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${`issue_series:${series.id}`}))`;
+      const current = await tx.issueSeries.findUnique({ where: { id: series.id } });
+      if (!current || (current.generatedUntil && current.generatedUntil >= horizonEnd)) {
+        return 0;
+      }
+
+      const template = await tx.issue.findUniqueOrThrow({ where: { id: current.templateIssueId } });
+      const start = template.occurrenceDate ?? template.startDate;
+      if (!start || template.deletedAt) {
+        return 0;
+      }
+
+      const live = await tx.issue.findMany({
+        where: { seriesId: current.id, deletedAt: null, occurrenceDate: { not: null } },
+        select: { occurrenceDate: true }
+      });
+      const taken = new Set([
+        ...current.cancelledDates,
+        ...live.map(issue => toDateKey(issue.occurrenceDate!))
+      ]);
+
+      const dates = expandRecurrence(this.toRule(current), start, horizonEnd).filter(date =>
+        (!current.generatedUntil || date > current.generatedUntil) && !taken.has(toDateKey(date))
+      );
+
+      // Occurrences span as many calendar days as the template does
+      const spanMs = template.startDate && template.dueDate
+        ? template.dueDate.getTime() - template.startDate.getTime()
+        : null;
+
+      const lastSibling = await tx.issue.findFirst({
+        where: { projectId: current.projectId, parentIssueId: template.parentIssueId },
+        orderBy: { orderIndex: 'desc' },
+        select: { orderIndex: true }
+      });
+      let orderIndex = lastSibling?.orderIndex || 0;
+
+      for (const date of dates) {
+        await tx.issue.create({
+          data: {
+            projectId: current.projectId,
+            parentIssueId: template.parentIssueId,
+            orderIndex: ++orderIndex,
+            title: template.title,
+            description: template.description,
+            status: 'todo',
+            type: template.type,
+            priority: template.priority,
+            estimateValue: template.estimateValue,
+            estimateUnit: template.estimateUnit,
+            optimisticEstimate: template.optimisticEstimate,
+            pessimisticEstimate: template.pessimisticEstimate,
+            assigneeId: template.assigneeId,
+            startDate: date,
+            dueDate: spanMs !== null ? new Date(date.getTime() + spanMs) : null,
+            labels: template.labels,
+            progress: 0,
+            spent: 0,
+            createdBy: current.createdBy,
+            seriesId: current.id,
+            occurrenceDate: date
+          }
+        });
+      }
+
+      await tx.issueSeries.update({
+        where: { id: current.id },
+        data: { generatedUntil: horizonEnd }
+      });
+
+      if (dates.length > 0) {
+        await this.issuesService.rollUpSummaryDates(tx, current.projectId, template.parentIssueId, current.createdBy);
+        await this.issuesService.rollUpProgress(tx, current.projectId, template.parentIssueId, current.createdBy);
+        await this.issuesService.syncWBSNodes(tx, current.projectId, [template.parentIssueId]);
+        await this.logSeriesActivity(
+          tx,
+          current.projectId,
+          current.id,
+          'update',
+          current.createdBy,
+          null,
+          null,
+          { operation: 'generate', generatedCount: dates.length, generatedUntil: horizonEnd.toISOString() }
+        );
+      }
+
+      return dates.length;
+    });
+  }
+
+  private async archiveOccurrences(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    occurrences: Issue[],
+    deletedAt: Date,
+    userId: string
+  ): Promise<void> {
+    if (occurrences.length === 0) return;
+
+    await tx.issue.updateMany({
+      where: { id: { in: occurrences.map(issue => issue.id) }, deletedAt: null },
+      data: { deletedAt, version: { increment: 1 } }
+    });
+
+    const parentIds = new Set(occurrences.map(issue => issue.parentIssueId));
+    for (const parentId of parentIds) {
+      await this.issuesService.rollUpSummaryDates(tx, projectId, parentId, userId);
+      await this.issuesService.rollUpProgress(tx, projectId, parentId, userId);
+    }
+  }
+
+  // Future occurrences nobody has edited or started; safe to replace when the rule changes
+  private pendingOccurrences(series: SeriesWithOccurrences, now: Date): Issue[] {
+    return series.occurrences.filter(issue =>
+      issue.id !== series.templateIssueId &&
+      !issue.recurrenceException &&
+      issue.occurrenceDate !== null &&
+      issue.occurrenceDate > now &&
+      issue.status === 'todo' &&
+      issue.progress === 0 &&
+      issue.spent === 0
+    );
+  }
+
+  private resolveRule(
+    fields: {
+      frequency: RecurrenceFrequency;
+      interval?: number;
+      count?: number | null;
+      until?: string | null;
+      byWeekday?: number[];
+    },
+    start: Date
+  ): RecurrenceRule {
+    if (fields.count && fields.until) {
+      throw new BadRequestException('Use either count or until to end a recurrence, not both');
+    }
+
+    const until = fields.until ? new Date(fields.until) : null;
+    // A bare date means the whole day is still included
+    if (until && fields.until && /^\d{4}-\d{2}-\d{2}$/.test(fields.until)) {
+      until.setHours(23, 59, 59, 999);
+    }
+    if (until && until < start) {
+      throw new BadRequestException('Recurrence must not end before the template start date');
+    }
+
+    return {
+      frequency: fields.frequency,
+      interval: fields.interval ?? 1,
+      count: fields.count ?? null,
+      until,
+      byWeekday: fields.byWeekday ? [...fields.byWeekday].sort((a, b) => a - b) : []
+    };
+  }
+
+  private toRule(series: IssueSeries): RecurrenceRule {
+    return {
+      frequency: series.frequency as RecurrenceFrequency,
+      interval: series.interval,
+      count: series.count,
+      until: series.until,
+      byWeekday: series.byWeekday
+    };
+  }
+
+  private toRuleSnapshot(series: IssueSeries): Prisma.InputJsonObject {
+    return {
+      templateIssueId: series.templateIssueId,
+      rrule: formatRRule(this.toRule(series)),
+      horizonDays: series.horizonDays,
+      cancelledDates: series.cancelledDates
+    };
+  }
+
+  private occurrenceInclude() {
+    return {
+      occurrences: {
+        where: { deletedAt: null },
+        orderBy: { occurrenceDate: 'asc' as const }
+      }
+    };
+  }
+
+  private async getProjectOrThrow(projectId: string): Promise<void> {
+    const project = await this.prisma.project.findUnique({ where: { id: projectId }, select: { id: true } });
+    if (!project) {
+      throw new NotFoundException(`Project not found: ${projectId}`);
+    }
+  }
+
+  private async getSeriesOrThrow(projectId: string, seriesId: string): Promise<SeriesWithOccurrences> {
+    const series = await this.prisma.issueSeries.findFirst({
+      where: { id: seriesId, projectId },
+      include: this.occurrenceInclude()
+    });
+
+    if (!series) {
+      throw new NotFoundException(`Recurring series not found: ${seriesId}`);
+    }
+
+    return series;
+  }
+
+  private async logSeriesActivity(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    seriesId: string,
+    action: 'create' | 'update' | 'delete',
+    userId: string,
+    before: any,
+    after: any,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    await tx.activityLog.create({
+      data: {
+        projectId,
+        entityType: 'issue_series',
+        entityId: seriesId,
+        action,
+        actor: userId,
+        before: before ? JSON.parse(JSON.stringify(before)) : undefined,
+        after: after ? JSON.parse(JSON.stringify(after)) : undefined,
+        metadata
+      }
+    });
+  }
+
+  private toResponse(series: SeriesWithOccurrences): IssueSeriesResponseDto {
+    return {
+      id: series.id,
+      projectId: series.projectId,
+      templateIssueId: series.templateIssueId,
+      frequency: series.frequency as RecurrenceFrequency,
+      interval: series.interval,
+      count: series.count,
+      until: series.until?.toISOString() ?? null,
+      byWeekday: series.byWeekday,
+      rrule: formatRRule(this.toRule(series)),
+      horizonDays: series.horizonDays,
+      generatedUntil: series.generatedUntil?.toISOString() ?? null,
+      cancelledDates: series.cancelledDates,
+      occurrences: series.occurrences.map(issue => ({
+        id: issue.id,
+        title: issue.title,
+        status: issue.status,
+        occurrenceDate: (issue.occurrenceDate ?? issue.startDate ?? issue.createdAt).toISOString(),
+        recurrenceException: issue.recurrenceException
+      })),
+      createdAt: series.createdAt.toISOString(),
+      updatedAt: series.updatedAt.toISOString()
+    };
+  }
+}
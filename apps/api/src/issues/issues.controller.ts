@@ -14,6 +14,8 @@ import {
   Res,
   HttpCode,
   ParseUUIDPipe,
+  ParseBoolPipe,
+  DefaultValuePipe,
   BadRequestException
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiQuery, ApiHeader } from '@nestjs/swagger';
@@ -23,7 +25,7 @@ import { UpdateIssueDto, BulkUpdateIssueDto } from './dto/update-issue.dto';
 import { QueryIssueDto } from './dto/query-issue.dto';
 import { 
   PaginatedIssueResponseDto, 
-  BulkOperationResponseDto 
+  BulkUpdateResponseDto 
 } from './dto/issue-response.dto';
 import { 
   WBSTreeResponseDto, 
@@ -42,6 +44,11 @@ import {
   ProgressResponseDto,
   ProgressBulkResponseDto
 } from './dto/progress.dto';
+import {
+  TrashListResponseDto,
+  RestoreIssueResponseDto,
+  PurgeTrashResponseDto
+} from './dto/trash.dto';
 import { Response } from 'express';
 
 @ApiTags('issues')
@@ -104,6 +111,59 @@ export class IssuesController {
     return this.issuesService.findAll(projectId, queryDto);
   }
 
+  @Get('tree')
+  @ApiOperation({ 
+    summary: 'Get WBS tree structure',
+    description: 'Hierarchical Work Breakdown Structure with WBS codes and rolled-up estimates, spent hours and progress. ' +
+      'Nodes below expandLevel are returned without children; pass parentId to load a subtree lazily'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'WBS tree retrieved successfully',
+    type: WBSTreeResponseDto
+  })
+  async getTree(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query(ValidationPipe) query: WBSTreeQueryDto
+  ): Promise<WBSTreeResponseDto> {
+    return this.issuesService.getWBSTree(projectId, query);
+  }
+
+  @Get('trash')
+  @ApiOperation({
+    summary: 'List trashed issues',
+    description: 'Issues deleted by a user, with the number of WBS descendants archived together and the purge date'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Trash retrieved successfully',
+    type: TrashListResponseDto
+  })
+  @ApiParam({ name: 'projectId', description: 'Project ID' })
+  async getTrash(
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ): Promise<TrashListResponseDto> {
+    return this.issuesService.getTrash(projectId);
+  }
+
+  @Post('trash/purge')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Purge expired trash',
+    description: 'Permanently remove issues that have been in trash longer than the retention window'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Expired issues purged',
+    type: PurgeTrashResponseDto
+  })
+  async purgeTrash(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Request() req: any
+  ): Promise<PurgeTrashResponseDto> {
+    return this.issuesService.purgeTrash(projectId, req?.user?.id || 'system');
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get issue by ID with ETag support' })
   @ApiResponse({
@@ -149,8 +209,9 @@ export class IssuesController {
   })
   @ApiResponse({
     status: 409,
-    description: 'Conflict - Resource was modified by another user'
+    description: 'Conflict - Resource was modified by another user; body carries the current server state'
   })
+  @ApiHeader({ name: 'If-Match', required: false, description: 'ETag of the version being edited (alternative to body `version`)' })
   async update(
     @Param('projectId', ParseUUIDPipe) projectId: string,
     @Param('id', ParseUUIDPipe) id: string,
@@ -159,7 +220,13 @@ export class IssuesController {
     @Request() req: any,
     @Res() res: Response
   ) {
-    const updatedIssue = await this.issuesService.update(projectId, id, updateIssueDto, req.user?.id || 'system');
+    const updatedIssue = await this.issuesService.update(
+      projectId,
+      id,
+      updateIssueDto,
+      req.user?.id || 'system',
+      this.parseETagVersion(ifMatch)
+    );
     
     const newETag = this.generateETag(updatedIssue.version, updatedIssue.updatedAt);
     res.set('ETag', newETag);
@@ -177,6 +244,10 @@ export class IssuesController {
     description: 'Progress updated successfully',
     type: ProgressResponseDto
   })
+  @ApiResponse({
+    status: 400,
+    description: 'Issue has children - parent progress is rolled up from them'
+  })
   async updateProgress(
     @Param('projectId', ParseUUIDPipe) projectId: string,
     @Param('id', ParseUUIDPipe) id: string,
@@ -207,58 +278,67 @@ export class IssuesController {
   @Delete(':id')
   @ApiOperation({ 
     summary: 'Soft delete issue',
-    description: 'Move issue to trash (soft delete) with dependency validation'
+    description: 'Move issue and its WBS subtree to trash; dependencies are detached and reattached on restore'
   })
   @ApiResponse({
     status: 204,
     description: 'Issue deleted successfully'
   })
   @ApiResponse({
-    status: 409,
-    description: 'Conflict - Cannot delete issue with dependencies or children'
+    status: 404,
+    description: 'Issue not found'
   })
   @HttpCode(204)
   async remove(
     @Param('projectId', ParseUUIDPipe) projectId: string,
-    @Param('id', ParseUUIDPipe) id: string
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any
   ): Promise<void> {
-    await this.issuesService.remove(projectId, id);
+    await this.issuesService.remove(projectId, id, req?.user?.id || 'system');
   }
 
-  @Patch('bulk')
-  @ApiOperation({ 
-    summary: 'Bulk update multiple issues',
-    description: 'Perform bulk operations on multiple issues atomically'
+  @Post(':id/restore')
+  @HttpCode(200)
+  @ApiOperation({
+    summary: 'Restore issue from trash',
+    description: 'Restore an issue with the descendants archived together with it and reattach its dependencies'
   })
   @ApiResponse({
     status: 200,
-    description: 'Bulk update completed',
-    type: BulkOperationResponseDto
+    description: 'Issue restored successfully',
+    type: RestoreIssueResponseDto
   })
-  async bulkUpdate(
+  @ApiResponse({
+    status: 404,
+    description: 'Issue not found in trash'
+  })
+  async restore(
     @Param('projectId', ParseUUIDPipe) projectId: string,
-    @Body(ValidationPipe) operations: BulkUpdateIssueDto,
-    @Query('atomic') atomic: boolean = false,
+    @Param('id', ParseUUIDPipe) id: string,
     @Request() req: any
-  ): Promise<BulkOperationResponseDto> {
-    return this.issuesService.bulkUpdate(projectId, operations, req?.user?.id || 'system');
+  ): Promise<RestoreIssueResponseDto> {
+    return this.issuesService.restore(projectId, id, req?.user?.id || 'system');
   }
 
-  @Get('tree')
+  @Patch('bulk')
   @ApiOperation({ 
-    summary: 'Get WBS tree structure',
-    description: 'Retrieve hierarchical Work Breakdown Structure for all issues'
+    summary: 'Bulk update multiple issues',
+    description: 'Update status, assignee, labels, milestone and dates for many issues. Every item is version-checked; ' +
+      'with atomic=true any failure rolls back the whole batch, otherwise each item is applied independently'
   })
   @ApiResponse({
     status: 200,
-    description: 'WBS tree retrieved successfully',
-    type: WBSTreeResponseDto
+    description: 'Bulk update completed',
+    type: BulkUpdateResponseDto
   })
-  async getTree(
+  @ApiQuery({ name: 'atomic', required: false, type: Boolean, description: 'All-or-nothing mode (default false)' })
+  async bulkUpdate(
     @Param('projectId', ParseUUIDPipe) projectId: string,
-    @Query(ValidationPipe) query: WBSTreeQueryDto
-  ): Promise<WBSTreeResponseDto> {
-    return this.issuesService.getWBSTree(projectId, query);
+    @Body(ValidationPipe) bulkUpdateDto: BulkUpdateIssueDto,
+    @Query('atomic', new DefaultValuePipe(false), ParseBoolPipe) atomic: boolean,
+    @Request() req: any
+  ): Promise<BulkUpdateResponseDto> {
+    return this.issuesService.bulkUpdate(projectId, bulkUpdateDto, req?.user?.id || 'system', atomic);
   }
 
   @Get('gantt')
@@ -344,6 +424,16 @@ export class IssuesController {
     return `"${version}-${timestamp}"`;
   }
 
+  private parseETagVersion(ifMatch?: string): number | undefined {
+    if (!ifMatch) {
+      return undefined;
+    }
+
+    this.validateETag(ifMatch);
+    const version = parseInt(ifMatch.replace(/"/g, '').split('-')[0], 10);
+    return Number.isNaN(version) ? undefined : version;
+  }
+
   private validateETag(ifMatch?: string): void {
     if (!ifMatch) {
       throw new BadRequestException('If-Match header is required for updates');
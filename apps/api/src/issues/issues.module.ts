@@ -1,16 +1,23 @@
 import { Module } from '@nestjs/common';
 import { IssuesService } from './issues.service';
 import { IssuesController } from './issues.controller';
+import { IssueSeriesService } from './issue-series.service';
+import { IssueSeriesController } from './issue-series.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { ConflictDetectionService } from '../scheduling/services/conflict-detection.service';
+import { CalendarService } from '../scheduling/services/calendar.service';
+import { ResourceCalendarService } from '../scheduling/services/resource-calendar.service';
 import { ETagInterceptor } from '../scheduling/interceptors/etag.interceptor';
 
 @Module({
   imports: [PrismaModule],
-  controllers: [IssuesController],
+  controllers: [IssuesController, IssueSeriesController],
   providers: [
     IssuesService, 
+    IssueSeriesService,
     ConflictDetectionService,
+    CalendarService,
+    ResourceCalendarService,
     ETagInterceptor
   ],
   exports: [IssuesService],
@@ -1,17 +1,23 @@
 import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateIssueDto } from './dto/create-issue.dto';
-import { UpdateIssueDto, BulkUpdateIssueDto } from './dto/update-issue.dto';
+import { UpdateIssueDto, BulkUpdateIssueDto, BulkUpdateIssueItemDto } from './dto/update-issue.dto';
 import { QueryIssueDto } from './dto/query-issue.dto';
-import { PaginatedIssueResponseDto, BulkOperationResponseDto } from './dto/issue-response.dto';
-import { CreateDependencyDto, DependencyResponseDto, DeleteDependencyDto, DependencyType } from './dto/dependency.dto';
+import { PaginatedIssueResponseDto, BulkUpdateResponseDto } from './dto/issue-response.dto';
+import { CreateDependencyDto, DependencyResponseDto, DeleteDependencyDto, DependencyType, LagUnit } from './dto/dependency.dto';
 import {
   ProgressUpdateDto,
   ProgressBulkUpdateDto,
   ProgressResponseDto,
   ProgressBulkResponseDto
 } from './dto/progress.dto';
-import { Issue, User } from '@prisma/client';
+import { WBSTreeQueryDto, WBSTreeResponseDto, WBSNodeDto, WBSNodeStatus } from './dto/wbs-tree.dto';
+import { TrashListResponseDto, RestoreIssueResponseDto, PurgeTrashResponseDto } from './dto/trash.dto';
+import { Dependency, Issue, User, WBSNode, Prisma } from '@prisma/client';
+import { ConfigService } from '@nestjs/config';
+import { ConflictDetectionService } from '../scheduling/services/conflict-detection.service';
+import { ProjectEventsService } from '../events/project-events.service';
 
 // T032: Enhanced interface with dependency support
 export interface IssueWithRelations extends Issue {
@@ -19,19 +25,92 @@ export interface IssueWithRelations extends Issue {
   childIssues?: Issue[];
   assignee?: User | null;
   creator?: User;
-  predecessors?: Array<{ id: string; predecessorId: string; type: string; lag: number; }>;
-  successors?: Array<{ id: string; successorId: string; type: string; lag: number; }>;
+  predecessors?: Array<{ id: string; predecessorId: string; type: string; lag: number; lagUnit: string; }>;
+  successors?: Array<{ id: string; successorId: string; type: string; lag: number; lagUnit: string; }>;
+}
+
+type IssueSortField = 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'title';
+
+type BulkUpdateResult = BulkUpdateResponseDto['results'][number];
+
+// Carries per-item results out of an all-or-nothing transaction that has to roll back
+class BulkUpdateRollback extends Error {
+  constructor(readonly results: BulkUpdateResult[]) {
+    super('Bulk update rolled back');
+  }
+}
+
+export interface WBSOutlineInfo {
+  code: string;
+  level: number;
+  path: string[];
+  childCount: number;
+  estimatedHours: number;
+  spentHours: number;
+  progress: number;
+}
+
+const WBS_OUTLINE_SELECT = {
+  id: true,
+  parentIssueId: true,
+  orderIndex: true,
+  status: true,
+  progress: true,
+  estimateValue: true,
+  estimateUnit: true,
+  spent: true
+} satisfies Prisma.IssueSelect;
+
+type WBSOutlineRow = Prisma.IssueGetPayload<{ select: typeof WBS_OUTLINE_SELECT }>;
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOURS_PER_DAY = 8;
+
+interface IssueCursor {
+  id: string;
+  sortBy: IssueSortField;
+  value: string | number | null;
 }
 
 @Injectable()
 export class IssuesService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private conflictDetectionService: ConflictDetectionService,
+    private configService: ConfigService,
+    private projectEvents: ProjectEventsService
+  ) {}
 
   // Basic CRUD operations
   async create(projectId: string, createIssueDto: CreateIssueDto, userId: string): Promise<IssueWithRelations> {
     await this.validateProjectExists(projectId);
     
-    const issue = await this.prisma.issue.create({
+    const issue = await this.prisma.$transaction(tx => this.insertIssue(tx, projectId, createIssueDto, userId));
+
+    this.projectEvents.publish({
+      projectId,
+      type: 'issue.created',
+      message: `"${issue.title}" was created`,
+      data: { issueId: issue.id, issue: this.toEventSnapshot(issue) },
+      userId
+    });
+
+    // The parent in the response carries the rolled-up dates and progress
+    return issue.parentIssueId ? this.findOne(projectId, issue.id) : issue;
+  }
+
+  /**
+   * Creates an issue with its WBS node and parent roll-ups inside the caller's transaction,
+   * so several can be written all or nothing. Publishing the change is left to the caller.
+   */
+  async insertIssue(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    createIssueDto: CreateIssueDto,
+    userId: string
+  ): Promise<IssueWithRelations> {
+    const created = await tx.issue.create({
       data: {
         projectId,
         title: createIssueDto.title,
@@ -41,15 +120,21 @@ export class IssuesService {
         priority: createIssueDto.priority || 5,
         estimateValue: createIssueDto.estimateValue || 1,
         estimateUnit: createIssueDto.estimateUnit || 'h',
+        ...this.resolveThreePointEstimate(
+          createIssueDto.estimateValue || 1,
+          createIssueDto.optimisticEstimate,
+          createIssueDto.pessimisticEstimate
+        ),
         assigneeId: createIssueDto.assigneeId,
         parentIssueId: createIssueDto.parentIssueId,
         startDate: createIssueDto.startDate ? new Date(createIssueDto.startDate) : null,
         dueDate: createIssueDto.dueDate ? new Date(createIssueDto.dueDate) : null,
+        ...this.resolveDateConstraint(createIssueDto.constraintType, createIssueDto.constraintDate),
         labels: createIssueDto.labels || [],
         progress: createIssueDto.progress || 0,
         spent: 0,
         createdBy: userId,
-        orderIndex: await this.getNextOrderIndex(projectId, createIssueDto.parentIssueId)
+        orderIndex: await this.getNextOrderIndex(projectId, createIssueDto.parentIssueId, tx)
       },
       include: {
         parentIssue: true,
@@ -60,8 +145,12 @@ export class IssuesService {
         successors: true
       }
     });
-
-    return issue;
+    await this.appendWBSNode(tx, projectId, created.id, created.parentIssueId);
+    if (created.parentIssueId) {
+      await this.rollUpSummaryDates(tx, projectId, created.parentIssueId, userId);
+      await this.rollUpProgress(tx, projectId, created.parentIssueId, userId);
+    }
+    return created;
   }
 
   async findOne(projectId: string, id: string): Promise<IssueWithRelations> {
@@ -88,12 +177,46 @@ export class IssuesService {
   async createDependency(projectId: string, createDependencyDto: CreateDependencyDto): Promise<DependencyResponseDto> {
     await this.validateProjectExists(projectId);
 
-    const { predecessorId, successorId, type = DependencyType.FS, lag = 0 } = createDependencyDto;
+    const { dependency, predecessor, successor } = await this.prisma.$transaction(
+      tx => this.insertDependency(tx, projectId, createDependencyDto)
+    );
+    const { predecessorId, successorId, lag, lagUnit } = dependency;
+
+    this.projectEvents.publish({
+      projectId,
+      type: 'dependency.created',
+      message: `"${successor.title}" now depends on "${predecessor.title}"`,
+      data: { dependencyId: dependency.id, predecessorId, successorId, type: dependency.type, lag, lagUnit }
+    });
+
+    return {
+      id: dependency.id,
+      projectId: dependency.projectId,
+      predecessorId: dependency.predecessorId,
+      successorId: dependency.successorId,
+      type: dependency.type as DependencyType,
+      lag: dependency.lag,
+      lagUnit: dependency.lagUnit as LagUnit,
+      createdAt: dependency.createdAt.toISOString(),
+      updatedAt: dependency.updatedAt.toISOString()
+    };
+  }
+
+  /**
+   * Validates and creates a dependency inside the caller's transaction, so it can link issues
+   * created earlier in the same transaction. Publishing the change is left to the caller.
+   */
+  async insertDependency(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    createDependencyDto: CreateDependencyDto
+  ): Promise<{ dependency: Dependency; predecessor: Issue; successor: Issue }> {
+    const { predecessorId, successorId, type = DependencyType.FS, lag = 0, lagUnit = LagUnit.HOURS } = createDependencyDto;
 
     // Validate both issues exist
     const [predecessor, successor] = await Promise.all([
-      this.prisma.issue.findFirst({ where: { id: predecessorId, projectId, deletedAt: null } }),
-      this.prisma.issue.findFirst({ where: { id: successorId, projectId, deletedAt: null } })
+      tx.issue.findFirst({ where: { id: predecessorId, projectId, deletedAt: null } }),
+      tx.issue.findFirst({ where: { id: successorId, projectId, deletedAt: null } })
     ]);
 
     if (!predecessor) throw new NotFoundException(`Predecessor issue not found: ${predecessorId}`);
@@ -101,7 +224,7 @@ export class IssuesService {
     if (predecessorId === successorId) throw new BadRequestException('An issue cannot depend on itself');
 
     // Check for existing dependency
-    const existingDependency = await this.prisma.dependency.findFirst({
+    const existingDependency = await tx.dependency.findFirst({
       where: { projectId, predecessorId, successorId, type: type as string }
     });
 
@@ -110,24 +233,14 @@ export class IssuesService {
     }
 
     // Validate no circular dependency
-    if (await this.wouldCreateCircularDependencyGraph(predecessorId, successorId)) {
+    if (await this.wouldCreateCircularDependencyGraph(predecessorId, successorId, tx)) {
       throw new BadRequestException('Cannot create circular dependency relationship');
     }
 
-    const dependency = await this.prisma.dependency.create({
-      data: { projectId, predecessorId, successorId, type: type as string, lag }
+    const dependency = await tx.dependency.create({
+      data: { projectId, predecessorId, successorId, type: type as string, lag, lagUnit }
     });
-
-    return {
-      id: dependency.id,
-      projectId: dependency.projectId,
-      predecessorId: dependency.predecessorId,
-      successorId: dependency.successorId,
-      type: dependency.type as DependencyType,
-      lag: dependency.lag,
-      createdAt: dependency.createdAt.toISOString(),
-      updatedAt: dependency.updatedAt.toISOString()
-    };
+    return { dependency, predecessor, successor };
   }
 
   async removeDependency(projectId: string, deleteDependencyDto: DeleteDependencyDto): Promise<{ success: boolean; message: string }> {
@@ -142,6 +255,13 @@ export class IssuesService {
 
     await this.prisma.dependency.delete({ where: { id: dependency.id } });
 
+    this.projectEvents.publish({
+      projectId,
+      type: 'dependency.deleted',
+      message: `Dependency removed between "${dependency.predecessor.title}" and "${dependency.successor.title}"`,
+      data: { dependencyId: dependency.id, predecessorId: dependency.predecessorId, successorId: dependency.successorId }
+    });
+
     return {
       success: true,
       message: `Dependency removed between "${dependency.predecessor.title}" and "${dependency.successor.title}"`
@@ -163,30 +283,564 @@ export class IssuesService {
       successorId: dependency.successorId,
       type: dependency.type as DependencyType,
       lag: dependency.lag,
+      lagUnit: dependency.lagUnit as LagUnit,
       createdAt: dependency.createdAt.toISOString(),
       updatedAt: dependency.updatedAt.toISOString()
     }));
   }
 
+  async findAll(projectId: string, queryDto: QueryIssueDto): Promise<PaginatedIssueResponseDto> {
+    await this.validateProjectExists(projectId);
+
+    const limit = queryDto.limit || 50;
+    const sortBy = (queryDto.sortBy || 'updatedAt') as IssueSortField;
+    const sortOrder = queryDto.sortOrder || 'desc';
+    const where = this.buildIssueFilter(projectId, queryDto);
+
+    const cursorWhere = queryDto.cursor
+      ? this.buildCursorCondition(this.decodeCursor(queryDto.cursor, sortBy), sortBy, sortOrder)
+      : undefined;
+
+    // Fetch one extra row to find out whether another page exists
+    const rows = await this.prisma.issue.findMany({
+      where: cursorWhere ? { AND: [where, cursorWhere] } : where,
+      orderBy: [{ [sortBy]: sortOrder }, { id: sortOrder }],
+      take: limit + 1
+    });
+
+    const hasMore = rows.length > limit;
+    const items = hasMore ? rows.slice(0, limit) : rows;
+    const last = items[items.length - 1];
+
+    return {
+      items,
+      // Counting is only worth it on the first page; clients keep the value while paging
+      total: queryDto.cursor ? undefined : await this.prisma.issue.count({ where }),
+      nextCursor: hasMore && last ? this.encodeCursor(last, sortBy) : null,
+      hasMore
+    };
+  }
+
   // Minimal placeholder methods - to be enhanced in future iterations
-  async findAll(projectId: string, queryDto: QueryIssueDto): Promise<any> {
-    return { issues: [], total: 0 };
+
+  async update(
+    projectId: string,
+    id: string,
+    updateIssueDto: UpdateIssueDto,
+    userId: string,
+    ifMatchVersion?: number
+  ): Promise<IssueWithRelations> {
+    const { version, ...fields } = updateIssueDto;
+    const expectedVersion = version ?? ifMatchVersion;
+
+    if (expectedVersion === undefined) {
+      throw new BadRequestException('Issue version is required for updates (send `version` or an If-Match header)');
+    }
+
+    const existing = await this.findOne(projectId, id);
+    if (existing.version !== expectedVersion) {
+      await this.throwVersionConflict(projectId, id, expectedVersion, fields, userId);
+    }
+
+    const data = await this.buildUpdateData(projectId, existing, fields);
+
+    await this.prisma.$transaction(async (tx) => {
+      // Version guard in the WHERE clause closes the race between the check above and the write
+      const { count } = await tx.issue.updateMany({
+        where: { id, projectId, version: expectedVersion, deletedAt: null },
+        data: { ...data, version: { increment: 1 } }
+      });
+
+      if (count === 0) {
+        await this.throwVersionConflict(projectId, id, expectedVersion, fields, userId);
+      }
+
+      const updated = await tx.issue.findUniqueOrThrow({ where: { id } });
+      await this.logIssueActivity(tx, {
+        projectId,
+        issueId: id,
+        action: 'update',
+        actor: userId,
+        before: this.toActivitySnapshot(existing),
+        after: this.toActivitySnapshot(updated),
+        metadata: { previousVersion: expectedVersion, changedFields: Object.keys(data) }
+      });
+
+      await this.rollUpAfterMove(tx, projectId, existing, updated, userId);
+      await this.rollUpProgressAfterChange(tx, projectId, existing, updated, userId);
+      if (updated.parentIssueId !== existing.parentIssueId) {
+        await this.syncWBSNodes(tx, projectId, [existing.parentIssueId, updated.parentIssueId]);
+      }
+    });
+
+    const result = await this.findOne(projectId, id);
+    this.projectEvents.publish({
+      projectId,
+      type: 'issue.updated',
+      message: `"${result.title}" was updated`,
+      data: { issueId: id, issue: this.toEventSnapshot(result), changedFields: Object.keys(data) },
+      userId
+    });
+    return result;
   }
 
-  async update(projectId: string, id: string, updateIssueDto: UpdateIssueDto, userId: string): Promise<IssueWithRelations> {
-    return this.findOne(projectId, id);
+  async remove(projectId: string, id: string, userId: string): Promise<void> {
+    const issue = await this.findOne(projectId, id);
+
+    const subtreeIds = await this.collectSubtreeIds(projectId, id, { deletedAt: null });
+    // One timestamp for the whole subtree; restore uses it to tell what was archived together
+    const deletedAt = new Date();
+
+    await this.prisma.$transaction(async (tx) => {
+      // Detach rather than leave dangling links; the archive entry keeps enough to reattach them on restore
+      const dependencies = await tx.dependency.findMany({
+        where: {
+          projectId,
+          OR: [{ predecessorId: { in: subtreeIds } }, { successorId: { in: subtreeIds } }]
+        }
+      });
+      const archived = await tx.issue.findMany({ where: { id: { in: subtreeIds } } });
+
+      await tx.dependency.deleteMany({ where: { id: { in: dependencies.map(dep => dep.id) } } });
+      await tx.issue.updateMany({
+        where: { id: { in: subtreeIds }, deletedAt: null },
+        data: { deletedAt, version: { increment: 1 } }
+      });
+
+      for (const row of archived) {
+        await this.logIssueActivity(tx, {
+          projectId,
+          issueId: row.id,
+          action: 'archive',
+          actor: userId,
+          before: this.toActivitySnapshot(row),
+          after: { deletedAt: deletedAt.toISOString() },
+          metadata: row.id === id
+            ? {
+                subtreeIds,
+                detachedDependencies: dependencies.map(dep => ({
+                  predecessorId: dep.predecessorId,
+                  successorId: dep.successorId,
+                  type: dep.type,
+                  lag: dep.lag,
+                  lagUnit: dep.lagUnit
+                }))
+              }
+            : { archivedWith: id }
+        });
+      }
+
+      const root = archived.find(row => row.id === id);
+      await this.rollUpSummaryDates(tx, projectId, root?.parentIssueId ?? null, userId);
+      await this.rollUpProgress(tx, projectId, root?.parentIssueId ?? null, userId);
+      await this.syncWBSNodes(tx, projectId, [root?.parentIssueId ?? null], subtreeIds);
+    });
+
+    this.projectEvents.publish({
+      projectId,
+      type: 'issue.deleted',
+      message: `"${issue.title}" was moved to the trash`,
+      data: { issueId: id, subtreeIds },
+      userId
+    });
   }
 
-  async remove(projectId: string, id: string): Promise<{ success: boolean; message: string }> {
-    return { success: true, message: 'Removed' };
+  async restore(projectId: string, id: string, userId: string): Promise<RestoreIssueResponseDto> {
+    const issue = await this.prisma.issue.findFirst({ where: { id, projectId, deletedAt: { not: null } } });
+    if (!issue) {
+      throw new NotFoundException(`Issue not found in trash: ${id}`);
+    }
+
+    // Only descendants archived in the same operation come back; ones deleted separately stay in trash
+    const restoredIds = await this.collectSubtreeIds(projectId, id, { deletedAt: issue.deletedAt });
+
+    const parent = issue.parentIssueId
+      ? await this.prisma.issue.findUnique({ where: { id: issue.parentIssueId }, select: { deletedAt: true } })
+      : null;
+    const movedToRoot = !!parent?.deletedAt;
+    const rootOrderIndex = movedToRoot ? await this.getNextOrderIndex(projectId, null) : undefined;
+
+    const archiveEntry = await this.prisma.activityLog.findFirst({
+      where: { projectId, issueId: id, action: 'archive' },
+      orderBy: { createdAt: 'desc' }
+    });
+    const detached = this.readDetachedDependencies(archiveEntry?.metadata);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      const archived = await tx.issue.findMany({ where: { id: { in: restoredIds } } });
+
+      await tx.issue.updateMany({
+        where: { id: { in: restoredIds } },
+        data: { deletedAt: null, version: { increment: 1 } }
+      });
+      if (movedToRoot) {
+        await tx.issue.update({ where: { id }, data: { parentIssueId: null, orderIndex: rootOrderIndex } });
+      }
+
+      const endpointIds = [...new Set(detached.flatMap(dep => [dep.predecessorId, dep.successorId]))];
+      const liveIds = new Set(
+        (await tx.issue.findMany({
+          where: { id: { in: endpointIds }, projectId, deletedAt: null },
+          select: { id: true }
+        })).map(row => row.id)
+      );
+      const existing = await tx.dependency.findMany({
+        where: { projectId },
+        select: { predecessorId: true, successorId: true, type: true }
+      });
+      const predecessorsOf = new Map<string, string[]>();
+      const addEdge = (predecessorId: string, successorId: string) => {
+        const predecessors = predecessorsOf.get(successorId);
+        if (predecessors) predecessors.push(predecessorId);
+        else predecessorsOf.set(successorId, [predecessorId]);
+      };
+      existing.forEach(dep => addEdge(dep.predecessorId, dep.successorId));
+
+      let restoredDependencies = 0;
+      const skippedDependencies: RestoreIssueResponseDto['skippedDependencies'] = [];
+
+      for (const dep of detached) {
+        let reason: string | null = null;
+        if (!liveIds.has(dep.predecessorId) || !liveIds.has(dep.successorId)) {
+          reason = 'Linked issue is no longer active';
+        } else if (existing.some(e => e.predecessorId === dep.predecessorId && e.successorId === dep.successorId && e.type === dep.type)) {
+          reason = 'Dependency already exists';
+        } else if (this.isTransitivePredecessor(predecessorsOf, dep.predecessorId, dep.successorId)) {
+          reason = 'Would create a circular dependency';
+        }
+
+        if (reason) {
+          skippedDependencies.push({ predecessorId: dep.predecessorId, successorId: dep.successorId, reason });
+          continue;
+        }
+
+        await tx.dependency.create({ data: { projectId, ...dep } });
+        addEdge(dep.predecessorId, dep.successorId);
+        restoredDependencies++;
+      }
+
+      for (const row of archived) {
+        const restored = await tx.issue.findUniqueOrThrow({ where: { id: row.id } });
+        await this.logIssueActivity(tx, {
+          projectId,
+          issueId: row.id,
+          action: 'restore',
+          actor: userId,
+          before: { deletedAt: row.deletedAt?.toISOString() ?? null },
+          after: this.toActivitySnapshot(restored),
+          metadata: row.id === id
+            ? { restoredIds, restoredDependencies, skippedDependencies, movedToRoot }
+            : { restoredWith: id }
+        });
+      }
+
+      if (!movedToRoot) {
+        await this.rollUpSummaryDates(tx, projectId, issue.parentIssueId, userId);
+        await this.rollUpProgress(tx, projectId, issue.parentIssueId, userId);
+      }
+      // restoredIds runs breadth-first, so every parent is laid out before its children
+      await this.syncWBSNodes(tx, projectId, [movedToRoot ? null : issue.parentIssueId, ...restoredIds]);
+
+      return { restoredIds, restoredDependencies, skippedDependencies, movedToRoot };
+    });
+
+    this.projectEvents.publish({
+      projectId,
+      type: 'issue.restored',
+      message: `"${issue.title}" was restored from the trash`,
+      data: { issueId: id, restoredIds, restoredDependencies: result.restoredDependencies },
+      userId
+    });
+    return result;
+  }
+
+  async getTrash(projectId: string): Promise<TrashListResponseDto> {
+    await this.validateProjectExists(projectId);
+
+    const retentionDays = this.getTrashRetentionDays();
+    const trashed = await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: { not: null } },
+      orderBy: [{ deletedAt: 'desc' }, { id: 'asc' }],
+      select: { id: true, title: true, status: true, parentIssueId: true, deletedAt: true }
+    });
+
+    const byId = new Map(trashed.map(issue => [issue.id, issue]));
+    // A parent deleted in the same operation owns the issue; it is listed under that parent's count
+    const batchParentOf = (issue: typeof trashed[number]) => {
+      const parent = issue.parentIssueId ? byId.get(issue.parentIssueId) : undefined;
+      return parent && parent.deletedAt?.getTime() === issue.deletedAt?.getTime() ? parent : undefined;
+    };
+
+    const descendantCounts = new Map<string, number>();
+    for (const issue of trashed) {
+      let top: typeof trashed[number] | undefined;
+      for (let ancestor = batchParentOf(issue); ancestor; ancestor = batchParentOf(ancestor)) {
+        top = ancestor;
+      }
+      if (top) {
+        descendantCounts.set(top.id, (descendantCounts.get(top.id) ?? 0) + 1);
+      }
+    }
+
+    const items = trashed
+      .filter(issue => !batchParentOf(issue))
+      .map(issue => {
+        const deletedAt = issue.deletedAt as Date;
+        return {
+          id: issue.id,
+          title: issue.title,
+          status: issue.status,
+          parentIssueId: issue.parentIssueId,
+          descendantCount: descendantCounts.get(issue.id) ?? 0,
+          deletedAt: deletedAt.toISOString(),
+          purgeAfter: new Date(deletedAt.getTime() + retentionDays * DAY_MS).toISOString()
+        };
+      });
+
+    return { items, retentionDays };
   }
 
-  async bulkUpdate(projectId: string, bulkUpdateDto: BulkUpdateIssueDto, userId: string): Promise<any> {
-    return { success: true };
+  async purgeTrash(projectId: string, userId: string): Promise<PurgeTrashResponseDto> {
+    await this.validateProjectExists(projectId);
+
+    const cutoff = new Date(Date.now() - this.getTrashRetentionDays() * DAY_MS);
+    const expired = await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: { lt: cutoff } }
+    });
+    const purgedIds = expired.map(issue => issue.id);
+    let endedSeriesIds: string[] = [];
+
+    if (purgedIds.length > 0) {
+      await this.prisma.$transaction(async (tx) => {
+        // Logs survive the purge: the issue_id FK is nulled on delete while entityId keeps the reference
+        for (const row of expired) {
+          await this.logIssueActivity(tx, {
+            projectId,
+            issueId: row.id,
+            action: 'delete',
+            actor: userId,
+            before: this.toActivitySnapshot(row),
+            metadata: { purged: true, cutoff: cutoff.toISOString() }
+          });
+        }
+
+        // A series cannot outlive its template; its occurrences stay as ordinary issues
+        const endedSeries = await tx.issueSeries.findMany({ where: { templateIssueId: { in: purgedIds } } });
+        endedSeriesIds = endedSeries.map(series => series.id);
+        if (endedSeriesIds.length > 0) {
+          await tx.issue.updateMany({
+            where: { seriesId: { in: endedSeriesIds } },
+            data: { seriesId: null, recurrenceException: false }
+          });
+          await tx.issueSeries.deleteMany({ where: { id: { in: endedSeriesIds } } });
+          for (const series of endedSeries) {
+            await tx.activityLog.create({
+              data: {
+                projectId,
+                entityType: 'issue_series',
+                entityId: series.id,
+                action: 'delete',
+                actor: userId,
+                metadata: { purgedTemplateIssueId: series.templateIssueId, cutoff: cutoff.toISOString() }
+              }
+            });
+          }
+        }
+
+        await tx.taskScheduleHistory.deleteMany({ where: { taskId: { in: purgedIds } } });
+        await tx.wBSNode.deleteMany({ where: { issueId: { in: purgedIds } } });
+        await tx.dependency.deleteMany({
+          where: { OR: [{ predecessorId: { in: purgedIds } }, { successorId: { in: purgedIds } }] }
+        });
+        await tx.issue.deleteMany({ where: { id: { in: purgedIds } } });
+      });
+    }
+
+    return { purgedCount: purgedIds.length, purgedIds, endedSeriesIds, cutoff: cutoff.toISOString() };
   }
 
-  async getWBSTree(projectId: string, queryDto?: any): Promise<any> {
-    return { tree: [] };
+  async bulkUpdate(
+    projectId: string,
+    bulkUpdateDto: BulkUpdateIssueDto,
+    userId: string,
+    atomic = false
+  ): Promise<BulkUpdateResponseDto> {
+    await this.validateProjectExists(projectId);
+
+    const ids = bulkUpdateDto.items.map(item => item.id);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('Each issue may appear only once in a bulk update');
+    }
+
+    let results: BulkUpdateResult[];
+
+    if (atomic) {
+      try {
+        results = await this.prisma.$transaction(async (tx) => {
+          const itemResults: BulkUpdateResult[] = [];
+          for (const item of bulkUpdateDto.items) {
+            itemResults.push(await this.applyBulkItem(tx, projectId, item, userId));
+          }
+          // Throwing rolls the transaction back; the results travel with the error
+          if (itemResults.some(result => !result.success)) {
+            throw new BulkUpdateRollback(itemResults);
+          }
+          return itemResults;
+        });
+      } catch (error) {
+        if (!(error instanceof BulkUpdateRollback)) throw error;
+        results = error.results.map(result => result.success
+          ? { id: result.id, success: false, error: 'Rolled back because another item failed' }
+          : result
+        );
+      }
+    } else {
+      results = [];
+      for (const item of bulkUpdateDto.items) {
+        results.push(await this.prisma.$transaction(tx => this.applyBulkItem(tx, projectId, item, userId)));
+      }
+    }
+
+    const successCount = results.filter(result => result.success).length;
+    if (successCount > 0) {
+      // One event per batch, carrying every updated row
+      const updated = await this.prisma.issue.findMany({
+        where: { id: { in: results.filter(result => result.success).map(result => result.id) } }
+      });
+      this.projectEvents.publish({
+        projectId,
+        type: 'issue.updated',
+        message: `${successCount} issue${successCount === 1 ? '' : 's'} updated`,
+        data: { issueIds: updated.map(issue => issue.id), issues: updated.map(issue => this.toEventSnapshot(issue)), bulk: true },
+        userId
+      });
+    }
+
+    return {
+      atomic,
+      totalProcessed: results.length,
+      successCount,
+      failureCount: results.length - successCount,
+      results
+    };
+  }
+
+  async getWBSTree(projectId: string, queryDto: WBSTreeQueryDto = {}): Promise<WBSTreeResponseDto> {
+    await this.validateProjectExists(projectId);
+
+    const { expandLevel = 2, maxDepth, includeCompleted = true, parentId } = queryDto;
+
+    // Expanding a node reads just its subtree through the WBS nodes; the first load needs every roll-up
+    const { childrenOf, outlineInfo } = (parentId && await this.loadWBSSubtree(projectId, parentId))
+      || await this.loadWBSOutline(projectId);
+
+    if (parentId && !outlineInfo.has(parentId)) {
+      throw new NotFoundException(`Issue not found: ${parentId}`);
+    }
+
+    // Walk from the requested roots, stopping where the client will expand lazily
+    const scopeRoots = childrenOf.get(parentId ?? null) ?? [];
+    const emitted: Array<{ id: string; depth: number; expanded: boolean }> = [];
+    let totalNodes = 0;
+    let deepestLevel = 0;
+
+    const walk = (rows: WBSOutlineRow[], depth: number, loaded: boolean) => {
+      for (const row of rows) {
+        const info = outlineInfo.get(row.id) as WBSOutlineInfo;
+        totalNodes++;
+        deepestLevel = Math.max(deepestLevel, info.level);
+
+        const included = loaded && (includeCompleted || row.status !== 'done');
+        const children = childrenOf.get(row.id) ?? [];
+        const expanded = included && children.length > 0 && depth < expandLevel
+          && (maxDepth === undefined || info.level < maxDepth);
+
+        if (included) emitted.push({ id: row.id, depth, expanded });
+        walk(children, depth + 1, expanded);
+      }
+    };
+    walk(scopeRoots, 0, true);
+
+    const issues = await this.prisma.issue.findMany({ where: { id: { in: emitted.map(entry => entry.id) } } });
+    const issueById = new Map(issues.map(issue => [issue.id, issue]));
+    const nodeById = new Map<string, WBSNodeDto>();
+    const nodes: WBSNodeDto[] = [];
+
+    // Parents are emitted before their children, so each node can attach itself directly
+    for (const entry of emitted) {
+      const issue = issueById.get(entry.id) as Issue;
+      const info = outlineInfo.get(entry.id) as WBSOutlineInfo;
+      const node: WBSNodeDto = {
+        id: issue.id,
+        title: issue.title,
+        description: issue.description,
+        parentId: issue.parentIssueId ?? undefined,
+        projectId: issue.projectId,
+        assigneeId: issue.assigneeId ?? undefined,
+        status: this.toWBSNodeStatus(issue.status),
+        startDate: issue.startDate?.toISOString(),
+        dueDate: issue.dueDate?.toISOString(),
+        estimatedHours: this.estimateHours(issue.estimateValue, issue.estimateUnit),
+        progress: issue.progress,
+        version: issue.version,
+        level: info.level,
+        order: issue.orderIndex,
+        isExpanded: entry.expanded,
+        children: [],
+        hasChildren: info.childCount > 0,
+        isVisible: true,
+        path: info.path,
+        wbsCode: info.code,
+        childCount: info.childCount,
+        rolledUpEstimatedHours: info.estimatedHours,
+        rolledUpSpentHours: info.spentHours,
+        rolledUpProgress: info.progress
+      };
+      nodeById.set(node.id, node);
+
+      const parentNode = entry.depth > 0 && issue.parentIssueId ? nodeById.get(issue.parentIssueId) : undefined;
+      if (parentNode) {
+        parentNode.children.push(node);
+      } else {
+        nodes.push(node);
+      }
+    }
+
+    return {
+      nodes,
+      totalNodes,
+      maxDepth: deepestLevel,
+      visibleNodes: emitted.length,
+      generatedAt: new Date().toISOString(),
+      parentId: parentId ?? null
+    };
+  }
+
+  /**
+   * Every live issue in WBS outline order with its code, level and roll-ups
+   */
+  async getWBSOutline(projectId: string): Promise<Array<WBSOutlineInfo & { id: string }>> {
+    await this.validateProjectExists(projectId);
+
+    const { childrenOf, outlineInfo } = await this.loadWBSOutline(projectId);
+    const ordered: Array<WBSOutlineInfo & { id: string }> = [];
+    const walk = (rows: WBSOutlineRow[]) => {
+      for (const row of rows) {
+        ordered.push({ id: row.id, ...(outlineInfo.get(row.id) as WBSOutlineInfo) });
+        walk(childrenOf.get(row.id) ?? []);
+      }
+    };
+    walk(childrenOf.get(null) ?? []);
+
+    return ordered;
+  }
+
+  /**
+   * Brings WBSNode rows in line with the issue hierarchy, e.g. after a bulk import
+   */
+  async rebuildWBSNodes(projectId: string): Promise<void> {
+    await this.validateProjectExists(projectId);
+    await this.prisma.$transaction(tx => this.layOutWBSNodes(tx, projectId));
   }
 
   async getGanttData(projectId: string, queryDto?: any): Promise<any> {
@@ -194,14 +848,1000 @@ export class IssuesService {
   }
 
   async updateProgress(projectId: string, issueId: string, progressDto: ProgressUpdateDto, userId: string): Promise<ProgressResponseDto> {
-    return { id: issueId, previousProgress: 0, newProgress: progressDto.progress, statusChanged: false, newStatus: 'todo', spentTotal: 0, updatedAt: new Date().toISOString() };
+    await this.validateProjectExists(projectId);
+    const result = await this.prisma.$transaction(tx => this.applyProgressUpdate(tx, projectId, issueId, progressDto, userId));
+
+    this.projectEvents.publish({
+      projectId,
+      type: 'progress.updated',
+      message: `Progress changed from ${result.previousProgress}% to ${result.newProgress}%`,
+      data: { issueId, previousProgress: result.previousProgress, newProgress: result.newProgress },
+      userId
+    });
+    return result;
   }
 
   async bulkUpdateProgress(projectId: string, bulkProgressDto: ProgressBulkUpdateDto, userId: string): Promise<ProgressBulkResponseDto> {
-    return { totalProcessed: 0, successCount: 0, failureCount: 0, results: [] };
+    await this.validateProjectExists(projectId);
+
+    const results: ProgressBulkResponseDto['results'] = [];
+    // Each item commits on its own so one bad row does not discard the rest of the batch
+    for (const update of bulkProgressDto.updates) {
+      try {
+        const result = await this.prisma.$transaction(tx =>
+          this.applyProgressUpdate(tx, projectId, update.issueId, update, userId)
+        );
+        results.push({
+          id: update.issueId,
+          success: true,
+          previousProgress: result.previousProgress,
+          newProgress: result.newProgress
+        });
+      } catch (error) {
+        results.push({ id: update.issueId, success: false, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const successCount = results.filter(result => result.success).length;
+    if (successCount > 0) {
+      this.projectEvents.publish({
+        projectId,
+        type: 'progress.updated',
+        message: `Progress updated on ${successCount} issue${successCount === 1 ? '' : 's'}`,
+        data: { issueIds: results.filter(result => result.success).map(result => result.id), bulk: true },
+        userId
+      });
+    }
+
+    return {
+      totalProcessed: results.length,
+      successCount,
+      failureCount: results.length - successCount,
+      results
+    };
   }
 
   // Utility methods
+  private async buildUpdateData(
+    projectId: string,
+    existing: Issue,
+    fields: Omit<UpdateIssueDto, 'version'>
+  ): Promise<Prisma.IssueUncheckedUpdateManyInput> {
+    const data: Prisma.IssueUncheckedUpdateManyInput = {};
+
+    if (fields.title !== undefined) data.title = fields.title;
+    if (fields.description !== undefined) data.description = fields.description;
+    if (fields.status !== undefined) {
+      data.status = fields.status;
+      if (fields.status !== existing.status) {
+        data.closedAt = fields.status === 'done' ? new Date() : null;
+      }
+    }
+    if (fields.type !== undefined) data.type = fields.type;
+    if (fields.priority !== undefined) data.priority = fields.priority;
+    if (fields.estimateValue !== undefined) data.estimateValue = fields.estimateValue;
+    if (fields.estimateUnit !== undefined) data.estimateUnit = fields.estimateUnit;
+    if (
+      fields.estimateValue !== undefined ||
+      fields.optimisticEstimate !== undefined ||
+      fields.pessimisticEstimate !== undefined
+    ) {
+      Object.assign(data, this.resolveThreePointEstimate(
+        fields.estimateValue ?? existing.estimateValue,
+        fields.optimisticEstimate !== undefined ? fields.optimisticEstimate : existing.optimisticEstimate,
+        fields.pessimisticEstimate !== undefined ? fields.pessimisticEstimate : existing.pessimisticEstimate
+      ));
+    }
+    if (fields.assigneeId !== undefined) {
+      if (fields.assigneeId && fields.assigneeId !== existing.assigneeId) {
+        const assignee = await this.prisma.user.findUnique({ where: { id: fields.assigneeId }, select: { id: true } });
+        if (!assignee) throw new BadRequestException(`Assignee not found: ${fields.assigneeId}`);
+      }
+      data.assigneeId = fields.assigneeId || null;
+    }
+    if (fields.milestoneId !== undefined) {
+      if (fields.milestoneId && fields.milestoneId !== existing.milestoneId) {
+        const milestone = await this.prisma.milestone.findFirst({ where: { id: fields.milestoneId, projectId }, select: { id: true } });
+        if (!milestone) throw new BadRequestException(`Milestone not found in project: ${fields.milestoneId}`);
+      }
+      data.milestoneId = fields.milestoneId || null;
+    }
+    if (fields.startDate !== undefined) data.startDate = fields.startDate ? new Date(fields.startDate) : null;
+    if (fields.dueDate !== undefined) data.dueDate = fields.dueDate ? new Date(fields.dueDate) : null;
+    if (
+      (data.startDate !== undefined && !this.sameDate(data.startDate as Date | null, existing.startDate)) ||
+      (data.dueDate !== undefined && !this.sameDate(data.dueDate as Date | null, existing.dueDate))
+    ) {
+      const childCount = await this.prisma.issue.count({ where: { parentIssueId: existing.id, deletedAt: null } });
+      if (childCount > 0) {
+        throw new BadRequestException('Cannot move parent tasks on their own; their dates are rolled up from child issues');
+      }
+    }
+    if (fields.progress !== undefined && fields.progress !== existing.progress) {
+      const childCount = await this.prisma.issue.count({ where: { parentIssueId: existing.id, deletedAt: null } });
+      if (childCount > 0) {
+        throw new BadRequestException('Cannot update progress on parent tasks; it is rolled up from child issues');
+      }
+      data.progress = fields.progress;
+    }
+    if (fields.labels !== undefined) data.labels = fields.labels;
+    if (fields.constraintType !== undefined || fields.constraintDate !== undefined) {
+      Object.assign(data, this.resolveDateConstraint(
+        fields.constraintType !== undefined ? fields.constraintType : existing.constraintType,
+        fields.constraintDate !== undefined ? fields.constraintDate : existing.constraintDate
+      ));
+    }
+
+    const startDate = data.startDate !== undefined ? data.startDate as Date | null : existing.startDate;
+    const dueDate = data.dueDate !== undefined ? data.dueDate as Date | null : existing.dueDate;
+    if (startDate && dueDate && startDate > dueDate) {
+      throw new BadRequestException('Start date must be on or before due date');
+    }
+
+    const parentIssueId = fields.parentIssueId === undefined ? undefined : fields.parentIssueId || null;
+    if (parentIssueId !== undefined && parentIssueId !== existing.parentIssueId) {
+      await this.validateParentChange(projectId, existing.id, parentIssueId);
+      data.parentIssueId = parentIssueId;
+      data.orderIndex = await this.getNextOrderIndex(projectId, parentIssueId);
+    }
+
+    // An occurrence edited on its own is detached from later changes to its series
+    if (existing.seriesId && Object.keys(data).length > 0) {
+      data.recurrenceException = true;
+    }
+
+    return data;
+  }
+
+  /**
+   * Optimistic and pessimistic estimates must bracket the most likely estimate
+   */
+  private resolveThreePointEstimate(
+    mostLikely: number,
+    optimistic: number | null | undefined,
+    pessimistic: number | null | undefined
+  ): { optimisticEstimate: number | null; pessimisticEstimate: number | null } {
+    const low = optimistic ?? null;
+    const high = pessimistic ?? null;
+
+    if (low !== null && low > mostLikely) {
+      throw new BadRequestException('Optimistic estimate must not exceed the most likely estimate');
+    }
+    if (high !== null && high < mostLikely) {
+      throw new BadRequestException('Pessimistic estimate must not be below the most likely estimate');
+    }
+
+    return { optimisticEstimate: low, pessimisticEstimate: high };
+  }
+
+  /**
+   * Every constraint type except ALAP is pinned to a date; clearing the type clears the date
+   */
+  private resolveDateConstraint(
+    type: string | null | undefined,
+    date: string | Date | null | undefined
+  ): { constraintType: string | null; constraintDate: Date | null } {
+    if (!type) {
+      return { constraintType: null, constraintDate: null };
+    }
+    if (type === 'ALAP') {
+      return { constraintType: type, constraintDate: null };
+    }
+    if (!date) {
+      throw new BadRequestException(`Constraint ${type} requires a constraint date`);
+    }
+
+    return { constraintType: type, constraintDate: new Date(date) };
+  }
+
+  private async applyBulkItem(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    item: BulkUpdateIssueItemDto,
+    userId: string
+  ): Promise<BulkUpdateResult> {
+    const existing = await tx.issue.findFirst({ where: { id: item.id, projectId, deletedAt: null } });
+    if (!existing) {
+      return { id: item.id, success: false, error: `Issue not found: ${item.id}` };
+    }
+    if (existing.version !== item.version) {
+      return this.bulkConflictResult(item, existing.version);
+    }
+
+    let data: Prisma.IssueUncheckedUpdateManyInput;
+    try {
+      data = await this.buildUpdateData(projectId, existing, item.fields);
+    } catch (error) {
+      return { id: item.id, success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const { count } = await tx.issue.updateMany({
+      where: { id: item.id, projectId, version: item.version, deletedAt: null },
+      data: { ...data, version: { increment: 1 } }
+    });
+    if (count === 0) {
+      const current = await tx.issue.findUnique({ where: { id: item.id }, select: { version: true } });
+      return this.bulkConflictResult(item, current?.version);
+    }
+
+    const updated = await tx.issue.findUniqueOrThrow({ where: { id: item.id } });
+    await this.logIssueActivity(tx, {
+      projectId,
+      issueId: item.id,
+      action: 'update',
+      actor: userId,
+      before: this.toActivitySnapshot(existing),
+      after: this.toActivitySnapshot(updated),
+      metadata: { previousVersion: item.version, changedFields: Object.keys(data), bulk: true }
+    });
+    await this.rollUpAfterMove(tx, projectId, existing, updated, userId);
+    await this.rollUpProgressAfterChange(tx, projectId, existing, updated, userId);
+    if (updated.parentIssueId !== existing.parentIssueId) {
+      await this.syncWBSNodes(tx, projectId, [existing.parentIssueId, updated.parentIssueId]);
+    }
+
+    return { id: item.id, success: true, previousVersion: item.version, newVersion: updated.version };
+  }
+
+  private bulkConflictResult(item: BulkUpdateIssueItemDto, currentVersion?: number): BulkUpdateResult {
+    return {
+      id: item.id,
+      success: false,
+      conflict: true,
+      error: `Issue was modified by another user (expected version ${item.version}, current ${currentVersion ?? 'unknown'})`,
+      currentVersion
+    };
+  }
+
+  private async applyProgressUpdate(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    issueId: string,
+    progressDto: ProgressUpdateDto,
+    userId: string
+  ): Promise<ProgressResponseDto> {
+    const existing = await tx.issue.findFirst({ where: { id: issueId, projectId, deletedAt: null } });
+    if (!existing) {
+      throw new NotFoundException(`Issue not found: ${issueId}`);
+    }
+
+    const childCount = await tx.issue.count({ where: { parentIssueId: issueId, deletedAt: null } });
+    if (childCount > 0) {
+      throw new BadRequestException('Cannot update progress on parent tasks; it is rolled up from child issues');
+    }
+
+    const progress = Math.round(progressDto.progress);
+    const status = this.deriveProgressStatus(existing.status, progress);
+    const updated = await tx.issue.update({
+      where: { id: issueId },
+      data: {
+        progress,
+        status,
+        ...(status !== existing.status && { closedAt: status === 'done' ? new Date() : null }),
+        spent: { increment: Math.round(progressDto.spentHours ?? 0) },
+        version: { increment: 1 }
+      }
+    });
+
+    await this.logIssueActivity(tx, {
+      projectId,
+      issueId,
+      action: 'progress',
+      actor: userId,
+      before: { progress: existing.progress, status: existing.status, spent: existing.spent },
+      after: { progress: updated.progress, status: updated.status, spent: updated.spent },
+      metadata: { spentHours: progressDto.spentHours ?? 0, notes: progressDto.notes ?? null }
+    });
+
+    await this.rollUpProgress(tx, projectId, existing.parentIssueId, userId);
+
+    return {
+      id: issueId,
+      previousProgress: existing.progress,
+      newProgress: updated.progress,
+      statusChanged: updated.status !== existing.status,
+      newStatus: updated.status,
+      spentTotal: updated.spent,
+      updatedAt: updated.updatedAt.toISOString()
+    };
+  }
+
+  private deriveProgressStatus(currentStatus: string, progress: number): string {
+    if (progress >= 100) return 'done';
+    if (progress <= 0) return 'todo';
+    // Blocked and review are set by hand and already imply that work has started
+    return currentStatus === 'blocked' || currentStatus === 'review' ? currentStatus : 'doing';
+  }
+
+  /**
+   * Parent progress is the estimate-weighted progress of its children. Walks up
+   * until an ancestor's progress no longer changes.
+   */
+  async rollUpProgress(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    parentIssueId: string | null,
+    userId: string
+  ): Promise<void> {
+    let currentId = parentIssueId;
+
+    while (currentId) {
+      const parent = await tx.issue.findFirst({ where: { id: currentId, projectId, deletedAt: null } });
+      if (!parent) return;
+
+      const children = await tx.issue.findMany({
+        where: { parentIssueId: currentId, deletedAt: null },
+        select: { progress: true, estimateValue: true, estimateUnit: true }
+      });
+      // A parent whose last child left keeps its progress and is edited directly again
+      if (children.length === 0) return;
+
+      const progress = this.weightedProgress(
+        children.map(child => ({ progress: child.progress, hours: this.estimateHours(child.estimateValue, child.estimateUnit) }))
+      );
+      // Ancestors only depend on this level, so an unchanged value ends the walk
+      if (progress === parent.progress) return;
+
+      const status = this.deriveProgressStatus(parent.status, progress);
+      await tx.issue.update({
+        where: { id: parent.id },
+        data: {
+          progress,
+          status,
+          ...(status !== parent.status && { closedAt: status === 'done' ? new Date() : null }),
+          version: { increment: 1 }
+        }
+      });
+      await this.logIssueActivity(tx, {
+        projectId,
+        issueId: parent.id,
+        action: 'progress',
+        actor: userId,
+        before: { progress: parent.progress, status: parent.status },
+        after: { progress, status },
+        metadata: { rolledUp: true }
+      });
+
+      currentId = parent.parentIssueId;
+    }
+  }
+
+  private weightedProgress(children: Array<{ progress: number; hours: number }>): number {
+    if (children.length === 0) return 0;
+
+    const totalHours = children.reduce((sum, child) => sum + child.hours, 0);
+
+    // Without estimates every child counts the same
+    if (totalHours === 0) {
+      return Math.round(children.reduce((sum, child) => sum + child.progress, 0) / children.length);
+    }
+    return Math.round(children.reduce((sum, child) => sum + child.progress * child.hours, 0) / totalHours);
+  }
+
+  /**
+   * Parent issues span their children: the earliest child start to the latest
+   * child due date. Walks up until an ancestor's dates no longer change.
+   */
+  async rollUpSummaryDates(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    parentIssueId: string | null,
+    userId: string
+  ): Promise<void> {
+    let currentId = parentIssueId;
+
+    while (currentId) {
+      const parent = await tx.issue.findFirst({ where: { id: currentId, projectId, deletedAt: null } });
+      if (!parent) return;
+
+      const children = await tx.issue.findMany({
+        where: { parentIssueId: currentId, deletedAt: null },
+        select: { startDate: true, dueDate: true }
+      });
+      const starts = children.map(child => child.startDate).filter((date): date is Date => !!date);
+      const dues = children.map(child => child.dueDate).filter((date): date is Date => !!date);
+      // Undated children leave the parent's dates alone
+      if (starts.length === 0 && dues.length === 0) return;
+
+      const startDate = starts.length > 0 ? new Date(Math.min(...starts.map(date => date.getTime()))) : parent.startDate;
+      const dueDate = dues.length > 0 ? new Date(Math.max(...dues.map(date => date.getTime()))) : parent.dueDate;
+      if (this.sameDate(startDate, parent.startDate) && this.sameDate(dueDate, parent.dueDate)) return;
+
+      await tx.issue.update({
+        where: { id: parent.id },
+        data: { startDate, dueDate, version: { increment: 1 } }
+      });
+      await this.logIssueActivity(tx, {
+        projectId,
+        issueId: parent.id,
+        action: 'update',
+        actor: userId,
+        before: { startDate: parent.startDate?.toISOString() ?? null, dueDate: parent.dueDate?.toISOString() ?? null },
+        after: { startDate: startDate?.toISOString() ?? null, dueDate: dueDate?.toISOString() ?? null },
+        metadata: { rolledUp: true }
+      });
+
+      currentId = parent.parentIssueId;
+    }
+  }
+
+  // Re-derive the old and new parents' dates when a child moved in time or in the tree
+  private async rollUpAfterMove(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    before: Issue,
+    after: Issue,
+    userId: string
+  ): Promise<void> {
+    const moved = !this.sameDate(before.startDate, after.startDate) || !this.sameDate(before.dueDate, after.dueDate);
+
+    if (after.parentIssueId !== before.parentIssueId) {
+      await this.rollUpSummaryDates(tx, projectId, before.parentIssueId, userId);
+      await this.rollUpSummaryDates(tx, projectId, after.parentIssueId, userId);
+    } else if (moved) {
+      await this.rollUpSummaryDates(tx, projectId, after.parentIssueId, userId);
+    }
+  }
+
+  // Re-derive the old and new parents' progress when a child's progress, weight or place in the tree changed
+  private async rollUpProgressAfterChange(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    before: Issue,
+    after: Issue,
+    userId: string
+  ): Promise<void> {
+    const reweighted = before.progress !== after.progress
+      || this.estimateHours(before.estimateValue, before.estimateUnit) !== this.estimateHours(after.estimateValue, after.estimateUnit);
+
+    if (after.parentIssueId !== before.parentIssueId) {
+      await this.rollUpProgress(tx, projectId, before.parentIssueId, userId);
+      await this.rollUpProgress(tx, projectId, after.parentIssueId, userId);
+    } else if (reweighted) {
+      await this.rollUpProgress(tx, projectId, after.parentIssueId, userId);
+    }
+  }
+
+  private sameDate(a: Date | null, b: Date | null): boolean {
+    return (a?.getTime() ?? null) === (b?.getTime() ?? null);
+  }
+
+  private async loadWBSOutline(projectId: string, client: Prisma.TransactionClient = this.prisma): Promise<{
+    childrenOf: Map<string | null, WBSOutlineRow[]>;
+    outlineInfo: Map<string, WBSOutlineInfo>;
+  }> {
+    // The whole hierarchy is read as a narrow projection so codes and roll-ups are exact;
+    // full rows are loaded only for the nodes that end up in the response
+    const outline = await client.issue.findMany({
+      where: { projectId, deletedAt: null },
+      orderBy: [{ orderIndex: 'asc' }, { id: 'asc' }],
+      select: WBS_OUTLINE_SELECT
+    });
+
+    const liveIds = new Set(outline.map(row => row.id));
+    const childrenOf = new Map<string | null, WBSOutlineRow[]>();
+    for (const row of outline) {
+      const key = row.parentIssueId && liveIds.has(row.parentIssueId) ? row.parentIssueId : null;
+      const siblings = childrenOf.get(key);
+      if (siblings) siblings.push(row);
+      else childrenOf.set(key, [row]);
+    }
+
+    return { childrenOf, outlineInfo: this.buildWBSOutline(childrenOf) };
+  }
+
+  /**
+   * Outline of one issue and its descendants, found by walking the WBSNode rows instead of the
+   * whole project. The issue's code comes from its ancestors' sort slots. Returns null when the
+   * nodes are missing or out of step, so the caller falls back to the full outline.
+   */
+  private async loadWBSSubtree(projectId: string, issueId: string): Promise<{
+    childrenOf: Map<string | null, WBSOutlineRow[]>;
+    outlineInfo: Map<string, WBSOutlineInfo>;
+  } | null> {
+    const topNode = await this.prisma.wBSNode.findFirst({ where: { projectId, issueId } });
+    if (!topNode) return null;
+
+    const ancestors: WBSNode[] = [];
+    for (let parent = topNode.parent; parent;) {
+      const node = await this.prisma.wBSNode.findUnique({ where: { id: parent } });
+      if (!node) return null;
+      ancestors.unshift(node);
+      parent = node.parent;
+    }
+
+    const descendants: WBSNode[] = [];
+    for (let frontier = [topNode.id]; frontier.length > 0;) {
+      const level = await this.prisma.wBSNode.findMany({ where: { projectId, parent: { in: frontier } } });
+      descendants.push(...level);
+      frontier = level.map(node => node.id);
+    }
+
+    const rows = await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: null, id: { in: [issueId, ...descendants.map(node => node.issueId)] } },
+      select: WBS_OUTLINE_SELECT
+    });
+    const rowById = new Map(rows.map(row => [row.id, row]));
+    if (rows.length !== descendants.length + 1) return null;
+
+    const issueIdByNode = new Map([topNode, ...descendants].map(node => [node.id, node.issueId]));
+    const childrenOf = new Map<string | null, WBSOutlineRow[]>();
+    for (const node of descendants.sort((a, b) => a.sortIndex - b.sortIndex)) {
+      const key = issueIdByNode.get(node.parent as string) as string;
+      const row = rowById.get(node.issueId) as WBSOutlineRow;
+      const siblings = childrenOf.get(key);
+      if (siblings) siblings.push(row);
+      else childrenOf.set(key, [row]);
+    }
+
+    const outlineInfo = this.buildWBSOutline(childrenOf, {
+      row: rowById.get(issueId) as WBSOutlineRow,
+      code: [...ancestors, topNode].map(node => node.sortIndex + 1).join('.'),
+      path: ancestors.map(node => node.issueId)
+    });
+    return { childrenOf, outlineInfo };
+  }
+
+  private buildWBSOutline(
+    childrenOf: Map<string | null, Array<Pick<Issue, 'id' | 'progress' | 'estimateValue' | 'estimateUnit' | 'spent'>>>,
+    top?: { row: Pick<Issue, 'id' | 'progress' | 'estimateValue' | 'estimateUnit' | 'spent'>; code: string; path: string[] }
+  ): Map<string, WBSOutlineInfo> {
+    const outlineInfo = new Map<string, WBSOutlineInfo>();
+
+    const visit = (row: Pick<Issue, 'id' | 'progress' | 'estimateValue' | 'estimateUnit' | 'spent'>, code: string, path: string[]) => {
+      const children = childrenOf.get(row.id) ?? [];
+      children.forEach((child, index) => visit(child, `${code}.${index + 1}`, [...path, row.id]));
+
+      const childInfo = children.map(child => outlineInfo.get(child.id) as WBSOutlineInfo);
+      const estimatedHours = children.length > 0
+        ? childInfo.reduce((sum, info) => sum + info.estimatedHours, 0)
+        : this.estimateHours(row.estimateValue, row.estimateUnit);
+
+      outlineInfo.set(row.id, {
+        code,
+        level: path.length,
+        path,
+        childCount: children.length,
+        estimatedHours,
+        spentHours: row.spent + childInfo.reduce((sum, info) => sum + info.spentHours, 0),
+        progress: children.length > 0
+          ? this.weightedProgress(childInfo.map(info => ({ progress: info.progress, hours: info.estimatedHours })))
+          : row.progress
+      });
+    };
+
+    if (top) {
+      visit(top.row, top.code, top.path);
+    } else {
+      (childrenOf.get(null) ?? []).forEach((root, index) => visit(root, `${index + 1}`, []));
+    }
+    return outlineInfo;
+  }
+
+  /**
+   * Re-lays the WBSNode rows under the given parents to match the issue hierarchy. Runs inside
+   * the transaction that added, moved or removed their children, so tree reads never write.
+   */
+  async syncWBSNodes(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    parentIssueIds: Array<string | null>,
+    removedIssueIds: string[] = []
+  ): Promise<void> {
+    await this.lockWBSNodes(tx, projectId);
+    if (removedIssueIds.length > 0) {
+      await tx.wBSNode.deleteMany({ where: { projectId, issueId: { in: removedIssueIds } } });
+    }
+
+    // Parents are laid out in the order given, so list an ancestor before its descendants
+    for (const parentIssueId of new Set(parentIssueIds)) {
+      const parentNode = parentIssueId
+        ? await tx.wBSNode.findUnique({ where: { issueId: parentIssueId } })
+        : null;
+      if (parentIssueId && !parentNode) {
+        await this.layOutWBSNodes(tx, projectId);
+        return;
+      }
+
+      const children = await tx.issue.findMany({
+        where: { projectId, parentIssueId, deletedAt: null },
+        orderBy: [{ orderIndex: 'asc' }, { id: 'asc' }],
+        select: { id: true }
+      });
+      const existing = await tx.wBSNode.findMany({
+        where: {
+          projectId,
+          OR: [{ parent: parentNode?.id ?? null }, { issueId: { in: children.map(child => child.id) } }]
+        }
+      });
+      const nodeByIssue = new Map(existing.map(node => [node.issueId, node]));
+      const childIds = new Set(children.map(child => child.id));
+
+      await this.writeWBSNodes(tx, projectId, {
+        targets: children.map((child, sortIndex) => ({
+          id: nodeByIssue.get(child.id)?.id ?? randomUUID(),
+          issueId: child.id,
+          parent: parentNode?.id ?? null,
+          sortIndex
+        })),
+        existing: nodeByIssue,
+        // Children that moved elsewhere are re-placed when their new parent is laid out
+        departed: existing.filter(node => !childIds.has(node.issueId) && node.parent !== null).map(node => node.id)
+      });
+    }
+  }
+
+  // Appending is the common case: the new issue takes the slot after its last sibling
+  private async appendWBSNode(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    issueId: string,
+    parentIssueId: string | null
+  ): Promise<void> {
+    await this.lockWBSNodes(tx, projectId);
+    const parentNode = parentIssueId ? await tx.wBSNode.findUnique({ where: { issueId: parentIssueId } }) : null;
+    if (parentIssueId && !parentNode) {
+      await this.layOutWBSNodes(tx, projectId);
+      return;
+    }
+
+    const last = await tx.wBSNode.aggregate({
+      where: { projectId, parent: parentNode?.id ?? null },
+      _max: { sortIndex: true }
+    });
+    await tx.wBSNode.create({
+      data: { issueId, projectId, parent: parentNode?.id ?? null, sortIndex: (last._max.sortIndex ?? -1) + 1 }
+    });
+  }
+
+  // Full pass for projects whose nodes have gaps, e.g. ones created before nodes were kept in step
+  private async layOutWBSNodes(tx: Prisma.TransactionClient, projectId: string): Promise<void> {
+    await this.lockWBSNodes(tx, projectId);
+    const { childrenOf } = await this.loadWBSOutline(projectId, tx);
+    const existing = await tx.wBSNode.findMany({ where: { projectId } });
+    const nodeByIssue = new Map(existing.map(node => [node.issueId, node]));
+    const nodeIdByIssue = new Map(existing.map(node => [node.issueId, node.id]));
+
+    const desired: Array<{ issueId: string; parentIssueId: string | null; sortIndex: number }> = [];
+    for (const [parentIssueId, rows] of childrenOf) {
+      rows.forEach((row, sortIndex) => {
+        desired.push({ issueId: row.id, parentIssueId, sortIndex });
+        if (!nodeIdByIssue.has(row.id)) nodeIdByIssue.set(row.id, randomUUID());
+      });
+    }
+
+    const liveIssueIds = new Set(desired.map(entry => entry.issueId));
+    await tx.wBSNode.deleteMany({
+      where: { id: { in: existing.filter(node => !liveIssueIds.has(node.issueId)).map(node => node.id) } }
+    });
+    await this.writeWBSNodes(tx, projectId, {
+      targets: desired.map(entry => ({
+        id: nodeIdByIssue.get(entry.issueId) as string,
+        issueId: entry.issueId,
+        parent: entry.parentIssueId ? nodeIdByIssue.get(entry.parentIssueId) as string : null,
+        sortIndex: entry.sortIndex
+      })),
+      existing: nodeByIssue,
+      departed: []
+    });
+  }
+
+  // Only rows that drifted from the target layout are written
+  private async writeWBSNodes(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    layout: {
+      targets: Array<{ id: string; issueId: string; parent: string | null; sortIndex: number }>;
+      existing: Map<string, WBSNode>;
+      departed: string[];
+    }
+  ): Promise<void> {
+    const missing = layout.targets.filter(target => !layout.existing.has(target.issueId));
+    const stale = layout.targets.filter(target => {
+      const node = layout.existing.get(target.issueId);
+      return node && (node.parent !== target.parent || node.sortIndex !== target.sortIndex);
+    });
+    const parked = [...layout.departed, ...stale.map(target => target.id)];
+
+    // Parking rows at the root first frees their (parent, sortIndex) slots; root rows never clash
+    if (parked.length > 0) {
+      await tx.wBSNode.updateMany({ where: { id: { in: parked } }, data: { parent: null } });
+    }
+    if (missing.length > 0) {
+      await tx.wBSNode.createMany({ data: missing.map(target => ({ ...target, projectId })) });
+    }
+    for (const target of stale) {
+      await tx.wBSNode.update({ where: { id: target.id }, data: { parent: target.parent, sortIndex: target.sortIndex } });
+    }
+  }
+
+  // Writers of one project take turns so two of them never lay out the same siblings at once
+  private async lockWBSNodes(tx: Prisma.TransactionClient, projectId: string): Promise<void> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${projectId}))`;
+  }
+
+  private toWBSNodeStatus(status: string): WBSNodeStatus {
+    switch (status) {
+      case 'todo':
+        return WBSNodeStatus.TODO;
+      case 'done':
+        return WBSNodeStatus.DONE;
+      default:
+        return WBSNodeStatus.IN_PROGRESS;
+    }
+  }
+
+  private estimateHours(estimateValue: number, estimateUnit: string): number {
+    return estimateUnit === 'd' ? estimateValue * HOURS_PER_DAY : estimateValue;
+  }
+
+  private async validateParentChange(projectId: string, issueId: string, parentIssueId: string | null): Promise<void> {
+    if (!parentIssueId) return;
+    if (parentIssueId === issueId) {
+      throw new BadRequestException('An issue cannot be its own parent');
+    }
+
+    const parent = await this.prisma.issue.findFirst({
+      where: { id: parentIssueId, projectId, deletedAt: null },
+      select: { id: true }
+    });
+    if (!parent) {
+      throw new NotFoundException(`Parent issue not found: ${parentIssueId}`);
+    }
+
+    // Walk up from the new parent; meeting the issue itself means the move would create a cycle
+    let currentId: string | null = parentIssueId;
+    while (currentId) {
+      if (currentId === issueId) {
+        throw new BadRequestException('Cannot move an issue under one of its own descendants');
+      }
+      const ancestor: { parentIssueId: string | null } | null = await this.prisma.issue.findUnique({
+        where: { id: currentId },
+        select: { parentIssueId: true }
+      });
+      currentId = ancestor?.parentIssueId ?? null;
+    }
+  }
+
+  private async throwVersionConflict(
+    projectId: string,
+    id: string,
+    attemptedVersion: number,
+    attemptedData: Record<string, unknown>,
+    userId: string
+  ): Promise<never> {
+    const conflict = await this.conflictDetectionService.detectOptimisticConflict(
+      'issue',
+      id,
+      attemptedVersion,
+      attemptedData,
+      { userId, timestamp: new Date(), operation: 'update', entityType: 'issue', entityId: id, projectId }
+    );
+
+    // The row can change again between the failed write and the re-read; still report a conflict
+    throw new ConflictException({
+      statusCode: 409,
+      error: 'Conflict',
+      type: 'optimistic_lock',
+      message: conflict?.description ?? `Issue ${id} was modified by another user`,
+      conflictId: conflict?.id,
+      localVersion: attemptedVersion,
+      remoteVersion: conflict?.currentVersion,
+      conflictingFields: conflict?.conflictFields ?? [],
+      suggestedResolution: conflict?.suggestedResolution.join('; '),
+      currentData: conflict?.currentData ?? null
+    });
+  }
+
+  private async logIssueActivity(
+    tx: Prisma.TransactionClient,
+    entry: {
+      projectId: string;
+      issueId: string;
+      action: string;
+      actor: string;
+      before?: Prisma.InputJsonValue;
+      after?: Prisma.InputJsonValue;
+      metadata?: Prisma.InputJsonValue;
+    }
+  ): Promise<void> {
+    await tx.activityLog.create({
+      data: {
+        projectId: entry.projectId,
+        entityType: 'issue',
+        entityId: entry.issueId,
+        issueId: entry.issueId,
+        action: entry.action,
+        actor: entry.actor,
+        before: entry.before,
+        after: entry.after,
+        metadata: entry.metadata
+      }
+    });
+  }
+
+  // Enough for other viewers to redraw the bar without refetching the chart
+  private toEventSnapshot(issue: Issue) {
+    return {
+      id: issue.id,
+      title: issue.title,
+      status: issue.status,
+      parentIssueId: issue.parentIssueId,
+      assigneeId: issue.assigneeId,
+      startDate: issue.startDate?.toISOString() ?? null,
+      dueDate: issue.dueDate?.toISOString() ?? null,
+      progress: issue.progress,
+      version: issue.version
+    };
+  }
+
+  private toActivitySnapshot(issue: Issue): Prisma.InputJsonObject {
+    return {
+      title: issue.title,
+      description: issue.description,
+      status: issue.status,
+      type: issue.type,
+      priority: issue.priority,
+      estimateValue: issue.estimateValue,
+      estimateUnit: issue.estimateUnit,
+      optimisticEstimate: issue.optimisticEstimate,
+      pessimisticEstimate: issue.pessimisticEstimate,
+      spent: issue.spent,
+      assigneeId: issue.assigneeId,
+      parentIssueId: issue.parentIssueId,
+      orderIndex: issue.orderIndex,
+      startDate: issue.startDate?.toISOString() ?? null,
+      dueDate: issue.dueDate?.toISOString() ?? null,
+      constraintType: issue.constraintType,
+      constraintDate: issue.constraintDate?.toISOString() ?? null,
+      progress: issue.progress,
+      labels: issue.labels,
+      milestoneId: issue.milestoneId,
+      seriesId: issue.seriesId,
+      closedAt: issue.closedAt?.toISOString() ?? null,
+      deletedAt: issue.deletedAt?.toISOString() ?? null,
+      version: issue.version
+    };
+  }
+
+  /**
+   * Issue list criteria as a Prisma filter; exports reuse it so files match the list
+   */
+  buildIssueFilter(projectId: string, queryDto: QueryIssueDto): Prisma.IssueWhereInput {
+    const where: Prisma.IssueWhereInput = { projectId };
+
+    if (!queryDto.includeDeleted) where.deletedAt = null;
+    if (queryDto.assigneeId) where.assigneeId = queryDto.assigneeId;
+    if (queryDto.status) where.status = queryDto.status;
+    if (queryDto.type) where.type = queryDto.type;
+    if (queryDto.label) where.labels = { has: queryDto.label };
+
+    if (queryDto.priorityMin !== undefined || queryDto.priorityMax !== undefined) {
+      where.priority = {
+        ...(queryDto.priorityMin !== undefined && { gte: queryDto.priorityMin }),
+        ...(queryDto.priorityMax !== undefined && { lte: queryDto.priorityMax })
+      };
+    }
+
+    if (queryDto.startDateFrom) where.startDate = { gte: new Date(queryDto.startDateFrom) };
+    if (queryDto.dueDateTo) where.dueDate = { lte: new Date(queryDto.dueDateTo) };
+
+    if (queryDto.search) {
+      where.OR = [
+        { title: { contains: queryDto.search, mode: 'insensitive' } },
+        { description: { contains: queryDto.search, mode: 'insensitive' } }
+      ];
+    }
+
+    return where;
+  }
+
+  private encodeCursor(issue: Issue, sortBy: IssueSortField): string {
+    const value = issue[sortBy];
+    const payload: IssueCursor = {
+      id: issue.id,
+      sortBy,
+      value: value instanceof Date ? value.toISOString() : value
+    };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string, sortBy: IssueSortField): IssueCursor {
+    let payload: IssueCursor;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    if (!payload || typeof payload.id !== 'string' || payload.sortBy !== sortBy) {
+      throw new BadRequestException('Pagination cursor does not match the requested sort order');
+    }
+    return payload;
+  }
+
+  /**
+   * Keyset condition selecting rows strictly after the cursor in (sortBy, id) order.
+   * dueDate is nullable; PostgreSQL sorts NULLs last ascending and first descending.
+   */
+  private buildCursorCondition(
+    cursor: IssueCursor,
+    sortBy: IssueSortField,
+    sortOrder: 'asc' | 'desc'
+  ): Prisma.IssueWhereInput {
+    const after = sortOrder === 'asc' ? 'gt' : 'lt';
+    const isDate = sortBy === 'createdAt' || sortBy === 'updatedAt' || sortBy === 'dueDate';
+    const value = cursor.value === null ? null : isDate ? new Date(cursor.value as string) : cursor.value;
+
+    if (value === null) {
+      const sameNullBucket: Prisma.IssueWhereInput = { [sortBy]: null, id: { [after]: cursor.id } };
+      return sortOrder === 'asc'
+        ? sameNullBucket
+        : { OR: [sameNullBucket, { [sortBy]: { not: null } }] };
+    }
+
+    const conditions: Prisma.IssueWhereInput[] = [
+      { [sortBy]: { [after]: value } },
+      { [sortBy]: value, id: { [after]: cursor.id } }
+    ];
+    if (sortBy === 'dueDate' && sortOrder === 'asc') {
+      conditions.push({ dueDate: null });
+    }
+    return { OR: conditions };
+  }
+
+  private async collectSubtreeIds(
+    projectId: string,
+    rootId: string,
+    filter: Prisma.IssueWhereInput
+  ): Promise<string[]> {
+    const ids = [rootId];
+    let frontier = [rootId];
+
+    while (frontier.length > 0) {
+      const children = await this.prisma.issue.findMany({
+        where: { ...filter, projectId, parentIssueId: { in: frontier } },
+        select: { id: true }
+      });
+      frontier = children.map(child => child.id).filter(childId => !ids.includes(childId));
+      ids.push(...frontier);
+    }
+
+    return ids;
+  }
+
+  private readDetachedDependencies(
+    metadata: Prisma.JsonValue | undefined
+  ): Array<{ predecessorId: string; successorId: string; type: string; lag: number; lagUnit?: string }> {
+    if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+      return [];
+    }
+    const detached = metadata.detachedDependencies;
+    return Array.isArray(detached)
+      ? (detached as Array<{ predecessorId: string; successorId: string; type: string; lag: number; lagUnit?: string }>)
+      : [];
+  }
+
+  private isTransitivePredecessor(predecessorsOf: Map<string, string[]>, issueId: string, candidateId: string): boolean {
+    const visited = new Set<string>();
+    const stack = [...(predecessorsOf.get(issueId) ?? [])];
+
+    while (stack.length > 0) {
+      const current = stack.pop() as string;
+      if (current === candidateId) return true;
+      if (visited.has(current)) continue;
+      visited.add(current);
+      stack.push(...(predecessorsOf.get(current) ?? []));
+    }
+
+    return false;
+  }
+
+  private getTrashRetentionDays(): number {
+    const configured = Number(this.configService.get('ISSUE_TRASH_RETENTION_DAYS'));
+    return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_TRASH_RETENTION_DAYS;
+  }
+
   private async validateProjectExists(projectId: string): Promise<void> {
     const project = await this.prisma.project.findUnique({ where: { id: projectId } });
     if (!project) {
@@ -209,30 +1849,39 @@ export class IssuesService {
     }
   }
 
-  private async getNextOrderIndex(projectId: string, parentIssueId?: string | null): Promise<number> {
-    const maxOrder = await this.prisma.issue.findFirst({
-      where: { projectId, parentIssueId: parentIssueId || null, deletedAt: null },
+  private async getNextOrderIndex(
+    projectId: string,
+    parentIssueId?: string | null,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<number> {
+    const maxOrder = await client.issue.findFirst({
+      // Trashed siblings keep their slot so they can be restored without breaking the unique ordering
+      where: { projectId, parentIssueId: parentIssueId || null },
       orderBy: { orderIndex: 'desc' },
       select: { orderIndex: true }
     });
     return (maxOrder?.orderIndex || 0) + 1;
   }
 
-  private async wouldCreateCircularDependencyGraph(predecessorId: string, successorId: string): Promise<boolean> {
-    const predecessors = await this.getAllPredecessors(predecessorId);
+  private async wouldCreateCircularDependencyGraph(
+    predecessorId: string,
+    successorId: string,
+    client: Prisma.TransactionClient = this.prisma
+  ): Promise<boolean> {
+    const predecessors = await this.getAllPredecessors(predecessorId, client);
     return predecessors.includes(successorId);
   }
 
-  private async getAllPredecessors(issueId: string): Promise<string[]> {
+  private async getAllPredecessors(issueId: string, client: Prisma.TransactionClient = this.prisma): Promise<string[]> {
     const predecessors: string[] = [];
-    const directPredecessors = await this.prisma.dependency.findMany({
+    const directPredecessors = await client.dependency.findMany({
       where: { successorId: issueId },
       select: { predecessorId: true }
     });
 
     for (const dep of directPredecessors) {
       predecessors.push(dep.predecessorId);
-      const indirectPredecessors = await this.getAllPredecessors(dep.predecessorId);
+      const indirectPredecessors = await this.getAllPredecessors(dep.predecessorId, client);
       predecessors.push(...indirectPredecessors);
     }
 
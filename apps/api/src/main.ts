@@ -2,6 +2,7 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
 import helmet from 'helmet';
+import { json } from 'express';
 import { AppModule } from './app.module';
 import { SecurityExceptionFilter } from './common/filters/security-exception.filter';
 import { PerformanceMonitoringInterceptor } from './common/interceptors/performance-monitoring.interceptor';
@@ -51,6 +52,9 @@ async function bootstrap() {
     }
   });
 
+  // Imported files travel base64-encoded in the JSON body, well past the default 100kb
+  app.use('/projects/:projectId/import', json({ limit: '10mb' }));
+
   // CORS設定
   app.enableCors({
     origin: process.env.NODE_ENV === 'production' 
@@ -0,0 +1,55 @@
+import { Controller, Get, Param, ParseUUIDPipe, Query, UseGuards, BadRequestException } from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { EVMService, EarnedValueReport, EarnedValueTimeSeries } from './evm.service';
+
+@ApiTags('evm')
+@Controller('metrics/evm')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth()
+export class EVMController {
+  constructor(private readonly evmService: EVMService) {}
+
+  @Get(':projectId')
+  @ApiOperation({
+    summary: 'Earned value metrics (PV, EV, AC, CPI, SPI, EAC, ETC, VAC) for a project or WBS subtree',
+    description: 'Includes the same metrics for every WBS node in scope'
+  })
+  @ApiResponse({ status: 200, description: 'Earned value calculated' })
+  @ApiResponse({ status: 404, description: 'Project, issue or baseline not found' })
+  @ApiQuery({ name: 'asOf', required: false, description: 'Status date (YYYY-MM-DD), defaults to today' })
+  @ApiQuery({ name: 'issueId', required: false, description: 'Restrict to the WBS subtree under this issue' })
+  @ApiQuery({ name: 'baselineId', required: false, description: 'Baseline for planned dates, defaults to the latest baseline' })
+  async getEarnedValue(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query('asOf') asOf?: string,
+    @Query('issueId') issueId?: string,
+    @Query('baselineId') baselineId?: string
+  ): Promise<EarnedValueReport> {
+    return this.evmService.getEarnedValue(projectId, { asOf, issueId, baselineId });
+  }
+
+  @Get(':projectId/time-series')
+  @ApiOperation({ summary: 'Cumulative PV, EV and AC over time for S-curve charts' })
+  @ApiResponse({ status: 200, description: 'Time series calculated' })
+  @ApiResponse({ status: 400, description: 'Invalid range or too many points' })
+  @ApiResponse({ status: 404, description: 'Project, issue or baseline not found' })
+  @ApiQuery({ name: 'from', required: false, description: 'First date (YYYY-MM-DD), defaults to the planned start' })
+  @ApiQuery({ name: 'to', required: false, description: 'Last date (YYYY-MM-DD), defaults to the later of the planned finish and today' })
+  @ApiQuery({ name: 'interval', required: false, enum: ['day', 'week'], description: 'Point spacing, weekly for ranges over 180 days by default' })
+  @ApiQuery({ name: 'issueId', required: false, description: 'Restrict to the WBS subtree under this issue' })
+  @ApiQuery({ name: 'baselineId', required: false, description: 'Baseline for planned dates, defaults to the latest baseline' })
+  async getTimeSeries(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('interval') interval?: string,
+    @Query('issueId') issueId?: string,
+    @Query('baselineId') baselineId?: string
+  ): Promise<EarnedValueTimeSeries> {
+    if (interval !== undefined && interval !== 'day' && interval !== 'week') {
+      throw new BadRequestException('interval must be day or week');
+    }
+    return this.evmService.getTimeSeries(projectId, { from, to, interval: interval as 'day' | 'week' | undefined, issueId, baselineId });
+  }
+}
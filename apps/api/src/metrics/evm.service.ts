@@ -0,0 +1,531 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { CalendarService, SchedulingCalendar } from '../scheduling/services/calendar.service';
+import { toDateKey } from '../common/utils/recurrence.utils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SERIES_POINTS = 1000;
+
+// Earned value in cost units: the project hourly rate, or hours when no rate is set
+export interface EarnedValueMetrics {
+  bac: number; // budget at completion
+  pv: number; // planned value
+  ev: number; // earned value
+  ac: number; // actual cost
+  sv: number; // schedule variance, EV - PV
+  cv: number; // cost variance, EV - AC
+  cpi: number | null; // EV / AC; null before any cost is booked
+  spi: number | null; // EV / PV; null before any work is planned
+  eac: number; // estimate at completion, BAC / CPI
+  etc: number; // estimate to complete, EAC - AC
+  vac: number; // variance at completion, BAC - EAC
+  percentComplete: number; // EV / BAC as a percentage
+}
+
+export interface EarnedValueQuery {
+  asOf?: string; // YYYY-MM-DD, defaults to today
+  issueId?: string; // WBS subtree root
+  baselineId?: string; // planned dates source, defaults to the latest baseline
+}
+
+export interface EarnedValueTimeSeriesQuery extends EarnedValueQuery {
+  from?: string;
+  to?: string;
+  interval?: 'day' | 'week';
+}
+
+interface EarnedValueHeader {
+  projectId: string;
+  rootIssueId: string | null;
+  hourlyRate: number | null;
+  costUnit: 'currency' | 'hours';
+  plannedFrom: {
+    source: 'baseline' | 'schedule';
+    baselineId: string | null;
+    baselineName: string | null;
+  };
+  taskCount: number; // leaf tasks in scope; parent issues roll up their children
+  unscheduledTaskCount: number; // leaf tasks without planned dates, which never accrue planned value
+}
+
+export interface EarnedValueReport extends EarnedValueHeader {
+  asOf: string;
+  metrics: EarnedValueMetrics;
+  nodes: Array<{
+    issueId: string;
+    title: string;
+    parentIssueId: string | null;
+    depth: number;
+    isSummary: boolean;
+    metrics: EarnedValueMetrics;
+  }>;
+}
+
+export interface EarnedValueTimeSeries extends EarnedValueHeader {
+  interval: 'day' | 'week';
+  bac: number;
+  points: Array<{
+    date: string;
+    pv: number;
+    ev: number | null; // null for future dates
+    ac: number | null;
+    cpi: number | null;
+    spi: number | null;
+  }>;
+}
+
+interface ValueHistory {
+  initial: number;
+  points: Array<{ at: number; value: number }>; // ascending
+}
+
+interface EarnedValueTask {
+  id: string;
+  budget: number;
+  plannedStart: Date | null;
+  plannedEnd: Date | null;
+  progress: ValueHistory;
+  spent: ValueHistory;
+}
+
+interface EarnedValueModel {
+  header: EarnedValueHeader;
+  issues: Array<{ id: string; title: string; parentIssueId: string | null; orderIndex: number }>;
+  leaves: EarnedValueTask[];
+  rate: number;
+  calendar: SchedulingCalendar;
+}
+
+/**
+ * Earned value management (EVM) per project or WBS subtree.
+ *
+ * Budgets come from leaf issue estimates priced at the project hourly rate.
+ * Planned value spreads each budget evenly over the working days between the
+ * planned start and finish, taken from a baseline when one exists. Earned
+ * value and actual cost on past dates are rebuilt from the progress and
+ * spent hours recorded in the issue activity log.
+ */
+@Injectable()
+export class EVMService {
+  private readonly logger = new Logger(EVMService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly calendarService: CalendarService
+  ) {}
+
+  async getEarnedValue(projectId: string, query: EarnedValueQuery = {}): Promise<EarnedValueReport> {
+    const asOf = query.asOf ? this.parseDate(query.asOf, 'asOf') : this.startOfDay(new Date());
+    const { header, issues, leaves, rate, calendar } = await this.loadModel(projectId, query.issueId, query.baselineId);
+
+    const at = asOf.getTime() + DAY_MS - 1;
+    const workingDays = this.buildWorkingDayIndex(calendar, leaves, asOf, asOf);
+    const totals = new Map<string, { bac: number; pv: number; ev: number; ac: number }>();
+    const parentOf = new Map(issues.map(issue => [issue.id, issue.parentIssueId]));
+    const inScope = new Set(issues.map(issue => issue.id));
+    const childrenOf = this.groupByParent(issues);
+    const project = { bac: 0, pv: 0, ev: 0, ac: 0 };
+    const add = (total: typeof project, budget: number, values: { pv: number; ev: number; ac: number }) => {
+      total.bac += budget;
+      total.pv += values.pv;
+      total.ev += values.ev;
+      total.ac += values.ac;
+    };
+
+    // Each leaf counts towards itself and every ancestor inside the scope
+    leaves.forEach(task => {
+      const values = this.valuesAt(task, at, rate, workingDays);
+      add(project, task.budget, values);
+      for (let id: string | null | undefined = task.id; id && inScope.has(id); id = parentOf.get(id)) {
+        if (!totals.has(id)) totals.set(id, { bac: 0, pv: 0, ev: 0, ac: 0 });
+        add(totals.get(id)!, task.budget, values);
+      }
+    });
+    this.logger.debug(`Earned value for project ${projectId} as of ${toDateKey(asOf)}: ${leaves.length} tasks`);
+
+    return {
+      ...header,
+      asOf: toDateKey(asOf),
+      metrics: this.toMetrics(project),
+      nodes: this.orderByWbs(issues, childrenOf, header.rootIssueId).map(({ issue, depth }) => ({
+        issueId: issue.id,
+        title: issue.title,
+        parentIssueId: issue.parentIssueId,
+        depth,
+        isSummary: childrenOf.has(issue.id),
+        metrics: this.toMetrics(totals.get(issue.id) || { bac: 0, pv: 0, ev: 0, ac: 0 })
+      }))
+    };
+  }
+
+  /**
+   * Cumulative PV, EV and AC per day or week, for S-curve charts. Planned
+   * value runs to the planned finish; earned value and cost stop at today.
+   */
+  async getTimeSeries(projectId: string, query: EarnedValueTimeSeriesQuery = {}): Promise<EarnedValueTimeSeries> {
+    const { header, leaves, rate, calendar } = await this.loadModel(projectId, query.issueId, query.baselineId);
+    const today = this.startOfDay(new Date());
+
+    const plannedDates = leaves
+      .flatMap(task => [task.plannedStart, task.plannedEnd])
+      .filter((date): date is Date => !!date)
+      .map(date => this.startOfDay(date).getTime());
+    const from = query.from
+      ? this.parseDate(query.from, 'from')
+      : new Date(plannedDates.length > 0 ? Math.min(...plannedDates, today.getTime()) : today.getTime());
+    const to = query.to
+      ? this.parseDate(query.to, 'to')
+      : new Date(Math.max(...plannedDates, today.getTime()));
+    if (to < from) {
+      throw new BadRequestException('to must not be before from');
+    }
+
+    const spanDays = Math.round((to.getTime() - from.getTime()) / DAY_MS) + 1;
+    const interval = query.interval ?? (spanDays > 180 ? 'week' : 'day');
+    const step = interval === 'week' ? 7 : 1;
+    if (Math.ceil(spanDays / step) > MAX_SERIES_POINTS) {
+      throw new BadRequestException(`Time series is limited to ${MAX_SERIES_POINTS} points; narrow the range or use interval=week`);
+    }
+
+    const workingDays = this.buildWorkingDayIndex(calendar, leaves, from, to);
+    const dates: Date[] = [];
+    for (let offset = 0; offset < spanDays; offset += step) {
+      dates.push(this.addDays(from, offset));
+    }
+    if (dates[dates.length - 1].getTime() !== to.getTime()) dates.push(to);
+
+    const points = dates.map(date => {
+      const at = date.getTime() + DAY_MS - 1;
+      const past = date <= today;
+      const sum = leaves.reduce((total, task) => {
+        const values = this.valuesAt(task, at, rate, workingDays);
+        return { pv: total.pv + values.pv, ev: total.ev + values.ev, ac: total.ac + values.ac };
+      }, { pv: 0, ev: 0, ac: 0 });
+
+      return {
+        date: toDateKey(date),
+        pv: this.round(sum.pv),
+        ev: past ? this.round(sum.ev) : null,
+        ac: past ? this.round(sum.ac) : null,
+        cpi: past && sum.ac > 0 ? this.roundIndex(sum.ev / sum.ac) : null,
+        spi: past && sum.pv > 0 ? this.roundIndex(sum.ev / sum.pv) : null
+      };
+    });
+
+    return {
+      ...header,
+      interval,
+      bac: this.round(leaves.reduce((sum, task) => sum + task.budget, 0)),
+      points
+    };
+  }
+
+  private async loadModel(projectId: string, rootIssueId?: string, baselineId?: string): Promise<EarnedValueModel> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, hourlyRate: true }
+    });
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    const [calendar, allIssues, baseline] = await Promise.all([
+      this.calendarService.getSchedulingCalendar(projectId),
+      this.prisma.issue.findMany({
+        where: { projectId, deletedAt: null },
+        select: {
+          id: true,
+          title: true,
+          parentIssueId: true,
+          orderIndex: true,
+          estimateValue: true,
+          estimateUnit: true,
+          progress: true,
+          spent: true,
+          startDate: true,
+          dueDate: true,
+          updatedAt: true
+        }
+      }),
+      this.prisma.scheduleBaseline.findFirst({
+        where: baselineId ? { id: baselineId, projectId } : { projectId },
+        orderBy: { createdAt: 'desc' },
+        include: { tasks: true }
+      })
+    ]);
+
+    if (baselineId && !baseline) {
+      throw new NotFoundException(`Baseline ${baselineId} not found`);
+    }
+    if (rootIssueId && !allIssues.some(issue => issue.id === rootIssueId)) {
+      throw new NotFoundException(`Issue not found: ${rootIssueId}`);
+    }
+
+    const childrenOf = new Map<string, string[]>();
+    allIssues.forEach(issue => {
+      if (!issue.parentIssueId) return;
+      childrenOf.set(issue.parentIssueId, [...(childrenOf.get(issue.parentIssueId) || []), issue.id]);
+    });
+
+    const scope = new Set<string>();
+    const collect = (id: string) => {
+      scope.add(id);
+      (childrenOf.get(id) || []).forEach(collect);
+    };
+    if (rootIssueId) collect(rootIssueId);
+    else allIssues.forEach(issue => scope.add(issue.id));
+
+    const issues = allIssues.filter(issue => scope.has(issue.id));
+    const leafIssues = issues.filter(issue => !childrenOf.has(issue.id));
+    const history = await this.loadHistory(projectId, leafIssues);
+
+    const rate = project.hourlyRate ?? 1;
+    const hoursPerDay = calendar.workingHoursPerDay;
+    const plannedByIssue = new Map((baseline?.tasks || []).map(task => [task.issueId, task]));
+
+    const leaves: EarnedValueTask[] = leafIssues.map(issue => {
+      const planned = baseline ? plannedByIssue.get(issue.id) : undefined;
+      const plannedStart = baseline ? planned?.startDate ?? null : issue.startDate;
+      const plannedEnd = baseline ? planned?.endDate ?? null : issue.dueDate;
+      const hours = issue.estimateUnit === 'h' ? issue.estimateValue : issue.estimateValue * hoursPerDay;
+
+      return {
+        id: issue.id,
+        budget: hours * rate,
+        plannedStart: plannedStart ?? plannedEnd,
+        plannedEnd: plannedEnd ?? plannedStart,
+        progress: history.get(issue.id)!.progress,
+        spent: history.get(issue.id)!.spent
+      };
+    });
+
+    return {
+      header: {
+        projectId,
+        rootIssueId: rootIssueId ?? null,
+        hourlyRate: project.hourlyRate,
+        costUnit: project.hourlyRate === null ? 'hours' : 'currency',
+        plannedFrom: {
+          source: baseline ? 'baseline' : 'schedule',
+          baselineId: baseline?.id ?? null,
+          baselineName: baseline?.name ?? null
+        },
+        taskCount: leaves.length,
+        unscheduledTaskCount: leaves.filter(task => !task.plannedStart).length
+      },
+      issues,
+      leaves,
+      rate,
+      calendar
+    };
+  }
+
+  /**
+   * Progress and spent hours over time, from the issue snapshots in the
+   * activity log. Before the first entry an issue had the entry's "before"
+   * value; issues never logged are taken to have their current values since
+   * their last update.
+   */
+  private async loadHistory(
+    projectId: string,
+    issues: Array<{ id: string; progress: number; spent: number; updatedAt: Date }>
+  ): Promise<Map<string, { progress: ValueHistory; spent: ValueHistory }>> {
+    const logs = issues.length > 0
+      ? await this.prisma.activityLog.findMany({
+        where: { projectId, entityType: 'issue', entityId: { in: issues.map(issue => issue.id) } },
+        select: { entityId: true, before: true, after: true, createdAt: true },
+        orderBy: { createdAt: 'asc' }
+      })
+      : [];
+
+    const history = new Map(issues.map(issue => [issue.id, {
+      progress: { initial: NaN, points: [] } as ValueHistory,
+      spent: { initial: NaN, points: [] } as ValueHistory
+    }]));
+
+    logs.forEach(log => {
+      const entry = history.get(log.entityId);
+      if (!entry) return;
+
+      const before = (log.before || {}) as Record<string, unknown>;
+      const after = (log.after || {}) as Record<string, unknown>;
+      (['progress', 'spent'] as const).forEach(field => {
+        if (typeof after[field] !== 'number') return;
+        const series = entry[field];
+        if (Number.isNaN(series.initial)) {
+          series.initial = typeof before[field] === 'number' ? before[field] as number : 0;
+        }
+        series.points.push({ at: log.createdAt.getTime(), value: after[field] as number });
+      });
+    });
+
+    issues.forEach(issue => {
+      const entry = history.get(issue.id)!;
+      (['progress', 'spent'] as const).forEach(field => {
+        const series = entry[field];
+        if (Number.isNaN(series.initial)) series.initial = 0;
+
+        // Writes that bypass the activity log still count from the last update on
+        const last = series.points[series.points.length - 1];
+        if (!last || last.value !== issue[field]) {
+          series.points.push({ at: Math.max(issue.updatedAt.getTime(), last?.at ?? 0), value: issue[field] });
+        }
+      });
+    });
+
+    return history;
+  }
+
+  private valuesAt(
+    task: EarnedValueTask,
+    at: number,
+    rate: number,
+    workingDays: (from: Date, to: Date) => number
+  ): { pv: number; ev: number; ac: number } {
+    const progress = Math.min(Math.max(this.valueAt(task.progress, at), 0), 100);
+
+    return {
+      pv: task.budget * this.plannedFraction(task, at, workingDays),
+      ev: task.budget * progress / 100,
+      ac: this.valueAt(task.spent, at) * rate
+    };
+  }
+
+  private plannedFraction(task: EarnedValueTask, at: number, workingDays: (from: Date, to: Date) => number): number {
+    if (!task.plannedStart || !task.plannedEnd) return 0;
+
+    const start = this.startOfDay(task.plannedStart);
+    const end = this.startOfDay(task.plannedEnd);
+    if (at < start.getTime()) return 0;
+    if (at >= end.getTime() + DAY_MS - 1) return 1;
+
+    const total = workingDays(start, end);
+    if (total === 0) return 0;
+
+    return workingDays(start, this.startOfDay(new Date(at))) / total;
+  }
+
+  private valueAt(history: ValueHistory, at: number): number {
+    let value = history.initial;
+    for (const point of history.points) {
+      if (point.at > at) break;
+      value = point.value;
+    }
+    return value;
+  }
+
+  /**
+   * Working days between two dates (inclusive) on the project calendar, from
+   * a cumulative count built once over every date the caller can ask about
+   */
+  private buildWorkingDayIndex(
+    calendar: SchedulingCalendar,
+    tasks: EarnedValueTask[],
+    from: Date,
+    to: Date
+  ): (start: Date, end: Date) => number {
+    const bounds = [from, to, ...tasks.flatMap(task => [task.plannedStart, task.plannedEnd])]
+      .filter((date): date is Date => !!date)
+      .map(date => this.startOfDay(date).getTime());
+    const first = new Date(Math.min(...bounds));
+    const days = Math.round((Math.max(...bounds) - first.getTime()) / DAY_MS) + 1;
+
+    const holidays = new Set(calendar.holidays.map(holiday => toDateKey(holiday)));
+    const cumulative: number[] = [];
+    for (let offset = 0; offset < days; offset++) {
+      const day = this.addDays(first, offset);
+      const working = calendar.workingDays.includes(day.getDay()) && !holidays.has(toDateKey(day));
+      cumulative.push((cumulative[offset - 1] || 0) + (working ? 1 : 0));
+    }
+
+    const indexOf = (date: Date) => Math.min(
+      Math.max(Math.round((this.startOfDay(date).getTime() - first.getTime()) / DAY_MS), 0),
+      days - 1
+    );
+    return (start, end) => {
+      const startIndex = indexOf(start);
+      const endIndex = indexOf(end);
+      if (endIndex < startIndex) return 0;
+      return cumulative[endIndex] - (startIndex > 0 ? cumulative[startIndex - 1] : 0);
+    };
+  }
+
+  private toMetrics(values: { bac: number; pv: number; ev: number; ac: number }): EarnedValueMetrics {
+    const { bac, pv, ev, ac } = values;
+    const cpi = ac > 0 ? ev / ac : null;
+    const spi = pv > 0 ? ev / pv : null;
+    // Without a usable CPI the remaining work is assumed to cost what was budgeted
+    const eac = cpi ? bac / cpi : ac + (bac - ev);
+
+    return {
+      bac: this.round(bac),
+      pv: this.round(pv),
+      ev: this.round(ev),
+      ac: this.round(ac),
+      sv: this.round(ev - pv),
+      cv: this.round(ev - ac),
+      cpi: cpi === null ? null : this.roundIndex(cpi),
+      spi: spi === null ? null : this.roundIndex(spi),
+      eac: this.round(eac),
+      etc: this.round(Math.max(eac - ac, 0)),
+      vac: this.round(bac - eac),
+      percentComplete: bac > 0 ? this.round(ev / bac * 100) : 0
+    };
+  }
+
+  // Children in WBS order per parent; issues whose parent is out of scope sit under null
+  private groupByParent(
+    issues: EarnedValueModel['issues']
+  ): Map<string | null, EarnedValueModel['issues']> {
+    const ids = new Set(issues.map(issue => issue.id));
+    const childrenOf = new Map<string | null, EarnedValueModel['issues']>();
+    for (const issue of [...issues].sort((a, b) => a.orderIndex - b.orderIndex)) {
+      const key = issue.parentIssueId && ids.has(issue.parentIssueId) ? issue.parentIssueId : null;
+      const siblings = childrenOf.get(key);
+      if (siblings) siblings.push(issue);
+      else childrenOf.set(key, [issue]);
+    }
+    return childrenOf;
+  }
+
+  // Depth-first in WBS order, starting at the subtree root or the top-level issues
+  private orderByWbs(
+    issues: EarnedValueModel['issues'],
+    childrenOf: Map<string | null, EarnedValueModel['issues']>,
+    rootIssueId: string | null
+  ): Array<{ issue: EarnedValueModel['issues'][number]; depth: number }> {
+    const ordered: Array<{ issue: EarnedValueModel['issues'][number]; depth: number }> = [];
+    const visit = (issue: EarnedValueModel['issues'][number], depth: number) => {
+      ordered.push({ issue, depth });
+      (childrenOf.get(issue.id) ?? []).forEach(child => visit(child, depth + 1));
+    };
+
+    const roots = rootIssueId ? issues.filter(issue => issue.id === rootIssueId) : childrenOf.get(null) ?? [];
+    roots.forEach(root => visit(root, 0));
+    return ordered;
+  }
+
+  private parseDate(value: string, name: string): Date {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      throw new BadRequestException(`${name} must be a YYYY-MM-DD date`);
+    }
+    return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  }
+
+  private startOfDay(date: Date): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  }
+
+  private addDays(date: Date, days: number): Date {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+
+  private roundIndex(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
@@ -1,22 +1,26 @@
 /**
  * T029: Metrics Module
  * 
- * Provides ROI measurement and business metrics functionality
+ * Provides ROI measurement, earned value and business metrics functionality
  */
 
 import { Module } from '@nestjs/common'
 import { ROIController } from './roi.controller'
 import { ROIService } from './roi.service'
+import { EVMController } from './evm.controller'
+import { EVMService } from './evm.service'
 import { PrismaModule } from '../prisma/prisma.module'
 import { TelemetryModule } from '../telemetry/telemetry.module'
+import { SchedulingModule } from '../scheduling/scheduling.module'
 
 @Module({
   imports: [
     PrismaModule,
-    TelemetryModule
+    TelemetryModule,
+    SchedulingModule
   ],
-  controllers: [ROIController],
-  providers: [ROIService],
-  exports: [ROIService]
+  controllers: [ROIController, EVMController],
+  providers: [ROIService, EVMService],
+  exports: [ROIService, EVMService]
 })
 export class MetricsModule {}
\ No newline at end of file
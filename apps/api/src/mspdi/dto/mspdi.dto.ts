@@ -0,0 +1,167 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsBoolean, IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ImportMspdiDto {
+  @ApiProperty({ description: 'Contents of a Microsoft Project XML (MSPDI) file' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(10_000_000)
+  content: string;
+
+  @ApiPropertyOptional({
+    default: true,
+    description: 'Create or update the calendar from the file and make it the project default'
+  })
+  @IsOptional()
+  @IsBoolean()
+  importCalendar?: boolean = true;
+
+  @ApiPropertyOptional({ default: false, description: 'Preview the mapping without writing anything' })
+  @IsOptional()
+  @IsBoolean()
+  dryRun?: boolean = false;
+}
+
+export class MspdiLinkPreviewDto {
+  @ApiProperty({ description: 'UID of the predecessor task' })
+  uid: string;
+
+  @ApiProperty({ enum: ['FS', 'SS', 'FF', 'SF'] })
+  type: string;
+
+  @ApiProperty()
+  lag: number;
+
+  @ApiProperty({ enum: ['hours', 'days', 'percent'] })
+  lagUnit: string;
+}
+
+export class MspdiTaskResultDto {
+  @ApiProperty({ description: 'Task UID in the file' })
+  uid: string;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty({ description: 'Depth in the hierarchy, 0 for top-level issues' })
+  level: number;
+
+  @ApiProperty({ nullable: true })
+  parentUid: string | null;
+
+  @ApiProperty()
+  status: string;
+
+  @ApiProperty()
+  priority: number;
+
+  @ApiProperty({ nullable: true })
+  assigneeId: string | null;
+
+  @ApiProperty({ nullable: true })
+  startDate: string | null;
+
+  @ApiProperty({ nullable: true })
+  dueDate: string | null;
+
+  @ApiProperty({ description: 'Work in hours; 0 for summary tasks, whose estimate is rolled up' })
+  estimateValue: number;
+
+  @ApiProperty()
+  progress: number;
+
+  @ApiProperty({ nullable: true, enum: ['SNET', 'FNLT', 'MSO', 'MFO', 'ALAP'] })
+  constraintType: string | null;
+
+  @ApiProperty({ type: [MspdiLinkPreviewDto] })
+  predecessors: MspdiLinkPreviewDto[];
+
+  @ApiProperty({ nullable: true, description: 'Created issue; null on dry runs' })
+  issueId: string | null;
+
+  @ApiProperty({ type: [String] })
+  warnings: string[];
+}
+
+export class MspdiResourceResultDto {
+  @ApiProperty({ description: 'Resource UID in the file' })
+  uid: string;
+
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ nullable: true })
+  email: string | null;
+
+  @ApiProperty({ nullable: true, description: 'User matched by email address' })
+  userId: string | null;
+
+  @ApiProperty({
+    enum: ['existing', 'added', 'unmatched'],
+    description: 'added users become project members on import; tasks of unmatched resources stay unassigned'
+  })
+  membership: 'existing' | 'added' | 'unmatched';
+}
+
+export class MspdiCalendarResultDto {
+  @ApiProperty()
+  name: string;
+
+  @ApiProperty({ type: [Number], description: '0=Sunday, 1=Monday, ..., 6=Saturday' })
+  workingDays: number[];
+
+  @ApiProperty()
+  dailyHours: number;
+
+  @ApiProperty({ type: [String] })
+  holidays: string[];
+
+  @ApiProperty({ nullable: true, description: 'Created or updated calendar; null on dry runs' })
+  calendarId: string | null;
+}
+
+export class MspdiUnmappedDto {
+  @ApiProperty({ enum: ['Calendar', 'Task', 'Resource', 'Assignment'] })
+  element: string;
+
+  @ApiProperty({ example: 'FixedCost' })
+  field: string;
+
+  @ApiProperty({ description: 'How many tasks, resources or assignments carry it' })
+  count: number;
+
+  @ApiProperty({ type: [String], description: 'Names of the first few concerned' })
+  examples: string[];
+}
+
+export class MspdiImportResultDto {
+  @ApiProperty()
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Everything was written; false on dry runs and when the import stopped' })
+  imported: boolean;
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  createdIssues: number;
+
+  @ApiProperty()
+  createdDependencies: number;
+
+  @ApiProperty({ type: [MspdiTaskResultDto] })
+  tasks: MspdiTaskResultDto[];
+
+  @ApiProperty({ type: [MspdiResourceResultDto] })
+  resources: MspdiResourceResultDto[];
+
+  @ApiProperty({ type: MspdiCalendarResultDto, nullable: true })
+  calendar: MspdiCalendarResultDto | null;
+
+  @ApiProperty({ type: [MspdiUnmappedDto], description: 'Data in the file the project model has no place for' })
+  unmapped: MspdiUnmappedDto[];
+
+  @ApiProperty({ type: [String], description: 'Why the import stopped; what was written before stays' })
+  errors: string[];
+}
@@ -0,0 +1,154 @@
+import { BadRequestException } from '@nestjs/common';
+import { buildMspdi, parseMspdi, MspdiDocument, MspdiTask } from './mspdi-document';
+
+function task(uid: string, name: string, overrides: Partial<MspdiTask> = {}): MspdiTask {
+  return {
+    uid,
+    name,
+    outlineLevel: 1,
+    start: new Date('2025-01-06T08:00:00Z'),
+    finish: new Date('2025-01-07T17:00:00Z'),
+    durationHours: 16,
+    workHours: 16,
+    summary: false,
+    milestone: false,
+    percentComplete: 0,
+    priority: 500,
+    notes: '',
+    constraintType: 'ASAP',
+    constraintDate: null,
+    links: [],
+    ...overrides
+  };
+}
+
+function project(tasks: string, extra = '', minutesPerDay = 480): string {
+  return `<?xml version="1.0"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <Title>Plan</Title>
+  <MinutesPerDay>${minutesPerDay}</MinutesPerDay>
+  <Tasks>${tasks}</Tasks>
+  ${extra}
+</Project>`;
+}
+
+describe('MSPDI round trip', () => {
+  const document: MspdiDocument = {
+    title: 'Launch',
+    minutesPerDay: 480,
+    calendar: { name: 'Standard', workingDays: [1, 2, 3, 4, 5], dailyHours: 8, holidays: ['2025-01-09', '2025-12-25'] },
+    tasks: [
+      task('1', 'Phase 1', { summary: true, durationHours: 40, workHours: 40 }),
+      task('2', 'Design', { outlineLevel: 2, percentComplete: 50, priority: 700, notes: 'Wireframes first' }),
+      task('3', 'Build', {
+        outlineLevel: 2,
+        durationHours: 24,
+        workHours: 24,
+        constraintType: 'SNET',
+        constraintDate: new Date('2025-01-08T08:00:00Z'),
+        links: [{ predecessorUid: '2', type: 'FS', lag: 2, lagUnit: 'days' }]
+      }),
+      task('4', 'Review', {
+        outlineLevel: 2,
+        links: [
+          { predecessorUid: '3', type: 'SS', lag: -4, lagUnit: 'hours' },
+          { predecessorUid: '2', type: 'FF', lag: 25, lagUnit: 'percent' }
+        ]
+      }),
+      task('5', 'Go live', { durationHours: 0, workHours: 0, milestone: true, constraintType: 'ALAP' })
+    ],
+    resources: [
+      { uid: '1', name: 'Alice', email: 'alice@example.com' },
+      { uid: '2', name: 'Bob', email: null }
+    ],
+    assignments: [
+      { taskUid: '2', resourceUid: '1', workHours: 16, units: 1 },
+      { taskUid: '3', resourceUid: '2', workHours: 24, units: 1 }
+    ],
+    unmapped: []
+  };
+
+  it('reads back what it writes', () => {
+    expect(parseMspdi(buildMspdi(document))).toEqual(document);
+  });
+
+  it('writes outline numbers from the task order and levels', () => {
+    const xml = buildMspdi(document);
+
+    expect(xml).toContain('<OutlineNumber>1.2</OutlineNumber>');
+    expect(xml).toContain('<OutlineNumber>2</OutlineNumber>');
+  });
+});
+
+describe('parseMspdi', () => {
+  it('keeps duration and work apart when several resources share a task', () => {
+    const { tasks, assignments } = parseMspdi(project(`
+      <Task><UID>1</UID><Name>Pair work</Name><OutlineLevel>1</OutlineLevel>
+        <Duration>PT16H0M0S</Duration><Work>PT32H0M0S</Work></Task>`, `
+      <Assignments>
+        <Assignment><TaskUID>1</TaskUID><ResourceUID>1</ResourceUID><Units>1</Units><Work>PT16H0M0S</Work></Assignment>
+        <Assignment><TaskUID>1</TaskUID><ResourceUID>2</ResourceUID><Units>1</Units><Work>PT16H0M0S</Work></Assignment>
+      </Assignments>`));
+
+    expect(tasks[0]).toMatchObject({ durationHours: 16, workHours: 32 });
+    expect(assignments.map(assignment => assignment.units)).toEqual([1, 1]);
+  });
+
+  it('derives a missing duration from work divided by assignment units', () => {
+    const { tasks } = parseMspdi(project(`
+      <Task><UID>1</UID><Name>Part time</Name><OutlineLevel>1</OutlineLevel><Work>PT16H0M0S</Work></Task>
+      <Task><UID>2</UID><Name>Unassigned</Name><OutlineLevel>1</OutlineLevel><Work>P1D</Work></Task>`, `
+      <Assignments>
+        <Assignment><TaskUID>1</TaskUID><ResourceUID>1</ResourceUID><Units>0.5</Units><Work>PT16H0M0S</Work></Assignment>
+      </Assignments>`));
+
+    expect(tasks.map(entry => entry.durationHours)).toEqual([32, 8]);
+  });
+
+  it('skips the project summary task and reads lag formats', () => {
+    const { tasks } = parseMspdi(project(`
+      <Task><UID>0</UID><Name>Plan</Name><OutlineLevel>0</OutlineLevel></Task>
+      <Task><UID>1</UID><Name>A</Name><OutlineLevel>1</OutlineLevel></Task>
+      <Task><UID>2</UID><Name>B</Name><OutlineLevel>1</OutlineLevel>
+        <PredecessorLink><PredecessorUID>1</PredecessorUID><Type>3</Type><LinkLag>4800</LinkLag><LagFormat>39</LagFormat></PredecessorLink>
+        <PredecessorLink><PredecessorUID>1</PredecessorUID><Type>0</Type><LinkLag>-1200</LinkLag><LagFormat>5</LagFormat></PredecessorLink>
+      </Task>`));
+
+    expect(tasks.map(entry => entry.uid)).toEqual(['1', '2']);
+    expect(tasks[1].links).toEqual([
+      { predecessorUid: '1', type: 'SS', lag: 1, lagUnit: 'days' },
+      { predecessorUid: '1', type: 'FF', lag: -2, lagUnit: 'hours' }
+    ]);
+  });
+
+  it('lists values it drops or normalises as unmapped', () => {
+    const { unmapped, tasks, calendar } = parseMspdi(project(`
+      <Task><UID>1</UID><Name>Overdone</Name><OutlineLevel>1</OutlineLevel><PercentComplete>150</PercentComplete>
+        <Cost>1200</Cost><ConstraintType>5</ConstraintType></Task>
+      <Task><UID>2</UID><Name>Remote</Name><OutlineLevel>1</OutlineLevel>
+        <PredecessorLink><PredecessorUID>9</PredecessorUID><CrossProject>1</CrossProject></PredecessorLink></Task>`, `
+      <CalendarUID>1</CalendarUID>
+      <Calendars><Calendar><UID>1</UID><Name>Short days</Name><IsBaseCalendar>1</IsBaseCalendar>
+        <Exceptions><Exception><Name>Closed</Name><Type>1</Type><DayWorking>0</DayWorking>
+          <TimePeriod><FromDate>2025-01-01T00:00:00</FromDate><ToDate>2026-12-31T23:59:00</ToDate></TimePeriod>
+        </Exception></Exceptions>
+      </Calendar></Calendars>`, 450));
+
+    expect(tasks[0].percentComplete).toBe(100);
+    expect(calendar).toMatchObject({ workingDays: [1, 2, 3, 4, 5], dailyHours: 8 });
+    expect(calendar!.holidays).toHaveLength(366);
+    expect(unmapped).toEqual(expect.arrayContaining([
+      { element: 'Task', field: 'Percent complete outside 0-100', count: 1, examples: ['Overdone'] },
+      { element: 'Task', field: 'Cost', count: 1, examples: ['Overdone'] },
+      { element: 'Task', field: 'Constraint SNLT', count: 1, examples: ['Overdone'] },
+      { element: 'Task', field: 'Cross-project predecessor link', count: 1, examples: ['Remote'] },
+      { element: 'Calendar', field: 'Working hours rounded to whole hours', count: 1, examples: ['Short days'] },
+      { element: 'Calendar', field: 'Exception days beyond the first 366', count: 1, examples: ['Closed'] }
+    ]));
+  });
+
+  it('rejects document type declarations and other roots', () => {
+    expect(() => parseMspdi('<!DOCTYPE x [<!ENTITY a "b">]><Project/>')).toThrow(BadRequestException);
+    expect(() => parseMspdi('<Workbook/>')).toThrow('root element must be <Project>');
+  });
+});
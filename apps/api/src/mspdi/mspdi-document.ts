@@ -0,0 +1,569 @@
+import { BadRequestException } from '@nestjs/common';
+import { XMLBuilder, XMLParser } from 'fast-xml-parser';
+import { PredecessorLagUnit, PredecessorLinkType } from '../common/utils/predecessor.utils';
+
+/**
+ * Microsoft Project XML (MSPDI) to and from a plain document model. Reading keeps what the
+ * project model can hold and tallies everything else found in the file as unmapped.
+ */
+
+const MSPDI_NAMESPACE = 'http://schemas.microsoft.com/project';
+
+// PredecessorLink/Type codes, by index
+const LINK_TYPES: PredecessorLinkType[] = ['FF', 'FS', 'SF', 'SS'];
+
+// Task/ConstraintType codes, by index
+export const MSPDI_CONSTRAINT_TYPES = ['ASAP', 'ALAP', 'MSO', 'MFO', 'SNET', 'SNLT', 'FNET', 'FNLT'] as const;
+export type MspdiConstraintType = typeof MSPDI_CONSTRAINT_TYPES[number];
+
+// LagFormat codes; estimated variants are the same code plus 32
+const LAG_FORMAT_HOURS = 5;
+const LAG_FORMAT_DAYS = 7;
+const LAG_FORMAT_MONTHS_ELAPSED = 12;
+const LAG_FORMAT_PERCENT = 19;
+const LAG_FORMAT_PERCENT_ELAPSED = 20;
+const LAG_FORMAT_ESTIMATED_OFFSET = 32;
+
+// One exception spanning years is a data entry slip, not a holiday list
+const MAX_EXCEPTION_DAYS = 366;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ARRAY_ELEMENTS = new Set([
+  'Project.ExtendedAttributes.ExtendedAttribute',
+  'Project.Calendars.Calendar',
+  'Project.Calendars.Calendar.WeekDays.WeekDay',
+  'Project.Calendars.Calendar.WeekDays.WeekDay.WorkingTimes.WorkingTime',
+  'Project.Calendars.Calendar.Exceptions.Exception',
+  'Project.Calendars.Calendar.WorkWeeks.WorkWeek',
+  'Project.Tasks.Task',
+  'Project.Tasks.Task.PredecessorLink',
+  'Project.Tasks.Task.ExtendedAttribute',
+  'Project.Tasks.Task.Baseline',
+  'Project.Resources.Resource',
+  'Project.Resources.Resource.ExtendedAttribute',
+  'Project.Resources.Resource.Baseline',
+  'Project.Assignments.Assignment'
+]);
+
+// Reported when present with a non-zero value; the project model has no place for them
+const UNMAPPED_TASK_FIELDS = [
+  'Cost', 'FixedCost', 'ActualCost', 'RemainingCost', 'OvertimeCost', 'BCWS', 'BCWP', 'ACWP',
+  'Deadline', 'Contact', 'Hyperlink', 'Baseline'
+];
+const UNMAPPED_RESOURCE_FIELDS = ['StandardRate', 'OvertimeRate', 'CostPerUse', 'Cost', 'ActualCost', 'Baseline'];
+
+type XmlNode = Record<string, any>;
+
+export interface MspdiLink {
+  predecessorUid: string;
+  type: PredecessorLinkType;
+  lag: number; // Negative values are leads
+  lagUnit: PredecessorLagUnit;
+}
+
+export interface MspdiTask {
+  uid: string;
+  name: string;
+  outlineLevel: number; // 1 for top-level tasks
+  start: Date | null;
+  finish: Date | null;
+  durationHours: number; // Working time from start to finish
+  workHours: number; // Summed over all assignments, so it exceeds the duration with several resources
+  summary: boolean;
+  milestone: boolean;
+  percentComplete: number;
+  priority: number; // 0-1000, 500 is medium
+  notes: string;
+  constraintType: MspdiConstraintType;
+  constraintDate: Date | null;
+  links: MspdiLink[];
+}
+
+export interface MspdiResource {
+  uid: string;
+  name: string;
+  email: string | null;
+}
+
+export interface MspdiAssignment {
+  taskUid: string;
+  resourceUid: string;
+  workHours: number;
+  units: number; // 1 is full time
+}
+
+export interface MspdiCalendar {
+  name: string;
+  workingDays: number[]; // 0=Sunday ... 6=Saturday
+  dailyHours: number;
+  holidays: string[]; // YYYY-MM-DD
+}
+
+export interface MspdiUnmapped {
+  element: string; // Project, Calendar, Task, Resource or Assignment
+  field: string;
+  count: number;
+  examples: string[]; // Names of the first few tasks or resources concerned
+}
+
+export interface MspdiDocument {
+  title: string;
+  minutesPerDay: number;
+  calendar: MspdiCalendar | null;
+  tasks: MspdiTask[]; // In outline order
+  resources: MspdiResource[]; // Work resources only
+  assignments: MspdiAssignment[];
+  unmapped: MspdiUnmapped[];
+}
+
+const MAX_UNMAPPED_EXAMPLES = 3;
+
+/**
+ * Parse an MSPDI file as saved by MS Project 2007 or later (older exception layouts are read too)
+ */
+export function parseMspdi(xml: string): MspdiDocument {
+  // Entity declarations are the usual route to expansion attacks; MS Project never writes them
+  if (/<!DOCTYPE/i.test(xml)) {
+    throw new BadRequestException('Document type declarations are not accepted in MSPDI files');
+  }
+
+  let root: XmlNode | undefined;
+  try {
+    root = new XMLParser({
+      ignoreAttributes: true,
+      removeNSPrefix: true,
+      parseTagValue: false,
+      isArray: (_name, jpath) => ARRAY_ELEMENTS.has(jpath)
+    }).parse(xml, true)?.Project;
+  } catch (error) {
+    throw new BadRequestException(`Content is not well-formed XML: ${error.message}`);
+  }
+  if (!root || typeof root !== 'object') {
+    throw new BadRequestException('Not an MSPDI file; the root element must be <Project>');
+  }
+
+  const unmapped = new Map<string, MspdiUnmapped>();
+  const note = (element: string, field: string, example: string) => {
+    const key = `${element}\u0000${field}`;
+    const entry = unmapped.get(key) ?? { element, field, count: 0, examples: [] };
+    entry.count++;
+    if (entry.examples.length < MAX_UNMAPPED_EXAMPLES && example && !entry.examples.includes(example)) {
+      entry.examples.push(example);
+    }
+    unmapped.set(key, entry);
+  };
+
+  const minutesPerDay = numberOf(root, 'MinutesPerDay', 480) || 480;
+  const customFields = new Map(
+    children(root.ExtendedAttributes?.ExtendedAttribute).map(field => [
+      textOf(field, 'FieldID'),
+      textOf(field, 'Alias') || textOf(field, 'FieldName') || textOf(field, 'FieldID')
+    ])
+  );
+  const noteCustomFields = (element: string, node: XmlNode, example: string) => {
+    for (const attribute of children(node.ExtendedAttribute)) {
+      if (!textOf(attribute, 'Value') && !textOf(attribute, 'ValueGUID')) continue;
+      const fieldId = textOf(attribute, 'FieldID');
+      note(element, `Custom field ${customFields.get(fieldId) ?? fieldId}`, example);
+    }
+  };
+
+  const tasks: MspdiTask[] = [];
+  for (const node of children(root.Tasks?.Task)) {
+    const uid = textOf(node, 'UID');
+    const outlineLevel = numberOf(node, 'OutlineLevel', 1);
+    // UID 0 at outline level 0 is the project summary task MS Project adds
+    if (!uid || outlineLevel < 1 || flagOf(node, 'IsNull')) continue;
+
+    const name = textOf(node, 'Name') || `Task ${uid}`;
+    const percentComplete = numberOf(node, 'PercentComplete', 0);
+    const constraintType = MSPDI_CONSTRAINT_TYPES[numberOf(node, 'ConstraintType', 0)] ?? 'ASAP';
+
+    const links: MspdiLink[] = [];
+    for (const link of children(node.PredecessorLink)) {
+      if (flagOf(link, 'CrossProject')) {
+        note('Task', 'Cross-project predecessor link', name);
+        continue;
+      }
+      links.push({
+        predecessorUid: textOf(link, 'PredecessorUID'),
+        type: LINK_TYPES[numberOf(link, 'Type', 1)] ?? 'FS',
+        ...readLag(link, minutesPerDay)
+      });
+    }
+
+    for (const field of UNMAPPED_TASK_FIELDS) {
+      if (hasValue(node[field])) note('Task', field, name);
+    }
+    noteCustomFields('Task', node, name);
+    if (constraintType === 'SNLT' || constraintType === 'FNET') {
+      note('Task', `Constraint ${constraintType}`, name);
+    }
+    if (percentComplete < 0 || percentComplete > 100) {
+      note('Task', 'Percent complete outside 0-100', name);
+    }
+
+    tasks.push({
+      uid,
+      name,
+      outlineLevel,
+      start: parseDate(textOf(node, 'Start')),
+      finish: parseDate(textOf(node, 'Finish')),
+      durationHours: parseDurationHours(textOf(node, 'Duration'), minutesPerDay),
+      workHours: parseDurationHours(textOf(node, 'Work'), minutesPerDay),
+      summary: flagOf(node, 'Summary'),
+      milestone: flagOf(node, 'Milestone'),
+      percentComplete: Math.min(100, Math.max(0, percentComplete)),
+      priority: numberOf(node, 'Priority', 500),
+      notes: textOf(node, 'Notes'),
+      constraintType,
+      constraintDate: parseDate(textOf(node, 'ConstraintDate')),
+      links
+    });
+  }
+
+  const resources: MspdiResource[] = [];
+  for (const node of children(root.Resources?.Resource)) {
+    const uid = textOf(node, 'UID');
+    if (!uid || uid === '0' || flagOf(node, 'IsNull')) continue;
+
+    const name = textOf(node, 'Name') || `Resource ${uid}`;
+    const type = numberOf(node, 'Type', 1);
+    if (type !== 1) {
+      note('Resource', type === 0 ? 'Material resource' : 'Cost resource', name);
+      continue;
+    }
+
+    for (const field of UNMAPPED_RESOURCE_FIELDS) {
+      if (hasValue(node[field])) note('Resource', field, name);
+    }
+    noteCustomFields('Resource', node, name);
+    resources.push({ uid, name, email: textOf(node, 'EmailAddress') || null });
+  }
+
+  const assignments = children(root.Assignments?.Assignment).map(node => ({
+    taskUid: textOf(node, 'TaskUID'),
+    resourceUid: textOf(node, 'ResourceUID'),
+    workHours: parseDurationHours(textOf(node, 'Work'), minutesPerDay),
+    units: numberOf(node, 'Units', 1)
+  }));
+
+  // Without a Duration the task lasts as long as its slowest assignment takes for its work
+  for (const task of tasks) {
+    if (task.durationHours > 0 || task.milestone || task.workHours <= 0) continue;
+    const spans = assignments
+      .filter(assignment => assignment.taskUid === task.uid && assignment.units > 0)
+      .map(assignment => assignment.workHours / assignment.units);
+    task.durationHours = spans.length > 0 ? Math.max(...spans) : task.workHours;
+  }
+
+  return {
+    title: textOf(root, 'Title') || textOf(root, 'Name'),
+    minutesPerDay,
+    calendar: readCalendar(children(root.Calendars?.Calendar), textOf(root, 'CalendarUID'), minutesPerDay, note),
+    tasks,
+    resources,
+    assignments,
+    unmapped: [...unmapped.values()]
+  };
+}
+
+/**
+ * Write an MSPDI file MS Project opens as a new project. Outline numbers follow from the task
+ * order and levels; the calendar becomes the project's base calendar.
+ */
+export function buildMspdi(document: MspdiDocument): string {
+  const calendar = document.calendar;
+  const counters: number[] = [];
+  const starts = document.tasks.map(task => task.start).filter((date): date is Date => !!date);
+
+  const tasks = document.tasks.map((task, index) => {
+    counters.length = task.outlineLevel;
+    counters[task.outlineLevel - 1] = (counters[task.outlineLevel - 1] ?? 0) + 1;
+    const outlineNumber = Array.from(counters, counter => counter ?? 1).join('.');
+
+    return {
+      UID: task.uid,
+      ID: index + 1,
+      Name: task.name,
+      IsNull: 0,
+      WBS: outlineNumber,
+      OutlineNumber: outlineNumber,
+      OutlineLevel: task.outlineLevel,
+      Priority: task.priority,
+      Start: formatDate(task.start),
+      Finish: formatDate(task.finish),
+      Duration: formatDuration(task.durationHours),
+      DurationFormat: LAG_FORMAT_DAYS,
+      Work: formatDuration(task.workHours),
+      Milestone: task.milestone ? 1 : 0,
+      Summary: task.summary ? 1 : 0,
+      PercentComplete: task.percentComplete,
+      ConstraintType: MSPDI_CONSTRAINT_TYPES.indexOf(task.constraintType),
+      ConstraintDate: formatDate(task.constraintDate),
+      Notes: task.notes || undefined,
+      PredecessorLink: task.links.map(link => ({
+        PredecessorUID: link.predecessorUid,
+        Type: LINK_TYPES.indexOf(link.type),
+        CrossProject: 0,
+        ...writeLag(link, document.minutesPerDay)
+      }))
+    };
+  });
+
+  const project = {
+    '@_xmlns': MSPDI_NAMESPACE,
+    SaveVersion: 14,
+    Title: document.title,
+    ScheduleFromStart: 1,
+    StartDate: formatDate(starts.length > 0 ? new Date(Math.min(...starts.map(date => date.getTime()))) : null),
+    CalendarUID: calendar ? 1 : undefined,
+    MinutesPerDay: document.minutesPerDay,
+    MinutesPerWeek: document.minutesPerDay * (calendar?.workingDays.length ?? 5),
+    DaysPerMonth: 20,
+    Calendars: calendar ? { Calendar: [calendarNode(calendar)] } : undefined,
+    Tasks: { Task: tasks },
+    Resources: {
+      Resource: document.resources.map((resource, index) => ({
+        UID: resource.uid,
+        ID: index + 1,
+        Name: resource.name,
+        Type: 1,
+        IsNull: 0,
+        EmailAddress: resource.email ?? undefined
+      }))
+    },
+    Assignments: {
+      Assignment: document.assignments.map((assignment, index) => ({
+        UID: index + 1,
+        TaskUID: assignment.taskUid,
+        ResourceUID: assignment.resourceUid,
+        Units: assignment.units,
+        Work: formatDuration(assignment.workHours)
+      }))
+    }
+  };
+
+  const xml = new XMLBuilder({ ignoreAttributes: false, format: true, suppressEmptyNode: true }).build({ Project: project });
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${xml}`;
+}
+
+function readCalendar(
+  calendars: XmlNode[],
+  calendarUid: string,
+  minutesPerDay: number,
+  note: (element: string, field: string, example: string) => void
+): MspdiCalendar | null {
+  const byUid = new Map(calendars.map(calendar => [textOf(calendar, 'UID'), calendar]));
+  const calendar = byUid.get(calendarUid) ?? calendars.find(candidate => flagOf(candidate, 'IsBaseCalendar'));
+  if (!calendar) return null;
+
+  const name = textOf(calendar, 'Name') || 'Standard';
+  const weekDays = new Map<number, XmlNode>();
+  const holidays = new Set<string>();
+
+  const addException = (exception: XmlNode) => {
+    const from = parseDate(textOf(exception.TimePeriod ?? {}, 'FromDate'));
+    const to = parseDate(textOf(exception.TimePeriod ?? {}, 'ToDate')) ?? from;
+    if (!from || !to) return;
+    if (flagOf(exception, 'DayWorking')) {
+      note('Calendar', 'Working-time exception', name);
+      return;
+    }
+    // Type 1 is a plain daily range; the others repeat weekly, monthly or yearly
+    const type = textOf(exception, 'Type');
+    if (type && type !== '1') {
+      note('Calendar', 'Recurring exception', textOf(exception, 'Name') || name);
+      return;
+    }
+    const first = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+    const span = Math.floor((to.getTime() - first) / DAY_MS) + 1;
+    if (span > MAX_EXCEPTION_DAYS) {
+      note('Calendar', `Exception days beyond the first ${MAX_EXCEPTION_DAYS}`, textOf(exception, 'Name') || name);
+    }
+    const days = Math.min(span, MAX_EXCEPTION_DAYS);
+    for (let day = 0; day < days; day++) {
+      holidays.add(new Date(first + day * DAY_MS).toISOString().slice(0, 10));
+    }
+  };
+
+  // A derived calendar inherits weekdays and exceptions from its base; its own settings win
+  const chain: XmlNode[] = [];
+  for (let current: XmlNode | undefined = calendar; current && !chain.includes(current);) {
+    chain.push(current);
+    current = byUid.get(textOf(current, 'BaseCalendarUID'));
+  }
+  for (const current of chain.reverse()) {
+    for (const weekDay of children(current.WeekDays?.WeekDay)) {
+      const dayType = numberOf(weekDay, 'DayType', -1);
+      if (dayType === 0) addException(weekDay); // Pre-2007 files list exceptions as day type 0
+      else if (dayType >= 1 && dayType <= 7) weekDays.set(dayType, weekDay);
+    }
+    children(current.Exceptions?.Exception).forEach(addException);
+    if (children(current.WorkWeeks?.WorkWeek).length > 0) {
+      note('Calendar', 'Alternate work weeks', textOf(current, 'Name') || name);
+    }
+  }
+
+  const workingDays: number[] = [];
+  const hoursByDay: number[] = [];
+  for (let dayType = 1; dayType <= 7; dayType++) {
+    const weekDay = weekDays.get(dayType);
+    const working = weekDay ? flagOf(weekDay, 'DayWorking') : dayType >= 2 && dayType <= 6;
+    if (!working) continue;
+
+    workingDays.push(dayType - 1);
+    const times = children(weekDay?.WorkingTimes?.WorkingTime);
+    hoursByDay.push(times.length > 0
+      ? times.reduce((sum, time) => sum + clockHours(textOf(time, 'ToTime'), true) - clockHours(textOf(time, 'FromTime'), false), 0)
+      : minutesPerDay / 60);
+  }
+
+  // The project model has a single day length; the most common one is kept
+  const counts = new Map<number, number>();
+  hoursByDay.forEach(hours => counts.set(hours, (counts.get(hours) ?? 0) + 1));
+  const [dailyHours] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [minutesPerDay / 60];
+  if (counts.size > 1) {
+    note('Calendar', 'Working hours that differ between weekdays', name);
+  }
+  const wholeHours = Math.min(24, Math.max(1, Math.round(dailyHours)));
+  if (wholeHours !== dailyHours) {
+    note('Calendar', 'Working hours rounded to whole hours', name);
+  }
+
+  return {
+    name,
+    workingDays,
+    dailyHours: wholeHours,
+    holidays: [...holidays].sort()
+  };
+}
+
+function calendarNode(calendar: MspdiCalendar): XmlNode {
+  const weekDays = [];
+  for (let dayType = 1; dayType <= 7; dayType++) {
+    const working = calendar.workingDays.includes(dayType - 1);
+    weekDays.push({
+      DayType: dayType,
+      DayWorking: working ? 1 : 0,
+      WorkingTimes: working ? { WorkingTime: workingTimes(calendar.dailyHours) } : undefined
+    });
+  }
+
+  return {
+    UID: 1,
+    Name: calendar.name,
+    IsBaseCalendar: 1,
+    WeekDays: { WeekDay: weekDays },
+    Exceptions: {
+      Exception: calendar.holidays.map(date => ({
+        EnteredByOccurrences: 0,
+        TimePeriod: { FromDate: `${date}T00:00:00`, ToDate: `${date}T23:59:00` },
+        Occurrences: 1,
+        Name: 'Holiday',
+        Type: 1,
+        DayWorking: 0
+      }))
+    }
+  };
+}
+
+function workingTimes(hours: number): Array<{ FromTime: string; ToTime: string }> {
+  const clock = (hour: number) => `${String(hour % 24).padStart(2, '0')}:00:00`;
+  // Morning and afternoon around a lunch hour, as in MS Project's Standard calendar
+  if (hours > 4 && hours <= 15) {
+    return [{ FromTime: clock(8), ToTime: clock(12) }, { FromTime: clock(13), ToTime: clock(9 + hours) }];
+  }
+  const start = hours > 16 ? 0 : 8;
+  return [{ FromTime: clock(start), ToTime: clock(start + hours) }];
+}
+
+function readLag(link: XmlNode, minutesPerDay: number): Pick<MspdiLink, 'lag' | 'lagUnit'> {
+  // LinkLag is in tenths of a minute, or tenths of a percent for percentage lags
+  const raw = numberOf(link, 'LinkLag', 0);
+  let format = numberOf(link, 'LagFormat', LAG_FORMAT_DAYS);
+  if (format > LAG_FORMAT_PERCENT_ELAPSED) format -= LAG_FORMAT_ESTIMATED_OFFSET;
+
+  if (format === LAG_FORMAT_PERCENT || format === LAG_FORMAT_PERCENT_ELAPSED) {
+    return { lag: round2(raw / 10), lagUnit: 'percent' };
+  }
+  if (format >= LAG_FORMAT_DAYS && format <= LAG_FORMAT_MONTHS_ELAPSED) {
+    return { lag: round2(raw / (10 * minutesPerDay)), lagUnit: 'days' };
+  }
+  return { lag: round2(raw / 600), lagUnit: 'hours' };
+}
+
+function writeLag(link: MspdiLink, minutesPerDay: number): { LinkLag: number; LagFormat: number } {
+  if (link.lagUnit === 'percent') {
+    return { LinkLag: Math.round(link.lag * 10), LagFormat: LAG_FORMAT_PERCENT };
+  }
+  if (link.lagUnit === 'days') {
+    return { LinkLag: Math.round(link.lag * 10 * minutesPerDay), LagFormat: LAG_FORMAT_DAYS };
+  }
+  return { LinkLag: Math.round(link.lag * 600), LagFormat: LAG_FORMAT_HOURS };
+}
+
+/**
+ * ISO 8601 duration as MS Project writes it ("PT16H0M0S"); days count as working days
+ */
+function parseDurationHours(value: string, minutesPerDay: number): number {
+  const match = /^(-)?P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(value);
+  if (!match) return 0;
+
+  const [, sign, days = '0', hours = '0', minutes = '0', seconds = '0'] = match;
+  const total = Number(days) * (minutesPerDay / 60) + Number(hours) + Number(minutes) / 60 + Number(seconds) / 3600;
+  return sign ? -total : total;
+}
+
+function formatDuration(hours: number): string {
+  const minutes = Math.round(hours * 60);
+  return `PT${Math.floor(minutes / 60)}H${minutes % 60}M0S`;
+}
+
+// MSPDI times carry no zone; they are read and written as UTC like the rest of the API
+function parseDate(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(/[zZ]|[+-]\d{2}:\d{2}$/.test(value) ? value : `${value}Z`);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function formatDate(date: Date | null): string | undefined {
+  return date ? date.toISOString().slice(0, 19) : undefined;
+}
+
+function clockHours(value: string, endOfDay: boolean): number {
+  const [hours = 0, minutes = 0] = value.split(':').map(Number);
+  const total = hours + minutes / 60;
+  // "00:00:00" as a finish time is midnight at the end of the day
+  return endOfDay && total === 0 ? 24 : total;
+}
+
+function children(value: unknown): XmlNode[] {
+  return Array.isArray(value) ? value.filter(item => item && typeof item === 'object') : [];
+}
+
+function textOf(node: XmlNode, key: string): string {
+  const value = node?.[key];
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+function numberOf(node: XmlNode, key: string, fallback: number): number {
+  const value = Number(textOf(node, key) || NaN);
+  return isNaN(value) ? fallback : value;
+}
+
+function flagOf(node: XmlNode, key: string): boolean {
+  const value = textOf(node, key).toLowerCase();
+  return value === '1' || value === 'true';
+}
+
+function hasValue(value: unknown): boolean {
+  if (value && typeof value === 'object') return true;
+  if (typeof value !== 'string') return false;
+  const trimmed = value.trim();
+  return trimmed !== '' && !/^0+(\.0+)?$/.test(trimmed) && !/^PT0H0M0S$/.test(trimmed);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request,
+  Res
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth,
+  ApiProduces
+} from '@nestjs/swagger';
+import { Response } from 'express';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { MspdiService } from './mspdi.service';
+import { ImportMspdiDto, MspdiImportResultDto } from './dto/mspdi.dto';
+
+@ApiTags('MS Project')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId')
+export class MspdiController {
+  constructor(private readonly mspdiService: MspdiService) {}
+
+  @Post('import/mspdi')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import a Microsoft Project XML (MSPDI) file',
+    description: 'Tasks become issues in the same outline, predecessor links become dependencies, resources are '
+      + 'matched to users by email and added as members, and the project calendar becomes the default calendar. '
+      + 'Cost fields, custom fields and other data with no counterpart are listed under unmapped.'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Mapping preview and, unless a dry run, the created issues', type: MspdiImportResultDto })
+  @ApiResponse({ status: 400, description: 'Not an MSPDI file or too many tasks' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async importProject(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: ImportMspdiDto,
+    @Request() req: any
+  ): Promise<MspdiImportResultDto> {
+    return this.mspdiService.importProject(projectId, dto, req.user?.id || 'system');
+  }
+
+  @Get('export/mspdi')
+  @ApiOperation({
+    summary: 'Export the project as Microsoft Project XML (MSPDI)',
+    description: 'The WBS as a task outline with links, members as work resources with their assignments, '
+      + 'and the default calendar'
+  })
+  @ApiProduces('application/xml')
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Project.xml' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async exportProject(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Res() res: Response
+  ) {
+    const file = await this.mspdiService.exportProject(projectId);
+
+    res.set('Content-Type', file.contentType);
+    res.set('Content-Disposition', `attachment; filename="${file.filename}"`);
+    return res.send(file.body);
+  }
+}
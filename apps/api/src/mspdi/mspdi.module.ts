@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { IssuesModule } from '../issues/issues.module';
+import { SchedulingModule } from '../scheduling/scheduling.module';
+import { MspdiController } from './mspdi.controller';
+import { MspdiService } from './mspdi.service';
+
+@Module({
+  imports: [PrismaModule, IssuesModule, SchedulingModule],
+  controllers: [MspdiController],
+  providers: [MspdiService],
+  exports: [MspdiService]
+})
+export class MspdiModule {}
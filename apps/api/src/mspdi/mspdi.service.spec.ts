@@ -0,0 +1,67 @@
+import { MspdiService } from './mspdi.service';
+
+const PROJECT_ID = 'project-1';
+
+function createService() {
+  const prisma = {
+    project: { findUnique: jest.fn().mockResolvedValue({ id: PROJECT_ID, name: 'Plan', calendarId: null }) },
+    user: { findMany: jest.fn().mockResolvedValue([{ id: 'user-alice', email: 'alice@example.com' }]) },
+    projectMember: { findMany: jest.fn().mockResolvedValue([{ userId: 'user-alice' }]) }
+  };
+  return new MspdiService(prisma as never, {} as never, {} as never);
+}
+
+function importDryRun(tasks: string, assignments = '') {
+  const content = `<?xml version="1.0"?>
+<Project xmlns="http://schemas.microsoft.com/project">
+  <Title>Plan</Title>
+  <MinutesPerDay>480</MinutesPerDay>
+  <Tasks>${tasks}</Tasks>
+  <Resources>
+    <Resource><UID>1</UID><Name>Alice</Name><Type>1</Type><EmailAddress>alice@example.com</EmailAddress></Resource>
+    <Resource><UID>2</UID><Name>Bob</Name><Type>1</Type></Resource>
+  </Resources>
+  <Assignments>${assignments}</Assignments>
+</Project>`;
+  return createService().importProject(PROJECT_ID, { content, dryRun: true }, 'user-1');
+}
+
+describe('MspdiService.importProject estimates', () => {
+  it('takes the estimate from the duration rather than work summed over resources', async () => {
+    const result = await importDryRun(`
+      <Task><UID>1</UID><Name>Pair work</Name><OutlineLevel>1</OutlineLevel>
+        <Duration>PT16H0M0S</Duration><Work>PT32H0M0S</Work></Task>`, `
+      <Assignment><TaskUID>1</TaskUID><ResourceUID>1</ResourceUID><Units>1</Units><Work>PT16H0M0S</Work></Assignment>
+      <Assignment><TaskUID>1</TaskUID><ResourceUID>2</ResourceUID><Units>1</Units><Work>PT16H0M0S</Work></Assignment>`);
+
+    expect(result.tasks[0]).toMatchObject({ estimateValue: 16, assigneeId: 'user-alice' });
+    expect(result.unmapped).toEqual(expect.arrayContaining([
+      { element: 'Task', field: 'Work that differs from the duration', count: 1, examples: ['Pair work'] },
+      { element: 'Assignment', field: 'Additional resource on a task', count: 1, examples: ['Pair work'] }
+    ]));
+  });
+
+  it('does not stretch a part-time task by its work', async () => {
+    const result = await importDryRun(`
+      <Task><UID>1</UID><Name>Half days</Name><OutlineLevel>1</OutlineLevel>
+        <Duration>PT16H0M0S</Duration><Work>PT8H0M0S</Work></Task>`, `
+      <Assignment><TaskUID>1</TaskUID><ResourceUID>1</ResourceUID><Units>0.5</Units><Work>PT8H0M0S</Work></Assignment>`);
+
+    expect(result.tasks[0].estimateValue).toBe(16);
+  });
+
+  it('reports rounded durations and leaves summary estimates to the roll-up', async () => {
+    const result = await importDryRun(`
+      <Task><UID>1</UID><Name>Phase</Name><OutlineLevel>1</OutlineLevel><Summary>1</Summary>
+        <Duration>PT12H30M0S</Duration><Work>PT12H30M0S</Work></Task>
+      <Task><UID>2</UID><Name>Quick fix</Name><OutlineLevel>2</OutlineLevel>
+        <Duration>PT2H30M0S</Duration><Work>PT2H30M0S</Work></Task>
+      <Task><UID>3</UID><Name>Build</Name><OutlineLevel>2</OutlineLevel>
+        <Duration>PT10H0M0S</Duration><Work>PT10H0M0S</Work></Task>`);
+
+    expect(result.tasks.map(task => task.estimateValue)).toEqual([0, 3, 10]);
+    expect(result.unmapped).toEqual([
+      { element: 'Task', field: 'Duration rounded to whole hours', count: 1, examples: ['Quick fix'] }
+    ]);
+  });
+});
@@ -0,0 +1,493 @@
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { IssuesService } from '../issues/issues.service';
+import { CreateIssueDto } from '../issues/dto/create-issue.dto';
+import { DependencyType, LagUnit } from '../issues/dto/dependency.dto';
+import {
+  CalendarService,
+  DEFAULT_WORKING_DAYS,
+  DEFAULT_WORKING_HOURS_PER_DAY
+} from '../scheduling/services/calendar.service';
+import { ExportFile } from '../exports/exports.service';
+import {
+  parseMspdi,
+  buildMspdi,
+  MspdiDocument,
+  MspdiLink,
+  MspdiTask,
+  MspdiUnmapped
+} from './mspdi-document';
+import {
+  ImportMspdiDto,
+  MspdiImportResultDto,
+  MspdiTaskResultDto,
+  MspdiResourceResultDto,
+  MspdiCalendarResultDto
+} from './dto/mspdi.dto';
+
+// Same ceiling as the spreadsheet import; larger plans should be split
+const MAX_IMPORT_TASKS = 5000;
+// CreateCalendarDto accepts at most this many holidays
+const MAX_CALENDAR_HOLIDAYS = 1000;
+
+const CONSTRAINTS_WITH_DATE = ['SNET', 'FNLT', 'MSO', 'MFO'];
+
+interface ImportTask {
+  task: MspdiTask;
+  result: MspdiTaskResultDto;
+  parent: ImportTask | null;
+  children: ImportTask[];
+  links: Array<{ predecessor: ImportTask; link: MspdiLink }>;
+}
+
+@Injectable()
+export class MspdiService {
+  private readonly logger = new Logger(MspdiService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly issuesService: IssuesService,
+    private readonly calendarService: CalendarService
+  ) {}
+
+  /**
+   * Maps an MSPDI file onto the project: tasks become issues in the same outline, links
+   * become dependencies, resources are matched to users by email and added as members,
+   * and the project calendar becomes the default calendar. Data with no counterpart is
+   * listed under unmapped rather than dropped silently.
+   */
+  async importProject(projectId: string, dto: ImportMspdiDto, userId: string): Promise<MspdiImportResultDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const document = parseMspdi(dto.content);
+    if (document.tasks.length > MAX_IMPORT_TASKS) {
+      throw new BadRequestException(
+        `At most ${MAX_IMPORT_TASKS} tasks can be imported at once; the file has ${document.tasks.length}`
+      );
+    }
+
+    const unmapped = [...document.unmapped];
+    const resources = await this.resolveResources(projectId, document);
+    const { roots, tasks } = this.buildTasks(document, resources, unmapped);
+    const calendar = this.toCalendarResult(document, unmapped);
+
+    const result: MspdiImportResultDto = {
+      dryRun: !!dto.dryRun,
+      imported: false,
+      title: document.title,
+      createdIssues: 0,
+      createdDependencies: 0,
+      tasks: tasks.map(entry => entry.result),
+      resources,
+      calendar,
+      unmapped,
+      errors: []
+    };
+    if (dto.dryRun) {
+      return result;
+    }
+
+    await this.write(projectId, dto, roots, tasks, userId, result);
+    return result;
+  }
+
+  /**
+   * Project.xml: the WBS as an outline of tasks with links, members as work resources with
+   * their assignments, and the default calendar as the project calendar
+   */
+  async exportProject(projectId: string): Promise<ExportFile> {
+    const project = await this.getProjectOrThrow(projectId);
+    const outline = await this.issuesService.getWBSOutline(projectId);
+
+    const [issues, dependencies, members, calendar] = await Promise.all([
+      this.prisma.issue.findMany({
+        where: { projectId, deletedAt: null },
+        include: { assignee: { select: { id: true, name: true, email: true } } }
+      }),
+      this.prisma.dependency.findMany({ where: { projectId }, orderBy: { createdAt: 'asc' } }),
+      this.prisma.projectMember.findMany({
+        where: { projectId, isActive: true },
+        include: { user: { select: { id: true, name: true, email: true } } },
+        orderBy: { joinedAt: 'asc' }
+      }),
+      project.calendarId
+        ? this.prisma.calendar.findUnique({ where: { id: project.calendarId } })
+        : this.prisma.calendar.findFirst({ where: { projectId }, orderBy: { name: 'asc' } })
+    ]);
+
+    const issueById = new Map(issues.map(issue => [issue.id, issue]));
+    const taskUids = new Map(outline.map((node, index) => [node.id, `${index + 1}`]));
+    const linksBySuccessor = new Map<string, MspdiLink[]>();
+    for (const dependency of dependencies) {
+      if (!taskUids.has(dependency.predecessorId)) continue;
+      linksBySuccessor.set(dependency.successorId, [...(linksBySuccessor.get(dependency.successorId) ?? []), {
+        predecessorUid: taskUids.get(dependency.predecessorId) as string,
+        type: dependency.type as MspdiLink['type'],
+        lag: dependency.lag,
+        lagUnit: dependency.lagUnit as MspdiLink['lagUnit']
+      }]);
+    }
+
+    // Members first, then assignees who have since left the project
+    const people = new Map(members.map(member => [member.user.id, member.user]));
+    for (const { assignee } of issues) {
+      if (assignee && !people.has(assignee.id)) people.set(assignee.id, assignee);
+    }
+    const resourceUids = new Map([...people.keys()].map((id, index) => [id, `${index + 1}`]));
+
+    const document: MspdiDocument = {
+      title: project.name,
+      minutesPerDay: (calendar?.dailyHours ?? DEFAULT_WORKING_HOURS_PER_DAY) * 60,
+      calendar: {
+        name: calendar?.name ?? 'Standard',
+        workingDays: calendar?.workingDays ?? DEFAULT_WORKING_DAYS,
+        dailyHours: calendar?.dailyHours ?? DEFAULT_WORKING_HOURS_PER_DAY,
+        holidays: calendar?.holidays ?? []
+      },
+      tasks: [],
+      resources: [...people.values()].map(user => ({
+        uid: resourceUids.get(user.id) as string,
+        name: user.name,
+        email: user.email
+      })),
+      assignments: [],
+      unmapped: []
+    };
+
+    for (const node of outline) {
+      const issue = issueById.get(node.id);
+      if (!issue) continue;
+      const uid = taskUids.get(node.id) as string;
+
+      document.tasks.push({
+        uid,
+        name: issue.title,
+        outlineLevel: node.level + 1,
+        start: issue.startDate,
+        finish: issue.dueDate,
+        durationHours: node.estimatedHours,
+        workHours: node.estimatedHours,
+        summary: node.childCount > 0,
+        milestone: node.childCount === 0 && node.estimatedHours === 0,
+        percentComplete: node.progress,
+        priority: issue.priority * 100,
+        notes: issue.description,
+        constraintType: (issue.constraintType as MspdiTask['constraintType']) ?? 'ASAP',
+        constraintDate: issue.constraintDate,
+        links: linksBySuccessor.get(issue.id) ?? []
+      });
+      if (issue.assigneeId && resourceUids.has(issue.assigneeId)) {
+        document.assignments.push({
+          taskUid: uid,
+          resourceUid: resourceUids.get(issue.assigneeId) as string,
+          workHours: node.estimatedHours,
+          units: 1
+        });
+      }
+    }
+
+    return { filename: 'Project.xml', contentType: 'application/xml', body: buildMspdi(document) };
+  }
+
+  private async write(
+    projectId: string,
+    dto: ImportMspdiDto,
+    roots: ImportTask[],
+    tasks: ImportTask[],
+    userId: string,
+    result: MspdiImportResultDto
+  ): Promise<void> {
+    const issueIds = new Map<ImportTask, string>();
+
+    try {
+      for (const resource of result.resources) {
+        if (resource.membership !== 'added') continue;
+        await this.prisma.projectMember.upsert({
+          where: { projectId_userId: { projectId, userId: resource.userId as string } },
+          update: { isActive: true },
+          create: { projectId, userId: resource.userId as string, role: 'member' }
+        });
+      }
+
+      if (result.calendar && dto.importCalendar !== false) {
+        result.calendar.calendarId = await this.applyCalendar(projectId, result.calendar, userId);
+      }
+
+      // Parents first, siblings in file order, so order indexes follow the outline
+      const queue = [...roots];
+      while (queue.length > 0) {
+        const entry = queue.shift() as ImportTask;
+        const issue = await this.issuesService.create(projectId, this.toCreateIssueDto(projectId, entry, issueIds), userId);
+        issueIds.set(entry, issue.id);
+        entry.result.issueId = issue.id;
+        result.createdIssues++;
+        queue.push(...entry.children);
+      }
+
+      for (const entry of tasks) {
+        for (const { predecessor, link } of entry.links) {
+          // MS Project accepts links this API refuses, e.g. between a summary and its own subtask
+          try {
+            await this.issuesService.createDependency(projectId, {
+              predecessorId: issueIds.get(predecessor) as string,
+              successorId: issueIds.get(entry) as string,
+              type: link.type as DependencyType,
+              lag: link.lag,
+              lagUnit: link.lagUnit as LagUnit
+            });
+            result.createdDependencies++;
+          } catch (error) {
+            entry.result.warnings.push(`Link from task ${predecessor.task.uid} not created: ${error.message}`);
+          }
+        }
+      }
+
+      await this.issuesService.rebuildWBSNodes(projectId);
+      result.imported = true;
+    } catch (error) {
+      this.logger.error(`MSPDI import into project ${projectId} stopped: ${error.message}`);
+      result.errors.push(`Import stopped: ${error.message}`);
+    }
+  }
+
+  private async applyCalendar(projectId: string, calendar: MspdiCalendarResultDto, userId: string): Promise<string> {
+    const settings = {
+      name: calendar.name,
+      workingDays: calendar.workingDays,
+      holidays: calendar.holidays,
+      dailyHours: calendar.dailyHours,
+      isDefault: true
+    };
+
+    // Importing the same plan again refreshes its calendar instead of failing on the name
+    const existing = await this.prisma.calendar.findFirst({
+      where: { projectId, name: calendar.name },
+      select: { id: true }
+    });
+    const saved = existing
+      ? await this.calendarService.update(projectId, existing.id, settings, userId)
+      : await this.calendarService.create(projectId, settings, userId);
+    return saved.id;
+  }
+
+  private toCreateIssueDto(projectId: string, entry: ImportTask, issueIds: Map<ImportTask, string>): CreateIssueDto {
+    const { result, task } = entry;
+    return {
+      projectId,
+      parentIssueId: entry.parent ? issueIds.get(entry.parent) : undefined,
+      title: result.title,
+      description: task.notes,
+      type: 'feature',
+      status: result.status,
+      priority: result.priority,
+      estimateValue: result.estimateValue,
+      estimateUnit: 'h',
+      assigneeId: result.assigneeId ?? undefined,
+      startDate: result.startDate ?? undefined,
+      dueDate: result.dueDate ?? undefined,
+      constraintType: (result.constraintType ?? undefined) as CreateIssueDto['constraintType'],
+      constraintDate: result.constraintType && result.constraintType !== 'ALAP'
+        ? task.constraintDate?.toISOString()
+        : undefined,
+      progress: result.progress,
+      labels: []
+    };
+  }
+
+  private async resolveResources(projectId: string, document: MspdiDocument): Promise<MspdiResourceResultDto[]> {
+    const emails = [...new Set(document.resources.map(resource => resource.email?.toLowerCase()).filter(Boolean))];
+    const users = emails.length > 0
+      ? await this.prisma.user.findMany({
+        where: { email: { in: emails, mode: 'insensitive' }, isActive: true },
+        select: { id: true, email: true }
+      })
+      : [];
+    const members = await this.prisma.projectMember.findMany({
+      where: { projectId, isActive: true, userId: { in: users.map(user => user.id) } },
+      select: { userId: true }
+    });
+
+    const userByEmail = new Map(users.map(user => [user.email.toLowerCase(), user.id]));
+    const memberIds = new Set(members.map(member => member.userId));
+
+    return document.resources.map(resource => {
+      const userId = resource.email ? userByEmail.get(resource.email.toLowerCase()) ?? null : null;
+      return {
+        uid: resource.uid,
+        name: resource.name,
+        email: resource.email,
+        userId,
+        membership: !userId ? 'unmatched' : memberIds.has(userId) ? 'existing' : 'added'
+      };
+    });
+  }
+
+  private buildTasks(
+    document: MspdiDocument,
+    resources: MspdiResourceResultDto[],
+    unmapped: MspdiUnmapped[]
+  ): { roots: ImportTask[]; tasks: ImportTask[] } {
+    const resourceByUid = new Map(resources.map(resource => [resource.uid, resource]));
+    const assignmentsByTask = new Map<string, typeof document.assignments>();
+    for (const assignment of document.assignments) {
+      if (!resourceByUid.has(assignment.resourceUid)) continue; // Material, cost or placeholder resources
+      assignmentsByTask.set(assignment.taskUid, [...(assignmentsByTask.get(assignment.taskUid) ?? []), assignment]);
+    }
+
+    const roots: ImportTask[] = [];
+    const tasks: ImportTask[] = [];
+    const stack: ImportTask[] = [];
+
+    for (const task of document.tasks) {
+      const warnings: string[] = [];
+      let depth = task.outlineLevel - 1;
+      if (depth > stack.length) {
+        warnings.push(`Outline level ${task.outlineLevel} has no task at level ${task.outlineLevel - 1} above it`);
+        depth = stack.length;
+      }
+      stack.length = depth;
+      const parent = stack[depth - 1] ?? null;
+
+      if (task.name.length > 256) {
+        this.noteUnmapped(unmapped, 'Task', 'Name beyond 256 characters', task.name.slice(0, 256));
+      }
+      const entry: ImportTask = {
+        task,
+        parent,
+        children: [],
+        links: [],
+        result: {
+          uid: task.uid,
+          title: task.name.slice(0, 256),
+          level: depth,
+          parentUid: parent?.task.uid ?? null,
+          status: task.percentComplete >= 100 ? 'done' : task.percentComplete > 0 ? 'doing' : 'todo',
+          priority: Math.min(10, Math.max(1, Math.round(task.priority / 100))),
+          assigneeId: this.pickAssignee(task, assignmentsByTask.get(task.uid) ?? [], resourceByUid, warnings, unmapped),
+          startDate: task.start?.toISOString() ?? null,
+          dueDate: task.finish?.toISOString() ?? null,
+          estimateValue: 0,
+          progress: Math.round(task.percentComplete),
+          constraintType: this.mapConstraint(task, warnings),
+          predecessors: [],
+          issueId: null,
+          warnings
+        }
+      };
+      (parent ? parent.children : roots).push(entry);
+      tasks.push(entry);
+      stack.push(entry);
+    }
+
+    const byUid = new Map(tasks.map(entry => [entry.task.uid, entry]));
+    for (const entry of tasks) {
+      // Summary estimates are the sum of their subtasks, which the WBS rolls up again
+      if (entry.children.length === 0) {
+        this.setEstimate(entry, unmapped);
+      }
+
+      for (const link of entry.task.links) {
+        const predecessor = byUid.get(link.predecessorUid);
+        if (!predecessor || predecessor === entry) {
+          this.noteUnmapped(unmapped, 'Task', 'Predecessor link to a task not in the file', entry.task.name);
+          continue;
+        }
+        entry.links.push({ predecessor, link });
+        entry.result.predecessors.push({ uid: link.predecessorUid, type: link.type, lag: link.lag, lagUnit: link.lagUnit });
+      }
+    }
+
+    return { roots, tasks };
+  }
+
+  /**
+   * The estimate is the task's duration in whole hours. Work summed over several resources
+   * or stretched by part-time units would overstate it, so differing work is reported instead.
+   */
+  private setEstimate(entry: ImportTask, unmapped: MspdiUnmapped[]): void {
+    const { task } = entry;
+    const hours = Math.max(0, task.durationHours);
+    entry.result.estimateValue = Math.round(hours);
+
+    if (task.workHours > 0 && Math.abs(task.workHours - hours) >= 0.01) {
+      this.noteUnmapped(unmapped, 'Task', 'Work that differs from the duration', task.name);
+    }
+    if (entry.result.estimateValue !== hours) {
+      this.noteUnmapped(unmapped, 'Task', 'Duration rounded to whole hours', task.name);
+    }
+  }
+
+  /**
+   * Issues have a single assignee; the resource with the most work on the task is kept
+   */
+  private pickAssignee(
+    task: MspdiTask,
+    assignments: MspdiDocument['assignments'],
+    resourceByUid: Map<string, MspdiResourceResultDto>,
+    warnings: string[],
+    unmapped: MspdiUnmapped[]
+  ): string | null {
+    const [first, ...others] = [...assignments].sort((a, b) => b.workHours - a.workHours);
+    if (!first) return null;
+
+    others.forEach(() => this.noteUnmapped(unmapped, 'Assignment', 'Additional resource on a task', task.name));
+    const resource = resourceByUid.get(first.resourceUid) as MspdiResourceResultDto;
+    if (!resource.userId) {
+      warnings.push(`Resource ${resource.name} matches no active user by email; left unassigned`);
+    }
+    return resource.userId;
+  }
+
+  private mapConstraint(task: MspdiTask, warnings: string[]): string | null {
+    if (task.constraintType === 'ALAP') return 'ALAP';
+    if (!CONSTRAINTS_WITH_DATE.includes(task.constraintType)) return null;
+    if (!task.constraintDate) {
+      warnings.push(`Constraint ${task.constraintType} has no date; left unconstrained`);
+      return null;
+    }
+    return task.constraintType;
+  }
+
+  private toCalendarResult(document: MspdiDocument, unmapped: MspdiUnmapped[]): MspdiCalendarResultDto | null {
+    const { calendar } = document;
+    if (!calendar) return null;
+
+    if (calendar.name.length > 100) {
+      this.noteUnmapped(unmapped, 'Calendar', 'Name beyond 100 characters', calendar.name.slice(0, 100));
+    }
+    if (calendar.holidays.length > MAX_CALENDAR_HOLIDAYS) {
+      this.noteUnmapped(unmapped, 'Calendar', `Holidays beyond the first ${MAX_CALENDAR_HOLIDAYS}`, calendar.name);
+    }
+    return {
+      name: calendar.name.slice(0, 100),
+      workingDays: calendar.workingDays,
+      dailyHours: calendar.dailyHours,
+      holidays: calendar.holidays.slice(0, MAX_CALENDAR_HOLIDAYS),
+      calendarId: null
+    };
+  }
+
+  private noteUnmapped(unmapped: MspdiUnmapped[], element: string, field: string, example: string): void {
+    let entry = unmapped.find(candidate => candidate.element === element && candidate.field === field);
+    if (!entry) {
+      entry = { element, field, count: 0, examples: [] };
+      unmapped.push(entry);
+    }
+    entry.count++;
+    if (entry.examples.length < 3 && !entry.examples.includes(example)) {
+      entry.examples.push(example);
+    }
+  }
+
+  private async getProjectOrThrow(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, name: true, calendarId: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+    return project;
+  }
+}
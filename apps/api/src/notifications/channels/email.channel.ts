@@ -0,0 +1,100 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Notification } from '@prisma/client';
+import { createTransport, Transporter } from 'nodemailer';
+import { NotificationChannel, NotificationRecipient } from './notification-channel.interface';
+
+const MANAGE_HINT = 'Change what you receive from the settings in the notification center.';
+
+/**
+ * Email delivery over SMTP. Disabled unless SMTP_HOST is set; for local development
+ * point it at a mail sink (e.g. Mailpit on localhost:1025) and read the messages there.
+ */
+@Injectable()
+export class EmailChannel implements NotificationChannel {
+  readonly name = 'email';
+
+  private readonly logger = new Logger(EmailChannel.name);
+  private readonly transport: Transporter | null;
+  private readonly from: string;
+  private readonly appUrl: string;
+
+  constructor(private readonly configService: ConfigService) {
+    const host = this.configService.get<string>('SMTP_HOST');
+    const secure = this.configService.get<string>('SMTP_SECURE') === 'true';
+    const user = this.configService.get<string>('SMTP_USER') || undefined;
+
+    this.transport = host
+      ? createTransport({
+          host,
+          port: Number(this.configService.get('SMTP_PORT')) || (secure ? 465 : 1025),
+          secure,
+          // Credentials only travel over TLS: without implicit TLS the server must accept STARTTLS
+          requireTLS: !secure && !!user,
+          auth: user ? { user, pass: this.configService.get<string>('SMTP_PASS') || '' } : undefined,
+          name: this.configService.get<string>('SMTP_CLIENT_NAME') || undefined
+        })
+      : null;
+    this.from = this.configService.get<string>('SMTP_FROM') || 'Gantt Chart <notifications@localhost>';
+    this.appUrl = (this.configService.get<string>('APP_URL') || 'http://localhost:3000').replace(/\/$/, '');
+
+    if (!this.transport) {
+      this.logger.log('SMTP_HOST not set; email notifications are disabled');
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.transport !== null;
+  }
+
+  async send(recipient: NotificationRecipient, notifications: Notification[], options: { digest: boolean }): Promise<void> {
+    if (!this.transport || notifications.length === 0) return;
+
+    const subject = options.digest
+      ? `Your daily digest: ${notifications.length} notification${notifications.length === 1 ? '' : 's'}`
+      : notifications[0].title;
+
+    await this.transport.sendMail({
+      from: this.from,
+      to: [recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email],
+      subject,
+      text: this.renderText(recipient, notifications, options.digest),
+      html: this.renderHtml(recipient, notifications, options.digest)
+    });
+  }
+
+  private renderText(recipient: NotificationRecipient, notifications: Notification[], digest: boolean): string {
+    const lines = notifications.map(notification =>
+      `- ${notification.title}: ${notification.message}\n  ${this.linkFor(notification)}`
+    );
+    const intro = digest ? `Hi ${recipient.name}, here is what happened since your last digest:` : `Hi ${recipient.name},`;
+    return [intro, '', ...lines, '', MANAGE_HINT].join('\n');
+  }
+
+  private renderHtml(recipient: NotificationRecipient, notifications: Notification[], digest: boolean): string {
+    const items = notifications
+      .map(notification =>
+        `<li><a href="${this.linkFor(notification)}"><strong>${escapeHtml(notification.title)}</strong></a>` +
+        `<br>${escapeHtml(notification.message)}</li>`
+      )
+      .join('');
+    const intro = digest
+      ? `Hi ${escapeHtml(recipient.name)}, here is what happened since your last digest:`
+      : `Hi ${escapeHtml(recipient.name)},`;
+    return `<p>${intro}</p><ul>${items}</ul><p>${MANAGE_HINT}</p>`;
+  }
+
+  private linkFor(notification: Notification): string {
+    return notification.issueId
+      ? `${this.appUrl}/issues/${notification.issueId}`
+      : `${this.appUrl}/projects/${notification.projectId}/gantt`;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,23 @@
+import { Notification } from '@prisma/client';
+
+export interface NotificationRecipient {
+  id: string;
+  email: string;
+  name: string;
+}
+
+/**
+ * Out-of-app delivery for inbox notifications. The inbox itself is the in-app channel;
+ * implementations register under NOTIFICATION_CHANNELS and are tried in order.
+ */
+export interface NotificationChannel {
+  readonly name: string;
+
+  // False when the channel is not configured; delivery skips it without marking anything sent
+  isEnabled(): boolean;
+
+  // One message per call; digest bundles the day's notifications instead of announcing a single one
+  send(recipient: NotificationRecipient, notifications: Notification[], options: { digest: boolean }): Promise<void>;
+}
+
+export const NOTIFICATION_CHANNELS = 'NOTIFICATION_CHANNELS';
@@ -0,0 +1,238 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+  ValidateIf
+} from 'class-validator';
+
+export const NOTIFICATION_KINDS = [
+  'due_soon',
+  'overdue',
+  'status_change',
+  'dependency_delay',
+  'assignee_change'
+] as const;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export class QueryNotificationsDto {
+  @ApiPropertyOptional({ description: 'Only unread notifications', default: false })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  unreadOnly?: boolean = false;
+
+  @ApiPropertyOptional({ description: 'Filter by notification kind', enum: NOTIFICATION_KINDS })
+  @IsOptional()
+  @IsEnum(NOTIFICATION_KINDS)
+  kind?: NotificationKind;
+
+  @ApiPropertyOptional({ description: 'Filter by project' })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiPropertyOptional({ description: 'Page size', minimum: 1, maximum: 100, default: 30 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 30;
+
+  @ApiPropertyOptional({ description: 'Cursor from the previous page' })
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
+
+export class UpdateNotificationPreferencesDto {
+  @ApiPropertyOptional({ description: 'Warn before due dates' })
+  @IsOptional()
+  @IsBoolean()
+  dueSoon?: boolean;
+
+  @ApiPropertyOptional({ description: 'Days before the due date to warn', minimum: 0, maximum: 30 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(30)
+  dueSoonDays?: number;
+
+  @ApiPropertyOptional({ description: 'Notify when an assigned issue passes its due date' })
+  @IsOptional()
+  @IsBoolean()
+  overdue?: boolean;
+
+  @ApiPropertyOptional({ description: 'Notify on status changes of assigned or created issues' })
+  @IsOptional()
+  @IsBoolean()
+  statusChange?: boolean;
+
+  @ApiPropertyOptional({ description: 'Notify when a predecessor slips past an assigned issue\'s start' })
+  @IsOptional()
+  @IsBoolean()
+  dependencyDelay?: boolean;
+
+  @ApiPropertyOptional({ description: 'Notify when an issue is assigned to or taken from you' })
+  @IsOptional()
+  @IsBoolean()
+  assigneeChange?: boolean;
+
+  @ApiPropertyOptional({ description: 'Deliver notifications by email as well as in-app' })
+  @IsOptional()
+  @IsBoolean()
+  emailEnabled?: boolean;
+
+  @ApiPropertyOptional({ description: 'Send each email right away or bundle them in a daily digest', enum: ['immediate', 'digest'] })
+  @IsOptional()
+  @IsEnum(['immediate', 'digest'])
+  emailMode?: 'immediate' | 'digest';
+
+  @ApiPropertyOptional({ description: 'UTC hour the daily digest is sent', minimum: 0, maximum: 23 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(23)
+  digestHour?: number;
+
+  @ApiPropertyOptional({ description: 'Mute everything until this time; null unmutes', nullable: true })
+  @ValidateIf((_, value) => value !== null)
+  @IsOptional()
+  @IsDateString()
+  mutedUntil?: string | null;
+
+  @ApiPropertyOptional({ description: 'Projects to stay silent about', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsUUID('all', { each: true })
+  mutedProjectIds?: string[];
+
+  @ApiPropertyOptional({ description: 'Issues to stay silent about', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsUUID('all', { each: true })
+  mutedIssueIds?: string[];
+}
+
+export class NotificationPreferencesResponseDto {
+  @ApiProperty()
+  dueSoon: boolean;
+
+  @ApiProperty()
+  dueSoonDays: number;
+
+  @ApiProperty()
+  overdue: boolean;
+
+  @ApiProperty()
+  statusChange: boolean;
+
+  @ApiProperty()
+  dependencyDelay: boolean;
+
+  @ApiProperty()
+  assigneeChange: boolean;
+
+  @ApiProperty()
+  emailEnabled: boolean;
+
+  @ApiProperty({ enum: ['immediate', 'digest'] })
+  emailMode: string;
+
+  @ApiProperty()
+  digestHour: number;
+
+  @ApiProperty({ nullable: true })
+  mutedUntil: string | null;
+
+  @ApiProperty({ type: [String] })
+  mutedProjectIds: string[];
+
+  @ApiProperty({ type: [String] })
+  mutedIssueIds: string[];
+
+  @ApiProperty({ nullable: true, description: 'When the last digest was sent' })
+  lastDigestAt: string | null;
+}
+
+// Shaped like the web client's NotificationMessage so NotificationCenter can list both
+export class NotificationResponseDto {
+  @ApiProperty({ description: 'Notification ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Rule that produced the notification', enum: NOTIFICATION_KINDS })
+  event: NotificationKind;
+
+  @ApiProperty({ description: 'NotificationCenter category', enum: ['scheduling', 'conflict', 'audit', 'system'] })
+  type: 'scheduling' | 'conflict' | 'audit' | 'system';
+
+  @ApiProperty({ enum: ['low', 'medium', 'high', 'critical'] })
+  priority: 'low' | 'medium' | 'high' | 'critical';
+
+  @ApiProperty()
+  title: string;
+
+  @ApiProperty()
+  message: string;
+
+  @ApiProperty({ description: 'Creation time as epoch milliseconds' })
+  timestamp: number;
+
+  @ApiProperty()
+  projectId: string;
+
+  @ApiProperty({ nullable: true })
+  issueId: string | null;
+
+  @ApiPropertyOptional({ description: 'Rule-specific details' })
+  data?: any;
+
+  @ApiProperty({ nullable: true })
+  readAt: string | null;
+}
+
+export class NotificationListResponseDto {
+  @ApiProperty({ type: [NotificationResponseDto] })
+  items: NotificationResponseDto[];
+
+  @ApiProperty({ description: 'Unread notifications across the whole inbox' })
+  unreadCount: number;
+
+  @ApiProperty({ nullable: true })
+  nextCursor: string | null;
+
+  @ApiProperty()
+  hasMore: boolean;
+}
+
+export class MarkNotificationsReadDto {
+  @ApiPropertyOptional({ description: 'Notifications to mark; omit to mark the whole inbox', type: [String] })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(500)
+  @IsUUID('all', { each: true })
+  ids?: string[];
+}
+
+export class DigestResultDto {
+  @ApiProperty({ description: 'Notifications included in the digest' })
+  notificationCount: number;
+
+  @ApiProperty({ description: 'Whether an email was sent' })
+  sent: boolean;
+
+  @ApiPropertyOptional({ description: 'Why nothing was sent' })
+  reason?: string;
+}
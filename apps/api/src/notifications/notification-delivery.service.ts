@@ -0,0 +1,182 @@
+import { Injectable, Inject, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { Notification } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NOTIFICATION_CHANNELS, NotificationChannel, NotificationRecipient } from './channels/notification-channel.interface';
+import { DigestResultDto } from './dto/notification.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DELIVERY_INTERVAL_MS = 60 * 1000;
+// Immediate emails older than this are left for the inbox rather than sent late
+const IMMEDIATE_WINDOW_MS = 60 * 60 * 1000;
+const MAX_DIGEST_ITEMS = 100;
+// Upper bound for one run holding a delivery lock
+const DELIVERY_RUN_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * Sends inbox notifications through the registered channels: right away for users who asked
+ * for immediate email, otherwise bundled into one digest a day at the user's chosen hour.
+ * Only unread notifications go out; anything already seen in the app is not repeated.
+ * Sent rows are stamped emailedAt, and runs hold advisory locks so instances never send twice.
+ */
+@Injectable()
+export class NotificationDeliveryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationDeliveryService.name);
+  private deliveryTimer?: NodeJS.Timeout;
+  private delivering = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(NOTIFICATION_CHANNELS) private readonly channels: NotificationChannel[]
+  ) {}
+
+  onModuleInit(): void {
+    this.deliveryTimer = setInterval(() => {
+      this.deliverPending().catch(error => this.logger.error(`Notification delivery failed: ${error.message}`));
+    }, DELIVERY_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.deliveryTimer) clearInterval(this.deliveryTimer);
+  }
+
+  async deliverPending(now: Date = new Date()): Promise<void> {
+    if (this.delivering || this.enabledChannels().length === 0) return;
+    this.delivering = true;
+
+    try {
+      await this.withLock('notification_delivery', async () => {
+        await this.deliverImmediate(now);
+
+        const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+        const due = await this.prisma.notificationPreference.findMany({
+          where: {
+            emailEnabled: true,
+            emailMode: 'digest',
+            digestHour: { lte: now.getUTCHours() },
+            OR: [{ lastDigestAt: null }, { lastDigestAt: { lt: startOfDay } }]
+          },
+          select: { userId: true }
+        });
+
+        for (const { userId } of due) {
+          await this.sendDigest(userId, now);
+        }
+      });
+    } finally {
+      this.delivering = false;
+    }
+  }
+
+  /**
+   * Sends the user's digest now, whatever their schedule says. Covers unread notifications not
+   * emailed yet, reaching back a day before the previous digest to catch ones that committed late.
+   */
+  async sendDigest(userId: string, now: Date = new Date()): Promise<DigestResultDto> {
+    const result = await this.withLock(`notification_digest:${userId}`, () => this.composeDigest(userId, now));
+    return result ?? { notificationCount: 0, sent: false, reason: 'A digest for this user is already being sent' };
+  }
+
+  private async composeDigest(userId: string, now: Date): Promise<DigestResultDto> {
+    const [recipient, preference] = await Promise.all([
+      this.getRecipient(userId),
+      this.prisma.notificationPreference.findUnique({ where: { userId }, select: { lastDigestAt: true } })
+    ]);
+    if (!recipient) {
+      return { notificationCount: 0, sent: false, reason: 'User has no email address' };
+    }
+    if (this.enabledChannels().length === 0) {
+      return { notificationCount: 0, sent: false, reason: 'No delivery channel is configured' };
+    }
+
+    const since = new Date((preference?.lastDigestAt ?? now).getTime() - DAY_MS);
+    const notifications = await this.prisma.notification.findMany({
+      where: { userId, readAt: null, emailedAt: null, createdAt: { gt: since } },
+      orderBy: { createdAt: 'asc' },
+      take: MAX_DIGEST_ITEMS
+    });
+
+    if (notifications.length > 0 && !(await this.send(recipient, notifications, true))) {
+      // Leave lastDigestAt alone so the next run retries
+      return { notificationCount: notifications.length, sent: false, reason: 'Delivery failed; will retry' };
+    }
+
+    // Record the run even when empty so the scheduler does not retry all day
+    await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, lastDigestAt: now },
+      update: { lastDigestAt: now }
+    });
+
+    return notifications.length > 0
+      ? { notificationCount: notifications.length, sent: true }
+      : { notificationCount: 0, sent: false, reason: 'Nothing new since the last digest' };
+  }
+
+  private async deliverImmediate(now: Date): Promise<void> {
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        readAt: null,
+        emailedAt: null,
+        createdAt: { gt: new Date(now.getTime() - IMMEDIATE_WINDOW_MS) },
+        user: { notificationPreference: { emailEnabled: true, emailMode: 'immediate' } }
+      },
+      orderBy: { createdAt: 'asc' }
+    });
+
+    const recipients = new Map<string, NotificationRecipient | null>();
+    for (const notification of notifications) {
+      if (!recipients.has(notification.userId)) {
+        recipients.set(notification.userId, await this.getRecipient(notification.userId));
+      }
+      const recipient = recipients.get(notification.userId);
+      if (recipient) {
+        await this.send(recipient, [notification], false);
+      }
+    }
+  }
+
+  private async send(recipient: NotificationRecipient, notifications: Notification[], digest: boolean): Promise<boolean> {
+    let delivered = false;
+    for (const channel of this.enabledChannels()) {
+      try {
+        await channel.send(recipient, notifications, { digest });
+        delivered = true;
+      } catch (error) {
+        this.logger.warn(`${channel.name} delivery to ${recipient.id} failed: ${error.message}`);
+      }
+    }
+
+    if (delivered) {
+      await this.prisma.notification.updateMany({
+        where: { id: { in: notifications.map(notification => notification.id) } },
+        data: { emailedAt: new Date() }
+      });
+    }
+    return delivered;
+  }
+
+  /**
+   * Runs the work while holding a transaction-scoped advisory lock. The work writes outside the
+   * transaction, so its emailedAt stamps are visible before the next holder starts.
+   * Returns null when another instance holds the lock.
+   */
+  private async withLock<T>(key: string, work: () => Promise<T>): Promise<T | null> {
+    return this.prisma.$transaction(async (tx) => {
+      const [{ claimed }] = await tx.$queryRaw<Array<{ claimed: boolean }>>`
+        SELECT pg_try_advisory_xact_lock(hashtext(${key})) AS claimed`;
+      return claimed ? work() : null;
+    }, { timeout: DELIVERY_RUN_TIMEOUT_MS });
+  }
+
+  private async getRecipient(userId: string): Promise<NotificationRecipient | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, email: true, name: true, isActive: true }
+    });
+    return user?.email && user.isActive ? { id: user.id, email: user.email, name: user.name } : null;
+  }
+
+  private enabledChannels(): NotificationChannel[] {
+    return this.channels.filter(channel => channel.isEnabled());
+  }
+}
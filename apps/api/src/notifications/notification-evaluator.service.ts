@@ -0,0 +1,350 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { ActivityLog, NotificationPreference, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from './notifications.service';
+import { NotificationKind } from './dto/notification.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ACTIVITY_POLL_INTERVAL_MS = 60 * 1000;
+const DUE_DATE_SCAN_INTERVAL_MS = 60 * 60 * 1000;
+// Where a fresh install starts reading; afterwards the stored cursor takes over
+const ACTIVITY_LOOKBACK_MS = 15 * 60 * 1000;
+// Entries are stamped when their transaction starts, so a slow one can commit behind the cursor.
+// Each run re-reads this far back to pick those up; dedupe keys stop repeats.
+const ACTIVITY_REREAD_MS = 5 * 60 * 1000;
+const ACTIVITY_BATCH_SIZE = 500;
+const ACTIVITY_CURSOR = 'activity';
+// Upper bound for one run holding the evaluator lock
+const ACTIVITY_RUN_TIMEOUT_MS = 10 * 60 * 1000;
+const MAX_DUE_SOON_DAYS = 30;
+
+export interface NotificationCandidate {
+  userId: string;
+  projectId: string;
+  issueId: string | null;
+  kind: NotificationKind;
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  title: string;
+  message: string;
+  data?: Prisma.InputJsonObject;
+  dedupeKey: string;
+}
+
+type IssueSnapshot = {
+  status?: string;
+  assigneeId?: string | null;
+  dueDate?: string | null;
+};
+
+type PreferenceSettings = Pick<
+  NotificationPreference,
+  'dueSoon' | 'dueSoonDays' | 'overdue' | 'statusChange' | 'dependencyDelay' | 'assigneeChange' |
+  'mutedUntil' | 'mutedProjectIds' | 'mutedIssueIds'
+>;
+
+const KIND_PREFERENCE: Record<NotificationKind, keyof PreferenceSettings> = {
+  due_soon: 'dueSoon',
+  overdue: 'overdue',
+  status_change: 'statusChange',
+  dependency_delay: 'dependencyDelay',
+  assignee_change: 'assigneeChange'
+};
+
+/**
+ * Turns issue activity and approaching due dates into inbox notifications.
+ * Activity is read from ActivityLog rather than hooked into IssuesService so every writer is covered.
+ */
+@Injectable()
+export class NotificationEvaluatorService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(NotificationEvaluatorService.name);
+  private activityTimer?: NodeJS.Timeout;
+  private dueDateTimer?: NodeJS.Timeout;
+  private evaluating = false;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleInit(): void {
+    this.activityTimer = setInterval(() => {
+      this.evaluateActivity().catch(error => this.logger.error(`Activity evaluation failed: ${error.message}`));
+    }, ACTIVITY_POLL_INTERVAL_MS);
+    this.dueDateTimer = setInterval(() => {
+      this.scanDueDates().catch(error => this.logger.error(`Due date scan failed: ${error.message}`));
+    }, DUE_DATE_SCAN_INTERVAL_MS);
+  }
+
+  onModuleDestroy(): void {
+    if (this.activityTimer) clearInterval(this.activityTimer);
+    if (this.dueDateTimer) clearInterval(this.dueDateTimer);
+  }
+
+  /**
+   * Processes issue activity logged since the last run. Returns the number of notifications created.
+   * The read position is stored in the database, and an advisory lock lets one instance run at a time.
+   */
+  async evaluateActivity(): Promise<number> {
+    if (this.evaluating) return 0;
+    this.evaluating = true;
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const [{ claimed }] = await tx.$queryRaw<Array<{ claimed: boolean }>>`
+          SELECT pg_try_advisory_xact_lock(hashtext(${`notification_cursor:${ACTIVITY_CURSOR}`})) AS claimed`;
+        if (!claimed) return 0;
+
+        const stored = await tx.notificationCursor.findUnique({ where: { name: ACTIVITY_CURSOR } });
+        const cursor = await this.readActivity(stored
+          ? { createdAt: new Date(stored.createdAt.getTime() - ACTIVITY_REREAD_MS), id: '' }
+          : { createdAt: new Date(Date.now() - ACTIVITY_LOOKBACK_MS), id: '' });
+
+        // Never move back: the re-read window may end before the stored position
+        if (cursor.last && (!stored || cursor.last.createdAt >= stored.createdAt)) {
+          await tx.notificationCursor.upsert({
+            where: { name: ACTIVITY_CURSOR },
+            create: { name: ACTIVITY_CURSOR, createdAt: cursor.last.createdAt, entryId: cursor.last.id },
+            update: { createdAt: cursor.last.createdAt, entryId: cursor.last.id }
+          });
+        }
+        return cursor.created;
+      }, { timeout: ACTIVITY_RUN_TIMEOUT_MS });
+    } finally {
+      this.evaluating = false;
+    }
+  }
+
+  // Pages through the activity log after the given position
+  private async readActivity(
+    from: { createdAt: Date; id: string }
+  ): Promise<{ created: number; last: { createdAt: Date; id: string } | null }> {
+    let created = 0;
+    let last: { createdAt: Date; id: string } | null = null;
+    let batch: ActivityLog[];
+    do {
+      const { createdAt, id } = last ?? from;
+      batch = await this.prisma.activityLog.findMany({
+        where: {
+          entityType: 'issue',
+          issueId: { not: null },
+          OR: [{ createdAt: { gt: createdAt } }, { createdAt, id: { gt: id } }]
+        },
+        orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        take: ACTIVITY_BATCH_SIZE
+      });
+      if (batch.length === 0) break;
+
+      created += await this.deliver(await this.candidatesFromActivity(batch));
+      const lastEntry = batch[batch.length - 1];
+      last = { createdAt: lastEntry.createdAt, id: lastEntry.id };
+    } while (batch.length === ACTIVITY_BATCH_SIZE);
+
+    return { created, last };
+  }
+
+  /**
+   * Warns assignees about open issues that are due soon or already late.
+   * One notification per issue and due date, so moving the date warns again.
+   */
+  async scanDueDates(now: Date = new Date()): Promise<number> {
+    const today = startOfUtcDay(now);
+    const issues = await this.prisma.issue.findMany({
+      where: {
+        deletedAt: null,
+        status: { not: 'done' },
+        assigneeId: { not: null },
+        dueDate: { not: null, lt: new Date(today.getTime() + (MAX_DUE_SOON_DAYS + 1) * DAY_MS) },
+        // Summary tasks roll up from their children, which are warned about individually
+        childIssues: { none: { deletedAt: null } }
+      },
+      select: { id: true, projectId: true, title: true, assigneeId: true, dueDate: true }
+    });
+
+    const preferences = await this.loadPreferences(issues.map(issue => issue.assigneeId!));
+    const candidates: NotificationCandidate[] = [];
+
+    for (const issue of issues) {
+      const dueDay = startOfUtcDay(issue.dueDate!);
+      const daysLeft = Math.round((dueDay.getTime() - today.getTime()) / DAY_MS);
+      const dueKey = dueDay.toISOString().slice(0, 10);
+      const base = { userId: issue.assigneeId!, projectId: issue.projectId, issueId: issue.id };
+
+      if (daysLeft < 0) {
+        candidates.push({
+          ...base,
+          kind: 'overdue',
+          priority: 'high',
+          title: `Overdue: ${issue.title}`,
+          message: `"${issue.title}" was due on ${dueKey} and is not done yet.`,
+          data: { dueDate: dueKey, daysOverdue: -daysLeft },
+          dedupeKey: `overdue:${issue.id}:${dueKey}`
+        });
+      } else if (daysLeft <= preferences.get(issue.assigneeId!)!.dueSoonDays) {
+        candidates.push({
+          ...base,
+          kind: 'due_soon',
+          priority: daysLeft === 0 ? 'high' : 'medium',
+          title: daysLeft === 0 ? `Due today: ${issue.title}` : `Due in ${daysLeft} day${daysLeft === 1 ? '' : 's'}: ${issue.title}`,
+          message: `"${issue.title}" is due on ${dueKey}.`,
+          data: { dueDate: dueKey, daysLeft },
+          dedupeKey: `due_soon:${issue.id}:${dueKey}`
+        });
+      }
+    }
+
+    return this.deliver(candidates, preferences);
+  }
+
+  private async candidatesFromActivity(logs: ActivityLog[]): Promise<NotificationCandidate[]> {
+    const issueIds = [...new Set(logs.map(log => log.issueId!))];
+    const [issues, actors, successors] = await Promise.all([
+      this.prisma.issue.findMany({
+        where: { id: { in: issueIds } },
+        select: { id: true, title: true, assigneeId: true, createdBy: true }
+      }),
+      this.prisma.user.findMany({
+        where: { id: { in: [...new Set(logs.map(log => log.actor))] } },
+        select: { id: true, name: true }
+      }),
+      this.prisma.dependency.findMany({
+        where: { predecessorId: { in: issueIds }, successor: { deletedAt: null, status: { not: 'done' } } },
+        select: {
+          predecessorId: true,
+          successor: { select: { id: true, title: true, assigneeId: true, startDate: true } }
+        }
+      })
+    ]);
+
+    const issueById = new Map(issues.map(issue => [issue.id, issue]));
+    const actorName = new Map(actors.map(actor => [actor.id, actor.name]));
+    const candidates: NotificationCandidate[] = [];
+
+    for (const log of logs) {
+      const issue = issueById.get(log.issueId!);
+      if (!issue) continue;
+
+      const before = (log.before ?? {}) as IssueSnapshot;
+      const after = (log.after ?? {}) as IssueSnapshot;
+      const actor = actorName.get(log.actor) ?? 'Someone';
+      const notActor = (userId: string | null | undefined): userId is string => !!userId && userId !== log.actor;
+      const base = { projectId: log.projectId, issueId: issue.id };
+
+      if (before.status !== undefined && after.status !== undefined && before.status !== after.status) {
+        for (const userId of new Set([issue.assigneeId, issue.createdBy].filter(notActor))) {
+          candidates.push({
+            ...base,
+            userId,
+            kind: 'status_change',
+            priority: after.status === 'blocked' ? 'medium' : 'low',
+            title: `Status changed: ${issue.title}`,
+            message: `${actor} moved "${issue.title}" from ${before.status} to ${after.status}.`,
+            data: { from: before.status, to: after.status, actorId: log.actor },
+            dedupeKey: `status_change:${log.id}`
+          });
+        }
+      }
+
+      if (before.assigneeId !== undefined && after.assigneeId !== undefined && before.assigneeId !== after.assigneeId) {
+        if (notActor(after.assigneeId)) {
+          candidates.push({
+            ...base,
+            userId: after.assigneeId,
+            kind: 'assignee_change',
+            priority: 'medium',
+            title: `Assigned to you: ${issue.title}`,
+            message: `${actor} assigned "${issue.title}" to you.`,
+            data: { from: before.assigneeId, to: after.assigneeId, actorId: log.actor },
+            dedupeKey: `assignee_change:${log.id}`
+          });
+        }
+        if (notActor(before.assigneeId)) {
+          candidates.push({
+            ...base,
+            userId: before.assigneeId,
+            kind: 'assignee_change',
+            priority: 'low',
+            title: `Unassigned: ${issue.title}`,
+            message: `${actor} took "${issue.title}" off your plate.`,
+            data: { from: before.assigneeId, to: after.assigneeId, actorId: log.actor },
+            dedupeKey: `assignee_change:${log.id}`
+          });
+        }
+      }
+
+      // A predecessor finishing later only matters to successors it now runs into
+      const previousDue = before.dueDate ? new Date(before.dueDate) : null;
+      const newDue = after.dueDate ? new Date(after.dueDate) : null;
+      if (previousDue && newDue && newDue > previousDue) {
+        const slipDays = Math.ceil((newDue.getTime() - previousDue.getTime()) / DAY_MS);
+        for (const { predecessorId, successor } of successors) {
+          if (predecessorId !== issue.id || !notActor(successor.assigneeId)) continue;
+          if (successor.startDate && successor.startDate > newDue) continue;
+
+          candidates.push({
+            userId: successor.assigneeId,
+            projectId: log.projectId,
+            issueId: successor.id,
+            kind: 'dependency_delay',
+            priority: 'high',
+            title: `Predecessor delayed: ${successor.title}`,
+            message: `"${issue.title}" now finishes ${newDue.toISOString().slice(0, 10)} (${slipDays} day${slipDays === 1 ? '' : 's'} later), ` +
+              `which overlaps the start of "${successor.title}".`,
+            data: {
+              predecessorId: issue.id,
+              previousDueDate: previousDue.toISOString(),
+              newDueDate: newDue.toISOString(),
+              slipDays
+            },
+            dedupeKey: `dependency_delay:${log.id}:${successor.id}`
+          });
+        }
+      }
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Drops candidates the recipient has switched off or muted and stores the rest.
+   * Existing dedupe keys are skipped, so re-evaluating the same activity is harmless.
+   */
+  private async deliver(
+    candidates: NotificationCandidate[],
+    preferences?: Map<string, PreferenceSettings>
+  ): Promise<number> {
+    if (candidates.length === 0) return 0;
+
+    const settings = preferences ?? await this.loadPreferences(candidates.map(candidate => candidate.userId));
+    const now = new Date();
+    const wanted = candidates.filter(candidate => {
+      const preference = settings.get(candidate.userId)!;
+      return preference[KIND_PREFERENCE[candidate.kind]] === true &&
+        !(preference.mutedUntil && preference.mutedUntil > now) &&
+        !preference.mutedProjectIds.includes(candidate.projectId) &&
+        !(candidate.issueId && preference.mutedIssueIds.includes(candidate.issueId));
+    });
+    if (wanted.length === 0) return 0;
+
+    const { count } = await this.prisma.notification.createMany({
+      data: wanted.map(candidate => ({ ...candidate, data: candidate.data ?? Prisma.JsonNull })),
+      skipDuplicates: true
+    });
+
+    if (count > 0) {
+      this.logger.debug(`Created ${count} notification(s)`);
+    }
+    return count;
+  }
+
+  private async loadPreferences(userIds: string[]): Promise<Map<string, PreferenceSettings>> {
+    const unique = [...new Set(userIds)];
+    const stored = await this.prisma.notificationPreference.findMany({ where: { userId: { in: unique } } });
+    const byUser = new Map<string, PreferenceSettings>(stored.map(preference => [preference.userId, preference]));
+
+    for (const userId of unique) {
+      if (!byUser.has(userId)) byUser.set(userId, DEFAULT_NOTIFICATION_PREFERENCES);
+    }
+    return byUser;
+  }
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
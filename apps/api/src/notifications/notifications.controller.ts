@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { NotificationsService } from './notifications.service';
+import { NotificationDeliveryService } from './notification-delivery.service';
+import {
+  QueryNotificationsDto,
+  UpdateNotificationPreferencesDto,
+  NotificationPreferencesResponseDto,
+  NotificationResponseDto,
+  NotificationListResponseDto,
+  MarkNotificationsReadDto,
+  DigestResultDto
+} from './dto/notification.dto';
+
+@ApiTags('Notifications')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationsController {
+  constructor(
+    private readonly notificationsService: NotificationsService,
+    private readonly deliveryService: NotificationDeliveryService
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the current user\'s notifications, newest first' })
+  @ApiResponse({ status: 200, description: 'Inbox page', type: NotificationListResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid cursor' })
+  async findAll(
+    @Query() query: QueryNotificationsDto,
+    @Request() req: any
+  ): Promise<NotificationListResponseDto> {
+    return this.notificationsService.list(req.user?.id, query);
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Count unread notifications' })
+  @ApiResponse({ status: 200, description: 'Unread count' })
+  async unreadCount(@Request() req: any): Promise<{ unreadCount: number }> {
+    return { unreadCount: await this.notificationsService.unreadCount(req.user?.id) };
+  }
+
+  @Post('read')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Mark notifications as read', description: 'Without ids the whole inbox is marked' })
+  @ApiResponse({ status: 200, description: 'Notifications marked' })
+  async markManyRead(
+    @Body() dto: MarkNotificationsReadDto,
+    @Request() req: any
+  ): Promise<{ updated: number; unreadCount: number }> {
+    return this.notificationsService.markManyRead(req.user?.id, dto.ids);
+  }
+
+  @Get('preferences')
+  @ApiOperation({ summary: 'Get notification preferences', description: 'Defaults are returned until the user saves their own' })
+  @ApiResponse({ status: 200, description: 'Preferences', type: NotificationPreferencesResponseDto })
+  async getPreferences(@Request() req: any): Promise<NotificationPreferencesResponseDto> {
+    return this.notificationsService.getPreferences(req.user?.id);
+  }
+
+  @Patch('preferences')
+  @ApiOperation({ summary: 'Update notification preferences and mutes' })
+  @ApiResponse({ status: 200, description: 'Preferences updated', type: NotificationPreferencesResponseDto })
+  async updatePreferences(
+    @Body() dto: UpdateNotificationPreferencesDto,
+    @Request() req: any
+  ): Promise<NotificationPreferencesResponseDto> {
+    return this.notificationsService.updatePreferences(req.user?.id, dto);
+  }
+
+  @Post('digest')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Send the daily digest now',
+    description: 'Useful for checking mail delivery; the scheduled digest then continues from this one'
+  })
+  @ApiResponse({ status: 200, description: 'Digest result', type: DigestResultDto })
+  async sendDigest(@Request() req: any): Promise<DigestResultDto> {
+    return this.deliveryService.sendDigest(req.user?.id);
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark one notification as read' })
+  @ApiParam({ name: 'id', description: 'Notification UUID' })
+  @ApiResponse({ status: 200, description: 'Notification marked', type: NotificationResponseDto })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async markRead(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any
+  ): Promise<NotificationResponseDto> {
+    return this.notificationsService.markRead(req.user?.id, id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Dismiss a notification' })
+  @ApiParam({ name: 'id', description: 'Notification UUID' })
+  @ApiResponse({ status: 204, description: 'Notification removed' })
+  @ApiResponse({ status: 404, description: 'Notification not found' })
+  async remove(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any
+  ): Promise<void> {
+    await this.notificationsService.remove(req.user?.id, id);
+  }
+}
@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { NotificationsController } from './notifications.controller';
+import { NotificationsService } from './notifications.service';
+import { NotificationEvaluatorService } from './notification-evaluator.service';
+import { NotificationDeliveryService } from './notification-delivery.service';
+import { EmailChannel } from './channels/email.channel';
+import { NOTIFICATION_CHANNELS, NotificationChannel } from './channels/notification-channel.interface';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [NotificationsController],
+  providers: [
+    NotificationsService,
+    NotificationEvaluatorService,
+    NotificationDeliveryService,
+    EmailChannel,
+    // Add further channels (chat, push) here; delivery tries each enabled one
+    {
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (email: EmailChannel): NotificationChannel[] => [email],
+      inject: [EmailChannel]
+    }
+  ],
+  exports: [NotificationsService, NotificationEvaluatorService]
+})
+export class NotificationsModule {}
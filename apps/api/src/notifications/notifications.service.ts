@@ -0,0 +1,205 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Notification, NotificationPreference, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  QueryNotificationsDto,
+  UpdateNotificationPreferencesDto,
+  NotificationPreferencesResponseDto,
+  NotificationResponseDto,
+  NotificationListResponseDto,
+  NotificationKind
+} from './dto/notification.dto';
+
+// Where each rule lands in NotificationCenter's tabs
+const KIND_CATEGORY: Record<NotificationKind, NotificationResponseDto['type']> = {
+  due_soon: 'scheduling',
+  overdue: 'conflict',
+  status_change: 'audit',
+  dependency_delay: 'scheduling',
+  assignee_change: 'audit'
+};
+
+type PreferenceSettings = Omit<NotificationPreference, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: PreferenceSettings = {
+  dueSoon: true,
+  dueSoonDays: 2,
+  overdue: true,
+  statusChange: true,
+  dependencyDelay: true,
+  assigneeChange: true,
+  emailEnabled: false,
+  emailMode: 'digest',
+  digestHour: 8,
+  mutedUntil: null,
+  mutedProjectIds: [],
+  mutedIssueIds: [],
+  lastDigestAt: null
+};
+
+interface NotificationCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * The per-user inbox behind NotificationCenter and the preferences that decide what reaches it.
+ */
+@Injectable()
+export class NotificationsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(userId: string, query: QueryNotificationsDto): Promise<NotificationListResponseDto> {
+    const limit = query.limit ?? 30;
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...(query.unreadOnly && { readAt: null }),
+      ...(query.kind && { kind: query.kind }),
+      ...(query.projectId && { projectId: query.projectId })
+    };
+
+    const cursor = query.cursor ? this.decodeCursor(query.cursor) : null;
+    const rows = await this.prisma.notification.findMany({
+      where: cursor
+        ? {
+            AND: [where, {
+              OR: [
+                { createdAt: { lt: new Date(cursor.createdAt) } },
+                { createdAt: new Date(cursor.createdAt), id: { lt: cursor.id } }
+              ]
+            }]
+          }
+        : where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      take: limit + 1
+    });
+
+    const hasMore = rows.length > limit;
+    const items = rows.slice(0, limit);
+    const last = items[items.length - 1];
+
+    return {
+      items: items.map(row => this.toResponse(row)),
+      unreadCount: await this.unreadCount(userId),
+      nextCursor: hasMore && last ? this.encodeCursor(last) : null,
+      hasMore
+    };
+  }
+
+  async unreadCount(userId: string): Promise<number> {
+    return this.prisma.notification.count({ where: { userId, readAt: null } });
+  }
+
+  async markRead(userId: string, id: string): Promise<NotificationResponseDto> {
+    const notification = await this.getOwnedOrThrow(userId, id);
+    if (notification.readAt) {
+      return this.toResponse(notification);
+    }
+
+    const updated = await this.prisma.notification.update({
+      where: { id },
+      data: { readAt: new Date() }
+    });
+    return this.toResponse(updated);
+  }
+
+  async markManyRead(userId: string, ids?: string[]): Promise<{ updated: number; unreadCount: number }> {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null, ...(ids && { id: { in: ids } }) },
+      data: { readAt: new Date() }
+    });
+    return { updated: count, unreadCount: await this.unreadCount(userId) };
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    await this.getOwnedOrThrow(userId, id);
+    await this.prisma.notification.delete({ where: { id } });
+  }
+
+  async getPreferences(userId: string): Promise<NotificationPreferencesResponseDto> {
+    const preference = await this.prisma.notificationPreference.findUnique({ where: { userId } });
+    return this.toPreferencesResponse(preference ?? DEFAULT_NOTIFICATION_PREFERENCES);
+  }
+
+  async updatePreferences(
+    userId: string,
+    dto: UpdateNotificationPreferencesDto
+  ): Promise<NotificationPreferencesResponseDto> {
+    const { mutedUntil, mutedProjectIds, mutedIssueIds, ...toggles } = dto;
+    const settings: Partial<PreferenceSettings> = {
+      ...toggles,
+      ...(mutedUntil !== undefined && { mutedUntil: mutedUntil ? new Date(mutedUntil) : null }),
+      ...(mutedProjectIds && { mutedProjectIds: [...new Set(mutedProjectIds)] }),
+      ...(mutedIssueIds && { mutedIssueIds: [...new Set(mutedIssueIds)] })
+    };
+
+    const preference = await this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { ...DEFAULT_NOTIFICATION_PREFERENCES, ...settings, userId },
+      update: settings
+    });
+    return this.toPreferencesResponse(preference);
+  }
+
+  toResponse(notification: Notification): NotificationResponseDto {
+    const kind = notification.kind as NotificationKind;
+    return {
+      id: notification.id,
+      event: kind,
+      type: KIND_CATEGORY[kind] ?? 'system',
+      priority: notification.priority as NotificationResponseDto['priority'],
+      title: notification.title,
+      message: notification.message,
+      timestamp: notification.createdAt.getTime(),
+      projectId: notification.projectId,
+      issueId: notification.issueId,
+      data: notification.data ?? undefined,
+      readAt: notification.readAt?.toISOString() ?? null
+    };
+  }
+
+  private async getOwnedOrThrow(userId: string, id: string): Promise<Notification> {
+    const notification = await this.prisma.notification.findFirst({ where: { id, userId } });
+    if (!notification) {
+      throw new NotFoundException(`Notification not found: ${id}`);
+    }
+    return notification;
+  }
+
+  private toPreferencesResponse(preference: PreferenceSettings): NotificationPreferencesResponseDto {
+    return {
+      dueSoon: preference.dueSoon,
+      dueSoonDays: preference.dueSoonDays,
+      overdue: preference.overdue,
+      statusChange: preference.statusChange,
+      dependencyDelay: preference.dependencyDelay,
+      assigneeChange: preference.assigneeChange,
+      emailEnabled: preference.emailEnabled,
+      emailMode: preference.emailMode,
+      digestHour: preference.digestHour,
+      mutedUntil: preference.mutedUntil?.toISOString() ?? null,
+      mutedProjectIds: preference.mutedProjectIds,
+      mutedIssueIds: preference.mutedIssueIds,
+      lastDigestAt: preference.lastDigestAt?.toISOString() ?? null
+    };
+  }
+
+  private encodeCursor(notification: Notification): string {
+    const payload: NotificationCursor = { createdAt: notification.createdAt.toISOString(), id: notification.id };
+    return Buffer.from(JSON.stringify(payload)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): NotificationCursor {
+    let payload: NotificationCursor;
+    try {
+      payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+
+    if (!payload || typeof payload.id !== 'string' || isNaN(Date.parse(payload.createdAt))) {
+      throw new BadRequestException('Invalid pagination cursor');
+    }
+    return payload;
+  }
+}
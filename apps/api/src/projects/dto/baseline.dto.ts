@@ -0,0 +1,121 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateBaselineDto {
+  @ApiProperty({
+    description: 'Baseline name, unique within the project',
+    example: 'Kick-off plan',
+    maxLength: 128
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(128)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'Baseline description',
+    example: 'Plan approved at the kick-off meeting'
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  description?: string;
+}
+
+export class BaselineResponseDto {
+  @ApiProperty({ description: 'Baseline ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Project ID' })
+  projectId: string;
+
+  @ApiProperty({ description: 'Baseline name' })
+  name: string;
+
+  @ApiProperty({ description: 'Baseline description' })
+  description: string;
+
+  @ApiProperty({ description: 'User who captured the baseline' })
+  createdBy: string;
+
+  @ApiProperty({ description: 'Capture timestamp' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Number of tasks captured' })
+  taskCount: number;
+}
+
+export class BaselineTaskVarianceDto {
+  @ApiProperty({ description: 'Issue ID' })
+  issueId: string;
+
+  @ApiProperty({ description: 'Current title, or the captured title for removed tasks' })
+  title: string;
+
+  @ApiProperty({
+    description: 'tracked: in both; added: created after the baseline; removed: deleted since the baseline',
+    enum: ['tracked', 'added', 'removed']
+  })
+  state: 'tracked' | 'added' | 'removed';
+
+  @ApiProperty({ description: 'Planned start at capture time', nullable: true })
+  baselineStartDate: string | null;
+
+  @ApiProperty({ description: 'Planned end at capture time', nullable: true })
+  baselineEndDate: string | null;
+
+  @ApiProperty({ description: 'Progress at capture time', nullable: true })
+  baselineProgress: number | null;
+
+  @ApiProperty({ description: 'Current start', nullable: true })
+  currentStartDate: string | null;
+
+  @ApiProperty({ description: 'Current end', nullable: true })
+  currentEndDate: string | null;
+
+  @ApiProperty({ description: 'Current progress', nullable: true })
+  currentProgress: number | null;
+
+  @ApiProperty({ description: 'Start slip in days (positive = later than planned)', nullable: true })
+  startVarianceDays: number | null;
+
+  @ApiProperty({ description: 'Finish slip in days (positive = later than planned)', nullable: true })
+  finishVarianceDays: number | null;
+
+  @ApiProperty({ description: 'Change in duration in days (positive = longer than planned)', nullable: true })
+  durationVarianceDays: number | null;
+}
+
+export class BaselineVarianceResponseDto {
+  @ApiProperty({ description: 'Baseline the schedule is compared against', type: BaselineResponseDto })
+  baseline: BaselineResponseDto;
+
+  @ApiProperty({ description: 'Per-task variance', type: [BaselineTaskVarianceDto] })
+  tasks: BaselineTaskVarianceDto[];
+
+  @ApiProperty({
+    description: 'Aggregated variance',
+    type: 'object',
+    properties: {
+      trackedTasks: { type: 'number' },
+      addedTasks: { type: 'number' },
+      removedTasks: { type: 'number' },
+      lateStarts: { type: 'number' },
+      lateFinishes: { type: 'number' },
+      maxFinishSlipDays: { type: 'number' },
+      projectFinishVarianceDays: { type: 'number', nullable: true }
+    }
+  })
+  summary: {
+    trackedTasks: number;
+    addedTasks: number;
+    removedTasks: number;
+    lateStarts: number;
+    lateFinishes: number;
+    maxFinishSlipDays: number;
+    projectFinishVarianceDays: number | null;
+  };
+
+  @ApiProperty({ description: 'Report generation timestamp' })
+  generatedAt: string;
+}
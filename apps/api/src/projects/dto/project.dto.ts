@@ -40,6 +40,11 @@ export class ProjectResponseDto {
   @IsBoolean()
   schedulingEnabled: boolean;
 
+  @ApiPropertyOptional({ description: 'Cost of one working hour for earned value metrics', nullable: true })
+  @IsOptional()
+  @IsNumber()
+  hourlyRate?: number | null;
+
   @ApiProperty({ description: 'Project creation timestamp' })
   @IsString()
   createdAt: string;
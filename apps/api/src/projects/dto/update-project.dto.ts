@@ -3,7 +3,10 @@ import {
   IsString, 
   IsEnum, 
   IsOptional,
-  MaxLength
+  IsNumber,
+  MaxLength,
+  Min,
+  ValidateIf
 } from 'class-validator';
 
 export class UpdateProjectDto {
@@ -25,4 +28,16 @@ export class UpdateProjectDto {
   @IsOptional()
   @IsEnum(['private', 'password', 'public'])
   visibility?: string;
-}
\ No newline at end of file
+
+  @ApiPropertyOptional({
+    description: 'Cost of one working hour, used to price estimates and spent hours in earned value metrics; null reports costs in hours',
+    example: 80,
+    minimum: 0,
+    nullable: true
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsNumber()
+  @Min(0)
+  hourlyRate?: number | null;
+}
@@ -237,6 +237,7 @@ export class ProjectsEnhancedService {
         throw new NotFoundException('Project not found');
       }
 
+      const parentIds = new Set(project.issues.map(issue => issue.parentIssueId));
       const tasks = project.issues.map((issue, index) => ({
         id: issue.id,
         title: issue.title,
@@ -252,6 +253,7 @@ export class ProjectsEnhancedService {
         actualHours: issue.spent,
         level: this.calculateIssueLevel(issue, project.issues),
         order: index,
+        type: parentIds.has(issue.id) ? 'summary' as const : 'task' as const,
         color: this.getStatusColor(issue.status)
       }));
 
@@ -271,7 +273,7 @@ export class ProjectsEnhancedService {
         successorId: dep.successorId,
         type: dep.type as 'FS' | 'SS' | 'FF' | 'SF',
         lag: dep.lag,
-        lagUnit: 'hours' as 'days' | 'hours'
+        lagUnit: dep.lagUnit as 'hours' | 'days' | 'percent'
       })));
 
       const projectStartDate = this.getProjectStartDate(tasks);
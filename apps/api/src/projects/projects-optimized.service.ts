@@ -156,6 +156,7 @@ export class ProjectsOptimizedService {
       const ganttArray = Array.isArray(ganttData) ? ganttData as OptimizedGanttRow[] : [];
 
       // Transform the raw data to the expected format
+      const parentIds = new Set(ganttArray.map(row => row.parent_issue_id));
       const tasks = ganttArray.map((row, index) => ({
         id: row.id,
         title: row.title,
@@ -171,6 +172,7 @@ export class ProjectsOptimizedService {
         actualHours: row.spent,
         level: row.hierarchy_level || 0,
         order: index,
+        type: parentIds.has(row.id) ? 'summary' as const : 'task' as const,
         color: this.getStatusColor(row.status)
       }));
 
@@ -194,7 +196,7 @@ export class ProjectsOptimizedService {
               successorId: dep.successorId,
               type: dep.type as 'FS' | 'SS' | 'FF' | 'SF',
               lag: dep.lag,
-              lagUnit: 'hours' as 'days' | 'hours'
+              lagUnit: dep.lagUnit as 'hours' | 'days' | 'percent'
             });
           }
         });
@@ -24,6 +24,7 @@ import { JwtAuthGuard } from '../auth/guards/jwt.guard';
 import { ProjectResponseDto } from './dto/project.dto';
 import { WBSTreeResponseDto, WBSTreeQueryDto, GanttDataResponseDto, GanttDataQueryDto } from '../issues/dto/wbs-tree.dto';
 import { AssignIssueToUserDto } from './dto/assign-issue.dto';
+import { CreateBaselineDto, BaselineResponseDto, BaselineVarianceResponseDto } from './dto/baseline.dto';
 
 @ApiTags('projects')
 @Controller('projects')
@@ -134,11 +135,13 @@ export class ProjectsController {
   @ApiResponse({ status: 401, description: 'Unauthorized.' })
   @ApiQuery({ name: 'expandLevel', required: false, type: Number, description: 'Tree expansion level (default: 2)' })
   @ApiQuery({ name: 'includeCompleted', required: false, type: Boolean, description: 'Include completed tasks (default: true)' })
+  @ApiQuery({ name: 'parentId', required: false, type: String, description: 'Load only the subtree below this issue' })
   async getWBS(
     @Param('id', ParseUUIDPipe) id: string,
     @Request() req: any,
     @Query('expandLevel') expandLevel?: number,
-    @Query('includeCompleted') includeCompleted?: boolean
+    @Query('includeCompleted') includeCompleted?: boolean,
+    @Query('parentId', new ParseUUIDPipe({ optional: true })) parentId?: string
   ) {
     const userId = req.user?.sub || req.user?.id;
     
@@ -147,7 +150,8 @@ export class ProjectsController {
     
     const wbsData = await this.projectsService.getProjectWBS(id, {
       expandLevel,
-      includeCompleted
+      includeCompleted,
+      parentId
     });
 
     return {
@@ -192,6 +196,87 @@ export class ProjectsController {
     };
   }
 
+  @Post(':id/baselines')
+  @ApiOperation({ summary: 'Capture a named schedule baseline' })
+  @ApiParam({ name: 'id', description: 'Project UUID' })
+  @ApiResponse({ status: 201, description: 'Baseline captured.', type: BaselineResponseDto })
+  @ApiResponse({ status: 409, description: 'A baseline with this name already exists.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  @ApiBody({ type: CreateBaselineDto })
+  async createBaseline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() createBaselineDto: CreateBaselineDto,
+    @Request() req: any
+  ) {
+    const userId = req.user?.sub || req.user?.id;
+
+    const baseline = await this.projectsService.createBaseline(id, createBaselineDto, userId);
+    return {
+      success: true,
+      data: baseline
+    };
+  }
+
+  @Get(':id/baselines')
+  @ApiOperation({ summary: 'List schedule baselines, newest first' })
+  @ApiParam({ name: 'id', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Successfully retrieved baselines.', type: [BaselineResponseDto] })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  async getBaselines(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Request() req: any
+  ) {
+    const userId = req.user?.sub || req.user?.id;
+
+    const baselines = await this.projectsService.getBaselines(id, userId);
+    return {
+      success: true,
+      data: baselines
+    };
+  }
+
+  @Get(':id/baselines/:baselineId/variance')
+  @ApiOperation({ summary: 'Compare the live schedule with a baseline' })
+  @ApiParam({ name: 'id', description: 'Project UUID' })
+  @ApiParam({ name: 'baselineId', description: 'Baseline UUID' })
+  @ApiResponse({ status: 200, description: 'Per-task start/finish slip against the baseline.', type: BaselineVarianceResponseDto })
+  @ApiResponse({ status: 404, description: 'Baseline not found.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  async getBaselineVariance(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('baselineId', ParseUUIDPipe) baselineId: string,
+    @Request() req: any
+  ) {
+    const userId = req.user?.sub || req.user?.id;
+
+    const variance = await this.projectsService.getBaselineVariance(id, baselineId, userId);
+    return {
+      success: true,
+      data: variance
+    };
+  }
+
+  @Post(':id/baselines/:baselineId/restore')
+  @ApiOperation({ summary: 'Reset task dates to the ones captured in a baseline' })
+  @ApiParam({ name: 'id', description: 'Project UUID' })
+  @ApiParam({ name: 'baselineId', description: 'Baseline UUID' })
+  @ApiResponse({ status: 201, description: 'Task dates restored.' })
+  @ApiResponse({ status: 404, description: 'Baseline not found.' })
+  @ApiResponse({ status: 401, description: 'Unauthorized.' })
+  async restoreBaseline(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('baselineId', ParseUUIDPipe) baselineId: string,
+    @Request() req: any
+  ) {
+    const userId = req.user?.sub || req.user?.id;
+
+    const result = await this.projectsService.restoreBaseline(id, baselineId, userId);
+    return {
+      success: true,
+      data: result
+    };
+  }
+
   @Post(':id/users/:userId/assign')
   @ApiOperation({ summary: 'Assign a user to an issue in the project' })
   @ApiParam({ name: 'id', description: 'Project UUID' })
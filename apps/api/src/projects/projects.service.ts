@@ -1,14 +1,25 @@
-import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException, ConflictException } from '@nestjs/common';
+import { Prisma, ScheduleBaseline } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateProjectDto } from './dto/create-project.dto';
 import { UpdateProjectDto } from './dto/update-project.dto';
 import { ProjectResponseDto } from './dto/project.dto';
-import { WBSTreeResponseDto, WBSTreeQueryDto, GanttDataResponseDto, GanttDataQueryDto, WBSNodeDto } from '../issues/dto/wbs-tree.dto';
+import { WBSTreeResponseDto, WBSTreeQueryDto, GanttDataResponseDto, GanttDataQueryDto } from '../issues/dto/wbs-tree.dto';
+import { IssuesService } from '../issues/issues.service';
+import { ProjectEventsService } from '../events/project-events.service';
+import {
+  CreateBaselineDto,
+  BaselineResponseDto,
+  BaselineTaskVarianceDto,
+  BaselineVarianceResponseDto
+} from './dto/baseline.dto';
 
 @Injectable()
 export class ProjectsService {
   constructor(
     private readonly prisma: PrismaService,
+    private readonly issuesService: IssuesService,
+    private readonly projectEvents: ProjectEventsService,
   ) {}
 
   async create(createProjectDto: CreateProjectDto, userId: string): Promise<ProjectResponseDto> {
@@ -48,6 +59,7 @@ export class ProjectsService {
         name: project.name,
         visibility: project.visibility,
         schedulingEnabled: project.schedulingEnabled,
+        hourlyRate: project.hourlyRate,
         createdAt: project.createdAt.toISOString(),
         updatedAt: project.updatedAt.toISOString(),
         members: project.members.map(member => ({
@@ -103,6 +115,7 @@ export class ProjectsService {
       name: project.name,
       visibility: project.visibility,
       schedulingEnabled: project.schedulingEnabled,
+      hourlyRate: project.hourlyRate,
       createdAt: project.createdAt.toISOString(),
       updatedAt: project.updatedAt.toISOString(),
       members: project.members.map(member => ({
@@ -157,6 +170,7 @@ export class ProjectsService {
       name: project.name,
       visibility: project.visibility,
       schedulingEnabled: project.schedulingEnabled,
+      hourlyRate: project.hourlyRate,
       createdAt: project.createdAt.toISOString(),
       updatedAt: project.updatedAt.toISOString(),
       members: project.members.map(member => ({
@@ -204,6 +218,7 @@ export class ProjectsService {
         name: project.name,
         visibility: project.visibility,
         schedulingEnabled: project.schedulingEnabled,
+        hourlyRate: project.hourlyRate,
         createdAt: project.createdAt.toISOString(),
         updatedAt: project.updatedAt.toISOString(),
         members: project.members.map(member => ({
@@ -236,82 +251,7 @@ export class ProjectsService {
   }
 
   async getProjectWBS(projectId: string, query: Omit<WBSTreeQueryDto, 'projectId'>): Promise<WBSTreeResponseDto> {
-    const { 
-      expandLevel = 2,
-      includeCompleted = true
-    } = query;
-
-    try {
-      const whereClause: any = {
-        projectId: projectId
-      };
-
-      if (!includeCompleted) {
-        whereClause.status = {
-          not: 'done'
-        };
-      }
-
-      const issues = await this.prisma.issue.findMany({
-        where: whereClause,
-        orderBy: [
-          { parentIssueId: { sort: 'asc', nulls: 'first' } },
-          { orderIndex: 'asc' }
-        ],
-        include: {
-          assignee: {
-            select: {
-              id: true,
-              name: true,
-              email: true
-            }
-          },
-          wbsNode: true
-        }
-      });
-
-      const nodes = await this.convertToWBSNodes(issues, expandLevel);
-
-      return {
-        nodes: nodes,
-        totalNodes: issues.length,
-        maxDepth: this.calculateMaxDepth(nodes),
-        visibleNodes: this.countVisibleNodes(nodes),
-        generatedAt: new Date().toISOString()
-      };
-    } catch (error) {
-      throw new BadRequestException(`Failed to get WBS tree: ${error.message}`);
-    }
-  }
-
-  private calculateMaxDepth(nodes: WBSNodeDto[]): number {
-    let maxDepth = 0;
-    const calculateDepth = (nodeList: WBSNodeDto[], currentDepth: number = 0): void => {
-      for (const node of nodeList) {
-        maxDepth = Math.max(maxDepth, currentDepth);
-        if (node.children && node.children.length > 0) {
-          calculateDepth(node.children, currentDepth + 1);
-        }
-      }
-    };
-    calculateDepth(nodes);
-    return maxDepth;
-  }
-
-  private countVisibleNodes(nodes: WBSNodeDto[]): number {
-    let count = 0;
-    const countVisible = (nodeList: WBSNodeDto[]): void => {
-      for (const node of nodeList) {
-        if (node.isVisible) {
-          count++;
-        }
-        if (node.children && node.children.length > 0) {
-          countVisible(node.children);
-        }
-      }
-    };
-    countVisible(nodes);
-    return count;
+    return this.issuesService.getWBSTree(projectId, query);
   }
 
   async getProjectGanttData(projectId: string, query: Omit<GanttDataQueryDto, 'projectId'>): Promise<GanttDataResponseDto> {
@@ -383,6 +323,7 @@ export class ProjectsService {
         ]
       });
 
+      const parentIds = new Set(issues.map(issue => issue.parentIssueId));
       const tasks = issues.map((issue, index) => ({
         id: issue.id,
         title: issue.title,
@@ -398,6 +339,7 @@ export class ProjectsService {
         actualHours: issue.spent,
         level: this.calculateIssueLevel(issue, issues),
         order: index,
+        type: parentIds.has(issue.id) ? 'summary' as const : 'task' as const,
         color: this.getStatusColor(issue.status)
       }));
 
@@ -419,7 +361,7 @@ export class ProjectsService {
           successorId: dep.successorId,
           type: dep.type as 'FS' | 'SS' | 'FF' | 'SF',
           lag: dep.lag,
-          lagUnit: 'hours' as 'days' | 'hours'
+          lagUnit: dep.lagUnit as 'hours' | 'days' | 'percent'
         })));
       }
 
@@ -484,57 +426,6 @@ export class ProjectsService {
       : new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
   }
 
-  private async convertToWBSNodes(issues: any[], expandLevel: number = 2, currentLevel: number = 0): Promise<WBSNodeDto[]> {
-    const nodeMap = new Map();
-
-    // First pass: create all nodes
-    for (const issue of issues) {
-      const node: WBSNodeDto = {
-        id: issue.id,
-        title: issue.title,
-        description: issue.description,
-        parentId: issue.parentIssueId,
-        projectId: issue.projectId,
-        assigneeId: issue.assigneeId,
-        status: issue.status as any,
-        startDate: issue.startDate?.toISOString(),
-        dueDate: issue.dueDate?.toISOString(),
-        estimatedHours: issue.estimateValue,
-        progress: issue.progress,
-        version: issue.version,
-        level: 0, // Will be calculated later
-        order: issue.orderIndex,
-        isExpanded: currentLevel < expandLevel,
-        children: [],
-        hasChildren: false,
-        isVisible: true,
-        path: []
-      };
-      nodeMap.set(issue.id, node);
-    }
-
-    // Second pass: build hierarchy
-    const rootNodes: WBSNodeDto[] = [];
-    for (const issue of issues) {
-      const node = nodeMap.get(issue.id);
-      if (issue.parentIssueId) {
-        const parent = nodeMap.get(issue.parentIssueId);
-        if (parent) {
-          parent.children.push(node);
-          parent.hasChildren = true;
-          node.level = parent.level + 1;
-          node.path = [...parent.path, parent.id];
-        }
-      } else {
-        rootNodes.push(node);
-        node.level = 0;
-        node.path = [];
-      }
-    }
-
-    return rootNodes;
-  }
-
   async assignUserToIssue(projectId: string, userId: string, issueId: string, requestingUserId: string): Promise<void> {
     // Verify project access for requesting user
     await this.findOneWithAccess(projectId, requestingUserId);
@@ -675,70 +566,225 @@ export class ProjectsService {
     return [];
   }
 
-  async createScheduleVersion(projectId: string, versionName: string, userId: string): Promise<any> {
-    // Verify project access
+  async createBaseline(projectId: string, createBaselineDto: CreateBaselineDto, userId: string): Promise<BaselineResponseDto> {
     await this.findOneWithAccess(projectId, userId);
-    
-    try {
-      // Get current schedule data
-      const scheduleData = await this.getProjectGanttData(projectId, {});
-      
-      // Create version record (placeholder implementation)
-      const version = {
-        id: `version-${Date.now()}`,
+
+    const existing = await this.prisma.scheduleBaseline.findUnique({
+      where: { projectId_name: { projectId, name: createBaselineDto.name } }
+    });
+    if (existing) {
+      throw new ConflictException(`Baseline '${createBaselineDto.name}' already exists in this project`);
+    }
+
+    const issues = await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: null },
+      select: { id: true, title: true, parentIssueId: true, startDate: true, dueDate: true, progress: true }
+    });
+
+    // A concurrent request with the same name can still win between the check above and this insert
+    const baseline = await this.prisma.scheduleBaseline.create({
+      data: {
         projectId,
-        versionName,
-        scheduleData: JSON.stringify(scheduleData),
+        name: createBaselineDto.name,
+        description: createBaselineDto.description ?? '',
         createdBy: userId,
-        createdAt: new Date().toISOString()
-      };
-      
-      return {
-        success: true,
-        versionId: version.id,
-        message: `Schedule version '${versionName}' created successfully`
-      };
-    } catch (error) {
-      throw new BadRequestException(`Failed to create schedule version: ${error.message}`);
-    }
+        tasks: {
+          create: issues.map(issue => ({
+            issueId: issue.id,
+            title: issue.title,
+            parentIssueId: issue.parentIssueId,
+            startDate: issue.startDate,
+            endDate: issue.dueDate,
+            duration: issue.startDate && issue.dueDate ? this.daysBetween(issue.startDate, issue.dueDate) : 0,
+            progress: issue.progress
+          }))
+        }
+      },
+      include: { _count: { select: { tasks: true } } }
+    }).catch(error => {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictException(`Baseline '${createBaselineDto.name}' already exists in this project`);
+      }
+      throw error;
+    });
+
+    return this.toBaselineResponse(baseline);
   }
 
-  async getScheduleVersionHistory(projectId: string): Promise<any[]> {
-    try {
-      // Placeholder implementation - return mock version history
-      return [
-        {
-          id: 'version-1',
-          versionName: 'Initial Schedule',
-          createdAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString(),
-          createdBy: 'system'
-        },
-        {
-          id: 'version-2',
-          versionName: 'Updated Milestones',
-          createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
-          createdBy: 'user'
-        }
-      ];
-    } catch (error) {
-      throw new BadRequestException(`Failed to get schedule version history: ${error.message}`);
-    }
+  async getBaselines(projectId: string, userId: string): Promise<BaselineResponseDto[]> {
+    await this.findOneWithAccess(projectId, userId);
+
+    const baselines = await this.prisma.scheduleBaseline.findMany({
+      where: { projectId },
+      orderBy: { createdAt: 'desc' },
+      include: { _count: { select: { tasks: true } } }
+    });
+
+    return baselines.map(baseline => this.toBaselineResponse(baseline));
   }
 
-  async rollbackToScheduleVersion(projectId: string, versionId: string, userId: string): Promise<any> {
-    // Verify project access
+  async getBaselineVariance(projectId: string, baselineId: string, userId: string): Promise<BaselineVarianceResponseDto> {
     await this.findOneWithAccess(projectId, userId);
-    
-    try {
-      // Placeholder implementation
+
+    const baseline = await this.prisma.scheduleBaseline.findFirst({
+      where: { id: baselineId, projectId },
+      include: { tasks: true, _count: { select: { tasks: true } } }
+    });
+    if (!baseline) {
+      throw new NotFoundException('Baseline not found');
+    }
+
+    const issues = await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: null },
+      orderBy: [{ startDate: { sort: 'asc', nulls: 'last' } }, { orderIndex: 'asc' }],
+      select: { id: true, title: true, startDate: true, dueDate: true, progress: true }
+    });
+    const plannedByIssue = new Map(baseline.tasks.map(task => [task.issueId, task]));
+    const liveIds = new Set(issues.map(issue => issue.id));
+
+    const tasks: BaselineTaskVarianceDto[] = issues.map(issue => {
+      const planned = plannedByIssue.get(issue.id);
       return {
-        success: true,
-        message: `Project ${projectId} rolled back to version ${versionId}`,
-        timestamp: new Date().toISOString()
+        issueId: issue.id,
+        title: issue.title,
+        state: planned ? 'tracked' : 'added',
+        baselineStartDate: planned?.startDate?.toISOString() ?? null,
+        baselineEndDate: planned?.endDate?.toISOString() ?? null,
+        baselineProgress: planned?.progress ?? null,
+        currentStartDate: issue.startDate?.toISOString() ?? null,
+        currentEndDate: issue.dueDate?.toISOString() ?? null,
+        currentProgress: issue.progress,
+        startVarianceDays: planned?.startDate && issue.startDate ? this.daysBetween(planned.startDate, issue.startDate) : null,
+        finishVarianceDays: planned?.endDate && issue.dueDate ? this.daysBetween(planned.endDate, issue.dueDate) : null,
+        durationVarianceDays: planned?.startDate && planned.endDate && issue.startDate && issue.dueDate
+          ? this.daysBetween(issue.startDate, issue.dueDate) - planned.duration
+          : null
       };
-    } catch (error) {
-      throw new BadRequestException(`Failed to rollback to schedule version: ${error.message}`);
+    });
+
+    for (const planned of baseline.tasks.filter(task => !liveIds.has(task.issueId))) {
+      tasks.push({
+        issueId: planned.issueId,
+        title: planned.title,
+        state: 'removed',
+        baselineStartDate: planned.startDate?.toISOString() ?? null,
+        baselineEndDate: planned.endDate?.toISOString() ?? null,
+        baselineProgress: planned.progress,
+        currentStartDate: null,
+        currentEndDate: null,
+        currentProgress: null,
+        startVarianceDays: null,
+        finishVarianceDays: null,
+        durationVarianceDays: null
+      });
+    }
+
+    const latest = (dates: Array<Date | null>) => dates.reduce<Date | null>((max, date) => (date && (!max || date > max) ? date : max), null);
+    const plannedFinish = latest(baseline.tasks.map(task => task.endDate));
+    const currentFinish = latest(issues.map(issue => issue.dueDate));
+    const tracked = tasks.filter(task => task.state === 'tracked');
+
+    return {
+      baseline: this.toBaselineResponse(baseline),
+      tasks,
+      summary: {
+        trackedTasks: tracked.length,
+        addedTasks: tasks.filter(task => task.state === 'added').length,
+        removedTasks: tasks.filter(task => task.state === 'removed').length,
+        lateStarts: tracked.filter(task => (task.startVarianceDays ?? 0) > 0).length,
+        lateFinishes: tracked.filter(task => (task.finishVarianceDays ?? 0) > 0).length,
+        maxFinishSlipDays: Math.max(0, ...tracked.map(task => task.finishVarianceDays ?? 0)),
+        projectFinishVarianceDays: plannedFinish && currentFinish ? this.daysBetween(plannedFinish, currentFinish) : null
+      },
+      generatedAt: new Date().toISOString()
+    };
+  }
+
+  async restoreBaseline(projectId: string, baselineId: string, userId: string): Promise<{ restoredCount: number; skippedCount: number }> {
+    await this.findOneWithAccess(projectId, userId);
+
+    const baseline = await this.prisma.scheduleBaseline.findFirst({
+      where: { id: baselineId, projectId },
+      include: { tasks: true }
+    });
+    if (!baseline) {
+      throw new NotFoundException('Baseline not found');
     }
+
+    const plannedByIssue = new Map(baseline.tasks.map(task => [task.issueId, task]));
+    const issues = await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: null, id: { in: [...plannedByIssue.keys()] } }
+    });
+    // Only tasks whose dates actually moved are written, so untouched rows keep their version
+    const drifted = issues.filter(issue => {
+      const planned = plannedByIssue.get(issue.id);
+      return planned
+        && (issue.startDate?.getTime() !== planned.startDate?.getTime() || issue.dueDate?.getTime() !== planned.endDate?.getTime());
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      for (const issue of drifted) {
+        const planned = plannedByIssue.get(issue.id);
+        // Version guard in the WHERE clause: an issue edited since it was read fails the restore
+        const { count } = await tx.issue.updateMany({
+          where: { id: issue.id, projectId, version: issue.version, deletedAt: null },
+          data: { startDate: planned?.startDate ?? null, dueDate: planned?.endDate ?? null, version: { increment: 1 } }
+        });
+        if (count === 0) {
+          throw new ConflictException(`Issue '${issue.title}' changed while the baseline was being restored; try again`);
+        }
+        await tx.activityLog.create({
+          data: {
+            projectId,
+            entityType: 'issue',
+            entityId: issue.id,
+            issueId: issue.id,
+            action: 'update',
+            actor: userId,
+            before: { startDate: issue.startDate?.toISOString() ?? null, dueDate: issue.dueDate?.toISOString() ?? null },
+            after: { startDate: planned?.startDate?.toISOString() ?? null, dueDate: planned?.endDate?.toISOString() ?? null },
+            metadata: { restoredFromBaseline: baselineId }
+          }
+        });
+      }
+    });
+
+    const restoredTasks = drifted.map(issue => ({
+      issueId: issue.id,
+      startDate: plannedByIssue.get(issue.id)?.startDate ?? null,
+      dueDate: plannedByIssue.get(issue.id)?.endDate ?? null,
+      version: issue.version + 1
+    }));
+    this.projectEvents.publish({
+      projectId,
+      type: 'schedule.applied',
+      message: `Baseline "${baseline.name}" restored to ${drifted.length} task${drifted.length === 1 ? '' : 's'}`,
+      data: {
+        baselineId,
+        appliedTasks: drifted.length,
+        // Clients patch dated tasks in place; an undated one makes them reload the plan instead
+        ...(restoredTasks.every(task => task.startDate && task.dueDate) && { tasks: restoredTasks })
+      },
+      userId
+    });
+
+    return { restoredCount: drifted.length, skippedCount: baseline.tasks.length - drifted.length };
+  }
+
+  private toBaselineResponse(baseline: ScheduleBaseline & { _count: { tasks: number } }): BaselineResponseDto {
+    return {
+      id: baseline.id,
+      projectId: baseline.projectId,
+      name: baseline.name,
+      description: baseline.description,
+      createdBy: baseline.createdBy,
+      createdAt: baseline.createdAt.toISOString(),
+      taskCount: baseline._count.tasks
+    };
+  }
+
+  private daysBetween(from: Date, to: Date): number {
+    return Math.round((to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000));
   }
 
   async getMigrationStatus(): Promise<any> {
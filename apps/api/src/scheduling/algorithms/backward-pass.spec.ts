@@ -0,0 +1,112 @@
+import { ForwardPass, TaskNode, TaskConstraint } from './forward-pass';
+import { BackwardPass } from './backward-pass';
+
+const PROJECT_START = new Date(2025, 0, 6); // Monday
+
+interface TaskSpec {
+  id: string;
+  hours: number;
+  after?: string[];
+  constraint?: TaskConstraint;
+}
+
+function calculate(specs: TaskSpec[]) {
+  const nodes: TaskNode[] = specs.map(spec => ({
+    id: spec.id,
+    title: spec.id,
+    duration: spec.hours,
+    startDate: PROJECT_START,
+    endDate: PROJECT_START,
+    assigneeId: null,
+    predecessors: (spec.after ?? []).map(id => ({ id, type: 'FS' as const, lag: 0 })),
+    successors: specs
+      .filter(other => other.after?.includes(spec.id))
+      .map(other => ({ id: other.id, type: 'FS' as const, lag: 0 })),
+    earliestStart: 0,
+    earliestFinish: 0,
+    isCompleted: false,
+    progress: 0,
+    constraint: spec.constraint
+  }));
+
+  const forward = new ForwardPass([1, 2, 3, 4, 5], 8, []).calculate(nodes, PROJECT_START);
+  return new BackwardPass([1, 2, 3, 4, 5], [], 8).calculate(forward);
+}
+
+describe('BackwardPass with date constraints', () => {
+  it('finds the critical path and float of an unconstrained network', () => {
+    const { tasks, criticalPath } = calculate([
+      { id: 'a', hours: 16 },
+      { id: 'b', hours: 8, after: ['a'] },
+      { id: 'c', hours: 8 }
+    ]);
+
+    expect(criticalPath).toEqual(['a', 'b']);
+    expect(tasks.get('c')).toMatchObject({ latestStart: 16, latestFinish: 24, totalFloat: 16, freeFloat: 16 });
+  });
+
+  it('turns a missed Finish-No-Later-Than date into negative float along the driving chain', () => {
+    const { tasks } = calculate([
+      { id: 'a', hours: 16 },
+      { id: 'b', hours: 16, after: ['a'], constraint: { type: 'FNLT', date: new Date(2025, 0, 8) } },
+      { id: 'c', hours: 8 }
+    ]);
+
+    expect(tasks.get('b')).toMatchObject({ earliestFinish: 32, latestFinish: 24, totalFloat: -8, isCritical: false });
+    expect(tasks.get('a')).toMatchObject({ latestFinish: 8, totalFloat: -8 });
+    expect(tasks.get('c')).toMatchObject({ totalFloat: 24 });
+  });
+
+  it('leaves positive float when a Finish-No-Later-Than date is met', () => {
+    const { tasks } = calculate([
+      { id: 'a', hours: 8, constraint: { type: 'FNLT', date: new Date(2025, 0, 8) } },
+      { id: 'b', hours: 40 }
+    ]);
+
+    expect(tasks.get('a')).toMatchObject({ latestFinish: 24, totalFloat: 16 });
+  });
+
+  it('gives Must-Start-On tasks negative float when predecessors run past the date', () => {
+    const { tasks } = calculate([
+      { id: 'a', hours: 24 },
+      { id: 'm', hours: 8, after: ['a'], constraint: { type: 'MSO', date: new Date(2025, 0, 7) } }
+    ]);
+
+    expect(tasks.get('m')).toMatchObject({ earliestStart: 24, latestStart: 8, latestFinish: 16, totalFloat: -16 });
+    expect(tasks.get('a')).toMatchObject({ totalFloat: -16 });
+  });
+
+  it('pins Must-Finish-On tasks to their date from both sides', () => {
+    const { tasks } = calculate([
+      { id: 'm', hours: 8, constraint: { type: 'MFO', date: new Date(2025, 0, 8) } },
+      { id: 'b', hours: 40 }
+    ]);
+
+    expect(tasks.get('m')).toMatchObject({ earliestStart: 16, earliestFinish: 24, latestFinish: 24, totalFloat: 0 });
+  });
+
+  it('moves As-Late-As-Possible tasks into their free float without delaying successors', () => {
+    const { tasks } = calculate([
+      { id: 'a', hours: 8, constraint: { type: 'ALAP' } },
+      { id: 'b', hours: 8, after: ['a'] },
+      { id: 'long', hours: 40 },
+      { id: 'tail', hours: 8, constraint: { type: 'ALAP' } }
+    ]);
+
+    // a has no free float: b is not ALAP and still starts at 8
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 0, earliestFinish: 8 });
+    expect(tasks.get('b')).toMatchObject({ earliestStart: 8 });
+    expect(tasks.get('tail')).toMatchObject({ earliestStart: 32, earliestFinish: 40, totalFloat: 0 });
+  });
+
+  it('pulls an As-Late-As-Possible predecessor behind its As-Late-As-Possible successor', () => {
+    const { tasks } = calculate([
+      { id: 'a', hours: 8, constraint: { type: 'ALAP' } },
+      { id: 'b', hours: 8, after: ['a'], constraint: { type: 'ALAP' } },
+      { id: 'long', hours: 40 }
+    ]);
+
+    expect(tasks.get('b')).toMatchObject({ earliestStart: 32, earliestFinish: 40 });
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 24, earliestFinish: 32 });
+  });
+});
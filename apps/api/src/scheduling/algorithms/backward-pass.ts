@@ -1,4 +1,5 @@
 import { TaskNode, ForwardPassResult } from './forward-pass';
+import { WorkingTime, dateFinishHours, dateStartHours } from './working-time';
 
 export interface BackwardPassResult {
   tasks: Map<string, TaskNodeWithSlack>;
@@ -16,13 +17,21 @@ export interface TaskNodeWithSlack extends TaskNode {
 }
 
 export class BackwardPass {
-  private readonly FLOAT_TOLERANCE = 0.1; // Days
+  private readonly FLOAT_TOLERANCE = 0.1; // Hours
+  private projectStartDate: Date = new Date();
+
+  constructor(
+    private workingDays: number[] = [1, 2, 3, 4, 5],
+    private holidays: Date[] = [],
+    private workingHoursPerDay: number = 8
+  ) {}
 
   /**
    * Calculate backward pass - determines latest start and finish times, float, and critical path
    */
   calculate(forwardPassResult: ForwardPassResult, projectDeadline?: Date): BackwardPassResult {
     const { tasks: forwardTasks, projectEarliestFinish } = forwardPassResult;
+    this.projectStartDate = forwardPassResult.projectStartDate;
     
     // Initialize backward pass data
     const backwardTasks = new Map<string, TaskNodeWithSlack>();
@@ -33,7 +42,7 @@ export class BackwardPass {
         ...task,
         latestStart: 0,
         latestFinish: projectDeadline ? 
-          this.getWorkingDaysFromProjectStart(task.startDate, projectDeadline) : 
+          dateFinishHours(this.workingTime, this.projectStartDate, projectDeadline) : 
           projectEarliestFinish,
         totalFloat: 0,
         freeFloat: 0,
@@ -46,7 +55,7 @@ export class BackwardPass {
     
     endTasks.forEach(task => {
       task.latestFinish = projectDeadline ? 
-        this.getWorkingDaysFromProjectStart(task.startDate, projectDeadline) :
+        dateFinishHours(this.workingTime, this.projectStartDate, projectDeadline) :
         projectEarliestFinish;
     });
 
@@ -60,6 +69,11 @@ export class BackwardPass {
     // Calculate float values
     this.calculateFloatValues(backwardTasks);
 
+    // Move ALAP tasks into their free float, then refresh the floats they consumed
+    if (this.applyAsLateAsPossible(reverseSortedTasks, backwardTasks)) {
+      this.calculateFloatValues(backwardTasks);
+    }
+
     // Identify critical path
     const criticalPath = this.identifyCriticalPath(backwardTasks);
 
@@ -86,6 +100,7 @@ export class BackwardPass {
   ): void {
     if (task.successors.length === 0) {
       // End task - latest finish already set
+      task.latestFinish = this.applyFinishConstraint(task, task.latestFinish);
       task.latestStart = task.latestFinish - task.duration;
       return;
     }
@@ -121,10 +136,62 @@ export class BackwardPass {
       minLatestFinish = Math.min(minLatestFinish, requiredFinish);
     });
 
-    task.latestFinish = minLatestFinish;
+    task.latestFinish = this.applyFinishConstraint(task, minLatestFinish);
     task.latestStart = task.latestFinish - task.duration;
   }
 
+  /**
+   * Pull the latest finish earlier for FNLT, MFO and MSO. A latest finish
+   * before the earliest finish shows up as negative total float.
+   */
+  private applyFinishConstraint(task: TaskNodeWithSlack, latestFinish: number): number {
+    const { constraint } = task;
+    if (!constraint?.date || task.isCompleted) {
+      return latestFinish;
+    }
+
+    switch (constraint.type) {
+      case 'FNLT':
+      case 'MFO':
+        return Math.min(latestFinish, dateFinishHours(this.workingTime, this.projectStartDate, constraint.date));
+      case 'MSO':
+        return Math.min(
+          latestFinish,
+          dateStartHours(this.workingTime, this.projectStartDate, constraint.date) + task.duration
+        );
+      default:
+        return latestFinish;
+    }
+  }
+
+  /**
+   * Delay ALAP tasks by their free float so successors keep their dates.
+   * Tasks are visited successors-first, so a predecessor sees the float
+   * its ALAP successor left behind.
+   */
+  private applyAsLateAsPossible(
+    reverseSortedTasks: TaskNodeWithSlack[],
+    taskMap: Map<string, TaskNodeWithSlack>
+  ): boolean {
+    let moved = false;
+
+    reverseSortedTasks.forEach(task => {
+      if (task.constraint?.type !== 'ALAP' || task.isCompleted) return;
+
+      const delay = task.successors.length === 0
+        ? task.totalFloat
+        : this.getFreeFloat(task, taskMap);
+      if (delay <= 0) return;
+
+      task.earliestStart += delay;
+      task.earliestFinish += delay;
+      task.totalFloat = task.latestStart - task.earliestStart;
+      moved = true;
+    });
+
+    return moved;
+  }
+
   private calculateFloatValues(taskMap: Map<string, TaskNodeWithSlack>): void {
     taskMap.forEach(task => {
       // Total Float = Latest Start - Earliest Start
@@ -134,36 +201,7 @@ export class BackwardPass {
       if (task.successors.length === 0) {
         task.freeFloat = task.totalFloat; // End tasks
       } else {
-        let minSuccessorES = Infinity;
-        
-        task.successors.forEach(succ => {
-          const successorTask = taskMap.get(succ.id);
-          if (successorTask) {
-            // Adjust for dependency type and lag
-            let adjustedSuccessorES: number;
-            
-            switch (succ.type) {
-              case 'FS':
-                adjustedSuccessorES = successorTask.earliestStart - succ.lag;
-                break;
-              case 'SS':
-                adjustedSuccessorES = successorTask.earliestStart - succ.lag + task.duration;
-                break;
-              case 'FF':
-                adjustedSuccessorES = successorTask.earliestFinish - task.duration - succ.lag;
-                break;
-              case 'SF':
-                adjustedSuccessorES = successorTask.earliestFinish - task.duration - succ.lag;
-                break;
-              default:
-                adjustedSuccessorES = successorTask.earliestStart - succ.lag;
-            }
-            
-            minSuccessorES = Math.min(minSuccessorES, adjustedSuccessorES);
-          }
-        });
-
-        task.freeFloat = Math.max(0, minSuccessorES - task.earliestFinish);
+        task.freeFloat = this.getFreeFloat(task, taskMap);
       }
 
       // Task is critical if total float is near zero
@@ -171,6 +209,39 @@ export class BackwardPass {
     });
   }
 
+  private getFreeFloat(task: TaskNodeWithSlack, taskMap: Map<string, TaskNodeWithSlack>): number {
+    let minSuccessorES = Infinity;
+    
+    task.successors.forEach(succ => {
+      const successorTask = taskMap.get(succ.id);
+      if (successorTask) {
+        // Adjust for dependency type and lag
+        let adjustedSuccessorES: number;
+        
+        switch (succ.type) {
+          case 'FS':
+            adjustedSuccessorES = successorTask.earliestStart - succ.lag;
+            break;
+          case 'SS':
+            adjustedSuccessorES = successorTask.earliestStart - succ.lag + task.duration;
+            break;
+          case 'FF':
+            adjustedSuccessorES = successorTask.earliestFinish - task.duration - succ.lag;
+            break;
+          case 'SF':
+            adjustedSuccessorES = successorTask.earliestFinish - task.duration - succ.lag;
+            break;
+          default:
+            adjustedSuccessorES = successorTask.earliestStart - succ.lag;
+        }
+        
+        minSuccessorES = Math.min(minSuccessorES, adjustedSuccessorES);
+      }
+    });
+
+    return Math.max(0, minSuccessorES - task.earliestFinish);
+  }
+
   private identifyCriticalPath(taskMap: Map<string, TaskNodeWithSlack>): string[] {
     const criticalTasks = Array.from(taskMap.values())
       .filter(task => task.isCritical)
@@ -244,11 +315,12 @@ export class BackwardPass {
     return result;
   }
 
-  private getWorkingDaysFromProjectStart(projectStart: Date, targetDate: Date): number {
-    // Simple implementation - should match ForwardPass working day calculation
-    const msPerDay = 24 * 60 * 60 * 1000;
-    const diffDays = Math.ceil((targetDate.getTime() - projectStart.getTime()) / msPerDay);
-    return Math.max(0, diffDays);
+  private get workingTime(): WorkingTime {
+    return {
+      workingDays: this.workingDays,
+      hoursPerDay: this.workingHoursPerDay,
+      holidays: this.holidays
+    };
   }
 
   /**
@@ -297,13 +369,13 @@ export class BackwardPass {
     }> = [];
 
     backwardPassResult.tasks.forEach(task => {
-      if (!task.isCritical && task.totalFloat > 1) { // More than 1 day float
+      if (!task.isCritical && task.totalFloat > this.workingHoursPerDay) { // More than 1 day float
         let recommendation = '';
         
         if (task.freeFloat > 0) {
-          recommendation = `Can be delayed by ${task.freeFloat.toFixed(1)} days without affecting other tasks`;
+          recommendation = `Can be delayed by ${(task.freeFloat / this.workingHoursPerDay).toFixed(1)} days without affecting other tasks`;
         } else if (task.totalFloat > 0) {
-          recommendation = `Can be delayed by ${task.totalFloat.toFixed(1)} days without affecting project completion`;
+          recommendation = `Can be delayed by ${(task.totalFloat / this.workingHoursPerDay).toFixed(1)} days without affecting project completion`;
         }
 
         if (recommendation) {
@@ -0,0 +1,144 @@
+import { ForwardPass, TaskNode, TaskConstraint } from './forward-pass';
+import { BackwardPass, TaskNodeWithSlack } from './backward-pass';
+import { ConstraintSolver } from './constraint-solver';
+
+const PROJECT_START = new Date(2025, 0, 6); // Monday
+const WORKING_DAYS = [1, 2, 3, 4, 5];
+
+interface TaskSpec {
+  id: string;
+  hours: number;
+  assigneeId?: string;
+  after?: string[];
+  constraint?: TaskConstraint;
+}
+
+function schedule(specs: TaskSpec[]): Map<string, TaskNodeWithSlack> {
+  const nodes: TaskNode[] = specs.map(spec => ({
+    id: spec.id,
+    title: spec.id,
+    duration: spec.hours,
+    startDate: PROJECT_START,
+    endDate: PROJECT_START,
+    assigneeId: spec.assigneeId ?? null,
+    predecessors: (spec.after ?? []).map(id => ({ id, type: 'FS' as const, lag: 0 })),
+    successors: specs
+      .filter(other => other.after?.includes(spec.id))
+      .map(other => ({ id: other.id, type: 'FS' as const, lag: 0 })),
+    earliestStart: 0,
+    earliestFinish: 0,
+    isCompleted: false,
+    progress: 0,
+    constraint: spec.constraint
+  }));
+
+  const forward = new ForwardPass(WORKING_DAYS, 8, []).calculate(nodes, PROJECT_START);
+  return new BackwardPass(WORKING_DAYS, [], 8).calculate(forward).tasks;
+}
+
+function level(tasks: Map<string, TaskNodeWithSlack>) {
+  const solver = new ConstraintSolver({ workingDays: WORKING_DAYS, workingHoursPerDay: 8, startDate: PROJECT_START });
+  return { solver, result: solver.applyResourceConstraints(tasks) };
+}
+
+describe('ConstraintSolver.applyResourceConstraints', () => {
+  it('delays the task with more float when an assignee is double-booked', () => {
+    const tasks = schedule([
+      { id: 'a', hours: 16, assigneeId: 'alice' },
+      { id: 'b', hours: 8, assigneeId: 'alice' },
+      { id: 'c', hours: 8, after: ['b'] }
+    ]);
+
+    const { result } = level(tasks);
+
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 0, earliestFinish: 16 });
+    expect(tasks.get('b')).toMatchObject({ earliestStart: 16, earliestFinish: 24 });
+    expect(tasks.get('c')).toMatchObject({ earliestStart: 24, earliestFinish: 32 });
+    expect(result.originalFinish).toBe(16);
+    expect(result.leveledFinish).toBe(32);
+    expect(result.shifts.map(shift => shift.taskId)).toEqual(['b', 'c']);
+    expect(result.shifts.every(shift => !shift.withinFloat)).toBe(true);
+  });
+
+  it('recomputes float from the leveled dates', () => {
+    const tasks = schedule([
+      { id: 'a', hours: 16, assigneeId: 'alice' },
+      { id: 'b', hours: 16, assigneeId: 'alice' },
+      { id: 'c', hours: 8, assigneeId: 'carol' }
+    ]);
+
+    level(tasks);
+
+    expect(tasks.get('a')).toMatchObject({ latestFinish: 32, totalFloat: 16, isCritical: false });
+    expect(tasks.get('b')).toMatchObject({ latestFinish: 32, totalFloat: 0, isCritical: true });
+    expect(tasks.get('c')).toMatchObject({ latestFinish: 32, totalFloat: 24, isCritical: false });
+  });
+
+  it('keeps a Finish-No-Later-Than deadline when leveling pushes the task past it', () => {
+    const tasks = schedule([
+      { id: 'a', hours: 16, assigneeId: 'alice' },
+      { id: 'b', hours: 16, assigneeId: 'alice', constraint: { type: 'FNLT', date: new Date(2025, 0, 7) } }
+    ]);
+
+    const { solver } = level(tasks);
+
+    expect(tasks.get('b')).toMatchObject({ earliestFinish: 32, latestFinish: 16, totalFloat: -16 });
+    const conflicts = solver.detectConstraintViolations(tasks);
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({ affectedTasks: ['b'], negativeFloat: 16 });
+  });
+
+  it('leaves Must-Start-On tasks in place and levels other work around them', () => {
+    const tasks = schedule([
+      { id: 'a', hours: 8, assigneeId: 'alice' },
+      { id: 'm', hours: 8, assigneeId: 'alice', constraint: { type: 'MSO', date: new Date(2025, 0, 6) } }
+    ]);
+
+    const { result } = level(tasks);
+
+    expect(tasks.get('m')).toMatchObject({ earliestStart: 0, earliestFinish: 8 });
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 8, earliestFinish: 16 });
+    expect(result.pinnedConflicts).toEqual([]);
+  });
+
+  it('reports pinned tasks that overload their assignee instead of moving them', () => {
+    const tasks = schedule([
+      { id: 'm1', hours: 8, assigneeId: 'alice', constraint: { type: 'MSO', date: new Date(2025, 0, 6) } },
+      { id: 'm2', hours: 8, assigneeId: 'alice', constraint: { type: 'MFO', date: new Date(2025, 0, 6) } }
+    ]);
+
+    const { result } = level(tasks);
+
+    expect(tasks.get('m1')).toMatchObject({ earliestStart: 0, earliestFinish: 8 });
+    expect(tasks.get('m2')).toMatchObject({ earliestStart: 0, earliestFinish: 8 });
+    expect(result.shifts).toEqual([]);
+    expect(result.pinnedConflicts).toEqual([{ taskId: 'm2', reason: 'overallocated' }]);
+  });
+
+  it('reports pinned tasks whose leveled predecessor now finishes too late', () => {
+    const tasks = schedule([
+      { id: 'q', hours: 16, assigneeId: 'alice', constraint: { type: 'MSO', date: new Date(2025, 0, 6) } },
+      { id: 'p', hours: 8, assigneeId: 'alice' },
+      { id: 'm', hours: 8, assigneeId: 'bob', after: ['p'], constraint: { type: 'MSO', date: new Date(2025, 0, 7) } }
+    ]);
+
+    const { result } = level(tasks);
+
+    expect(tasks.get('p')).toMatchObject({ earliestStart: 16, earliestFinish: 24 });
+    expect(tasks.get('m')).toMatchObject({ earliestStart: 8, earliestFinish: 16 });
+    expect(result.pinnedConflicts).toEqual([{ taskId: 'm', reason: 'predecessor' }]);
+  });
+
+  it('does not move As-Late-As-Possible tasks', () => {
+    const tasks = schedule([
+      { id: 'a', hours: 24, assigneeId: 'alice' },
+      { id: 'l', hours: 8, assigneeId: 'bob', constraint: { type: 'ALAP' } }
+    ]);
+    expect(tasks.get('l')).toMatchObject({ earliestStart: 16, earliestFinish: 24 });
+
+    const { result } = level(tasks);
+
+    expect(tasks.get('l')).toMatchObject({ earliestStart: 16, earliestFinish: 24 });
+    expect(result.shifts).toEqual([]);
+  });
+});
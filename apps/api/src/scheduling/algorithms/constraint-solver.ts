@@ -1,5 +1,14 @@
-import { TaskNodeWithSlack, BackwardPassResult } from './backward-pass';
+import { BackwardPass, TaskNodeWithSlack, BackwardPassResult } from './backward-pass';
+import { TaskConstraintType } from './forward-pass';
 import { ConflictInfo, ConflictType, ConflictSeverity } from '../dto/schedule-response.dto';
+import { ResourceAvailability, getAvailableHours } from './resource-availability';
+import {
+  WorkingTime,
+  getWorkingDayDate,
+  hoursToTimestamp,
+  hoursToFinishTimestamp,
+  timestampToHours
+} from './working-time';
 
 export interface ScheduleConstraints {
   workingDays: number[];
@@ -7,7 +16,7 @@ export interface ScheduleConstraints {
   startDate?: Date;
   holidays?: Date[];
   resourceConstraints?: Map<string, number>; // resourceId -> capacity
-  mandatoryDates?: Map<string, Date>; // taskId -> fixed date
+  resourceCalendars?: Map<string, ResourceAvailability>; // resourceId -> personal working time
 }
 
 export interface ResourceAssignment {
@@ -26,12 +35,48 @@ export interface ConstraintViolation {
   suggestedFix?: string;
 }
 
+export interface ResourceLevelingShift {
+  taskId: string;
+  resourceId: string | null;
+  originalStart: number; // working hours from project start
+  leveledStart: number;
+  shiftHours: number;
+  originalFinish: number;
+  leveledFinish: number;
+  finishShiftHours: number; // differs from shiftHours when the assignee works reduced hours
+  withinFloat: boolean;
+}
+
+export interface PinnedTaskConflict {
+  taskId: string;
+  reason: 'overallocated' | 'predecessor'; // assignee already booked, or a leveled predecessor now ends later
+}
+
+export interface ResourceLevelingResult {
+  shifts: ResourceLevelingShift[];
+  originalFinish: number; // working hours from project start
+  leveledFinish: number;
+  unresolvedTaskIds: string[];
+  pinnedConflicts: PinnedTaskConflict[];
+}
+
+const FLOAT_EPSILON = 0.001;
+const CONSTRAINT_LABELS: Record<TaskConstraintType, string> = {
+  SNET: 'Start-No-Earlier-Than',
+  FNLT: 'Finish-No-Later-Than',
+  MSO: 'Must-Start-On',
+  MFO: 'Must-Finish-On',
+  ALAP: 'As-Late-As-Possible'
+};
+const MAX_LEVELING_DAYS = 5 * 260; // working days searched for spare capacity
+
 export class ConstraintSolver {
   private constraints: ScheduleConstraints;
   private resourceAllocations: Map<string, ResourceAssignment[]> = new Map();
   private violations: ConstraintViolation[] = [];
+  private dayDates: Map<number, Date> = new Map(); // working day index -> calendar date
 
-  constructor(constraints: ScheduleConstraints) {
+  constructor(constraints: ScheduleConstraints = { workingDays: [1, 2, 3, 4, 5], workingHoursPerDay: 8 }) {
     this.constraints = constraints;
   }
 
@@ -70,26 +115,14 @@ export class ConstraintSolver {
    * Apply working days and holiday constraints
    */
   private applyCalendarConstraints(tasks: Map<string, TaskNodeWithSlack>): void {
-    const { workingDays = [1, 2, 3, 4, 5], holidays = [] } = this.constraints;
-    
     tasks.forEach(task => {
-      // Adjust start dates to working days
-      const adjustedStartDate = this.adjustToNextWorkingDay(
-        this.addWorkingDays(new Date(), task.earliestStart),
-        workingDays,
-        holidays
-      );
-
-      const adjustedEndDate = this.adjustToNextWorkingDay(
-        this.addWorkingDays(adjustedStartDate, task.duration),
-        workingDays,
-        holidays
-      );
+      // Snap start times into working hours
+      const adjustedStart = this.toOffset(this.toTimestamp(task.earliestStart));
 
       // Update task timing if adjustments were made
       const originalStartTime = task.earliestStart;
-      task.earliestStart = this.getWorkingDays(new Date(), adjustedStartDate);
-      task.earliestFinish = this.getWorkingDays(new Date(), adjustedEndDate);
+      task.earliestFinish = adjustedStart + (task.earliestFinish - task.earliestStart);
+      task.earliestStart = adjustedStart;
 
       if (Math.abs(task.earliestStart - originalStartTime) > 0.1) {
         this.violations.push({
@@ -104,13 +137,134 @@ export class ConstraintSolver {
   }
 
   /**
-   * Apply resource capacity constraints
+   * Level resource usage so no assignee exceeds capacity on any working day.
+   *
+   * Tasks are placed one at a time once all predecessors are placed, least
+   * latest-start first, so critical work keeps its slot and non-critical tasks
+   * absorb the delay within their float. A task that cannot fit inside its
+   * float is still delayed, which extends the project finish.
+   *
+   * Work is booked in hours against each assignee's spare time, so days off
+   * and part-time capacity from resource calendars stretch finish dates.
+   *
+   * MSO, MFO and ALAP tasks keep their dates: they are booked before anything
+   * else, and a clash with their assignee or a delayed predecessor is
+   * reported instead of moving them. Latest dates and float come from a
+   * fresh backward pass over the leveled dates.
    */
-  private applyResourceConstraints(tasks: Map<string, TaskNodeWithSlack>): void {
+  applyResourceConstraints(tasks: Map<string, TaskNodeWithSlack>): ResourceLevelingResult {
     // Clear existing allocations
     this.resourceAllocations.clear();
 
-    // Build resource allocations map
+    const originalFinish = this.projectFinish(tasks);
+    const originalStarts = new Map<string, number>();
+    const originalFinishes = new Map<string, number>();
+    tasks.forEach(task => {
+      originalStarts.set(task.id, task.earliestStart);
+      originalFinishes.set(task.id, task.earliestFinish);
+    });
+
+    // resourceId -> working day offset -> booked hours
+    const dailyLoad = new Map<string, Map<number, number>>();
+    const placed = new Set<string>();
+    const pending = new Set(tasks.keys());
+    const unresolvedTaskIds: string[] = [];
+    const pinnedConflicts: PinnedTaskConflict[] = [];
+
+    tasks.forEach(task => {
+      const length = task.earliestFinish - task.earliestStart;
+      if (!this.isPinned(task) || !task.assigneeId || length <= 0) return;
+
+      const load = dailyLoad.get(task.assigneeId) || new Map<number, number>();
+      if (!this.bookPinned(task.assigneeId, load, task.earliestStart, task.earliestFinish)) {
+        pinnedConflicts.push({ taskId: task.id, reason: 'overallocated' });
+      }
+      dailyLoad.set(task.assigneeId, load);
+    });
+
+    while (pending.size > 0) {
+      const eligible = Array.from(pending)
+        .map(id => tasks.get(id)!)
+        .filter(task => task.predecessors.every(pred => placed.has(pred.id) || !tasks.has(pred.id)));
+
+      // Only reachable with a dependency cycle; leave the remaining tasks where they are
+      if (eligible.length === 0) break;
+
+      eligible.sort((a, b) =>
+        a.latestStart - b.latestStart ||
+        a.earliestStart - b.earliestStart ||
+        a.id.localeCompare(b.id)
+      );
+
+      const task = eligible[0];
+      const length = task.earliestFinish - task.earliestStart;
+      const requiredStart = this.dependencyStart(task, tasks, length);
+
+      if (this.isPinned(task)) {
+        if (requiredStart > task.earliestStart + FLOAT_EPSILON) {
+          pinnedConflicts.push({ taskId: task.id, reason: 'predecessor' });
+        }
+        placed.add(task.id);
+        pending.delete(task.id);
+        continue;
+      }
+
+      let start = Math.max(task.earliestStart, requiredStart);
+      let finish = start + length;
+
+      if (task.assigneeId && !task.isCompleted && length > 0) {
+        const load = dailyLoad.get(task.assigneeId) || new Map<number, number>();
+        const placement = this.placeOnResource(task.assigneeId, load, start, length);
+
+        if (!placement) {
+          unresolvedTaskIds.push(task.id);
+          this.violations.push({
+            type: 'capacity',
+            severity: 'error',
+            taskId: task.id,
+            description: `Resource ${task.assigneeId} has no available hours to complete the task`,
+            suggestedFix: 'Review the assignee\'s calendar or assign the task to someone else'
+          });
+        } else {
+          start = placement.start;
+          finish = placement.finish;
+          dailyLoad.set(task.assigneeId, load);
+        }
+      }
+
+      task.earliestStart = start;
+      task.earliestFinish = finish;
+      placed.add(task.id);
+      pending.delete(task.id);
+    }
+
+    const leveledFinish = this.projectFinish(tasks);
+    const shifts: ResourceLevelingShift[] = [];
+
+    tasks.forEach(task => {
+      const originalStart = originalStarts.get(task.id)!;
+      const originalTaskFinish = originalFinishes.get(task.id)!;
+      const shiftHours = task.earliestStart - originalStart;
+      const finishShiftHours = task.earliestFinish - originalTaskFinish;
+
+      if (Math.abs(shiftHours) > FLOAT_EPSILON || Math.abs(finishShiftHours) > FLOAT_EPSILON) {
+        shifts.push({
+          taskId: task.id,
+          resourceId: task.assigneeId,
+          originalStart,
+          leveledStart: task.earliestStart,
+          shiftHours,
+          originalFinish: originalTaskFinish,
+          leveledFinish: task.earliestFinish,
+          finishShiftHours,
+          withinFloat: Math.max(shiftHours, finishShiftHours) <= task.totalFloat + FLOAT_EPSILON
+        });
+      }
+    });
+
+    this.recalculateFloat(tasks, leveledFinish);
+
+    // Build resource allocations map from the leveled dates
     tasks.forEach(task => {
       if (task.assigneeId) {
         const assignments = this.resourceAllocations.get(task.assigneeId) || [];
@@ -118,8 +272,8 @@ export class ConstraintSolver {
           taskId: task.id,
           resourceId: task.assigneeId,
           allocation: 1.0, // Full allocation by default
-          startDate: this.addWorkingDays(new Date(), task.earliestStart),
-          endDate: this.addWorkingDays(new Date(), task.earliestFinish)
+          startDate: this.toTimestamp(task.earliestStart),
+          endDate: hoursToFinishTimestamp(this.workingTime, this.projectStartDate, task.earliestFinish)
         });
         this.resourceAllocations.set(task.assigneeId, assignments);
       }
@@ -138,12 +292,142 @@ export class ConstraintSolver {
         });
       });
     });
+
+    return {
+      shifts: shifts.sort((a, b) => a.leveledStart - b.leveledStart),
+      originalFinish,
+      leveledFinish,
+      unresolvedTaskIds,
+      pinnedConflicts
+    };
+  }
+
+  /**
+   * Re-derive latest dates and float from the leveled early dates. ALAP is
+   * dropped for this pass: those tasks were already placed as late as their
+   * successors allowed and must not move without booking their assignee.
+   */
+  private recalculateFloat(tasks: Map<string, TaskNodeWithSlack>, projectFinish: number): void {
+    const leveled = new Map(Array.from(tasks.entries()).map(([id, task]) => [id, {
+      ...task,
+      constraint: task.constraint?.type === 'ALAP' ? undefined : task.constraint
+    }]));
+
+    const { tasks: refreshed } = new BackwardPass(
+      this.workingTime.workingDays,
+      this.workingTime.holidays,
+      this.workingTime.hoursPerDay
+    ).calculate({
+      tasks: leveled,
+      projectStartDate: this.projectStartDate,
+      projectEarliestFinish: projectFinish,
+      criticalPathCandidates: []
+    });
+
+    refreshed.forEach((result, id) => {
+      const task = tasks.get(id)!;
+      task.latestStart = result.latestStart;
+      task.latestFinish = result.latestFinish;
+      task.totalFloat = result.totalFloat;
+      task.freeFloat = result.freeFloat;
+      task.isCritical = result.isCritical;
+    });
+  }
+
+  // Dates fixed by the user or by the ALAP placement are never moved by leveling
+  private isPinned(task: TaskNodeWithSlack): boolean {
+    if (task.isCompleted || !task.constraint) return false;
+    const { type, date } = task.constraint;
+    return type === 'ALAP' || ((type === 'MSO' || type === 'MFO') && !!date);
+  }
+
+  /**
+   * Book a pinned task's share of each working day it spans, even where that
+   * overloads the assignee. Returns false when it had to overload them.
+   */
+  private bookPinned(resourceId: string, load: Map<number, number>, start: number, finish: number): boolean {
+    const hoursPerDay = this.constraints.workingHoursPerDay || 8;
+    let fits = true;
+
+    for (let day = Math.floor(start / hoursPerDay + FLOAT_EPSILON); day * hoursPerDay < finish - FLOAT_EPSILON; day++) {
+      const spanned = Math.min(finish, (day + 1) * hoursPerDay) - Math.max(start, day * hoursPerDay);
+      const available = this.getAvailableHours(resourceId, day);
+      const hours = available * spanned / hoursPerDay;
+      const booked = (load.get(day) || 0) + hours;
+
+      if (booked > available + FLOAT_EPSILON) fits = false;
+      load.set(day, booked);
+    }
+
+    return fits;
+  }
+
+  /**
+   * Report date constraints the schedule cannot meet. The backward pass turns
+   * a missed FNLT, MSO or MFO date into negative float on the constrained task
+   * and on the predecessors that push it late.
+   */
+  detectConstraintViolations(tasks: Map<string, TaskNodeWithSlack>): ConflictInfo[] {
+    const conflicts: ConflictInfo[] = [];
+
+    tasks.forEach(task => {
+      const { constraint } = task;
+      if (!constraint?.date || task.isCompleted) return;
+      if (constraint.type === 'SNET' || constraint.type === 'ALAP') return;
+      if (task.totalFloat >= -FLOAT_EPSILON) return;
+
+      const negativeFloat = Math.round(-task.totalFloat * 100) / 100; // working hours
+      const drivingTasks = this.findNegativeFloatPredecessors(task, tasks);
+      const dateStr = constraint.date.toISOString().substring(0, 10);
+
+      conflicts.push({
+        id: `constraint_${task.id}`,
+        type: ConflictType.CONSTRAINT,
+        severity: ConflictSeverity.ERROR,
+        description: `"${task.title}" misses its ${CONSTRAINT_LABELS[constraint.type]} ${dateStr} constraint by ${negativeFloat} working hours`,
+        affectedTasks: [task.id, ...drivingTasks],
+        suggestedActions: [
+          'Move the constraint date',
+          'Shorten or overlap the predecessor tasks',
+          'Relax the dependencies driving this task'
+        ],
+        estimatedImpact: `${negativeFloat} working hours of negative float`,
+        resolutionComplexity: drivingTasks.length > 2 ? 'high' : 'medium',
+        autoResolvable: false,
+        negativeFloat
+      });
+    });
+
+    return conflicts;
+  }
+
+  private findNegativeFloatPredecessors(
+    task: TaskNodeWithSlack,
+    tasks: Map<string, TaskNodeWithSlack>
+  ): string[] {
+    const found = new Set<string>();
+    const queue = [task];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      current.predecessors.forEach(pred => {
+        const predTask = tasks.get(pred.id);
+        if (predTask && !found.has(predTask.id) && predTask.totalFloat < -FLOAT_EPSILON) {
+          found.add(predTask.id);
+          queue.push(predTask);
+        }
+      });
+    }
+
+    return Array.from(found);
   }
 
   private detectSchedulingConflicts(
     tasks: Map<string, TaskNodeWithSlack>,
     conflicts: ConflictInfo[]
   ): void {
+    conflicts.push(...this.detectConstraintViolations(tasks));
+
     tasks.forEach(task => {
       // Check for dependency date conflicts
       task.predecessors.forEach(pred => {
@@ -232,8 +516,8 @@ export class ConstraintSolver {
           // Update task node
           const task = tasks.get(current.taskId);
           if (task) {
-            task.earliestStart = this.getWorkingDays(new Date(), newStartDate);
-            task.earliestFinish = this.getWorkingDays(new Date(), newEndDate);
+            task.earliestStart = this.toOffset(newStartDate);
+            task.earliestFinish = this.toOffset(newEndDate);
           }
         }
       }
@@ -241,26 +525,105 @@ export class ConstraintSolver {
   }
 
   private adjustForWorkingDays(tasks: Map<string, TaskNodeWithSlack>): void {
-    // Ensure all tasks respect working day constraints
+    // Ensure all tasks start and finish inside working hours
     tasks.forEach(task => {
-      const startDate = this.addWorkingDays(new Date(), task.earliestStart);
-      const endDate = this.addWorkingDays(new Date(), task.earliestFinish);
-
-      const adjustedStart = this.adjustToNextWorkingDay(
-        startDate,
-        this.constraints.workingDays || [1, 2, 3, 4, 5],
-        this.constraints.holidays || []
-      );
-
-      const adjustedEnd = this.adjustToNextWorkingDay(
-        endDate,
-        this.constraints.workingDays || [1, 2, 3, 4, 5],
-        this.constraints.holidays || []
+      task.earliestStart = this.toOffset(this.toTimestamp(task.earliestStart));
+      task.earliestFinish = this.toOffset(
+        hoursToFinishTimestamp(this.workingTime, this.projectStartDate, task.earliestFinish)
       );
+    });
+  }
 
-      task.earliestStart = this.getWorkingDays(new Date(), adjustedStart);
-      task.earliestFinish = this.getWorkingDays(new Date(), adjustedEnd);
+  private dependencyStart(
+    task: TaskNodeWithSlack,
+    tasks: Map<string, TaskNodeWithSlack>,
+    length: number
+  ): number {
+    let requiredStart = 0;
+
+    task.predecessors.forEach(pred => {
+      const predTask = tasks.get(pred.id);
+      if (!predTask) return;
+
+      switch (pred.type) {
+        case 'SS':
+          requiredStart = Math.max(requiredStart, predTask.earliestStart + pred.lag);
+          break;
+        case 'FF':
+          requiredStart = Math.max(requiredStart, predTask.earliestFinish + pred.lag - length);
+          break;
+        case 'SF':
+          requiredStart = Math.max(requiredStart, predTask.earliestStart + pred.lag - length);
+          break;
+        default:
+          requiredStart = Math.max(requiredStart, predTask.earliestFinish + pred.lag);
+      }
     });
+
+    return requiredStart;
+  }
+
+  /**
+   * Book the task's work hours into the assignee's spare hours, day by day,
+   * from the earliest start. Returns working-hour offsets, or null when the
+   * assignee has no spare hours within the search horizon.
+   */
+  private placeOnResource(
+    resourceId: string,
+    load: Map<number, number>,
+    earliestStart: number,
+    length: number
+  ): { start: number; finish: number } | null {
+    const hoursPerDay = this.constraints.workingHoursPerDay || 8;
+    let remaining = length;
+    let day = Math.floor(earliestStart / hoursPerDay + FLOAT_EPSILON);
+    let elapsedFraction = Math.max(0, earliestStart / hoursPerDay - day);
+    const lastDay = day + MAX_LEVELING_DAYS;
+    const bookings: Array<[number, number]> = [];
+    let start: number | null = null;
+    let finish = earliestStart;
+
+    while (remaining > FLOAT_EPSILON) {
+      if (day > lastDay) return null;
+
+      const available = this.getAvailableHours(resourceId, day);
+      const used = Math.max(load.get(day) || 0, available * elapsedFraction);
+      const spare = available - used;
+
+      if (spare > FLOAT_EPSILON) {
+        const hours = Math.min(spare, remaining);
+        if (start === null) start = (day + used / available) * hoursPerDay;
+        bookings.push([day, hours]);
+        remaining -= hours;
+        finish = (day + (used + hours) / available) * hoursPerDay;
+      }
+
+      day++;
+      elapsedFraction = 0;
+    }
+
+    bookings.forEach(([bookedDay, hours]) => load.set(bookedDay, (load.get(bookedDay) || 0) + hours));
+    return { start: start ?? earliestStart, finish };
+  }
+
+  private getAvailableHours(resourceId: string, day: number): number {
+    const availability = this.constraints.resourceCalendars?.get(resourceId);
+    if (!availability) {
+      const capacity = this.constraints.resourceConstraints?.get(resourceId) ?? 1.0;
+      return (this.constraints.workingHoursPerDay || 8) * capacity;
+    }
+
+    let date = this.dayDates.get(day);
+    if (!date) {
+      date = getWorkingDayDate(this.workingTime, this.projectStartDate, day);
+      this.dayDates.set(day, date);
+    }
+
+    return getAvailableHours(availability, date);
+  }
+
+  private projectFinish(tasks: Map<string, TaskNodeWithSlack>): number {
+    return Math.max(0, ...Array.from(tasks.values()).map(task => task.earliestFinish));
   }
 
   private calculateRequiredStart(
@@ -319,61 +682,24 @@ export class ConstraintSolver {
     return start1 < end2 && start2 < end1;
   }
 
-  private adjustToNextWorkingDay(date: Date, workingDays: number[], holidays: Date[]): Date {
-    const result = new Date(date);
-    
-    while (!this.isWorkingDay(result, workingDays, holidays)) {
-      result.setDate(result.getDate() + 1);
-    }
-    
-    return result;
+  private toTimestamp(offsetHours: number): Date {
+    return hoursToTimestamp(this.workingTime, this.projectStartDate, offsetHours);
   }
 
-  private isWorkingDay(date: Date, workingDays: number[], holidays: Date[]): boolean {
-    // Check if day of week is working day
-    if (!workingDays.includes(date.getDay())) {
-      return false;
-    }
-
-    // Check if date is not a holiday
-    const dateStr = date.toDateString();
-    return !holidays.some(holiday => holiday.toDateString() === dateStr);
+  private toOffset(date: Date): number {
+    return timestampToHours(this.workingTime, this.projectStartDate, date);
   }
 
-  private addWorkingDays(startDate: Date, workingDays: number): Date {
-    const result = new Date(startDate);
-    let daysAdded = 0;
-
-    while (daysAdded < workingDays) {
-      result.setDate(result.getDate() + 1);
-      if (this.isWorkingDay(
-        result,
-        this.constraints.workingDays || [1, 2, 3, 4, 5],
-        this.constraints.holidays || []
-      )) {
-        daysAdded++;
-      }
-    }
-
-    return result;
+  private get projectStartDate(): Date {
+    return this.constraints.startDate || new Date();
   }
 
-  private getWorkingDays(startDate: Date, endDate: Date): number {
-    let workingDays = 0;
-    const current = new Date(startDate);
-
-    while (current <= endDate) {
-      if (this.isWorkingDay(
-        current,
-        this.constraints.workingDays || [1, 2, 3, 4, 5],
-        this.constraints.holidays || []
-      )) {
-        workingDays++;
-      }
-      current.setDate(current.getDate() + 1);
-    }
-
-    return workingDays;
+  private get workingTime(): WorkingTime {
+    return {
+      workingDays: this.constraints.workingDays || [1, 2, 3, 4, 5],
+      hoursPerDay: this.constraints.workingHoursPerDay || 8,
+      holidays: this.constraints.holidays || []
+    };
   }
 
   private isConflictResolved(tasks: Map<string, TaskNodeWithSlack>, conflict: ConflictInfo): boolean {
@@ -414,6 +740,7 @@ export class ConstraintSolver {
    */
   reset(): void {
     this.resourceAllocations.clear();
+    this.dayDates.clear();
     this.violations = [];
   }
 }
\ No newline at end of file
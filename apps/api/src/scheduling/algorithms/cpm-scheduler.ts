@@ -8,12 +8,14 @@ import {
   ConflictInfo,
   BusinessHours
 } from '../entities/computed-schedule.entity';
+import { TaskHierarchy } from './summary-tasks';
 
 export interface CPMResult {
   taskSchedules: TaskSchedule[];
   criticalPath: string[];
   totalDuration: number;
   conflicts: ConflictInfo[];
+  tasks?: CPMTask[]; // with earliest/latest times and float
 }
 
 export interface CPMTask {
@@ -24,6 +26,8 @@ export interface CPMTask {
     type: 'FS' | 'SS' | 'SF' | 'FF';
     lag: number;
   }>;
+  parentId?: string | null; // WBS parent; parents are summary tasks
+  isSummary?: boolean; // set when the children are not part of the task list
   earliestStart?: number;
   earliestFinish?: number;
   latestStart?: number;
@@ -48,17 +52,22 @@ export class CPMScheduler {
    * Supports all dependency types: FS, SS, SF, FF with lag
    */
   calculate(tasks: CPMTask[], projectStartDate: Date): CPMResult {
+    // Step 0: Summary tasks are not scheduled; their dependencies move to their leaves
+    const hierarchy = new TaskHierarchy(tasks);
+    const leafTasks = hierarchy.hasSummaries ? this.expandSummaryDependencies(tasks, hierarchy) : tasks;
+
     // Step 1: Forward Pass - Calculate earliest start/finish times
-    const forwardPassTasks = this.performForwardPass(tasks, projectStartDate);
+    const forwardPassTasks = this.performForwardPass(leafTasks, projectStartDate);
     
     // Step 2: Backward Pass - Calculate latest start/finish times
     const backwardPassTasks = this.performBackwardPass(forwardPassTasks);
     
     // Step 3: Calculate float and identify critical path
     const finalTasks = this.calculateFloatAndCriticalPath(backwardPassTasks);
+    const summaryTasks = hierarchy.hasSummaries ? this.rollUpSummaries(tasks, finalTasks, hierarchy) : [];
     
     // Step 4: Generate task schedules
-    const taskSchedules = this.generateTaskSchedules(finalTasks, projectStartDate);
+    const taskSchedules = this.generateTaskSchedules([...finalTasks, ...summaryTasks], projectStartDate);
     
     // Step 5: Identify conflicts
     const conflicts = this.identifyConflicts(taskSchedules);
@@ -70,6 +79,7 @@ export class CPMScheduler {
     
     // Step 7: Calculate total duration
     const totalDuration = Math.max(
+      0,
       ...finalTasks.map(task => task.earliestFinish || 0)
     );
 
@@ -77,10 +87,27 @@ export class CPMScheduler {
       taskSchedules,
       criticalPath,
       totalDuration,
-      conflicts
+      conflicts,
+      tasks: [...finalTasks, ...summaryTasks]
     };
   }
 
+  /**
+   * A summary's dates come from its children, so it can only move with them
+   */
+  assertSummariesMoveWithChildren(tasks: CPMTask[], changedTaskIds: string[]): void {
+    const hierarchy = new TaskHierarchy(tasks);
+    const changed = new Set(changedTaskIds);
+
+    changedTaskIds
+      .filter(id => hierarchy.isSummary(id))
+      .forEach(id => {
+        if (!hierarchy.getLeaves(id).some(leafId => changed.has(leafId))) {
+          throw new Error(`Summary task ${id} is rolled up from its children and cannot be moved on its own`);
+        }
+      });
+  }
+
   // AC7: Incremental calculation for performance optimization
   async calculateIncrementalSchedule(
     tasks: CPMTask[], 
@@ -94,6 +121,7 @@ export class CPMScheduler {
     // 3. Merge results with unchanged tasks from previous calculation
     
     console.log(`Incremental calculation requested for tasks: ${changedTaskIds.join(', ')}`);
+    this.assertSummariesMoveWithChildren(tasks, changedTaskIds);
     
     // Currently performing full recalculation
     // TODO: Implement true incremental logic for performance
@@ -168,17 +196,15 @@ export class CPMScheduler {
   private performBackwardPass(tasks: CPMTask[]): CPMTask[] {
     // Find project end time (maximum earliest finish)
     const projectEnd = Math.max(...tasks.map(task => task.earliestFinish || 0));
+    const taskById = new Map(tasks.map(task => [task.id, task]));
+    const predecessorIds = new Set(tasks.flatMap(task => task.dependencies.map(dep => dep.predecessorId)));
     
     // Initialize latest times
     tasks.forEach(task => {
-      // Tasks with no successors have latest finish = earliest finish
-      const hasSuccessors = tasks.some(t => 
-        t.dependencies.some(dep => dep.predecessorId === task.id)
-      );
-      
-      if (!hasSuccessors) {
-        task.latestFinish = task.earliestFinish;
-        task.latestStart = task.latestFinish! - task.duration;
+      // Tasks with no successors may finish as late as the project end
+      if (!predecessorIds.has(task.id)) {
+        task.latestFinish = projectEnd;
+        task.latestStart = task.latestFinish - task.duration;
       }
     });
 
@@ -197,7 +223,7 @@ export class CPMScheduler {
 
       // Update predecessors' latest times
       currentTask.dependencies.forEach(dependency => {
-        const predecessor = tasks.find(t => t.id === dependency.predecessorId);
+        const predecessor = taskById.get(dependency.predecessorId);
         if (!predecessor) return;
 
         let requiredLatestFinish = 0;
@@ -221,9 +247,9 @@ export class CPMScheduler {
           predecessor.latestFinish = requiredLatestFinish;
           predecessor.latestStart = predecessor.latestFinish - predecessor.duration;
           
-          if (!processedTasks.has(predecessor.id)) {
-            taskQueue.push(predecessor);
-          }
+          // Re-propagate when a later successor tightens an already processed task
+          processedTasks.delete(predecessor.id);
+          taskQueue.push(predecessor);
         }
       });
     }
@@ -231,6 +257,70 @@ export class CPMScheduler {
     return tasks;
   }
 
+  private expandSummaryDependencies(tasks: CPMTask[], hierarchy: TaskHierarchy): CPMTask[] {
+    const links = hierarchy.expandLinks(
+      tasks.flatMap(task => task.dependencies.map(dep => ({ ...dep, successorId: task.id })))
+    );
+
+    const leaves = new Map(tasks
+      .filter(task => !hierarchy.isSummary(task.id))
+      .map(task => [task.id, {
+        ...task,
+        dependencies: links
+          .filter(link => link.successorId === task.id)
+          .map(({ predecessorId, type, lag }) => ({ predecessorId, type, lag }))
+      }]));
+
+    // Inherited links can point forward in the list; the forward pass expects predecessors first
+    const visited = new Set<string>();
+    const ordered: CPMTask[] = [];
+    const visit = (task: CPMTask) => {
+      if (visited.has(task.id)) return;
+      visited.add(task.id);
+      task.dependencies.forEach(dep => {
+        const predecessor = leaves.get(dep.predecessorId);
+        if (predecessor) visit(predecessor);
+      });
+      ordered.push(task);
+    };
+    leaves.forEach(visit);
+
+    return ordered;
+  }
+
+  // Summaries span their children; they are critical when any child is
+  private rollUpSummaries(tasks: CPMTask[], scheduled: CPMTask[], hierarchy: TaskHierarchy): CPMTask[] {
+    const byId = new Map(scheduled.map(task => [task.id, task]));
+    const summaries: CPMTask[] = [];
+
+    hierarchy.getSummariesBottomUp().forEach(id => {
+      const source = tasks.find(task => task.id === id);
+      const children = hierarchy.getChildren(id)
+        .map(childId => byId.get(childId))
+        .filter((child): child is CPMTask => !!child);
+      if (!source || children.length === 0) return;
+
+      const earliestStart = Math.min(...children.map(child => child.earliestStart || 0));
+      const earliestFinish = Math.max(...children.map(child => child.earliestFinish || 0));
+      const summary: CPMTask = {
+        ...source,
+        duration: earliestFinish - earliestStart,
+        earliestStart,
+        earliestFinish,
+        latestStart: Math.min(...children.map(child => child.latestStart || 0)),
+        latestFinish: Math.max(...children.map(child => child.latestFinish || 0)),
+        floatTime: Math.min(...children.map(child => child.floatTime || 0)),
+        isCritical: children.some(child => child.isCritical),
+        isSummary: true
+      };
+
+      byId.set(id, summary);
+      summaries.push(summary);
+    });
+
+    return summaries;
+  }
+
   private calculateFloatAndCriticalPath(tasks: CPMTask[]): CPMTask[] {
     return tasks.map(task => {
       const floatTime = (task.latestStart || 0) - (task.earliestStart || 0);
@@ -252,6 +342,7 @@ export class CPMScheduler {
       duration: task.duration,
       floatTime: task.floatTime || 0,
       isCritical: task.isCritical || false,
+      ...(task.isSummary && { isSummary: true }),
       predecessors: task.dependencies.map(dep => ({
         predecessorId: dep.predecessorId,
         dependencyType: dep.type,
@@ -0,0 +1,82 @@
+import { ForwardPass, TaskNode, TaskConstraint } from './forward-pass';
+
+const PROJECT_START = new Date(2025, 0, 6); // Monday
+
+function task(id: string, hours: number, options: {
+  after?: string[];
+  constraint?: TaskConstraint;
+  progress?: number;
+  completedOn?: Date;
+} = {}): TaskNode {
+  return {
+    id,
+    title: id,
+    duration: hours,
+    startDate: PROJECT_START,
+    endDate: options.completedOn ?? PROJECT_START,
+    assigneeId: null,
+    predecessors: (options.after ?? []).map(predecessorId => ({ id: predecessorId, type: 'FS' as const, lag: 0 })),
+    successors: [],
+    earliestStart: 0,
+    earliestFinish: 0,
+    isCompleted: !!options.completedOn,
+    progress: options.progress ?? 0,
+    constraint: options.constraint
+  };
+}
+
+function calculate(tasks: TaskNode[]) {
+  return new ForwardPass([1, 2, 3, 4, 5], 8, [new Date(2025, 0, 9)]).calculate(tasks, PROJECT_START);
+}
+
+describe('ForwardPass with date constraints', () => {
+  it('starts a Start-No-Earlier-Than task on its date', () => {
+    const { tasks } = calculate([task('a', 8, { constraint: { type: 'SNET', date: new Date(2025, 0, 8) } })]);
+
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 16, earliestFinish: 24 });
+  });
+
+  it('lets dependencies push a Start-No-Earlier-Than task past its date', () => {
+    const { tasks } = calculate([
+      task('a', 32),
+      task('b', 8, { after: ['a'], constraint: { type: 'SNET', date: new Date(2025, 0, 7) } })
+    ]);
+
+    expect(tasks.get('b')).toMatchObject({ earliestStart: 32, earliestFinish: 40 });
+  });
+
+  it('moves a date that falls on a holiday or weekend to the next working day', () => {
+    const { tasks } = calculate([
+      task('holiday', 8, { constraint: { type: 'MSO', date: new Date(2025, 0, 9) } }),
+      task('weekend', 8, { constraint: { type: 'SNET', date: new Date(2025, 0, 11) } })
+    ]);
+
+    // Thursday the 9th is a holiday, so Friday is working day 3 and the next Monday day 4
+    expect(tasks.get('holiday')).toMatchObject({ earliestStart: 24 });
+    expect(tasks.get('weekend')).toMatchObject({ earliestStart: 32 });
+  });
+
+  it('finishes a Must-Finish-On task at the end of its date', () => {
+    const { tasks } = calculate([task('a', 12, { constraint: { type: 'MFO', date: new Date(2025, 0, 8) } })]);
+
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 12, earliestFinish: 24 });
+  });
+
+  it('ignores constraints on completed tasks', () => {
+    const { tasks } = calculate([
+      task('a', 8, { completedOn: new Date(2025, 0, 6), constraint: { type: 'SNET', date: new Date(2025, 0, 8) } })
+    ]);
+
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 0, earliestFinish: 8 });
+  });
+
+  it('schedules only the remaining work of a task in progress', () => {
+    const { tasks, projectEarliestFinish } = calculate([
+      task('a', 16, { progress: 50 }),
+      task('b', 8, { after: ['a'] })
+    ]);
+
+    expect(tasks.get('a')).toMatchObject({ earliestStart: 0, earliestFinish: 8 });
+    expect(projectEarliestFinish).toBe(16);
+  });
+});
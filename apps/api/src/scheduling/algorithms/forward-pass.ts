@@ -1,28 +1,46 @@
+import {
+  WorkingTime,
+  isWorkingDay,
+  dateStartHours,
+  dateFinishHours,
+  hoursToTimestamp,
+  hoursToFinishTimestamp
+} from './working-time';
+
+export type TaskConstraintType = 'SNET' | 'FNLT' | 'MSO' | 'MFO' | 'ALAP';
+
+export interface TaskConstraint {
+  type: TaskConstraintType;
+  date?: Date; // not used by ALAP
+}
+
 export interface TaskNode {
   id: string;
   title: string;
-  duration: number; // in days
+  duration: number; // in working hours
   startDate: Date;
   endDate: Date;
   assigneeId: string | null;
   predecessors: Array<{
     id: string;
     type: 'FS' | 'FF' | 'SS' | 'SF';
-    lag: number;
+    lag: number; // working hours, negative for leads
   }>;
   successors: Array<{
     id: string;
     type: 'FS' | 'FF' | 'SS' | 'SF';  
     lag: number;
   }>;
-  earliestStart: number; // in days from project start
+  earliestStart: number; // in working hours from project start
   earliestFinish: number;
   isCompleted: boolean;
   progress: number; // 0-100
+  constraint?: TaskConstraint;
 }
 
 export interface ForwardPassResult {
   tasks: Map<string, TaskNode>;
+  projectStartDate: Date;
   projectEarliestFinish: number;
   criticalPathCandidates: string[];
 }
@@ -67,17 +85,7 @@ export class ForwardPass {
       });
     });
 
-    // Find start tasks (no predecessors)
-    const startTasks = tasks.filter(task => task.predecessors.length === 0);
-
-    // Calculate earliest times for start tasks
-    startTasks.forEach(task => {
-      const taskNode = taskMap.get(task.id)!;
-      taskNode.earliestStart = 0; // Project start
-      taskNode.earliestFinish = this.calculateEarliestFinish(taskNode, projectStartDate);
-    });
-
-    // Process all tasks using topological sort
+    // Process all tasks using topological sort; start tasks begin at project start
     const sortedTasks = this.topologicalSort(tasks);
     
     sortedTasks.forEach(task => {
@@ -94,6 +102,7 @@ export class ForwardPass {
 
     return {
       tasks: taskMap,
+      projectStartDate,
       projectEarliestFinish,
       criticalPathCandidates
     };
@@ -106,12 +115,7 @@ export class ForwardPass {
   ): void {
     const taskNode = taskMap.get(task.id)!;
 
-    if (task.predecessors.length === 0) {
-      // Start task - already calculated
-      return;
-    }
-
-    let maxEarliestStart = 0;
+    let maxEarliestStart = 0; // Project start
 
     // Calculate based on predecessors
     task.predecessors.forEach(pred => {
@@ -142,22 +146,47 @@ export class ForwardPass {
       maxEarliestStart = Math.max(maxEarliestStart, requiredStart);
     });
 
-    taskNode.earliestStart = maxEarliestStart;
+    taskNode.earliestStart = this.applyStartConstraint(taskNode, maxEarliestStart, projectStartDate);
     taskNode.earliestFinish = this.calculateEarliestFinish(taskNode, projectStartDate);
   }
 
+  /**
+   * Push the dependency-driven start later for SNET, MSO and MFO. Dependencies
+   * still win over an earlier date; BackwardPass reports that as negative float.
+   */
+  private applyStartConstraint(task: TaskNode, earliestStart: number, projectStartDate: Date): number {
+    const { constraint } = task;
+    if (!constraint?.date || task.isCompleted) {
+      return earliestStart;
+    }
+
+    switch (constraint.type) {
+      case 'SNET':
+      case 'MSO':
+        return Math.max(earliestStart, dateStartHours(this.workingTime, projectStartDate, constraint.date));
+      case 'MFO':
+        return Math.max(
+          earliestStart,
+          dateFinishHours(this.workingTime, projectStartDate, constraint.date) - this.getRemainingDuration(task)
+        );
+      default:
+        return earliestStart;
+    }
+  }
+
   private calculateEarliestFinish(task: TaskNode, projectStartDate: Date): number {
     if (task.isCompleted) {
       // If task is completed, use actual end date
-      const actualDays = this.calculateWorkingDays(projectStartDate, task.endDate);
-      return actualDays;
+      return dateFinishHours(this.workingTime, projectStartDate, task.endDate);
     }
 
     // For incomplete tasks, calculate based on progress and remaining duration
+    return task.earliestStart + this.getRemainingDuration(task);
+  }
+
+  private getRemainingDuration(task: TaskNode): number {
     const completedDuration = task.duration * (task.progress / 100);
-    const remainingDuration = task.duration - completedDuration;
-    
-    return task.earliestStart + remainingDuration;
+    return task.duration - completedDuration;
   }
 
   private topologicalSort(tasks: TaskNode[]): TaskNode[] {
@@ -213,14 +242,15 @@ export class ForwardPass {
   }
 
   private isWorkingDay(date: Date): boolean {
-    // Check if day of week is working day
-    if (!this.workingDays.includes(date.getDay())) {
-      return false;
-    }
+    return isWorkingDay(this.workingTime, date);
+  }
 
-    // Check if date is not a holiday
-    const dateStr = date.toDateString();
-    return !this.holidays.some(holiday => holiday.toDateString() === dateStr);
+  private get workingTime(): WorkingTime {
+    return {
+      workingDays: this.workingDays,
+      hoursPerDay: this.workingHoursPerDay,
+      holidays: this.holidays
+    };
   }
 
   /**
@@ -240,6 +270,20 @@ export class ForwardPass {
     return result;
   }
 
+  /**
+   * Convert a working-hour offset to the timestamp its work starts at
+   */
+  getStartTimestamp(projectStartDate: Date, offsetHours: number): Date {
+    return hoursToTimestamp(this.workingTime, projectStartDate, offsetHours);
+  }
+
+  /**
+   * Convert a working-hour offset to the timestamp its work finishes at
+   */
+  getFinishTimestamp(projectStartDate: Date, offsetHours: number): Date {
+    return hoursToFinishTimestamp(this.workingTime, projectStartDate, offsetHours);
+  }
+
   /**
    * Calculate duration in working days between two dates
    */
@@ -0,0 +1,149 @@
+import { CPMScheduler } from './cpm-scheduler';
+import { MonteCarloSimulator, SimulationTask, percentile, samplePert, sampleTriangular } from './monte-carlo';
+
+const SEED = 20250106;
+
+function chain(): SimulationTask[] {
+  return [
+    { id: 'design', duration: 16, estimate: { optimistic: 8, mostLikely: 16, pessimistic: 40 }, dependencies: [] },
+    {
+      id: 'build',
+      duration: 24,
+      estimate: { optimistic: 16, mostLikely: 24, pessimistic: 48 },
+      dependencies: [{ predecessorId: 'design', type: 'FS', lag: 0 }]
+    },
+    { id: 'docs', duration: 8, dependencies: [] }
+  ];
+}
+
+describe('MonteCarloSimulator', () => {
+  it('reproduces the same percentiles for the same seed', async () => {
+    const first = await new MonteCarloSimulator(SEED).run(chain(), 1000, 'pert');
+    const second = await new MonteCarloSimulator(SEED).run(chain(), 1000, 'pert');
+    const other = await new MonteCarloSimulator(SEED + 1).run(chain(), 1000, 'pert');
+
+    expect(second.projectFinishes).toEqual(first.projectFinishes);
+    expect(other.projectFinishes).not.toEqual(first.projectFinishes);
+    expect(percentile(first.projectFinishes, 50)).toBeCloseTo(44.8293, 3);
+    expect(percentile(first.projectFinishes, 80)).toBeCloseTo(51.9538, 3);
+    expect(percentile(first.projectFinishes, 90)).toBeCloseTo(55.2443, 3);
+  });
+
+  it('keeps sampled finishes inside the three-point range and orders the percentiles', async () => {
+    const result = await new MonteCarloSimulator(SEED).run(chain(), 2000, 'pert');
+    const finishes = result.projectFinishes;
+
+    expect(result.iterations).toBe(2000);
+    expect(finishes).toHaveLength(2000);
+    expect(result.deterministicFinish).toBe(40);
+    expect(finishes[0]).toBeGreaterThanOrEqual(24);
+    expect(finishes[finishes.length - 1]).toBeLessThanOrEqual(88);
+    expect(percentile(finishes, 50)).toBeLessThan(percentile(finishes, 80));
+    expect(percentile(finishes, 80)).toBeLessThan(percentile(finishes, 90));
+
+    // PERT means are (o + 4m + p) / 6: 18.67 + 26.67 hours
+    const mean = finishes.reduce((sum, hours) => sum + hours, 0) / finishes.length;
+    expect(mean).toBeGreaterThan(44.5);
+    expect(mean).toBeLessThan(46.2);
+  });
+
+  it('returns the deterministic finish on every run when nothing has an estimate', async () => {
+    const tasks: SimulationTask[] = [
+      { id: 'a', duration: 8, dependencies: [] },
+      { id: 'b', duration: 8, dependencies: [{ predecessorId: 'a', type: 'FS', lag: 4 }] }
+    ];
+
+    const result = await new MonteCarloSimulator(SEED).run(tasks, 100, 'triangular');
+
+    expect(new Set(result.projectFinishes)).toEqual(new Set([20]));
+    expect(result.criticalCounts).toEqual(new Map([['a', 100], ['b', 100]]));
+  });
+
+  it('splits criticality between parallel branches of similar length', async () => {
+    const tasks: SimulationTask[] = [
+      { id: 'risky', duration: 16, estimate: { optimistic: 8, mostLikely: 16, pessimistic: 24 }, dependencies: [] },
+      { id: 'fixed', duration: 16, dependencies: [] }
+    ];
+
+    const result = await new MonteCarloSimulator(SEED).run(tasks, 2000, 'triangular');
+    const risky = result.criticalCounts.get('risky')!;
+    const fixed = result.criticalCounts.get('fixed')!;
+
+    expect(risky).toBeGreaterThan(900);
+    expect(risky).toBeLessThan(1100);
+    expect(risky + fixed).toBeGreaterThanOrEqual(2000);
+  });
+
+  it('reports the latest finish of each group per run', async () => {
+    const groups = new Map([['milestone', ['design', 'docs']], ['empty', []]]);
+
+    const result = await new MonteCarloSimulator(SEED).run(chain(), 500, 'pert', groups);
+    const milestone = result.groupFinishes.get('milestone')!;
+
+    expect(milestone).toHaveLength(500);
+    expect(Math.min(...milestone)).toBeGreaterThanOrEqual(8);
+    expect(Math.max(...milestone)).toBeLessThanOrEqual(40);
+    expect(new Set(result.groupFinishes.get('empty'))).toEqual(new Set([0]));
+  });
+
+  it('agrees with the CPM scheduler on finish and critical tasks for every link type', async () => {
+    const tasks: SimulationTask[] = [
+      { id: 'a', duration: 8, dependencies: [] },
+      { id: 'b', duration: 16, dependencies: [{ predecessorId: 'a', type: 'SS', lag: 4 }] },
+      { id: 'c', duration: 4, dependencies: [{ predecessorId: 'b', type: 'FF', lag: 2 }] },
+      { id: 'd', duration: 8, dependencies: [{ predecessorId: 'a', type: 'SF', lag: 12 }] },
+      { id: 'e', duration: 6, dependencies: [{ predecessorId: 'd', type: 'FS', lag: -2 }] },
+      { id: 'f', duration: 2, dependencies: [] }
+    ];
+    const cpm = new CPMScheduler({} as never).calculate(
+      tasks.map(task => ({ id: task.id, duration: task.duration, dependencies: task.dependencies })),
+      new Date()
+    );
+
+    const result = await new MonteCarloSimulator(SEED).run(tasks, 100, 'pert');
+
+    expect(result.deterministicFinish).toBe(cpm.totalDuration);
+    const critical = Array.from(result.criticalCounts.entries()).filter(([, runs]) => runs === 100).map(([id]) => id);
+    expect(critical.sort()).toEqual([...cpm.criticalPath].sort());
+  });
+});
+
+describe('three-point sampling', () => {
+  const estimate = { optimistic: 10, mostLikely: 20, pessimistic: 60 };
+
+  function sampleMean(sample: (random: () => number) => number): number {
+    let state = 1;
+    const random = () => {
+      state = (state * 16807) % 2147483647;
+      return (state - 1) / 2147483646;
+    };
+    let sum = 0;
+    for (let i = 0; i < 20000; i++) sum += sample(random);
+    return sum / 20000;
+  }
+
+  it('matches the PERT mean', () => {
+    expect(sampleMean(random => samplePert(estimate, random))).toBeCloseTo(25, 0);
+  });
+
+  it('matches the triangular mean', () => {
+    expect(sampleMean(random => sampleTriangular(estimate, random))).toBeCloseTo(30, 0);
+  });
+
+  it('returns the most likely value when the range is empty', () => {
+    const flat = { optimistic: 5, mostLikely: 5, pessimistic: 5 };
+    expect(samplePert(flat, Math.random)).toBe(5);
+    expect(sampleTriangular(flat, Math.random)).toBe(5);
+  });
+});
+
+describe('percentile', () => {
+  it('uses the nearest-rank method', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 80)).toBe(8);
+    expect(percentile(sorted, 90)).toBe(9);
+    expect(percentile(sorted, 100)).toBe(10);
+    expect(percentile([], 50)).toBe(0);
+  });
+});
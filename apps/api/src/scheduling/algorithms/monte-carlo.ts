@@ -0,0 +1,301 @@
+export type SamplingDistribution = 'pert' | 'triangular';
+
+export interface ThreePointEstimate {
+  optimistic: number;
+  mostLikely: number;
+  pessimistic: number;
+}
+
+export interface SimulationTask {
+  id: string;
+  duration: number; // deterministic duration, used when there is no three-point estimate
+  estimate?: ThreePointEstimate; // same unit as duration
+  dependencies: Array<{
+    predecessorId: string;
+    type: 'FS' | 'SS' | 'SF' | 'FF';
+    lag: number;
+  }>;
+}
+
+export interface MonteCarloResult {
+  iterations: number;
+  deterministicFinish: number;
+  projectFinishes: number[]; // one per run, ascending
+  criticalCounts: Map<string, number>; // taskId -> runs where the task was critical
+  groupFinishes: Map<string, number[]>; // groupId -> latest finish of its tasks per run
+}
+
+// iterations x tasks allowed in one simulation, about a second of CPU
+export const MAX_SIMULATED_TASK_RUNS = 2_000_000;
+
+const CRITICAL_EPSILON = 0.001;
+const TASK_RUNS_PER_SLICE = 20_000; // work done between yields to the event loop
+
+interface SimulationLink {
+  from: number; // index of the predecessor in dependency order
+  type: SimulationTask['dependencies'][number]['type'];
+  lag: number;
+}
+
+/**
+ * Schedule sampled task durations many times over.
+ *
+ * Durations are drawn independently per task from a PERT (beta) or
+ * triangular distribution over the task's three-point estimate. Groups
+ * (e.g. the issues of a milestone) report the latest finish of their
+ * tasks in each run.
+ *
+ * Each run is a bare forward and backward pass over typed arrays: only
+ * finish offsets and criticality are needed, not full task schedules.
+ */
+export class MonteCarloSimulator {
+  private readonly random: () => number;
+
+  constructor(seed: number = Date.now()) {
+    this.random = createRandom(seed);
+  }
+
+  async run(
+    tasks: SimulationTask[],
+    iterations: number,
+    distribution: SamplingDistribution,
+    groups: Map<string, string[]> = new Map()
+  ): Promise<MonteCarloResult> {
+    const ordered = this.sortByDependencies(tasks);
+    const indexById = new Map(ordered.map((task, index) => [task.id, index]));
+    const links: SimulationLink[][] = ordered.map(task => task.dependencies
+      .filter(dep => indexById.has(dep.predecessorId))
+      .map(dep => ({ from: indexById.get(dep.predecessorId)!, type: dep.type, lag: dep.lag })));
+    const groupIndexes = new Map(Array.from(groups.entries()).map(([groupId, taskIds]) => [
+      groupId,
+      taskIds.filter(id => indexById.has(id)).map(id => indexById.get(id)!)
+    ]));
+
+    const count = ordered.length;
+    const hasSuccessors = new Uint8Array(count);
+    links.forEach(taskLinks => taskLinks.forEach(link => { hasSuccessors[link.from] = 1; }));
+    const durations = new Float64Array(count);
+    const starts = new Float64Array(count);
+    const finishes = new Float64Array(count);
+    const latestFinishes = new Float64Array(count);
+    const criticalRuns = new Uint32Array(count);
+    const groupFinishes = new Map<string, number[]>(Array.from(groups.keys()).map(id => [id, []]));
+    const projectFinishes: number[] = [];
+
+    ordered.forEach((task, index) => { durations[index] = task.estimate?.mostLikely ?? task.duration; });
+    const deterministicFinish = this.forwardPass(links, durations, starts, finishes);
+
+    const runsPerSlice = Math.max(1, Math.floor(TASK_RUNS_PER_SLICE / Math.max(1, count)));
+    for (let run = 0; run < iterations; run++) {
+      // Long simulations give other requests a turn
+      if (run > 0 && run % runsPerSlice === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+
+      ordered.forEach((task, index) => { durations[index] = this.sampleDuration(task, distribution); });
+      const projectFinish = this.forwardPass(links, durations, starts, finishes);
+      this.backwardPass(links, durations, hasSuccessors, projectFinish, latestFinishes);
+
+      projectFinishes.push(projectFinish);
+      for (let index = 0; index < count; index++) {
+        const float = latestFinishes[index] - finishes[index];
+        if (Math.abs(float) < CRITICAL_EPSILON) criticalRuns[index]++;
+      }
+      groupIndexes.forEach((indexes, groupId) => {
+        let groupFinish = 0;
+        indexes.forEach(index => { groupFinish = Math.max(groupFinish, finishes[index]); });
+        groupFinishes.get(groupId)!.push(groupFinish);
+      });
+    }
+
+    return {
+      iterations,
+      deterministicFinish,
+      projectFinishes: projectFinishes.sort((a, b) => a - b),
+      criticalCounts: new Map(ordered.map((task, index) => [task.id, criticalRuns[index]])),
+      groupFinishes
+    };
+  }
+
+  /**
+   * Earliest dates for tasks in dependency order; returns the project finish
+   */
+  private forwardPass(
+    links: SimulationLink[][],
+    durations: Float64Array,
+    starts: Float64Array,
+    finishes: Float64Array
+  ): number {
+    let projectFinish = 0;
+
+    for (let index = 0; index < links.length; index++) {
+      const duration = durations[index];
+      let start = 0;
+
+      for (const link of links[index]) {
+        switch (link.type) {
+          case 'SS':
+            start = Math.max(start, starts[link.from] + link.lag);
+            break;
+          case 'SF':
+            start = Math.max(start, starts[link.from] - duration + link.lag);
+            break;
+          case 'FF':
+            start = Math.max(start, finishes[link.from] - duration + link.lag);
+            break;
+          default:
+            start = Math.max(start, finishes[link.from] + link.lag);
+        }
+      }
+
+      starts[index] = start;
+      finishes[index] = start + duration;
+      projectFinish = Math.max(projectFinish, start + duration);
+    }
+
+    return projectFinish;
+  }
+
+  /**
+   * Latest finishes, walking dependency order backwards so each task has
+   * heard from all of its successors before it constrains its predecessors
+   */
+  private backwardPass(
+    links: SimulationLink[][],
+    durations: Float64Array,
+    hasSuccessors: Uint8Array,
+    projectFinish: number,
+    latestFinishes: Float64Array
+  ): void {
+    // Only tasks without successors are tied to the project finish
+    for (let index = 0; index < links.length; index++) {
+      latestFinishes[index] = hasSuccessors[index] ? Infinity : projectFinish;
+    }
+
+    for (let index = links.length - 1; index >= 0; index--) {
+      const latestFinish = latestFinishes[index];
+      const latestStart = latestFinish - durations[index];
+
+      for (const link of links[index]) {
+        const predecessorDuration = durations[link.from];
+        let required: number;
+        switch (link.type) {
+          case 'SS':
+            required = latestStart - link.lag + predecessorDuration;
+            break;
+          case 'SF':
+            required = latestFinish - link.lag + predecessorDuration;
+            break;
+          case 'FF':
+            required = latestFinish - link.lag;
+            break;
+          default:
+            required = latestStart - link.lag;
+        }
+        latestFinishes[link.from] = Math.min(latestFinishes[link.from], required);
+      }
+    }
+  }
+
+  private sampleDuration(task: SimulationTask, distribution: SamplingDistribution): number {
+    if (!task.estimate) return task.duration;
+
+    return distribution === 'triangular'
+      ? sampleTriangular(task.estimate, this.random)
+      : samplePert(task.estimate, this.random);
+  }
+
+  // The passes index predecessors by position, so every task must come after its predecessors
+  private sortByDependencies(tasks: SimulationTask[]): SimulationTask[] {
+    const byId = new Map(tasks.map(task => [task.id, task]));
+    const visited = new Set<string>();
+    const result: SimulationTask[] = [];
+
+    const visit = (task: SimulationTask) => {
+      if (visited.has(task.id)) return;
+      visited.add(task.id);
+      task.dependencies.forEach(dep => {
+        const predecessor = byId.get(dep.predecessorId);
+        if (predecessor) visit(predecessor);
+      });
+      result.push(task);
+    };
+
+    tasks.forEach(visit);
+    return result;
+  }
+}
+
+/**
+ * Value at the given percentile (0-100) of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p / 100 * sorted.length) - 1));
+  return sorted[index];
+}
+
+export function sampleTriangular(estimate: ThreePointEstimate, random: () => number): number {
+  const { optimistic: a, mostLikely: m, pessimistic: b } = estimate;
+  if (b - a <= 0) return m;
+
+  const u = random();
+  const split = (m - a) / (b - a);
+  return u < split
+    ? a + Math.sqrt(u * (b - a) * (m - a))
+    : b - Math.sqrt((1 - u) * (b - a) * (b - m));
+}
+
+/**
+ * Beta-PERT: a beta distribution on [optimistic, pessimistic] whose mean is
+ * (optimistic + 4 * mostLikely + pessimistic) / 6
+ */
+export function samplePert(estimate: ThreePointEstimate, random: () => number): number {
+  const { optimistic: a, mostLikely: m, pessimistic: b } = estimate;
+  if (b - a <= 0) return m;
+
+  const alpha = 1 + 4 * (m - a) / (b - a);
+  const beta = 1 + 4 * (b - m) / (b - a);
+  const x = sampleGamma(alpha, random);
+  const y = sampleGamma(beta, random);
+
+  return a + (x / (x + y)) * (b - a);
+}
+
+// Marsaglia-Tsang; shapes here are always >= 1
+function sampleGamma(shape: number, random: () => number): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal(random);
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = random();
+    if (u < 1 - 0.0331 * x ** 4 || Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) {
+      return d * v;
+    }
+  }
+}
+
+function sampleNormal(random: () => number): number {
+  const u = 1 - random(); // (0, 1]
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// mulberry32: small, fast and seedable so runs can be reproduced
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
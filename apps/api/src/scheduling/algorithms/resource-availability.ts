@@ -0,0 +1,24 @@
+export interface ResourceAvailability {
+  weeklyHours: number[]; // [Sun..Sat] hours before capacity is applied
+  daysOff: Date[];
+  capacity: number; // 0.0 - 1.0
+}
+
+/**
+ * Hours an assignee can spend on project work on a given date
+ */
+export function getAvailableHours(availability: ResourceAvailability, date: Date): number {
+  const dateStr = date.toDateString();
+  if (availability.daysOff.some(dayOff => dayOff.toDateString() === dateStr)) {
+    return 0;
+  }
+
+  return (availability.weeklyHours[date.getDay()] || 0) * availability.capacity;
+}
+
+/**
+ * Weekly pattern for someone who works the project calendar full time
+ */
+export function projectWeeklyHours(workingDays: number[], hoursPerDay: number): number[] {
+  return [0, 1, 2, 3, 4, 5, 6].map(day => (workingDays.includes(day) ? hoursPerDay : 0));
+}
@@ -0,0 +1,110 @@
+/**
+ * WBS parent/child structure for the scheduling passes.
+ *
+ * A summary task (any task with children) holds no work of its own. Like a
+ * hammock it is never scheduled directly: dependencies attached to it apply
+ * to each of its leaf tasks, and its dates are rolled up from its children.
+ */
+
+export interface HierarchyItem {
+  id: string;
+  parentId?: string | null;
+  isSummary?: boolean; // children may be outside the loaded set
+}
+
+export interface TaskLink {
+  predecessorId: string;
+  successorId: string;
+}
+
+export class TaskHierarchy {
+  private readonly childrenOf = new Map<string, string[]>();
+  private readonly parentOf = new Map<string, string>();
+  private readonly flaggedSummaries = new Set<string>();
+
+  constructor(items: HierarchyItem[]) {
+    const ids = new Set(items.map(item => item.id));
+
+    items.forEach(item => {
+      if (item.isSummary) this.flaggedSummaries.add(item.id);
+      if (!item.parentId || !ids.has(item.parentId)) return;
+
+      this.parentOf.set(item.id, item.parentId);
+      this.childrenOf.set(item.parentId, [...(this.childrenOf.get(item.parentId) || []), item.id]);
+    });
+  }
+
+  get hasSummaries(): boolean {
+    return this.childrenOf.size > 0 || this.flaggedSummaries.size > 0;
+  }
+
+  isSummary(id: string): boolean {
+    return this.childrenOf.has(id) || this.flaggedSummaries.has(id);
+  }
+
+  getChildren(id: string): string[] {
+    return this.childrenOf.get(id) || [];
+  }
+
+  /**
+   * Summary tasks ordered so every summary comes after its child summaries
+   */
+  getSummariesBottomUp(): string[] {
+    const depthOf = (id: string): number => {
+      let depth = 0;
+      for (let current = this.parentOf.get(id); current; current = this.parentOf.get(current)) depth++;
+      return depth;
+    };
+
+    return Array.from(new Set([...this.childrenOf.keys(), ...this.flaggedSummaries]))
+      .sort((a, b) => depthOf(b) - depthOf(a));
+  }
+
+  /**
+   * Leaf tasks under a summary; a leaf is its own only leaf
+   */
+  getLeaves(id: string): string[] {
+    const children = this.childrenOf.get(id);
+    if (!children) return this.flaggedSummaries.has(id) ? [] : [id];
+
+    return children.flatMap(child => this.getLeaves(child));
+  }
+
+  isAncestor(ancestorId: string, id: string): boolean {
+    for (let current = this.parentOf.get(id); current; current = this.parentOf.get(current)) {
+      if (current === ancestorId) return true;
+    }
+    return false;
+  }
+
+  /**
+   * Re-attach links on summary tasks to their leaves. Links between a summary
+   * and its own descendants would make a task wait for itself and are dropped.
+   */
+  expandLinks<L extends TaskLink>(links: L[]): L[] {
+    const seen = new Set<string>();
+    const expanded: L[] = [];
+
+    links.forEach(link => {
+      if (
+        link.predecessorId === link.successorId ||
+        this.isAncestor(link.predecessorId, link.successorId) ||
+        this.isAncestor(link.successorId, link.predecessorId)
+      ) {
+        return;
+      }
+
+      this.getLeaves(link.predecessorId).forEach(predecessorId => {
+        this.getLeaves(link.successorId).forEach(successorId => {
+          const key = JSON.stringify({ ...link, predecessorId, successorId });
+          if (seen.has(key)) return;
+
+          seen.add(key);
+          expanded.push({ ...link, predecessorId, successorId });
+        });
+      });
+    });
+
+    return expanded;
+  }
+}
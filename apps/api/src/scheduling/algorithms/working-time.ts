@@ -0,0 +1,152 @@
+/**
+ * Working-time arithmetic shared by the scheduling passes.
+ *
+ * Schedule offsets are working hours from the start of the first working day
+ * on or after the project start. Each working day contributes `hoursPerDay`
+ * hours beginning at WORKDAY_START_HOUR local time.
+ */
+
+export const WORKDAY_START_HOUR = 9;
+
+export interface WorkingTime {
+  workingDays: number[]; // 0=Sunday
+  hoursPerDay: number;
+  holidays: Date[];
+}
+
+export type LagUnit = 'hours' | 'days' | 'percent';
+
+const HOUR_MS = 60 * 60 * 1000;
+const OFFSET_EPSILON = 1e-6;
+
+export function isWorkingDay(time: WorkingTime, date: Date): boolean {
+  if (!time.workingDays.includes(date.getDay())) {
+    return false;
+  }
+
+  const dateStr = date.toDateString();
+  return !time.holidays.some(holiday => holiday.toDateString() === dateStr);
+}
+
+/**
+ * Calendar date of the nth working day (0-based) counted from the project start
+ */
+export function getWorkingDayDate(time: WorkingTime, projectStartDate: Date, dayIndex: number): Date {
+  const result = startOfDay(projectStartDate);
+  let remaining = Math.max(0, dayIndex);
+
+  // A calendar without working days would never terminate
+  if (time.workingDays.length === 0) return result;
+
+  while (!isWorkingDay(time, result)) {
+    result.setDate(result.getDate() + 1);
+  }
+  while (remaining > 0) {
+    result.setDate(result.getDate() + 1);
+    if (isWorkingDay(time, result)) {
+      remaining--;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Timestamp at which work at the given offset begins
+ */
+export function hoursToTimestamp(time: WorkingTime, projectStartDate: Date, offsetHours: number): Date {
+  const dayIndex = Math.floor(offsetHours / time.hoursPerDay + OFFSET_EPSILON);
+  const withinDay = Math.max(0, offsetHours - dayIndex * time.hoursPerDay);
+  return atWorkingHour(getWorkingDayDate(time, projectStartDate, dayIndex), withinDay);
+}
+
+/**
+ * Timestamp at which work ending at the given offset finishes. A finish on a
+ * day boundary is the close of the previous working day, not the next morning.
+ */
+export function hoursToFinishTimestamp(time: WorkingTime, projectStartDate: Date, offsetHours: number): Date {
+  const dayIndex = Math.floor(offsetHours / time.hoursPerDay + OFFSET_EPSILON);
+  const withinDay = offsetHours - dayIndex * time.hoursPerDay;
+
+  if (dayIndex > 0 && withinDay < OFFSET_EPSILON) {
+    return atWorkingHour(getWorkingDayDate(time, projectStartDate, dayIndex - 1), time.hoursPerDay);
+  }
+
+  return hoursToTimestamp(time, projectStartDate, offsetHours);
+}
+
+/**
+ * Working hours between the project start and a timestamp; times outside
+ * working hours snap to the nearest working boundary before them
+ */
+export function timestampToHours(time: WorkingTime, projectStartDate: Date, timestamp: Date): number {
+  const target = startOfDay(timestamp);
+  const current = startOfDay(projectStartDate);
+  let hours = 0;
+
+  while (current < target) {
+    if (isWorkingDay(time, current)) {
+      hours += time.hoursPerDay;
+    }
+    current.setDate(current.getDate() + 1);
+  }
+
+  if (current.getTime() === target.getTime() && isWorkingDay(time, target)) {
+    const elapsed = (timestamp.getTime() - atWorkingHour(target, 0).getTime()) / HOUR_MS;
+    hours += Math.min(time.hoursPerDay, Math.max(0, elapsed));
+  }
+
+  return hours;
+}
+
+/**
+ * Offset of a start date: a bare date means the start of that day
+ */
+export function dateStartHours(time: WorkingTime, projectStartDate: Date, date: Date): number {
+  return timestampToHours(time, projectStartDate, date);
+}
+
+/**
+ * Offset of a finish date: a bare date means the end of that day
+ */
+export function dateFinishHours(time: WorkingTime, projectStartDate: Date, date: Date): number {
+  if (date.getTime() !== startOfDay(date).getTime()) {
+    return timestampToHours(time, projectStartDate, date);
+  }
+
+  const nextDay = new Date(date);
+  nextDay.setDate(nextDay.getDate() + 1);
+  return timestampToHours(time, projectStartDate, nextDay);
+}
+
+/**
+ * Convert a dependency lag to working hours. Percentage lags are a share of
+ * the predecessor's duration; negative values are leads.
+ */
+export function resolveLagHours(
+  lag: number,
+  unit: LagUnit,
+  predecessorDurationHours: number,
+  hoursPerDay: number
+): number {
+  switch (unit) {
+    case 'days':
+      return lag * hoursPerDay;
+    case 'percent':
+      return predecessorDurationHours * lag / 100;
+    default:
+      return lag;
+  }
+}
+
+function startOfDay(date: Date): Date {
+  const result = new Date(date);
+  result.setHours(0, 0, 0, 0);
+  return result;
+}
+
+function atWorkingHour(date: Date, hoursIntoDay: number): Date {
+  const result = startOfDay(date);
+  result.setHours(WORKDAY_START_HOUR);
+  return new Date(result.getTime() + hoursIntoDay * HOUR_MS);
+}
@@ -0,0 +1,140 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { CalendarService } from './services/calendar.service';
+import {
+  CreateCalendarDto,
+  UpdateCalendarDto,
+  ImportHolidaysDto,
+  CalendarResponseDto,
+  ImportHolidaysResponseDto
+} from './dto/calendar.dto';
+
+@ApiTags('Calendars')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/calendars')
+export class CalendarsController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List project calendars' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Calendars retrieved', type: [CalendarResponseDto] })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findAll(
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ): Promise<CalendarResponseDto[]> {
+    return this.calendarService.findAll(projectId);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create a calendar; the first one becomes the project default' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 201, description: 'Calendar created', type: CalendarResponseDto })
+  @ApiResponse({ status: 409, description: 'A calendar with this name already exists' })
+  async create(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: CreateCalendarDto,
+    @Request() req: any
+  ): Promise<CalendarResponseDto> {
+    return this.calendarService.create(projectId, dto, req.user?.id);
+  }
+
+  @Get(':calendarId')
+  @ApiOperation({ summary: 'Get a calendar' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'calendarId', description: 'Calendar UUID' })
+  @ApiResponse({ status: 200, description: 'Calendar retrieved', type: CalendarResponseDto })
+  @ApiResponse({ status: 404, description: 'Calendar not found' })
+  async findOne(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('calendarId', ParseUUIDPipe) calendarId: string
+  ): Promise<CalendarResponseDto> {
+    return this.calendarService.findOne(projectId, calendarId);
+  }
+
+  @Patch(':calendarId')
+  @ApiOperation({ summary: 'Update a calendar' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'calendarId', description: 'Calendar UUID' })
+  @ApiResponse({ status: 200, description: 'Calendar updated', type: CalendarResponseDto })
+  @ApiResponse({ status: 404, description: 'Calendar not found' })
+  @ApiResponse({ status: 409, description: 'A calendar with this name already exists' })
+  async update(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('calendarId', ParseUUIDPipe) calendarId: string,
+    @Body() dto: UpdateCalendarDto,
+    @Request() req: any
+  ): Promise<CalendarResponseDto> {
+    return this.calendarService.update(projectId, calendarId, dto, req.user?.id);
+  }
+
+  @Delete(':calendarId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a calendar' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'calendarId', description: 'Calendar UUID' })
+  @ApiResponse({ status: 204, description: 'Calendar deleted' })
+  @ApiResponse({ status: 404, description: 'Calendar not found' })
+  @ApiResponse({ status: 409, description: 'Calendar is the project default' })
+  async remove(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('calendarId', ParseUUIDPipe) calendarId: string,
+    @Request() req: any
+  ): Promise<void> {
+    return this.calendarService.remove(projectId, calendarId, req.user?.id);
+  }
+
+  @Put(':calendarId/default')
+  @ApiOperation({ summary: 'Make a calendar the project default used by the scheduler' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'calendarId', description: 'Calendar UUID' })
+  @ApiResponse({ status: 200, description: 'Default calendar set', type: CalendarResponseDto })
+  @ApiResponse({ status: 404, description: 'Calendar not found' })
+  async setDefault(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('calendarId', ParseUUIDPipe) calendarId: string,
+    @Request() req: any
+  ): Promise<CalendarResponseDto> {
+    return this.calendarService.setDefault(projectId, calendarId, req.user?.id);
+  }
+
+  @Post(':calendarId/holidays/import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Import holidays from an iCalendar (.ics) file' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'calendarId', description: 'Calendar UUID' })
+  @ApiResponse({ status: 200, description: 'Holidays imported', type: ImportHolidaysResponseDto })
+  @ApiResponse({ status: 400, description: 'Content is not a valid iCalendar file' })
+  @ApiResponse({ status: 404, description: 'Calendar not found' })
+  async importHolidays(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('calendarId', ParseUUIDPipe) calendarId: string,
+    @Body() dto: ImportHolidaysDto,
+    @Request() req: any
+  ): Promise<ImportHolidaysResponseDto> {
+    return this.calendarService.importHolidays(projectId, calendarId, dto, req.user?.id);
+  }
+}
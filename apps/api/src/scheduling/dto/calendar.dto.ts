@@ -0,0 +1,121 @@
+import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min
+} from 'class-validator';
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export class CreateCalendarDto {
+  @ApiProperty({ description: 'Calendar name, unique within the project', example: 'Tokyo office' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    description: 'Working days of the week (0=Sunday, 1=Monday, ..., 6=Saturday)',
+    example: [1, 2, 3, 4, 5],
+    type: [Number]
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  @Min(0, { each: true })
+  @Max(6, { each: true })
+  workingDays: number[];
+
+  @ApiPropertyOptional({
+    description: 'Non-working dates in YYYY-MM-DD format',
+    example: ['2025-12-25'],
+    type: [String]
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @Matches(ISO_DATE_PATTERN, { each: true, message: 'each holiday must be a YYYY-MM-DD date' })
+  holidays?: string[];
+
+  @ApiPropertyOptional({ description: 'Working hours per day', example: 8, default: 8 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  dailyHours?: number;
+
+  @ApiPropertyOptional({ description: 'Make this the project default calendar', default: false })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdateCalendarDto extends PartialType(CreateCalendarDto) {}
+
+export class ImportHolidaysDto {
+  @ApiProperty({ description: 'Contents of an iCalendar (.ics) file' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2_000_000)
+  ics: string;
+
+  @ApiPropertyOptional({
+    description: 'Replace the existing holidays instead of merging with them',
+    default: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  replace?: boolean;
+}
+
+export class CalendarResponseDto {
+  @ApiProperty({ description: 'Calendar ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Project ID' })
+  projectId: string;
+
+  @ApiProperty({ description: 'Calendar name' })
+  name: string;
+
+  @ApiProperty({ description: 'Working days of the week (0=Sunday)', type: [Number] })
+  workingDays: number[];
+
+  @ApiProperty({ description: 'Non-working dates (YYYY-MM-DD)', type: [String] })
+  holidays: string[];
+
+  @ApiProperty({ description: 'Working hours per day' })
+  dailyHours: number;
+
+  @ApiProperty({ description: 'Whether this is the project default calendar' })
+  isDefault: boolean;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: string;
+}
+
+export class ImportHolidaysResponseDto {
+  @ApiProperty({ description: 'Calendar after the import', type: CalendarResponseDto })
+  calendar: CalendarResponseDto;
+
+  @ApiProperty({ description: 'Holiday dates added to the calendar' })
+  importedCount: number;
+
+  @ApiProperty({ description: 'Dates that were already on the calendar' })
+  duplicateCount: number;
+
+  @ApiProperty({ description: 'Recurring events that were not expanded' })
+  skippedRecurring: number;
+}
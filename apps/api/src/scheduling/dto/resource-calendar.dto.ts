@@ -0,0 +1,69 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Matches,
+  Max,
+  Min
+} from 'class-validator';
+
+export class UpsertResourceCalendarDto {
+  @ApiPropertyOptional({
+    description: 'Working hours for each weekday, Sunday first; empty to follow the project calendar',
+    example: [0, 4, 4, 4, 4, 4, 0],
+    type: [Number]
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(7)
+  @IsNumber({}, { each: true })
+  @Min(0, { each: true })
+  @Max(24, { each: true })
+  weeklyHours?: number[];
+
+  @ApiPropertyOptional({
+    description: 'Personal days off in YYYY-MM-DD format',
+    example: ['2025-08-11', '2025-08-12'],
+    type: [String]
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(1000)
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { each: true, message: 'each day off must be a YYYY-MM-DD date' })
+  daysOff?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Share of the weekly hours available for project work',
+    example: 80,
+    minimum: 0,
+    maximum: 100
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  capacityPercent?: number;
+}
+
+export class ResourceCalendarResponseDto {
+  @ApiProperty({ description: 'User ID' })
+  userId: string;
+
+  @ApiProperty({ description: 'Working hours per weekday, Sunday first; empty follows the project calendar', type: [Number] })
+  weeklyHours: number[];
+
+  @ApiProperty({ description: 'Personal days off (YYYY-MM-DD)', type: [String] })
+  daysOff: string[];
+
+  @ApiProperty({ description: 'Share of the weekly hours available for project work' })
+  capacityPercent: number;
+
+  @ApiProperty({ description: 'False when the user has no personal calendar and the defaults apply' })
+  personal: boolean;
+
+  @ApiProperty({ description: 'Last update timestamp', nullable: true })
+  updatedAt: string | null;
+}
@@ -0,0 +1,319 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+  ValidateIf
+} from 'class-validator';
+import { CreateDependencyDto } from '../../issues/dto/dependency.dto';
+import { ConflictInfo } from './schedule-response.dto';
+import { TaskSchedule } from '../entities/computed-schedule.entity';
+
+export class CreateScenarioDto {
+  @ApiProperty({ description: 'Scenario name, unique within the project', example: 'Add second QA engineer' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiPropertyOptional({ description: 'What the scenario tries out' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  description?: string;
+}
+
+export class UpdateScenarioTaskDto {
+  @ApiPropertyOptional({
+    description: 'Start date (ISO 8601); pins the task with a SNET constraint unless constraintType is given',
+    example: '2025-09-08T00:00:00.000Z'
+  })
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Due date (ISO 8601); without a start date it pins the task with a FNLT constraint unless constraintType is given',
+    example: '2025-09-12T00:00:00.000Z'
+  })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @ApiPropertyOptional({ description: 'Estimate value', example: 16, minimum: 0 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  estimateValue?: number;
+
+  @ApiPropertyOptional({ description: 'Estimate unit', enum: ['h', 'd'] })
+  @IsOptional()
+  @IsEnum(['h', 'd'])
+  estimateUnit?: string;
+
+  @ApiPropertyOptional({ description: 'Assignee ID; null unassigns the task', nullable: true })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  assigneeId?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Scheduling constraint; null clears it',
+    enum: ['SNET', 'FNLT', 'MSO', 'MFO', 'ALAP'],
+    nullable: true
+  })
+  @IsOptional()
+  @ValidateIf((_, value) => value !== null)
+  @IsEnum(['SNET', 'FNLT', 'MSO', 'MFO', 'ALAP'])
+  constraintType?: 'SNET' | 'FNLT' | 'MSO' | 'MFO' | 'ALAP' | null;
+
+  @ApiPropertyOptional({ description: 'Constraint date (ISO 8601); required for every constraint type except ALAP' })
+  @IsOptional()
+  @IsDateString()
+  constraintDate?: string;
+}
+
+export class CreateScenarioDependencyDto extends CreateDependencyDto {}
+
+export class PromoteScenarioDto {
+  @ApiPropertyOptional({
+    description: 'Promote even if live issues were edited after the scenario was forked; their edits are overwritten',
+    default: false
+  })
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+}
+
+export class ScenarioResponseDto {
+  @ApiProperty({ description: 'Scenario ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Project ID' })
+  projectId: string;
+
+  @ApiProperty({ description: 'Scenario name' })
+  name: string;
+
+  @ApiProperty({ description: 'Scenario description' })
+  description: string;
+
+  @ApiProperty({ description: 'Scenario status', enum: ['draft', 'promoted'] })
+  status: string;
+
+  @ApiProperty({ description: 'Tasks copied from the live plan' })
+  taskCount: number;
+
+  @ApiProperty({ description: 'Tasks edited in the scenario' })
+  modifiedTaskCount: number;
+
+  @ApiProperty({ description: 'Dependencies in the scenario' })
+  dependencyCount: number;
+
+  @ApiProperty({ description: 'User who forked the scenario' })
+  createdBy: string;
+
+  @ApiPropertyOptional({ description: 'Promotion timestamp', nullable: true })
+  promotedAt: string | null;
+
+  @ApiPropertyOptional({ description: 'User who promoted the scenario', nullable: true })
+  promotedBy: string | null;
+
+  @ApiProperty({ description: 'Creation timestamp' })
+  createdAt: string;
+
+  @ApiProperty({ description: 'Last update timestamp' })
+  updatedAt: string;
+}
+
+export class ScenarioTaskResponseDto {
+  @ApiProperty({ description: 'Live issue this task was copied from' })
+  issueId: string;
+
+  @ApiProperty({ description: 'Issue title' })
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Parent issue ID', nullable: true })
+  parentIssueId: string | null;
+
+  @ApiProperty({ description: 'Issue status' })
+  status: string;
+
+  @ApiProperty({ description: 'Estimate value' })
+  estimateValue: number;
+
+  @ApiProperty({ description: 'Estimate unit', enum: ['h', 'd'] })
+  estimateUnit: string;
+
+  @ApiPropertyOptional({ description: 'Assignee ID', nullable: true })
+  assigneeId: string | null;
+
+  @ApiPropertyOptional({ description: 'Start date', nullable: true })
+  startDate: string | null;
+
+  @ApiPropertyOptional({ description: 'Due date', nullable: true })
+  dueDate: string | null;
+
+  @ApiPropertyOptional({ description: 'Scheduling constraint type', nullable: true })
+  constraintType: string | null;
+
+  @ApiPropertyOptional({ description: 'Scheduling constraint date', nullable: true })
+  constraintDate: string | null;
+
+  @ApiProperty({ description: 'Progress percentage (0-100)' })
+  progress: number;
+
+  @ApiProperty({ description: 'Edited in the scenario' })
+  modified: boolean;
+}
+
+export class ScenarioDependencyResponseDto {
+  @ApiProperty({ description: 'Scenario dependency ID' })
+  id: string;
+
+  @ApiProperty({ description: 'Predecessor issue ID' })
+  predecessorId: string;
+
+  @ApiProperty({ description: 'Successor issue ID' })
+  successorId: string;
+
+  @ApiProperty({ description: 'Dependency type', enum: ['FS', 'SS', 'SF', 'FF'] })
+  type: string;
+
+  @ApiProperty({ description: 'Lag in lagUnit' })
+  lag: number;
+
+  @ApiProperty({ description: 'Lag unit', enum: ['hours', 'days', 'percent'] })
+  lagUnit: string;
+}
+
+export class ScenarioDetailResponseDto extends ScenarioResponseDto {
+  @ApiProperty({ description: 'Scenario tasks', type: [ScenarioTaskResponseDto] })
+  tasks: ScenarioTaskResponseDto[];
+
+  @ApiProperty({ description: 'Scenario dependencies', type: [ScenarioDependencyResponseDto] })
+  dependencies: ScenarioDependencyResponseDto[];
+
+  @ApiPropertyOptional({ description: 'Most recent schedule calculated for the scenario', nullable: true })
+  latestScheduleId: string | null;
+}
+
+export class ScenarioScheduleResponseDto {
+  @ApiProperty({ description: 'Computed schedule ID; usable with the schedule compare endpoint' })
+  scheduleId: string;
+
+  @ApiProperty({ description: 'Scenario ID' })
+  scenarioId: string;
+
+  @ApiProperty({ description: 'Scenario finish date' })
+  computedEndDate: string;
+
+  @ApiProperty({ description: 'Total duration in working days' })
+  totalDuration: number;
+
+  @ApiProperty({ description: 'Scheduled dates per task, keyed by issue ID', type: [Object] })
+  taskSchedules: TaskSchedule[];
+
+  @ApiProperty({ description: 'Critical path task IDs', type: [String] })
+  criticalPath: string[];
+
+  @ApiProperty({ description: 'Constraint violations in the scenario', type: [ConflictInfo] })
+  conflicts: ConflictInfo[];
+}
+
+export class ScenarioTaskDeltaDto {
+  @ApiProperty({ description: 'Issue ID' })
+  issueId: string;
+
+  @ApiProperty({ description: 'Issue title' })
+  title: string;
+
+  @ApiPropertyOptional({ description: 'Scheduled start in the live plan', nullable: true })
+  liveStartDate: string | null;
+
+  @ApiPropertyOptional({ description: 'Scheduled start in the scenario', nullable: true })
+  scenarioStartDate: string | null;
+
+  @ApiProperty({ description: 'Start shift in calendar days; positive is later' })
+  startShiftDays: number;
+
+  @ApiPropertyOptional({ description: 'Scheduled finish in the live plan', nullable: true })
+  liveEndDate: string | null;
+
+  @ApiPropertyOptional({ description: 'Scheduled finish in the scenario', nullable: true })
+  scenarioEndDate: string | null;
+
+  @ApiProperty({ description: 'Finish shift in calendar days; positive is later' })
+  finishShiftDays: number;
+
+  @ApiProperty({ description: 'Duration change in working days' })
+  durationChangeDays: number;
+
+  @ApiPropertyOptional({ description: 'Assignee in the live plan', nullable: true })
+  liveAssigneeId: string | null;
+
+  @ApiPropertyOptional({ description: 'Assignee in the scenario', nullable: true })
+  scenarioAssigneeId: string | null;
+
+  @ApiProperty({ description: 'Critical in the live plan' })
+  liveCritical: boolean;
+
+  @ApiProperty({ description: 'Critical in the scenario' })
+  scenarioCritical: boolean;
+}
+
+export class ScenarioDiffResponseDto {
+  @ApiProperty({ description: 'Scenario ID' })
+  scenarioId: string;
+
+  @ApiProperty({ description: 'Live plan finish date' })
+  liveFinishDate: string;
+
+  @ApiProperty({ description: 'Scenario finish date' })
+  scenarioFinishDate: string;
+
+  @ApiProperty({ description: 'Finish shift in calendar days; negative means the scenario finishes earlier' })
+  finishShiftDays: number;
+
+  @ApiProperty({ description: 'Live plan critical path', type: [String] })
+  liveCriticalPath: string[];
+
+  @ApiProperty({ description: 'Scenario critical path', type: [String] })
+  scenarioCriticalPath: string[];
+
+  @ApiProperty({ description: 'Tasks that become critical in the scenario', type: [String] })
+  criticalPathAdded: string[];
+
+  @ApiProperty({ description: 'Tasks that are no longer critical in the scenario', type: [String] })
+  criticalPathRemoved: string[];
+
+  @ApiProperty({ description: 'Tasks whose dates, duration, assignee or criticality differ', type: [ScenarioTaskDeltaDto] })
+  tasks: ScenarioTaskDeltaDto[];
+}
+
+export class PromoteScenarioResponseDto {
+  @ApiProperty({ description: 'Promoted scenario', type: ScenarioResponseDto })
+  scenario: ScenarioResponseDto;
+
+  @ApiProperty({ description: 'Live issues updated' })
+  updatedIssues: number;
+
+  @ApiProperty({ description: 'Live dependencies created' })
+  dependenciesAdded: number;
+
+  @ApiProperty({ description: 'Live dependencies removed' })
+  dependenciesRemoved: number;
+
+  @ApiProperty({ description: 'Live dependencies whose lag changed' })
+  dependenciesUpdated: number;
+
+  @ApiProperty({ description: 'Live issues edited after the fork whose edits were overwritten', type: [String] })
+  overwrittenIssueIds: string[];
+}
@@ -1,4 +1,4 @@
-import { IsArray, IsBoolean, IsDateString, IsEnum, IsNumber, IsOptional, IsPositive } from 'class-validator';
+import { ArrayMinSize, IsArray, IsBoolean, IsDateString, IsEnum, IsIn, IsInt, IsNumber, IsOptional, IsPositive, Max, Min, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export enum ScheduleAlgorithm {
@@ -6,14 +6,17 @@ export enum ScheduleAlgorithm {
   SIMPLE = 'simple'
 }
 
+// Fields left out fall back to the project's default calendar
 export class ScheduleConstraints {
+  @IsOptional()
   @IsArray()
   @IsNumber({}, { each: true })
-  workingDays: number[];
+  workingDays?: number[];
 
+  @IsOptional()
   @IsNumber()
   @IsPositive()
-  workingHoursPerDay: number;
+  workingHoursPerDay?: number;
 
   @IsOptional()
   @IsDateString()
@@ -37,8 +40,10 @@ export class ScheduleOptions {
 }
 
 export class ScheduleCalculateRequest {
+  @IsOptional()
+  @ValidateNested()
   @Type(() => ScheduleConstraints)
-  constraints: ScheduleConstraints;
+  constraints?: ScheduleConstraints;
 
   @Type(() => ScheduleOptions)
   options: ScheduleOptions;
@@ -52,4 +57,34 @@ export class ScheduleApplyRequest {
     preserveProgress: boolean;
     notifyAssignees: boolean;
   };
-}
\ No newline at end of file
+}
+export const OPTIMIZATION_GOALS = ['minimize_duration', 'level_resources', 'minimize_cost'] as const;
+export type OptimizationGoal = typeof OPTIMIZATION_GOALS[number];
+
+export class ScheduleOptimizeRequest {
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(OPTIMIZATION_GOALS, { each: true })
+  goals: OptimizationGoal[];
+}
+
+export const SAMPLING_DISTRIBUTIONS = ['pert', 'triangular'] as const;
+export type SamplingDistributionName = typeof SAMPLING_DISTRIBUTIONS[number];
+
+export class ScheduleSimulationRequest {
+  // Number of simulated schedules
+  @IsOptional()
+  @IsInt()
+  @Min(100)
+  @Max(10000)
+  iterations?: number;
+
+  @IsOptional()
+  @IsIn(SAMPLING_DISTRIBUTIONS)
+  distribution?: SamplingDistributionName;
+
+  // Fix the random seed to reproduce a run
+  @IsOptional()
+  @IsInt()
+  seed?: number;
+}
@@ -47,6 +47,7 @@ export class ConflictInfo {
   resolutionComplexity?: 'low' | 'medium' | 'high';
   autoResolvable?: boolean;   // Whether this can be auto-resolved
   relatedConflicts?: string[]; // IDs of related conflicts
+  negativeFloat?: number;     // Working hours a date constraint is missed by
 }
 
 // AC3: Critical path statistics
@@ -72,10 +72,15 @@ export interface TaskSchedule {
   taskId: string;
   startDate: string;
   endDate: string;
-  duration: number;
-  floatTime?: number;
+  duration: number; // working days, fractional for hour estimates
+  durationHours?: number;
+  floatTime?: number; // whole working days
+  floatHours?: number;
   isCritical?: boolean;
+  isSummary?: boolean; // dates rolled up from child tasks
   resourceAllocations?: ResourceAllocation[];
+  levelingDelay?: number; // working days added by resource leveling
+  delayWithinFloat?: boolean;
 }
 
 export interface ResourceAllocation {
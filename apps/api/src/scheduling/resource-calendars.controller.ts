@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ResourceCalendarService } from './services/resource-calendar.service';
+import { UpsertResourceCalendarDto, ResourceCalendarResponseDto } from './dto/resource-calendar.dto';
+
+@ApiTags('Calendars')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('users/:userId/resource-calendar')
+export class ResourceCalendarsController {
+  constructor(private readonly resourceCalendarService: ResourceCalendarService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get a user\'s personal working time' })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({ status: 200, description: 'Resource calendar, or the defaults when none is set', type: ResourceCalendarResponseDto })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async findOne(
+    @Param('userId', ParseUUIDPipe) userId: string
+  ): Promise<ResourceCalendarResponseDto> {
+    return this.resourceCalendarService.findOne(userId);
+  }
+
+  @Put()
+  @ApiOperation({ summary: 'Set a user\'s weekly hours, days off and capacity' })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({ status: 200, description: 'Resource calendar saved', type: ResourceCalendarResponseDto })
+  @ApiResponse({ status: 400, description: 'Invalid weekly hours' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async upsert(
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Body() dto: UpsertResourceCalendarDto
+  ): Promise<ResourceCalendarResponseDto> {
+    return this.resourceCalendarService.upsert(userId, dto);
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a user\'s personal calendar so the project calendar applies' })
+  @ApiParam({ name: 'userId', description: 'User UUID' })
+  @ApiResponse({ status: 204, description: 'Resource calendar removed' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  async remove(
+    @Param('userId', ParseUUIDPipe) userId: string
+  ): Promise<void> {
+    return this.resourceCalendarService.remove(userId);
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseUUIDPipe,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Request
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiParam,
+  ApiBearerAuth
+} from '@nestjs/swagger';
+
+import { JwtAuthGuard } from '../auth/guards/jwt.guard';
+import { ScenarioService } from './services/scenario.service';
+import {
+  CreateScenarioDto,
+  UpdateScenarioTaskDto,
+  CreateScenarioDependencyDto,
+  PromoteScenarioDto,
+  ScenarioResponseDto,
+  ScenarioDetailResponseDto,
+  ScenarioTaskResponseDto,
+  ScenarioDependencyResponseDto,
+  ScenarioScheduleResponseDto,
+  ScenarioDiffResponseDto,
+  PromoteScenarioResponseDto
+} from './dto/scenario.dto';
+
+@ApiTags('Scheduling')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('projects/:projectId/scenarios')
+export class ScenariosController {
+  constructor(private readonly scenarioService: ScenarioService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List schedule scenarios' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 200, description: 'Scenarios retrieved', type: [ScenarioResponseDto] })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  async findAll(
+    @Param('projectId', ParseUUIDPipe) projectId: string
+  ): Promise<ScenarioResponseDto[]> {
+    return this.scenarioService.findAll(projectId);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Fork the live plan into a scenario',
+    description: 'Copies the current issues and dependencies; edits to the scenario do not touch the live issues'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiResponse({ status: 201, description: 'Scenario created', type: ScenarioDetailResponseDto })
+  @ApiResponse({ status: 409, description: 'A scenario with this name already exists' })
+  async create(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Body() dto: CreateScenarioDto,
+    @Request() req: any
+  ): Promise<ScenarioDetailResponseDto> {
+    return this.scenarioService.create(projectId, dto, req.user?.id);
+  }
+
+  @Get(':scenarioId')
+  @ApiOperation({ summary: 'Get a scenario with its tasks and dependencies' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiResponse({ status: 200, description: 'Scenario retrieved', type: ScenarioDetailResponseDto })
+  @ApiResponse({ status: 404, description: 'Scenario not found' })
+  async findOne(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string
+  ): Promise<ScenarioDetailResponseDto> {
+    return this.scenarioService.findOne(projectId, scenarioId);
+  }
+
+  @Delete(':scenarioId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Delete a scenario and its schedules' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiResponse({ status: 204, description: 'Scenario deleted' })
+  @ApiResponse({ status: 404, description: 'Scenario not found' })
+  async remove(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string,
+    @Request() req: any
+  ): Promise<void> {
+    return this.scenarioService.remove(projectId, scenarioId, req.user?.id);
+  }
+
+  @Patch(':scenarioId/tasks/:issueId')
+  @ApiOperation({
+    summary: 'Edit a task in the scenario',
+    description: 'Dates pin the task with a SNET or FNLT constraint unless a constraint is given explicitly'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiParam({ name: 'issueId', description: 'Issue UUID' })
+  @ApiResponse({ status: 200, description: 'Task updated', type: ScenarioTaskResponseDto })
+  @ApiResponse({ status: 400, description: 'Parent task moved on its own or constraint date missing' })
+  @ApiResponse({ status: 404, description: 'Scenario or task not found' })
+  @ApiResponse({ status: 409, description: 'Scenario already promoted' })
+  async updateTask(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string,
+    @Param('issueId', ParseUUIDPipe) issueId: string,
+    @Body() dto: UpdateScenarioTaskDto
+  ): Promise<ScenarioTaskResponseDto> {
+    return this.scenarioService.updateTask(projectId, scenarioId, issueId, dto);
+  }
+
+  @Post(':scenarioId/dependencies')
+  @ApiOperation({ summary: 'Add a dependency in the scenario' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiResponse({ status: 201, description: 'Dependency created', type: ScenarioDependencyResponseDto })
+  @ApiResponse({ status: 400, description: 'Self or circular dependency' })
+  @ApiResponse({ status: 404, description: 'Scenario or task not found' })
+  @ApiResponse({ status: 409, description: 'Dependency already exists or scenario already promoted' })
+  async addDependency(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string,
+    @Body() dto: CreateScenarioDependencyDto
+  ): Promise<ScenarioDependencyResponseDto> {
+    return this.scenarioService.addDependency(projectId, scenarioId, dto);
+  }
+
+  @Delete(':scenarioId/dependencies/:dependencyId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @ApiOperation({ summary: 'Remove a dependency from the scenario' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiParam({ name: 'dependencyId', description: 'Scenario dependency UUID' })
+  @ApiResponse({ status: 204, description: 'Dependency removed' })
+  @ApiResponse({ status: 404, description: 'Scenario or dependency not found' })
+  @ApiResponse({ status: 409, description: 'Scenario already promoted' })
+  async removeDependency(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string,
+    @Param('dependencyId', ParseUUIDPipe) dependencyId: string
+  ): Promise<void> {
+    return this.scenarioService.removeDependency(projectId, scenarioId, dependencyId);
+  }
+
+  @Post(':scenarioId/schedule')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Run the scheduler inside the scenario',
+    description: 'The result is stored as a computed schedule of the scenario and cannot be applied directly'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiResponse({ status: 200, description: 'Scenario scheduled', type: ScenarioScheduleResponseDto })
+  @ApiResponse({ status: 400, description: 'Scenario cannot be scheduled' })
+  @ApiResponse({ status: 404, description: 'Scenario not found' })
+  async schedule(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string,
+    @Request() req: any
+  ): Promise<ScenarioScheduleResponseDto> {
+    return this.scenarioService.schedule(projectId, scenarioId, req.user?.id);
+  }
+
+  @Get(':scenarioId/diff')
+  @ApiOperation({ summary: 'Compare the scenario with the live plan' })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiResponse({ status: 200, description: 'Finish date, critical path and per-task differences', type: ScenarioDiffResponseDto })
+  @ApiResponse({ status: 404, description: 'Scenario not found' })
+  async diff(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string
+  ): Promise<ScenarioDiffResponseDto> {
+    return this.scenarioService.diff(projectId, scenarioId);
+  }
+
+  @Post(':scenarioId/promote')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Promote the scenario into the live project',
+    description: 'Applies edited fields, dependencies and scheduled dates to the live issues in one transaction'
+  })
+  @ApiParam({ name: 'projectId', description: 'Project UUID' })
+  @ApiParam({ name: 'scenarioId', description: 'Scenario UUID' })
+  @ApiResponse({ status: 200, description: 'Scenario promoted', type: PromoteScenarioResponseDto })
+  @ApiResponse({ status: 404, description: 'Scenario not found' })
+  @ApiResponse({ status: 409, description: 'Live issues changed since the fork, or scenario already promoted' })
+  async promote(
+    @Param('projectId', ParseUUIDPipe) projectId: string,
+    @Param('scenarioId', ParseUUIDPipe) scenarioId: string,
+    @Body() dto: PromoteScenarioDto,
+    @Request() req: any
+  ): Promise<PromoteScenarioResponseDto> {
+    return this.scenarioService.promote(projectId, scenarioId, dto, req.user?.id);
+  }
+}
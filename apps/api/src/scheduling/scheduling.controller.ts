@@ -17,10 +17,13 @@ import {
 } from '@nestjs/swagger';
 
 import { JwtAuthGuard } from '../auth/guards/jwt.guard';
-import { SchedulingService } from './scheduling.service';
+import { SchedulingService, ScheduleComparisonResult } from './scheduling.service';
+import { CalendarService } from './services/calendar.service';
 import {
   ScheduleCalculateRequest,
-  ScheduleApplyRequest
+  ScheduleApplyRequest,
+  ScheduleOptimizeRequest,
+  ScheduleSimulationRequest
 } from './dto/schedule-request.dto';
 import {
   ScheduleCalculateResponse,
@@ -37,7 +40,10 @@ import {
 @UseGuards(JwtAuthGuard)
 @Controller('projects/:projectId/schedule')
 export class SchedulingController {
-  constructor(private readonly schedulingService: SchedulingService) {}
+  constructor(
+    private readonly schedulingService: SchedulingService,
+    private readonly calendarService: CalendarService
+  ) {}
 
   @Post('calculate')
   @ApiOperation({ summary: 'Calculate project schedule using CPM algorithm' })
@@ -95,6 +101,52 @@ export class SchedulingController {
     );
   }
 
+  @Post('optimize')
+  @ApiOperation({ summary: 'Compute a resource-leveled schedule preview' })
+  @ApiResponse({
+    status: 200,
+    description: 'Leveled schedule computed; apply it through the apply endpoint'
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid optimization goals or project has no tasks'
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Project not found'
+  })
+  @HttpCode(HttpStatus.OK)
+  async optimizeSchedule(
+    @Param('projectId') projectId: string,
+    @Body() request: ScheduleOptimizeRequest,
+    @Request() req: any
+  ): Promise<import('./scheduling.service').OptimizeScheduleResult> {
+    const userId = req.user?.id;
+    return this.schedulingService.optimizeSchedule(projectId, request.goals, userId);
+  }
+
+  @Post('simulate')
+  @ApiOperation({ summary: 'Run a Monte Carlo risk analysis over three-point estimates' })
+  @ApiResponse({
+    status: 200,
+    description: 'P50/P80/P90 finish dates, criticality index per task and milestone probabilities'
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid simulation settings, too many iterations for the project size, or project has no tasks'
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Project not found'
+  })
+  @HttpCode(HttpStatus.OK)
+  async simulateSchedule(
+    @Param('projectId') projectId: string,
+    @Body() request: ScheduleSimulationRequest
+  ): Promise<import('./scheduling.service').ScheduleSimulationResult> {
+    return this.schedulingService.simulateSchedule(projectId, request);
+  }
+
   @Post('apply')
   @ApiOperation({ summary: 'Apply calculated schedule to project' })
   @ApiResponse({
@@ -137,6 +189,27 @@ export class SchedulingController {
     return this.schedulingService.previewSchedule(projectId, computedScheduleId);
   }
 
+  @Get('compare/:scheduleId1/:scheduleId2')
+  @ApiOperation({
+    summary: 'Compare two computed schedules task by task',
+    description: 'Works across the live plan and scenario schedules of the same project'
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Schedule differences with impact levels and the recommended schedule'
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Computed schedule not found'
+  })
+  async compareSchedules(
+    @Param('projectId') projectId: string,
+    @Param('scheduleId1') scheduleId1: string,
+    @Param('scheduleId2') scheduleId2: string
+  ): Promise<ScheduleComparisonResult> {
+    return this.schedulingService.compareSchedules(projectId, scheduleId1, scheduleId2);
+  }
+
   @Post('resolve-conflicts')
   @ApiOperation({ summary: 'Resolve scheduling conflicts' })
   @ApiResponse({
@@ -361,6 +434,8 @@ export class SchedulingController {
     schema: {
       type: 'object',
       properties: {
+        calendarId: { type: 'string', nullable: true, description: 'Default calendar, or null when none is set' },
+        name: { type: 'string' },
         workingDays: {
           type: 'array',
           items: { type: 'number' },
@@ -389,13 +464,19 @@ export class SchedulingController {
   async getCalendarConfiguration(
     @Param('projectId') projectId: string
   ) {
-    // Default calendar configuration - would be retrieved from project settings in real implementation
+    const calendar = await this.calendarService.getSchedulingCalendar(projectId);
+    const endHour = 9 + calendar.workingHoursPerDay;
+
     return {
-      workingDays: [1, 2, 3, 4, 5], // Monday to Friday
-      workingHoursPerDay: 8,
-      holidays: [],
+      calendarId: calendar.calendarId,
+      name: calendar.name,
+      workingDays: calendar.workingDays,
+      workingHoursPerDay: calendar.workingHoursPerDay,
+      holidays: calendar.holidays.map(holiday =>
+        `${holiday.getFullYear()}-${String(holiday.getMonth() + 1).padStart(2, '0')}-${String(holiday.getDate()).padStart(2, '0')}`
+      ),
       workingTimeSlots: [
-        { startTime: '09:00', endTime: '17:00' }
+        { startTime: '09:00', endTime: `${String(Math.min(endHour, 24)).padStart(2, '0')}:00` }
       ],
       timezone: 'UTC'
     };
@@ -1,21 +1,30 @@
 import { Module } from '@nestjs/common';
 import { SchedulingController } from './scheduling.controller';
+import { CalendarsController } from './calendars.controller';
+import { ResourceCalendarsController } from './resource-calendars.controller';
+import { ScenariosController } from './scenarios.controller';
 import { SchedulingService } from './scheduling.service';
 import { PrismaModule } from '../prisma/prisma.module';
 import { ConflictDetectionService } from './services/conflict-detection.service';
 import { ConflictResolutionService } from './services/conflict-resolution.service';
 import { AuditLogService } from './services/audit-log.service';
+import { CalendarService } from './services/calendar.service';
+import { ResourceCalendarService } from './services/resource-calendar.service';
+import { ScenarioService } from './services/scenario.service';
 import { CPMScheduler } from './algorithms/cpm-scheduler';
 import { ConstraintSolver } from './algorithms/constraint-solver';
 
 @Module({
   imports: [PrismaModule],
-  controllers: [SchedulingController],
+  controllers: [SchedulingController, CalendarsController, ResourceCalendarsController, ScenariosController],
   providers: [
     SchedulingService,
     ConflictDetectionService,
     ConflictResolutionService,
     AuditLogService,
+    CalendarService,
+    ResourceCalendarService,
+    ScenarioService,
     CPMScheduler,
     ConstraintSolver
   ],
@@ -23,7 +32,9 @@ import { ConstraintSolver } from './algorithms/constraint-solver';
     SchedulingService,
     ConflictDetectionService,
     ConflictResolutionService,
-    AuditLogService
+    AuditLogService,
+    CalendarService,
+    ResourceCalendarService
   ],
 })
 export class SchedulingModule {}
\ No newline at end of file
@@ -2,13 +2,88 @@ import { Injectable, Logger, NotFoundException, BadRequestException } from '@nes
 import { PrismaService } from '../prisma/prisma.service';
 import {
   TaskSchedule,
-  ScheduleResult,
   ScheduleConstraints,
   BusinessHours
 } from './entities/computed-schedule.entity';
-import { ScheduleCalculateRequest } from './dto/schedule-request.dto';
+import { ScheduleCalculateRequest, OptimizationGoal, ScheduleSimulationRequest } from './dto/schedule-request.dto';
+import { ConflictInfo, ConflictType, ConflictSeverity } from './dto/schedule-response.dto';
 import { CPMScheduler } from './algorithms/cpm-scheduler';
-import { ConstraintSolver } from './algorithms/constraint-solver';
+import { ConstraintSolver, ResourceLevelingResult } from './algorithms/constraint-solver';
+import { ForwardPass, ForwardPassResult, TaskNode, TaskConstraintType } from './algorithms/forward-pass';
+import { BackwardPass, TaskNodeWithSlack } from './algorithms/backward-pass';
+import { LagUnit, resolveLagHours, dateFinishHours } from './algorithms/working-time';
+import { MonteCarloSimulator, SimulationTask, MAX_SIMULATED_TASK_RUNS, percentile } from './algorithms/monte-carlo';
+import { TaskHierarchy } from './algorithms/summary-tasks';
+import {
+  CalendarService,
+  SchedulingCalendar,
+  SchedulingCalendarOverride
+} from './services/calendar.service';
+import { ResourceCalendarService } from './services/resource-calendar.service';
+import { ProjectEventsService } from '../events/project-events.service';
+
+type DependencyType = TaskNode['predecessors'][number]['type'];
+
+interface ScheduleModel {
+  calendar: SchedulingCalendar;
+  projectStartDate: Date;
+  forwardPass: ForwardPass;
+  forwardResult: ForwardPassResult;
+  tasks: Map<string, TaskNodeWithSlack>; // leaf tasks only
+  summaries: Map<string, TaskNodeWithSlack>; // parent issues, rolled up from their children
+  hierarchy: TaskHierarchy;
+  criticalPath: string[];
+}
+
+// Issue-shaped rows the passes can schedule; scenarios pass their own copies instead of live issues
+export interface ScheduleSourceTask {
+  id: string;
+  title: string;
+  parentIssueId: string | null;
+  status: string;
+  estimateValue: number;
+  estimateUnit: string;
+  assigneeId: string | null;
+  startDate: Date | null;
+  dueDate: Date | null;
+  constraintType: string | null;
+  constraintDate: Date | null;
+  progress: number;
+  predecessors: Array<{
+    predecessorId: string;
+    successorId: string;
+    type: string;
+    lag: number;
+    lagUnit: string;
+  }>;
+}
+
+// CPM dates for every task, calculated without storing a ComputedSchedule
+export interface ScheduleSnapshot {
+  calendar: SchedulingCalendar;
+  projectStartDate: Date;
+  computedEndDate: Date;
+  totalDuration: number; // working days
+  taskSchedules: TaskSchedule[];
+  criticalPath: string[];
+  conflicts: ConflictInfo[];
+}
+
+// Field-by-field comparison of two stored schedules
+export interface ScheduleComparisonResult {
+  differences: Array<{
+    taskId: string;
+    field: 'startDate' | 'endDate' | 'duration' | 'isCritical' | 'presence';
+    schedule1Value: any;
+    schedule2Value: any;
+    impact: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  }>;
+  summary: {
+    totalDifferences: number;
+    impactDistribution: Record<string, number>;
+    recommendedSchedule: string;
+  };
+}
 
 // AC4: Incremental scheduling update interface
 export interface IncrementalUpdateResult {
@@ -22,6 +97,84 @@ export interface IncrementalUpdateResult {
   };
 }
 
+// Resource-leveled schedule preview, stored as a ComputedSchedule for the apply flow
+export interface OptimizeScheduleResult {
+  computedSchedule: {
+    id: string;
+    projectId: string;
+    algorithm: string;
+    calculatedAt: Date;
+    computedEndDate: Date;
+    totalDuration: number;
+    taskSchedules: TaskSchedule[];
+    criticalPath: string[];
+    applied: boolean;
+  };
+  conflicts: ConflictInfo[];
+  optimizationApplied: OptimizationGoal[];
+  leveling: {
+    shifts: Array<{
+      taskId: string;
+      resourceId: string | null;
+      originalStartDate: string;
+      leveledStartDate: string;
+      shiftDays: number; // working days
+      leveledEndDate: string;
+      finishShiftDays: number; // working days
+      withinFloat: boolean;
+    }>;
+    delayedWithinFloat: number;
+    delayedBeyondFloat: number;
+    originalEndDate: string;
+    leveledEndDate: string;
+    endDateChangeDays: number; // working days
+  };
+  metrics: {
+    executionTime: number;
+    totalTasks: number;
+    criticalPathLength: number;
+  };
+}
+
+// Monte Carlo schedule risk analysis; probabilities and indexes are percentages
+export interface ScheduleSimulationResult {
+  iterations: number;
+  distribution: 'pert' | 'triangular';
+  seed: number;
+  tasksWithThreePointEstimates: number;
+  deterministicFinishDate: string;
+  deterministicFinishProbability: number;
+  finishDates: {
+    p50: string;
+    p80: string;
+    p90: string;
+    earliest: string;
+    latest: string;
+  };
+  distributionByDay: Array<{
+    date: string;
+    count: number;
+    cumulativeProbability: number;
+  }>;
+  criticalityIndex: Array<{
+    taskId: string;
+    title: string;
+    criticalityIndex: number;
+  }>;
+  milestones: Array<{
+    milestoneId: string;
+    name: string;
+    dueDate: string;
+    taskCount: number;
+    probability: number | null; // null when no live issue belongs to the milestone
+    p80Date: string | null;
+  }>;
+  metrics: {
+    executionTime: number;
+    totalTasks: number;
+  };
+}
+
 // AC5: Enhanced calendar configuration
 export interface EnhancedCalendarConfig {
   businessHours: BusinessHours;
@@ -56,7 +209,10 @@ export class SchedulingService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly cpmScheduler: CPMScheduler,
-    private readonly constraintSolver: ConstraintSolver
+    private readonly constraintSolver: ConstraintSolver,
+    private readonly calendarService: CalendarService,
+    private readonly resourceCalendarService: ResourceCalendarService,
+    private readonly projectEvents: ProjectEventsService
   ) {}
 
   async calculateSchedule(
@@ -68,89 +224,52 @@ export class SchedulingService {
     this.logger.log(`Starting schedule calculation for project ${projectId}`);
 
     try {
-      // Fetch project data
-      const project = await this.prisma.project.findUnique({
-        where: { id: projectId },
-        include: {
-          issues: {
-            include: {
-              predecessors: true,
-              successors: true
-            }
-          },
-          calendar: true
-        }
-      });
-
-      if (!project) {
-        throw new NotFoundException(`Project ${projectId} not found`);
-      }
-
-      // Extract tasks and dependencies
-      const tasks = project.issues.map(issue => ({
-        id: issue.id,
-        name: issue.title,
-        duration: issue.estimateValue || 1,
-        startDate: issue.startDate,
-        endDate: issue.dueDate,
-        progress: issue.progress,
-        priority: issue.priority,
-        resourceRequirements: [],
-        dependencies: issue.predecessors.map(dep => ({
-          predecessorId: dep.predecessorId,
-          type: (dep.type as 'FS' | 'SS' | 'SF' | 'FF') || 'FS',
-          lag: dep.lag
-        }))
-      }));
-
-      // Apply constraints and calendar settings
-      const constraints: ScheduleConstraints = {
-        projectStartDate: new Date(),
-        projectEndDate: undefined,
-        resourceConstraints: [],
-        fixedTasks: [],
-        businessHours: {
-          startTime: '09:00',
-          endTime: '17:00',
-          workingDays: [1, 2, 3, 4, 5],
-          timeZone: 'UTC'
-        }
-      };
-
-      // Run CPM calculation
-      const scheduleResult = await this.cpmScheduler.calculateSchedule(tasks);
-
-      // Store the computed schedule
-      // Calculate project dates from task schedules
-      const taskDates = scheduleResult.taskSchedules.map(ts => ({
-        start: new Date(ts.startDate),
-        end: new Date(ts.endDate)
-      }));
-      
-      const projectStartDate = new Date(Math.min(...taskDates.map(td => td.start.getTime())));
-      const projectEndDate = new Date(Math.max(...taskDates.map(td => td.end.getTime())));
+      // Request constraints override the project's stored calendar
+      const { calendar, projectStartDate, computedEndDate, totalDuration, taskSchedules, criticalPath, conflicts } =
+        await this.computeSchedule(projectId, request.constraints || {});
 
       const computedSchedule = await this.prisma.computedSchedule.create({
         data: {
           projectId,
-          calculatedBy: 'system', // Would be user ID in real implementation
+          calculatedBy: userId || 'system',
           algorithm: 'cpm',
           originalEndDate: new Date(),
-          computedEndDate: projectEndDate,
-          totalDuration: Math.ceil(
-            (projectEndDate.getTime() - projectStartDate.getTime()) /
-            (1000 * 60 * 60 * 24)
-          ),
-          constraints: constraints as any,
-          taskSchedules: scheduleResult.taskSchedules as any,
-          criticalPath: scheduleResult.criticalPath,
-          conflicts: scheduleResult.conflicts as any
+          computedEndDate,
+          totalDuration,
+          constraints: {
+            calendarId: calendar.calendarId,
+            workingDays: calendar.workingDays,
+            workingHoursPerDay: calendar.workingHoursPerDay,
+            startDate: projectStartDate,
+            holidays: calendar.holidays
+          } as any,
+          taskSchedules: taskSchedules as any,
+          criticalPath,
+          conflicts: conflicts as any
         }
       });
 
       const executionTime = Date.now() - startTime;
       this.logger.log(`Schedule calculation completed in ${executionTime}ms`);
 
+      if (conflicts.length > 0) {
+        this.projectEvents.publish({
+          projectId,
+          type: 'conflicts.detected',
+          message: `${conflicts.length} conflict${conflicts.length === 1 ? '' : 's'} found while calculating the schedule`,
+          data: {
+            computedScheduleId: computedSchedule.id,
+            conflicts: conflicts.map(conflict => ({
+              type: conflict.type,
+              severity: conflict.severity,
+              affectedTasks: conflict.affectedTasks,
+              description: conflict.description
+            }))
+          },
+          userId
+        });
+      }
+
       return {
         computedSchedule: {
           id: computedSchedule.id,
@@ -159,15 +278,15 @@ export class SchedulingService {
           calculatedAt: computedSchedule.calculatedAt,
           computedEndDate: computedSchedule.computedEndDate,
           totalDuration: computedSchedule.totalDuration,
-          taskSchedules: scheduleResult.taskSchedules,
-          criticalPath: scheduleResult.criticalPath,
+          taskSchedules,
+          criticalPath,
           applied: computedSchedule.applied
         },
-        conflicts: scheduleResult.conflicts || [],
+        conflicts,
         metrics: {
           executionTime,
-          totalTasks: scheduleResult.taskSchedules.length,
-          criticalPathLength: scheduleResult.criticalPath.length
+          totalTasks: taskSchedules.length,
+          criticalPathLength: criticalPath.length
         }
       };
 
@@ -197,49 +316,94 @@ export class SchedulingService {
       if (!computedSchedule || computedSchedule.projectId !== projectId) {
         throw new NotFoundException('Schedule not found');
       }
+      if (computedSchedule.scenarioId) {
+        throw new BadRequestException('Schedule belongs to a scenario; promote the scenario instead');
+      }
 
       const taskSchedules = Array.isArray(computedSchedule.taskSchedules) 
         ? computedSchedule.taskSchedules as unknown as TaskSchedule[]
         : JSON.parse(computedSchedule.taskSchedules as string) as TaskSchedule[];
-      let appliedTasks = 0;
-
       const appliedChanges = [];
+      const issues = await this.prisma.issue.findMany({
+        where: { projectId, id: { in: taskSchedules.map(task => task.taskId) }, deletedAt: null }
+      });
+      const issueById = new Map(issues.map(issue => [issue.id, issue]));
+
+      // Same bookkeeping as an issue edit: bump the version so stale clients get a conflict,
+      // and log each change so it reaches the audit trail and its hash chain
+      await this.prisma.$transaction(async (tx) => {
+        for (const taskSchedule of taskSchedules) {
+          const issue = issueById.get(taskSchedule.taskId);
+          if (!issue) continue; // Deleted since the schedule was calculated
+
+          const startDate = new Date(taskSchedule.startDate);
+          const dueDate = new Date(taskSchedule.endDate);
+          await tx.issue.update({
+            where: { id: issue.id },
+            data: {
+              startDate,
+              dueDate,
+              floatTime: taskSchedule.floatTime || 0,
+              lastScheduledAt: new Date(),
+              version: { increment: 1 }
+            }
+          });
+          await tx.activityLog.create({
+            data: {
+              projectId,
+              entityType: 'issue',
+              entityId: issue.id,
+              issueId: issue.id,
+              action: 'update',
+              actor: userId || 'system',
+              before: { startDate: issue.startDate?.toISOString() ?? null, dueDate: issue.dueDate?.toISOString() ?? null },
+              after: { startDate: startDate.toISOString(), dueDate: dueDate.toISOString() },
+              metadata: { computedScheduleId: request.computedScheduleId, previousVersion: issue.version }
+            }
+          });
+
+          appliedChanges.push({
+            taskId: issue.id,
+            previousStartDate: issue.startDate,
+            previousEndDate: issue.dueDate,
+            newStartDate: taskSchedule.startDate,
+            newEndDate: taskSchedule.endDate,
+            version: issue.version + 1
+          });
+        }
 
-      // Apply each task schedule
-      for (const taskSchedule of taskSchedules) {
-        const updated = await this.prisma.issue.update({
-          where: { id: taskSchedule.taskId },
+        // Mark the schedule as applied
+        await tx.computedSchedule.update({
+          where: { id: request.computedScheduleId },
           data: {
-            startDate: new Date(taskSchedule.startDate),
-            dueDate: new Date(taskSchedule.endDate),
-            floatTime: taskSchedule.floatTime || 0,
-            lastScheduledAt: new Date()
+            applied: true,
+            appliedAt: new Date()
           }
         });
-        
-        appliedChanges.push({
-          taskId: taskSchedule.taskId,
-          previousStartDate: updated.startDate,
-          previousEndDate: updated.dueDate,
-          newStartDate: taskSchedule.startDate,
-          newEndDate: taskSchedule.endDate
-        });
-        
-        appliedTasks++;
-      }
-
-      // Mark the schedule as applied
-      await this.prisma.computedSchedule.update({
-        where: { id: request.computedScheduleId },
-        data: {
-          applied: true,
-          appliedAt: new Date()
-        }
       });
+      const appliedTasks = appliedChanges.length;
 
       const executionTime = Date.now() - startTime;
       this.logger.log(`Applied schedule in ${executionTime}ms, updated ${appliedTasks} tasks`);
 
+      this.projectEvents.publish({
+        projectId,
+        type: 'schedule.applied',
+        message: `Schedule applied to ${appliedTasks} task${appliedTasks === 1 ? '' : 's'}`,
+        data: {
+          computedScheduleId: request.computedScheduleId,
+          appliedTasks,
+          computedEndDate: computedSchedule.computedEndDate,
+          tasks: appliedChanges.map(change => ({
+            issueId: change.taskId,
+            startDate: change.newStartDate,
+            dueDate: change.newEndDate,
+            version: change.version
+          }))
+        },
+        userId
+      });
+
       return { 
         success: true, 
         appliedTasks,
@@ -267,7 +431,7 @@ export class SchedulingService {
     try {
       // Get the current schedule state
       const currentSchedule = await this.prisma.computedSchedule.findFirst({
-        where: { projectId, applied: true },
+        where: { projectId, applied: true, scenarioId: null },
         orderBy: { appliedAt: 'desc' }
       });
 
@@ -289,7 +453,8 @@ export class SchedulingService {
             },
             include: {
               predecessors: true,
-              successors: true
+              successors: true,
+              _count: { select: { childIssues: { where: { deletedAt: null } } } }
             }
           }
         }
@@ -324,7 +489,9 @@ export class SchedulingService {
             predecessorId: dep.predecessorId,
             type: (dep.type as 'FS' | 'SS' | 'SF' | 'FF') || 'FS',
             lag: dep.lag
-          }))
+          })),
+          parentId: issue.parentIssueId,
+          isSummary: issue._count.childIssues > 0
         }));
 
       // Apply constraints
@@ -397,6 +564,158 @@ export class SchedulingService {
     }
   }
 
+  /**
+   * CPM dates for the live issues, or for the given source tasks, on the
+   * project calendar
+   */
+  async computeSchedule(
+    projectId: string,
+    override: SchedulingCalendarOverride & { startDate?: Date | string } = {},
+    source?: ScheduleSourceTask[]
+  ): Promise<ScheduleSnapshot> {
+    const { calendar, projectStartDate, forwardPass, forwardResult, tasks, summaries, criticalPath } =
+      await this.buildScheduleModel(projectId, override, source);
+
+    const hoursPerDay = calendar.workingHoursPerDay;
+    const taskSchedules: TaskSchedule[] = [...tasks.values(), ...summaries.values()].map(task => ({
+      taskId: task.id,
+      startDate: forwardPass.getStartTimestamp(projectStartDate, task.earliestStart).toISOString(),
+      endDate: forwardPass.getFinishTimestamp(projectStartDate, task.earliestFinish).toISOString(),
+      duration: this.toWorkingDays(task.duration, hoursPerDay),
+      durationHours: task.duration,
+      // Negative float marks a date constraint the schedule cannot meet
+      floatTime: Math.floor(task.totalFloat / hoursPerDay),
+      floatHours: task.totalFloat,
+      isCritical: task.isCritical,
+      ...(summaries.has(task.id) && { isSummary: true })
+    }));
+
+    return {
+      calendar,
+      projectStartDate,
+      computedEndDate: forwardPass.getFinishTimestamp(projectStartDate, forwardResult.projectEarliestFinish),
+      totalDuration: Math.ceil(forwardResult.projectEarliestFinish / hoursPerDay),
+      taskSchedules,
+      criticalPath,
+      conflicts: this.constraintSolver.detectConstraintViolations(tasks)
+    };
+  }
+
+  /**
+   * Load live issues (or the given source tasks) and run the forward and
+   * backward passes on the project calendar, with any request overrides
+   * applied on top of it
+   */
+  private async buildScheduleModel(
+    projectId: string,
+    override: SchedulingCalendarOverride & { startDate?: Date | string } = {},
+    source?: ScheduleSourceTask[]
+  ): Promise<ScheduleModel> {
+    const calendar = await this.calendarService.getSchedulingCalendar(projectId, override);
+
+    const issues: ScheduleSourceTask[] = source ?? await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: null },
+      include: { predecessors: true }
+    });
+
+    if (issues.length === 0) {
+      throw new BadRequestException('Project has no tasks to schedule');
+    }
+
+    const datedIssues = issues.filter(issue => issue.startDate);
+    const projectStartDate = override.startDate
+      ? new Date(override.startDate)
+      : datedIssues.length > 0
+        ? new Date(Math.min(...datedIssues.map(issue => issue.startDate!.getTime())))
+        : new Date();
+    projectStartDate.setHours(0, 0, 0, 0);
+
+    // The passes work in working hours; day estimates and lags use the calendar's daily hours
+    const hoursPerDay = calendar.workingHoursPerDay;
+    const durationHours = new Map(issues.map(issue => {
+      const estimate = issue.estimateValue || 1;
+      return [issue.id, issue.estimateUnit === 'h' ? estimate : estimate * hoursPerDay];
+    }));
+    const toLagHours = (dep: { predecessorId: string; lag: number; lagUnit: string }) =>
+      resolveLagHours(dep.lag, dep.lagUnit as LagUnit, durationHours.get(dep.predecessorId) || 0, hoursPerDay);
+
+    // Parent issues are summary tasks: only leaves are scheduled, and links on a parent apply to its leaves
+    const issueIds = new Set(issues.map(issue => issue.id));
+    const hierarchy = new TaskHierarchy(issues.map(issue => ({ id: issue.id, parentId: issue.parentIssueId })));
+    const links = hierarchy.expandLinks(
+      issues.flatMap(issue => issue.predecessors.filter(dep => issueIds.has(dep.predecessorId)))
+    );
+    const toLink = (id: string, dep: (typeof links)[number]) =>
+      ({ id, type: (dep.type as DependencyType) || 'FS', lag: toLagHours(dep) });
+
+    const taskNodes: TaskNode[] = issues.filter(issue => !hierarchy.isSummary(issue.id)).map(issue => {
+      return {
+        id: issue.id,
+        title: issue.title,
+        duration: durationHours.get(issue.id)!,
+        startDate: issue.startDate || projectStartDate,
+        endDate: issue.dueDate || projectStartDate,
+        assigneeId: issue.assigneeId,
+        predecessors: links
+          .filter(dep => dep.successorId === issue.id)
+          .map(dep => toLink(dep.predecessorId, dep)),
+        successors: links
+          .filter(dep => dep.predecessorId === issue.id)
+          .map(dep => toLink(dep.successorId, dep)),
+        earliestStart: 0,
+        earliestFinish: 0,
+        isCompleted: issue.status === 'done' && !!issue.dueDate,
+        progress: issue.progress,
+        constraint: issue.constraintType
+          ? { type: issue.constraintType as TaskConstraintType, date: issue.constraintDate ?? undefined }
+          : undefined
+      };
+    });
+
+    const forwardPass = new ForwardPass(calendar.workingDays, calendar.workingHoursPerDay, calendar.holidays);
+    try {
+      const forwardResult = forwardPass.calculate(taskNodes, projectStartDate);
+      const backwardResult = new BackwardPass(calendar.workingDays, calendar.holidays, hoursPerDay)
+        .calculate(forwardResult);
+
+      const summaries = new Map<string, TaskNodeWithSlack>(issues
+        .filter(issue => hierarchy.isSummary(issue.id))
+        .map(issue => [issue.id, {
+          id: issue.id,
+          title: issue.title,
+          duration: 0,
+          startDate: issue.startDate || projectStartDate,
+          endDate: issue.dueDate || projectStartDate,
+          assigneeId: null,
+          predecessors: [],
+          successors: [],
+          earliestStart: 0,
+          earliestFinish: 0,
+          latestStart: 0,
+          latestFinish: 0,
+          totalFloat: 0,
+          freeFloat: 0,
+          isCritical: false,
+          isCompleted: false,
+          progress: issue.progress
+        }]));
+      this.rollUpSummaries(hierarchy, backwardResult.tasks, summaries);
+
+      return {
+        calendar,
+        projectStartDate,
+        forwardPass,
+        forwardResult,
+        tasks: backwardResult.tasks,
+        summaries,
+        hierarchy,
+        criticalPath: backwardResult.criticalPath
+      };
+    } catch (error) {
+      throw new BadRequestException(`Schedule calculation failed: ${error.message}`);
+    }
+  }
+
   private calculateAffectedTasks(changedTaskIds: string[], allTasks: any[]): string[] {
     const affected = new Set(changedTaskIds);
     const visited = new Set<string>();
@@ -428,7 +747,7 @@ export class SchedulingService {
 
   async getScheduleHistory(projectId: string): Promise<any[]> {
     return this.prisma.computedSchedule.findMany({
-      where: { projectId },
+      where: { projectId, scenarioId: null },
       orderBy: { calculatedAt: 'desc' },
       take: 10,
       select: {
@@ -523,6 +842,103 @@ export class SchedulingService {
     }
   }
 
+  /**
+   * Task-by-task differences between two stored schedules. Impact grows with
+   * the size of the shift and whether the task is on either critical path;
+   * the recommended schedule is the one that finishes first.
+   */
+  async compareSchedules(
+    projectId: string,
+    scheduleId1: string,
+    scheduleId2: string
+  ): Promise<ScheduleComparisonResult> {
+    const schedules = await this.prisma.computedSchedule.findMany({
+      where: { projectId, id: { in: [scheduleId1, scheduleId2] } }
+    });
+    const first = schedules.find(schedule => schedule.id === scheduleId1);
+    const second = schedules.find(schedule => schedule.id === scheduleId2);
+    if (!first || !second) {
+      throw new NotFoundException('Schedule not found');
+    }
+
+    const toMap = (value: unknown) =>
+      new Map((value as unknown as TaskSchedule[]).map(task => [task.taskId, task]));
+    const tasks1 = toMap(first.taskSchedules);
+    const tasks2 = toMap(second.taskSchedules);
+    const DAY_MS = 24 * 60 * 60 * 1000;
+
+    const differences: ScheduleComparisonResult['differences'] = [];
+    const impactOf = (shiftDays: number, critical: boolean) => {
+      const large = Math.abs(shiftDays) >= 5;
+      if (critical) return large ? 'CRITICAL' : 'HIGH';
+      return large ? 'MEDIUM' : 'LOW';
+    };
+
+    new Set([...tasks1.keys(), ...tasks2.keys()]).forEach(taskId => {
+      const task1 = tasks1.get(taskId);
+      const task2 = tasks2.get(taskId);
+      if (!task1 || !task2) {
+        differences.push({
+          taskId,
+          field: 'presence',
+          schedule1Value: !!task1,
+          schedule2Value: !!task2,
+          impact: (task1 ?? task2)!.isCritical ? 'HIGH' : 'MEDIUM'
+        });
+        return;
+      }
+
+      const critical = task1.isCritical || task2.isCritical;
+      (['startDate', 'endDate'] as const).forEach(field => {
+        if (task1[field] === task2[field]) return;
+        const shiftDays = (new Date(task2[field]).getTime() - new Date(task1[field]).getTime()) / DAY_MS;
+        differences.push({
+          taskId,
+          field,
+          schedule1Value: task1[field],
+          schedule2Value: task2[field],
+          impact: impactOf(shiftDays, critical)
+        });
+      });
+      if (task1.duration !== task2.duration) {
+        differences.push({
+          taskId,
+          field: 'duration',
+          schedule1Value: task1.duration,
+          schedule2Value: task2.duration,
+          impact: impactOf(task2.duration - task1.duration, critical)
+        });
+      }
+      if (task1.isCritical !== task2.isCritical) {
+        differences.push({
+          taskId,
+          field: 'isCritical',
+          schedule1Value: task1.isCritical,
+          schedule2Value: task2.isCritical,
+          impact: 'HIGH'
+        });
+      }
+    });
+
+    const impactDistribution: Record<string, number> = { LOW: 0, MEDIUM: 0, HIGH: 0, CRITICAL: 0 };
+    differences.forEach(difference => impactDistribution[difference.impact]++);
+
+    const conflictCount = (value: unknown) => (Array.isArray(value) ? value.length : 0);
+    const endDiff = second.computedEndDate.getTime() - first.computedEndDate.getTime();
+    const recommendedSchedule = endDiff < 0 || (endDiff === 0 && conflictCount(second.conflicts) < conflictCount(first.conflicts))
+      ? second.id
+      : first.id;
+
+    return {
+      differences,
+      summary: {
+        totalDifferences: differences.length,
+        impactDistribution,
+        recommendedSchedule
+      }
+    };
+  }
+
   async resolveConflicts(projectId: string, request: any, userId: string): Promise<any> {
     try {
       // Placeholder implementation for conflict resolution
@@ -539,29 +955,335 @@ export class SchedulingService {
 
   async optimizeSchedule(
     projectId: string,
-    optimizationGoals: ('minimize_duration' | 'level_resources' | 'minimize_cost')[]
-  ): Promise<ScheduleResult> {
+    optimizationGoals: OptimizationGoal[],
+    userId?: string
+  ): Promise<OptimizeScheduleResult> {
+    const startTime = Date.now();
     this.logger.log(`Starting schedule optimization for project ${projectId} with goals: ${optimizationGoals.join(', ')}`);
 
-    // This would integrate with advanced optimization algorithms
-    // For now, return a placeholder implementation
-    const baseSchedule = await this.calculateSchedule(projectId, {
-      constraints: {
-        workingDays: [1, 2, 3, 4, 5],
-        workingHoursPerDay: 8,
-        startDate: new Date(),
-        holidays: []
+    const { calendar, projectStartDate, forwardPass, forwardResult, tasks, summaries, hierarchy } =
+      await this.buildScheduleModel(projectId);
+    const { workingDays, workingHoursPerDay, holidays } = calendar;
+
+    const appliedGoals: OptimizationGoal[] = [];
+    let leveling: ResourceLevelingResult = {
+      shifts: [],
+      originalFinish: forwardResult.projectEarliestFinish,
+      leveledFinish: forwardResult.projectEarliestFinish,
+      unresolvedTaskIds: [],
+      pinnedConflicts: []
+    };
+
+    // The unconstrained CPM dates are already the shortest schedule
+    if (optimizationGoals.includes('minimize_duration')) {
+      appliedGoals.push('minimize_duration');
+    }
+
+    if (optimizationGoals.includes('level_resources')) {
+      const assigneeIds = Array.from(tasks.values())
+        .map(task => task.assigneeId)
+        .filter((id): id is string => !!id);
+      const resourceCalendars = await this.resourceCalendarService.getAvailability(projectId, assigneeIds, calendar);
+
+      leveling = new ConstraintSolver({
+        workingDays,
+        workingHoursPerDay,
+        startDate: projectStartDate,
+        holidays,
+        resourceCalendars
+      }).applyResourceConstraints(tasks);
+      this.rollUpSummaries(hierarchy, tasks, summaries);
+      appliedGoals.push('level_resources');
+    }
+
+    const toStart = (offset: number) => forwardPass.getStartTimestamp(projectStartDate, offset);
+    const toFinish = (offset: number) => forwardPass.getFinishTimestamp(projectStartDate, offset);
+    const toDays = (hours: number) => this.toWorkingDays(hours, workingHoursPerDay);
+    const shiftByTask = new Map(leveling.shifts.map(shift => [shift.taskId, shift]));
+
+    const taskSchedules: TaskSchedule[] = [...tasks.values(), ...summaries.values()].map(task => {
+      const shift = shiftByTask.get(task.id);
+      return {
+        taskId: task.id,
+        startDate: toStart(task.earliestStart).toISOString(),
+        endDate: toFinish(task.earliestFinish).toISOString(),
+        duration: toDays(task.duration),
+        durationHours: task.duration,
+        floatTime: Math.floor(task.totalFloat / workingHoursPerDay),
+        floatHours: task.totalFloat,
+        isCritical: task.isCritical,
+        ...(summaries.has(task.id) && { isSummary: true }),
+        levelingDelay: shift ? toDays(shift.shiftHours) : 0,
+        delayWithinFloat: shift ? shift.withinFloat : true
+      };
+    });
+
+    const criticalPath = Array.from(tasks.values())
+      .filter(task => task.isCritical)
+      .sort((a, b) => a.earliestStart - b.earliestStart)
+      .map(task => task.id);
+
+    const conflicts: ConflictInfo[] = this.constraintSolver.detectConstraintViolations(tasks);
+    if (leveling.unresolvedTaskIds.length > 0) {
+      conflicts.push({
+        id: 'resource_capacity',
+        type: ConflictType.RESOURCE_CONFLICT,
+        severity: ConflictSeverity.ERROR,
+        description: 'Tasks need more capacity than their assignee has on any single day',
+        affectedTasks: leveling.unresolvedTaskIds,
+        suggestedActions: ['Increase resource capacity', 'Reassign the tasks']
+      });
+    }
+    // Fixed-date tasks are left in place; say why each one could not be leveled
+    const pinnedMessages = {
+      overallocated: 'Tasks with fixed dates overload their assignee and were not moved by leveling',
+      predecessor: 'Leveling delayed predecessors of tasks with fixed dates, which now start too early'
+    };
+    (Object.keys(pinnedMessages) as Array<keyof typeof pinnedMessages>).forEach(reason => {
+      const taskIds = leveling.pinnedConflicts.filter(conflict => conflict.reason === reason).map(conflict => conflict.taskId);
+      if (taskIds.length === 0) return;
+      conflicts.push({
+        id: `resource_pinned_${reason}`,
+        type: ConflictType.RESOURCE_CONFLICT,
+        severity: ConflictSeverity.WARNING,
+        description: pinnedMessages[reason],
+        affectedTasks: taskIds,
+        suggestedActions: [
+          'Move the constraint date',
+          'Reassign the task or the work it overlaps',
+          'Remove the Must-Start-On, Must-Finish-On or As-Late-As-Possible constraint'
+        ]
+      });
+    });
+
+    const originalEndDate = toFinish(leveling.originalFinish);
+    const computedEndDate = toFinish(leveling.leveledFinish);
+
+    const computedSchedule = await this.prisma.computedSchedule.create({
+      data: {
+        projectId,
+        calculatedBy: userId || 'system',
+        algorithm: appliedGoals.includes('level_resources') ? 'resource_leveling' : 'cpm',
+        originalEndDate,
+        computedEndDate,
+        totalDuration: Math.ceil(leveling.leveledFinish / workingHoursPerDay),
+        constraints: {
+          workingDays,
+          workingHoursPerDay,
+          startDate: projectStartDate,
+          holidays,
+          optimizationGoals
+        } as any,
+        taskSchedules: taskSchedules as any,
+        criticalPath,
+        conflicts: conflicts as any
+      }
+    });
+
+    const executionTime = Date.now() - startTime;
+    this.logger.log(`Schedule optimization completed in ${executionTime}ms, shifted ${leveling.shifts.length} tasks`);
+
+    return {
+      computedSchedule: {
+        id: computedSchedule.id,
+        projectId: computedSchedule.projectId,
+        algorithm: computedSchedule.algorithm,
+        calculatedAt: computedSchedule.calculatedAt,
+        computedEndDate: computedSchedule.computedEndDate,
+        totalDuration: computedSchedule.totalDuration,
+        taskSchedules,
+        criticalPath,
+        applied: computedSchedule.applied
+      },
+      conflicts,
+      optimizationApplied: appliedGoals,
+      leveling: {
+        shifts: leveling.shifts.map(shift => ({
+          taskId: shift.taskId,
+          resourceId: shift.resourceId,
+          originalStartDate: toStart(shift.originalStart).toISOString(),
+          leveledStartDate: toStart(shift.leveledStart).toISOString(),
+          shiftDays: toDays(shift.shiftHours),
+          leveledEndDate: toFinish(shift.leveledFinish).toISOString(),
+          finishShiftDays: toDays(shift.finishShiftHours),
+          withinFloat: shift.withinFloat
+        })),
+        delayedWithinFloat: leveling.shifts.filter(shift => shift.withinFloat).length,
+        delayedBeyondFloat: leveling.shifts.filter(shift => !shift.withinFloat).length,
+        originalEndDate: originalEndDate.toISOString(),
+        leveledEndDate: computedEndDate.toISOString(),
+        endDateChangeDays: toDays(leveling.leveledFinish - leveling.originalFinish)
       },
-      options: {
-        algorithm: 'CPM' as any,
-        autoResolveConflicts: true,
-        preserveManualSchedule: false
+      metrics: {
+        executionTime,
+        totalTasks: taskSchedules.length,
+        criticalPathLength: criticalPath.length
       }
+    };
+  }
+
+  async simulateSchedule(
+    projectId: string,
+    request: ScheduleSimulationRequest
+  ): Promise<ScheduleSimulationResult> {
+    const startTime = Date.now();
+    const iterations = request.iterations ?? 1000;
+    const distribution = request.distribution ?? 'pert';
+    const seed = request.seed ?? Math.floor(Math.random() * 2 ** 31);
+    this.logger.log(`Starting ${iterations}-run ${distribution} simulation for project ${projectId}`);
+
+    const { calendar, projectStartDate, forwardPass, tasks } = await this.buildScheduleModel(projectId);
+    const hoursPerDay = calendar.workingHoursPerDay;
+
+    const [issues, milestones] = await Promise.all([
+      this.prisma.issue.findMany({
+        where: { projectId, deletedAt: null },
+        select: {
+          id: true,
+          estimateValue: true,
+          estimateUnit: true,
+          optimisticEstimate: true,
+          pessimisticEstimate: true,
+          milestoneId: true
+        }
+      }),
+      this.prisma.milestone.findMany({
+        where: { projectId, status: { not: 'cancelled' } },
+        orderBy: { dueDate: 'asc' }
+      })
+    ]);
+    const issueById = new Map(issues.map(issue => [issue.id, issue]));
+
+    // Only the unfinished share of each estimate is simulated
+    const simulationTasks: SimulationTask[] = Array.from(tasks.values()).map(task => {
+      const issue = issueById.get(task.id);
+      const remaining = task.isCompleted ? 0 : 1 - task.progress / 100;
+      const toHours = (value: number) =>
+        (issue?.estimateUnit === 'h' ? value : value * hoursPerDay) * remaining;
+      const hasEstimate = issue?.optimisticEstimate != null && issue?.pessimisticEstimate != null;
+
+      return {
+        id: task.id,
+        duration: task.duration * remaining,
+        estimate: hasEstimate
+          ? {
+              optimistic: toHours(issue!.optimisticEstimate!),
+              mostLikely: task.duration * remaining,
+              pessimistic: toHours(issue!.pessimisticEstimate!)
+            }
+          : undefined,
+        dependencies: task.predecessors.map(pred => ({ predecessorId: pred.id, type: pred.type, lag: pred.lag }))
+      };
+    });
+
+    if (iterations * simulationTasks.length > MAX_SIMULATED_TASK_RUNS) {
+      const allowed = Math.floor(MAX_SIMULATED_TASK_RUNS / simulationTasks.length);
+      throw new BadRequestException(
+        `A project with ${simulationTasks.length} tasks can be simulated at most ${allowed} times per request`
+      );
+    }
+
+    const milestoneTasks = new Map(milestones.map(milestone => [
+      milestone.id,
+      issues.filter(issue => issue.milestoneId === milestone.id && tasks.has(issue.id)).map(issue => issue.id)
+    ]));
+
+    const simulation = await new MonteCarloSimulator(seed)
+      .run(simulationTasks, iterations, distribution, milestoneTasks);
+    const finishes = simulation.projectFinishes;
+    const toFinish = (hours: number) => forwardPass.getFinishTimestamp(projectStartDate, hours).toISOString();
+    const toPercent = (count: number) => Math.round(count / iterations * 1000) / 10;
+
+    // Bucket finishes by working day so the histogram reads as calendar dates
+    const dayCounts = new Map<number, number>();
+    finishes.forEach(hours => {
+      const day = Math.max(1, Math.ceil(hours / hoursPerDay - 1e-6));
+      dayCounts.set(day, (dayCounts.get(day) || 0) + 1);
     });
+    let cumulative = 0;
+    const distributionByDay = Array.from(dayCounts.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([day, count]) => {
+        cumulative += count;
+        return { date: toFinish(day * hoursPerDay), count, cumulativeProbability: toPercent(cumulative) };
+      });
+
+    const workingTime = { workingDays: calendar.workingDays, hoursPerDay, holidays: calendar.holidays };
+    const executionTime = Date.now() - startTime;
+    this.logger.log(`Schedule simulation completed in ${executionTime}ms`);
 
     return {
-      ...baseSchedule,
-      optimizationApplied: optimizationGoals
+      iterations,
+      distribution,
+      seed,
+      tasksWithThreePointEstimates: simulationTasks.filter(task => task.estimate).length,
+      deterministicFinishDate: toFinish(simulation.deterministicFinish),
+      deterministicFinishProbability: toPercent(
+        finishes.filter(hours => hours <= simulation.deterministicFinish + 1e-6).length
+      ),
+      finishDates: {
+        p50: toFinish(percentile(finishes, 50)),
+        p80: toFinish(percentile(finishes, 80)),
+        p90: toFinish(percentile(finishes, 90)),
+        earliest: toFinish(finishes[0]),
+        latest: toFinish(finishes[finishes.length - 1])
+      },
+      distributionByDay,
+      criticalityIndex: Array.from(simulation.criticalCounts.entries())
+        .map(([taskId, count]) => ({ taskId, title: tasks.get(taskId)!.title, criticalityIndex: toPercent(count) }))
+        .sort((a, b) => b.criticalityIndex - a.criticalityIndex || a.title.localeCompare(b.title)),
+      milestones: milestones.map(milestone => {
+        const runs = simulation.groupFinishes.get(milestone.id)!;
+        const taskCount = milestoneTasks.get(milestone.id)!.length;
+        const dueHours = dateFinishHours(workingTime, projectStartDate, milestone.dueDate);
+        const sorted = [...runs].sort((a, b) => a - b);
+
+        return {
+          milestoneId: milestone.id,
+          name: milestone.name,
+          dueDate: milestone.dueDate.toISOString(),
+          taskCount,
+          probability: taskCount > 0 ? toPercent(runs.filter(hours => hours <= dueHours + 1e-6).length) : null,
+          p80Date: taskCount > 0 ? toFinish(percentile(sorted, 80)) : null
+        };
+      }),
+      metrics: {
+        executionTime,
+        totalTasks: simulationTasks.length
+      }
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Summary tasks span their children, from the earliest child start to the
+   * latest child finish; a summary is critical when any child is
+   */
+  private rollUpSummaries(
+    hierarchy: TaskHierarchy,
+    tasks: Map<string, TaskNodeWithSlack>,
+    summaries: Map<string, TaskNodeWithSlack>
+  ): void {
+    hierarchy.getSummariesBottomUp().forEach(id => {
+      const summary = summaries.get(id);
+      const children = hierarchy.getChildren(id)
+        .map(childId => tasks.get(childId) ?? summaries.get(childId))
+        .filter((child): child is TaskNodeWithSlack => !!child);
+      if (!summary || children.length === 0) return;
+
+      summary.earliestStart = Math.min(...children.map(child => child.earliestStart));
+      summary.earliestFinish = Math.max(...children.map(child => child.earliestFinish));
+      summary.latestStart = Math.min(...children.map(child => child.latestStart));
+      summary.latestFinish = Math.max(...children.map(child => child.latestFinish));
+      summary.duration = summary.earliestFinish - summary.earliestStart;
+      summary.totalFloat = Math.min(...children.map(child => child.totalFloat));
+      summary.freeFloat = Math.min(...children.map(child => child.freeFloat));
+      summary.isCritical = children.some(child => child.isCritical);
+      summary.isCompleted = children.every(child => child.isCompleted);
+    });
+  }
+
+  // Working hours as days, rounded to two decimals for display
+  private toWorkingDays(hours: number, hoursPerDay: number): number {
+    return Math.round(hours / hoursPerDay * 100) / 100;
+  }
+}
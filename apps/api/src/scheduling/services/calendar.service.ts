@@ -0,0 +1,326 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException
+} from '@nestjs/common';
+import { Calendar, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  CreateCalendarDto,
+  UpdateCalendarDto,
+  ImportHolidaysDto,
+  CalendarResponseDto,
+  ImportHolidaysResponseDto
+} from '../dto/calendar.dto';
+import { parseICalHolidays } from '../../common/utils/ical.utils';
+
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+export const DEFAULT_WORKING_HOURS_PER_DAY = 8;
+
+// Working-time settings handed to ForwardPass, BackwardPass and ConstraintSolver
+export interface SchedulingCalendar {
+  calendarId: string | null;
+  name: string;
+  workingDays: number[];
+  workingHoursPerDay: number;
+  holidays: Date[];
+}
+
+export interface SchedulingCalendarOverride {
+  workingDays?: number[];
+  workingHoursPerDay?: number;
+  holidays?: Array<Date | string>;
+}
+
+@Injectable()
+export class CalendarService {
+  private readonly logger = new Logger(CalendarService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(projectId: string): Promise<CalendarResponseDto[]> {
+    const project = await this.getProjectOrThrow(projectId);
+
+    const calendars = await this.prisma.calendar.findMany({
+      where: { projectId },
+      orderBy: { name: 'asc' }
+    });
+
+    return calendars.map(calendar => this.toResponse(calendar, project.calendarId));
+  }
+
+  async findOne(projectId: string, calendarId: string): Promise<CalendarResponseDto> {
+    const project = await this.getProjectOrThrow(projectId);
+    const calendar = await this.getCalendarOrThrow(projectId, calendarId);
+
+    return this.toResponse(calendar, project.calendarId);
+  }
+
+  async create(projectId: string, dto: CreateCalendarDto, userId: string): Promise<CalendarResponseDto> {
+    const project = await this.getProjectOrThrow(projectId);
+
+    const calendar = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.calendar.create({
+        data: {
+          projectId,
+          name: dto.name,
+          workingDays: this.normalizeWorkingDays(dto.workingDays),
+          holidays: this.normalizeHolidays(dto.holidays || []),
+          dailyHours: dto.dailyHours ?? DEFAULT_WORKING_HOURS_PER_DAY
+        }
+      }).catch(error => this.rethrowDuplicateName(error, dto.name));
+
+      // The first calendar of a project becomes its default
+      if (dto.isDefault || !project.calendarId) {
+        await tx.project.update({
+          where: { id: projectId },
+          data: { calendarId: created.id }
+        });
+      }
+
+      await this.logCalendarActivity(tx, projectId, created.id, 'create', userId, null, created);
+      return created;
+    });
+
+    this.logger.log(`Created calendar ${calendar.id} for project ${projectId}`);
+    const defaultId = dto.isDefault || !project.calendarId ? calendar.id : project.calendarId;
+    return this.toResponse(calendar, defaultId);
+  }
+
+  async update(
+    projectId: string,
+    calendarId: string,
+    dto: UpdateCalendarDto,
+    userId: string
+  ): Promise<CalendarResponseDto> {
+    const project = await this.getProjectOrThrow(projectId);
+    const existing = await this.getCalendarOrThrow(projectId, calendarId);
+
+    const data: Prisma.CalendarUpdateInput = {};
+    if (dto.name !== undefined) data.name = dto.name;
+    if (dto.workingDays !== undefined) data.workingDays = this.normalizeWorkingDays(dto.workingDays);
+    if (dto.holidays !== undefined) data.holidays = this.normalizeHolidays(dto.holidays);
+    if (dto.dailyHours !== undefined) data.dailyHours = dto.dailyHours;
+
+    let defaultId = project.calendarId;
+    const calendar = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.calendar.update({
+        where: { id: calendarId },
+        data
+      }).catch(error => this.rethrowDuplicateName(error, dto.name));
+
+      if (dto.isDefault && project.calendarId !== calendarId) {
+        await tx.project.update({ where: { id: projectId }, data: { calendarId } });
+        defaultId = calendarId;
+      }
+
+      await this.logCalendarActivity(tx, projectId, calendarId, 'update', userId, existing, updated);
+      return updated;
+    });
+
+    return this.toResponse(calendar, defaultId);
+  }
+
+  async remove(projectId: string, calendarId: string, userId: string): Promise<void> {
+    const project = await this.getProjectOrThrow(projectId);
+    const existing = await this.getCalendarOrThrow(projectId, calendarId);
+
+    if (project.calendarId === calendarId) {
+      throw new ConflictException('Calendar is the project default; choose another default calendar first');
+    }
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.calendar.delete({ where: { id: calendarId } });
+      await this.logCalendarActivity(tx, projectId, calendarId, 'delete', userId, existing, null);
+    });
+  }
+
+  async setDefault(projectId: string, calendarId: string, userId: string): Promise<CalendarResponseDto> {
+    const project = await this.getProjectOrThrow(projectId);
+    const calendar = await this.getCalendarOrThrow(projectId, calendarId);
+
+    if (project.calendarId !== calendarId) {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.project.update({ where: { id: projectId }, data: { calendarId } });
+        await this.logCalendarActivity(
+          tx,
+          projectId,
+          calendarId,
+          'update',
+          userId,
+          { defaultCalendarId: project.calendarId },
+          { defaultCalendarId: calendarId }
+        );
+      });
+    }
+
+    return this.toResponse(calendar, calendarId);
+  }
+
+  async importHolidays(
+    projectId: string,
+    calendarId: string,
+    dto: ImportHolidaysDto,
+    userId: string
+  ): Promise<ImportHolidaysResponseDto> {
+    const project = await this.getProjectOrThrow(projectId);
+    const existing = await this.getCalendarOrThrow(projectId, calendarId);
+
+    let parsed: ReturnType<typeof parseICalHolidays>;
+    try {
+      parsed = parseICalHolidays(dto.ics);
+    } catch (error) {
+      throw new BadRequestException(error.message);
+    }
+
+    const current = new Set(dto.replace ? [] : existing.holidays);
+    const importedDates = parsed.holidays.map(holiday => holiday.date);
+    const added = importedDates.filter(date => !current.has(date));
+
+    const calendar = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.calendar.update({
+        where: { id: calendarId },
+        data: { holidays: this.normalizeHolidays([...current, ...importedDates]) }
+      });
+
+      await this.logCalendarActivity(
+        tx,
+        projectId,
+        calendarId,
+        'update',
+        userId,
+        { holidays: existing.holidays },
+        { holidays: updated.holidays },
+        { operation: 'ics_import', importedCount: added.length, replace: !!dto.replace }
+      );
+      return updated;
+    });
+
+    return {
+      calendar: this.toResponse(calendar, project.calendarId),
+      importedCount: added.length,
+      duplicateCount: importedDates.length - added.length,
+      skippedRecurring: parsed.skippedRecurring
+    };
+  }
+
+  /**
+   * Resolve the working-time settings for a project: request overrides first,
+   * then the project's default calendar, then Monday–Friday, 8 hours.
+   */
+  async getSchedulingCalendar(
+    projectId: string,
+    override: SchedulingCalendarOverride = {}
+  ): Promise<SchedulingCalendar> {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      include: { calendar: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    const stored = project.calendar;
+
+    return {
+      calendarId: stored?.id ?? null,
+      name: stored?.name ?? 'Default',
+      workingDays: override.workingDays?.length
+        ? override.workingDays
+        : stored?.workingDays?.length ? stored.workingDays : DEFAULT_WORKING_DAYS,
+      workingHoursPerDay: override.workingHoursPerDay || stored?.dailyHours || DEFAULT_WORKING_HOURS_PER_DAY,
+      holidays: (override.holidays ?? stored?.holidays ?? []).map(holiday => this.toLocalDate(holiday))
+    };
+  }
+
+  private async getProjectOrThrow(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true, calendarId: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    return project;
+  }
+
+  private async getCalendarOrThrow(projectId: string, calendarId: string): Promise<Calendar> {
+    const calendar = await this.prisma.calendar.findFirst({
+      where: { id: calendarId, projectId }
+    });
+
+    if (!calendar) {
+      throw new NotFoundException(`Calendar ${calendarId} not found`);
+    }
+
+    return calendar;
+  }
+
+  private normalizeWorkingDays(workingDays: number[]): number[] {
+    return Array.from(new Set(workingDays)).sort((a, b) => a - b);
+  }
+
+  private normalizeHolidays(holidays: string[]): string[] {
+    return Array.from(new Set(holidays)).sort();
+  }
+
+  // Stored holidays are calendar dates; the scheduling passes compare them in local time
+  private toLocalDate(value: Date | string): Date {
+    if (value instanceof Date) return value;
+
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    return match
+      ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+      : new Date(value);
+  }
+
+  private rethrowDuplicateName(error: unknown, name?: string): never {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictException(`A calendar named "${name}" already exists in this project`);
+    }
+    throw error;
+  }
+
+  private async logCalendarActivity(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    calendarId: string,
+    action: 'create' | 'update' | 'delete',
+    userId: string,
+    before: any,
+    after: any,
+    metadata?: Record<string, any>
+  ): Promise<void> {
+    await tx.activityLog.create({
+      data: {
+        projectId,
+        entityType: 'calendar',
+        entityId: calendarId,
+        action,
+        actor: userId,
+        before: before ? JSON.parse(JSON.stringify(before)) : undefined,
+        after: after ? JSON.parse(JSON.stringify(after)) : undefined,
+        metadata
+      }
+    });
+  }
+
+  private toResponse(calendar: Calendar, defaultCalendarId: string | null): CalendarResponseDto {
+    return {
+      id: calendar.id,
+      projectId: calendar.projectId,
+      name: calendar.name,
+      workingDays: calendar.workingDays,
+      holidays: calendar.holidays,
+      dailyHours: calendar.dailyHours,
+      isDefault: calendar.id === defaultCalendarId,
+      createdAt: calendar.createdAt.toISOString(),
+      updatedAt: calendar.updatedAt.toISOString()
+    };
+  }
+}
@@ -1,6 +1,9 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../prisma/prisma.service';
 import { ConflictInfo, ConflictType, ConflictSeverity } from '../dto/schedule-response.dto';
+import { CalendarService } from './calendar.service';
+import { ResourceCalendarService } from './resource-calendar.service';
+import { ResourceAvailability, getAvailableHours } from '../algorithms/resource-availability';
 
 export enum ConflictPattern {
   UPDATE_CONFLICT = 'UPDATE_CONFLICT',       // Version mismatch during update
@@ -35,9 +38,15 @@ export interface DetectedConflict {
   suggestedResolution: string[];
 }
 
+const MAX_RESOURCE_CHECK_DAYS = 732;
+
 @Injectable()
 export class ConflictDetectionService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private calendarService: CalendarService,
+    private resourceCalendarService: ResourceCalendarService
+  ) {}
 
   /**
    * Enhanced optimistic locking with detailed conflict analysis
@@ -161,6 +170,19 @@ export class ConflictDetectionService {
       where: { projectId }
     });
 
+    const projectCalendar = await this.calendarService.getSchedulingCalendar(projectId);
+    const availability = await this.resourceCalendarService.getAvailability(
+      projectId,
+      taskSchedules.map(s => s.assigneeId).filter((id): id is string => !!id),
+      projectCalendar
+    );
+    const taskHours = new Map(currentIssues.map(issue => [
+      issue.id,
+      issue.estimateValue > 0
+        ? issue.estimateUnit === 'h' ? issue.estimateValue : issue.estimateValue * projectCalendar.workingHoursPerDay
+        : null
+    ]));
+
     // Check for each task schedule
     for (const schedule of taskSchedules) {
       const currentIssue = currentIssues.find(i => i.id === schedule.taskId);
@@ -195,7 +217,9 @@ export class ConflictDetectionService {
         const resourceConflicts = await this.checkResourceConflicts(
           schedule,
           taskSchedules.filter(s => s.assigneeId === schedule.assigneeId),
-          projectId
+          projectId,
+          availability.get(schedule.assigneeId)!,
+          taskHours
         );
         conflicts.push(...resourceConflicts);
       }
@@ -433,11 +457,12 @@ export class ConflictDetectionService {
   private async checkResourceConflicts(
     schedule: any,
     assigneeSchedules: any[],
-    projectId: string
+    projectId: string,
+    availability: ResourceAvailability,
+    taskHours: Map<string, number | null>
   ): Promise<DetectedConflict[]> {
     const conflicts: DetectedConflict[] = [];
 
-    // Check for overlapping assignments
     const overlapping = assigneeSchedules.filter(s => 
       s.taskId !== schedule.taskId &&
       this.datesOverlap(
@@ -446,13 +471,55 @@ export class ConflictDetectionService {
       )
     );
 
-    if (overlapping.length > 0) {
+    const taskDays = this.calendarDays(new Date(schedule.startDate), new Date(schedule.endDate));
+    if (taskDays.length > 0 && taskDays.every(day => getAvailableHours(availability, day) === 0)) {
+      conflicts.push(this.createConflict(
+        ConflictPattern.RESOURCE_CONFLICT,
+        ConflictSeverity.WARNING,
+        schedule.taskId,
+        projectId,
+        'Assignee has no working time between the task start and end dates',
+        1,
+        1,
+        schedule,
+        null,
+        ['assigneeId', 'startDate', 'endDate'],
+        ['Move the task outside the assignee\'s days off', 'Assign another resource']
+      ));
+      return conflicts;
+    }
+
+    if (overlapping.length === 0) {
+      return conflicts;
+    }
+
+    // Spread each task's hours over the days its assignee works, then compare daily demand to availability
+    const dailyDemand = (s: any, day: Date): number => {
+      const available = getAvailableHours(availability, day);
+      if (available === 0 || day < this.startOfDay(new Date(s.startDate)) || day > new Date(s.endDate)) {
+        return 0;
+      }
+
+      const hours = taskHours.get(s.taskId);
+      if (hours == null) return available;
+
+      const workingDays = this.calendarDays(new Date(s.startDate), new Date(s.endDate))
+        .filter(d => getAvailableHours(availability, d) > 0).length;
+      return hours / Math.max(workingDays, 1);
+    };
+
+    const overloadedDays = taskDays.filter(day => {
+      const demand = [schedule, ...overlapping].reduce((sum, s) => sum + dailyDemand(s, day), 0);
+      return demand > getAvailableHours(availability, day) + 0.01;
+    });
+
+    if (overloadedDays.length > 0) {
       conflicts.push(this.createConflict(
         ConflictPattern.RESOURCE_CONFLICT,
         ConflictSeverity.WARNING,
         schedule.taskId,
         projectId,
-        `Resource overallocation: ${overlapping.length} overlapping tasks`,
+        `Resource overallocation on ${overloadedDays.length} day(s) with ${overlapping.length} overlapping tasks`,
         1,
         1,
         schedule,
@@ -465,6 +532,24 @@ export class ConflictDetectionService {
     return conflicts;
   }
 
+  private calendarDays(startDate: Date, endDate: Date): Date[] {
+    const days: Date[] = [];
+    const current = this.startOfDay(startDate);
+
+    while (current <= endDate && days.length < MAX_RESOURCE_CHECK_DAYS) {
+      days.push(new Date(current));
+      current.setDate(current.getDate() + 1);
+    }
+
+    return days;
+  }
+
+  private startOfDay(date: Date): Date {
+    const result = new Date(date);
+    result.setHours(0, 0, 0, 0);
+    return result;
+  }
+
   private checkBusinessRuleConflicts(
     issue: any,
     schedule: any,
@@ -0,0 +1,106 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { ResourceCalendar } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { CalendarService, SchedulingCalendar } from './calendar.service';
+import { UpsertResourceCalendarDto, ResourceCalendarResponseDto } from '../dto/resource-calendar.dto';
+import { ResourceAvailability, projectWeeklyHours } from '../algorithms/resource-availability';
+
+@Injectable()
+export class ResourceCalendarService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly calendarService: CalendarService
+  ) {}
+
+  async findOne(userId: string): Promise<ResourceCalendarResponseDto> {
+    await this.getUserOrThrow(userId);
+
+    const calendar = await this.prisma.resourceCalendar.findUnique({ where: { userId } });
+    return this.toResponse(userId, calendar);
+  }
+
+  async upsert(userId: string, dto: UpsertResourceCalendarDto): Promise<ResourceCalendarResponseDto> {
+    await this.getUserOrThrow(userId);
+
+    if (dto.weeklyHours && dto.weeklyHours.length !== 0 && dto.weeklyHours.length !== 7) {
+      throw new BadRequestException('weeklyHours must list all seven weekdays, Sunday first, or be empty');
+    }
+
+    const data = {
+      ...(dto.weeklyHours !== undefined && { weeklyHours: dto.weeklyHours }),
+      ...(dto.daysOff !== undefined && { daysOff: Array.from(new Set(dto.daysOff)).sort() }),
+      ...(dto.capacityPercent !== undefined && { capacityPercent: dto.capacityPercent })
+    };
+
+    const calendar = await this.prisma.resourceCalendar.upsert({
+      where: { userId },
+      create: { userId, weeklyHours: [], daysOff: [], ...data },
+      update: data
+    });
+
+    return this.toResponse(userId, calendar);
+  }
+
+  async remove(userId: string): Promise<void> {
+    await this.getUserOrThrow(userId);
+    await this.prisma.resourceCalendar.deleteMany({ where: { userId } });
+  }
+
+  /**
+   * Working time of each assignee on a project. Users without a personal
+   * calendar work the project calendar full time; project holidays apply to
+   * everyone.
+   */
+  async getAvailability(
+    projectId: string,
+    userIds: string[],
+    projectCalendar?: SchedulingCalendar
+  ): Promise<Map<string, ResourceAvailability>> {
+    const calendar = projectCalendar || await this.calendarService.getSchedulingCalendar(projectId);
+    const defaultWeeklyHours = projectWeeklyHours(calendar.workingDays, calendar.workingHoursPerDay);
+    const uniqueIds = Array.from(new Set(userIds.filter(Boolean)));
+
+    const stored = uniqueIds.length > 0
+      ? await this.prisma.resourceCalendar.findMany({ where: { userId: { in: uniqueIds } } })
+      : [];
+    const storedByUser = new Map(stored.map(entry => [entry.userId, entry]));
+
+    const availability = new Map<string, ResourceAvailability>();
+    for (const userId of uniqueIds) {
+      const personal = storedByUser.get(userId);
+      availability.set(userId, {
+        weeklyHours: personal?.weeklyHours.length === 7 ? personal.weeklyHours : defaultWeeklyHours,
+        daysOff: [
+          ...calendar.holidays,
+          ...(personal?.daysOff || []).map(day => this.toLocalDate(day))
+        ],
+        capacity: (personal?.capacityPercent ?? 100) / 100
+      });
+    }
+
+    return availability;
+  }
+
+  private async getUserOrThrow(userId: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) {
+      throw new NotFoundException(`User ${userId} not found`);
+    }
+  }
+
+  private toLocalDate(value: string): Date {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+
+  private toResponse(userId: string, calendar: ResourceCalendar | null): ResourceCalendarResponseDto {
+    return {
+      userId,
+      weeklyHours: calendar?.weeklyHours ?? [],
+      daysOff: calendar?.daysOff ?? [],
+      capacityPercent: calendar?.capacityPercent ?? 100,
+      personal: !!calendar,
+      updatedAt: calendar ? calendar.updatedAt.toISOString() : null
+    };
+  }
+}
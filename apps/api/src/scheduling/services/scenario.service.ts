@@ -0,0 +1,753 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  ConflictException,
+  BadRequestException
+} from '@nestjs/common';
+import { Prisma, Issue, ScheduleScenario, ScenarioTask, ScenarioDependency } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { SchedulingService, ScheduleSnapshot, ScheduleSourceTask } from '../scheduling.service';
+import { ProjectEventsService } from '../../events/project-events.service';
+import {
+  CreateScenarioDto,
+  UpdateScenarioTaskDto,
+  CreateScenarioDependencyDto,
+  PromoteScenarioDto,
+  ScenarioResponseDto,
+  ScenarioDetailResponseDto,
+  ScenarioTaskResponseDto,
+  ScenarioDependencyResponseDto,
+  ScenarioScheduleResponseDto,
+  ScenarioDiffResponseDto,
+  ScenarioTaskDeltaDto,
+  PromoteScenarioResponseDto
+} from '../dto/scenario.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type ScenarioWithCounts = ScheduleScenario & { _count: { tasks: number; dependencies: number } };
+
+// Issue fields a promotion can overwrite
+type PromotedFields = Pick<
+  Issue,
+  'estimateValue' | 'estimateUnit' | 'assigneeId' | 'constraintType' | 'constraintDate' | 'startDate' | 'dueDate'
+>;
+
+/**
+ * What-if copies of the live plan. A scenario holds its own tasks and
+ * dependencies, is scheduled with the same CPM passes as the live project,
+ * and only reaches the real issues when it is promoted.
+ */
+@Injectable()
+export class ScenarioService {
+  private readonly logger = new Logger(ScenarioService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schedulingService: SchedulingService,
+    private readonly projectEvents: ProjectEventsService
+  ) {}
+
+  async findAll(projectId: string): Promise<ScenarioResponseDto[]> {
+    await this.getProjectOrThrow(projectId);
+
+    const scenarios = await this.prisma.scheduleScenario.findMany({
+      where: { projectId },
+      include: { _count: { select: { tasks: true, dependencies: true } } },
+      orderBy: { createdAt: 'desc' }
+    });
+    const modifiedCounts = await this.prisma.scenarioTask.groupBy({
+      by: ['scenarioId'],
+      where: { scenarioId: { in: scenarios.map(scenario => scenario.id) }, modified: true },
+      _count: { _all: true }
+    });
+    const modifiedBy = new Map(modifiedCounts.map(row => [row.scenarioId, row._count._all]));
+
+    return scenarios.map(scenario => this.toResponse(scenario, modifiedBy.get(scenario.id) || 0));
+  }
+
+  async findOne(projectId: string, scenarioId: string): Promise<ScenarioDetailResponseDto> {
+    const scenario = await this.getScenarioOrThrow(projectId, scenarioId);
+    const [tasks, dependencies, latestSchedule] = await Promise.all([
+      this.prisma.scenarioTask.findMany({ where: { scenarioId }, orderBy: { title: 'asc' } }),
+      this.prisma.scenarioDependency.findMany({ where: { scenarioId } }),
+      this.prisma.computedSchedule.findFirst({
+        where: { scenarioId },
+        orderBy: { calculatedAt: 'desc' },
+        select: { id: true }
+      })
+    ]);
+
+    return {
+      ...this.toResponse(scenario, tasks.filter(task => task.modified).length),
+      tasks: tasks.map(task => this.toTaskResponse(task)),
+      dependencies: dependencies.map(dependency => this.toDependencyResponse(dependency)),
+      latestScheduleId: latestSchedule?.id ?? null
+    };
+  }
+
+  /**
+   * Copy the live issues and their dependencies into a new scenario
+   */
+  async create(projectId: string, dto: CreateScenarioDto, userId: string): Promise<ScenarioDetailResponseDto> {
+    await this.getProjectOrThrow(projectId);
+
+    const issues = await this.prisma.issue.findMany({
+      where: { projectId, deletedAt: null },
+      include: { predecessors: true }
+    });
+    const issueIds = new Set(issues.map(issue => issue.id));
+
+    const scenario = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.scheduleScenario.create({
+        data: {
+          projectId,
+          name: dto.name,
+          description: dto.description ?? '',
+          createdBy: userId || 'system'
+        }
+      });
+
+      await tx.scenarioTask.createMany({
+        data: issues.map(issue => ({
+          scenarioId: created.id,
+          issueId: issue.id,
+          title: issue.title,
+          parentIssueId: issue.parentIssueId,
+          status: issue.status,
+          estimateValue: issue.estimateValue,
+          estimateUnit: issue.estimateUnit,
+          assigneeId: issue.assigneeId,
+          startDate: issue.startDate,
+          dueDate: issue.dueDate,
+          constraintType: issue.constraintType,
+          constraintDate: issue.constraintDate,
+          progress: issue.progress,
+          sourceVersion: issue.version
+        }))
+      });
+
+      await tx.scenarioDependency.createMany({
+        data: issues.flatMap(issue => issue.predecessors
+          .filter(dep => issueIds.has(dep.predecessorId))
+          .map(dep => ({
+            scenarioId: created.id,
+            predecessorId: dep.predecessorId,
+            successorId: dep.successorId,
+            type: dep.type,
+            lag: dep.lag,
+            lagUnit: dep.lagUnit
+          })))
+      });
+
+      await this.logScenarioActivity(tx, projectId, created.id, 'create', userId, null, created, {
+        taskCount: issues.length
+      });
+      return created;
+    }).catch(error => this.rethrowDuplicateName(error, dto.name));
+
+    this.logger.log(`Forked scenario ${scenario.id} with ${issues.length} tasks for project ${projectId}`);
+    return this.findOne(projectId, scenario.id);
+  }
+
+  async remove(projectId: string, scenarioId: string, userId: string): Promise<void> {
+    const scenario = await this.getScenarioOrThrow(projectId, scenarioId);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.scheduleScenario.delete({ where: { id: scenarioId } });
+      await this.logScenarioActivity(tx, projectId, scenarioId, 'delete', userId, scenario, null);
+    });
+  }
+
+  /**
+   * Edit one task inside the scenario. A new start date pins the task with
+   * SNET (a lone due date with FNLT) so the scheduler honours it, unless the
+   * request sets the constraint itself.
+   */
+  async updateTask(
+    projectId: string,
+    scenarioId: string,
+    issueId: string,
+    dto: UpdateScenarioTaskDto
+  ): Promise<ScenarioTaskResponseDto> {
+    const scenario = await this.getScenarioOrThrow(projectId, scenarioId);
+    this.assertDraft(scenario);
+
+    const task = await this.prisma.scenarioTask.findUnique({
+      where: { scenarioId_issueId: { scenarioId, issueId } }
+    });
+    if (!task) {
+      throw new NotFoundException(`Issue ${issueId} is not part of this scenario`);
+    }
+
+    const movesTask = dto.startDate !== undefined || dto.dueDate !== undefined ||
+      dto.estimateValue !== undefined || dto.estimateUnit !== undefined;
+    if (movesTask) {
+      const childCount = await this.prisma.scenarioTask.count({ where: { scenarioId, parentIssueId: issueId } });
+      if (childCount > 0) {
+        throw new BadRequestException('Cannot move parent tasks on their own; their dates are rolled up from child issues');
+      }
+    }
+
+    if (dto.assigneeId) {
+      const assignee = await this.prisma.user.findUnique({ where: { id: dto.assigneeId }, select: { id: true } });
+      if (!assignee) {
+        throw new NotFoundException(`User not found: ${dto.assigneeId}`);
+      }
+    }
+
+    const data: Prisma.ScenarioTaskUpdateInput = { modified: true };
+    if (dto.startDate !== undefined) data.startDate = new Date(dto.startDate);
+    if (dto.dueDate !== undefined) data.dueDate = new Date(dto.dueDate);
+    if (dto.estimateValue !== undefined) data.estimateValue = dto.estimateValue;
+    if (dto.estimateUnit !== undefined) data.estimateUnit = dto.estimateUnit;
+    if (dto.assigneeId !== undefined) data.assigneeId = dto.assigneeId;
+
+    if (dto.constraintType !== undefined) {
+      Object.assign(data, this.resolveDateConstraint(dto.constraintType, dto.constraintDate));
+    } else if (dto.startDate !== undefined) {
+      Object.assign(data, { constraintType: 'SNET', constraintDate: new Date(dto.startDate) });
+    } else if (dto.dueDate !== undefined) {
+      Object.assign(data, { constraintType: 'FNLT', constraintDate: new Date(dto.dueDate) });
+    } else if (dto.constraintDate !== undefined) {
+      Object.assign(data, this.resolveDateConstraint(task.constraintType, dto.constraintDate));
+    }
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      const result = await tx.scenarioTask.update({ where: { id: task.id }, data });
+      await tx.scheduleScenario.update({ where: { id: scenarioId }, data: { updatedAt: new Date() } });
+      return result;
+    });
+
+    return this.toTaskResponse(updated);
+  }
+
+  async addDependency(
+    projectId: string,
+    scenarioId: string,
+    dto: CreateScenarioDependencyDto
+  ): Promise<ScenarioDependencyResponseDto> {
+    const scenario = await this.getScenarioOrThrow(projectId, scenarioId);
+    this.assertDraft(scenario);
+
+    const { predecessorId, successorId, type = 'FS', lag = 0, lagUnit = 'hours' } = dto;
+    if (predecessorId === successorId) {
+      throw new BadRequestException('An issue cannot depend on itself');
+    }
+
+    const tasks = await this.prisma.scenarioTask.findMany({
+      where: { scenarioId, issueId: { in: [predecessorId, successorId] } },
+      select: { issueId: true }
+    });
+    [predecessorId, successorId].forEach(id => {
+      if (!tasks.some(task => task.issueId === id)) {
+        throw new NotFoundException(`Issue ${id} is not part of this scenario`);
+      }
+    });
+
+    const dependencies = await this.prisma.scenarioDependency.findMany({ where: { scenarioId } });
+    if (dependencies.some(dep =>
+      dep.predecessorId === predecessorId && dep.successorId === successorId && dep.type === type
+    )) {
+      throw new ConflictException('Dependency relationship already exists');
+    }
+    if (this.reaches(dependencies, successorId, predecessorId)) {
+      throw new BadRequestException('Cannot create circular dependency relationship');
+    }
+
+    const dependency = await this.prisma.scenarioDependency.create({
+      data: { scenarioId, predecessorId, successorId, type, lag, lagUnit }
+    });
+
+    return this.toDependencyResponse(dependency);
+  }
+
+  async removeDependency(projectId: string, scenarioId: string, dependencyId: string): Promise<void> {
+    const scenario = await this.getScenarioOrThrow(projectId, scenarioId);
+    this.assertDraft(scenario);
+
+    const { count } = await this.prisma.scenarioDependency.deleteMany({
+      where: { id: dependencyId, scenarioId }
+    });
+    if (count === 0) {
+      throw new NotFoundException('Dependency not found');
+    }
+  }
+
+  /**
+   * Run the scheduler on the scenario and keep the result as a computed
+   * schedule of the scenario, so it can be compared with other schedules
+   */
+  async schedule(projectId: string, scenarioId: string, userId: string): Promise<ScenarioScheduleResponseDto> {
+    await this.getScenarioOrThrow(projectId, scenarioId);
+
+    const snapshot = await this.computeScenario(projectId, scenarioId);
+    const { calendar } = snapshot;
+
+    const computedSchedule = await this.prisma.computedSchedule.create({
+      data: {
+        projectId,
+        scenarioId,
+        calculatedBy: userId || 'system',
+        algorithm: 'cpm',
+        originalEndDate: new Date(),
+        computedEndDate: snapshot.computedEndDate,
+        totalDuration: snapshot.totalDuration,
+        constraints: {
+          calendarId: calendar.calendarId,
+          workingDays: calendar.workingDays,
+          workingHoursPerDay: calendar.workingHoursPerDay,
+          startDate: snapshot.projectStartDate.toISOString(),
+          holidays: calendar.holidays.map(holiday => holiday.toISOString())
+        },
+        taskSchedules: snapshot.taskSchedules as unknown as Prisma.InputJsonValue,
+        criticalPath: snapshot.criticalPath,
+        conflicts: snapshot.conflicts as unknown as Prisma.InputJsonValue
+      }
+    });
+
+    return {
+      scheduleId: computedSchedule.id,
+      scenarioId,
+      computedEndDate: snapshot.computedEndDate.toISOString(),
+      totalDuration: snapshot.totalDuration,
+      taskSchedules: snapshot.taskSchedules,
+      criticalPath: snapshot.criticalPath,
+      conflicts: snapshot.conflicts
+    };
+  }
+
+  /**
+   * Schedule the live plan and the scenario side by side and report what the
+   * scenario changes: finish date, critical path and per-task deltas
+   */
+  async diff(projectId: string, scenarioId: string): Promise<ScenarioDiffResponseDto> {
+    await this.getScenarioOrThrow(projectId, scenarioId);
+
+    const [live, scenario, tasks, issues] = await Promise.all([
+      this.schedulingService.computeSchedule(projectId),
+      this.computeScenario(projectId, scenarioId),
+      this.prisma.scenarioTask.findMany({ where: { scenarioId } }),
+      this.prisma.issue.findMany({
+        where: { projectId, deletedAt: null },
+        select: { id: true, title: true, assigneeId: true }
+      })
+    ]);
+
+    const liveById = new Map(live.taskSchedules.map(task => [task.taskId, task]));
+    const scenarioById = new Map(scenario.taskSchedules.map(task => [task.taskId, task]));
+    const issueById = new Map(issues.map(issue => [issue.id, issue]));
+    const taskById = new Map(tasks.map(task => [task.issueId, task]));
+    const shiftDays = (from?: string, to?: string) =>
+      from && to ? Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY_MS * 100) / 100 : 0;
+
+    const deltas: ScenarioTaskDeltaDto[] = [];
+    new Set([...liveById.keys(), ...scenarioById.keys()]).forEach(id => {
+      const liveTask = liveById.get(id);
+      const scenarioTask = scenarioById.get(id);
+      const delta: ScenarioTaskDeltaDto = {
+        issueId: id,
+        title: taskById.get(id)?.title ?? issueById.get(id)?.title ?? '',
+        liveStartDate: liveTask?.startDate ?? null,
+        scenarioStartDate: scenarioTask?.startDate ?? null,
+        startShiftDays: shiftDays(liveTask?.startDate, scenarioTask?.startDate),
+        liveEndDate: liveTask?.endDate ?? null,
+        scenarioEndDate: scenarioTask?.endDate ?? null,
+        finishShiftDays: shiftDays(liveTask?.endDate, scenarioTask?.endDate),
+        durationChangeDays: Math.round(((scenarioTask?.duration ?? 0) - (liveTask?.duration ?? 0)) * 100) / 100,
+        liveAssigneeId: issueById.get(id)?.assigneeId ?? null,
+        scenarioAssigneeId: taskById.get(id)?.assigneeId ?? null,
+        liveCritical: !!liveTask?.isCritical,
+        scenarioCritical: !!scenarioTask?.isCritical
+      };
+
+      const changed = !liveTask || !scenarioTask ||
+        delta.startShiftDays !== 0 ||
+        delta.finishShiftDays !== 0 ||
+        delta.durationChangeDays !== 0 ||
+        delta.liveAssigneeId !== delta.scenarioAssigneeId ||
+        delta.liveCritical !== delta.scenarioCritical;
+      if (changed) deltas.push(delta);
+    });
+
+    const liveCritical = new Set(live.criticalPath);
+    const scenarioCritical = new Set(scenario.criticalPath);
+
+    return {
+      scenarioId,
+      liveFinishDate: live.computedEndDate.toISOString(),
+      scenarioFinishDate: scenario.computedEndDate.toISOString(),
+      finishShiftDays: shiftDays(live.computedEndDate.toISOString(), scenario.computedEndDate.toISOString()),
+      liveCriticalPath: live.criticalPath,
+      scenarioCriticalPath: scenario.criticalPath,
+      criticalPathAdded: scenario.criticalPath.filter(id => !liveCritical.has(id)),
+      criticalPathRemoved: live.criticalPath.filter(id => !scenarioCritical.has(id)),
+      tasks: deltas.sort((a, b) => Math.abs(b.finishShiftDays) - Math.abs(a.finishShiftDays))
+    };
+  }
+
+  /**
+   * Write the scenario into the live project: edited fields, the dependency
+   * set between the scenario's issues, and the scenario's scheduled dates.
+   * Issues edited after the fork block promotion unless it is forced.
+   */
+  async promote(
+    projectId: string,
+    scenarioId: string,
+    dto: PromoteScenarioDto,
+    userId: string
+  ): Promise<PromoteScenarioResponseDto> {
+    const scenario = await this.getScenarioOrThrow(projectId, scenarioId);
+    this.assertDraft(scenario);
+
+    const [tasks, dependencies, issues] = await Promise.all([
+      this.prisma.scenarioTask.findMany({ where: { scenarioId } }),
+      this.prisma.scenarioDependency.findMany({ where: { scenarioId } }),
+      this.prisma.issue.findMany({ where: { projectId, deletedAt: null } })
+    ]);
+    const issueById = new Map(issues.map(issue => [issue.id, issue]));
+
+    const removedIssues = tasks.filter(task => !issueById.has(task.issueId));
+    if (removedIssues.length > 0) {
+      throw new ConflictException(
+        `Issues were deleted after the scenario was forked: ${removedIssues.map(task => task.title).join(', ')}`
+      );
+    }
+
+    const staleTasks = tasks.filter(task => issueById.get(task.issueId)!.version !== task.sourceVersion);
+    if (staleTasks.length > 0 && !dto.force) {
+      throw new ConflictException(
+        `Issues were edited after the scenario was forked: ${staleTasks.map(task => task.title).join(', ')}. ` +
+        'Fork a new scenario or promote with force to overwrite them'
+      );
+    }
+
+    const snapshot = await this.computeScenario(projectId, scenarioId, tasks, dependencies);
+    const scheduleById = new Map(snapshot.taskSchedules.map(task => [task.taskId, task]));
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      let updatedIssues = 0;
+      for (const task of tasks) {
+        const issue = issueById.get(task.issueId)!;
+        const scheduled = scheduleById.get(task.issueId);
+        const data: Partial<PromotedFields> = {
+          ...(task.modified && {
+            estimateValue: task.estimateValue,
+            estimateUnit: task.estimateUnit,
+            assigneeId: task.assigneeId,
+            constraintType: task.constraintType,
+            constraintDate: task.constraintDate
+          }),
+          ...(scheduled && {
+            startDate: new Date(scheduled.startDate),
+            dueDate: new Date(scheduled.endDate)
+          })
+        };
+
+        const changedFields = (Object.keys(data) as Array<keyof PromotedFields>).filter(field => {
+          const before = issue[field];
+          const after = data[field];
+          return before instanceof Date && after instanceof Date
+            ? before.getTime() !== after.getTime()
+            : before !== after;
+        });
+        if (changedFields.length === 0) continue;
+
+        // Guarded by the version checked above, so an edit made since then is not silently overwritten
+        const { count } = await tx.issue.updateMany({
+          where: { id: issue.id, projectId, version: issue.version, deletedAt: null },
+          data: {
+            ...data,
+            ...(scheduled && { floatTime: scheduled.floatTime || 0, lastScheduledAt: new Date() }),
+            version: { increment: 1 }
+          }
+        });
+        if (count === 0) {
+          throw new ConflictException(`Issue "${task.title}" changed while the scenario was being promoted; try again`);
+        }
+        const updated = await tx.issue.findUniqueOrThrow({ where: { id: issue.id } });
+        await tx.activityLog.create({
+          data: {
+            projectId,
+            entityType: 'issue',
+            entityId: issue.id,
+            issueId: issue.id,
+            action: 'update',
+            actor: userId || 'system',
+            before: JSON.parse(JSON.stringify(this.pick(issue, changedFields))),
+            after: JSON.parse(JSON.stringify(this.pick(updated, changedFields))),
+            metadata: { scenarioId, scenarioName: scenario.name }
+          }
+        });
+        updatedIssues++;
+      }
+
+      const dependencyCounts = await this.syncDependencies(tx, projectId, tasks, dependencies);
+
+      const promoted = await tx.scheduleScenario.update({
+        where: { id: scenarioId },
+        data: { status: 'promoted', promotedAt: new Date(), promotedBy: userId || 'system' }
+      });
+      await this.logScenarioActivity(tx, projectId, scenarioId, 'promote', userId, scenario, promoted, {
+        updatedIssues,
+        ...dependencyCounts,
+        overwrittenIssueIds: staleTasks.map(task => task.issueId)
+      });
+
+      return { promoted, updatedIssues, ...dependencyCounts };
+    });
+
+    this.logger.log(`Promoted scenario ${scenarioId}: ${result.updatedIssues} issues updated in project ${projectId}`);
+    this.projectEvents.publish({
+      projectId,
+      type: 'schedule.applied',
+      message: `Scenario "${scenario.name}" was promoted to the live plan`,
+      data: { scenarioId, updatedIssues: result.updatedIssues },
+      userId
+    });
+
+    return {
+      scenario: this.toResponse(
+        { ...result.promoted, _count: { tasks: tasks.length, dependencies: dependencies.length } },
+        tasks.filter(task => task.modified).length
+      ),
+      updatedIssues: result.updatedIssues,
+      dependenciesAdded: result.dependenciesAdded,
+      dependenciesRemoved: result.dependenciesRemoved,
+      dependenciesUpdated: result.dependenciesUpdated,
+      overwrittenIssueIds: staleTasks.map(task => task.issueId)
+    };
+  }
+
+  private async computeScenario(
+    projectId: string,
+    scenarioId: string,
+    tasks?: ScenarioTask[],
+    dependencies?: ScenarioDependency[]
+  ): Promise<ScheduleSnapshot> {
+    const [scenarioTasks, scenarioDependencies] = await Promise.all([
+      tasks ?? this.prisma.scenarioTask.findMany({ where: { scenarioId } }),
+      dependencies ?? this.prisma.scenarioDependency.findMany({ where: { scenarioId } })
+    ]);
+
+    const source: ScheduleSourceTask[] = scenarioTasks.map(task => ({
+      id: task.issueId,
+      title: task.title,
+      parentIssueId: task.parentIssueId,
+      status: task.status,
+      estimateValue: task.estimateValue,
+      estimateUnit: task.estimateUnit,
+      assigneeId: task.assigneeId,
+      startDate: task.startDate,
+      dueDate: task.dueDate,
+      constraintType: task.constraintType,
+      constraintDate: task.constraintDate,
+      progress: task.progress,
+      predecessors: scenarioDependencies.filter(dep => dep.successorId === task.issueId)
+    }));
+
+    return this.schedulingService.computeSchedule(projectId, {}, source);
+  }
+
+  /**
+   * Make the live dependencies between the scenario's issues match the
+   * scenario; links to issues created after the fork are left alone
+   */
+  private async syncDependencies(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    tasks: ScenarioTask[],
+    dependencies: ScenarioDependency[]
+  ): Promise<{ dependenciesAdded: number; dependenciesRemoved: number; dependenciesUpdated: number }> {
+    const issueIds = tasks.map(task => task.issueId);
+    const keyOf = (dep: { predecessorId: string; successorId: string; type: string }) =>
+      `${dep.predecessorId}:${dep.successorId}:${dep.type}`;
+
+    const liveDependencies = await tx.dependency.findMany({
+      where: { projectId, predecessorId: { in: issueIds }, successorId: { in: issueIds } }
+    });
+    const liveByKey = new Map(liveDependencies.map(dep => [keyOf(dep), dep]));
+    const scenarioKeys = new Set(dependencies.map(keyOf));
+
+    const removed = liveDependencies.filter(dep => !scenarioKeys.has(keyOf(dep)));
+    if (removed.length > 0) {
+      await tx.dependency.deleteMany({ where: { id: { in: removed.map(dep => dep.id) } } });
+    }
+
+    let dependenciesAdded = 0;
+    let dependenciesUpdated = 0;
+    for (const dep of dependencies) {
+      const live = liveByKey.get(keyOf(dep));
+      if (!live) {
+        await tx.dependency.create({
+          data: {
+            projectId,
+            predecessorId: dep.predecessorId,
+            successorId: dep.successorId,
+            type: dep.type,
+            lag: dep.lag,
+            lagUnit: dep.lagUnit
+          }
+        });
+        dependenciesAdded++;
+      } else if (live.lag !== dep.lag || live.lagUnit !== dep.lagUnit) {
+        await tx.dependency.update({ where: { id: live.id }, data: { lag: dep.lag, lagUnit: dep.lagUnit } });
+        dependenciesUpdated++;
+      }
+    }
+
+    return { dependenciesAdded, dependenciesRemoved: removed.length, dependenciesUpdated };
+  }
+
+  // Whether `to` can be reached from `from` by following successor links
+  private reaches(dependencies: ScenarioDependency[], from: string, to: string): boolean {
+    const visited = new Set<string>();
+    const stack = [from];
+
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === to) return true;
+      if (visited.has(current)) continue;
+
+      visited.add(current);
+      dependencies
+        .filter(dep => dep.predecessorId === current)
+        .forEach(dep => stack.push(dep.successorId));
+    }
+    return false;
+  }
+
+  /**
+   * Every constraint type except ALAP is pinned to a date; clearing the type clears the date
+   */
+  private resolveDateConstraint(
+    type: string | null | undefined,
+    date: string | undefined
+  ): { constraintType: string | null; constraintDate: Date | null } {
+    if (!type) {
+      return { constraintType: null, constraintDate: null };
+    }
+    if (type === 'ALAP') {
+      return { constraintType: type, constraintDate: null };
+    }
+    if (!date) {
+      throw new BadRequestException(`Constraint ${type} requires a constraint date`);
+    }
+    return { constraintType: type, constraintDate: new Date(date) };
+  }
+
+  private assertDraft(scenario: ScheduleScenario): void {
+    if (scenario.status !== 'draft') {
+      throw new ConflictException('Scenario has already been promoted and can no longer be changed');
+    }
+  }
+
+  private pick<T extends object, K extends keyof T>(source: T, fields: K[]): Pick<T, K> {
+    return Object.fromEntries(fields.map(field => [field, source[field]])) as Pick<T, K>;
+  }
+
+  private async getProjectOrThrow(projectId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id: projectId },
+      select: { id: true }
+    });
+
+    if (!project) {
+      throw new NotFoundException(`Project ${projectId} not found`);
+    }
+
+    return project;
+  }
+
+  private async getScenarioOrThrow(projectId: string, scenarioId: string): Promise<ScenarioWithCounts> {
+    const scenario = await this.prisma.scheduleScenario.findFirst({
+      where: { id: scenarioId, projectId },
+      include: { _count: { select: { tasks: true, dependencies: true } } }
+    });
+
+    if (!scenario) {
+      throw new NotFoundException(`Scenario ${scenarioId} not found`);
+    }
+
+    return scenario;
+  }
+
+  private rethrowDuplicateName(error: unknown, name: string): never {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      throw new ConflictException(`A scenario named "${name}" already exists in this project`);
+    }
+    throw error;
+  }
+
+  private async logScenarioActivity(
+    tx: Prisma.TransactionClient,
+    projectId: string,
+    scenarioId: string,
+    action: 'create' | 'delete' | 'promote',
+    userId: string,
+    before: ScheduleScenario | null,
+    after: ScheduleScenario | null,
+    metadata?: Prisma.InputJsonObject
+  ): Promise<void> {
+    await tx.activityLog.create({
+      data: {
+        projectId,
+        entityType: 'schedule_scenario',
+        entityId: scenarioId,
+        action,
+        actor: userId || 'system',
+        before: before ? JSON.parse(JSON.stringify(before)) : undefined,
+        after: after ? JSON.parse(JSON.stringify(after)) : undefined,
+        metadata
+      }
+    });
+  }
+
+  private toResponse(scenario: ScenarioWithCounts, modifiedTaskCount: number): ScenarioResponseDto {
+    return {
+      id: scenario.id,
+      projectId: scenario.projectId,
+      name: scenario.name,
+      description: scenario.description,
+      status: scenario.status,
+      taskCount: scenario._count.tasks,
+      modifiedTaskCount,
+      dependencyCount: scenario._count.dependencies,
+      createdBy: scenario.createdBy,
+      promotedAt: scenario.promotedAt?.toISOString() ?? null,
+      promotedBy: scenario.promotedBy,
+      createdAt: scenario.createdAt.toISOString(),
+      updatedAt: scenario.updatedAt.toISOString()
+    };
+  }
+
+  private toTaskResponse(task: ScenarioTask): ScenarioTaskResponseDto {
+    return {
+      issueId: task.issueId,
+      title: task.title,
+      parentIssueId: task.parentIssueId,
+      status: task.status,
+      estimateValue: task.estimateValue,
+      estimateUnit: task.estimateUnit,
+      assigneeId: task.assigneeId,
+      startDate: task.startDate?.toISOString() ?? null,
+      dueDate: task.dueDate?.toISOString() ?? null,
+      constraintType: task.constraintType,
+      constraintDate: task.constraintDate?.toISOString() ?? null,
+      progress: task.progress,
+      modified: task.modified
+    };
+  }
+
+  private toDependencyResponse(dependency: ScenarioDependency): ScenarioDependencyResponseDto {
+    return {
+      id: dependency.id,
+      predecessorId: dependency.predecessorId,
+      successorId: dependency.successorId,
+      type: dependency.type,
+      lag: dependency.lag,
+      lagUnit: dependency.lagUnit
+    };
+  }
+}
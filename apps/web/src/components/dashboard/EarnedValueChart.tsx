@@ -0,0 +1,220 @@
+'use client'
+
+import React, { useMemo } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { CurrencyDollarIcon, ArrowTrendingUpIcon, ArrowTrendingDownIcon } from '@heroicons/react/24/outline'
+import { metricsApi } from '@/lib/api/metrics'
+import { EarnedValueReport, EarnedValueTimeSeries } from '@/types/project'
+
+export interface EarnedValueChartProps {
+  projectId: string
+  issueId?: string // WBS subtree; the whole project when omitted
+  report?: EarnedValueReport
+  series?: EarnedValueTimeSeries
+  className?: string
+}
+
+export const EarnedValueChart: React.FC<EarnedValueChartProps> = ({
+  projectId,
+  issueId,
+  report: reportProp,
+  series: seriesProp,
+  className = ''
+}) => {
+  const reportQuery = useQuery({
+    queryKey: ['earned-value', projectId, issueId],
+    queryFn: () => metricsApi.getEarnedValue(projectId, { issueId }),
+    enabled: !reportProp,
+    staleTime: 300000 // 5 minutes
+  })
+  const seriesQuery = useQuery({
+    queryKey: ['earned-value-series', projectId, issueId],
+    queryFn: () => metricsApi.getEarnedValueTimeSeries(projectId, { issueId }),
+    enabled: !seriesProp,
+    staleTime: 300000
+  })
+
+  const report = reportProp ?? reportQuery.data
+  const series = seriesProp ?? seriesQuery.data
+  const error = reportQuery.error || seriesQuery.error
+
+  if (error) {
+    return (
+      <div className={`text-sm text-red-600 ${className}`}>
+        Failed to load earned value: {(error as Error).message}
+      </div>
+    )
+  }
+
+  if (!report || !series) {
+    return (
+      <div className={`animate-pulse space-y-4 ${className}`}>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[1, 2, 3, 4].map((i) => (
+            <div key={i} className="h-20 bg-gray-200 rounded"></div>
+          ))}
+        </div>
+        <div className="h-64 bg-gray-200 rounded"></div>
+      </div>
+    )
+  }
+
+  const unit = report.costUnit === 'hours' ? 'h' : ''
+
+  return (
+    <div className={`space-y-6 ${className}`}>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <IndexCard title="CPI" value={report.metrics.cpi} hint="Cost performance (EV / AC)" />
+        <IndexCard title="SPI" value={report.metrics.spi} hint="Schedule performance (EV / PV)" />
+        <AmountCard title="EAC" value={report.metrics.eac} unit={unit} subtitle={`BAC ${formatAmount(report.metrics.bac, unit)}`} />
+        <AmountCard
+          title="VAC"
+          value={report.metrics.vac}
+          unit={unit}
+          subtitle={`ETC ${formatAmount(report.metrics.etc, unit)}`}
+          tone={report.metrics.vac < 0 ? 'bad' : 'good'}
+        />
+      </div>
+
+      <SCurve series={series} unit={unit} />
+
+      <p className="text-xs text-gray-500">
+        Status as of {report.asOf}. Planned value from{' '}
+        {report.plannedFrom.source === 'baseline'
+          ? `baseline "${report.plannedFrom.baselineName}"`
+          : 'current task dates'}
+        {report.unscheduledTaskCount > 0 && ` • ${report.unscheduledTaskCount} tasks without dates earn no planned value`}
+        {report.costUnit === 'hours' && ' • No hourly rate set, amounts are in hours'}
+      </p>
+    </div>
+  )
+}
+
+// Cumulative PV, EV and AC; EV and AC stop at the status date
+const SCurve: React.FC<{ series: EarnedValueTimeSeries, unit: string }> = ({ series, unit }) => {
+  const { points } = series
+  const maxValue = useMemo(() => Math.max(
+    series.bac,
+    ...points.map(p => Math.max(p.pv, p.ev ?? 0, p.ac ?? 0)),
+    1
+  ), [series, points])
+
+  if (points.length < 2) {
+    return <p className="text-sm text-gray-500">Not enough planned dates to draw the S-curve.</p>
+  }
+
+  const toPoint = (value: number, i: number) =>
+    `${(i / (points.length - 1)) * 400},${200 - (value / maxValue * 200)}`
+  const line = (values: Array<number | null>) => values
+    .map((value, i) => value === null ? null : toPoint(value, i))
+    .filter((point): point is string => point !== null)
+    .join(' ')
+
+  return (
+    <div>
+      <h4 className="text-lg font-semibold text-gray-900 mb-4">Earned Value S-Curve</h4>
+
+      <div className="relative h-64">
+        <svg className="w-full h-full" viewBox="0 0 400 200" preserveAspectRatio="none">
+          {[0.25, 0.5, 0.75, 1].map((ratio) => (
+            <line
+              key={ratio}
+              x1="0"
+              y1={200 - ratio * 200}
+              x2="400"
+              y2={200 - ratio * 200}
+              stroke="#f3f4f6"
+              strokeWidth="1"
+            />
+          ))}
+
+          {/* Budget at completion */}
+          <line
+            x1="0"
+            y1={200 - (series.bac / maxValue * 200)}
+            x2="400"
+            y2={200 - (series.bac / maxValue * 200)}
+            stroke="#9ca3af"
+            strokeWidth="1"
+            strokeDasharray="2,4"
+          />
+
+          <polyline fill="none" stroke="#6b7280" strokeWidth="2" strokeDasharray="4,4" points={line(points.map(p => p.pv))} />
+          <polyline fill="none" stroke="#10b981" strokeWidth="3" points={line(points.map(p => p.ev))} />
+          <polyline fill="none" stroke="#ef4444" strokeWidth="2" points={line(points.map(p => p.ac))} />
+        </svg>
+
+        <div className="absolute top-4 left-4 bg-white p-2 rounded border shadow-sm">
+          <div className="flex items-center space-x-4 text-xs">
+            <LegendItem className="border-dashed border-gray-500" label="Planned (PV)" />
+            <LegendItem className="border-green-500" label="Earned (EV)" />
+            <LegendItem className="border-red-500" label="Actual (AC)" />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex justify-between text-xs text-gray-500 mt-2">
+        <span>{points[0].date}</span>
+        <span>BAC {formatAmount(series.bac, unit)}</span>
+        <span>{points[points.length - 1].date}</span>
+      </div>
+    </div>
+  )
+}
+
+const LegendItem: React.FC<{ className: string, label: string }> = ({ className, label }) => (
+  <div className="flex items-center space-x-2">
+    <div className={`w-3 h-0 border-t-2 ${className}`}></div>
+    <span>{label}</span>
+  </div>
+)
+
+const IndexCard: React.FC<{ title: string, value: number | null, hint: string }> = ({ title, value, hint }) => {
+  const good = value !== null && value >= 1
+  const Icon = good ? ArrowTrendingUpIcon : ArrowTrendingDownIcon
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium text-gray-600">{title}</p>
+          <p className="text-2xl font-bold text-gray-900 mt-1">{value === null ? '—' : value.toFixed(2)}</p>
+          <p className="text-xs text-gray-500 mt-1">{hint}</p>
+        </div>
+        {value !== null && (
+          <div className={`p-2 rounded-lg ${good ? 'bg-green-50 text-green-600' : 'bg-red-50 text-red-600'}`}>
+            <Icon className="w-6 h-6" />
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+const AmountCard: React.FC<{
+  title: string
+  value: number
+  unit: string
+  subtitle: string
+  tone?: 'good' | 'bad'
+}> = ({ title, value, unit, subtitle, tone }) => (
+  <div className="bg-white border border-gray-200 rounded-lg p-4">
+    <div className="flex items-center justify-between">
+      <div>
+        <p className="text-sm font-medium text-gray-600">{title}</p>
+        <p className={`text-2xl font-bold mt-1 ${
+          tone === 'bad' ? 'text-red-600' : tone === 'good' ? 'text-green-600' : 'text-gray-900'
+        }`}>
+          {formatAmount(value, unit)}
+        </p>
+        <p className="text-xs text-gray-500 mt-1">{subtitle}</p>
+      </div>
+      <div className="p-2 rounded-lg bg-blue-50 text-blue-600">
+        <CurrencyDollarIcon className="w-6 h-6" />
+      </div>
+    </div>
+  </div>
+)
+
+const formatAmount = (value: number, unit: string): string =>
+  `${Math.round(value).toLocaleString()}${unit}`
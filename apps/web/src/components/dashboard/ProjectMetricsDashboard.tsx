@@ -13,6 +13,7 @@ import {
 } from '@heroicons/react/24/outline'
 import { ResourceUtilizationChart } from './ResourceUtilizationChart'
 import { PerformanceAnalytics } from './PerformanceAnalytics'
+import { EarnedValueChart } from './EarnedValueChart'
 
 export interface ProjectMetrics {
   projectId: string
@@ -67,7 +68,7 @@ export const ProjectMetricsDashboard: React.FC<ProjectMetricsDashboardProps> = (
   onRefresh,
   className = ''
 }) => {
-  const [activeTab, setActiveTab] = useState<'overview' | 'resources' | 'performance'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'resources' | 'performance' | 'earned-value'>('overview')
 
   if (loading) {
     return (
@@ -172,6 +173,16 @@ export const ProjectMetricsDashboard: React.FC<ProjectMetricsDashboardProps> = (
           >
             Performance
           </button>
+          <button
+            onClick={() => setActiveTab('earned-value')}
+            className={`flex-1 px-3 py-2 text-sm font-medium rounded-md transition-colors ${
+              activeTab === 'earned-value'
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            Earned Value
+          </button>
         </div>
       </div>
 
@@ -180,6 +191,7 @@ export const ProjectMetricsDashboard: React.FC<ProjectMetricsDashboardProps> = (
         {activeTab === 'overview' && <OverviewTab metrics={metrics} />}
         {activeTab === 'resources' && <ResourcesTab metrics={metrics} />}
         {activeTab === 'performance' && <PerformanceTab metrics={metrics} />}
+        {activeTab === 'earned-value' && <EarnedValueChart projectId={metrics.projectId} />}
       </div>
     </div>
   )
@@ -32,6 +32,11 @@ interface GanttBarProps {
   onDependencyCreate?: (fromTaskId: string, toTaskId: string, connectionPoint?: 'start' | 'end') => Promise<void>
   dependencyCreationMode?: boolean
   showConnectionPoints?: boolean
+  // Position of the active baseline's dates, drawn as a ghost bar under the live bar
+  baselineBar?: { x: number; width: number }
+  // Another viewer is dragging this bar; local drags are blocked until they let go
+  remoteLock?: { name: string; color: string }
+  onDragStateChange?: (taskId: string, isDragging: boolean) => void
 }
 
 interface DragState {
@@ -91,7 +96,10 @@ export const GanttBar = memo<GanttBarProps>(({
   timelineStartDate,
   onDependencyCreate,
   dependencyCreationMode = false,
-  showConnectionPoints = false
+  showConnectionPoints = false,
+  baselineBar,
+  remoteLock,
+  onDragStateChange
 }) => {
   
   const updateIssue = useIssuesStore(state => state.updateIssue)
@@ -380,7 +388,7 @@ export const GanttBar = memo<GanttBarProps>(({
 
   // AC2: Handle progress bar click/drag start with advanced telemetry
   const handleProgressMouseDown = useCallback((event: React.MouseEvent) => {
-    if (!isLeafTask || !hasDates || isMilestone) return
+    if (!isLeafTask || !hasDates || isMilestone || remoteLock) return
     
     event.preventDefault()
     event.stopPropagation()
@@ -433,11 +441,11 @@ export const GanttBar = memo<GanttBarProps>(({
       dragResponseTime: 0, // Start time, will be updated on completion
       taskCount: 1
     })
-  }, [task, isLeafTask, hasDates, isMilestone, calculateProgressFromMouseX, generateEnhancedTooltipData, startDragOperation])
+  }, [task, isLeafTask, hasDates, isMilestone, remoteLock, calculateProgressFromMouseX, generateEnhancedTooltipData, startDragOperation])
 
   // AC2: Handle resize start with advanced telemetry
   const handleResizeStart = useCallback((event: React.MouseEvent, handleType: 'resize-left' | 'resize-right') => {
-    if (!onTaskUpdate || !timelineStartDate || isMilestone) return
+    if (!onTaskUpdate || !timelineStartDate || isMilestone || remoteLock) return
     
     event.preventDefault()
     event.stopPropagation()
@@ -487,11 +495,11 @@ export const GanttBar = memo<GanttBarProps>(({
       dragResponseTime: 0, // Start time, will be updated on completion
       taskCount: 1
     })
-  }, [task, onTaskUpdate, timelineStartDate, isMilestone, generateEnhancedTooltipData, startDragOperation])
+  }, [task, onTaskUpdate, timelineStartDate, isMilestone, remoteLock, generateEnhancedTooltipData, startDragOperation])
 
   // AC2: Handle main bar drag start with advanced telemetry
   const handleMouseDown = useCallback((event: React.MouseEvent) => {
-    if (!onTaskUpdate || !timelineStartDate || isMilestone) return
+    if (!onTaskUpdate || !timelineStartDate || isMilestone || remoteLock) return
     
     // Check if click is near resize handles (within 8 pixels of either end)
     const rect = event.currentTarget.getBoundingClientRect()
@@ -553,7 +561,7 @@ export const GanttBar = memo<GanttBarProps>(({
       dragResponseTime: 0, // Start time, will be updated on completion
       taskCount: 1
     })
-  }, [task, onTaskUpdate, timelineStartDate, isMilestone, width, generateEnhancedTooltipData, startDragOperation])
+  }, [task, onTaskUpdate, timelineStartDate, isMilestone, remoteLock, width, generateEnhancedTooltipData, startDragOperation])
 
   // AC2: Enhanced mouse move handler with telemetry updates
   const handleMouseMove = useCallback((event: MouseEvent) => {
@@ -678,6 +686,16 @@ export const GanttBar = memo<GanttBarProps>(({
     }
   }, [dragState?.isDragging, handleMouseMove, handleMouseUp])
 
+  // Tell other viewers when this bar is grabbed and released
+  const wasDraggingRef = useRef(false)
+  React.useEffect(() => {
+    const isDragging = !!dragState?.isDragging
+    if (isDragging !== wasDraggingRef.current) {
+      wasDraggingRef.current = isDragging
+      onDragStateChange?.(task.id, isDragging)
+    }
+  }, [dragState?.isDragging, onDragStateChange, task.id])
+
   // Early return for empty or invalid tasks
   if (!task || width < 1 || height < 1) {
     return null
@@ -826,6 +844,22 @@ export const GanttBar = memo<GanttBarProps>(({
         </defs>
       )}
 
+      {/* Baseline ghost bar */}
+      {baselineBar && (
+        <rect
+          x={baselineBar.x}
+          y={y + height + 1}
+          width={baselineBar.width}
+          height={Math.max(3, Math.round(height * 0.25))}
+          rx={1}
+          ry={1}
+          fill="#9CA3AF"
+          opacity={0.5}
+          className="pointer-events-none"
+          data-testid={`baseline-bar-${task.id}`}
+        />
+      )}
+
       {/* Main task bar */}
       <rect
         x={dragState?.dragType === 'move' ? x + (dragState.startX ? (event?.clientX || dragState.startX) - dragState.startX : 0) : x}
@@ -842,7 +876,7 @@ export const GanttBar = memo<GanttBarProps>(({
         stroke={isSelected ? '#2563EB' : hasDates ? '#D1D5DB' : '#F87171'}
         strokeWidth={isSelected ? 2 : hasDates ? 1 : 2}
         strokeDasharray={hasDates ? '0' : '4,4'}
-        className={`cursor-grab transition-colors duration-200 ${!onTaskUpdate || isMilestone ? 'cursor-pointer' : 'cursor-grab'}`}
+        className={`cursor-grab transition-colors duration-200 ${!onTaskUpdate || isMilestone ? 'cursor-pointer' : remoteLock ? 'cursor-not-allowed' : 'cursor-grab'}`}
         onMouseDown={handleMouseDown}
         onClick={() => !dragState?.isDragging && onClick(task)}
         onMouseEnter={handleStatusTooltipShow}
@@ -850,6 +884,33 @@ export const GanttBar = memo<GanttBarProps>(({
         style={{ opacity: hasDates ? 1 : 0.7 }}
       />
 
+      {/* Soft lock while another viewer drags this bar */}
+      {remoteLock && (
+        <g className="pointer-events-none">
+          <rect
+            x={x - 2}
+            y={y - 2}
+            width={width + 4}
+            height={height + 4}
+            rx={3}
+            ry={3}
+            fill="none"
+            stroke={remoteLock.color}
+            strokeWidth={2}
+            strokeDasharray="4,2"
+          />
+          <text
+            x={x + width + 6}
+            y={y + height / 2 + 3}
+            fontSize="10"
+            fill={remoteLock.color}
+            className="select-none font-medium"
+          >
+            🔒 {remoteLock.name}
+          </text>
+        </g>
+      )}
+
       {/* T020 AC1 & AC6: Responsive overdue warning indicator */}
       {taskMetrics.isOverdue && zoomLevel !== 'micro' && (
         <g>
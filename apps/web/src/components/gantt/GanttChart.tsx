@@ -6,8 +6,10 @@ import { useOptimizedGanttSelectors } from '@/stores/gantt-selectors'
 import { GanttTimeline } from './GanttTimeline'
 import { VirtualizedGanttGrid } from './VirtualizedGanttGrid'
 import { VirtualizedTaskList } from './VirtualizedTaskList'
+import { PresenceAvatars } from './GanttPresence'
 import { GanttTask } from '@/types/gantt'
 import { usePerformanceMetrics } from '@/hooks/usePerformanceMetrics'
+import { useGanttPresence } from '@/hooks/useGanttPresence'
 import { useAdvancedTelemetry, useInteractionTracking, useMemoryMonitoring, useZoomTelemetry } from '@/hooks/useAdvancedTelemetry'
 import { ScheduleCalculator } from '@/components/scheduling/ScheduleCalculator'
 import { ConflictDetectionPanel } from '@/components/scheduling/ConflictDetectionPanel'
@@ -137,9 +139,20 @@ export const GanttChart: React.FC<GanttChartProps> = ({
     zoomIn,
     zoomOut,
     zoomToFit,
-    scrollToToday
+    scrollToToday,
+    remoteMoves,
+    clearRemoteMove
   } = useGanttStore()
 
+  // Other viewers on this project
+  const {
+    viewers,
+    lockedTasks,
+    announceSelection,
+    announceDrag,
+    announceCursor
+  } = useGanttPresence(projectId)
+
   // Scheduling store
   const {
     lastCalculationResult,
@@ -386,6 +399,12 @@ export const GanttChart: React.FC<GanttChartProps> = ({
     })
   }, [selectedTaskIds, selectTask, clearSelection, measureDrag, measureOperation, trackClick])
 
+  // Share the current selection with other viewers
+  const [firstSelectedTaskId] = Array.from(selectedTaskIds)
+  useEffect(() => {
+    announceSelection(firstSelectedTaskId ?? null)
+  }, [firstSelectedTaskId, announceSelection])
+
   // Handle keyboard shortcuts with interaction tracking and enhanced zoom telemetry
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -556,6 +575,8 @@ export const GanttChart: React.FC<GanttChartProps> = ({
         </div>
         
         <div className="flex items-center space-x-2">
+          <PresenceAvatars viewers={viewers} />
+
           {/* Scheduling controls */}
           <div className="flex items-center border border-gray-300 rounded bg-white">
             <button
@@ -725,6 +746,12 @@ export const GanttChart: React.FC<GanttChartProps> = ({
                 onTaskClick={handleTaskClick}
                 height={height - 12 - 12} // Total height - toolbar height - timeline height
                 projectId={projectId}
+                viewers={viewers}
+                lockedTasks={lockedTasks}
+                remoteMoves={remoteMoves}
+                onRemoteMoveDone={clearRemoteMove}
+                onTaskDragChange={announceDrag}
+                onCursorMove={announceCursor}
                 data-testid="gantt-grid"
               />
               
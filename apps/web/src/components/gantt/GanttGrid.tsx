@@ -96,6 +96,8 @@ export const GanttGrid = memo<GanttGridProps>(({
       const width = Math.max(endX - startX, 4) // Minimum width of 4px
       const y = index * viewport.rowHeight + (viewport.rowHeight - viewport.taskHeight) / 2
       const isSelected = selectedTaskIds.has(task.id)
+      const baselineStartX = task.baseline ? viewport.timeScale(task.baseline.startDate) || 0 : 0
+      const baselineEndX = task.baseline ? viewport.timeScale(task.baseline.endDate) || 0 : 0
       
       return {
         task,
@@ -103,7 +105,10 @@ export const GanttGrid = memo<GanttGridProps>(({
         y,
         width,
         height: viewport.taskHeight,
-        isSelected
+        isSelected,
+        baselineBar: task.baseline
+          ? { x: baselineStartX, width: Math.max(baselineEndX - baselineStartX, 4) }
+          : undefined
       }
     })
   }, [tasks, viewport, selectedTaskIds])
@@ -183,6 +188,7 @@ export const GanttGrid = memo<GanttGridProps>(({
             height={bar.height}
             isSelected={bar.isSelected}
             onClick={onTaskClick}
+            baselineBar={bar.baselineBar}
           />
         ))}
       </svg>
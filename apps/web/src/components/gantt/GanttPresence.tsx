@@ -0,0 +1,104 @@
+'use client'
+
+import React, { memo, useLayoutEffect, useRef } from 'react'
+import { GanttPresenceViewer } from '@/types/gantt'
+
+const REMOTE_MOVE_ANIMATION_MS = 400
+const MAX_VISIBLE_AVATARS = 5
+
+const initialsOf = (name: string): string =>
+  name
+    .split(/[\s@.]+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map(part => part[0].toUpperCase())
+    .join('') || '?'
+
+/**
+ * Stack of avatars for the other people viewing the project
+ */
+export const PresenceAvatars: React.FC<{ viewers: GanttPresenceViewer[] }> = memo(({ viewers }) => {
+  // One avatar per person even if they have the chart open in several tabs
+  const people = Array.from(new Map(viewers.map(viewer => [viewer.userId, viewer])).values())
+  if (people.length === 0) return null
+
+  const visible = people.slice(0, MAX_VISIBLE_AVATARS)
+  const overflow = people.length - visible.length
+
+  return (
+    <div className="flex items-center -space-x-2" data-testid="gantt-presence-avatars">
+      {visible.map(viewer => (
+        <div
+          key={viewer.userId}
+          className="w-7 h-7 rounded-full border-2 border-white flex items-center justify-center text-xs font-semibold text-white"
+          style={{ backgroundColor: viewer.color }}
+          title={viewer.draggingTaskId ? `${viewer.name} (editing)` : viewer.name}
+        >
+          {initialsOf(viewer.name)}
+        </div>
+      ))}
+      {overflow > 0 && (
+        <div
+          className="w-7 h-7 rounded-full border-2 border-white bg-gray-400 flex items-center justify-center text-xs font-semibold text-white"
+          title={people.slice(MAX_VISIBLE_AVATARS).map(viewer => viewer.name).join(', ')}
+        >
+          +{overflow}
+        </div>
+      )}
+    </div>
+  )
+})
+
+PresenceAvatars.displayName = 'PresenceAvatars'
+
+/**
+ * Another viewer's pointer, drawn inside a task row's SVG
+ */
+export const RemoteCursor: React.FC<{ viewer: GanttPresenceViewer; x: number; y: number }> = memo(({ viewer, x, y }) => (
+  <g
+    transform={`translate(${x}, ${y})`}
+    style={{ transition: 'transform 100ms linear' }}
+    pointerEvents="none"
+    data-testid={`remote-cursor-${viewer.connectionId}`}
+  >
+    <path d="M0,0 L0,14 L4,10 L7,16 L9,15 L6,9 L11,9 Z" fill={viewer.color} stroke="white" strokeWidth={1} />
+    <rect x={10} y={12} width={viewer.name.length * 6 + 8} height={14} rx={3} fill={viewer.color} />
+    <text x={14} y={22} fontSize={10} fill="white" className="select-none">
+      {viewer.name}
+    </text>
+  </g>
+))
+
+RemoteCursor.displayName = 'RemoteCursor'
+
+/**
+ * Slides a bar from where it was to where a remote edit put it.
+ * The bar is rendered at its new position immediately, offset back by fromOffset, then eased to zero.
+ */
+export const RemoteMoveTransition: React.FC<{
+  fromOffset: number
+  movedAt: number
+  onDone: () => void
+  children: React.ReactNode
+}> = ({ fromOffset, movedAt, onDone, children }) => {
+  const groupRef = useRef<SVGGElement>(null)
+  const onDoneRef = useRef(onDone)
+  onDoneRef.current = onDone
+
+  useLayoutEffect(() => {
+    const group = groupRef.current
+    if (!group) return
+
+    group.style.transition = 'none'
+    group.style.transform = `translateX(${fromOffset}px)`
+    // Force a layout so the browser starts the transition from the old position
+    group.getBoundingClientRect()
+    group.style.transition = `transform ${REMOTE_MOVE_ANIMATION_MS}ms ease-out`
+    group.style.transform = 'translateX(0px)'
+
+    const timer = setTimeout(() => onDoneRef.current(), REMOTE_MOVE_ANIMATION_MS)
+    return () => clearTimeout(timer)
+  }, [fromOffset, movedAt])
+
+  return <g ref={groupRef}>{children}</g>
+}
@@ -3,8 +3,9 @@
 import React, { memo, useMemo, useCallback, useState, useRef } from 'react'
 // @ts-ignore - react-window v2.0.2 has type definition issues
 import { List } from 'react-window'
-import { GanttTask, GanttTimelineConfig, GanttViewport, GanttDependency } from '@/types/gantt'
+import { GanttTask, GanttTimelineConfig, GanttViewport, GanttDependency, GanttPresenceViewer, GanttRemoteMove } from '@/types/gantt'
 import { GanttBar } from './GanttBar'
+import { RemoteCursor, RemoteMoveTransition } from './GanttPresence'
 import { DependencyLines } from './DependencyLines'
 import { CircularDependencyWarning } from './CircularDependencyWarning'
 import { useDependencies } from '@/hooks/useDependencies'
@@ -20,6 +21,13 @@ interface VirtualizedGanttGridProps {
   projectId?: string
   className?: string
   'data-testid'?: string
+  // Other viewers' selections, cursors and drags
+  viewers?: GanttPresenceViewer[]
+  lockedTasks?: Map<string, GanttPresenceViewer>
+  remoteMoves?: Record<string, GanttRemoteMove>
+  onRemoteMoveDone?: (taskId: string) => void
+  onTaskDragChange?: (taskId: string, isDragging: boolean) => void
+  onCursorMove?: (cursor: { time: number; taskId: string | null } | null) => void
 }
 
 interface TaskRowData {
@@ -38,6 +46,13 @@ interface TaskRowData {
   // New props for target detection
   dragState?: DragState | null
   hoveredTargetTask?: string | null
+  // Presence of other viewers, indexed by task
+  remoteSelections?: Map<string, GanttPresenceViewer[]>
+  remoteCursors?: Map<string, GanttPresenceViewer[]>
+  lockedTasks?: Map<string, GanttPresenceViewer>
+  remoteMoves?: Record<string, GanttRemoteMove>
+  onRemoteMoveDone?: (taskId: string) => void
+  onTaskDragChange?: (taskId: string, isDragging: boolean) => void
 }
 
 interface GridLine {
@@ -80,7 +95,13 @@ const TaskRow: React.FC<{
     dependencyCreationMode,
     showConnectionPoints,
     dragState,
-    hoveredTargetTask
+    hoveredTargetTask,
+    remoteSelections,
+    remoteCursors,
+    lockedTasks,
+    remoteMoves,
+    onRemoteMoveDone,
+    onTaskDragChange
   } = data
   const task = tasks[index]
 
@@ -101,6 +122,35 @@ const TaskRow: React.FC<{
   // Check if this task is hovered as a target
   const isTargetHighlighted = isValidTarget
 
+  const lockedBy = lockedTasks?.get(task.id)
+  const selectedBy = remoteSelections?.get(task.id) ?? []
+  const cursors = remoteCursors?.get(task.id) ?? []
+  const remoteMove = remoteMoves?.[task.id]
+  const remoteMoveOffset = remoteMove
+    ? (viewport.timeScale(remoteMove.previousStartDate) || 0) - startX
+    : 0
+
+  const bar = (
+    <GanttBar
+      task={task}
+      x={startX}
+      y={y}
+      width={width}
+      height={viewport.taskHeight}
+      isSelected={isSelected}
+      onClick={onTaskClick}
+      pixelsPerDay={30} // Default 30 pixels per day
+      onTaskUpdate={onTaskUpdate}
+      timelineStartDate={config.startDate}
+      onDependencyCreate={onDependencyCreate}
+      dependencyCreationMode={dependencyCreationMode}
+      showConnectionPoints={showConnectionPoints || isTargetHighlighted}
+      remoteLock={lockedBy ? { name: lockedBy.name, color: lockedBy.color } : undefined}
+      onDragStateChange={onTaskDragChange}
+      data-testid={dataTestId ? `${dataTestId}-task-${task.id}` : "task-bar"}
+    />
+  )
+
   return (
     <div style={style} className="relative">
       {/* Row background */}
@@ -120,22 +170,41 @@ const TaskRow: React.FC<{
         className="absolute inset-0 pointer-events-none"
         style={{ width: '100%', height: viewport.rowHeight }}
       >
-        <GanttBar
-          task={task}
-          x={startX}
-          y={y}
-          width={width}
-          height={viewport.taskHeight}
-          isSelected={isSelected}
-          onClick={onTaskClick}
-          pixelsPerDay={30} // Default 30 pixels per day
-          onTaskUpdate={onTaskUpdate}
-          timelineStartDate={config.startDate}
-          onDependencyCreate={onDependencyCreate}
-          dependencyCreationMode={dependencyCreationMode}
-          showConnectionPoints={showConnectionPoints || isTargetHighlighted}
-          data-testid={dataTestId ? `${dataTestId}-task-${task.id}` : "task-bar"}
-        />
+        {/* Other viewers' selection of this task */}
+        {selectedBy.length > 0 && !lockedBy && (
+          <rect
+            x={startX - 3}
+            y={y - 3}
+            width={width + 6}
+            height={viewport.taskHeight + 6}
+            rx={4}
+            fill="none"
+            stroke={selectedBy[0].color}
+            strokeWidth={1.5}
+            opacity={0.8}
+          >
+            <title>{selectedBy.map(viewer => viewer.name).join(', ')}</title>
+          </rect>
+        )}
+
+        {remoteMove && onRemoteMoveDone ? (
+          <RemoteMoveTransition
+            fromOffset={remoteMoveOffset}
+            movedAt={remoteMove.movedAt}
+            onDone={() => onRemoteMoveDone(task.id)}
+          >
+            {bar}
+          </RemoteMoveTransition>
+        ) : bar}
+
+        {cursors.map(viewer => (
+          <RemoteCursor
+            key={viewer.connectionId}
+            viewer={viewer}
+            x={viewport.timeScale(new Date(viewer.cursor!.time)) || 0}
+            y={viewport.rowHeight / 2 - 4}
+          />
+        ))}
       </svg>
 
       {/* Target connection points overlay (enhanced visibility during drag) */}
@@ -204,7 +273,23 @@ TaskRow.displayName = 'TaskRow'
  * Supports target detection and circular dependency validation (AC4, AC6).
  */
 export const VirtualizedGanttGrid = memo<VirtualizedGanttGridProps>(
-  ({ tasks, config, viewport, selectedTaskIds, onTaskClick, height, projectId, className = '', 'data-testid': dataTestId }) => {
+  ({
+    tasks,
+    config,
+    viewport,
+    selectedTaskIds,
+    onTaskClick,
+    height,
+    projectId,
+    className = '',
+    'data-testid': dataTestId,
+    viewers,
+    lockedTasks,
+    remoteMoves,
+    onRemoteMoveDone,
+    onTaskDragChange,
+    onCursorMove
+  }) => {
     
     // Hook to manage dependencies from API
     const { dependencies, loading: dependenciesLoading, error: dependenciesError, createDependency, deleteDependency } = useDependencies(projectId)
@@ -458,6 +543,38 @@ export const VirtualizedGanttGrid = memo<VirtualizedGanttGridProps>(
       await handleDependencyCreate(fromTaskId, toTaskId)
     }, [handleDependencyCreate, handleDependencyDragStart])
 
+    /**
+     * Index other viewers' selections and cursors by task row
+     */
+    const { remoteSelections, remoteCursors } = useMemo(() => {
+      const selections = new Map<string, GanttPresenceViewer[]>()
+      const cursors = new Map<string, GanttPresenceViewer[]>()
+      viewers?.forEach(viewer => {
+        if (viewer.selectedTaskId) {
+          selections.set(viewer.selectedTaskId, [...(selections.get(viewer.selectedTaskId) ?? []), viewer])
+        }
+        if (viewer.cursor?.taskId) {
+          cursors.set(viewer.cursor.taskId, [...(cursors.get(viewer.cursor.taskId) ?? []), viewer])
+        }
+      })
+      return { remoteSelections: selections, remoteCursors: cursors }
+    }, [viewers])
+
+    /**
+     * Report the pointer as a timeline position and task row for other viewers
+     */
+    const handleGridMouseMove = useCallback((event: React.MouseEvent<HTMLDivElement>) => {
+      if (!onCursorMove || !gridRef.current) return
+
+      const gridRect = gridRef.current.getBoundingClientRect()
+      const time = viewport.timeScale.invert(event.clientX - gridRect.left).getTime()
+      onCursorMove({ time, taskId: detectTargetTask(event.clientX, event.clientY) })
+    }, [onCursorMove, viewport, detectTargetTask])
+
+    const handleGridMouseLeave = useCallback(() => {
+      onCursorMove?.(null)
+    }, [onCursorMove])
+
     /**
      * Data for virtualized list
      */
@@ -476,8 +593,14 @@ export const VirtualizedGanttGrid = memo<VirtualizedGanttGridProps>(
         showConnectionPoints: showConnectionPoints || dependencyCreationMode,
         dragState,
         hoveredTargetTask,
+        remoteSelections,
+        remoteCursors,
+        lockedTasks,
+        remoteMoves,
+        onRemoteMoveDone,
+        onTaskDragChange,
       }),
-      [tasks, config, viewport, selectedTaskIds, onTaskClick, dataTestId, handleTaskUpdate, enhancedDependencyCreate, dependencyCreationMode, showConnectionPoints, dragState, hoveredTargetTask]
+      [tasks, config, viewport, selectedTaskIds, onTaskClick, dataTestId, handleTaskUpdate, enhancedDependencyCreate, dependencyCreationMode, showConnectionPoints, dragState, hoveredTargetTask, remoteSelections, remoteCursors, lockedTasks, remoteMoves, onRemoteMoveDone, onTaskDragChange]
     )
 
     /**
@@ -568,6 +691,8 @@ export const VirtualizedGanttGrid = memo<VirtualizedGanttGridProps>(
         className={`virtualized-gantt-grid relative bg-white ${className}`} 
         style={{ height }} 
         data-testid={dataTestId}
+        onMouseMove={onCursorMove ? handleGridMouseMove : undefined}
+        onMouseLeave={onCursorMove ? handleGridMouseLeave : undefined}
       >
         
         {/* Dependency creation mode toggle */}
@@ -13,6 +13,7 @@ import {
 } from '@heroicons/react/24/outline'
 import { useNotificationPanel, useNotificationConnection } from '@/stores/notification-store'
 import { NotificationMessage } from '@/lib/sse/notifications'
+import { notificationsApi, NotificationPreferences } from '@/lib/api/notifications'
 import { Button } from '@/components/ui/button'
 
 interface NotificationCenterProps {
@@ -33,13 +34,21 @@ export const NotificationCenter: React.FC<NotificationCenterProps> = ({
     setPanelOpen,
     setActiveTab,
     markAllAsRead,
-    clearNotifications
+    clearNotifications,
+    loadInbox
   } = useNotificationPanel()
 
   const { isConnected, isConnecting, lastError } = useNotificationConnection()
 
   const [showSettings, setShowSettings] = useState(false)
 
+  // Pick up due-date, assignment and other rule notifications stored on the server
+  useEffect(() => {
+    if (panelOpen) {
+      loadInbox()
+    }
+  }, [panelOpen, loadInbox])
+
   const togglePanel = () => {
     setPanelOpen(!panelOpen)
   }
@@ -401,6 +410,103 @@ const NotificationSettings: React.FC<NotificationSettingsProps> = ({ onClose })
           <span>Enable sound alerts</span>
         </label>
       </div>
+
+      <NotificationRulePreferences />
+    </div>
+  )
+}
+
+const RULE_LABELS: { key: keyof NotificationPreferences; label: string }[] = [
+  { key: 'dueSoon', label: 'Due date approaching' },
+  { key: 'overdue', label: 'Overdue issues' },
+  { key: 'statusChange', label: 'Status changes' },
+  { key: 'dependencyDelay', label: 'Delayed predecessors' },
+  { key: 'assigneeChange', label: 'Assignment changes' }
+]
+
+const NotificationRulePreferences: React.FC = () => {
+  const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+  const [digestStatus, setDigestStatus] = useState<string | null>(null)
+
+  useEffect(() => {
+    notificationsApi.getPreferences()
+      .then(setPreferences)
+      .catch(error => console.warn('Failed to load notification preferences:', error))
+  }, [])
+
+  const update = async (changes: Partial<NotificationPreferences>) => {
+    try {
+      setPreferences(await notificationsApi.updatePreferences(changes))
+    } catch (error) {
+      console.warn('Failed to save notification preferences:', error)
+    }
+  }
+
+  const sendDigest = async () => {
+    try {
+      const result = await notificationsApi.sendDigest()
+      setDigestStatus(result.sent ? `Sent ${result.notificationCount} notification(s)` : result.reason ?? 'Nothing sent')
+    } catch {
+      setDigestStatus('Failed to send digest')
+    }
+  }
+
+  if (!preferences) return null
+
+  const isMuted = !!preferences.mutedUntil && new Date(preferences.mutedUntil) > new Date()
+
+  return (
+    <div className="mt-4 pt-3 border-t border-gray-200 space-y-3 text-sm">
+      <h5 className="text-xs font-semibold text-gray-500 uppercase">Notify me about</h5>
+      {RULE_LABELS.map(({ key, label }) => (
+        <label key={key} className="flex items-center space-x-3">
+          <input
+            type="checkbox"
+            className="rounded"
+            checked={preferences[key] as boolean}
+            onChange={(e) => update({ [key]: e.target.checked })}
+          />
+          <span>{label}</span>
+        </label>
+      ))}
+
+      <label className="flex items-center space-x-3">
+        <input
+          type="checkbox"
+          className="rounded"
+          checked={preferences.emailEnabled}
+          onChange={(e) => update({ emailEnabled: e.target.checked })}
+        />
+        <span>Email me</span>
+        <select
+          className="border border-gray-300 rounded text-xs px-1 py-0.5"
+          value={preferences.emailMode}
+          disabled={!preferences.emailEnabled}
+          onChange={(e) => update({ emailMode: e.target.value as NotificationPreferences['emailMode'] })}
+        >
+          <option value="digest">daily digest</option>
+          <option value="immediate">right away</option>
+        </select>
+      </label>
+
+      <div className="flex items-center justify-between">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update({
+            mutedUntil: isMuted ? null : new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+          })}
+        >
+          {isMuted ? 'Unmute' : 'Mute for 24 hours'}
+        </Button>
+        <Button variant="outline" size="sm" onClick={sendDigest} disabled={!preferences.emailEnabled}>
+          Send digest now
+        </Button>
+      </div>
+      {isMuted && (
+        <p className="text-xs text-gray-500">Muted until {new Date(preferences.mutedUntil!).toLocaleString()}</p>
+      )}
+      {digestStatus && <p className="text-xs text-gray-500">{digestStatus}</p>}
     </div>
   )
 }
@@ -3,6 +3,7 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
 import { useScheduling } from '@/hooks/useScheduling';
+import { auditLogsApi } from '@/lib/api/audit-logs';
 import { AuditLogEntry, AuditOperation } from '@/types/scheduling';
 import { cn } from '@/lib/utils';
 import {
@@ -140,16 +141,12 @@ export function AuditLogViewer({
 
   const handleExport = useCallback(async () => {
     try {
-      // This would call the audit logs API to export data
-      const blob = await fetch(`/api/projects/${projectId}/audit-logs/export`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          format: 'CSV',
-          includeMetadata: true,
-          includePerformanceData: true,
-        }),
-      }).then(r => r.blob());
+      const blob = await auditLogsApi.exportAuditLogs(projectId, {
+        format: 'CSV',
+        includeMetadata: true,
+        includePerformanceData: true,
+        includeChanges: true,
+      });
 
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -222,10 +219,9 @@ export function AuditLogViewer({
                   <div>
                     <h5 className="font-medium text-gray-700 mb-1">Performance</h5>
                     <div className="space-y-1">
-                      <div>Calculation: {log.performanceData?.calculationTime}ms</div>
-                      <div>Memory: {log.performanceData?.memoryUsage} bytes</div>
-                      <div>API Response: {log.performanceData?.apiResponseTime}ms</div>
-                      <div>DB Query: {log.performanceData?.databaseQueryTime}ms</div>
+                      <div>Calculation: {log.performanceData?.calculationTime ?? '-'}ms</div>
+                      <div>Memory: {log.performanceData?.memoryUsage ?? '-'} MB</div>
+                      <div>Tasks processed: {log.performanceData?.tasksProcessed ?? '-'}</div>
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,232 @@
+'use client'
+
+import { useEffect, useRef, useCallback, useMemo, useState } from 'react'
+import {
+  SSENotificationClient,
+  NotificationMessage,
+  PresenceEvent,
+  acquireProjectSSEClient
+} from '@/lib/sse/notifications'
+import { presenceApi, PresenceUpdate } from '@/lib/api/presence'
+import { useGanttStore } from '@/stores/gantt.store'
+import { useAuthStore } from '@/stores/auth.store'
+import { GanttPresenceViewer, GanttRemoteTaskUpdate } from '@/types/gantt'
+
+const CURSOR_THROTTLE_MS = 100
+const REFETCH_DEBOUNCE_MS = 500
+// Same as the API's drag lock TTL; a viewer that goes quiet mid-drag stops blocking the bar after this
+const DRAG_LOCK_TTL_MS = 30000
+
+// Changes that add or remove rows; the chart reloads for those instead of patching in place
+const STRUCTURAL_EVENTS = new Set([
+  'issue.created',
+  'issue.deleted',
+  'issue.restored',
+  'dependency.created',
+  'dependency.deleted'
+])
+
+export interface UseGanttPresenceReturn {
+  viewers: GanttPresenceViewer[] // other users only
+  lockedTasks: Map<string, GanttPresenceViewer>
+  announceSelection: (taskId: string | null) => void
+  announceDrag: (taskId: string, isDragging: boolean) => void
+  announceCursor: (cursor: { time: number; taskId: string | null } | null) => void
+}
+
+const toTaskUpdate = (issue: any): GanttRemoteTaskUpdate => ({
+  id: issue.id,
+  title: issue.title,
+  startDate: issue.startDate ? new Date(issue.startDate) : undefined,
+  endDate: issue.dueDate ? new Date(issue.dueDate) : undefined,
+  progress: issue.progress,
+  version: issue.version
+})
+
+/**
+ * Shares selection, drags and cursors with everyone else on the project's Gantt,
+ * and applies their committed changes to the gantt store as they arrive.
+ */
+export const useGanttPresence = (projectId?: string): UseGanttPresenceReturn => {
+  const currentUserId = useAuthStore(state => state.user?.id)
+  const allViewers = useGanttStore(state => state.viewers)
+  const {
+    setViewers,
+    upsertViewer,
+    removeViewer,
+    applyRemoteTaskUpdates,
+    fetchGanttData
+  } = useGanttStore()
+
+  const clientRef = useRef<SSENotificationClient | null>(null)
+  const connectionIdRef = useRef<string | undefined>(undefined)
+  const cursorTimerRef = useRef<NodeJS.Timeout | null>(null)
+  const lastCursorSentRef = useRef(0)
+  const pendingCursorRef = useRef<PresenceUpdate['cursor']>(undefined)
+  const refetchTimerRef = useRef<NodeJS.Timeout | null>(null)
+  // When each connection's current drag was first seen, so its lock can lapse locally
+  const dragStartsRef = useRef(new Map<string, { taskId: string; since: number }>())
+  const [lockClock, setLockClock] = useState(() => Date.now())
+
+  const viewers = useMemo(
+    () => allViewers.filter(viewer => viewer.userId !== currentUserId),
+    [allViewers, currentUserId]
+  )
+
+  const lockedTasks = useMemo(() => {
+    const starts = dragStartsRef.current
+    const dragging = new Set<string>()
+    const locks = new Map<string, GanttPresenceViewer>()
+    viewers.forEach(viewer => {
+      if (!viewer.draggingTaskId) return
+      dragging.add(viewer.connectionId)
+
+      let start = starts.get(viewer.connectionId)
+      if (start?.taskId !== viewer.draggingTaskId) {
+        start = { taskId: viewer.draggingTaskId, since: Date.now() }
+        starts.set(viewer.connectionId, start)
+      }
+      if (lockClock - start.since < DRAG_LOCK_TTL_MS) locks.set(viewer.draggingTaskId, viewer)
+    })
+    starts.forEach((_, connectionId) => {
+      if (!dragging.has(connectionId)) starts.delete(connectionId)
+    })
+    return locks
+  }, [viewers, lockClock])
+
+  // Re-check when the next lock still held runs out
+  useEffect(() => {
+    if (lockedTasks.size === 0) return
+    const expiries = [...dragStartsRef.current.values()]
+      .map(start => start.since + DRAG_LOCK_TTL_MS)
+      .filter(expiresAt => expiresAt > lockClock)
+    const timer = setTimeout(() => setLockClock(Date.now()), Math.max(0, Math.min(...expiries) - Date.now()))
+    return () => clearTimeout(timer)
+  }, [lockedTasks, lockClock])
+
+  const handleChange = useCallback((notification: NotificationMessage) => {
+    if (!projectId || !notification.event) return
+    const data = notification.data || {}
+    const movedBy = useGanttStore.getState().viewers.find(viewer => viewer.userId === notification.userId)?.name
+
+    const scheduleRefetch = () => {
+      if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current)
+      refetchTimerRef.current = setTimeout(() => fetchGanttData(projectId), REFETCH_DEBOUNCE_MS)
+    }
+
+    switch (notification.event) {
+      case 'issue.updated':
+        if (data.issue) applyRemoteTaskUpdates([toTaskUpdate(data.issue)], movedBy)
+        if (Array.isArray(data.issues)) applyRemoteTaskUpdates(data.issues.map(toTaskUpdate), movedBy)
+        break
+      case 'progress.updated':
+        if (data.issueId && typeof data.newProgress === 'number') {
+          applyRemoteTaskUpdates([{ id: data.issueId, progress: data.newProgress }], movedBy)
+        } else {
+          scheduleRefetch()
+        }
+        break
+      case 'schedule.applied':
+        if (Array.isArray(data.tasks)) {
+          applyRemoteTaskUpdates(data.tasks.map((task: any) => ({
+            id: task.issueId,
+            startDate: new Date(task.startDate),
+            endDate: new Date(task.dueDate),
+            version: task.version
+          })), movedBy)
+        } else {
+          scheduleRefetch()
+        }
+        break
+      default:
+        // Our own structural changes are already in the store
+        if (STRUCTURAL_EVENTS.has(notification.event) && notification.userId !== currentUserId) {
+          scheduleRefetch()
+        }
+    }
+  }, [projectId, currentUserId, applyRemoteTaskUpdates, fetchGanttData])
+
+  const handlePresence = useCallback((event: PresenceEvent) => {
+    if (event.action === 'sync') {
+      setViewers(event.viewers)
+    } else if (event.action === 'left') {
+      removeViewer(event.viewer.connectionId)
+    } else {
+      upsertViewer(event.viewer)
+    }
+  }, [setViewers, upsertViewer, removeViewer])
+
+  useEffect(() => {
+    if (!projectId) return
+
+    // Shared with the notification hook, so the server counts this tab as one viewer
+    const { client, release } = acquireProjectSSEClient(projectId, currentUserId)
+    clientRef.current = client
+
+    const unsubscribers = [
+      client.subscribe(handleChange),
+      client.subscribeToPresence(handlePresence),
+      client.subscribeToState(state => {
+        connectionIdRef.current = state.isConnected ? state.connectionId : undefined
+      })
+    ]
+
+    // A stream that is already open sent its viewer list before we subscribed
+    if (client.getState().isConnected) {
+      presenceApi.getViewers(projectId).then(setViewers).catch(error => {
+        console.warn('[useGanttPresence] Viewer list unavailable:', error)
+      })
+    }
+    client.ensureConnected().catch(error => {
+      console.warn('[useGanttPresence] Event stream unavailable:', error)
+    })
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe())
+      release()
+      clientRef.current = null
+      connectionIdRef.current = undefined
+      setViewers([])
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current)
+      if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current)
+    }
+  }, [projectId, currentUserId, handleChange, handlePresence, setViewers])
+
+  const announce = useCallback((update: Omit<PresenceUpdate, 'connectionId'>) => {
+    const connectionId = connectionIdRef.current
+    if (!projectId || !connectionId) return
+
+    // Presence is best effort; a lost update is corrected by the next one
+    presenceApi.update(projectId, { connectionId, ...update }).catch(error => {
+      console.warn('[useGanttPresence] Presence update failed:', error)
+    })
+  }, [projectId])
+
+  const announceSelection = useCallback((taskId: string | null) => {
+    announce({ selectedTaskId: taskId })
+  }, [announce])
+
+  const announceDrag = useCallback((taskId: string, isDragging: boolean) => {
+    announce({ draggingTaskId: isDragging ? taskId : null })
+  }, [announce])
+
+  const announceCursor = useCallback((cursor: PresenceUpdate['cursor']) => {
+    pendingCursorRef.current = cursor
+    if (cursorTimerRef.current) return
+
+    const wait = Math.max(0, lastCursorSentRef.current + CURSOR_THROTTLE_MS - Date.now())
+    cursorTimerRef.current = setTimeout(() => {
+      cursorTimerRef.current = null
+      lastCursorSentRef.current = Date.now()
+      announce({ cursor: pendingCursorRef.current })
+    }, wait)
+  }, [announce])
+
+  return {
+    viewers,
+    lockedTasks,
+    announceSelection,
+    announceDrag,
+    announceCursor
+  }
+}
@@ -4,13 +4,13 @@ import { useEffect, useRef, useCallback } from 'react'
 import { 
   SSENotificationClient, 
   NotificationMessage,
-  getGlobalSSEClient,
-  createProjectSSEClient
+  SharedSSEClient,
+  acquireProjectSSEClient
 } from '@/lib/sse/notifications'
 import { useNotificationStore } from '@/stores/notification-store'
 
 export interface UseNotificationsOptions {
-  projectId?: string
+  projectId: string
   userId?: string
   autoConnect?: boolean
   maxRetries?: number
@@ -26,7 +26,7 @@ export interface UseNotificationsReturn {
   client: SSENotificationClient
 }
 
-export const useNotifications = (options: UseNotificationsOptions = {}): UseNotificationsReturn => {
+export const useNotifications = (options: UseNotificationsOptions): UseNotificationsReturn => {
   const {
     projectId,
     userId,
@@ -34,7 +34,7 @@ export const useNotifications = (options: UseNotificationsOptions = {}): UseNoti
     maxRetries = 5
   } = options
 
-  const clientRef = useRef<SSENotificationClient | null>(null)
+  const clientRef = useRef<SharedSSEClient | null>(null)
   const unsubscribeRefs = useRef<(() => void)[]>([])
 
   // Store actions
@@ -45,14 +45,12 @@ export const useNotifications = (options: UseNotificationsOptions = {}): UseNoti
     addNotification
   } = useNotificationStore()
 
-  // Get or create client
+  // Share the project's stream with the other hooks on the page, e.g. Gantt presence
   const getClient = useCallback(() => {
     if (!clientRef.current) {
-      clientRef.current = projectId 
-        ? createProjectSSEClient(projectId, userId)
-        : getGlobalSSEClient()
+      clientRef.current = acquireProjectSSEClient(projectId, userId)
     }
-    return clientRef.current
+    return clientRef.current.client
   }, [projectId, userId])
 
   // Connection management
@@ -62,7 +60,7 @@ export const useNotifications = (options: UseNotificationsOptions = {}): UseNoti
     setError(null)
 
     try {
-      await client.connect()
+      await client.ensureConnected()
       console.log('[useNotifications] Connected successfully')
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Connection failed'
@@ -74,15 +72,15 @@ export const useNotifications = (options: UseNotificationsOptions = {}): UseNoti
   }, [getClient, setConnecting, setError])
 
   const disconnect = useCallback(() => {
-    const client = getClient()
-    client.disconnect()
+    clientRef.current?.release()
+    clientRef.current = null
     
     // Clean up subscriptions
     unsubscribeRefs.current.forEach(unsubscribe => unsubscribe())
     unsubscribeRefs.current = []
     
     console.log('[useNotifications] Disconnected')
-  }, [getClient])
+  }, [])
 
   const sendMessage = useCallback(async (message: any) => {
     const client = getClient()
@@ -128,9 +126,8 @@ export const useNotifications = (options: UseNotificationsOptions = {}): UseNoti
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      if (clientRef.current) {
-        clientRef.current.disconnect()
-      }
+      clientRef.current?.release()
+      clientRef.current = null
     }
   }, [])
 
@@ -154,10 +151,6 @@ export const useProjectNotifications = (projectId: string, userId?: string) => {
   return useNotifications({ projectId, userId, autoConnect: true })
 }
 
-export const useGlobalNotifications = () => {
-  return useNotifications({ autoConnect: true })
-}
-
 // Hook for testing notifications (development only)
 export const useTestNotifications = () => {
   const { addNotification } = useNotificationStore()
@@ -3,77 +3,96 @@ import {
   AuditLogQuery,
   AuditLogEntry,
   AuditLogSummary,
-  AuditTrend,
+  AuditLogArchive,
+  AuditChainVerification,
   AuditOperation,
-  PerformanceData,
-  AuditMetadata,
+  AuditPerformanceAverages,
+  AuditResult,
 } from '../../types/scheduling';
 
+export interface AuditLogPage {
+  entries: AuditLogEntry[];
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+  summary: {
+    totalOperations: number;
+    successRate: number;
+    averagePerformance: AuditPerformanceAverages;
+  };
+}
+
+export interface AuditLogSearchCriteria {
+  keywords?: string[];
+  operations?: Array<AuditOperation | string>;
+  actions?: string[];
+  entityTypes?: string[];
+  resultTypes?: AuditResult[];
+  userIds?: string[];
+  performanceThresholds?: {
+    minResponseTime?: number;
+    maxResponseTime?: number;
+    minMemoryUsage?: number;
+    maxMemoryUsage?: number;
+  };
+  metadataFilters?: Record<string, any>;
+  timeRange?: {
+    start: Date;
+    end: Date;
+  };
+  sortOrder?: 'ASC' | 'DESC';
+  limit?: number;
+  cursor?: string;
+}
+
 export class AuditLogsApiClient {
   private readonly basePath = '/projects';
 
   /**
-   * Get audit logs with filtering and pagination
+   * Get audit logs with filtering and cursor pagination
    */
   async getAuditLogs(
     projectId: string,
     query: AuditLogQuery = {}
-  ): Promise<{
-    entries: AuditLogEntry[];
-    total: number;
-    hasMore: boolean;
-    summary: {
-      totalOperations: number;
-      successRate: number;
-      averagePerformance: PerformanceData;
-    };
-  }> {
+  ): Promise<AuditLogPage> {
     const params: any = {};
     
     if (query.operation) params.operation = query.operation;
+    if (query.action) params.action = query.action;
+    if (query.entityType) params.entityType = query.entityType;
+    if (query.entityId) params.entityId = query.entityId;
     if (query.startDate) params.startDate = query.startDate.toISOString();
     if (query.endDate) params.endDate = query.endDate.toISOString();
-    if (query.userId) params.userId = query.userId;
+    if (query.userId) params.actor = query.userId;
     if (query.limit) params.limit = query.limit;
-    if (query.offset) params.offset = query.offset;
+    if (query.cursor) params.cursor = query.cursor;
 
     const response = await apiClient.get<any>(
       `${this.basePath}/${projectId}/audit-logs`,
       { params }
     );
     
-    return response.data;
+    return {
+      ...response.data,
+      entries: response.data.entries.map(parseEntry),
+    };
   }
 
   /**
-   * Get detailed audit log entry
+   * Get detailed audit log entry with the other entries for the same entity
    */
   async getAuditLogEntry(
     projectId: string,
     entryId: string
-  ): Promise<AuditLogEntry & {
-    relatedEntries: AuditLogEntry[];
-    impactAnalysis: {
-      tasksAffected: number;
-      scheduleChanges: Array<{
-        taskId: string;
-        field: string;
-        before: any;
-        after: any;
-        impact: 'POSITIVE' | 'NEGATIVE' | 'NEUTRAL';
-      }>;
-      resourceChanges: Array<{
-        resourceId: string;
-        utilizationChange: number;
-        conflictsResolved: number;
-      }>;
-    };
-  }> {
+  ): Promise<AuditLogEntry & { relatedEntries: AuditLogEntry[] }> {
     const response = await apiClient.get<any>(
       `${this.basePath}/${projectId}/audit-logs/${entryId}`
     );
     
-    return response.data;
+    return {
+      ...parseEntry(response.data),
+      relatedEntries: response.data.relatedEntries.map(parseEntry),
+    };
   }
 
   /**
@@ -94,12 +113,17 @@ export class AuditLogsApiClient {
       params.endDate = timeRange.end.toISOString();
     }
 
-    const response = await apiClient.get<AuditLogSummary>(
+    const response = await apiClient.get<any>(
       `${this.basePath}/${projectId}/audit-logs/summary`,
       { params }
     );
     
-    return response.data;
+    return {
+      ...response.data,
+      startDate: new Date(response.data.startDate),
+      endDate: new Date(response.data.endDate),
+      trends: response.data.trends.map((trend: any) => ({ ...trend, date: new Date(trend.date) })),
+    };
   }
 
   /**
@@ -244,23 +268,35 @@ export class AuditLogsApiClient {
   }
 
   /**
-   * Export audit logs in various formats
+   * Export audit logs as CSV or JSON, oldest first
    */
   async exportAuditLogs(
     projectId: string,
     options: {
-      format: 'CSV' | 'JSON' | 'EXCEL' | 'PDF';
+      format: 'CSV' | 'JSON';
       query?: AuditLogQuery;
-      includeMetadata: boolean;
-      includePerformanceData: boolean;
-      includeChanges: boolean;
-      groupBy?: 'DATE' | 'USER' | 'OPERATION';
-      customFields?: string[];
+      includeMetadata?: boolean;
+      includePerformanceData?: boolean;
+      includeChanges?: boolean;
     }
   ): Promise<Blob> {
+    const { query, ...rest } = options;
     const response = await apiClient.post(
       `${this.basePath}/${projectId}/audit-logs/export`,
-      options,
+      {
+        ...rest,
+        ...(query && {
+          query: {
+            operation: query.operation,
+            action: query.action,
+            entityType: query.entityType,
+            entityId: query.entityId,
+            actor: query.userId,
+            startDate: query.startDate?.toISOString(),
+            endDate: query.endDate?.toISOString(),
+          },
+        }),
+      },
       { responseType: 'blob' }
     );
     
@@ -268,44 +304,24 @@ export class AuditLogsApiClient {
   }
 
   /**
-   * Search audit logs with advanced filters
+   * Search audit logs; keywords match anywhere in the before/after JSON
    */
   async searchAuditLogs(
     projectId: string,
-    searchCriteria: {
-      keywords?: string[];
-      operations?: AuditOperation[];
-      resultTypes?: Array<'SUCCESS' | 'FAILURE' | 'PARTIAL'>;
-      userIds?: string[];
-      performanceThresholds?: {
-        minResponseTime?: number;
-        maxResponseTime?: number;
-        minMemoryUsage?: number;
-        maxMemoryUsage?: number;
-      };
-      metadataFilters?: Record<string, any>;
-      timeRange?: {
-        start: Date;
-        end: Date;
-      };
-      sortBy?: 'TIMESTAMP' | 'PERFORMANCE' | 'IMPACT';
-      sortOrder?: 'ASC' | 'DESC';
-      limit?: number;
-      offset?: number;
-    }
+    searchCriteria: AuditLogSearchCriteria
   ): Promise<{
     results: AuditLogEntry[];
     total: number;
+    hasMore: boolean;
+    nextCursor: string | null;
     searchMetrics: {
       searchTime: number; // ms
-      indexesUsed: string[];
-      resultRelevanceScores: number[];
+      resultRelevanceScores: number[]; // share of keywords each result matched
     };
     suggestions: {
-      relatedSearches: string[];
       filterSuggestions: Array<{
-        field: string;
-        value: any;
+        field: 'action' | 'entityType';
+        value: string;
         count: number;
       }>;
     };
@@ -315,7 +331,10 @@ export class AuditLogsApiClient {
       searchCriteria
     );
     
-    return response.data;
+    return {
+      ...response.data,
+      results: response.data.results.map(parseEntry),
+    };
   }
 
   /**
@@ -453,7 +472,24 @@ export class AuditLogsApiClient {
   }
 
   /**
-   * Archive old audit logs
+   * List archived audit log batches
+   */
+  async getArchives(projectId: string): Promise<AuditLogArchive[]> {
+    const response = await apiClient.get<any[]>(`${this.basePath}/${projectId}/audit-logs/archives`);
+
+    return response.data.map(archive => ({
+      ...archive,
+      rangeStart: new Date(archive.rangeStart),
+      rangeEnd: new Date(archive.rangeEnd),
+      retainUntil: archive.retainUntil ? new Date(archive.retainUntil) : null,
+      restoredAt: archive.restoredAt ? new Date(archive.restoredAt) : null,
+      purgedAt: archive.purgedAt ? new Date(archive.purgedAt) : null,
+      createdAt: new Date(archive.createdAt),
+    }));
+  }
+
+  /**
+   * Archive old audit logs; repeat while hasMore is true
    */
   async archiveAuditLogs(
     projectId: string,
@@ -462,19 +498,21 @@ export class AuditLogsApiClient {
       includeSuccessful: boolean;
       includeErrors: boolean;
       compressionLevel: 'LOW' | 'MEDIUM' | 'HIGH';
-      retentionPeriod: number; // months
+      retentionPeriod?: number; // months, omit to keep the archive indefinitely
     }
   ): Promise<{
     archived: number;
     archiveSize: number; // bytes
-    archiveLocation: string;
+    archiveLocation: string | null;
     estimatedSavings: number; // bytes
+    hasMore: boolean;
   }> {
     const response = await apiClient.post<{
       archived: number;
       archiveSize: number;
-      archiveLocation: string;
+      archiveLocation: string | null;
       estimatedSavings: number;
+      hasMore: boolean;
     }>(`${this.basePath}/${projectId}/audit-logs/archive`, options);
     
     return response.data;
@@ -506,6 +544,34 @@ export class AuditLogsApiClient {
     
     return response.data;
   }
+
+  /**
+   * Verify the audit log hash chain, by chain position or by date window
+   */
+  async verifyAuditChain(
+    projectId: string,
+    range: {
+      fromSeq?: number;
+      toSeq?: number;
+      startDate?: Date;
+      endDate?: Date;
+    } = {}
+  ): Promise<AuditChainVerification> {
+    const response = await apiClient.get<any>(`${this.basePath}/${projectId}/audit-logs/verify`, {
+      params: {
+        fromSeq: range.fromSeq,
+        toSeq: range.toSeq,
+        startDate: range.startDate?.toISOString(),
+        endDate: range.endDate?.toISOString(),
+      },
+    });
+
+    return { ...response.data, verifiedAt: new Date(response.data.verifiedAt) };
+  }
+}
+
+function parseEntry(entry: any): AuditLogEntry {
+  return { ...entry, timestamp: new Date(entry.timestamp) };
 }
 
 // Export singleton instance
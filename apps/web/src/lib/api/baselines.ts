@@ -0,0 +1,65 @@
+import { apiClient, ApiResponse } from './client';
+import {
+  ScheduleBaseline,
+  CreateBaselineData,
+  BaselineVariance,
+} from '../../types/project';
+
+export class BaselinesApiClient {
+  private readonly basePath = '/projects';
+
+  /**
+   * List the baselines captured for a project, newest first
+   */
+  async getBaselines(projectId: string): Promise<ScheduleBaseline[]> {
+    const response = await apiClient.get<ApiResponse<ScheduleBaseline[]>>(
+      `${this.basePath}/${projectId}/baselines`
+    );
+
+    return response.data.data;
+  }
+
+  /**
+   * Capture the current schedule as a named baseline
+   */
+  async createBaseline(
+    projectId: string,
+    data: CreateBaselineData
+  ): Promise<ScheduleBaseline> {
+    const response = await apiClient.post<ApiResponse<ScheduleBaseline>>(
+      `${this.basePath}/${projectId}/baselines`,
+      data
+    );
+
+    return response.data.data;
+  }
+
+  /**
+   * Compare the live schedule against a baseline
+   */
+  async getVariance(projectId: string, baselineId: string): Promise<BaselineVariance> {
+    const response = await apiClient.get<ApiResponse<BaselineVariance>>(
+      `${this.basePath}/${projectId}/baselines/${baselineId}/variance`
+    );
+
+    return response.data.data;
+  }
+
+  /**
+   * Reset task dates to the ones captured in a baseline
+   */
+  async restoreBaseline(
+    projectId: string,
+    baselineId: string
+  ): Promise<{ restoredCount: number; skippedCount: number }> {
+    const response = await apiClient.post<ApiResponse<{ restoredCount: number; skippedCount: number }>>(
+      `${this.basePath}/${projectId}/baselines/${baselineId}/restore`
+    );
+
+    return response.data.data;
+  }
+}
+
+// Export singleton instance
+export const baselinesApi = new BaselinesApiClient();
+export default baselinesApi;
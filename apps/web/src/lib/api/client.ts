@@ -21,7 +21,7 @@ export interface RequestOptions extends AxiosRequestConfig {
 
 class ApiClient {
   private instance: AxiosInstance;
-  private baseURL: string;
+  readonly baseURL: string;
 
   constructor() {
     this.baseURL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
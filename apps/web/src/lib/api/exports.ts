@@ -0,0 +1,73 @@
+import { apiClient } from './client';
+import { IssueFilters } from '../../types/issue';
+import { GanttTimeScale } from '../../types/gantt';
+
+export interface ExportSortOptions {
+  sortBy?: 'createdAt' | 'updatedAt' | 'dueDate' | 'priority' | 'title';
+  sortOrder?: 'asc' | 'desc';
+}
+
+export class ExportsApiClient {
+  private readonly basePath = '/projects';
+
+  /**
+   * Download Issue.xlsx for the issues matching the list filters
+   */
+  async exportIssues(
+    projectId: string,
+    filters: IssueFilters = {},
+    sort: ExportSortOptions = {}
+  ): Promise<Blob> {
+    return this.download(`${this.basePath}/${projectId}/export/issues`, {
+      ...toExportParams(filters),
+      ...sort,
+    });
+  }
+
+  /**
+   * Download WBS.xlsx with WBS codes and indentation
+   */
+  async exportWbs(projectId: string, filters: IssueFilters = {}): Promise<Blob> {
+    return this.download(`${this.basePath}/${projectId}/export/wbs`, toExportParams(filters));
+  }
+
+  /**
+   * Download Gantt.xlsx with bars drawn as shaded cells at the given time scale
+   */
+  async exportGantt(
+    projectId: string,
+    timeScale: GanttTimeScale,
+    filters: IssueFilters = {},
+    range?: { start: Date; end: Date }
+  ): Promise<Blob> {
+    return this.download(`${this.basePath}/${projectId}/export/gantt`, {
+      ...toExportParams(filters),
+      timeScale,
+      rangeStart: range?.start.toISOString(),
+      rangeEnd: range?.end.toISOString(),
+    });
+  }
+
+  /**
+   * Download Project.xml for Microsoft Project: the WBS with links, resources and the calendar
+   */
+  async exportMspdi(projectId: string): Promise<Blob> {
+    return this.download(`${this.basePath}/${projectId}/export/mspdi`, {});
+  }
+
+  private async download(url: string, params: Record<string, unknown>): Promise<Blob> {
+    const response = await apiClient.get(url, { params, responseType: 'blob' });
+
+    return response.data as Blob;
+  }
+}
+
+// The project comes from the URL; the API rejects it as a query parameter
+function toExportParams(filters: IssueFilters): Record<string, unknown> {
+  const { projectId: _projectId, ...params } = filters;
+  return params;
+}
+
+// Export singleton instance
+export const exportsApi = new ExportsApiClient();
+export default exportsApi;
@@ -0,0 +1,187 @@
+import { apiClient } from './client';
+
+/**
+ * Header text of the sheet column holding each issue field
+ */
+export interface ImportColumnMapping {
+  title: string;
+  description?: string;
+  type?: string;
+  status?: string;
+  priority?: string;
+  assignee?: string; // Email address column
+  startDate?: string;
+  dueDate?: string;
+  estimate?: string;
+  estimateUnit?: string;
+  progress?: string;
+  labels?: string;
+  wbsCode?: string;
+  outlineLevel?: string;
+  predecessors?: string; // e.g. "3FS+2d, 5SS"
+  rowId?: string;
+}
+
+export interface ImportPredecessorPreview {
+  ref: string;
+  row: number | null;
+  type: 'FS' | 'SS' | 'FF' | 'SF';
+  lag: number;
+  lagUnit: 'hours' | 'days' | 'percent';
+}
+
+export interface ImportRowResult {
+  row: number;
+  title: string;
+  level: number;
+  parentRow: number | null;
+  type: string;
+  status: string;
+  priority: number;
+  assigneeId: string | null;
+  startDate: string | null;
+  dueDate: string | null;
+  estimateValue: number;
+  estimateUnit: 'h' | 'd';
+  progress: number;
+  labels: string[];
+  predecessors: ImportPredecessorPreview[];
+  issueId: string | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface ImportIssuesResult {
+  dryRun: boolean;
+  imported: boolean;
+  totalRows: number;
+  validRows: number;
+  createdIssues: number;
+  createdDependencies: number;
+  rolledBack: boolean;
+  rows: ImportRowResult[];
+}
+
+export interface ImportIssuesOptions {
+  dryRun?: boolean;
+  sheetName?: string;
+}
+
+export interface MspdiTaskResult {
+  uid: string;
+  title: string;
+  level: number;
+  parentUid: string | null;
+  status: string;
+  priority: number;
+  assigneeId: string | null;
+  startDate: string | null;
+  dueDate: string | null;
+  estimateValue: number; // Hours
+  progress: number;
+  constraintType: 'SNET' | 'FNLT' | 'MSO' | 'MFO' | 'ALAP' | null;
+  predecessors: Array<{ uid: string; type: 'FS' | 'SS' | 'FF' | 'SF'; lag: number; lagUnit: 'hours' | 'days' | 'percent' }>;
+  issueId: string | null;
+  warnings: string[];
+}
+
+export interface MspdiResourceResult {
+  uid: string;
+  name: string;
+  email: string | null;
+  userId: string | null;
+  membership: 'existing' | 'added' | 'unmatched';
+}
+
+export interface MspdiUnmapped {
+  element: 'Calendar' | 'Task' | 'Resource' | 'Assignment';
+  field: string;
+  count: number;
+  examples: string[];
+}
+
+export interface MspdiImportResult {
+  dryRun: boolean;
+  imported: boolean;
+  title: string;
+  createdIssues: number;
+  createdDependencies: number;
+  tasks: MspdiTaskResult[];
+  resources: MspdiResourceResult[];
+  calendar: {
+    name: string;
+    workingDays: number[];
+    dailyHours: number;
+    holidays: string[];
+    calendarId: string | null;
+  } | null;
+  unmapped: MspdiUnmapped[];
+  errors: string[];
+}
+
+export interface ImportMspdiOptions {
+  dryRun?: boolean;
+  importCalendar?: boolean;
+}
+
+export class ImportsApiClient {
+  private readonly basePath = '/projects';
+
+  /**
+   * Import issues from a CSV or .xlsx file; run with dryRun first to preview and validate
+   */
+  async importIssues(
+    projectId: string,
+    file: File,
+    mapping: ImportColumnMapping,
+    options: ImportIssuesOptions = {}
+  ): Promise<ImportIssuesResult> {
+    const isCsv = file.name.toLowerCase().endsWith('.csv') || file.type === 'text/csv';
+    const response = await apiClient.post<ImportIssuesResult>(
+      `${this.basePath}/${projectId}/import/issues`,
+      {
+        format: isCsv ? 'CSV' : 'XLSX',
+        content: isCsv ? await file.text() : await readAsBase64(file),
+        sheetName: options.sheetName,
+        mapping,
+        dryRun: options.dryRun ?? false,
+      }
+    );
+
+    return response.data;
+  }
+
+  /**
+   * Import a Microsoft Project XML file; the result lists what had no counterpart here
+   */
+  async importMspdi(
+    projectId: string,
+    file: File,
+    options: ImportMspdiOptions = {}
+  ): Promise<MspdiImportResult> {
+    const response = await apiClient.post<MspdiImportResult>(
+      `${this.basePath}/${projectId}/import/mspdi`,
+      {
+        content: await file.text(),
+        importCalendar: options.importCalendar ?? true,
+        dryRun: options.dryRun ?? false,
+      }
+    );
+
+    return response.data;
+  }
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    // The result is a data URL; the payload follows the comma
+    reader.onload = () => resolve(String(reader.result).split(',', 2)[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+// Export singleton instance
+export const importsApi = new ImportsApiClient();
+export default importsApi;
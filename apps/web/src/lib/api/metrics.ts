@@ -0,0 +1,44 @@
+import { apiClient } from './client';
+import {
+  EarnedValueReport,
+  EarnedValueTimeSeries,
+  EarnedValueQuery,
+} from '../../types/project';
+
+export class MetricsApiClient {
+  private readonly basePath = '/metrics';
+
+  /**
+   * Earned value metrics for a project, or for the WBS subtree under issueId
+   */
+  async getEarnedValue(
+    projectId: string,
+    query: Pick<EarnedValueQuery, 'asOf' | 'issueId' | 'baselineId'> = {}
+  ): Promise<EarnedValueReport> {
+    const response = await apiClient.get<EarnedValueReport>(
+      `${this.basePath}/evm/${projectId}`,
+      { params: query }
+    );
+
+    return response.data;
+  }
+
+  /**
+   * Cumulative PV, EV and AC over time for S-curve charts
+   */
+  async getEarnedValueTimeSeries(
+    projectId: string,
+    query: Omit<EarnedValueQuery, 'asOf'> = {}
+  ): Promise<EarnedValueTimeSeries> {
+    const response = await apiClient.get<EarnedValueTimeSeries>(
+      `${this.basePath}/evm/${projectId}/time-series`,
+      { params: query }
+    );
+
+    return response.data;
+  }
+}
+
+// Export singleton instance
+export const metricsApi = new MetricsApiClient();
+export default metricsApi;
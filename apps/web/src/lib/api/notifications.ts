@@ -0,0 +1,113 @@
+import { apiClient } from './client';
+import { NotificationMessage } from '../sse/notifications';
+
+export type NotificationKind =
+  | 'due_soon'
+  | 'overdue'
+  | 'status_change'
+  | 'dependency_delay'
+  | 'assignee_change';
+
+export interface InboxNotification extends NotificationMessage {
+  event: NotificationKind;
+  projectId: string;
+  issueId: string | null;
+  readAt: string | null;
+}
+
+export interface NotificationInboxPage {
+  items: InboxNotification[];
+  unreadCount: number;
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+export interface NotificationInboxQuery {
+  unreadOnly?: boolean;
+  kind?: NotificationKind;
+  projectId?: string;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface NotificationPreferences {
+  dueSoon: boolean;
+  dueSoonDays: number;
+  overdue: boolean;
+  statusChange: boolean;
+  dependencyDelay: boolean;
+  assigneeChange: boolean;
+  emailEnabled: boolean;
+  emailMode: 'immediate' | 'digest';
+  digestHour: number; // UTC
+  mutedUntil: string | null;
+  mutedProjectIds: string[];
+  mutedIssueIds: string[];
+  lastDigestAt: string | null;
+}
+
+export interface DigestResult {
+  notificationCount: number;
+  sent: boolean;
+  reason?: string;
+}
+
+export class NotificationsApiClient {
+  private readonly basePath = '/notifications';
+
+  /**
+   * Current user's inbox, newest first
+   */
+  async getInbox(query: NotificationInboxQuery = {}): Promise<NotificationInboxPage> {
+    const response = await apiClient.get<NotificationInboxPage>(this.basePath, { params: query });
+    return response.data;
+  }
+
+  async getUnreadCount(): Promise<number> {
+    const response = await apiClient.get<{ unreadCount: number }>(`${this.basePath}/unread-count`);
+    return response.data.unreadCount;
+  }
+
+  async markRead(id: string): Promise<InboxNotification> {
+    const response = await apiClient.patch<InboxNotification>(`${this.basePath}/${id}/read`);
+    return response.data;
+  }
+
+  /**
+   * Mark the given notifications, or the whole inbox when ids is omitted
+   */
+  async markManyRead(ids?: string[]): Promise<{ updated: number; unreadCount: number }> {
+    const response = await apiClient.post<{ updated: number; unreadCount: number }>(
+      `${this.basePath}/read`,
+      ids ? { ids } : {}
+    );
+    return response.data;
+  }
+
+  async dismiss(id: string): Promise<void> {
+    await apiClient.delete(`${this.basePath}/${id}`);
+  }
+
+  async getPreferences(): Promise<NotificationPreferences> {
+    const response = await apiClient.get<NotificationPreferences>(`${this.basePath}/preferences`);
+    return response.data;
+  }
+
+  async updatePreferences(
+    preferences: Partial<Omit<NotificationPreferences, 'lastDigestAt'>>
+  ): Promise<NotificationPreferences> {
+    const response = await apiClient.patch<NotificationPreferences>(`${this.basePath}/preferences`, preferences);
+    return response.data;
+  }
+
+  /**
+   * Send the daily digest immediately, e.g. to check email delivery
+   */
+  async sendDigest(): Promise<DigestResult> {
+    const response = await apiClient.post<DigestResult>(`${this.basePath}/digest`);
+    return response.data;
+  }
+}
+
+export const notificationsApi = new NotificationsApiClient();
+export default notificationsApi;
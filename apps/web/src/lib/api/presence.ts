@@ -0,0 +1,39 @@
+import { apiClient } from './client';
+import { PresenceViewer } from '../sse/notifications';
+
+export interface PresenceUpdate {
+  connectionId: string;
+  selectedTaskId?: string | null;
+  draggingTaskId?: string | null;
+  cursor?: { time: number; taskId: string | null } | null;
+}
+
+export class PresenceApiClient {
+  private readonly basePath = '/projects';
+
+  /**
+   * Everyone currently connected to the project's event stream
+   */
+  async getViewers(projectId: string): Promise<PresenceViewer[]> {
+    const response = await apiClient.get<PresenceViewer[]>(
+      `${this.basePath}/${projectId}/presence`
+    );
+
+    return response.data;
+  }
+
+  /**
+   * Share this connection's selection, drag or cursor with the other viewers
+   */
+  async update(projectId: string, update: PresenceUpdate): Promise<PresenceViewer> {
+    const response = await apiClient.patch<PresenceViewer>(
+      `${this.basePath}/${projectId}/presence`,
+      update
+    );
+
+    return response.data;
+  }
+}
+
+export const presenceApi = new PresenceApiClient();
+export default presenceApi;
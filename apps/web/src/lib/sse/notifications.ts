@@ -1,7 +1,10 @@
 'use client'
 
+import { apiClient } from '@/lib/api/client'
+
 export interface NotificationMessage {
   id: string
+  event?: string // project change that produced it, e.g. 'issue.updated'
   type: 'scheduling' | 'conflict' | 'audit' | 'system'
   priority: 'low' | 'medium' | 'high' | 'critical'
   title: string
@@ -22,13 +25,32 @@ export interface SSEConnectionState {
   maxRetries: number
 }
 
+export interface PresenceViewer {
+  connectionId: string
+  userId: string
+  name: string
+  color: string
+  selectedTaskId: string | null
+  draggingTaskId: string | null
+  cursor: { time: number; taskId: string | null } | null
+  connectedAt: string
+  updatedAt: string
+}
+
+// 'sync' carries everyone already connected when this connection opens
+export type PresenceEvent =
+  | { action: 'sync'; viewers: PresenceViewer[] }
+  | { action: 'joined' | 'updated' | 'left'; viewer: PresenceViewer }
+
 export type NotificationCallback = (notification: NotificationMessage) => void
 export type ConnectionStateCallback = (state: SSEConnectionState) => void
+export type PresenceCallback = (event: PresenceEvent) => void
 
 export class SSENotificationClient {
   private eventSource: EventSource | null = null
   private callbacks: Set<NotificationCallback> = new Set()
   private stateCallbacks: Set<ConnectionStateCallback> = new Set()
+  private presenceCallbacks: Set<PresenceCallback> = new Set()
   private reconnectTimer: NodeJS.Timeout | null = null
   private heartbeatTimer: NodeJS.Timeout | null = null
   
@@ -39,10 +61,11 @@ export class SSENotificationClient {
   }
 
   private baseUrl: string
-  private projectId?: string
+  private projectId: string // the stream is per project; the API rejects connections without one
   private userId?: string
+  private lastEventId?: string // replayed from on reconnect
 
-  constructor(baseUrl: string = '/api/sse', projectId?: string, userId?: string) {
+  constructor(projectId: string, userId?: string, baseUrl: string = `${apiClient.baseURL}/sse`) {
     this.baseUrl = baseUrl
     this.projectId = projectId
     this.userId = userId
@@ -76,6 +99,14 @@ export class SSENotificationClient {
     })
   }
 
+  // Shared clients are opened by their first holder; later holders reuse the open stream
+  ensureConnected(): Promise<void> {
+    if (this.eventSource && this.eventSource.readyState !== EventSource.CLOSED) {
+      return Promise.resolve()
+    }
+    return this.connect()
+  }
+
   disconnect(): void {
     console.log('[SSE] Disconnecting...')
     
@@ -112,6 +143,11 @@ export class SSENotificationClient {
     return () => this.stateCallbacks.delete(callback)
   }
 
+  subscribeToPresence(callback: PresenceCallback): () => void {
+    this.presenceCallbacks.add(callback)
+    return () => this.presenceCallbacks.delete(callback)
+  }
+
   getState(): SSEConnectionState {
     return { ...this.state }
   }
@@ -146,14 +182,22 @@ export class SSENotificationClient {
   // Private methods
   private buildConnectionUrl(): string {
     const params = new URLSearchParams()
-    
-    if (this.projectId) {
-      params.append('projectId', this.projectId)
-    }
+    params.append('projectId', this.projectId)
     
     if (this.userId) {
       params.append('userId', this.userId)
     }
+
+    // EventSource cannot send an Authorization header
+    const token = typeof window !== 'undefined' ? localStorage.getItem('auth_token') : null
+    if (token) {
+      params.append('access_token', token)
+    }
+
+    // A new EventSource does not carry the old one's Last-Event-ID
+    if (this.lastEventId) {
+      params.append('lastEventId', this.lastEventId)
+    }
     
     params.append('timestamp', Date.now().toString())
     
@@ -205,6 +249,9 @@ export class SSENotificationClient {
     this.eventSource.addEventListener('notification', (event) => {
       try {
         const notification: NotificationMessage = JSON.parse(event.data)
+        if (event.lastEventId) {
+          this.lastEventId = event.lastEventId
+        }
         this.notifyCallbacks(notification)
       } catch (error) {
         console.error('[SSE] Failed to parse notification:', error)
@@ -216,10 +263,40 @@ export class SSENotificationClient {
       console.log('[SSE] Heartbeat received')
     })
 
+    this.eventSource.addEventListener('resync', (event) => {
+      try {
+        const data = JSON.parse(event.data)
+        this.lastEventId = undefined
+        this.notifyCallbacks({
+          id: `resync-${Date.now()}`,
+          type: 'system',
+          priority: 'medium',
+          title: 'Reconnected',
+          message: 'Some changes made while offline could not be replayed. Refresh to see the latest data.',
+          timestamp: Date.now(),
+          projectId: data.projectId,
+          autoClose: false
+        })
+      } catch (error) {
+        console.error('[SSE] Failed to parse resync data:', error)
+      }
+    })
+
+    this.eventSource.addEventListener('presence', (event) => {
+      try {
+        this.notifyPresence(JSON.parse(event.data))
+      } catch (error) {
+        console.error('[SSE] Failed to parse presence:', error)
+      }
+    })
+
     this.eventSource.addEventListener('connection', (event) => {
       try {
         const data = JSON.parse(event.data)
         this.updateState({ connectionId: data.connectionId })
+        if (Array.isArray(data.viewers)) {
+          this.notifyPresence({ action: 'sync', viewers: data.viewers })
+        }
         console.log('[SSE] Connection ID:', data.connectionId)
       } catch (error) {
         console.error('[SSE] Failed to parse connection data:', error)
@@ -298,6 +375,16 @@ export class SSENotificationClient {
     })
   }
 
+  private notifyPresence(event: PresenceEvent): void {
+    this.presenceCallbacks.forEach(callback => {
+      try {
+        callback(event)
+      } catch (error) {
+        console.error('[SSE] Presence callback error:', error)
+      }
+    })
+  }
+
   private updateState(updates: Partial<SSEConnectionState>): void {
     this.state = { ...this.state, ...updates }
     this.stateCallbacks.forEach(callback => {
@@ -310,19 +397,41 @@ export class SSENotificationClient {
   }
 }
 
-// Singleton instance for global notifications
-let globalSSEClient: SSENotificationClient | null = null
+// Utility function to create project-specific client
+export const createProjectSSEClient = (projectId: string, userId?: string): SSENotificationClient => {
+  return new SSENotificationClient(projectId, userId)
+}
 
-export const getGlobalSSEClient = (): SSENotificationClient => {
-  if (!globalSSEClient) {
-    globalSSEClient = new SSENotificationClient()
-  }
-  return globalSSEClient
+export interface SharedSSEClient {
+  client: SSENotificationClient
+  release: () => void // the stream closes when its last holder releases it
 }
 
-// Utility function to create project-specific client
-export const createProjectSSEClient = (projectId: string, userId?: string): SSENotificationClient => {
-  return new SSENotificationClient('/api/sse', projectId, userId)
+// Each open stream is a presence session on the server, so a tab keeps one per project
+const sharedProjectClients = new Map<string, { client: SSENotificationClient; holders: number }>()
+
+export const acquireProjectSSEClient = (projectId: string, userId?: string): SharedSSEClient => {
+  const key = `${projectId}:${userId ?? ''}`
+  let shared = sharedProjectClients.get(key)
+  if (!shared) {
+    shared = { client: createProjectSSEClient(projectId, userId), holders: 0 }
+    sharedProjectClients.set(key, shared)
+  }
+  shared.holders++
+
+  const entry = shared
+  let released = false
+  return {
+    client: entry.client,
+    release: () => {
+      if (released) return
+      released = true
+      entry.holders--
+      if (entry.holders > 0) return
+      entry.client.disconnect()
+      sharedProjectClients.delete(key)
+    }
+  }
 }
 
 export default SSENotificationClient
\ No newline at end of file
@@ -5,6 +5,7 @@ import { GanttStore, GanttTask, GanttTimeScale, GanttViewport, GanttTimelineConf
 import { GanttUtils } from '@/lib/gantt-utils'
 import { SchedulingResult } from '@/types/scheduling'
 import { apiClient, ConflictError, StateSnapshot } from '@/lib/api-client'
+import { baselinesApi } from '@/lib/api/baselines'
 import { offlineSyncManager } from '@/lib/offline-sync'
 import { errorLogger } from '@/lib/error-logger'
 import { userErrorMessages } from '@/lib/user-error-messages'
@@ -23,6 +24,7 @@ interface GanttState {
   loading: boolean
   error?: string
   lastCalculationResult?: SchedulingResult
+  activeBaselineId?: string
 }
 
 export const useGanttStore = create<GanttStore>()(
@@ -139,6 +141,8 @@ export const useGanttStore = create<GanttStore>()(
         loading: false,
         error: undefined,
         lastCalculationResult: undefined,
+        viewers: [],
+        remoteMoves: {},
 
         // Actions
         setTasks: (tasks: GanttTask[]) => {
@@ -712,6 +716,7 @@ export const useGanttStore = create<GanttStore>()(
               dependencies: [],
               level: apiTask.level,
               order: apiTask.order,
+              type: apiTask.type,
               color: apiTask.color,
               version: apiTask.version || 1
             }))
@@ -792,7 +797,113 @@ export const useGanttStore = create<GanttStore>()(
           set({ lastCalculationResult: result })
         },
 
+        // Overlay the dates captured in a baseline; null hides the ghost bars
+        showBaseline: async (projectId: string, baselineId: string | null) => {
+          if (!baselineId) {
+            set((state) => ({
+              activeBaselineId: undefined,
+              tasks: state.tasks.map(({ baseline, ...task }) => task)
+            }))
+            return
+          }
+
+          try {
+            const variance = await baselinesApi.getVariance(projectId, baselineId)
+            const baselineByTask = new Map(
+              variance.tasks
+                .filter(task => task.baselineStartDate && task.baselineEndDate)
+                .map(task => [task.issueId, {
+                  startDate: new Date(task.baselineStartDate as string),
+                  endDate: new Date(task.baselineEndDate as string),
+                  progress: task.baselineProgress ?? 0
+                }])
+            )
+
+            set((state) => ({
+              activeBaselineId: baselineId,
+              tasks: state.tasks.map(task => ({
+                ...task,
+                baseline: baselineByTask.get(task.id)
+              }))
+            }))
+          } catch (error) {
+            const errorMessage = userErrorMessages.generateErrorMessage(error as Error, {
+              operation: 'fetch_baseline',
+              context: { projectId, baselineId }
+            })
+
+            errorLogger.captureError(error as Error, {
+              level: 'api',
+              context: { operation: 'showBaseline', projectId, baselineId }
+            })
+
+            toast.error(errorMessage.message)
+          }
+        },
+
         // AC1: Utility methods for conflict resolution
+        setViewers: (viewers) => {
+          set({ viewers })
+        },
+
+        upsertViewer: (viewer) => {
+          set((state) => ({
+            viewers: [
+              ...state.viewers.filter(existing => existing.connectionId !== viewer.connectionId),
+              viewer
+            ]
+          }))
+        },
+
+        removeViewer: (connectionId: string) => {
+          set((state) => ({
+            viewers: state.viewers.filter(viewer => viewer.connectionId !== connectionId)
+          }))
+        },
+
+        // Patches tasks from pushed change events instead of refetching the whole chart
+        applyRemoteTaskUpdates: (updates, movedBy) => {
+          const byId = new Map(updates.map(update => [update.id, update]))
+          const remoteMoves = { ...get().remoteMoves }
+          let changed = false
+
+          const tasks = get().tasks.map(task => {
+            const update = byId.get(task.id)
+            if (!update) return task
+
+            const startDate = update.startDate ?? task.startDate
+            const endDate = update.endDate ?? task.endDate
+            if (startDate.getTime() !== task.startDate.getTime() || endDate.getTime() !== task.endDate.getTime()) {
+              remoteMoves[task.id] = {
+                previousStartDate: task.startDate,
+                previousEndDate: task.endDate,
+                movedBy,
+                movedAt: Date.now()
+              }
+            }
+
+            changed = true
+            return {
+              ...task,
+              title: update.title ?? task.title,
+              startDate,
+              endDate,
+              progress: update.progress ?? task.progress,
+              version: update.version ?? task.version
+            }
+          })
+
+          if (changed) {
+            set({ tasks, remoteMoves })
+          }
+        },
+
+        clearRemoteMove: (taskId: string) => {
+          const remoteMoves = { ...get().remoteMoves }
+          delete remoteMoves[taskId]
+          set({ remoteMoves })
+        },
+
         getStateSnapshot: () => {
           const { tasks, dependencies, config } = get()
           return {
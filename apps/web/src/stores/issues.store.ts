@@ -70,7 +70,8 @@ export const useIssuesStore = create<IssuesStore>((set, get) => ({
         pagination: {
           cursor: data.nextCursor,
           hasMore: data.hasMore,
-          total: data.total,
+          // The API only counts on the first page
+          total: data.total ?? state.pagination.total,
         },
         isLoading: false,
       }))
@@ -1,6 +1,7 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { NotificationMessage, SSEConnectionState } from '@/lib/sse/notifications'
+import { notificationsApi, InboxNotification } from '@/lib/api/notifications'
 
 export interface ToastNotification extends NotificationMessage {
   visible: boolean
@@ -47,6 +48,7 @@ export interface NotificationState {
   dismissAllToasts: () => void
   removeNotification: (id: string) => void
   clearNotifications: (type?: NotificationMessage['type']) => void
+  loadInbox: () => Promise<void>
   
   updateSettings: (settings: Partial<NotificationSettings>) => void
   
@@ -146,8 +148,20 @@ export const useNotificationStore = create<NotificationState>()(
         })
       },
       
-      markAllAsRead: () => 
-        set({ unreadCount: 0 }),
+      markAllAsRead: () => {
+        const state = get()
+        if (state.notifications.some(n => isUnreadInboxItem(n))) {
+          notificationsApi.markManyRead().catch(error => {
+            console.warn('Failed to mark inbox notifications as read:', error)
+          })
+        }
+        set({
+          notifications: state.notifications.map(n =>
+            isUnreadInboxItem(n) ? { ...n, readAt: new Date().toISOString() } as InboxNotification : n
+          ),
+          unreadCount: 0
+        })
+      },
       
       dismissToast: (id) =>
         set(state => ({
@@ -161,11 +175,18 @@ export const useNotificationStore = create<NotificationState>()(
           toasts: state.toasts.map(t => ({ ...t, visible: false, dismissed: true }))
         })),
       
-      removeNotification: (id) =>
+      removeNotification: (id) => {
+        const notification = get().notifications.find(n => n.id === id)
+        if (notification && isInboxItem(notification)) {
+          notificationsApi.dismiss(id).catch(error => {
+            console.warn('Failed to dismiss notification:', error)
+          })
+        }
         set(state => ({
           notifications: state.notifications.filter(n => n.id !== id),
           toasts: state.toasts.filter(t => t.id !== id)
-        })),
+        }))
+      },
       
       clearNotifications: (type) =>
         set(state => ({
@@ -182,6 +203,26 @@ export const useNotificationStore = create<NotificationState>()(
             : 0
         })),
       
+      // Merge the server-side inbox (due dates, assignments, ...) into the live stream
+      loadInbox: async () => {
+        try {
+          const page = await notificationsApi.getInbox({ limit: 50 })
+          const state = get()
+          const known = new Set(state.notifications.map(n => n.id))
+          const added = page.items.filter(item => !known.has(item.id))
+          if (added.length === 0) return
+
+          set({
+            notifications: [...added, ...state.notifications]
+              .sort((a, b) => b.timestamp - a.timestamp)
+              .slice(0, 1000),
+            unreadCount: state.unreadCount + added.filter(item => !item.readAt).length
+          })
+        } catch (error) {
+          console.warn('Failed to load notification inbox:', error)
+        }
+      },
+      
       // Settings actions
       updateSettings: (newSettings) =>
         set(state => ({
@@ -256,6 +297,14 @@ export const useNotificationStore = create<NotificationState>()(
 )
 
 // Helper functions
+function isInboxItem(notification: NotificationMessage): notification is InboxNotification {
+  return 'readAt' in notification
+}
+
+function isUnreadInboxItem(notification: NotificationMessage): boolean {
+  return isInboxItem(notification) && !notification.readAt
+}
+
 function shouldShowAsToast(
   notification: NotificationMessage, 
   settings: NotificationSettings
@@ -309,6 +358,7 @@ export const useNotificationPanel = () => {
   const setActiveTab = useNotificationStore(state => state.setActiveTab)
   const markAllAsRead = useNotificationStore(state => state.markAllAsRead)
   const clearNotifications = useNotificationStore(state => state.clearNotifications)
+  const loadInbox = useNotificationStore(state => state.loadInbox)
   
   return {
     panelOpen,
@@ -319,6 +369,7 @@ export const useNotificationPanel = () => {
     setPanelOpen,
     setActiveTab,
     markAllAsRead,
-    clearNotifications
+    clearNotifications,
+    loadInbox
   }
 }
\ No newline at end of file
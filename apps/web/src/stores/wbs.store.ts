@@ -19,6 +19,7 @@ interface WBSActions {
   expandAll: () => void
   collapseAll: () => void
   fetchTree: (projectId?: string) => Promise<void>
+  loadChildren: (nodeId: string) => Promise<void>
   reorderNode: (nodeId: string, newIndex: number, siblingIds: string[]) => Promise<void>
   changeParent: (nodeId: string, newParentId: string | null, newIndex: number) => Promise<void>
 }
@@ -43,6 +44,12 @@ export const useWBSStore = create<WBSStore>()(
           
           // Update node expansion state
           updateNodeExpansion(get, set, nodeId, true)
+
+          // Children below the server's expand level arrive on demand
+          const node = findNodeInTree(get().nodes, nodeId)
+          if (node && node.hasChildren && node.children.length === 0) {
+            get().loadChildren(nodeId)
+          }
         },
 
         collapseNode: (nodeId: string) => {
@@ -174,6 +181,39 @@ export const useWBSStore = create<WBSStore>()(
           }
         },
 
+        loadChildren: async (nodeId: string) => {
+          const node = findNodeInTree(get().nodes, nodeId)
+          if (!node || !node.hasChildren || node.children.length > 0) {
+            return
+          }
+
+          try {
+            const params = new URLSearchParams()
+            params.append('parentId', nodeId)
+            params.append('expandLevel', '0')
+            params.append('includeCompleted', 'true')
+
+            const response = await fetch(`/api/v1/projects/${node.projectId}/issues/tree?${params.toString()}`, {
+              headers: {
+                'Authorization': `Bearer ${localStorage.getItem('token')}`
+              }
+            })
+
+            if (!response.ok) {
+              throw new Error(`Failed to load WBS subtree: ${response.statusText}`)
+            }
+
+            const data = await response.json()
+            const children = convertAPIDataToTreeNodes(data.nodes || [])
+
+            set({ nodes: updateNodeInTree(get().nodes, nodeId, { children }) })
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to load WBS subtree'
+            })
+          }
+        },
+
         fetchTree: async (projectId?: string) => {
           set({ loading: true, error: undefined })
           
@@ -185,8 +225,8 @@ export const useWBSStore = create<WBSStore>()(
             params.append('maxDepth', '10')
 
             if (projectId) {
-              // Use project-specific endpoint: GET /issues/projects/:projectId/tree
-              endpoint = `/api/v1/issues/projects/${projectId}/tree?${params.toString()}`
+              // Use project-specific endpoint: GET /projects/:projectId/issues/tree
+              endpoint = `/api/v1/projects/${projectId}/issues/tree?${params.toString()}`
             } else {
               // Use global endpoint: GET /issues/tree  
               params.append('projectId', '') // Empty for all projects
@@ -400,6 +440,21 @@ function changeParentInTree(
   return insertNode(nodesWithoutTarget, newParentId)
 }
 
+function findNodeInTree(nodes: WBSTreeNode[], nodeId: string): WBSTreeNode | undefined {
+  for (const node of nodes) {
+    if (node.id === nodeId) {
+      return node
+    }
+
+    const found = findNodeInTree(node.children, nodeId)
+    if (found) {
+      return found
+    }
+  }
+
+  return undefined
+}
+
 function findNodeLevel(nodes: WBSTreeNode[], nodeId: string, level: number = 0): number {
   for (const node of nodes) {
     if (node.id === nodeId) {
@@ -461,7 +516,12 @@ function convertAPIDataToTreeNodes(apiNodes: any[]): WBSTreeNode[] {
     children: apiNode.children ? convertAPIDataToTreeNodes(apiNode.children) : [],
     hasChildren: apiNode.hasChildren,
     isVisible: apiNode.isVisible,
-    path: apiNode.path
+    path: apiNode.path,
+    wbsCode: apiNode.wbsCode,
+    childCount: apiNode.childCount,
+    rolledUpEstimatedHours: apiNode.rolledUpEstimatedHours,
+    rolledUpSpentHours: apiNode.rolledUpSpentHours,
+    rolledUpProgress: apiNode.rolledUpProgress
   }))
 }
 
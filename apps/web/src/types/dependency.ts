@@ -8,13 +8,17 @@ export enum DependencyType {
   FF = 'FF'  // Finish-to-Finish (new)
 }
 
+// Working hours, working days, or percent of the predecessor's duration
+export type LagUnit = 'hours' | 'days' | 'percent';
+
 export interface Dependency {
   id: string;
   projectId: string;
   predecessorId: string;
   successorId: string;
   type: DependencyType;
-  lag: number; // in hours
+  lag: number; // in lagUnit, negative for leads
+  lagUnit: LagUnit;
   createdAt: string;
   updatedAt: string;
 }
@@ -24,11 +28,13 @@ export interface CreateDependencyRequest {
   successorId: string;
   type?: DependencyType;
   lag?: number;
+  lagUnit?: LagUnit;
 }
 
 export interface UpdateDependencyRequest {
   type?: DependencyType;
   lag?: number;
+  lagUnit?: LagUnit;
 }
 
 export interface DependencyResponse extends Dependency {
@@ -82,8 +88,10 @@ export class DependencyVisualUtils {
     return this.STYLES[type];
   }
 
-  static formatLagDisplay(lagHours: number): string {
+  static formatLagDisplay(lagHours: number, unit: LagUnit = 'hours'): string {
     if (lagHours === 0) return '0h';
+    if (unit === 'percent') return `${lagHours > 0 ? '+' : ''}${lagHours}%`;
+    if (unit === 'days') return `${lagHours > 0 ? '+' : ''}${lagHours}d`;
     
     const absDays = Math.floor(Math.abs(lagHours) / 24);
     const remainingHours = Math.abs(lagHours) % 24;
@@ -233,7 +241,7 @@ export class DependencyLineCalculator {
       id: dependency.id,
       type: dependency.type,
       lag: dependency.lag,
-      lagDisplay: DependencyVisualUtils.formatLagDisplay(dependency.lag),
+      lagDisplay: DependencyVisualUtils.formatLagDisplay(dependency.lag, dependency.lagUnit),
       startPoint,
       endPoint,
       path,
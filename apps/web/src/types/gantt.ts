@@ -25,6 +25,13 @@ export interface GanttTask {
   type?: 'task' | 'milestone' | 'summary'
   milestoneDate?: Date
   version?: number // AC1: Add version for optimistic locking
+  baseline?: GanttTaskBaseline // Dates captured in the active baseline, drawn as a ghost bar
+}
+
+export interface GanttTaskBaseline {
+  startDate: Date
+  endDate: Date
+  progress: number
 }
 
 export interface GanttDependency {
@@ -35,7 +42,7 @@ export interface GanttDependency {
   toTaskId: string    // alias for successorId
   type: 'FS' | 'SS' | 'FF' | 'SF'
   lag: number
-  lagUnit: 'days' | 'hours'
+  lagUnit: 'days' | 'hours' | 'percent'
   version?: number // AC1: Add version for optimistic locking
 }
 
@@ -66,6 +73,36 @@ export interface GanttInteraction {
   mousePosition: { x: number; y: number }
 }
 
+// Another user connected to the project's event stream
+export interface GanttPresenceViewer {
+  connectionId: string
+  userId: string
+  name: string
+  color: string
+  selectedTaskId: string | null
+  draggingTaskId: string | null // soft-locks the bar for everyone else
+  cursor: { time: number; taskId: string | null } | null
+  connectedAt: string
+  updatedAt: string
+}
+
+// A bar another user moved; the previous dates let it animate from where it was drawn
+export interface GanttRemoteMove {
+  previousStartDate: Date
+  previousEndDate: Date
+  movedBy?: string
+  movedAt: number
+}
+
+export interface GanttRemoteTaskUpdate {
+  id: string
+  title?: string
+  startDate?: Date | null
+  endDate?: Date | null
+  progress?: number
+  version?: number
+}
+
 export interface GanttState {
   tasks: GanttTask[]
   dependencies: GanttDependency[]
@@ -78,6 +115,9 @@ export interface GanttState {
   loading: boolean
   error?: string
   lastCalculationResult?: SchedulingResult
+  activeBaselineId?: string
+  viewers: GanttPresenceViewer[]
+  remoteMoves: Record<string, GanttRemoteMove>
 }
 
 export interface GanttActions {
@@ -102,6 +142,14 @@ export interface GanttActions {
   setViewportSize: (width: number, height: number) => void
   updateViewport: () => void
   setLastCalculationResult: (result: SchedulingResult | undefined) => void
+  showBaseline: (projectId: string, baselineId: string | null) => Promise<void>
+
+  // Presence and changes pushed by other users
+  setViewers: (viewers: GanttPresenceViewer[]) => void
+  upsertViewer: (viewer: GanttPresenceViewer) => void
+  removeViewer: (connectionId: string) => void
+  applyRemoteTaskUpdates: (updates: GanttRemoteTaskUpdate[], movedBy?: string) => void
+  clearRemoteMove: (taskId: string) => void
   
   // AC1: New conflict resolution methods
   getStateSnapshot: () => any
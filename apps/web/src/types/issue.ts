@@ -74,7 +74,7 @@ export interface IssueFilters {
 
 export interface PaginatedIssues {
   items: Issue[];
-  total: number;
+  total?: number;
   nextCursor: string | null;
   hasMore: boolean;
 }
@@ -121,17 +121,26 @@ export interface IssueFormData {
 }
 
 export interface BulkOperation {
-  operation: 'update' | 'move' | 'delete';
   id: string;
-  fields?: UpdateIssueData;
+  version: number;
+  fields: Pick<UpdateIssueData, 'status' | 'assigneeId' | 'labels' | 'startDate' | 'dueDate'> & {
+    milestoneId?: string | null;
+  };
 }
 
 export interface BulkOperationResponse {
+  atomic: boolean;
+  totalProcessed: number;
   successCount: number;
-  errorCount: number;
-  errors: Array<{
+  failureCount: number;
+  results: Array<{
     id: string;
-    error: string;
+    success: boolean;
+    conflict?: boolean;
+    error?: string;
+    previousVersion?: number;
+    newVersion?: number;
+    currentVersion?: number;
   }>;
 }
 
@@ -172,7 +181,7 @@ export interface IssueDependency {
   successorId: string;
   type: 'FS' | 'SS' | 'FF' | 'SF';
   lag: number;
-  lagUnit: 'days' | 'hours';
+  lagUnit: 'days' | 'hours' | 'percent';
 }
 
 // Tree operations
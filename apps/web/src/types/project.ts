@@ -129,4 +129,116 @@ export interface AccessValidationResult {
   tokenInfo?: ProjectAccessTokenInfo;
   error?: string;
   requiresAuthentication: boolean;
-}
\ No newline at end of file
+}
+// Schedule baselines
+export interface ScheduleBaseline {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  createdBy: string;
+  createdAt: string;
+  taskCount: number;
+}
+
+export interface CreateBaselineData {
+  name: string;
+  description?: string;
+}
+
+export interface BaselineTaskVariance {
+  issueId: string;
+  title: string;
+  state: 'tracked' | 'added' | 'removed';
+  baselineStartDate: string | null;
+  baselineEndDate: string | null;
+  baselineProgress: number | null;
+  currentStartDate: string | null;
+  currentEndDate: string | null;
+  currentProgress: number | null;
+  startVarianceDays: number | null;
+  finishVarianceDays: number | null;
+  durationVarianceDays: number | null;
+}
+
+export interface BaselineVariance {
+  baseline: ScheduleBaseline;
+  tasks: BaselineTaskVariance[];
+  summary: {
+    trackedTasks: number;
+    addedTasks: number;
+    removedTasks: number;
+    lateStarts: number;
+    lateFinishes: number;
+    maxFinishSlipDays: number;
+    projectFinishVarianceDays: number | null;
+  };
+  generatedAt: string;
+}
+
+// Earned value metrics, in currency when the project has an hourly rate and in hours otherwise
+export interface EarnedValueMetrics {
+  bac: number;
+  pv: number;
+  ev: number;
+  ac: number;
+  sv: number;
+  cv: number;
+  cpi: number | null;
+  spi: number | null;
+  eac: number;
+  etc: number;
+  vac: number;
+  percentComplete: number;
+}
+
+export interface EarnedValueScope {
+  projectId: string;
+  rootIssueId: string | null;
+  hourlyRate: number | null;
+  costUnit: 'currency' | 'hours';
+  plannedFrom: {
+    source: 'baseline' | 'schedule';
+    baselineId: string | null;
+    baselineName: string | null;
+  };
+  taskCount: number;
+  unscheduledTaskCount: number;
+}
+
+export interface EarnedValueReport extends EarnedValueScope {
+  asOf: string;
+  metrics: EarnedValueMetrics;
+  nodes: Array<{
+    issueId: string;
+    title: string;
+    parentIssueId: string | null;
+    depth: number;
+    isSummary: boolean;
+    metrics: EarnedValueMetrics;
+  }>;
+}
+
+export interface EarnedValuePoint {
+  date: string;
+  pv: number;
+  ev: number | null;
+  ac: number | null;
+  cpi: number | null;
+  spi: number | null;
+}
+
+export interface EarnedValueTimeSeries extends EarnedValueScope {
+  interval: 'day' | 'week';
+  bac: number;
+  points: EarnedValuePoint[];
+}
+
+export interface EarnedValueQuery {
+  asOf?: string;
+  issueId?: string;
+  baselineId?: string;
+  from?: string;
+  to?: string;
+  interval?: 'day' | 'week';
+}
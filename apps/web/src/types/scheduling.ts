@@ -242,12 +242,15 @@ export interface AppliedChange {
 // Audit log types
 export interface AuditLogQuery {
   projectId?: string;
-  operation?: AuditOperation;
+  operation?: AuditOperation | string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
   startDate?: Date;
   endDate?: Date;
   userId?: string;
   limit?: number;
-  offset?: number;
+  cursor?: string;
 }
 
 export type AuditOperation = 
@@ -258,17 +261,27 @@ export type AuditOperation =
   | 'preview'
   | 'integrity_check';
 
+export type AuditResult = 'SUCCESS' | 'FAILURE' | 'PARTIAL';
+
 export interface AuditLogEntry {
   id: string;
   projectId: string;
-  operation: AuditOperation;
+  entityType: string;
+  entityId: string;
+  issueId: string | null;
+  action: string;
+  operation: AuditOperation | string; // metadata operation, otherwise the raw action
   userId: string;
   userName: string;
   timestamp: Date;
+  before: any;
+  after: any;
   metadata: AuditMetadata;
-  performanceData: PerformanceData;
-  result: 'SUCCESS' | 'FAILURE' | 'PARTIAL';
+  performanceData: PerformanceData | null;
+  result: AuditResult;
   changes: ChangeRecord[];
+  chainSeq: number | null; // position in the project's hash chain
+  hash: string | null;
 }
 
 export interface AuditMetadata {
@@ -280,18 +293,17 @@ export interface AuditMetadata {
   scheduleChangeHours?: number;
   userAgent?: string;
   ipAddress?: string;
+  [key: string]: any;
 }
 
 export interface PerformanceData {
-  calculationTime: number;
-  memoryUsage: number;
-  apiResponseTime: number;
-  databaseQueryTime: number;
-  cpuUsage?: number;
+  calculationTime: number; // ms
+  memoryUsage: number | null; // MB
+  tasksProcessed: number | null;
 }
 
 export interface ChangeRecord {
-  entityType: 'TASK' | 'DEPENDENCY' | 'PROJECT' | 'SCHEDULE';
+  entityType: string;
   entityId: string;
   action: 'CREATE' | 'UPDATE' | 'DELETE' | 'RESTORE';
   field?: string;
@@ -299,10 +311,20 @@ export interface ChangeRecord {
   newValue?: any;
 }
 
+export interface AuditPerformanceAverages {
+  calculationTime: number | null;
+  memoryUsage: number | null;
+}
+
 export interface AuditLogSummary {
+  period: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  startDate: Date;
+  endDate: Date;
   totalEntries: number;
-  operationCounts: Record<AuditOperation, number>;
-  averagePerformance: PerformanceData;
+  successRate: number;
+  operationCounts: Record<string, number>;
+  resultCounts: Record<AuditResult, number>;
+  averagePerformance: AuditPerformanceAverages;
   topUsers: Array<{ userId: string; userName: string; operations: number }>;
   trends: AuditTrend[];
 }
@@ -310,10 +332,49 @@ export interface AuditLogSummary {
 export interface AuditTrend {
   date: Date;
   operations: number;
-  averageResponseTime: number;
+  averageResponseTime: number | null;
   successRate: number;
 }
 
+export interface AuditLogArchive {
+  id: string;
+  entryCount: number;
+  rangeStart: Date;
+  rangeEnd: Date;
+  compression: 'LOW' | 'MEDIUM' | 'HIGH';
+  archiveSize: number; // bytes
+  retainUntil: Date | null;
+  restoredAt: Date | null;
+  purgedAt: Date | null; // payload dropped after retention; chain anchors remain
+  archivedBy: string;
+  createdAt: Date;
+}
+
+export interface AuditChainBreak {
+  seq: number;
+  reason: 'hash_mismatch' | 'link_mismatch' | 'missing_entries' | 'head_mismatch';
+  entryId: string | null;
+  archiveId: string | null;
+  expected: string | null;
+  actual: string | null;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  fromSeq: number;
+  toSeq: number;
+  headSeq: number;
+  headHash: string | null;
+  startHash: string | null;
+  endHash: string | null;
+  checkedEntries: number;
+  checkedArchivedEntries: number;
+  anchoredEntries: number;
+  unchainedEntries: number;
+  firstBreak: AuditChainBreak | null;
+  verifiedAt: Date;
+}
+
 // UI state types
 export interface SchedulingUIState {
   isCalculating: boolean;
@@ -349,7 +410,7 @@ export interface NotificationAction {
 
 // Export utility types
 export interface SchedulingExportOptions {
-  format: 'CSV' | 'JSON' | 'EXCEL' | 'PDF';
+  format: 'CSV' | 'JSON' | 'EXCEL';
   includeMetrics: boolean;
   includeWarnings: boolean;
   dateRange?: {
@@ -22,6 +22,11 @@ export interface WBSTreeNode extends WBSNode {
   hasChildren: boolean
   isVisible: boolean
   path: string[]
+  wbsCode?: string
+  childCount?: number
+  rolledUpEstimatedHours?: number
+  rolledUpSpentHours?: number
+  rolledUpProgress?: number
 }
 
 export interface WBSTreeState {
@@ -41,6 +46,7 @@ export interface WBSActions {
   expandAll: () => void
   collapseAll: () => void
   fetchTree: (projectId?: string) => Promise<void>
+  loadChildren: (nodeId: string) => Promise<void>
   reorderNode: (nodeId: string, newIndex: number, siblingIds: string[]) => Promise<void>
   changeParent: (nodeId: string, newParentId: string | null, newIndex: number) => Promise<void>
 }